@@ -0,0 +1,41 @@
+-- Two-phase inter-store transfers
+-- Dispatch moves stock out of the source store into an in-transit state,
+-- the destination store then confirms received quantities line by line
+
+-- ============================================
+-- TRANSFER HEADER
+-- ============================================
+
+ALTER TABLE transfers
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id);
+
+-- ============================================
+-- TRANSFER LINE VARIANCES
+-- ============================================
+
+ALTER TABLE transfer_lines
+  ADD COLUMN IF NOT EXISTS damaged_qty DECIMAL(15,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS short_qty DECIMAL(15,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS over_qty DECIMAL(15,4) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS receive_notes TEXT;
+
+-- Transfers awaiting receipt are looked up per destination store
+CREATE INDEX IF NOT EXISTS idx_transfers_to_store_status
+  ON transfers(tenant_id, to_store_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_transfers_from_store_status
+  ON transfers(tenant_id, from_store_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_lines_transfer
+  ON transfer_lines(transfer_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN transfer_lines.quantity IS 'Quantity dispatched from the source store';
+COMMENT ON COLUMN transfer_lines.received_qty IS 'Good quantity confirmed by the destination store';
+COMMENT ON COLUMN transfer_lines.damaged_qty IS 'Quantity that arrived damaged (not added to sellable stock)';
+COMMENT ON COLUMN transfer_lines.short_qty IS 'Quantity dispatched but not received';
+COMMENT ON COLUMN transfer_lines.over_qty IS 'Quantity received in excess of the dispatched quantity';
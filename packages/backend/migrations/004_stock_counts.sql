@@ -0,0 +1,47 @@
+-- Stock count lifecycle (full / cycle / spot)
+-- draft -> in_progress (system quantities frozen) -> completed (review) -> posted
+
+-- ============================================
+-- STOCK COUNT HEADER
+-- ============================================
+
+ALTER TABLE stock_counts
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id);
+
+-- ============================================
+-- COUNT ENTRIES (one row per counter submission)
+-- ============================================
+
+-- Several counters can count the same product (e.g. shop floor and backroom);
+-- stock_count_lines.counted_qty is the sum of the entries for that line
+CREATE TABLE IF NOT EXISTS stock_count_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    stock_count_id UUID NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+    stock_count_line_id UUID NOT NULL REFERENCES stock_count_lines(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id),
+    quantity DECIMAL(15,4) NOT NULL,
+    barcode VARCHAR(100),
+    counted_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_store_status
+  ON stock_counts(tenant_id, store_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_count
+  ON stock_count_lines(stock_count_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_count_lines_product
+  ON stock_count_lines(stock_count_id, product_id);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_entries_line
+  ON stock_count_entries(stock_count_line_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN stock_count_lines.system_qty IS 'Stock on hand frozen when the count was started';
+COMMENT ON TABLE stock_count_entries IS 'Individual count submissions per counter; summed into stock_count_lines.counted_qty';
@@ -0,0 +1,55 @@
+-- Purchase order workflow
+-- draft -> approved -> sent -> partially_received -> received -> closed
+
+-- ============================================
+-- PURCHASE ORDER STATUS
+-- ============================================
+
+ALTER TABLE purchase_orders
+  DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+
+ALTER TABLE purchase_orders
+  ADD CONSTRAINT purchase_orders_status_check
+  CHECK (status IN ('draft', 'approved', 'sent', 'partially_received', 'received', 'closed', 'cancelled'));
+
+ALTER TABLE purchase_orders
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sent_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- ============================================
+-- GRN <-> PO LINE LINK
+-- ============================================
+
+ALTER TABLE grns
+  DROP CONSTRAINT IF EXISTS grns_purchase_order_id_fkey;
+
+ALTER TABLE grns
+  ADD CONSTRAINT grns_purchase_order_id_fkey
+  FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id);
+
+ALTER TABLE grn_lines
+  ADD COLUMN IF NOT EXISTS purchase_order_line_id UUID REFERENCES purchase_order_lines(id);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_store_status
+  ON purchase_orders(tenant_id, store_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier
+  ON purchase_orders(tenant_id, supplier_id);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po
+  ON purchase_order_lines(purchase_order_id);
+
+CREATE INDEX IF NOT EXISTS idx_grns_purchase_order
+  ON grns(purchase_order_id);
+
+CREATE INDEX IF NOT EXISTS idx_grn_lines_po_line
+  ON grn_lines(purchase_order_line_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN purchase_order_lines.received_qty IS 'Sum of GRN quantities received against this line';
+COMMENT ON COLUMN grn_lines.purchase_order_line_id IS 'PO line this GRN line was received against (NULL for unplanned receipts)';
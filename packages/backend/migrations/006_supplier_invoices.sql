@@ -0,0 +1,69 @@
+-- Supplier invoices and three-way matching (PO <-> GRN <-> invoice)
+-- pending -> matched | variance -> (approved) matched -> paid
+
+-- ============================================
+-- SUPPLIER INVOICE STATUS
+-- ============================================
+
+ALTER TABLE supplier_invoices
+  DROP CONSTRAINT IF EXISTS supplier_invoices_status_check;
+
+ALTER TABLE supplier_invoices
+  ADD CONSTRAINT supplier_invoices_status_check
+  CHECK (status IN ('pending', 'matched', 'variance', 'paid', 'cancelled'));
+
+ALTER TABLE supplier_invoices
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- ============================================
+-- SUPPLIER INVOICE LINES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_invoice_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES supplier_invoices(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    purchase_order_line_id UUID REFERENCES purchase_order_lines(id),
+    product_id UUID REFERENCES products(id),
+    quantity DECIMAL(15,4) NOT NULL,
+    unit_cost DECIMAL(15,4) NOT NULL,
+    tax_amount DECIMAL(15,4) DEFAULT 0,
+    line_total DECIMAL(15,4) NOT NULL
+);
+
+-- ============================================
+-- MATCH RESULTS
+-- ============================================
+
+ALTER TABLE invoice_matching
+  ADD COLUMN IF NOT EXISTS qty_tolerance_pct DECIMAL(7,4),
+  ADD COLUMN IF NOT EXISTS price_tolerance_pct DECIMAL(7,4),
+  ADD COLUMN IF NOT EXISTS line_results JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_matching_invoice
+  ON invoice_matching(invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_matching_status
+  ON invoice_matching(tenant_id, match_status);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoice_lines_invoice
+  ON supplier_invoice_lines(invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoice_lines_po_line
+  ON supplier_invoice_lines(purchase_order_line_id);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_invoices_due
+  ON supplier_invoices(tenant_id, status, due_date);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE supplier_invoice_lines IS 'Invoiced quantities and costs, matched against PO cost and GRN received quantity';
+COMMENT ON COLUMN invoice_matching.line_results IS 'Per-line match outcome: invoiced vs received qty and invoice vs PO unit cost';
+COMMENT ON COLUMN invoice_matching.qty_tolerance_pct IS 'Quantity tolerance (percent) in force when the match ran';
+COMMENT ON COLUMN invoice_matching.price_tolerance_pct IS 'Unit price tolerance (percent) in force when the match ran';
@@ -0,0 +1,50 @@
+-- Offline POS sync
+-- Sales rung up while the register was offline are replayed with their
+-- idempotency key; anything the server could not honour cleanly is queued
+-- as a sync conflict for a supervisor: open -> resolved
+
+-- ============================================
+-- SALES RECEIPTS
+-- ============================================
+
+ALTER TABLE sales_receipts
+  ADD COLUMN IF NOT EXISTS client_created_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_offline
+  ON sales_receipts(tenant_id, offline_created, synced_at);
+
+-- ============================================
+-- SYNC CONFLICTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pos_sync_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    store_id UUID REFERENCES stores(id),
+    receipt_id UUID REFERENCES sales_receipts(id) ON DELETE CASCADE,
+    idempotency_key VARCHAR(100),
+    conflict_type VARCHAR(30) NOT NULL
+      CHECK (conflict_type IN ('negative_stock', 'price_changed', 'product_inactive')),
+    details JSONB DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+      CHECK (status IN ('open', 'resolved')),
+    resolution_notes TEXT,
+    resolved_by UUID REFERENCES users(id),
+    resolved_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pos_sync_conflicts_status
+  ON pos_sync_conflicts(tenant_id, status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_pos_sync_conflicts_receipt
+  ON pos_sync_conflicts(receipt_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE pos_sync_conflicts IS 'Issues detected when an offline POS sale was replayed to the server';
+COMMENT ON COLUMN pos_sync_conflicts.details IS 'Per-product detail, e.g. sold vs on-hand quantity or offline vs current price';
+COMMENT ON COLUMN sales_receipts.client_created_at IS 'When the register rang the sale up (differs from created_at for offline sales)';
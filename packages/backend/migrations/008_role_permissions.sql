@@ -0,0 +1,64 @@
+-- Role permissions
+-- Every API route now requires a PERMISSIONS code; convert the legacy
+-- lowercase keys the old roles screen used, and give the predefined roles
+-- created from the users screen (admin / manager / cashier / inventory)
+-- their default permissions where they were created empty
+
+-- ============================================
+-- LEGACY PERMISSION KEYS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION map_legacy_permission(perm TEXT) RETURNS TEXT[] AS $$
+  SELECT CASE perm
+    WHEN 'all' THEN ARRAY['*']
+    WHEN 'pos' THEN ARRAY['POS_SALE', 'POS_REFUND', 'POS_DISCOUNT', 'POS_PARK']
+    WHEN 'inventory' THEN ARRAY['INVENTORY_VIEW', 'INVENTORY_ADJUST', 'INVENTORY_TRANSFER', 'INVENTORY_COUNT', 'INVENTORY_GRN']
+    WHEN 'products.view' THEN ARRAY['MASTER_VIEW']
+    WHEN 'products.edit' THEN ARRAY['MASTER_VIEW', 'MASTER_PRODUCT', 'MASTER_CATEGORY']
+    WHEN 'customers' THEN ARRAY['CUSTOMER_VIEW', 'CUSTOMER_EDIT']
+    WHEN 'customers.view' THEN ARRAY['CUSTOMER_VIEW']
+    WHEN 'customers.edit' THEN ARRAY['CUSTOMER_VIEW', 'CUSTOMER_EDIT']
+    WHEN 'reports' THEN ARRAY['REPORTS_VIEW', 'REPORTS_SALES', 'REPORTS_INVENTORY', 'REPORTS_FINANCIAL']
+    WHEN 'reports.inventory' THEN ARRAY['REPORTS_INVENTORY']
+    WHEN 'admin.users' THEN ARRAY['ADMIN_USERS']
+    WHEN 'admin.stores' THEN ARRAY['ADMIN_STORES']
+    WHEN 'admin.settings' THEN ARRAY['ADMIN_SETTINGS']
+    ELSE ARRAY[perm]
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+UPDATE roles r
+SET permissions = mapped.permissions,
+    updated_at = NOW()
+FROM (
+  SELECT r2.id, to_jsonb(array_agg(DISTINCT m.perm)) as permissions
+  FROM roles r2
+  CROSS JOIN LATERAL jsonb_array_elements_text(r2.permissions) AS p(perm)
+  CROSS JOIN LATERAL unnest(map_legacy_permission(p.perm)) AS m(perm)
+  WHERE jsonb_typeof(r2.permissions) = 'array'
+  GROUP BY r2.id
+) mapped
+WHERE r.id = mapped.id
+  AND r.permissions::text ~ '"[a-z]';
+
+DROP FUNCTION map_legacy_permission(TEXT);
+
+-- ============================================
+-- PREDEFINED ROLES CREATED WITHOUT PERMISSIONS
+-- ============================================
+
+UPDATE roles SET permissions = '["*"]', updated_at = NOW()
+WHERE lower(name) = 'admin' AND permissions = '[]'::jsonb;
+
+UPDATE roles SET permissions = '["POS_SALE", "POS_REFUND", "POS_VOID", "POS_DISCOUNT", "POS_PARK",
+  "INVENTORY_VIEW", "INVENTORY_ADJUST", "INVENTORY_TRANSFER", "INVENTORY_COUNT", "INVENTORY_GRN",
+  "PURCHASING_VIEW", "PURCHASING_PO", "MASTER_VIEW", "MASTER_PRODUCT", "MASTER_CATEGORY",
+  "CUSTOMER_VIEW", "CUSTOMER_EDIT", "REPORTS_VIEW", "REPORTS_SALES", "REPORTS_INVENTORY"]', updated_at = NOW()
+WHERE lower(name) = 'manager' AND permissions = '[]'::jsonb;
+
+UPDATE roles SET permissions = '["POS_SALE", "POS_PARK", "MASTER_VIEW", "CUSTOMER_VIEW"]', updated_at = NOW()
+WHERE lower(name) = 'cashier' AND permissions = '[]'::jsonb;
+
+UPDATE roles SET permissions = '["INVENTORY_VIEW", "INVENTORY_ADJUST", "INVENTORY_TRANSFER", "INVENTORY_COUNT",
+  "INVENTORY_GRN", "MASTER_VIEW", "REPORTS_INVENTORY"]', updated_at = NOW()
+WHERE lower(name) = 'inventory' AND permissions = '[]'::jsonb;
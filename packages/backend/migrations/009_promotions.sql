@@ -0,0 +1,20 @@
+-- Promotions
+-- The promotion engine evaluates buy-X-get-Y and bundle rules across cart
+-- lines and reports promotion performance from sales lines and receipts'
+-- discount_details
+
+-- ============================================
+-- SCOPE LISTS
+-- ============================================
+
+-- An empty list means "all"; older rows may hold NULL instead
+UPDATE promotions SET applicable_products = '[]' WHERE applicable_products IS NULL;
+UPDATE promotions SET applicable_categories = '[]' WHERE applicable_categories IS NULL;
+UPDATE promotions SET applicable_stores = '[]' WHERE applicable_stores IS NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_promotions_active ON promotions(tenant_id, is_active, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_sales_lines_promotion ON sales_lines(promotion_id) WHERE promotion_id IS NOT NULL;
@@ -0,0 +1,43 @@
+-- Price lists and customer groups
+-- Price lists can be limited to a customer group (wholesale, VIP, ...);
+-- customers in the group get the list automatically at the POS
+
+-- ============================================
+-- CUSTOMER GROUPS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id),
+    UNIQUE(tenant_id, code)
+);
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS customer_group_id UUID REFERENCES customer_groups(id) ON DELETE SET NULL;
+ALTER TABLE price_lists ADD COLUMN IF NOT EXISTS customer_group_id UUID REFERENCES customer_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_group ON customers(customer_group_id) WHERE customer_group_id IS NOT NULL;
+
+-- ============================================
+-- PRICE LIST ITEMS
+-- ============================================
+
+-- One price per product and quantity break in a list; keep the newest of any duplicates
+DELETE FROM price_list_items a
+USING price_list_items b
+WHERE a.price_list_id = b.price_list_id
+  AND a.product_id = b.product_id
+  AND a.variant_id IS NULL AND b.variant_id IS NULL
+  AND a.min_qty = b.min_qty
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_items_product_qty
+  ON price_list_items(price_list_id, product_id, min_qty) WHERE variant_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_price_lists_active ON price_lists(tenant_id, is_active, priority);
@@ -0,0 +1,32 @@
+-- Vouchers
+-- Vouchers are generated singly or in batches, optionally bound to a customer,
+-- and redeemed at the POS as a 'voucher' payment. Each redemption is kept so a
+-- refund can give the use back.
+
+-- ============================================
+-- VOUCHERS
+-- ============================================
+
+ALTER TABLE vouchers ADD COLUMN IF NOT EXISTS batch_name VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_vouchers_customer ON vouchers(customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_vouchers_batch ON vouchers(tenant_id, batch_name) WHERE batch_name IS NOT NULL;
+
+-- ============================================
+-- REDEMPTIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS voucher_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    voucher_id UUID NOT NULL REFERENCES vouchers(id) ON DELETE CASCADE,
+    receipt_id UUID NOT NULL REFERENCES sales_receipts(id) ON DELETE CASCADE,
+    amount DECIMAL(15,4) NOT NULL,
+    reversed_at TIMESTAMPTZ,
+    reversal_receipt_id UUID REFERENCES sales_receipts(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_voucher ON voucher_redemptions(voucher_id);
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_receipt ON voucher_redemptions(receipt_id);
@@ -0,0 +1,46 @@
+-- Loyalty programme
+-- Points are earned per sale at the tenant's rate (or a category's own rate),
+-- multiplied by the customer's tier. Each earn is a lot that redemptions use
+-- oldest first and that expires on its own date.
+
+-- ============================================
+-- TIERS & EARN RULES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS loyalty_tiers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    min_lifetime_points DECIMAL(15,2) NOT NULL DEFAULT 0,
+    earn_multiplier DECIMAL(6,2) NOT NULL DEFAULT 1,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS loyalty_earn_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    earn_rate DECIMAL(10,4) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, category_id)
+);
+
+-- ============================================
+-- POINT LOTS
+-- ============================================
+
+-- Earn and positive adjust transactions carry what is left of them and when it expires
+ALTER TABLE loyalty_transactions ADD COLUMN IF NOT EXISTS remaining_points DECIMAL(15,2);
+ALTER TABLE loyalty_transactions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+UPDATE loyalty_transactions SET remaining_points = points
+WHERE remaining_points IS NULL AND points > 0 AND type IN ('earn', 'adjust');
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_wallet ON loyalty_transactions(wallet_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_expiring
+  ON loyalty_transactions(expires_at) WHERE remaining_points > 0;
@@ -0,0 +1,56 @@
+-- Gift cards
+-- Stored-value cards sold and reloaded at the POS and spent as a 'gift_card'
+-- payment. Every balance change is written to gift_card_ledger, the same way
+-- stock movements are written to stock_ledger.
+
+-- ============================================
+-- GIFT CARDS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS gift_cards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    balance DECIMAL(15,4) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'cancelled')),
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    issued_store_id UUID REFERENCES stores(id),
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id),
+    UNIQUE(tenant_id, code),
+    CHECK (balance >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_expiring ON gift_cards(expires_at) WHERE status = 'active';
+
+-- ============================================
+-- LEDGER
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS gift_card_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+    store_id UUID REFERENCES stores(id),
+    type VARCHAR(20) NOT NULL CHECK (type IN ('issue', 'reload', 'redeem', 'refund', 'expire', 'cancel')),
+    amount_delta DECIMAL(15,4) NOT NULL,
+    balance_before DECIMAL(15,4) NOT NULL,
+    balance_after DECIMAL(15,4) NOT NULL,
+    reference_type VARCHAR(50),
+    reference_id UUID,
+    notes TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_ledger_card ON gift_card_ledger(gift_card_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gift_card_ledger_occurred ON gift_card_ledger(tenant_id, occurred_at);
+
+-- ============================================
+-- SALES LINES
+-- ============================================
+
+-- Gift card lines have no product; they point at the card they issued or reloaded
+ALTER TABLE sales_lines ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES gift_cards(id);
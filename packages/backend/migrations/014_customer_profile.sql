@@ -0,0 +1,10 @@
+-- Customer profile and merge
+-- A merged customer is deactivated and points at the record that absorbed its
+-- receipts, vouchers, gift cards and loyalty points.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES customers(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+-- Per-customer history (profile, RFM) reads receipts by customer
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_customer
+  ON sales_receipts(tenant_id, customer_id, receipt_date) WHERE customer_id IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Customer segments
+-- Saved filters over customers (tags, RFM scores, spend, last visit, store,
+-- birthday month). Membership is worked out when the segment is used, so a
+-- segment always reflects the customers' current history.
+
+-- ============================================
+-- SEGMENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customer_segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    filters JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id),
+    UNIQUE(tenant_id, name)
+);
+
+-- ============================================
+-- AUDIENCES
+-- ============================================
+
+-- A promotion with a segment only applies when the sale's customer is in it
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS customer_segment_id UUID REFERENCES customer_segments(id);
+
+-- Tag filters use the JSONB ?| and ?& operators
+CREATE INDEX IF NOT EXISTS idx_customers_tags ON customers USING GIN (tags);
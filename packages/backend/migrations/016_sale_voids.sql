@@ -0,0 +1,14 @@
+-- Voiding completed sales
+-- A void cancels a sale inside the shift that rang it up: stock, payments and
+-- shift totals are reversed and the receipt keeps who voided it and who approved.
+
+ALTER TABLE sales_receipts ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE sales_receipts ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES users(id);
+ALTER TABLE sales_receipts ADD COLUMN IF NOT EXISTS void_approved_by UUID REFERENCES users(id);
+ALTER TABLE sales_receipts ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS total_voids DECIMAL(15,4) DEFAULT 0;
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS void_count INTEGER DEFAULT 0;
+
+-- Supervisor PINs for overrides at the register (bcrypt, like passwords)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash VARCHAR(255);
@@ -0,0 +1,9 @@
+-- Exchanges
+-- An exchange receipt carries the returned lines (negative quantities) and the
+-- new items in one transaction. Returned lines point at the line they return so
+-- the same item cannot be returned twice across refunds and exchanges.
+
+ALTER TABLE sales_lines ADD COLUMN IF NOT EXISTS original_line_id UUID REFERENCES sales_lines(id);
+
+CREATE INDEX IF NOT EXISTS idx_sales_lines_original_line ON sales_lines(original_line_id) WHERE original_line_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_original ON sales_receipts(original_receipt_id) WHERE original_receipt_id IS NOT NULL;
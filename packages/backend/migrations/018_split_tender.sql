@@ -0,0 +1,9 @@
+-- Split tender
+-- A sale can be paid with any number of tenders (cash, card, wallets, bank
+-- transfer, ...); each payment in sales_receipts.payments keeps its reference
+-- and card last 4. Shifts keep the net takings per method when they close.
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS tender_totals JSONB DEFAULT '{}';
+
+-- Tender breakdowns are summed from the receipts of a shift
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_shift ON sales_receipts(shift_id);
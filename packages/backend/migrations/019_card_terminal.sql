@@ -0,0 +1,31 @@
+-- Card terminal transactions
+-- Every request sent to the payment terminal (authorisation, capture, void,
+-- refund) and its outcome. A card payment on a receipt points at its
+-- transaction through payments[].terminalTransactionId and keeps the
+-- authorisation code in payments[].authCode.
+
+CREATE TABLE IF NOT EXISTS card_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    store_id UUID NOT NULL REFERENCES stores(id),
+    receipt_id UUID REFERENCES sales_receipts(id),
+    -- Refunds point at the sale transaction they pay back
+    original_transaction_id UUID REFERENCES card_transactions(id),
+    type VARCHAR(20) NOT NULL DEFAULT 'sale' CHECK (type IN ('sale', 'refund')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('authorized', 'declined', 'timeout', 'captured', 'voided', 'refunded')),
+    amount DECIMAL(15,4) NOT NULL,
+    refunded_amount DECIMAL(15,4) NOT NULL DEFAULT 0,
+    currency_code CHAR(3),
+    driver VARCHAR(30) NOT NULL,
+    driver_reference VARCHAR(100),
+    auth_code VARCHAR(20),
+    card_brand VARCHAR(30),
+    card_last4 VARCHAR(4),
+    message TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_transactions_tenant ON card_transactions(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_card_transactions_receipt ON card_transactions(receipt_id) WHERE receipt_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Cash-up at shift close
+-- The drawer is counted by denomination; tenants can make the count blind
+-- (the cashier does not see the expected cash) and set a variance above
+-- which a user with POS_CASH_UP has to sign the close off.
+
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS cash_count JSONB;
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS blind_close BOOLEAN DEFAULT false;
+ALTER TABLE shifts ADD COLUMN IF NOT EXISTS variance_approved_by UUID REFERENCES users(id);
+
+-- Roles that can void sales are the ones that supervise the tills
+UPDATE roles SET permissions = permissions || '["POS_CASH_UP"]'::jsonb, updated_at = NOW()
+WHERE permissions ? 'POS_VOID' AND NOT permissions ? 'POS_CASH_UP';
@@ -0,0 +1,28 @@
+-- Cash drops, pickups and the store safe
+-- Each store has a safe: drops from the tills go in, pickups (change for a
+-- till, approved by a second person) and bank deposits come out. Every
+-- balance change is written to safe_ledger, like gift_card_ledger.
+-- A store's drawer limit prompts the cashier to drop cash once the drawer
+-- holds more than it.
+
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS drawer_limit DECIMAL(15,4);
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS safe_balance DECIMAL(15,4) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS safe_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('drop', 'pickup', 'deposit')),
+    amount_delta DECIMAL(15,4) NOT NULL,
+    balance_before DECIMAL(15,4) NOT NULL,
+    balance_after DECIMAL(15,4) NOT NULL,
+    shift_movement_id UUID REFERENCES shift_cash_movements(id) ON DELETE SET NULL,
+    -- Bank deposit slip number
+    reference VARCHAR(100),
+    notes TEXT,
+    approved_by UUID REFERENCES users(id),
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_safe_ledger_store ON safe_ledger(store_id, occurred_at DESC);
@@ -0,0 +1,72 @@
+-- Registers
+-- Each store has named registers ("Register 2"); a browser is bound to one
+-- by the device key it keeps in local storage. Shifts are opened on a
+-- register and several cashiers can work the same drawer: each one joins
+-- the shift and their sales stay attributed to them (sales_receipts.cashier_id).
+
+-- ============================================
+-- REGISTERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS registers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    device_key VARCHAR(100),
+    device_name VARCHAR(255),
+    device_bound_at TIMESTAMPTZ,
+    device_bound_by UUID REFERENCES users(id),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID REFERENCES users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_registers_store_name ON registers(store_id, LOWER(name));
+
+-- A browser drives one register at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_registers_device
+  ON registers(tenant_id, device_key) WHERE device_key IS NOT NULL;
+
+-- ============================================
+-- SHIFTS ON REGISTERS
+-- ============================================
+
+-- register_id was free text that nothing filled in
+UPDATE shifts SET register_id = NULL
+WHERE register_id IS NOT NULL
+  AND register_id::text NOT IN (SELECT id::text FROM registers);
+
+ALTER TABLE shifts ALTER COLUMN register_id TYPE UUID USING register_id::uuid;
+
+ALTER TABLE shifts
+  DROP CONSTRAINT IF EXISTS shifts_register_id_fkey;
+
+ALTER TABLE shifts
+  ADD CONSTRAINT shifts_register_id_fkey
+  FOREIGN KEY (register_id) REFERENCES registers(id);
+
+-- One open shift per register
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_open_register
+  ON shifts(register_id) WHERE status = 'open' AND register_id IS NOT NULL;
+
+-- ============================================
+-- SHIFT CASHIERS
+-- ============================================
+
+-- Cashiers working a shift's drawer; the one who opened it is the first.
+-- left_at is set when a cashier moves off the drawer before it closes.
+CREATE TABLE IF NOT EXISTS shift_cashiers (
+    shift_id UUID NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id),
+    joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    left_at TIMESTAMPTZ,
+    PRIMARY KEY (shift_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shift_cashiers_user ON shift_cashiers(user_id) WHERE left_at IS NULL;
+
+INSERT INTO shift_cashiers (shift_id, user_id, joined_at)
+SELECT id, cashier_id, opened_at FROM shifts
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,7 @@
+-- Offline sale totals under review
+-- An offline sale whose total the server prices differently, or whose tenders
+-- do not settle the amount due, is logged as a total_mismatch sync conflict.
+
+ALTER TABLE pos_sync_conflicts DROP CONSTRAINT IF EXISTS pos_sync_conflicts_conflict_type_check;
+ALTER TABLE pos_sync_conflicts ADD CONSTRAINT pos_sync_conflicts_conflict_type_check
+    CHECK (conflict_type IN ('negative_stock', 'price_changed', 'product_inactive', 'total_mismatch'));
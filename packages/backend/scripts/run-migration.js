@@ -0,0 +1,52 @@
+/**
+ * Generic Migration Script
+ * 
+ * Runs a single SQL file from the migrations folder inside a transaction.
+ * Incremental migrations (003 onwards) are written to be re-runnable
+ * (IF NOT EXISTS / CREATE OR REPLACE).
+ * 
+ * Usage: node scripts/run-migration.js 003_transfer_workflow.sql
+ */
+
+require('dotenv').config();
+const { Pool } = require('pg');
+const fs = require('fs');
+const path = require('path');
+
+const fileName = process.argv[2];
+
+if (!fileName) {
+  console.error('Usage: node scripts/run-migration.js <migration-file.sql>');
+  process.exit(1);
+}
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  ssl: { rejectUnauthorized: false },
+});
+
+async function runMigration() {
+  const client = await pool.connect();
+  
+  try {
+    console.log(`🚀 Running migration ${fileName}...\n`);
+    
+    const migrationPath = path.join(__dirname, '../migrations', path.basename(fileName));
+    const migrationSQL = fs.readFileSync(migrationPath, 'utf8');
+    
+    await client.query('BEGIN');
+    await client.query(migrationSQL);
+    await client.query('COMMIT');
+    
+    console.log('✅ Migration completed successfully!\n');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+runMigration();
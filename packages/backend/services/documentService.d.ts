@@ -0,0 +1,22 @@
+// Types for the CommonJS PDF renderer next to this file, imported by src/services/document.service.ts
+
+export type DocumentTypeKey =
+  | 'SALES_RECEIPT'
+  | 'RETURN_RECEIPT'
+  | 'EXCHANGE_RECEIPT'
+  | 'VOID_RECEIPT'
+  | 'GRN_PROOF'
+  | 'TRANSFER_NOTE'
+  | 'PURCHASE_ORDER'
+  | 'SHIFT_REPORT';
+
+export const DOCUMENT_TYPES: Record<DocumentTypeKey, string>;
+
+export const FORMAT_TYPES: Record<'THERMAL' | 'A4', 'thermal' | 'a4'>;
+
+export function generateDocument(
+  type: string,
+  data: unknown,
+  format?: 'thermal' | 'a4',
+  options?: { isReprint?: boolean }
+): Promise<Buffer>;
@@ -8,7 +8,9 @@ const DOCUMENT_TYPES = {
   EXCHANGE_RECEIPT: 'exchange_receipt',
   VOID_RECEIPT: 'void_receipt',
   GRN_PROOF: 'grn_proof',
-  TRANSFER_NOTE: 'transfer_note'
+  TRANSFER_NOTE: 'transfer_note',
+  PURCHASE_ORDER: 'purchase_order',
+  SHIFT_REPORT: 'shift_report'
 };
 
 // Format types
@@ -50,9 +52,11 @@ async function generateQRCode(data) {
 // ============================================
 async function generateSalesReceipt(data, format = FORMAT_TYPES.THERMAL, options = {}) {
   const { 
-    store, receipt, items, payments, customer, cashier, tenant,
-    isReprint = false, isVoid = false
+    store, receipt, items, payments, customer, cashier, tenant
   } = data;
+  // Flags come from the options; older callers put them on the data
+  const isReprint = options.isReprint ?? data.isReprint ?? false;
+  const isVoid = options.isVoid ?? data.isVoid ?? false;
   
   const currency = tenant?.currency_code || 'EGP';
   const isThermal = format === FORMAT_TYPES.THERMAL;
@@ -137,6 +141,12 @@ async function generateSalesReceipt(data, format = FORMAT_TYPES.THERMAL, options
     doc.fillColor('#cc0000');
     centerText('** VOIDED **', isThermal ? 10 : 12);
     doc.fillColor('#000000');
+    if (receipt.void_reason) {
+      doc.font('Helvetica');
+      doc.fontSize(isThermal ? 8 : 10);
+      doc.text(`Reason: ${receipt.void_reason}`, margin, y, { width: contentWidth, align: 'center' });
+      y = doc.y + 4;
+    }
   }
   
   drawLine();
@@ -244,8 +254,14 @@ async function generateSalesReceipt(data, format = FORMAT_TYPES.THERMAL, options
   
   if (payments && payments.length > 0) {
     for (const payment of payments) {
-      const method = (payment.method || 'cash').toUpperCase();
+      const method = (payment.method || 'cash').replace(/_/g, ' ').toUpperCase();
       leftRightText(`Paid (${method}):`, formatCurrency(payment.amount, currency), totalsSize);
+      if (payment.cardLast4) {
+        leftRightText('  Card:', `**** ${payment.cardLast4}`, isThermal ? 7 : 8);
+      }
+      if (payment.authCode) {
+        leftRightText('  Auth:', payment.authCode, isThermal ? 7 : 8);
+      }
       if (payment.reference) {
         leftRightText('  Ref:', payment.reference, isThermal ? 7 : 8);
       }
@@ -272,16 +288,17 @@ async function generateSalesReceipt(data, format = FORMAT_TYPES.THERMAL, options
   doc.text(returnPolicy, margin, y, { width: contentWidth, align: 'center' });
   y += policyLines + 10;
   
-  // QR Code
+  // QR Code (the public e-receipt link when there is one)
   try {
-    const qrData = JSON.stringify({
+    const qrData = receipt.public_url || JSON.stringify({
       r: receipt.receipt_number,
       s: store?.id,
       t: new Date(receipt.receipt_date).getTime()
     });
     const qrDataUrl = await generateQRCode(qrData);
     if (qrDataUrl) {
-      const qrSize = isThermal ? 60 : 80;
+      // A link needs more modules than the short JSON payload, so it prints larger
+      const qrSize = receipt.public_url ? 90 : (isThermal ? 60 : 80);
       const qrX = (pageWidth - qrSize) / 2;
       doc.image(qrDataUrl, qrX, y, { width: qrSize, height: qrSize });
       y += qrSize + 5;
@@ -383,7 +400,7 @@ async function generateGRNProof(data, format = FORMAT_TYPES.A4) {
   leftRightText('Code:', supplier?.code || '-', 9);
   if (supplier?.phone) leftRightText('Phone:', supplier.phone, 9);
   if (grn.reference_number) leftRightText('Reference:', grn.reference_number, 9);
-  if (grn.purchase_order_id) leftRightText('PO Reference:', grn.purchase_order_id, 9);
+  if (grn.purchase_order_id) leftRightText('PO Reference:', grn.po_number || grn.purchase_order_id, 9);
   
   drawLine();
   
@@ -717,6 +734,373 @@ async function generateTransferNote(data, format = FORMAT_TYPES.A4) {
   });
 }
 
+// ============================================
+// PURCHASE ORDER PDF GENERATOR
+// ============================================
+async function generatePurchaseOrder(data, format = FORMAT_TYPES.A4) {
+  const { purchaseOrder: po, items, supplier, store, tenant } = data;
+  const currency = tenant?.currency_code || 'EGP';
+  const isThermal = format === FORMAT_TYPES.THERMAL;
+  
+  const pageWidth = isThermal ? 226 : 595;
+  const margin = isThermal ? 10 : 50;
+  const contentWidth = pageWidth - (margin * 2);
+  
+  const doc = new PDFDocument({
+    size: isThermal ? [pageWidth, 1000] : 'A4',
+    margin: margin,
+    bufferPages: true
+  });
+  
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  
+  let y = margin;
+  
+  // Helper functions
+  const centerText = (text, fontSize = 10) => {
+    doc.fontSize(fontSize);
+    const textWidth = doc.widthOfString(text);
+    doc.text(text, (pageWidth - textWidth) / 2, y);
+    y += fontSize + 4;
+  };
+  
+  const leftRightText = (left, right, fontSize = 9) => {
+    doc.fontSize(fontSize);
+    doc.text(left, margin, y);
+    const rightWidth = doc.widthOfString(right);
+    doc.text(right, pageWidth - margin - rightWidth, y);
+    y += fontSize + 3;
+  };
+  
+  const drawLine = (thickness = 0.5) => {
+    y += 3;
+    doc.moveTo(margin, y).lineTo(pageWidth - margin, y).lineWidth(thickness).stroke();
+    y += 5;
+  };
+  
+  // ---- HEADER ----
+  doc.font('Helvetica-Bold');
+  centerText(tenant?.name || store?.name || 'Company', 16);
+  
+  doc.font('Helvetica');
+  if (store?.address) centerText(store.address, 9);
+  
+  y += 10;
+  doc.font('Helvetica-Bold');
+  centerText('PURCHASE ORDER', 14);
+  drawLine(1);
+  
+  // ---- PO INFO ----
+  doc.font('Helvetica');
+  leftRightText('PO Number:', po.po_number || '-', 10);
+  leftRightText('Order Date:', formatDate(po.po_date || po.created_at || new Date(), false), 10);
+  if (po.expected_date) leftRightText('Expected Delivery:', formatDate(po.expected_date, false), 10);
+  leftRightText('Deliver To:', store?.name || '-', 10);
+  leftRightText('Status:', (po.status || 'draft').replace('_', ' ').toUpperCase(), 10);
+  
+  y += 5;
+  drawLine();
+  
+  // ---- SUPPLIER INFO ----
+  doc.font('Helvetica-Bold');
+  doc.fontSize(10);
+  doc.text('Supplier', margin, y);
+  y += 14;
+  
+  doc.font('Helvetica');
+  leftRightText('Name:', supplier?.name || '-', 9);
+  leftRightText('Code:', supplier?.code || '-', 9);
+  if (supplier?.contact_name) leftRightText('Contact:', supplier.contact_name, 9);
+  if (supplier?.phone) leftRightText('Phone:', supplier.phone, 9);
+  if (supplier?.email) leftRightText('Email:', supplier.email, 9);
+  if (supplier?.payment_terms) leftRightText('Payment Terms:', `Net ${supplier.payment_terms} days`, 9);
+  
+  drawLine();
+  
+  // ---- ITEMS TABLE ----
+  doc.font('Helvetica-Bold');
+  doc.fontSize(9);
+  doc.text('SKU', margin, y);
+  doc.text('Item', margin + 60, y);
+  doc.text('Qty', margin + 280, y);
+  doc.text('Unit Cost', margin + 330, y);
+  doc.text('Total', margin + 420, y);
+  y += 14;
+  drawLine();
+  
+  doc.font('Helvetica');
+  let totalQty = 0;
+  
+  for (const item of items) {
+    doc.fontSize(8);
+    doc.text(item.sku || '-', margin, y, { width: 55 });
+    doc.text(item.name || 'Item', margin + 60, y, { width: 210 });
+    doc.text(parseFloat(item.quantity || 0).toString(), margin + 280, y);
+    doc.text(formatCurrency(item.unit_cost, currency), margin + 330, y);
+    doc.text(formatCurrency(item.line_total, currency), margin + 420, y);
+    y += 14;
+    
+    totalQty += parseFloat(item.quantity) || 0;
+  }
+  
+  drawLine(1);
+  
+  // ---- TOTALS ----
+  doc.font('Helvetica');
+  leftRightText('Total Quantity:', totalQty.toString(), 10);
+  leftRightText('Subtotal:', formatCurrency(po.subtotal, currency), 10);
+  if (po.tax_amount && parseFloat(po.tax_amount) > 0) {
+    leftRightText('Tax:', formatCurrency(po.tax_amount, currency), 10);
+  }
+  doc.font('Helvetica-Bold');
+  leftRightText('Total:', formatCurrency(po.total_amount, currency), 11);
+  
+  drawLine();
+  
+  // ---- NOTES ----
+  if (po.notes) {
+    doc.font('Helvetica-Bold');
+    doc.fontSize(10);
+    doc.text('Notes:', margin, y);
+    y += 14;
+    doc.font('Helvetica');
+    doc.fontSize(9);
+    doc.text(po.notes, margin, y, { width: contentWidth });
+    y += doc.heightOfString(po.notes, { width: contentWidth }) + 10;
+  }
+  
+  y += 20;
+  drawLine();
+  
+  // ---- SIGNATURES ----
+  doc.font('Helvetica-Bold');
+  doc.fontSize(10);
+  doc.text('Authorisation', margin, y);
+  y += 20;
+  
+  doc.font('Helvetica');
+  doc.fontSize(9);
+  
+  // Prepared By
+  doc.text('Prepared By:', margin, y);
+  doc.text('_______________________', margin, y + 30);
+  doc.text(po.created_by_name || '(Name & Signature)', margin, y + 45);
+  
+  // Approved By
+  doc.text('Approved By:', margin + 170, y);
+  doc.text('_______________________', margin + 170, y + 30);
+  doc.text(po.approved_by_name || '(Name & Signature)', margin + 170, y + 45);
+  if (po.approved_at) doc.text(`Date: ${formatDate(po.approved_at, false)}`, margin + 170, y + 58);
+  
+  // Supplier Acknowledgement
+  doc.text('Supplier Acknowledgement:', margin + 340, y);
+  doc.text('_______________________', margin + 340, y + 30);
+  doc.text('(Name & Signature)', margin + 340, y + 45);
+  doc.text('Date: _______________', margin + 340, y + 58);
+  
+  y += 80;
+  
+  // Footer
+  doc.fontSize(7);
+  doc.fillColor('#666666');
+  centerText(`Document generated: ${formatDate(new Date())}`, 7);
+  
+  doc.end();
+  
+  return new Promise((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+// ============================================
+// SHIFT X/Z REPORT PDF GENERATOR
+// ============================================
+async function generateShiftReport(data, format = FORMAT_TYPES.THERMAL) {
+  const { type, shift, movements, cashiers = [], totals, tenant } = data;
+  const currency = tenant?.currency_code || 'EGP';
+  const isThermal = format === FORMAT_TYPES.THERMAL;
+  const isZ = type === 'Z';
+  // Blind cash-ups send the money totals of an open shift as null
+  const money = amount => (amount === null ? 'Blind count' : formatCurrency(amount, currency));
+  
+  const pageWidth = isThermal ? 226 : 595;
+  const margin = isThermal ? 10 : 50;
+  
+  const doc = new PDFDocument({
+    size: isThermal ? [pageWidth, 1000] : 'A4',
+    margin: margin,
+    bufferPages: true
+  });
+  
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  
+  let y = margin;
+  const textSize = isThermal ? 8 : 10;
+  const headingSize = isThermal ? 9 : 12;
+  
+  const centerText = (text, fontSize = 10) => {
+    doc.fontSize(fontSize);
+    const textWidth = doc.widthOfString(text);
+    doc.text(text, (pageWidth - textWidth) / 2, y);
+    y += fontSize + 4;
+  };
+  
+  const leftRightText = (left, right, fontSize = textSize) => {
+    doc.fontSize(fontSize);
+    doc.text(left, margin, y);
+    const rightWidth = doc.widthOfString(right);
+    doc.text(right, pageWidth - margin - rightWidth, y);
+    y += fontSize + 3;
+  };
+  
+  const heading = (text) => {
+    y += 3;
+    doc.font('Helvetica-Bold');
+    leftRightText(text, '', headingSize);
+    doc.font('Helvetica');
+  };
+  
+  const drawLine = (thickness = 0.5) => {
+    y += 3;
+    doc.moveTo(margin, y).lineTo(pageWidth - margin, y).lineWidth(thickness).stroke();
+    y += 5;
+  };
+  
+  // ---- HEADER ----
+  doc.font('Helvetica-Bold');
+  centerText(shift.store_name || tenant?.name || 'Store', isThermal ? 12 : 16);
+  centerText(isZ ? 'Z REPORT' : 'X REPORT', isThermal ? 11 : 14);
+  doc.font('Helvetica');
+  centerText(isZ ? 'End of shift' : 'Shift still open - totals are not final', isThermal ? 7 : 9);
+  drawLine(1);
+  
+  leftRightText('Shift #:', shift.shift_number || '-');
+  leftRightText('Cashier:', `${shift.cashier_first_name || ''} ${shift.cashier_last_name || ''}`.trim() || '-');
+  if (shift.register_name) {
+    leftRightText('Register:', shift.register_name);
+  }
+  leftRightText('Opened:', formatDate(shift.opened_at));
+  if (shift.closed_at) {
+    leftRightText('Closed:', formatDate(shift.closed_at));
+  }
+  drawLine();
+  
+  // ---- SALES ----
+  heading('SALES');
+  leftRightText('Transactions:', String(totals.transactionCount));
+  leftRightText('Sales:', money(totals.totalSales));
+  leftRightText('Refunds:', money(totals.totalRefunds));
+  leftRightText(`Voids (${totals.voidCount}):`, money(totals.totalVoids));
+  doc.font('Helvetica-Bold');
+  leftRightText('Net sales:', money(totals.totalSales === null ? null : totals.totalSales + totals.totalRefunds));
+  doc.font('Helvetica');
+  drawLine();
+  
+  // ---- CASHIERS (shared drawer) ----
+  if (cashiers.length > 1) {
+    heading('BY CASHIER');
+    cashiers.forEach(cashier => {
+      leftRightText(
+        `${cashier.name} (${cashier.transactionCount}):`,
+        money(cashier.totalSales === null ? null : cashier.totalSales + cashier.totalRefunds)
+      );
+    });
+    drawLine();
+  }
+  
+  // ---- PAYMENTS BY METHOD ----
+  heading('PAYMENTS');
+  const tenders = Object.entries(totals.tenderTotals || {});
+  if (totals.tenderTotals === null) {
+    leftRightText('Blind count', '');
+  } else if (tenders.length === 0) {
+    leftRightText('No payments', '');
+  }
+  for (const [method, amount] of tenders) {
+    leftRightText(`${method.replace(/_/g, ' ').toUpperCase()}:`, formatCurrency(amount, currency));
+  }
+  drawLine();
+  
+  // ---- CASH ----
+  heading('CASH');
+  leftRightText('Opening float:', money(totals.openingCash));
+  leftRightText('Cash takings:', money(totals.totalCashPayments));
+  leftRightText('Cash in / pickups:', money(totals.cashIn));
+  leftRightText('Cash out / drops:', totals.cashOut === null ? money(null) : `-${money(totals.cashOut)}`);
+  if (totals.expectedCash !== null) {
+    doc.font('Helvetica-Bold');
+    leftRightText('Expected in drawer:', formatCurrency(totals.expectedCash, currency));
+    doc.font('Helvetica');
+  } else {
+    leftRightText('Expected in drawer:', 'Blind count');
+  }
+  
+  if (isZ) {
+    leftRightText('Counted:', formatCurrency(shift.closing_cash, currency));
+    const difference = Number(shift.cash_difference) || 0;
+    doc.font('Helvetica-Bold');
+    leftRightText(
+      difference === 0 ? 'Balanced:' : difference > 0 ? 'Over:' : 'Short:',
+      formatCurrency(Math.abs(difference), currency)
+    );
+    doc.font('Helvetica');
+    if (shift.blind_close) {
+      leftRightText('Blind count', '');
+    }
+    if (shift.variance_approved_by_name) {
+      leftRightText('Variance approved by:', shift.variance_approved_by_name.trim());
+    }
+  }
+  
+  // ---- DENOMINATION COUNT ----
+  if (isZ && Array.isArray(shift.cash_count) && shift.cash_count.length > 0) {
+    drawLine();
+    heading('DRAWER COUNT');
+    for (const line of shift.cash_count) {
+      leftRightText(
+        `${line.count} x ${formatCurrency(line.value, currency)}`,
+        formatCurrency(line.value * line.count, currency)
+      );
+    }
+  }
+  
+  // ---- CASH MOVEMENTS ----
+  if (movements && movements.length > 0) {
+    drawLine();
+    heading('CASH MOVEMENTS');
+    for (const movement of movements) {
+      const sign = movement.type === 'cash_in' || movement.type === 'pickup' ? '' : '-';
+      leftRightText(
+        `${formatDate(movement.created_at)} ${movement.type.replace(/_/g, ' ')}`,
+        `${sign}${formatCurrency(movement.amount, currency)}`,
+        isThermal ? 7 : 9
+      );
+    }
+  }
+  
+  drawLine(1);
+  
+  // ---- SIGNATURES ----
+  if (isZ) {
+    y += 15;
+    leftRightText('Cashier: ____________', 'Manager: ____________');
+    y += 5;
+  }
+  
+  doc.fontSize(6);
+  centerText(`Generated: ${formatDate(new Date())}`, 6);
+  
+  doc.end();
+  
+  return new Promise((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
 // ============================================
 // MAIN DOCUMENT GENERATOR
 // ============================================
@@ -736,6 +1120,12 @@ async function generateDocument(type, data, format = FORMAT_TYPES.A4, options =
     case DOCUMENT_TYPES.TRANSFER_NOTE:
       return generateTransferNote(data, format);
     
+    case DOCUMENT_TYPES.PURCHASE_ORDER:
+      return generatePurchaseOrder(data, format);
+    
+    case DOCUMENT_TYPES.SHIFT_REPORT:
+      return generateShiftReport(data, format);
+    
     default:
       throw new Error(`Unknown document type: ${type}`);
   }
@@ -747,5 +1137,7 @@ module.exports = {
   generateDocument,
   generateSalesReceipt,
   generateGRNProof,
-  generateTransferNote
+  generateTransferNote,
+  generatePurchaseOrder,
+  generateShiftReport
 };
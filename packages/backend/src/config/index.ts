@@ -14,8 +14,8 @@ const configSchema = z.object({
   dbPort: z.coerce.number().default(5432),
   dbName: z.string().default('retail_erp'),
   dbUser: z.string().default('postgres'),
-  dbPassword: z.string(),
-  dbSsl: z.coerce.boolean().default(false),
+  dbPassword: z.string().optional(),
+  dbSsl: z.string().optional().transform(v => v === 'true'),
   dbPoolMin: z.coerce.number().default(2),
   dbPoolMax: z.coerce.number().default(10),
   
@@ -32,13 +32,42 @@ const configSchema = z.object({
   bigqueryDataset: z.string().default('retail_erp_analytics'),
   bigquerySyncIntervalMs: z.coerce.number().default(60000),
   
+  // CORS (extra allowed origin besides localhost and the hosted frontends)
+  corsOrigin: z.string().optional(),
+  
   // Security
   bcryptRounds: z.coerce.number().default(12),
   rateLimitWindowMs: z.coerce.number().default(900000),
   rateLimitMax: z.coerce.number().default(100),
+  // Failed supervisor approvals a user gets before overrides are locked for them
+  supervisorMaxAttempts: z.coerce.number().int().positive().default(5),
+  supervisorLockoutMs: z.coerce.number().int().positive().default(900000),
   
   // Sync
   syncBatchSize: z.coerce.number().default(100),
+  
+  // Background jobs
+  loyaltyExpiryIntervalMs: z.coerce.number().default(3600000),
+  giftCardExpiryIntervalMs: z.coerce.number().default(3600000),
+  
+  // E-receipts (public links are only printed when the public URL is set)
+  publicApiUrl: z.string().url().optional(),
+  receiptLinkSecret: z.string().min(32).optional(),
+  receiptLinkTtlDays: z.coerce.number().int().positive().default(90),
+  
+  // Mail (messages are logged instead of sent when no SMTP host is set)
+  smtpHost: z.string().optional(),
+  smtpPort: z.coerce.number().default(587),
+  smtpSecure: z.string().optional().transform(v => v === 'true'),
+  smtpUser: z.string().optional(),
+  smtpPassword: z.string().optional(),
+  mailFrom: z.string().default('Receipts <receipts@localhost>'),
+  
+  // Card terminal ('none' records card payments as an amount only)
+  paymentTerminal: z.enum(['none', 'simulator']).default('none'),
+  terminalTimeoutMs: z.coerce.number().int().positive().default(60000),
+  terminalSimulatorScenario: z.enum(['amount', 'approve', 'decline', 'timeout']).default('amount'),
+  terminalSimulatorDelayMs: z.coerce.number().int().min(0).default(1500),
 });
 
 const parseConfig = () => {
@@ -61,10 +90,28 @@ const parseConfig = () => {
     gcpProjectId: process.env.GOOGLE_CLOUD_PROJECT,
     bigqueryDataset: process.env.BIGQUERY_DATASET,
     bigquerySyncIntervalMs: process.env.BIGQUERY_SYNC_INTERVAL_MS,
+    corsOrigin: process.env.CORS_ORIGIN,
     bcryptRounds: process.env.BCRYPT_ROUNDS,
     rateLimitWindowMs: process.env.RATE_LIMIT_WINDOW_MS,
     rateLimitMax: process.env.RATE_LIMIT_MAX,
+    supervisorMaxAttempts: process.env.SUPERVISOR_MAX_ATTEMPTS,
+    supervisorLockoutMs: process.env.SUPERVISOR_LOCKOUT_MS,
     syncBatchSize: process.env.SYNC_BATCH_SIZE,
+    loyaltyExpiryIntervalMs: process.env.LOYALTY_EXPIRY_INTERVAL_MS,
+    giftCardExpiryIntervalMs: process.env.GIFT_CARD_EXPIRY_INTERVAL_MS,
+    publicApiUrl: process.env.PUBLIC_API_URL,
+    receiptLinkSecret: process.env.RECEIPT_LINK_SECRET,
+    receiptLinkTtlDays: process.env.RECEIPT_LINK_TTL_DAYS,
+    smtpHost: process.env.SMTP_HOST,
+    smtpPort: process.env.SMTP_PORT,
+    smtpSecure: process.env.SMTP_SECURE,
+    smtpUser: process.env.SMTP_USER,
+    smtpPassword: process.env.SMTP_PASSWORD,
+    mailFrom: process.env.MAIL_FROM,
+    paymentTerminal: process.env.PAYMENT_TERMINAL,
+    terminalTimeoutMs: process.env.TERMINAL_TIMEOUT_MS,
+    terminalSimulatorScenario: process.env.TERMINAL_SIMULATOR_SCENARIO,
+    terminalSimulatorDelayMs: process.env.TERMINAL_SIMULATOR_DELAY_MS,
   });
 
   if (!result.success) {
@@ -1,9 +1,13 @@
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import { config } from '../config/index.js';
 
+// Supabase requires SSL; an sslmode query parameter would override the ssl option below
+const useSsl = config.dbSsl || config.databaseUrl.includes('supabase');
+const connectionString = config.databaseUrl.replace(/[?&]sslmode=\w+/, '');
+
 export const pool = new Pool({
-  connectionString: config.databaseUrl,
-  ssl: config.dbSsl ? { rejectUnauthorized: false } : false,
+  connectionString,
+  ssl: useSsl ? { rejectUnauthorized: false } : false,
   min: config.dbPoolMin,
   max: config.dbPoolMax,
   idleTimeoutMillis: 30000,
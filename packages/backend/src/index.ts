@@ -5,46 +5,141 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { config } from './config/index.js';
 import { checkConnection } from './database/pool.js';
+import { fail } from './utils/http.js';
+import { LoyaltyService } from './services/loyalty.service.js';
+import { GiftCardService } from './services/gift-card.service.js';
 import authRoutes from './routes/auth.routes.js';
 import posRoutes from './routes/pos.routes.js';
+import receiptsRoutes from './routes/receipts.routes.js';
+import shiftsRoutes from './routes/shifts.routes.js';
+import safeRoutes from './routes/safe.routes.js';
+import registersRoutes from './routes/registers.routes.js';
 import productsRoutes from './routes/products.routes.js';
+import categoriesRoutes from './routes/categories.routes.js';
+import brandsRoutes from './routes/brands.routes.js';
+import customersRoutes from './routes/customers.routes.js';
+import promotionsRoutes from './routes/promotions.routes.js';
+import pricingRoutes from './routes/pricing.routes.js';
+import vouchersRoutes from './routes/vouchers.routes.js';
+import loyaltyRoutes from './routes/loyalty.routes.js';
+import giftCardsRoutes from './routes/gift-cards.routes.js';
+import inventoryRoutes from './routes/inventory.routes.js';
+import transfersRoutes from './routes/transfers.routes.js';
+import stockCountsRoutes from './routes/stock-counts.routes.js';
+import purchasingRoutes from './routes/purchasing.routes.js';
+import dashboardRoutes from './routes/dashboard.routes.js';
+import reportsRoutes from './routes/reports.routes.js';
+import forecastingRoutes from './routes/forecasting.routes.js';
+import documentsRoutes from './routes/documents.routes.js';
+import adminRoutes from './routes/admin.routes.js';
+import superAdminRoutes from './routes/super-admin.routes.js';
+import publicRoutes from './routes/public.routes.js';
 
 const app = express();
 
+// Keep serving if a background task fails
+process.on('uncaughtException', (err) => {
+  console.error('Uncaught exception:', err);
+});
+process.on('unhandledRejection', (reason) => {
+  console.error('Unhandled rejection:', reason);
+});
+
+// Local dev, Vercel previews, grozai.net and an optional extra origin
+function isAllowedOrigin(origin: string): boolean {
+  return origin.includes('localhost')
+    || origin.endsWith('.vercel.app')
+    || origin === 'https://grozai.net'
+    || origin.endsWith('.grozai.net')
+    || origin === config.corsOrigin;
+}
+
 // Security middleware
 app.use(helmet());
-app.use(cors({ origin: true, credentials: true }));
+app.use(cors({
+  origin: (origin, callback) => {
+    // Requests without an origin (curl, mobile apps) are allowed
+    if (!origin || isAllowedOrigin(origin)) {
+      callback(null, true);
+      return;
+    }
+    callback(new Error('Not allowed by CORS'));
+  },
+  credentials: true
+}));
 app.use(compression());
 app.use(express.json({ limit: '10mb' }));
 
-// Rate limiting
-app.use(rateLimit({
+// Rate limiting (login and token endpoints only; the POS polls the rest of the API)
+const authLimiter = rateLimit({
   windowMs: config.rateLimitWindowMs,
   max: config.rateLimitMax,
   standardHeaders: true,
   legacyHeaders: false
-}));
+});
 
 // Health check
 app.get('/health', async (_req, res) => {
   const dbOk = await checkConnection();
-  res.json({ status: dbOk ? 'healthy' : 'degraded', db: dbOk });
+  res.json({ status: dbOk ? 'healthy' : 'degraded', db: dbOk, timestamp: new Date().toISOString() });
 });
 
 // API routes
-app.use('/api/auth', authRoutes);
+app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/pos', posRoutes);
+app.use('/api/receipts', receiptsRoutes);
+app.use('/api/shifts', shiftsRoutes);
+app.use('/api/safe', safeRoutes);
+app.use('/api/registers', registersRoutes);
 app.use('/api/products', productsRoutes);
+app.use('/api/master/categories', categoriesRoutes);
+app.use('/api/categories', categoriesRoutes);
+app.use('/api/master/brands', brandsRoutes);
+app.use('/api/brands', brandsRoutes);
+app.use('/api/customers', customersRoutes);
+app.use('/api/promotions', promotionsRoutes);
+app.use('/api/pricing', pricingRoutes);
+app.use('/api/vouchers', vouchersRoutes);
+app.use('/api/loyalty', loyaltyRoutes);
+app.use('/api/gift-cards', giftCardsRoutes);
+// Transfers and counts are mounted ahead of the general inventory router
+app.use('/api/inventory/transfers', transfersRoutes);
+app.use('/api/inventory/counts', stockCountsRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/purchasing', purchasingRoutes);
+app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/reports', reportsRoutes);
+app.use('/api/forecasting', forecastingRoutes);
+app.use('/api/documents', documentsRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/super-admin', superAdminRoutes);
+// Customer-facing links (e-receipts); rate limited like login
+app.use('/api/public', authLimiter, publicRoutes);
+
+// Unknown API routes
+app.use('/api', (_req, res) => {
+  fail(res, 404, 'NOT_FOUND', 'Endpoint not found');
+});
 
 // Error handler
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('Unhandled error:', err);
-  res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  fail(res, 500, 'INTERNAL_ERROR', 'Internal server error');
 });
 
 // Start server
 app.listen(config.port, () => {
   console.log(`Server running on port ${config.port}`);
+
+  // Expire loyalty points and gift cards that have passed their expiry date
+  if (config.nodeEnv !== 'test') {
+    setInterval(() => {
+      LoyaltyService.expirePoints().catch(err => console.error('Loyalty expiry failed:', err));
+    }, config.loyaltyExpiryIntervalMs);
+    setInterval(() => {
+      GiftCardService.expireGiftCards().catch(err => console.error('Gift card expiry failed:', err));
+    }, config.giftCardExpiryIntervalMs);
+  }
 });
 
 export default app;
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
 import * as jose from 'jose';
 import { config } from '../config/index.js';
 import { query } from '../database/pool.js';
 import { TenantContext } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
 
 // Extend Express Request type
 declare global {
@@ -13,11 +15,12 @@ declare global {
   }
 }
 
-interface JWTPayload {
-  sub: string;
-  tenantId: string;
+export interface JWTPayload {
+  userId: string;
+  tenantId: string | null;
   email: string;
-  storeId?: string;
+  isSuperAdmin?: boolean;
+  type?: 'refresh';
 }
 
 // Create JWT token
@@ -34,7 +37,7 @@ export async function createToken(payload: JWTPayload): Promise<string> {
 // Create refresh token
 export async function createRefreshToken(payload: JWTPayload): Promise<string> {
   const secret = new TextEncoder().encode(config.jwtSecret);
-  const token = await new jose.SignJWT(payload as unknown as jose.JWTPayload)
+  const token = await new jose.SignJWT({ ...payload, type: 'refresh' } as unknown as jose.JWTPayload)
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
     .setExpirationTime(config.jwtRefreshExpiresIn)
@@ -49,6 +52,40 @@ export async function verifyToken(token: string): Promise<JWTPayload> {
   return payload as unknown as JWTPayload;
 }
 
+// Permissions granted to a user through all of their roles
+export async function loadPermissions(userId: string): Promise<string[]> {
+  const result = await query<{ permissions: string[] }>(
+    `SELECT COALESCE(array_agg(DISTINCT perm), ARRAY[]::text[]) as permissions
+     FROM user_roles ur
+     JOIN roles r ON r.id = ur.role_id
+     CROSS JOIN LATERAL jsonb_array_elements_text(r.permissions) AS perm
+     WHERE ur.user_id = $1 AND jsonb_typeof(r.permissions) = 'array'`,
+    [userId]
+  );
+  return result.rows[0]?.permissions || [];
+}
+
+// '*' (and the legacy 'all') grant every permission
+export function hasPermission(ctx: TenantContext, ...permissions: string[]): boolean {
+  if (ctx.isSuperAdmin) return true;
+  if (ctx.permissions.includes('*') || ctx.permissions.includes('all')) return true;
+  return permissions.some(perm => ctx.permissions.includes(perm));
+}
+
+async function buildContext(token: string): Promise<TenantContext> {
+  const payload = await verifyToken(token);
+  if (payload.type === 'refresh') {
+    throw new jose.errors.JWTInvalid('Refresh token used as access token');
+  }
+  return {
+    tenantId: payload.tenantId || '',
+    userId: payload.userId,
+    email: payload.email,
+    isSuperAdmin: payload.isSuperAdmin || false,
+    permissions: payload.isSuperAdmin ? ['*'] : await loadPermissions(payload.userId)
+  };
+}
+
 // Authentication middleware
 export async function authenticate(
   req: Request,
@@ -65,30 +102,7 @@ export async function authenticate(
       return;
     }
 
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-
-    // Fetch user permissions
-    const permissionsResult = await query<{ permissions: string[] }>(
-      `SELECT COALESCE(
-        (SELECT array_agg(DISTINCT perm)
-         FROM user_roles ur
-         JOIN roles r ON ur.role_id = r.id
-         CROSS JOIN LATERAL unnest(r.permissions::text[]) AS perm
-         WHERE ur.user_id = $1
-        ), ARRAY[]::text[]) as permissions`,
-      [payload.sub]
-    );
-
-    const permissions = permissionsResult.rows[0]?.permissions || [];
-
-    req.ctx = {
-      tenantId: payload.tenantId,
-      userId: payload.sub,
-      storeId: payload.storeId,
-      permissions
-    };
-
+    req.ctx = await buildContext(authHeader.substring(7));
     next();
   } catch (error) {
     if (error instanceof jose.errors.JWTExpired) {
@@ -114,26 +128,7 @@ export async function optionalAuth(
   try {
     const authHeader = req.headers.authorization;
     if (authHeader?.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      const payload = await verifyToken(token);
-      
-      const permissionsResult = await query<{ permissions: string[] }>(
-        `SELECT COALESCE(
-          (SELECT array_agg(DISTINCT perm)
-           FROM user_roles ur
-           JOIN roles r ON ur.role_id = r.id
-           CROSS JOIN LATERAL unnest(r.permissions::text[]) AS perm
-           WHERE ur.user_id = $1
-          ), ARRAY[]::text[]) as permissions`,
-        [payload.sub]
-      );
-
-      req.ctx = {
-        tenantId: payload.tenantId,
-        userId: payload.sub,
-        storeId: payload.storeId,
-        permissions: permissionsResult.rows[0]?.permissions || []
-      };
+      req.ctx = await buildContext(authHeader.substring(7));
     }
   } catch {
     // Silently ignore auth errors for optional auth
@@ -141,6 +136,18 @@ export async function optionalAuth(
   next();
 }
 
+// Super admin middleware (platform operators, not tied to a tenant)
+export function requireSuperAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.ctx?.isSuperAdmin) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'Super Admin access required' }
+    });
+    return;
+  }
+  next();
+}
+
 // Permission check middleware
 export function requirePermission(...requiredPermissions: string[]) {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -152,11 +159,7 @@ export function requirePermission(...requiredPermissions: string[]) {
       return;
     }
 
-    const hasPermission = requiredPermissions.some(perm => 
-      req.ctx!.permissions.includes(perm)
-    );
-
-    if (!hasPermission) {
+    if (!hasPermission(req.ctx, ...requiredPermissions)) {
       res.status(403).json({
         success: false,
         error: { 
@@ -172,7 +175,44 @@ export function requirePermission(...requiredPermissions: string[]) {
   };
 }
 
-// Store scope middleware (ensure user has access to specified store)
+// Requests carrying a supervisor's PIN or login, per user; AuthService.verifySupervisor
+// also locks a user out after repeated failures
+export const supervisorLimiter = rateLimit({
+  windowMs: config.rateLimitWindowMs,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: req => !req.body?.supervisor,
+  keyGenerator: req => `${req.ctx?.tenantId}:${req.ctx?.userId}`,
+  message: {
+    success: false,
+    error: { code: 'TOO_MANY_REQUESTS', message: 'Too many supervisor approvals; try again later' }
+  }
+});
+
+// Users reach the stores linked in user_stores plus their default store;
+// ADMIN_STORES holders reach every store
+export async function hasStoreAccess(ctx: TenantContext, storeId: string): Promise<boolean> {
+  if (hasPermission(ctx, 'ADMIN_STORES')) return true;
+  const accessResult = await query(
+    `SELECT 1 FROM user_stores WHERE user_id = $1 AND store_id::text = $2
+     UNION
+     SELECT 1 FROM users WHERE id = $1 AND default_store_id::text = $2`,
+    [ctx.userId, storeId]
+  );
+  return (accessResult.rowCount ?? 0) > 0;
+}
+
+// For operations addressed by a document id rather than a storeId: services
+// check the store the document belongs to once they have loaded it
+export async function assertStoreAccess(ctx: TenantContext, storeId: string): Promise<void> {
+  if (!(await hasStoreAccess(ctx, storeId))) {
+    throw new AppError('No access to this store', 403, 'STORE_ACCESS_DENIED');
+  }
+}
+
+// Store scope middleware (ensure user has access to the storeId in the request)
+// Transfers are scoped by their source store here; receiving checks the destination.
 export async function requireStoreAccess(
   req: Request,
   res: Response,
@@ -186,32 +226,30 @@ export async function requireStoreAccess(
     return;
   }
 
-  const storeId = req.params.storeId || req.body?.storeId || req.query.storeId;
+  const storeId = req.params.storeId || req.body?.storeId || req.body?.fromStoreId || req.query.storeId;
   
-  if (!storeId) {
+  if (!storeId || typeof storeId !== 'string') {
     next();
     return;
   }
 
-  // Check if user has access to this store
-  const accessResult = await query(
-    `SELECT 1 FROM user_stores WHERE user_id = $1 AND store_id = $2
-     UNION
-     SELECT 1 FROM users WHERE id = $1 AND default_store_id = $2`,
-    [req.ctx.userId, storeId]
-  );
-
-  if (accessResult.rowCount === 0) {
-    // Check if user is admin (has ADMIN_STORES permission)
-    if (!req.ctx.permissions.includes('ADMIN_STORES')) {
+  try {
+    if (!(await hasStoreAccess(req.ctx, storeId))) {
       res.status(403).json({
         success: false,
         error: { code: 'STORE_ACCESS_DENIED', message: 'No access to this store' }
       });
       return;
     }
+  } catch (error) {
+    console.error('Store access check error:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: 'Failed to check store access' }
+    });
+    return;
   }
 
-  req.ctx.storeId = storeId as string;
+  req.ctx.storeId = storeId;
   next();
 }
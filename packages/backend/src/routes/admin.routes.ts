@@ -0,0 +1,232 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { AdminService } from '../services/admin.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS, PERMISSION_LABELS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const createUserSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: optionalText,
+  role: optionalText,
+  roleIds: z.array(z.string().uuid()).optional(),
+  storeId: optionalUuid
+});
+
+const updateUserSchema = z.object({
+  firstName: optionalText,
+  lastName: optionalText,
+  role: optionalText,
+  roleIds: z.array(z.string().uuid()).optional(),
+  storeId: optionalUuid,
+  isActive: z.boolean().optional()
+});
+
+const resetPasswordSchema = z.object({
+  newPassword: z.string().min(6, 'Password must be at least 6 characters')
+});
+
+const permissionCodes = z.array(z.enum(['*', ...Object.keys(PERMISSION_LABELS)] as [string, ...string[]]));
+
+const roleSchema = z.object({
+  name: z.string().trim().min(1, 'Role name is required').max(100),
+  description: optionalText,
+  permissions: permissionCodes
+});
+
+const rolePermissionsSchema = z.object({
+  permissions: permissionCodes
+});
+
+const storeSchema = z.object({
+  name: z.string().min(1, 'Store name is required'),
+  code: optionalText,
+  address: optionalText,
+  phone: optionalText,
+  email: optionalText,
+  isActive: z.boolean().optional(),
+  drawerLimit: z.number().positive().nullable().optional()
+});
+
+const settingsSchema = z.object({
+  companyName: optionalText,
+  currencyCode: optionalText,
+  timezone: optionalText,
+  taxRate: optionalNumber,
+  receiptFooter: z.string().optional(),
+  lowStockThreshold: optionalNumber,
+  allowNegativeStock: z.boolean().optional(),
+  requireCustomer: z.boolean().optional(),
+  autoGenerateSku: z.boolean().optional(),
+  matchQtyTolerancePct: optionalNumber,
+  matchPriceTolerancePct: optionalNumber,
+  giftCardExpiryMonths: z.coerce.number().int().min(0).max(120).optional(),
+  blindCashUp: z.boolean().optional(),
+  cashVarianceThreshold: z.number().min(0).nullable().optional()
+});
+
+const auditLogQuerySchema = z.object({
+  startDate: optionalText,
+  endDate: optionalText,
+  action: optionalText,
+  entityType: optionalText,
+  userId: optionalUuid,
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+// ----- Users -----
+
+// GET /admin/users
+router.get('/users', requirePermission(PERMISSIONS.ADMIN_USERS), handle(async (req: Request, res: Response) => {
+  const users = await AdminService.listUsers(req.ctx!.tenantId);
+  ok(res, { users });
+}, 'Failed to get users'));
+
+// POST /admin/users
+router.post('/users', requirePermission(PERMISSIONS.ADMIN_USERS), handle(async (req: Request, res: Response) => {
+  const input = createUserSchema.parse(req.body);
+  const user = await AdminService.createUser(req.ctx!, input);
+  ok(res, { user }, 201);
+}, 'Failed to create user'));
+
+// PUT /admin/users/:id
+router.put('/users/:id', requirePermission(PERMISSIONS.ADMIN_USERS), handle(async (req: Request, res: Response) => {
+  const input = updateUserSchema.parse(req.body);
+  const user = await AdminService.updateUser(req.ctx!, req.params.id, input);
+  ok(res, { user });
+}, 'Failed to update user'));
+
+// POST /admin/users/:id/reset-password
+router.post('/users/:id/reset-password',
+  requirePermission(PERMISSIONS.ADMIN_USERS),
+  handle(async (req: Request, res: Response) => {
+    const { newPassword } = resetPasswordSchema.parse(req.body);
+    await AdminService.resetPassword(req.ctx!, req.params.id, newPassword);
+    ok(res, { message: 'Password reset successfully' });
+  }, 'Failed to reset password'));
+
+// DELETE /admin/users/:id
+router.delete('/users/:id', requirePermission(PERMISSIONS.ADMIN_USERS), handle(async (req: Request, res: Response) => {
+  await AdminService.deactivateUser(req.ctx!, req.params.id);
+  ok(res, { message: 'User deactivated' });
+}, 'Failed to delete user'));
+
+// ----- Stores -----
+
+// GET /admin/stores
+router.get('/stores',
+  requirePermission(PERMISSIONS.ADMIN_STORES, PERMISSIONS.ADMIN_USERS),
+  handle(async (req: Request, res: Response) => {
+    const stores = await AdminService.listStores(req.ctx!.tenantId);
+    ok(res, { stores });
+  }, 'Failed to get stores'));
+
+// POST /admin/stores
+router.post('/stores', requirePermission(PERMISSIONS.ADMIN_STORES), handle(async (req: Request, res: Response) => {
+  const input = storeSchema.parse(req.body);
+  const store = await AdminService.createStore(req.ctx!, input);
+  ok(res, { store }, 201);
+}, 'Failed to create store'));
+
+// PUT /admin/stores/:id
+router.put('/stores/:id', requirePermission(PERMISSIONS.ADMIN_STORES), handle(async (req: Request, res: Response) => {
+  const input = storeSchema.partial().parse(req.body);
+  const store = await AdminService.updateStore(req.ctx!, req.params.id, input);
+  ok(res, { store });
+}, 'Failed to update store'));
+
+// DELETE /admin/stores/:id
+router.delete('/stores/:id',
+  requirePermission(PERMISSIONS.ADMIN_STORES),
+  handle(async (req: Request, res: Response) => {
+    await AdminService.deactivateStore(req.ctx!, req.params.id);
+    ok(res, { message: 'Store deactivated' });
+  }, 'Failed to delete store'));
+
+// ----- Roles -----
+
+// GET /admin/roles
+router.get('/roles',
+  requirePermission(PERMISSIONS.ADMIN_ROLES, PERMISSIONS.ADMIN_USERS),
+  handle(async (req: Request, res: Response) => {
+    const roles = await AdminService.listRoles(req.ctx!.tenantId);
+    ok(res, { roles });
+  }, 'Failed to get roles'));
+
+// GET /admin/permissions - Permission catalogue and what each role is granted
+router.get('/permissions',
+  requirePermission(PERMISSIONS.ADMIN_ROLES),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await AdminService.getPermissionMatrix(req.ctx!.tenantId));
+  }, 'Failed to get permissions'));
+
+// PUT /admin/roles/:id/permissions
+router.put('/roles/:id/permissions',
+  requirePermission(PERMISSIONS.ADMIN_ROLES),
+  handle(async (req: Request, res: Response) => {
+    const { permissions } = rolePermissionsSchema.parse(req.body);
+    const role = await AdminService.updateRole(req.ctx!, req.params.id, { permissions });
+    ok(res, { role });
+  }, 'Failed to update role permissions'));
+
+// POST /admin/roles
+router.post('/roles', requirePermission(PERMISSIONS.ADMIN_ROLES), handle(async (req: Request, res: Response) => {
+  const input = roleSchema.parse(req.body);
+  const role = await AdminService.createRole(req.ctx!, input);
+  ok(res, { role }, 201);
+}, 'Failed to create role'));
+
+// PUT /admin/roles/:id
+router.put('/roles/:id', requirePermission(PERMISSIONS.ADMIN_ROLES), handle(async (req: Request, res: Response) => {
+  const input = roleSchema.partial().parse(req.body);
+  const role = await AdminService.updateRole(req.ctx!, req.params.id, input);
+  ok(res, { role });
+}, 'Failed to update role'));
+
+// DELETE /admin/roles/:id
+router.delete('/roles/:id', requirePermission(PERMISSIONS.ADMIN_ROLES), handle(async (req: Request, res: Response) => {
+  await AdminService.deleteRole(req.ctx!, req.params.id);
+  ok(res, { message: 'Role deleted' });
+}, 'Failed to delete role'));
+
+// ----- Settings -----
+
+// GET /admin/settings
+router.get('/settings', requirePermission(PERMISSIONS.ADMIN_SETTINGS), handle(async (req: Request, res: Response) => {
+  const settings = await AdminService.getSettings(req.ctx!.tenantId);
+  ok(res, { settings });
+}, 'Failed to get settings'));
+
+// PUT /admin/settings
+router.put('/settings', requirePermission(PERMISSIONS.ADMIN_SETTINGS), handle(async (req: Request, res: Response) => {
+  const input = settingsSchema.parse(req.body);
+  await AdminService.updateSettings(req.ctx!, input);
+  ok(res, { message: 'Settings updated successfully' });
+}, 'Failed to update settings'));
+
+// ----- Audit log and stats -----
+
+// GET /admin/audit-logs
+router.get('/audit-logs', requirePermission(PERMISSIONS.ADMIN_AUDIT), handle(async (req: Request, res: Response) => {
+  const options = auditLogQuerySchema.parse(req.query);
+  const logs = await AdminService.getAuditLogs(req.ctx!.tenantId, options);
+  ok(res, { logs });
+}, 'Failed to get audit logs'));
+
+// GET /admin/stats
+router.get('/stats',
+  requirePermission(PERMISSIONS.ADMIN_USERS, PERMISSIONS.ADMIN_STORES, PERMISSIONS.ADMIN_ROLES, PERMISSIONS.ADMIN_SETTINGS, PERMISSIONS.ADMIN_AUDIT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await AdminService.getStats(req.ctx!.tenantId));
+  }, 'Failed to get admin stats'));
+
+export default router;
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthService } from '../services/auth.service.js';
 import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
 
 const router = Router();
 
@@ -11,17 +13,8 @@ const loginSchema = z.object({
   password: z.string().min(1)
 });
 
-const registerSchema = z.object({
-  tenantName: z.string().min(2),
-  tenantSlug: z.string().min(2).regex(/^[a-z0-9-]+$/),
-  currencyCode: z.string().length(3).optional(),
-  timezone: z.string().optional(),
-  adminEmail: z.string().email(),
-  adminPassword: z.string().min(8),
-  adminFirstName: z.string().min(1),
-  adminLastName: z.string().optional(),
-  storeName: z.string().min(1),
-  storeCode: z.string().optional()
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
 });
 
 const changePasswordSchema = z.object({
@@ -29,158 +22,63 @@ const changePasswordSchema = z.object({
   newPassword: z.string().min(8)
 });
 
+const setPinSchema = z.object({
+  currentPassword: z.string().min(1),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits')
+});
+
 const changeEmailSchema = z.object({
   newEmail: z.string().email(),
   password: z.string().min(1)
 });
 
 // POST /auth/login
-router.post('/login', async (req: Request, res: Response) => {
-  try {
-    const body = loginSchema.parse(req.body);
-    const result = await AuthService.login(body.email, body.password);
-    
-    res.json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Login failed';
-    res.status(401).json({
-      success: false,
-      error: { code: 'LOGIN_FAILED', message }
-    });
-  }
-});
+router.post('/login', handle(async (req: Request, res: Response) => {
+  const body = loginSchema.parse(req.body);
+  ok(res, await AuthService.login(body.email, body.password));
+}, 'Login failed'));
 
-// POST /auth/register
-router.post('/register', async (req: Request, res: Response) => {
-  try {
-    const body = registerSchema.parse(req.body);
-    const result = await AuthService.registerTenant(body);
-    
-    res.status(201).json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Registration failed';
-    res.status(400).json({
-      success: false,
-      error: { code: 'REGISTRATION_FAILED', message }
-    });
-  }
-});
+// POST /auth/register - Public registration is disabled; tenants are created by a super admin
+router.post('/register', handle(async () => {
+  throw AppError.forbidden('Public registration is disabled. Please contact the administrator to create an account.');
+}));
 
 // POST /auth/refresh
-router.post('/refresh', async (req: Request, res: Response) => {
-  try {
-    const { refreshToken } = req.body;
-    if (!refreshToken) {
-      res.status(400).json({
-        success: false,
-        error: { code: 'MISSING_TOKEN', message: 'Refresh token is required' }
-      });
-      return;
-    }
-
-    const result = await AuthService.refreshToken(refreshToken);
-    res.json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    res.status(401).json({
-      success: false,
-      error: { code: 'INVALID_TOKEN', message: 'Invalid or expired refresh token' }
-    });
-  }
-});
+router.post('/refresh', handle(async (req: Request, res: Response) => {
+  const body = refreshSchema.parse(req.body);
+  ok(res, await AuthService.refreshToken(body.refreshToken));
+}, 'Token refresh failed'));
 
 // POST /auth/logout
-router.post('/logout', authenticate, async (req: Request, res: Response) => {
-  try {
-    await AuthService.logout(req.ctx!.userId);
-    res.json({
-      success: true,
-      data: { message: 'Logged out successfully' }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'LOGOUT_FAILED', message: 'Logout failed' }
-    });
-  }
-});
+router.post('/logout', authenticate, handle(async (req: Request, res: Response) => {
+  await AuthService.logout(req.ctx!.userId);
+  ok(res, { message: 'Logged out successfully' });
+}, 'Logout failed'));
 
 // POST /auth/change-password
-router.post('/change-password', authenticate, async (req: Request, res: Response) => {
-  try {
-    const body = changePasswordSchema.parse(req.body);
-    await AuthService.changePassword(
-      req.ctx!.userId,
-      body.currentPassword,
-      body.newPassword
-    );
-    
-    res.json({
-      success: true,
-      data: { message: 'Password changed successfully' }
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Password change failed';
-    res.status(400).json({
-      success: false,
-      error: { code: 'PASSWORD_CHANGE_FAILED', message }
-    });
-  }
-});
+router.post('/change-password', authenticate, handle(async (req: Request, res: Response) => {
+  const body = changePasswordSchema.parse(req.body);
+  await AuthService.changePassword(req.ctx!, body.currentPassword, body.newPassword);
+  ok(res, { message: 'Password changed successfully' });
+}, 'Password change failed'));
+
+// PUT /auth/pin - Set the PIN used for supervisor overrides at the register
+router.put('/pin', authenticate, handle(async (req: Request, res: Response) => {
+  const body = setPinSchema.parse(req.body);
+  await AuthService.setPin(req.ctx!, body.currentPassword, body.pin);
+  ok(res, { message: 'PIN updated successfully' });
+}, 'PIN update failed'));
 
 // POST /auth/change-email
-router.post('/change-email', authenticate, async (req: Request, res: Response) => {
-  try {
-    const body = changeEmailSchema.parse(req.body);
-    await AuthService.changeEmail(
-      req.ctx!.userId,
-      body.newEmail,
-      body.password
-    );
-    
-    res.json({
-      success: true,
-      data: { message: 'Email changed successfully' }
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Email change failed';
-    res.status(400).json({
-      success: false,
-      error: { code: 'EMAIL_CHANGE_FAILED', message }
-    });
-  }
-});
+router.post('/change-email', authenticate, handle(async (req: Request, res: Response) => {
+  const body = changeEmailSchema.parse(req.body);
+  await AuthService.changeEmail(req.ctx!, body.newEmail, body.password);
+  ok(res, { message: 'Email changed successfully' });
+}, 'Email change failed'));
 
 // GET /auth/me
-router.get('/me', authenticate, async (req: Request, res: Response) => {
-  try {
-    const user = await AuthService.getUserById(req.ctx!.tenantId, req.ctx!.userId);
-    if (!user) {
-      res.status(404).json({
-        success: false,
-        error: { code: 'USER_NOT_FOUND', message: 'User not found' }
-      });
-      return;
-    }
-
-    res.json({
-      success: true,
-      data: { user, permissions: req.ctx!.permissions }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch user' }
-    });
-  }
-});
+router.get('/me', authenticate, handle(async (req: Request, res: Response) => {
+  ok(res, await AuthService.getCurrentUser(req.ctx!.userId));
+}, 'Failed to get user'));
 
 export default router;
@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ProductService } from '../services/product.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const brandSchema = z.object({
+  code: optionalText,
+  name: optionalText
+});
+
+// GET /brands - List active brands
+router.get('/',
+  requirePermission(PERMISSIONS.MASTER_VIEW, PERMISSIONS.POS_SALE, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.MASTER_PRODUCT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { brands: await ProductService.getBrands(req.ctx!.tenantId) });
+  }, 'Failed to get brands'));
+
+// POST /brands - Create brand
+router.post('/', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  const body = brandSchema.parse(req.body);
+  ok(res, await ProductService.createBrand(req.ctx!, body), 201);
+}, 'Failed to create brand'));
+
+// PUT /brands/:id - Update brand
+router.put('/:id', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  const body = brandSchema.parse(req.body);
+  ok(res, await ProductService.updateBrand(req.ctx!, req.params.id, body));
+}, 'Failed to update brand'));
+
+// DELETE /brands/:id - Deactivate brand
+router.delete('/:id', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  await ProductService.deleteBrand(req.ctx!, req.params.id);
+  ok(res, { message: 'Brand deleted' });
+}, 'Failed to delete brand'));
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ProductService } from '../services/product.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const categorySchema = z.object({
+  code: optionalText,
+  name: optionalText,
+  parentId: optionalUuid
+});
+
+// GET /categories - List active categories
+router.get('/',
+  requirePermission(PERMISSIONS.MASTER_VIEW, PERMISSIONS.POS_SALE, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.MASTER_PRODUCT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { categories: await ProductService.getCategories(req.ctx!.tenantId) });
+  }, 'Failed to get categories'));
+
+// POST /categories - Create category
+router.post('/', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  const body = categorySchema.parse(req.body);
+  ok(res, await ProductService.createCategory(req.ctx!, body), 201);
+}, 'Failed to create category'));
+
+// PUT /categories/:id - Update category
+router.put('/:id', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  const body = categorySchema.parse(req.body);
+  ok(res, await ProductService.updateCategory(req.ctx!, req.params.id, body));
+}, 'Failed to update category'));
+
+// DELETE /categories/:id - Deactivate category
+router.delete('/:id', requirePermission(PERMISSIONS.MASTER_CATEGORY), handle(async (req: Request, res: Response) => {
+  await ProductService.deleteCategory(req.ctx!, req.params.id);
+  ok(res, { message: 'Category deleted' });
+}, 'Failed to delete category'));
+
+export default router;
@@ -0,0 +1,196 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { CustomerService } from '../services/customer.service.js';
+import { CustomerSegmentService } from '../services/customer-segment.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const customerSchema = z.object({
+  firstName: optionalText,
+  lastName: optionalText,
+  email: z.union([z.string().email(), z.literal(''), z.null()]).optional().transform(v => v || undefined),
+  phone: optionalText,
+  customerGroupId: z.union([z.string().uuid(), z.literal(''), z.null()]).optional().transform(v => v === '' ? null : v),
+  dateOfBirth: z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.literal(''), z.null()])
+    .optional()
+    .transform(v => v === '' ? null : v),
+  tags: z.array(z.string().max(50)).max(30).optional()
+});
+
+const createCustomerSchema = customerSchema.extend({
+  firstName: z.string().min(1)
+});
+
+const customerGroupSchema = z.object({
+  code: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  description: optionalText,
+  isActive: z.boolean().optional()
+});
+
+const mergeSchema = z.object({
+  duplicateId: z.string().uuid()
+});
+
+const rfmScore = z.coerce.number().int().min(1).max(5).optional();
+const dayCount = z.coerce.number().int().positive().optional();
+
+const segmentFiltersSchema = z.object({
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).optional(),
+  tagMatch: z.enum(['any', 'all']).optional(),
+  rfmSegments: z.array(z.enum(['champions', 'loyal', 'new', 'promising', 'at_risk', 'hibernating', 'lost'])).optional(),
+  minRecency: rfmScore,
+  minFrequency: rfmScore,
+  minMonetary: rfmScore,
+  minSpend: optionalNumber,
+  maxSpend: optionalNumber,
+  lastVisitWithinDays: dayCount,
+  noVisitForDays: dayCount,
+  storeId: optionalUuid,
+  birthdayMonth: z.coerce.number().int().min(1).max(12).optional(),
+  customerGroupId: optionalUuid
+});
+
+const segmentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: optionalText,
+  filters: segmentFiltersSchema
+});
+
+// GET /customers - List customers
+router.get('/',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.POS_SALE),
+  handle(async (req: Request, res: Response) => {
+    const { search } = z.object({ search: optionalText }).parse(req.query);
+    ok(res, { customers: await CustomerService.listCustomers(req.ctx!.tenantId, search) });
+  }, 'Failed to get customers'));
+
+// POST /customers - Create customer
+router.post('/',
+  requirePermission(PERMISSIONS.CUSTOMER_EDIT, PERMISSIONS.POS_SALE),
+  handle(async (req: Request, res: Response) => {
+    const body = createCustomerSchema.parse(req.body);
+    ok(res, await CustomerService.createCustomer(req.ctx!, body), 201);
+  }, 'Failed to create customer'));
+
+// GET /customers/groups - List customer groups
+router.get('/groups',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.PRICING_VIEW, PERMISSIONS.POS_SALE),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { groups: await CustomerService.listGroups(req.ctx!.tenantId) });
+  }, 'Failed to get customer groups'));
+
+// POST /customers/groups - Create customer group
+router.post('/groups', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  const body = customerGroupSchema.parse(req.body);
+  ok(res, await CustomerService.createGroup(req.ctx!, body), 201);
+}, 'Failed to create customer group'));
+
+// GET /customers/tags - Tags in use, with customer counts
+router.get('/tags', requirePermission(PERMISSIONS.CUSTOMER_VIEW), handle(async (req: Request, res: Response) => {
+  ok(res, { tags: await CustomerService.listTags(req.ctx!.tenantId) });
+}, 'Failed to get customer tags'));
+
+// GET /customers/segments - List saved segments
+router.get('/segments',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.PRICING_PROMO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { segments: await CustomerSegmentService.listSegments(req.ctx!.tenantId) });
+  }, 'Failed to get segments'));
+
+// POST /customers/segments/preview - Customers matching unsaved filters
+router.post('/segments/preview',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { filters } = z.object({ filters: segmentFiltersSchema }).parse(req.body);
+    const members = await CustomerSegmentService.findMembers(req.ctx!.tenantId, filters);
+    ok(res, { count: members.length, customers: members.slice(0, 100) });
+  }, 'Failed to preview segment'));
+
+// POST /customers/segments - Save a segment
+router.post('/segments', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  const body = segmentSchema.parse(req.body);
+  ok(res, await CustomerSegmentService.saveSegment(req.ctx!, body), 201);
+}, 'Failed to create segment'));
+
+// GET /customers/segments/:id/members - A saved segment's customers
+router.get('/segments/:id/members',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { segment, members } = await CustomerSegmentService.getMembers(req.ctx!.tenantId, req.params.id);
+    ok(res, { segment, count: members.length, customers: members.slice(0, 500) });
+  }, 'Failed to get segment members'));
+
+// GET /customers/segments/:id/export - A saved segment's customers as CSV
+router.get('/segments/:id/export',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { name, csv } = await CustomerSegmentService.exportCsv(req.ctx!.tenantId, req.params.id);
+    const filename = name.replace(/[^A-Za-z0-9-_]+/g, '-').toLowerCase() || 'segment';
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(csv);
+  }, 'Failed to export segment'));
+
+// PUT /customers/segments/:id - Update a segment
+router.put('/segments/:id',
+  requirePermission(PERMISSIONS.CUSTOMER_EDIT),
+  handle(async (req: Request, res: Response) => {
+    const body = segmentSchema.parse(req.body);
+    ok(res, await CustomerSegmentService.saveSegment(req.ctx!, body, req.params.id));
+  }, 'Failed to update segment'));
+
+// DELETE /customers/segments/:id - Delete a segment
+router.delete('/segments/:id',
+  requirePermission(PERMISSIONS.CUSTOMER_EDIT),
+  handle(async (req: Request, res: Response) => {
+    await CustomerSegmentService.deleteSegment(req.ctx!, req.params.id);
+    ok(res, { message: 'Segment deleted' });
+  }, 'Failed to delete segment'));
+
+// PUT /customers/groups/:id - Update customer group
+router.put('/groups/:id', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  const body = customerGroupSchema.partial().parse(req.body);
+  ok(res, await CustomerService.updateGroup(req.ctx!, req.params.id, body));
+}, 'Failed to update customer group'));
+
+// DELETE /customers/groups/:id - Delete customer group
+router.delete('/groups/:id', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  await CustomerService.deleteGroup(req.ctx!, req.params.id);
+  ok(res, { message: 'Customer group deleted' });
+}, 'Failed to delete customer group'));
+
+// GET /customers/:id/profile - Purchase history, lifetime value, RFM segment and loyalty wallet
+router.get('/:id/profile',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await CustomerService.getProfile(req.ctx!.tenantId, req.params.id));
+  }, 'Failed to get customer profile'));
+
+// POST /customers/:id/merge - Merge a duplicate customer into this one
+router.post('/:id/merge', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  const { duplicateId } = mergeSchema.parse(req.body);
+  ok(res, await CustomerService.mergeCustomers(req.ctx!, req.params.id, duplicateId));
+}, 'Failed to merge customers'));
+
+// PUT /customers/:id - Update customer
+router.put('/:id', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  const body = customerSchema.parse(req.body);
+  ok(res, await CustomerService.updateCustomer(req.ctx!, req.params.id, body));
+}, 'Failed to update customer'));
+
+// DELETE /customers/:id - Deactivate customer
+router.delete('/:id', requirePermission(PERMISSIONS.CUSTOMER_EDIT), handle(async (req: Request, res: Response) => {
+  await CustomerService.deleteCustomer(req.ctx!, req.params.id);
+  ok(res, { message: 'Customer deleted' });
+}, 'Failed to delete customer'));
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DashboardService } from '../services/dashboard.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const storeQuerySchema = z.object({
+  storeId: optionalUuid
+});
+
+const listQuerySchema = storeQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(5)
+});
+
+// GET /dashboard/stats - Today's headline figures
+router.get('/stats',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const { storeId } = storeQuerySchema.parse(req.query);
+    ok(res, await DashboardService.getStats(req.ctx!.tenantId, storeId));
+  }, 'Failed to get dashboard stats'));
+
+// GET /dashboard/recent-sales - Latest completed sales
+router.get('/recent-sales',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    ok(res, await DashboardService.getRecentSales(req.ctx!.tenantId, options));
+  }, 'Failed to get recent sales'));
+
+// GET /dashboard/top-products - Today's best sellers
+router.get('/top-products',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    ok(res, await DashboardService.getTopProducts(req.ctx!.tenantId, options));
+  }, 'Failed to get top products'));
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DocumentService } from '../services/document.service.js';
+import { authenticate, hasPermission, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok, sendPdf } from '../utils/http.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const receiptQuerySchema = z.object({
+  format: z.enum(['thermal', 'a4']).default('thermal'),
+  reprint: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+});
+
+const emailReceiptSchema = z.object({
+  email: z.union([z.string().email(), z.literal('')]).optional().transform(v => v || undefined),
+  format: z.enum(['thermal', 'a4']).default('a4')
+});
+
+const documentQuerySchema = z.object({
+  format: z.enum(['thermal', 'a4']).default('a4')
+});
+
+// GET /documents/receipt/:id
+router.get('/receipt/:id',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = receiptQuerySchema.parse(req.query);
+    sendPdf(res, await DocumentService.salesReceipt(req.ctx!, req.params.id, options));
+  }, 'Failed to generate receipt PDF'));
+
+// POST /documents/receipt/:id/email - Email the receipt PDF (to `email` or the customer)
+router.post('/receipt/:id/email',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = emailReceiptSchema.parse(req.body);
+    ok(res, await DocumentService.emailReceipt(req.ctx!, req.params.id, options));
+  }, 'Failed to email receipt'));
+
+// POST /documents/receipt/:id/link - Signed public link to the receipt
+router.post('/receipt/:id/link',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await DocumentService.receiptLink(req.ctx!, req.params.id));
+  }, 'Failed to create receipt link'));
+
+// GET /documents/shift/:id - X report (open shift) or Z report (closed shift)
+router.get('/shift/:id',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const { format } = receiptQuerySchema.pick({ format: true }).parse(req.query);
+    const revealCash = hasPermission(req.ctx!, PERMISSIONS.POS_CASH_UP);
+    sendPdf(res, await DocumentService.shiftReport(req.ctx!, req.params.id, { format, revealCash }));
+  }, 'Failed to generate shift report'));
+
+// GET /documents/grn/:id
+router.get('/grn/:id',
+  requirePermission(PERMISSIONS.INVENTORY_GRN, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const { format } = documentQuerySchema.parse(req.query);
+    sendPdf(res, await DocumentService.grnProof(req.ctx!, req.params.id, format));
+  }, 'Failed to generate GRN PDF'));
+
+// GET /documents/purchase-order/:id
+router.get('/purchase-order/:id',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const { format } = documentQuerySchema.parse(req.query);
+    sendPdf(res, await DocumentService.purchaseOrder(req.ctx!, req.params.id, format));
+  }, 'Failed to generate purchase order PDF'));
+
+// GET /documents/transfer/:id
+router.get('/transfer/:id',
+  requirePermission(PERMISSIONS.INVENTORY_TRANSFER, PERMISSIONS.INVENTORY_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { format } = documentQuerySchema.parse(req.query);
+    sendPdf(res, await DocumentService.transferNote(req.ctx!, req.params.id, format));
+  }, 'Failed to generate transfer PDF'));
+
+export default router;
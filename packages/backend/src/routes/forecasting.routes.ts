@@ -0,0 +1,34 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ForecastingService } from '../services/forecasting.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const storeQuerySchema = z.object({
+  storeId: z.string({ required_error: 'Store ID is required' }).uuid('Store ID is required')
+});
+
+// GET /forecasting/recommendations - Demand forecast and reorder suggestions
+router.get('/recommendations',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.REPORTS_INVENTORY),
+  handle(async (req: Request, res: Response) => {
+    const { storeId } = storeQuerySchema.parse(req.query);
+    ok(res, await ForecastingService.getRecommendations(req.ctx!.tenantId, storeId));
+  }, 'Failed to generate recommendations'));
+
+// GET /forecasting/alerts-count - Critical stock count for the notification badge
+router.get('/alerts-count',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.REPORTS_INVENTORY),
+  handle(async (req: Request, res: Response) => {
+    const { storeId } = storeQuerySchema.parse(req.query);
+    ok(res, await ForecastingService.getAlertsCount(req.ctx!.tenantId, storeId));
+  }, 'Failed to get alerts count'));
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { GiftCardService } from '../services/gift-card.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const optionalDate = z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.literal(''), z.null()])
+  .optional()
+  .transform(value => value || undefined);
+
+// GET /gift-cards - List gift cards
+router.get('/',
+  requirePermission(PERMISSIONS.REPORTS_SALES, PERMISSIONS.POS_VOID),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({
+      status: z.enum(['active', 'expired', 'cancelled', 'all']).optional(),
+      search: optionalText,
+      customerId: optionalUuid
+    }).parse(req.query);
+    ok(res, { giftCards: await GiftCardService.listGiftCards(req.ctx!.tenantId, options) });
+  }, 'Failed to get gift cards'));
+
+// GET /gift-cards/liability - Outstanding balance and movements (startDate, endDate)
+router.get('/liability',
+  requirePermission(PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({ startDate: optionalDate, endDate: optionalDate }).parse(req.query);
+    ok(res, await GiftCardService.getLiability(req.ctx!.tenantId, options));
+  }, 'Failed to get gift card liability'));
+
+// POST /gift-cards/expire - Expire cards that are past their date now
+router.post('/expire', requirePermission(PERMISSIONS.POS_VOID), handle(async (req: Request, res: Response) => {
+  ok(res, { expired: await GiftCardService.expireGiftCards(req.ctx!.tenantId) });
+}, 'Failed to expire gift cards'));
+
+// GET /gift-cards/:code - Balance and ledger by code, barcode or id
+router.get('/:code',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES, PERMISSIONS.POS_VOID),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await GiftCardService.getGiftCard(req.ctx!.tenantId, req.params.code));
+  }, 'Failed to get gift card'));
+
+// POST /gift-cards/:id/cancel - Cancel a card and write off its balance
+router.post('/:id/cancel', requirePermission(PERMISSIONS.POS_VOID), handle(async (req: Request, res: Response) => {
+  const { notes } = z.object({ notes: optionalText }).parse(req.body);
+  ok(res, await GiftCardService.cancelGiftCard(req.ctx!, req.params.id, notes));
+}, 'Failed to cancel gift card'));
+
+export default router;
@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { InventoryService } from '../services/inventory.service.js';
+import { TransferService } from '../services/transfer.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const storeQuerySchema = z.object({
+  storeId: optionalUuid
+});
+
+const lowStockQuerySchema = storeQuerySchema.extend({
+  threshold: z.coerce.number().int().min(0).default(10)
+});
+
+const grnQuerySchema = storeQuerySchema.extend({
+  search: z.string().optional(),
+  status: z.string().optional()
+});
+
+const stockTransfersQuerySchema = storeQuerySchema.extend({
+  status: z.string().optional()
+});
+
+const ledgerQuerySchema = storeQuerySchema.extend({
+  productId: optionalUuid,
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+const receiveSchema = z.object({
+  storeId: z.string().uuid(),
+  supplierId: optionalUuid,
+  reference: optionalText,
+  notes: optionalText,
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.coerce.number().positive(),
+    costPrice: optionalNumber
+  })).min(1)
+});
+
+const adjustmentSchema = z.object({
+  storeId: z.string().uuid(),
+  reason: optionalText,
+  notes: optionalText,
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.coerce.number()
+  })).min(1)
+});
+
+// GET /inventory/stock - Stock on hand
+router.get('/stock', requirePermission(PERMISSIONS.INVENTORY_VIEW), handle(async (req: Request, res: Response) => {
+  const { storeId } = storeQuerySchema.parse(req.query);
+  ok(res, await InventoryService.getStockOnHand(req.ctx!.tenantId, storeId));
+}, 'Failed to get stock'));
+
+// GET /inventory/low-stock - Products below their reorder point
+router.get('/low-stock', requirePermission(PERMISSIONS.INVENTORY_VIEW), handle(async (req: Request, res: Response) => {
+  const options = lowStockQuerySchema.parse(req.query);
+  ok(res, await InventoryService.getLowStockItems(req.ctx!.tenantId, options));
+}, 'Failed to get low stock alerts'));
+
+// POST /inventory/receive - Receive stock (creates a GRN when a supplier is given)
+router.post('/receive', requirePermission(PERMISSIONS.INVENTORY_GRN), handle(async (req: Request, res: Response) => {
+  const body = receiveSchema.parse(req.body);
+  ok(res, await InventoryService.receiveStock(req.ctx!, body), 201);
+}, 'Failed to receive stock'));
+
+// GET /inventory/purchases - Receiving history
+router.get('/purchases', requirePermission(PERMISSIONS.INVENTORY_VIEW), handle(async (req: Request, res: Response) => {
+  const { storeId } = storeQuerySchema.parse(req.query);
+  ok(res, { purchases: await InventoryService.getPurchases(req.ctx!.tenantId, storeId) });
+}, 'Failed to get purchases history'));
+
+// GET /inventory/grns - Goods received notes
+router.get('/grns', requirePermission(PERMISSIONS.INVENTORY_VIEW), handle(async (req: Request, res: Response) => {
+  const options = grnQuerySchema.parse(req.query);
+  ok(res, { grns: await InventoryService.getGrns(req.ctx!.tenantId, options) });
+}, 'Failed to get GRNs'));
+
+// GET /inventory/stock-transfers - Transfer documents touching a store
+router.get('/stock-transfers',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const options = stockTransfersQuerySchema.parse(req.query);
+    ok(res, { transfers: await TransferService.listTransfers(req.ctx!.tenantId, options) });
+  }, 'Failed to get stock transfers'));
+
+// GET /inventory/adjustments - Adjustment history
+router.get('/adjustments',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { storeId } = storeQuerySchema.parse(req.query);
+    ok(res, { adjustments: await InventoryService.getAdjustments(req.ctx!.tenantId, storeId) });
+  }, 'Failed to get adjustments history'));
+
+// POST /inventory/adjustments - Post an adjustment
+router.post('/adjustments',
+  requirePermission(PERMISSIONS.INVENTORY_ADJUST),
+  handle(async (req: Request, res: Response) => {
+    const body = adjustmentSchema.parse(req.body);
+    ok(res, await InventoryService.adjustStock(req.ctx!, body), 201);
+  }, 'Failed to adjust stock'));
+
+// GET /inventory/ledger - Stock ledger history
+router.get('/ledger', requirePermission(PERMISSIONS.INVENTORY_VIEW), handle(async (req: Request, res: Response) => {
+  const options = ledgerQuerySchema.parse(req.query);
+  ok(res, { transactions: await InventoryService.getLedgerHistory(req.ctx!.tenantId, options) });
+}, 'Failed to get stock ledger'));
+
+export default router;
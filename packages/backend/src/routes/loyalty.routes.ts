@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { LoyaltyService } from '../services/loyalty.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const programSchema = z.object({
+  enabled: z.boolean().optional(),
+  earnRate: z.coerce.number().min(0).optional(),
+  pointValue: z.coerce.number().positive().optional(),
+  minRedeemPoints: z.coerce.number().int().min(0).optional(),
+  expiryDays: z.coerce.number().int().min(0).optional()
+});
+
+const tierSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{1,50}$/, 'Codes are up to 50 letters, digits, dashes or underscores'),
+  name: z.string().min(1).max(100),
+  minLifetimePoints: z.coerce.number().min(0),
+  earnMultiplier: z.coerce.number().positive().optional(),
+  isActive: z.boolean().optional()
+});
+
+const earnRuleSchema = z.object({
+  categoryId: z.string().uuid(),
+  earnRate: z.coerce.number().min(0)
+});
+
+const adjustSchema = z.object({
+  points: z.coerce.number().int().refine(points => points !== 0, 'Points cannot be zero'),
+  notes: z.string().min(1, 'A reason is required').max(500)
+});
+
+// GET /loyalty/program - Programme settings, tiers and category earn rates
+router.get('/program',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    const tenantId = req.ctx!.tenantId;
+    const [program, tiers, earnRules] = await Promise.all([
+      LoyaltyService.getProgram(tenantId),
+      LoyaltyService.listTiers(tenantId),
+      LoyaltyService.listEarnRules(tenantId)
+    ]);
+    ok(res, { program, tiers, earnRules });
+  }, 'Failed to get loyalty programme'));
+
+// PUT /loyalty/program - Update programme settings
+router.put('/program', requirePermission(PERMISSIONS.CUSTOMER_LOYALTY), handle(async (req: Request, res: Response) => {
+  const body = programSchema.parse(req.body);
+  ok(res, { program: await LoyaltyService.updateProgram(req.ctx!, body) });
+}, 'Failed to update loyalty programme'));
+
+// POST /loyalty/tiers - Create a tier
+router.post('/tiers', requirePermission(PERMISSIONS.CUSTOMER_LOYALTY), handle(async (req: Request, res: Response) => {
+  const body = tierSchema.parse(req.body);
+  ok(res, await LoyaltyService.saveTier(req.ctx!, body), 201);
+}, 'Failed to create tier'));
+
+// PUT /loyalty/tiers/:id - Update a tier
+router.put('/tiers/:id',
+  requirePermission(PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    const body = tierSchema.parse(req.body);
+    ok(res, await LoyaltyService.saveTier(req.ctx!, body, req.params.id));
+  }, 'Failed to update tier'));
+
+// DELETE /loyalty/tiers/:id - Delete a tier
+router.delete('/tiers/:id',
+  requirePermission(PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    await LoyaltyService.deleteTier(req.ctx!, req.params.id);
+    ok(res, { message: 'Tier deleted' });
+  }, 'Failed to delete tier'));
+
+// PUT /loyalty/earn-rules - Set a category's earn rate
+router.put('/earn-rules',
+  requirePermission(PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    const { categoryId, earnRate } = earnRuleSchema.parse(req.body);
+    ok(res, await LoyaltyService.setEarnRule(req.ctx!, categoryId, earnRate));
+  }, 'Failed to save earn rate'));
+
+// DELETE /loyalty/earn-rules/:id - Return a category to the programme rate
+router.delete('/earn-rules/:id',
+  requirePermission(PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    await LoyaltyService.removeEarnRule(req.ctx!, req.params.id);
+    ok(res, { message: 'Earn rate removed' });
+  }, 'Failed to remove earn rate'));
+
+// POST /loyalty/expire - Expire points that are past their date now
+router.post('/expire', requirePermission(PERMISSIONS.CUSTOMER_LOYALTY), handle(async (req: Request, res: Response) => {
+  ok(res, { expired: await LoyaltyService.expirePoints(req.ctx!.tenantId) });
+}, 'Failed to expire points'));
+
+// GET /loyalty/wallets/:customerId - Customer's balance, tier and history
+router.get('/wallets/:customerId',
+  requirePermission(PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.CUSTOMER_LOYALTY, PERMISSIONS.POS_SALE),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await LoyaltyService.getWallet(req.ctx!.tenantId, req.params.customerId));
+  }, 'Failed to get loyalty wallet'));
+
+// POST /loyalty/wallets/:customerId/adjust - Add or remove points by hand
+router.post('/wallets/:customerId/adjust',
+  requirePermission(PERMISSIONS.CUSTOMER_LOYALTY),
+  handle(async (req: Request, res: Response) => {
+    const { points, notes } = adjustSchema.parse(req.body);
+    ok(res, await LoyaltyService.adjustPoints(req.ctx!, req.params.customerId, points, notes));
+  }, 'Failed to adjust points'));
+
+export default router;
@@ -1,302 +1,288 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { POSService } from '../services/pos.service.js';
-import { authenticate, requirePermission } from '../middleware/auth.js';
+import { PricingService } from '../services/pricing.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { PaymentTerminalService } from '../services/payment-terminal.service.js';
+import {
+  assertStoreAccess, authenticate, hasPermission, requirePermission, requireStoreAccess, supervisorLimiter
+} from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
 import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
 
 const router = Router();
 
 // All POS routes require authentication
-router.use(authenticate);
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
 
 // Validation schemas
+// Units on one cart line; far above any real basket
+const cartQuantity = z.coerce.number().positive().max(10000);
+
+// Manual line discounts: not negative, and a percent no more than 100
+const validDiscount = (item: { discountType?: 'percent' | 'fixed'; discountValue?: number }) =>
+  (item.discountValue ?? 0) >= 0 && (item.discountType !== 'percent' || (item.discountValue ?? 0) <= 100);
+const discountMessage = { message: 'Discounts must be 0 or more, and percent discounts at most 100', path: ['discountValue'] };
+
 const cartItemSchema = z.object({
-  productId: z.string().uuid().optional(),
-  variantId: z.string().uuid().optional(),
-  uomId: z.string().uuid().optional(),
+  productId: z.string().uuid(),
   sku: z.string(),
   name: z.string(),
-  quantity: z.number().positive(),
-  unitPrice: z.number().min(0),
-  costPrice: z.number().min(0).optional(),
+  quantity: cartQuantity,
+  unitPrice: z.coerce.number().min(0),
+  lineTotal: optionalNumber,
+  costPrice: optionalNumber,
   discountType: z.enum(['percent', 'fixed']).optional(),
-  discountValue: z.number().min(0).optional(),
-  taxRate: z.number().min(0).optional(),
-  promotionId: z.string().uuid().optional(),
-  notes: z.string().optional()
-});
+  discountValue: optionalNumber,
+  discountAmount: optionalNumber,
+  taxRate: optionalNumber,
+  taxAmount: optionalNumber,
+  promotionId: optionalUuid,
+  notes: optionalText
+}).refine(validDiscount, discountMessage);
 
 const paymentSchema = z.object({
-  method: z.enum(['cash', 'card', 'voucher', 'loyalty']),
-  amount: z.number().positive(),
-  reference: z.string().optional(),
-  cardLast4: z.string().optional(),
-  voucherId: z.string().uuid().optional()
+  method: z.enum([
+    'cash', 'card', 'instapay', 'vodafone_cash', 'etisalat_cash', 'orange_cash',
+    'wallet', 'bank_transfer', 'voucher', 'loyalty', 'gift_card'
+  ]),
+  amount: z.coerce.number().min(0),
+  reference: optionalText,
+  cardLast4: z.union([z.string().regex(/^\d{4}$/, 'Card last 4 must be 4 digits'), z.literal('')])
+    .nullable()
+    .optional()
+    .transform(value => value || undefined),
+  terminalTransactionId: optionalUuid,
+  voucherId: optionalUuid,
+  giftCardId: optionalUuid
 });
 
 const createSaleSchema = z.object({
   storeId: z.string().uuid(),
-  shiftId: z.string().uuid().optional(),
-  customerId: z.string().uuid().optional(),
-  items: z.array(cartItemSchema).min(1),
-  cartDiscounts: z.array(z.object({
-    type: z.enum(['line', 'cart', 'coupon', 'loyalty']),
+  shiftId: optionalUuid,
+  customerId: optionalUuid,
+  items: z.array(cartItemSchema),
+  giftCards: z.array(z.object({
+    code: z.union([z.string().regex(/^[A-Za-z0-9-]{4,50}$/, 'Gift card codes are 4-50 letters, digits or dashes'), z.literal('')])
+      .optional()
+      .transform(value => value || undefined),
+    amount: z.coerce.number().positive()
+  })).max(20).optional(),
+  couponCodes: z.array(z.string().min(1)).optional(),
+  expectedTotal: optionalNumber,
+  promotions: z.array(z.object({
+    type: z.literal('promotion'),
+    promotionId: z.string().uuid(),
     code: z.string().optional(),
     description: z.string(),
     amount: z.number()
   })).optional(),
-  payments: z.array(paymentSchema).min(1),
-  loyaltyPointsRedeemed: z.number().min(0).optional(),
-  notes: z.string().optional(),
-  idempotencyKey: z.string().optional(),
-  offlineCreated: z.boolean().optional()
+  payments: z.array(paymentSchema).min(1, 'No payment information'),
+  notes: optionalText,
+  idempotencyKey: optionalText,
+  offlineCreated: z.boolean().optional(),
+  clientCreatedAt: z.string().datetime().nullable().optional().transform(value => value || undefined)
+}).refine(sale => sale.items.length > 0 || (sale.giftCards?.length ?? 0) > 0, {
+  message: 'No items in cart',
+  path: ['items']
+}).refine(sale => sale.offlineCreated || sale.expectedTotal !== undefined, {
+  message: 'The total shown to the customer is required',
+  path: ['expectedTotal']
+}).refine(sale => !sale.offlineCreated || Boolean(sale.idempotencyKey && sale.clientCreatedAt), {
+  // Only outbox replays are offline sales, and those always carry their key and register time
+  message: 'Offline sales must be replayed from the register outbox',
+  path: ['offlineCreated']
 });
 
-// POST /pos/sale - Create a new sale
-router.post('/sale', requirePermission(PERMISSIONS.POS_SALE), async (req: Request, res: Response) => {
-  try {
-    const body = createSaleSchema.parse(req.body);
-    const receipt = await POSService.createSale(req.ctx!, body);
-    
-    res.status(201).json({
-      success: true,
-      data: receipt
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to create sale';
-    res.status(400).json({
-      success: false,
-      error: { code: 'SALE_FAILED', message }
-    });
-  }
+const cartPriceSchema = z.object({
+  storeId: z.string().uuid(),
+  customerId: optionalUuid,
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: cartQuantity,
+    discountType: z.enum(['percent', 'fixed']).optional(),
+    discountValue: optionalNumber
+  }).refine(validDiscount, discountMessage)).min(1, 'No items in cart'),
+  couponCodes: z.array(z.string().min(1)).optional()
 });
 
-// POST /pos/refund - Process a refund
-router.post('/refund', requirePermission(PERMISSIONS.POS_REFUND), async (req: Request, res: Response) => {
-  try {
-    const { originalReceiptId, lines, payments } = req.body;
-    
-    const receipt = await POSService.processRefund(
-      req.ctx!,
-      originalReceiptId,
-      lines,
-      payments
-    );
-    
-    res.status(201).json({
-      success: true,
-      data: receipt
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to process refund';
-    res.status(400).json({
-      success: false,
-      error: { code: 'REFUND_FAILED', message }
-    });
-  }
+const refundSchema = z.object({
+  originalReceiptId: z.string().uuid(),
+  lines: z.array(z.object({
+    lineId: z.string().uuid(),
+    quantity: z.coerce.number().positive(),
+    reason: optionalText
+  })).min(1),
+  // Left out, the refund goes back to the sale's tenders
+  payments: z.array(paymentSchema).optional()
 });
 
-// POST /pos/park - Park a sale
-router.post('/park', requirePermission(PERMISSIONS.POS_PARK), async (req: Request, res: Response) => {
-  try {
-    const { storeId, items, customerId, name, notes } = req.body;
-    
-    const result = await POSService.parkSale(
-      req.ctx!,
-      storeId,
-      items,
-      customerId,
-      name,
-      notes
-    );
-    
-    res.status(201).json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to park sale';
-    res.status(400).json({
-      success: false,
-      error: { code: 'PARK_FAILED', message }
-    });
-  }
+const exchangeSchema = z.object({
+  storeId: z.string().uuid(),
+  shiftId: optionalUuid,
+  originalReceiptId: z.string().uuid(),
+  returnLines: z.array(z.object({
+    lineId: z.string().uuid(),
+    quantity: z.coerce.number().positive(),
+    reason: optionalText
+  })).min(1),
+  items: z.array(cartItemSchema).min(1),
+  couponCodes: z.array(z.string().min(1)).optional(),
+  expectedTotal: z.coerce.number(),
+  payments: z.array(paymentSchema),
+  notes: optionalText
 });
 
-// GET /pos/parked/:storeId - Get parked sales for a store
-router.get('/parked/:storeId', async (req: Request, res: Response) => {
-  try {
-    const parkedSales = await POSService.getParkedSales(
-      req.ctx!.tenantId,
-      req.params.storeId
-    );
-    
-    res.json({
-      success: true,
-      data: parkedSales
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch parked sales' }
-    });
-  }
+const voidSchema = z.object({
+  receiptId: z.string().uuid(),
+  reason: z.string().trim().min(3).max(500),
+  supervisor: z.union([
+    z.object({ pin: z.string().regex(/^\d{4,8}$/) }),
+    z.object({ email: z.string().email(), password: z.string().min(1) })
+  ]).optional()
 });
 
-// POST /pos/recall/:id - Recall a parked sale
-router.post('/recall/:id', async (req: Request, res: Response) => {
-  try {
-    const result = await POSService.recallSale(req.ctx!, req.params.id);
-    
-    res.json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to recall sale';
-    res.status(404).json({
-      success: false,
-      error: { code: 'RECALL_FAILED', message }
-    });
-  }
+const terminalAuthorizeSchema = z.object({
+  storeId: z.string().uuid(),
+  amount: z.coerce.number().positive()
 });
 
-// POST /pos/shift/open - Open a new shift
-router.post('/shift/open', async (req: Request, res: Response) => {
-  try {
-    const { storeId, openingCash, registerId } = req.body;
-    
-    const shift = await POSService.openShift(
-      req.ctx!,
-      storeId,
-      openingCash,
-      registerId
-    );
-    
-    res.status(201).json({
-      success: true,
-      data: shift
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to open shift';
-    res.status(400).json({
-      success: false,
-      error: { code: 'SHIFT_OPEN_FAILED', message }
-    });
-  }
+const parkSchema = z.object({
+  storeId: z.string().uuid(),
+  items: z.array(cartItemSchema).min(1),
+  customerId: optionalUuid,
+  name: optionalText,
+  notes: optionalText
 });
 
-// POST /pos/shift/:id/close - Close a shift
-router.post('/shift/:id/close', async (req: Request, res: Response) => {
-  try {
-    const { closingCash, notes } = req.body;
-    
-    const shift = await POSService.closeShift(
-      req.ctx!,
-      req.params.id,
-      closingCash,
-      notes
-    );
-    
-    res.json({
-      success: true,
-      data: shift
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to close shift';
-    res.status(400).json({
-      success: false,
-      error: { code: 'SHIFT_CLOSE_FAILED', message }
-    });
-  }
+const syncConflictsQuerySchema = z.object({
+  status: z.enum(['open', 'resolved', 'all']).default('open'),
+  storeId: optionalUuid
 });
 
-// POST /pos/shift/:id/cash-movement - Record cash movement
-router.post('/shift/:id/cash-movement', async (req: Request, res: Response) => {
-  try {
-    const { type, amount, reason, notes, approvedBy } = req.body;
-    
-    await POSService.recordCashMovement(
-      req.ctx!,
-      req.params.id,
-      type,
-      amount,
-      reason,
-      notes,
-      approvedBy
-    );
-    
-    res.status(201).json({
-      success: true,
-      data: { message: 'Cash movement recorded' }
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to record cash movement';
-    res.status(400).json({
-      success: false,
-      error: { code: 'CASH_MOVEMENT_FAILED', message }
-    });
-  }
+const resolveConflictSchema = z.object({
+  notes: optionalText
 });
 
+// Manual line discounts need POS_DISCOUNT on top of POS_SALE
+function assertDiscountAllowed(req: Request, items: Array<{ discountValue?: number }>) {
+  if (items.some(item => item.discountValue) && !hasPermission(req.ctx!, PERMISSIONS.POS_DISCOUNT)) {
+    throw AppError.forbidden('You do not have permission to give discounts');
+  }
+}
+
+// POST /pos/cart/price - Price a cart on the server, with the steps behind each line price
+router.post('/cart/price', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const body = cartPriceSchema.parse(req.body);
+  assertDiscountAllowed(req, body.items);
+  ok(res, await PricingService.priceCart(req.ctx!.tenantId, body));
+}, 'Failed to price cart'));
+
+// POST /pos/sale - Create a new sale
+// A replayed offline sale answers 200 with the original receipt
+router.post('/sale', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const body = createSaleSchema.parse(req.body);
+  assertDiscountAllowed(req, body.items);
+  const result = await POSService.createSale(req.ctx!, body);
+
+  if ('duplicate' in result) {
+    ok(res, { ...result, message: 'Sale already recorded' });
+    return;
+  }
+  ok(res, { ...result, message: 'Sale completed successfully' }, 201);
+}, 'Sale failed'));
+
+// POST /pos/refund - Process a refund
+router.post('/refund', requirePermission(PERMISSIONS.POS_REFUND), handle(async (req: Request, res: Response) => {
+  const { originalReceiptId, lines, payments } = refundSchema.parse(req.body);
+  ok(res, await POSService.processRefund(req.ctx!, originalReceiptId, lines, payments), 201);
+}, 'Failed to process refund'));
+
+// POST /pos/exchange - Return lines of a sale and sell new items on one exchange receipt
+router.post('/exchange',
+  requirePermission(PERMISSIONS.POS_REFUND),
+  handle(async (req: Request, res: Response) => {
+    const body = exchangeSchema.parse(req.body);
+    assertDiscountAllowed(req, body.items);
+    ok(res, await POSService.processExchange(req.ctx!, body), 201);
+  }, 'Failed to process exchange'));
+
+// POST /pos/void - Void a sale from the open shift; without POS_VOID a supervisor's PIN or login approves it
+router.post('/void',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.POS_VOID),
+  supervisorLimiter,
+  handle(async (req: Request, res: Response) => {
+    const { receiptId, reason, supervisor } = voidSchema.parse(req.body);
+    let approvedBy: string | undefined;
+    if (!hasPermission(req.ctx!, PERMISSIONS.POS_VOID)) {
+      if (!supervisor) {
+        throw new AppError('Voiding a sale needs a supervisor\'s approval', 403, 'SUPERVISOR_REQUIRED');
+      }
+      approvedBy = (await AuthService.verifySupervisor(req.ctx!, PERMISSIONS.POS_VOID, supervisor)).userId;
+    }
+    ok(res, await POSService.voidSale(req.ctx!, receiptId, { reason, approvedBy }));
+  }, 'Failed to void sale'));
+
+// GET /pos/terminal - Whether card payments go through a terminal
+router.get('/terminal', requirePermission(PERMISSIONS.POS_SALE), handle(async (_req: Request, res: Response) => {
+  ok(res, PaymentTerminalService.getStatus());
+}, 'Failed to get card terminal'));
+
+// POST /pos/terminal/authorize - Authorise a card payment on the terminal before completing the sale
+// Declines answer 402 (CARD_DECLINED) and timeouts 504 (TERMINAL_TIMEOUT)
+router.post('/terminal/authorize', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const body = terminalAuthorizeSchema.parse(req.body);
+  ok(res, { transaction: await PaymentTerminalService.authorize(req.ctx!, body) }, 201);
+}, 'Card authorisation failed'));
+
+// POST /pos/terminal/:id/void - Release a card authorisation the sale did not use
+router.post('/terminal/:id/void', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  ok(res, { transaction: await PaymentTerminalService.voidAuthorization(req.ctx!, req.params.id) });
+}, 'Failed to release card authorisation'));
+
+// POST /pos/park - Park a sale
+router.post('/park', requirePermission(PERMISSIONS.POS_PARK), handle(async (req: Request, res: Response) => {
+  const { storeId, items, customerId, name, notes } = parkSchema.parse(req.body);
+  ok(res, await POSService.parkSale(req.ctx!, storeId, items, customerId, name, notes), 201);
+}, 'Failed to park sale'));
+
+// GET /pos/parked/:storeId - Get parked sales for a store
+router.get('/parked/:storeId',
+  requireStoreAccess, requirePermission(PERMISSIONS.POS_PARK),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await POSService.getParkedSales(req.ctx!.tenantId, req.params.storeId));
+  }, 'Failed to fetch parked sales'));
+
+// POST /pos/recall/:id - Recall a parked sale
+router.post('/recall/:id', requirePermission(PERMISSIONS.POS_PARK), handle(async (req: Request, res: Response) => {
+  ok(res, await POSService.recallSale(req.ctx!, req.params.id));
+}, 'Failed to recall sale'));
+
+// GET /pos/sync-conflicts - Offline sync conflicts awaiting supervisor review
+router.get('/sync-conflicts', requirePermission(PERMISSIONS.POS_VOID), handle(async (req: Request, res: Response) => {
+  const options = syncConflictsQuerySchema.parse(req.query);
+  ok(res, { conflicts: await POSService.listSyncConflicts(req.ctx!.tenantId, options) });
+}, 'Failed to get sync conflicts'));
+
+// POST /pos/sync-conflicts/:id/resolve - Mark a sync conflict as reviewed
+router.post('/sync-conflicts/:id/resolve', requirePermission(PERMISSIONS.POS_VOID), handle(async (req: Request, res: Response) => {
+  const { notes } = resolveConflictSchema.parse(req.body);
+  ok(res, { conflict: await POSService.resolveSyncConflict(req.ctx!, req.params.id, notes) });
+}, 'Failed to resolve sync conflict'));
+
 // GET /pos/receipt/:id - Get receipt by ID or number
-router.get('/receipt/:id', async (req: Request, res: Response) => {
-  try {
+router.get('/receipt/:id',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.POS_REFUND, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
     const receipt = await POSService.getReceipt(req.ctx!.tenantId, req.params.id);
-    
     if (!receipt) {
-      res.status(404).json({
-        success: false,
-        error: { code: 'NOT_FOUND', message: 'Receipt not found' }
-      });
-      return;
+      throw AppError.notFound('Receipt not found');
     }
-    
-    res.json({
-      success: true,
-      data: receipt
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch receipt' }
-    });
-  }
-});
-
-// GET /pos/receipts - Search receipts
-router.get('/receipts', async (req: Request, res: Response) => {
-  try {
-    const { storeId, cashierId, customerId, startDate, endDate, status, type, search, page, limit } = req.query;
-    
-    const result = await POSService.searchReceipts(req.ctx!.tenantId, {
-      storeId: storeId as string,
-      cashierId: cashierId as string,
-      customerId: customerId as string,
-      startDate: startDate ? new Date(startDate as string) : undefined,
-      endDate: endDate ? new Date(endDate as string) : undefined,
-      status: status as string,
-      type: type as string,
-      search: search as string,
-      limit: limit ? parseInt(limit as string) : 50,
-      offset: page ? (parseInt(page as string) - 1) * (limit ? parseInt(limit as string) : 50) : 0
-    });
-    
-    res.json({
-      success: true,
-      data: result.receipts,
-      pagination: {
-        total: result.total,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 50
-      }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch receipts' }
-    });
-  }
-});
+    await assertStoreAccess(req.ctx!, receipt.store_id);
+    ok(res, receipt);
+  }, 'Failed to fetch receipt'));
 
 export default router;
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { PricingService } from '../services/pricing.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const dateText = z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.literal(''), z.null()])
+  .optional()
+  .transform(value => value || undefined);
+
+const priceListSchema = z.object({
+  code: z.string().min(1).max(50),
+  name: z.string().min(1).max(255),
+  description: optionalText,
+  storeId: optionalUuid,
+  channel: z.union([z.enum(['pos', 'online']), z.literal(''), z.null()]).optional().transform(value => value || undefined),
+  customerGroupId: optionalUuid,
+  priority: z.coerce.number().int().optional(),
+  startDate: dateText,
+  endDate: dateText,
+  isActive: z.boolean().optional()
+});
+
+const priceListItemSchema = z.object({
+  productId: z.string().uuid(),
+  price: z.coerce.number().min(0),
+  minQty: z.coerce.number().positive().optional()
+});
+
+// GET /pricing/price-lists - List price lists
+router.get('/price-lists',
+  requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_EDIT),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({
+      storeId: optionalUuid,
+      includeInactive: z.enum(['true', 'false']).optional().transform(v => v === 'true')
+    }).parse(req.query);
+    ok(res, { priceLists: await PricingService.listPriceLists(req.ctx!.tenantId, options) });
+  }, 'Failed to get price lists'));
+
+// GET /pricing/price-lists/:id - Price list with items
+router.get('/price-lists/:id',
+  requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_EDIT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await PricingService.getPriceList(req.ctx!.tenantId, req.params.id));
+  }, 'Failed to get price list'));
+
+// POST /pricing/price-lists - Create price list
+router.post('/price-lists', requirePermission(PERMISSIONS.PRICING_EDIT), handle(async (req: Request, res: Response) => {
+  const body = priceListSchema.parse(req.body);
+  ok(res, await PricingService.upsertPriceList(req.ctx!, body), 201);
+}, 'Failed to create price list'));
+
+// PUT /pricing/price-lists/:id - Update price list
+router.put('/price-lists/:id', requirePermission(PERMISSIONS.PRICING_EDIT), handle(async (req: Request, res: Response) => {
+  const body = priceListSchema.parse(req.body);
+  ok(res, await PricingService.upsertPriceList(req.ctx!, { ...body, id: req.params.id }));
+}, 'Failed to update price list'));
+
+// DELETE /pricing/price-lists/:id - Delete price list
+router.delete('/price-lists/:id',
+  requirePermission(PERMISSIONS.PRICING_EDIT),
+  handle(async (req: Request, res: Response) => {
+    await PricingService.deletePriceList(req.ctx!, req.params.id);
+    ok(res, { message: 'Price list deleted' });
+  }, 'Failed to delete price list'));
+
+// PUT /pricing/price-lists/:id/items - Set a product price at a quantity break
+router.put('/price-lists/:id/items',
+  requirePermission(PERMISSIONS.PRICING_EDIT),
+  handle(async (req: Request, res: Response) => {
+    const body = priceListItemSchema.parse(req.body);
+    ok(res, await PricingService.setPriceListItem(req.ctx!, req.params.id, body.productId, body.price, body.minQty));
+  }, 'Failed to save price'));
+
+// DELETE /pricing/price-lists/:id/items/:itemId - Remove a price
+router.delete('/price-lists/:id/items/:itemId',
+  requirePermission(PERMISSIONS.PRICING_EDIT),
+  handle(async (req: Request, res: Response) => {
+    await PricingService.removePriceListItem(req.ctx!, req.params.id, req.params.itemId);
+    ok(res, { message: 'Price removed' });
+  }, 'Failed to remove price'));
+
+export default router;
@@ -1,266 +1,112 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { ProductService } from '../services/product.service.js';
-import { authenticate, requirePermission } from '../middleware/auth.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
 import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
 
 const router = Router();
 
-router.use(authenticate);
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
 
 // Validation schemas
+const listQuerySchema = z.object({
+  search: optionalText,
+  storeId: optionalUuid
+});
+
+const productFields = {
+  description: optionalText,
+  categoryId: optionalUuid,
+  brandId: optionalUuid,
+  costPrice: optionalNumber,
+  sellPrice: optionalNumber,
+  reorderPoint: optionalNumber
+};
+
 const createProductSchema = z.object({
   sku: z.string().min(1),
   name: z.string().min(1),
-  description: z.string().optional(),
-  categoryId: z.string().uuid().optional(),
-  brandId: z.string().uuid().optional(),
-  taxGroupId: z.string().uuid().optional(),
-  baseUomId: z.string().uuid().optional(),
-  costPrice: z.number().min(0).optional(),
-  sellPrice: z.number().min(0).optional(),
-  imageUrl: z.string().url().optional(),
-  attributes: z.record(z.unknown()).optional(),
-  trackInventory: z.boolean().optional(),
-  allowNegativeStock: z.boolean().optional(),
-  reorderPoint: z.number().min(0).optional(),
-  reorderQty: z.number().min(0).optional(),
-  barcodes: z.array(z.string()).optional(),
-  variants: z.array(z.object({
-    sku: z.string(),
-    name: z.string(),
-    attributes: z.record(z.string()),
-    costPrice: z.number().min(0).optional(),
-    sellPrice: z.number().min(0).optional(),
-    barcodes: z.array(z.string()).optional()
-  })).optional()
+  barcode: optionalText,
+  ...productFields
 });
 
-// GET /products - List products
-router.get('/', requirePermission(PERMISSIONS.MASTER_VIEW), async (req: Request, res: Response) => {
-  try {
-    const { search, categoryId, brandId, isActive, page, limit } = req.query;
-    
-    const result = await ProductService.searchProducts(req.ctx!.tenantId, {
-      search: search as string,
-      categoryId: categoryId as string,
-      brandId: brandId as string,
-      isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
-      limit: limit ? parseInt(limit as string) : 50,
-      offset: page ? (parseInt(page as string) - 1) * (limit ? parseInt(limit as string) : 50) : 0
-    });
-    
-    res.json({
-      success: true,
-      data: result.products,
-      pagination: {
-        total: result.total,
-        page: page ? parseInt(page as string) : 1,
-        limit: limit ? parseInt(limit as string) : 50
-      }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch products' }
-    });
-  }
+const updateProductSchema = z.object({
+  sku: optionalText,
+  name: optionalText,
+  ...productFields
 });
 
-// GET /products/lookup/:barcode - Fast barcode lookup for POS
-router.get('/lookup/:barcode', async (req: Request, res: Response) => {
-  try {
-    const { storeId } = req.query;
-    const result = await ProductService.lookupByBarcode(
-      req.ctx!.tenantId,
-      req.params.barcode,
-      storeId as string
-    );
-    
-    if (!result) {
-      res.status(404).json({
-        success: false,
-        error: { code: 'NOT_FOUND', message: 'Product not found' }
-      });
-      return;
-    }
-    
-    res.json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'LOOKUP_FAILED', message: 'Failed to lookup product' }
-    });
-  }
+const barcodeSchema = z.object({
+  barcode: z.string().min(1),
+  isPrimary: z.boolean().optional(),
+  variantId: optionalUuid
 });
 
-// GET /products/:id - Get product by ID
-router.get('/:id', requirePermission(PERMISSIONS.MASTER_VIEW), async (req: Request, res: Response) => {
-  try {
+// GET /products - List active products (with store stock when storeId is given)
+router.get('/',
+  requirePermission(PERMISSIONS.MASTER_VIEW, PERMISSIONS.POS_SALE, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    ok(res, await ProductService.listProducts(req.ctx!.tenantId, options));
+  }, 'Failed to get products'));
+
+// GET /products/lookup/:barcode - Fast barcode (or SKU) lookup for POS
+router.get('/lookup/:barcode',
+  requirePermission(PERMISSIONS.MASTER_VIEW, PERMISSIONS.POS_SALE, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const product = await ProductService.lookupByBarcode(req.ctx!.tenantId, req.params.barcode);
+    if (!product) {
+      throw AppError.notFound('Product not found');
+    }
+    ok(res, product);
+  }, 'Lookup failed'));
+
+// GET /products/:id - Get product
+router.get('/:id',
+  requirePermission(PERMISSIONS.MASTER_VIEW, PERMISSIONS.POS_SALE, PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
     const product = await ProductService.getProduct(req.ctx!.tenantId, req.params.id);
-    
     if (!product) {
-      res.status(404).json({
-        success: false,
-        error: { code: 'NOT_FOUND', message: 'Product not found' }
-      });
-      return;
+      throw AppError.notFound('Product not found');
     }
-    
-    res.json({
-      success: true,
-      data: product
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch product' }
-    });
-  }
-});
+    ok(res, product);
+  }, 'Failed to get product'));
 
-// POST /products - Create product
-router.post('/', requirePermission(PERMISSIONS.MASTER_PRODUCT), async (req: Request, res: Response) => {
-  try {
-    const body = createProductSchema.parse(req.body);
-    const product = await ProductService.createProduct(req.ctx!, body);
-    
-    res.status(201).json({
-      success: true,
-      data: product
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to create product';
-    res.status(400).json({
-      success: false,
-      error: { code: 'CREATE_FAILED', message }
-    });
-  }
-});
+// POST /products - Create product (barcode is generated when not given)
+router.post('/', requirePermission(PERMISSIONS.MASTER_PRODUCT), handle(async (req: Request, res: Response) => {
+  const body = createProductSchema.parse(req.body);
+  ok(res, await ProductService.createProduct(req.ctx!, body), 201);
+}, 'Failed to create product'));
 
-// PATCH /products/:id - Update product
-router.patch('/:id', requirePermission(PERMISSIONS.MASTER_PRODUCT), async (req: Request, res: Response) => {
-  try {
-    const product = await ProductService.updateProduct(req.ctx!, req.params.id, req.body);
-    
-    res.json({
-      success: true,
-      data: product
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to update product';
-    res.status(400).json({
-      success: false,
-      error: { code: 'UPDATE_FAILED', message }
-    });
-  }
-});
+// PUT /products/:id - Update product
+router.put('/:id', requirePermission(PERMISSIONS.MASTER_PRODUCT), handle(async (req: Request, res: Response) => {
+  const body = updateProductSchema.parse(req.body);
+  ok(res, await ProductService.updateProduct(req.ctx!, req.params.id, body));
+}, 'Failed to update product'));
+
+// DELETE /products/:id - Deactivate product
+router.delete('/:id', requirePermission(PERMISSIONS.MASTER_PRODUCT), handle(async (req: Request, res: Response) => {
+  await ProductService.deleteProduct(req.ctx!, req.params.id);
+  ok(res, { message: 'Product deleted' });
+}, 'Failed to delete product'));
 
 // POST /products/:id/barcodes - Add barcode
-router.post('/:id/barcodes', requirePermission(PERMISSIONS.MASTER_PRODUCT), async (req: Request, res: Response) => {
-  try {
-    const { barcode, isPrimary, variantId } = req.body;
-    
-    const result = await ProductService.addBarcode(
+router.post('/:id/barcodes',
+  requirePermission(PERMISSIONS.MASTER_PRODUCT),
+  handle(async (req: Request, res: Response) => {
+    const body = barcodeSchema.parse(req.body);
+    const barcode = await ProductService.addBarcode(
       req.ctx!,
-      variantId ? undefined : req.params.id,
-      variantId,
-      barcode,
-      isPrimary
+      body.variantId ? undefined : req.params.id,
+      body.variantId,
+      body.barcode,
+      body.isPrimary
     );
-    
-    res.status(201).json({
-      success: true,
-      data: result
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to add barcode';
-    res.status(400).json({
-      success: false,
-      error: { code: 'BARCODE_FAILED', message }
-    });
-  }
-});
-
-// GET /categories - List categories
-router.get('/master/categories', requirePermission(PERMISSIONS.MASTER_VIEW), async (req: Request, res: Response) => {
-  try {
-    const { parentId, isActive } = req.query;
-    const categories = await ProductService.getCategories(req.ctx!.tenantId, {
-      parentId: parentId as string,
-      isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined
-    });
-    
-    res.json({
-      success: true,
-      data: categories
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch categories' }
-    });
-  }
-});
-
-// POST /categories - Create category
-router.post('/master/categories', requirePermission(PERMISSIONS.MASTER_CATEGORY), async (req: Request, res: Response) => {
-  try {
-    const category = await ProductService.createCategory(req.ctx!, req.body);
-    
-    res.status(201).json({
-      success: true,
-      data: category
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to create category';
-    res.status(400).json({
-      success: false,
-      error: { code: 'CREATE_FAILED', message }
-    });
-  }
-});
-
-// GET /brands - List brands
-router.get('/master/brands', requirePermission(PERMISSIONS.MASTER_VIEW), async (req: Request, res: Response) => {
-  try {
-    const { isActive } = req.query;
-    const brands = await ProductService.getBrands(
-      req.ctx!.tenantId,
-      isActive === 'true' ? true : isActive === 'false' ? false : undefined
-    );
-    
-    res.json({
-      success: true,
-      data: brands
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'FETCH_FAILED', message: 'Failed to fetch brands' }
-    });
-  }
-});
-
-// POST /brands - Create brand
-router.post('/master/brands', requirePermission(PERMISSIONS.MASTER_CATEGORY), async (req: Request, res: Response) => {
-  try {
-    const brand = await ProductService.createBrand(req.ctx!, req.body);
-    
-    res.status(201).json({
-      success: true,
-      data: brand
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to create brand';
-    res.status(400).json({
-      success: false,
-      error: { code: 'CREATE_FAILED', message }
-    });
-  }
-});
+    ok(res, barcode, 201);
+  }, 'Failed to add barcode'));
 
 export default router;
@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { PromotionService } from '../services/promotion.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const rulesSchema = z.object({
+  buyQty: z.number().int().positive().optional(),
+  getQty: z.number().int().positive().optional(),
+  getProducts: z.array(z.string().uuid()).optional(),
+  getDiscountPercent: z.number().positive().max(100).optional(),
+  bundleItems: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().positive()
+  })).optional(),
+  bundlePrice: z.number().nonnegative().optional(),
+  discountType: z.enum(['percent', 'fixed']).optional()
+});
+
+const promotionSchema = z.object({
+  code: z.string().min(1).max(50).optional(),
+  name: z.string().min(1).max(200).optional(),
+  description: optionalText,
+  type: z.enum(['percent_off', 'fixed_off', 'buy_x_get_y', 'bundle', 'coupon']).optional(),
+  rules: rulesSchema.optional(),
+  discountValue: optionalNumber,
+  maxDiscount: optionalNumber,
+  minPurchase: optionalNumber,
+  applicableProducts: z.array(z.string().uuid()).optional(),
+  applicableCategories: z.array(z.string().uuid()).optional(),
+  applicableStores: z.array(z.string().uuid()).optional(),
+  startDate: optionalText,
+  endDate: optionalText,
+  usageLimit: z.number().int().positive().nullable().optional().transform(v => v ?? undefined),
+  isCombinable: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  customerSegmentId: z.union([z.string().uuid(), z.literal(''), z.null()])
+    .optional()
+    .transform(v => v === '' ? null : v)
+});
+
+const createPromotionSchema = promotionSchema.extend({
+  code: z.string().min(1).max(50),
+  name: z.string().min(1).max(200),
+  type: z.enum(['percent_off', 'fixed_off', 'buy_x_get_y', 'bundle', 'coupon'])
+});
+
+const evaluateSchema = z.object({
+  storeId: z.string().uuid(),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().positive().max(10000),
+    unitPrice: z.number().nonnegative()
+  })),
+  couponCodes: z.array(z.string().min(1)).optional(),
+  customerId: optionalUuid
+});
+
+// Dates are YYYY-MM-DD Cairo days
+const performanceQuerySchema = z.object({
+  storeId: optionalUuid,
+  startDate: optionalText,
+  endDate: optionalText
+});
+
+// GET /promotions - List promotions
+router.get('/',
+  requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_PROMO),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({
+      search: optionalText,
+      status: z.enum(['active', 'inactive', 'all']).optional()
+    }).parse(req.query);
+    ok(res, { promotions: await PromotionService.listPromotions(req.ctx!.tenantId, options) });
+  }, 'Failed to get promotions'));
+
+// GET /promotions/performance - Promotion performance report
+router.get('/performance',
+  requireStoreAccess, requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = performanceQuerySchema.parse(req.query);
+    ok(res, await PromotionService.getPerformance(req.ctx!.tenantId, options));
+  }, 'Failed to generate promotion report'));
+
+// POST /promotions/evaluate - Promotion discounts for a cart
+router.post('/evaluate',
+  requireStoreAccess, requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.PRICING_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const body = evaluateSchema.parse(req.body);
+    ok(res, await PromotionService.evaluateCart(req.ctx!.tenantId, body.storeId, body.items, {
+      couponCodes: body.couponCodes,
+      customerId: body.customerId
+    }));
+  }, 'Failed to evaluate promotions'));
+
+// GET /promotions/:id - Get promotion
+router.get('/:id',
+  requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_PROMO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await PromotionService.getPromotion(req.ctx!.tenantId, req.params.id));
+  }, 'Failed to get promotion'));
+
+// POST /promotions - Create promotion
+router.post('/', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  const body = createPromotionSchema.parse(req.body);
+  ok(res, await PromotionService.createPromotion(req.ctx!, body), 201);
+}, 'Failed to create promotion'));
+
+// PUT /promotions/:id - Update promotion
+router.put('/:id', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  const body = promotionSchema.parse(req.body);
+  ok(res, await PromotionService.updatePromotion(req.ctx!, req.params.id, body));
+}, 'Failed to update promotion'));
+
+// DELETE /promotions/:id - Deactivate promotion
+router.delete('/:id', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  await PromotionService.deactivatePromotion(req.ctx!, req.params.id);
+  ok(res, { message: 'Promotion deactivated' });
+}, 'Failed to deactivate promotion'));
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DocumentService } from '../services/document.service.js';
+import { handle, sendPdf } from '../utils/http.js';
+
+// No authentication: every route here checks its own signed token
+const router = Router();
+
+// Validation schemas
+const publicReceiptQuerySchema = z.object({
+  format: z.enum(['thermal', 'a4']).default('a4')
+});
+
+// GET /public/receipts/:token - E-receipt behind a signed, expiring link
+router.get('/receipts/:token', handle(async (req: Request, res: Response) => {
+  const { format } = publicReceiptQuerySchema.parse(req.query);
+  sendPdf(res, await DocumentService.publicReceipt(req.params.token, format));
+}, 'Failed to load receipt'));
+
+export default router;
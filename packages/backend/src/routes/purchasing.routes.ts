@@ -0,0 +1,309 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { SupplierService } from '../services/supplier.service.js';
+import { PurchaseOrderService } from '../services/purchase-order.service.js';
+import { SupplierInvoiceService } from '../services/supplier-invoice.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Expected a YYYY-MM-DD date');
+const optionalDate = z
+  .union([dateString, z.literal(''), z.null()])
+  .optional()
+  .transform(value => value || undefined);
+
+const supplierListQuerySchema = z.object({
+  search: optionalText,
+  includeInactive: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+const dateRangeQuerySchema = z.object({
+  from: optionalDate,
+  to: optionalDate
+});
+
+const supplierSchema = z.object({
+  code: optionalText,
+  name: optionalText,
+  contactName: optionalText,
+  email: optionalText,
+  phone: optionalText,
+  address: z.record(z.unknown()).nullable().optional().transform(value => value || undefined),
+  paymentTerms: optionalNumber,
+  leadTimeDays: optionalNumber,
+  taxId: optionalText,
+  notes: optionalText,
+  isActive: z.boolean().optional()
+});
+
+const orderListQuerySchema = z.object({
+  storeId: optionalUuid,
+  status: optionalText,
+  supplierId: optionalUuid,
+  search: optionalText
+});
+
+const orderLinesSchema = z.array(z.object({
+  productId: z.string().uuid(),
+  quantity: z.coerce.number().positive(),
+  unitCost: z.coerce.number().min(0),
+  taxRate: optionalNumber
+}), { required_error: 'At least one line is required' }).min(1, 'At least one line is required');
+
+const createOrderSchema = z.object({
+  storeId: z.string({ required_error: 'Store and supplier are required' }).uuid(),
+  supplierId: z.string({ required_error: 'Store and supplier are required' }).uuid(),
+  expectedDate: optionalDate,
+  notes: optionalText,
+  lines: orderLinesSchema
+});
+
+const updateOrderSchema = z.object({
+  supplierId: optionalUuid,
+  expectedDate: optionalDate,
+  notes: optionalText,
+  lines: orderLinesSchema
+});
+
+const receiveOrderSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().uuid(),
+    quantity: z.coerce.number().min(0),
+    unitCost: optionalNumber
+  })).default([]),
+  referenceNumber: optionalText,
+  notes: optionalText
+});
+
+const invoiceListQuerySchema = z.object({
+  status: optionalText,
+  supplierId: optionalUuid,
+  purchaseOrderId: optionalUuid,
+  search: optionalText
+});
+
+const agingQuerySchema = z.object({
+  asOf: optionalDate
+});
+
+const createInvoiceSchema = z.object({
+  supplierId: z.string().uuid(),
+  purchaseOrderId: optionalUuid,
+  invoiceNumber: z.string().trim().min(1, 'Invoice number is required'),
+  invoiceDate: dateString,
+  dueDate: optionalDate,
+  notes: optionalText,
+  lines: z.array(z.object({
+    purchaseOrderLineId: optionalUuid,
+    productId: z.string().uuid(),
+    quantity: z.coerce.number().positive(),
+    unitCost: z.coerce.number().min(0),
+    taxAmount: optionalNumber
+  })).default([])
+});
+
+const approveVarianceSchema = z.object({
+  notes: optionalText
+});
+
+const paymentSchema = z.object({
+  amount: z.coerce.number().positive('Payment amount must be positive')
+});
+
+// ----- Suppliers -----
+
+// GET /purchasing/suppliers - List suppliers
+router.get('/suppliers',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.PURCHASING_SUPPLIER),
+  handle(async (req: Request, res: Response) => {
+    const options = supplierListQuerySchema.parse(req.query);
+    ok(res, { suppliers: await SupplierService.listSuppliers(req.ctx!.tenantId, options) });
+  }, 'Failed to get suppliers'));
+
+// GET /purchasing/suppliers/scorecard - Scorecards for all suppliers
+router.get('/suppliers/scorecard',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_SUPPLIER),
+  handle(async (req: Request, res: Response) => {
+    const options = dateRangeQuerySchema.parse(req.query);
+    ok(res, { scorecards: await SupplierService.getScorecards(req.ctx!.tenantId, options) });
+  }, 'Failed to get supplier scorecards'));
+
+// GET /purchasing/suppliers/:id - Supplier with scorecard and recent orders
+router.get('/suppliers/:id',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.PURCHASING_SUPPLIER),
+  handle(async (req: Request, res: Response) => {
+    const options = dateRangeQuerySchema.parse(req.query);
+    ok(res, await SupplierService.getSupplier(req.ctx!.tenantId, req.params.id, options));
+  }, 'Failed to get supplier'));
+
+// POST /purchasing/suppliers - Create supplier
+router.post('/suppliers', requirePermission(PERMISSIONS.PURCHASING_SUPPLIER), handle(async (req: Request, res: Response) => {
+  const body = supplierSchema.parse(req.body);
+  ok(res, { supplier: await SupplierService.createSupplier(req.ctx!, body) }, 201);
+}, 'Failed to create supplier'));
+
+// PUT /purchasing/suppliers/:id - Update supplier
+router.put('/suppliers/:id', requirePermission(PERMISSIONS.PURCHASING_SUPPLIER), handle(async (req: Request, res: Response) => {
+  const body = supplierSchema.parse(req.body);
+  ok(res, { supplier: await SupplierService.updateSupplier(req.ctx!, req.params.id, body) });
+}, 'Failed to update supplier'));
+
+// DELETE /purchasing/suppliers/:id - Deactivate supplier
+router.delete('/suppliers/:id', requirePermission(PERMISSIONS.PURCHASING_SUPPLIER), handle(async (req: Request, res: Response) => {
+  await SupplierService.deactivateSupplier(req.ctx!, req.params.id);
+  ok(res, { message: 'Supplier deactivated' });
+}, 'Failed to delete supplier'));
+
+// ----- Purchase orders -----
+
+// GET /purchasing/orders - List purchase orders
+router.get('/orders',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const options = orderListQuerySchema.parse(req.query);
+    ok(res, { orders: await PurchaseOrderService.listOrders(req.ctx!.tenantId, options) });
+  }, 'Failed to get purchase orders'));
+
+// GET /purchasing/orders/:id - Purchase order with lines and GRNs
+router.get('/orders/:id',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const order = await PurchaseOrderService.getOrder(req.ctx!.tenantId, req.params.id);
+    if (!order) {
+      throw AppError.notFound('Purchase order not found');
+    }
+    ok(res, { order });
+  }, 'Failed to get purchase order'));
+
+// POST /purchasing/orders - Create draft purchase order
+router.post('/orders', requirePermission(PERMISSIONS.PURCHASING_PO), handle(async (req: Request, res: Response) => {
+  const body = createOrderSchema.parse(req.body);
+  ok(res, { order: await PurchaseOrderService.createOrder(req.ctx!, body) }, 201);
+}, 'Failed to create purchase order'));
+
+// PUT /purchasing/orders/:id - Update draft purchase order (replaces lines)
+router.put('/orders/:id', requirePermission(PERMISSIONS.PURCHASING_PO), handle(async (req: Request, res: Response) => {
+  const body = updateOrderSchema.parse(req.body);
+  ok(res, { order: await PurchaseOrderService.updateOrder(req.ctx!, req.params.id, body) });
+}, 'Failed to update purchase order'));
+
+// POST /purchasing/orders/:id/approve
+router.post('/orders/:id/approve',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { order: await PurchaseOrderService.approveOrder(req.ctx!, req.params.id) });
+  }, 'Failed to update purchase order status'));
+
+// POST /purchasing/orders/:id/send - Mark as sent to supplier
+router.post('/orders/:id/send',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { order: await PurchaseOrderService.sendOrder(req.ctx!, req.params.id) });
+  }, 'Failed to update purchase order status'));
+
+// POST /purchasing/orders/:id/close - Short-close
+router.post('/orders/:id/close',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { order: await PurchaseOrderService.closeOrder(req.ctx!, req.params.id) });
+  }, 'Failed to update purchase order status'));
+
+// POST /purchasing/orders/:id/cancel
+router.post('/orders/:id/cancel',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { order: await PurchaseOrderService.cancelOrder(req.ctx!, req.params.id) });
+  }, 'Failed to update purchase order status'));
+
+// POST /purchasing/orders/:id/receive - Receive against PO lines (creates a GRN)
+router.post('/orders/:id/receive',
+  requirePermission(PERMISSIONS.PURCHASING_PO, PERMISSIONS.INVENTORY_GRN),
+  handle(async (req: Request, res: Response) => {
+    const body = receiveOrderSchema.parse(req.body);
+    ok(res, await PurchaseOrderService.receiveOrder(req.ctx!, req.params.id, body), 201);
+  }, 'Failed to receive purchase order'));
+
+// ----- Supplier invoices -----
+
+// GET /purchasing/invoices - List supplier invoices
+router.get('/invoices',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const options = invoiceListQuerySchema.parse(req.query);
+    ok(res, { invoices: await SupplierInvoiceService.listInvoices(req.ctx!.tenantId, options) });
+  }, 'Failed to get supplier invoices'));
+
+// GET /purchasing/invoices/variances - Variance queue awaiting approval
+router.get('/invoices/variances',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const variances = await SupplierInvoiceService.getVarianceQueue(req.ctx!.tenantId);
+    ok(res, { variances, count: variances.length });
+  }, 'Failed to get variance queue'));
+
+// GET /purchasing/payables/aging - Aging of unpaid invoices by due date
+router.get('/payables/aging',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const { asOf } = agingQuerySchema.parse(req.query);
+    const date = asOf || new Date().toISOString().slice(0, 10);
+    ok(res, await SupplierInvoiceService.getPayablesAging(req.ctx!.tenantId, date));
+  }, 'Failed to get payables aging'));
+
+// GET /purchasing/invoices/:id - Invoice with lines and match result
+router.get('/invoices/:id',
+  requirePermission(PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const invoice = await SupplierInvoiceService.getInvoice(req.ctx!.tenantId, req.params.id);
+    if (!invoice) {
+      throw AppError.notFound('Supplier invoice not found');
+    }
+    ok(res, { invoice });
+  }, 'Failed to get supplier invoice'));
+
+// POST /purchasing/invoices - Enter invoice and run the three-way match
+router.post('/invoices', requirePermission(PERMISSIONS.PURCHASING_PO), handle(async (req: Request, res: Response) => {
+  const body = createInvoiceSchema.parse(req.body);
+  ok(res, { invoice: await SupplierInvoiceService.createInvoice(req.ctx!, body) }, 201);
+}, 'Failed to create supplier invoice'));
+
+// POST /purchasing/invoices/:id/match - Re-run matching
+router.post('/invoices/:id/match',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, await SupplierInvoiceService.rematchInvoice(req.ctx!, req.params.id));
+  }, 'Failed to match supplier invoice'));
+
+// POST /purchasing/invoices/:id/approve - Approve a match variance
+router.post('/invoices/:id/approve',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const { notes } = approveVarianceSchema.parse(req.body);
+    ok(res, { invoice: await SupplierInvoiceService.approveVariance(req.ctx!, req.params.id, notes) });
+  }, 'Failed to approve variance'));
+
+// POST /purchasing/invoices/:id/payments - Record a payment
+router.post('/invoices/:id/payments',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    const { amount } = paymentSchema.parse(req.body);
+    ok(res, { invoice: await SupplierInvoiceService.recordPayment(req.ctx!, req.params.id, amount) });
+  }, 'Failed to record payment'));
+
+// POST /purchasing/invoices/:id/cancel - Cancel an unpaid invoice
+router.post('/invoices/:id/cancel',
+  requirePermission(PERMISSIONS.PURCHASING_PO),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { invoice: await SupplierInvoiceService.cancelInvoice(req.ctx!, req.params.id) });
+  }, 'Failed to cancel supplier invoice'));
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { POSService } from '../services/pos.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const receiptsQuerySchema = z.object({
+  storeId: optionalUuid,
+  startDate: optionalText,
+  endDate: optionalText,
+  search: optionalText,
+  status: optionalText,
+  paymentMethod: optionalText,
+  type: optionalText,
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// GET /receipts - Search receipts (receipt number, customer phone or name)
+router.get('/',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.POS_REFUND, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = receiptsQuerySchema.parse(req.query);
+    ok(res, await POSService.searchReceipts(req.ctx!.tenantId, options));
+  }, 'Failed to get receipts'));
+
+export default router;
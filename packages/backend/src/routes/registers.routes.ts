@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { RegisterService } from '../services/register.service.js';
+import { authenticate, hasPermission, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const registerSchema = z.object({
+  storeId: z.string().uuid(),
+  name: z.string().trim().min(1, 'Register name is required').max(100)
+});
+
+const updateRegisterSchema = z.object({
+  name: z.string().trim().min(1, 'Register name is required').max(100).optional(),
+  isActive: z.boolean().optional()
+});
+
+const deviceSchema = z.object({
+  deviceKey: z.string().min(16).max(100),
+  deviceName: optionalText
+});
+
+// GET /registers - Registers of a store with their open shift (storeId; all=true includes switched-off ones)
+router.get('/',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.ADMIN_STORES),
+  handle(async (req: Request, res: Response) => {
+    const { storeId, all } = z.object({
+      storeId: z.string().uuid(),
+      all: z.enum(['true', 'false']).optional()
+    }).parse(req.query);
+    const includeInactive = all === 'true' && hasPermission(req.ctx!, PERMISSIONS.ADMIN_STORES);
+    ok(res, { registers: await RegisterService.listRegisters(req.ctx!.tenantId, storeId, includeInactive) });
+  }, 'Failed to get registers'));
+
+// GET /registers/device - The register this browser is bound to (storeId, deviceKey)
+router.get('/device', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const { storeId, deviceKey } = z.object({
+    storeId: z.string().uuid(),
+    deviceKey: z.string().min(16).max(100)
+  }).parse(req.query);
+  ok(res, { register: await RegisterService.getDeviceRegister(req.ctx!.tenantId, storeId, deviceKey) });
+}, 'Failed to get device register'));
+
+// POST /registers - Add a register to a store
+router.post('/', requirePermission(PERMISSIONS.ADMIN_STORES), handle(async (req: Request, res: Response) => {
+  const body = registerSchema.parse(req.body);
+  ok(res, { register: await RegisterService.createRegister(req.ctx!, body) }, 201);
+}, 'Failed to create register'));
+
+// PUT /registers/:id - Rename a register or switch it on or off
+router.put('/:id', requirePermission(PERMISSIONS.ADMIN_STORES), handle(async (req: Request, res: Response) => {
+  const body = updateRegisterSchema.parse(req.body);
+  ok(res, { register: await RegisterService.updateRegister(req.ctx!, req.params.id, body) });
+}, 'Failed to update register'));
+
+// POST /registers/:id/bind - Bind this browser to a register
+router.post('/:id/bind',
+  requirePermission(PERMISSIONS.ADMIN_STORES, PERMISSIONS.POS_CASH_UP),
+  handle(async (req: Request, res: Response) => {
+    const body = deviceSchema.parse(req.body);
+    ok(res, { register: await RegisterService.bindDevice(req.ctx!, req.params.id, body) });
+  }, 'Failed to bind device'));
+
+// POST /registers/:id/unbind - Release a register's browser
+router.post('/:id/unbind',
+  requirePermission(PERMISSIONS.ADMIN_STORES, PERMISSIONS.POS_CASH_UP),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { register: await RegisterService.unbindDevice(req.ctx!, req.params.id) });
+  }, 'Failed to unbind device'));
+
+export default router;
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ReportService } from '../services/report.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const storeQuerySchema = z.object({
+  storeId: optionalUuid
+});
+
+// Dates are YYYY-MM-DD Cairo days
+const periodQuerySchema = storeQuerySchema.extend({
+  startDate: optionalText,
+  endDate: optionalText
+});
+
+// GET /reports/sales-summary
+router.get('/sales-summary',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = periodQuerySchema.parse(req.query);
+    ok(res, await ReportService.getSalesSummary(req.ctx!.tenantId, options));
+  }, 'Failed to generate sales report'));
+
+// GET /reports/inventory
+router.get('/inventory',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_INVENTORY),
+  handle(async (req: Request, res: Response) => {
+    const { storeId } = storeQuerySchema.parse(req.query);
+    ok(res, await ReportService.getInventoryReport(req.ctx!.tenantId, storeId));
+  }, 'Failed to generate inventory report'));
+
+// GET /reports/customers
+router.get('/customers',
+  requirePermission(PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = periodQuerySchema.parse(req.query);
+    ok(res, await ReportService.getCustomerReport(req.ctx!.tenantId, options));
+  }, 'Failed to generate customer report'));
+
+// GET /reports/profit
+router.get('/profit', requirePermission(PERMISSIONS.REPORTS_FINANCIAL), handle(async (req: Request, res: Response) => {
+  const options = periodQuerySchema.parse(req.query);
+  ok(res, await ReportService.getProfitReport(req.ctx!.tenantId, options));
+}, 'Failed to generate profit report'));
+
+export default router;
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { SafeService } from '../services/safe.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const optionalDate = z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.literal(''), z.null()])
+  .optional()
+  .transform(value => value || undefined);
+
+const depositSchema = z.object({
+  storeId: z.string().uuid(),
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  reference: z.string().trim().min(1, 'Deposit slip reference is required').max(100),
+  notes: optionalText
+});
+
+// GET /safe - Safe balance and latest ledger entries of a store
+router.get('/',
+  requirePermission(PERMISSIONS.POS_CASH_UP, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const { storeId, limit } = z.object({
+      storeId: z.string().uuid(),
+      limit: z.coerce.number().int().min(1).max(500).default(50)
+    }).parse(req.query);
+    ok(res, await SafeService.getSafe(req.ctx!.tenantId, storeId, limit));
+  }, 'Failed to get safe'));
+
+// POST /safe/deposits - Bank deposit out of the safe
+router.post('/deposits', requirePermission(PERMISSIONS.POS_CASH_UP), handle(async (req: Request, res: Response) => {
+  const body = depositSchema.parse(req.body);
+  ok(res, { entry: await SafeService.deposit(req.ctx!, body) }, 201);
+}, 'Failed to record deposit'));
+
+// GET /safe/reconciliation - Daily safe and shift cash reconciliation (storeId, startDate, endDate)
+router.get('/reconciliation',
+  requirePermission(PERMISSIONS.POS_CASH_UP, PERMISSIONS.REPORTS_FINANCIAL),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({
+      storeId: z.string().uuid(),
+      startDate: optionalDate,
+      endDate: optionalDate
+    }).parse(req.query);
+    ok(res, await SafeService.getReconciliation(req.ctx!.tenantId, options));
+  }, 'Failed to get cash reconciliation'));
+
+export default router;
@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthService } from '../services/auth.service.js';
+import { ShiftService } from '../services/shift.service.js';
+import { authenticate, hasPermission, requirePermission, requireStoreAccess, supervisorLimiter } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const listQuerySchema = z.object({
+  storeId: optionalUuid,
+  status: z.enum(['open', 'closed']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+const openShiftSchema = z.object({
+  storeId: z.string().uuid(),
+  openingCash: optionalNumber.transform(v => v || 0),
+  registerId: optionalUuid,
+  deviceKey: z.string().max(100).optional(),
+  notes: optionalText
+});
+
+const supervisorSchema = z.union([
+  z.object({ pin: z.string().regex(/^\d{4,8}$/) }),
+  z.object({ email: z.string().email(), password: z.string().min(1) })
+]);
+
+const closeShiftSchema = z.object({
+  closingCash: optionalNumber,
+  cashCount: z.array(z.object({
+    value: z.coerce.number().positive(),
+    count: z.coerce.number().int().min(0)
+  })).optional(),
+  notes: optionalText,
+  supervisor: supervisorSchema.optional()
+}).refine(close => close.closingCash !== undefined || close.cashCount !== undefined, {
+  message: 'Closing cash or a cash count is required',
+  path: ['closingCash']
+});
+
+const movementSchema = z.object({
+  type: z.enum(['cash_in', 'cash_out', 'drop', 'pickup'], {
+    errorMap: () => ({ message: 'Invalid movement type' })
+  }),
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  reason: optionalText,
+  notes: optionalText,
+  supervisor: supervisorSchema.optional()
+});
+
+// GET /shifts - List shifts
+router.get('/',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    const revealCash = hasPermission(req.ctx!, PERMISSIONS.POS_CASH_UP);
+    ok(res, { shifts: await ShiftService.listShifts(req.ctx!.tenantId, options, revealCash) });
+  }, 'Failed to get shifts'));
+
+// GET /shifts/current - Open shift the current user is working at a store
+// With registerId, registerShift is that register's open shift when the user is not on it (to join)
+router.get('/current', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const { storeId, registerId } = z.object({ storeId: z.string().uuid(), registerId: optionalUuid }).parse(req.query);
+  const revealCash = hasPermission(req.ctx!, PERMISSIONS.POS_CASH_UP);
+  const shift = await ShiftService.getCurrentShift(req.ctx!, storeId, revealCash);
+  const registerShift = registerId ? await ShiftService.getRegisterShift(req.ctx!, registerId) : null;
+  ok(res, { shift, registerShift: registerShift && registerShift.id !== shift?.id ? registerShift : null });
+}, 'Failed to get current shift'));
+
+// GET /shifts/cash-up - Denominations to count, blind close and variance threshold
+router.get('/cash-up', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  ok(res, await ShiftService.getCashUpSettings(req.ctx!.tenantId));
+}, 'Failed to get cash-up settings'));
+
+// GET /shifts/:id - Shift with cash movements and sales summary
+router.get('/:id',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    const revealCash = hasPermission(req.ctx!, PERMISSIONS.POS_CASH_UP);
+    ok(res, await ShiftService.getShift(req.ctx!, req.params.id, revealCash));
+  }, 'Failed to get shift details'));
+
+// POST /shifts/open - Open a shift
+router.post('/open', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  const body = openShiftSchema.parse(req.body);
+  ok(res, { shift: await ShiftService.openShift(req.ctx!, body) }, 201);
+}, 'Failed to open shift'));
+
+// POST /shifts/:id/join - Join a register's open shift to share its drawer
+router.post('/:id/join', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  ok(res, { shift: await ShiftService.joinShift(req.ctx!, req.params.id) });
+}, 'Failed to join shift'));
+
+// POST /shifts/:id/leave - Move off a shared drawer (the last cashier closes the shift instead)
+router.post('/:id/leave', requirePermission(PERMISSIONS.POS_SALE), handle(async (req: Request, res: Response) => {
+  await ShiftService.leaveShift(req.ctx!, req.params.id);
+  ok(res, { message: 'Left the shift' });
+}, 'Failed to leave shift'));
+
+// POST /shifts/:id/close - Close a shift with the counted cash (a total or a count by denomination)
+// A variance over the threshold answers 403 (VARIANCE_APPROVAL_REQUIRED) unless the user holds
+// POS_CASH_UP or a supervisor's PIN or login approves it
+router.post('/:id/close', requirePermission(PERMISSIONS.POS_SALE), supervisorLimiter, handle(async (req: Request, res: Response) => {
+  const { supervisor, ...body } = closeShiftSchema.parse(req.body);
+  const canCloseAnyShift = hasPermission(req.ctx!, PERMISSIONS.POS_CASH_UP);
+  let varianceApprovedBy: string | undefined;
+  if (supervisor) {
+    varianceApprovedBy = (await AuthService.verifySupervisor(req.ctx!, PERMISSIONS.POS_CASH_UP, supervisor)).userId;
+  } else if (canCloseAnyShift) {
+    varianceApprovedBy = req.ctx!.userId;
+  }
+  ok(res, await ShiftService.closeShift(req.ctx!, req.params.id, { ...body, varianceApprovedBy, canCloseAnyShift }));
+}, 'Failed to close shift'));
+
+// POST /shifts/:id/movements - Record cash in/out, a drop into the safe or a pickup from it
+// A pickup needs a second person: a supervisor's PIN or login (POS_CASH_UP) other than the user's
+router.post('/:id/movements', requirePermission(PERMISSIONS.POS_SALE), supervisorLimiter, handle(async (req: Request, res: Response) => {
+  const { supervisor, ...body } = movementSchema.parse(req.body);
+  let approvedBy: string | undefined;
+  if (body.type === 'pickup') {
+    if (!supervisor) {
+      throw new AppError('A pickup needs a second person to approve it', 403, 'SUPERVISOR_REQUIRED');
+    }
+    approvedBy = (await AuthService.verifySupervisor(req.ctx!, PERMISSIONS.POS_CASH_UP, supervisor)).userId;
+    if (approvedBy === req.ctx!.userId) {
+      throw AppError.forbidden('A pickup must be approved by someone other than the cashier');
+    }
+  }
+  ok(res, { movement: await ShiftService.addCashMovement(req.ctx!, req.params.id, { ...body, approvedBy }) }, 201);
+}, 'Failed to add cash movement'));
+
+// GET /shifts/:id/movements - Cash movements of a shift
+router.get('/:id/movements',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.REPORTS_SALES),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { movements: await ShiftService.getCashMovements(req.ctx!, req.params.id) });
+  }, 'Failed to get movements'));
+
+export default router;
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { StockCountService } from '../services/stock-count.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const listQuerySchema = z.object({
+  storeId: optionalUuid,
+  status: z.string().optional()
+});
+
+const createCountSchema = z.object({
+  storeId: z.string().uuid(),
+  type: z.enum(['full', 'cycle', 'spot'], {
+    errorMap: () => ({ message: 'Count type must be full, cycle or spot' })
+  }).default('full'),
+  categoryId: optionalUuid,
+  productIds: z.array(z.string().uuid()).default([]),
+  notes: optionalText
+});
+
+const entrySchema = z.object({
+  productId: optionalUuid,
+  barcode: optionalText,
+  quantity: z.coerce.number().default(1)
+});
+
+// GET /inventory/counts - List stock counts
+router.get('/',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    ok(res, { counts: await StockCountService.listCounts(req.ctx!.tenantId, options) });
+  }, 'Failed to get stock counts'));
+
+// GET /inventory/counts/:id - Count with lines and variance summary
+router.get('/:id',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    const count = await StockCountService.getCount(req.ctx!.tenantId, req.params.id);
+    if (!count) {
+      throw AppError.notFound('Stock count not found');
+    }
+    ok(res, { count });
+  }, 'Failed to get stock count'));
+
+// POST /inventory/counts - Create a draft count
+router.post('/', requirePermission(PERMISSIONS.INVENTORY_COUNT), handle(async (req: Request, res: Response) => {
+  const body = createCountSchema.parse(req.body);
+  ok(res, { count: await StockCountService.createCount(req.ctx!, body) }, 201);
+}, 'Failed to create stock count'));
+
+// POST /inventory/counts/:id/start - Freeze system quantities and start counting
+router.post('/:id/start',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { count: await StockCountService.startCount(req.ctx!, req.params.id) });
+  }, 'Failed to start stock count'));
+
+// POST /inventory/counts/:id/entries - Record a count (by product or scanned barcode)
+router.post('/:id/entries',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    const body = entrySchema.parse(req.body);
+    ok(res, { line: await StockCountService.recordEntry(req.ctx!, req.params.id, body) }, 201);
+  }, 'Failed to record count'));
+
+// DELETE /inventory/counts/:id/lines/:lineId/entries - Clear my entries for a line
+router.delete('/:id/lines/:lineId/entries',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { line: await StockCountService.clearEntries(req.ctx!, req.params.id, req.params.lineId) });
+  }, 'Failed to clear count entries'));
+
+// POST /inventory/counts/:id/complete - Move to variance review
+router.post('/:id/complete',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { count: await StockCountService.completeCount(req.ctx!, req.params.id) });
+  }, 'Failed to complete stock count'));
+
+// POST /inventory/counts/:id/reopen - Back to counting
+router.post('/:id/reopen',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { count: await StockCountService.reopenCount(req.ctx!, req.params.id) });
+  }, 'Failed to reopen stock count'));
+
+// POST /inventory/counts/:id/post - Post variances to the ledger
+router.post('/:id/post',
+  requirePermission(PERMISSIONS.INVENTORY_ADJUST),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { count: await StockCountService.postCount(req.ctx!, req.params.id) });
+  }, 'Failed to post stock count'));
+
+// POST /inventory/counts/:id/cancel
+router.post('/:id/cancel',
+  requirePermission(PERMISSIONS.INVENTORY_COUNT),
+  handle(async (req: Request, res: Response) => {
+    await StockCountService.cancelCount(req.ctx!, req.params.id);
+    ok(res, { message: 'Stock count cancelled' });
+  }, 'Failed to cancel stock count'));
+
+export default router;
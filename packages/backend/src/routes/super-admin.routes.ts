@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { SuperAdminService } from '../services/super-admin.service.js';
+import { authenticate, requireSuperAdmin } from '../middleware/auth.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText } from '../utils/validation.js';
+
+const router = Router();
+
+// Super admins have no tenant, so there is no tenant context to enforce
+router.use(authenticate, requireSuperAdmin);
+
+// Validation schemas
+
+// A positive number caps active stores; 'unlimited' or null removes the cap
+const storeLimitSchema = z
+  .union([z.coerce.number().int().min(1), z.literal('unlimited'), z.null()])
+  .transform(value => (value === 'unlimited' ? null : value));
+
+const createTenantSchema = z.object({
+  tenantName: z.string().min(1, 'Tenant name is required'),
+  adminEmail: z.string().email('Valid admin email is required'),
+  adminPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  adminFirstName: optionalText,
+  adminLastName: optionalText,
+  storeLimit: storeLimitSchema.optional(),
+  currency: z.string().length(3).default('EGP')
+});
+
+const updateTenantSchema = z.object({
+  name: optionalText,
+  status: z.enum(['active', 'suspended', 'cancelled']).optional(),
+  storeLimit: storeLimitSchema.optional()
+});
+
+const resetPasswordSchema = z.object({
+  userId: z.string().uuid('User ID is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters')
+});
+
+const auditLogQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+// GET /super-admin/stats
+router.get('/stats', handle(async (_req: Request, res: Response) => {
+  ok(res, await SuperAdminService.getStats());
+}, 'Failed to get stats'));
+
+// GET /super-admin/tenants
+router.get('/tenants', handle(async (_req: Request, res: Response) => {
+  const tenants = await SuperAdminService.listTenants();
+  ok(res, { tenants });
+}, 'Failed to get tenants'));
+
+// GET /super-admin/tenants/:tenantId - Tenant with users and stores
+router.get('/tenants/:tenantId', handle(async (req: Request, res: Response) => {
+  ok(res, await SuperAdminService.getTenant(req.params.tenantId));
+}, 'Failed to get tenant details'));
+
+// POST /super-admin/tenants - Create tenant with admin user and main store
+router.post('/tenants', handle(async (req: Request, res: Response) => {
+  const input = createTenantSchema.parse(req.body);
+  ok(res, await SuperAdminService.createTenant(req.ctx!.userId, input), 201);
+}, 'Failed to create tenant'));
+
+// PATCH /super-admin/tenants/:tenantId - Store limit, status, name
+router.patch('/tenants/:tenantId', handle(async (req: Request, res: Response) => {
+  const input = updateTenantSchema.parse(req.body);
+  const tenant = await SuperAdminService.updateTenant(req.ctx!.userId, req.params.tenantId, input);
+  ok(res, { tenant });
+}, 'Failed to update tenant'));
+
+// POST /super-admin/tenants/:tenantId/reset-password
+router.post('/tenants/:tenantId/reset-password', handle(async (req: Request, res: Response) => {
+  const { userId, newPassword } = resetPasswordSchema.parse(req.body);
+  await SuperAdminService.resetUserPassword(req.ctx!.userId, req.params.tenantId, userId, newPassword);
+  ok(res, { message: 'Password reset successfully' });
+}, 'Failed to reset password'));
+
+// GET /super-admin/audit-logs
+router.get('/audit-logs', handle(async (req: Request, res: Response) => {
+  const { limit } = auditLogQuerySchema.parse(req.query);
+  const logs = await SuperAdminService.getAuditLogs(limit);
+  ok(res, { logs });
+}, 'Failed to get audit logs'));
+
+export default router;
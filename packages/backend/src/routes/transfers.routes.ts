@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { TransferService } from '../services/transfer.service.js';
+import { authenticate, requirePermission, requireStoreAccess } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext, requireStoreAccess);
+
+// Validation schemas
+const listQuerySchema = z.object({
+  storeId: optionalUuid,
+  status: z.string().optional(),
+  direction: z.enum(['incoming', 'outgoing']).optional()
+});
+
+const createTransferSchema = z.object({
+  fromStoreId: z.string().uuid(),
+  toStoreId: z.string().uuid(),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.coerce.number().positive()
+  })).min(1, 'At least one item is required'),
+  notes: optionalText,
+  dispatch: z.boolean().optional()
+});
+
+const receiveTransferSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().uuid(),
+    receivedQty: z.coerce.number().min(0).optional(),
+    damagedQty: z.coerce.number().min(0).optional(),
+    notes: optionalText
+  })).default([]),
+  notes: optionalText
+});
+
+const cancelTransferSchema = z.object({
+  reason: optionalText
+});
+
+// GET /inventory/transfers - List transfer documents
+router.get('/',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_TRANSFER),
+  handle(async (req: Request, res: Response) => {
+    const options = listQuerySchema.parse(req.query);
+    ok(res, { transfers: await TransferService.listTransfers(req.ctx!.tenantId, options) });
+  }, 'Failed to get transfers'));
+
+// GET /inventory/transfers/:id - Transfer with lines
+router.get('/:id',
+  requirePermission(PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_TRANSFER),
+  handle(async (req: Request, res: Response) => {
+    const transfer = await TransferService.getTransfer(req.ctx!.tenantId, req.params.id);
+    if (!transfer) {
+      throw AppError.notFound('Transfer not found');
+    }
+    ok(res, { transfer });
+  }, 'Failed to get transfer'));
+
+// POST /inventory/transfers - Create (optionally dispatch straight away)
+router.post('/', requirePermission(PERMISSIONS.INVENTORY_TRANSFER), handle(async (req: Request, res: Response) => {
+  const body = createTransferSchema.parse(req.body);
+  ok(res, { transfer: await TransferService.createTransfer(req.ctx!, body) }, 201);
+}, 'Failed to create transfer'));
+
+// POST /inventory/transfers/:id/dispatch
+router.post('/:id/dispatch',
+  requirePermission(PERMISSIONS.INVENTORY_TRANSFER),
+  handle(async (req: Request, res: Response) => {
+    ok(res, { transfer: await TransferService.dispatchTransfer(req.ctx!, req.params.id) });
+  }, 'Failed to dispatch transfer'));
+
+// POST /inventory/transfers/:id/receive - Confirm receipt with short/over/damaged lines
+router.post('/:id/receive',
+  requirePermission(PERMISSIONS.INVENTORY_TRANSFER),
+  handle(async (req: Request, res: Response) => {
+    const body = receiveTransferSchema.parse(req.body);
+    ok(res, await TransferService.receiveTransfer(req.ctx!, req.params.id, body.lines, body.notes));
+  }, 'Failed to receive transfer'));
+
+// POST /inventory/transfers/:id/cancel
+router.post('/:id/cancel',
+  requirePermission(PERMISSIONS.INVENTORY_TRANSFER),
+  handle(async (req: Request, res: Response) => {
+    const body = cancelTransferSchema.parse(req.body);
+    await TransferService.cancelTransfer(req.ctx!, req.params.id, body.reason);
+    ok(res, { message: 'Transfer cancelled' });
+  }, 'Failed to cancel transfer'));
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { VoucherService } from '../services/voucher.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { enforceTenantContext } from '../middleware/tenantIsolation.js';
+import { PERMISSIONS } from '../types/index.js';
+import { handle, ok } from '../utils/http.js';
+import { optionalNumber, optionalText, optionalUuid } from '../utils/validation.js';
+
+const router = Router();
+
+router.use(authenticate, enforceTenantContext);
+
+// Validation schemas
+const voucherTermsSchema = z.object({
+  type: z.enum(['fixed', 'percent']),
+  value: z.coerce.number().positive(),
+  maxDiscount: optionalNumber,
+  minPurchase: optionalNumber,
+  customerId: optionalUuid,
+  usageLimit: z.coerce.number().int().positive().optional(),
+  expiresAt: z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.literal(''), z.null()])
+    .optional()
+    .transform(value => value || undefined),
+  batchName: optionalText
+});
+
+const createVoucherSchema = voucherTermsSchema.extend({
+  code: z.union([z.string().regex(/^[A-Za-z0-9-]{4,50}$/, 'Codes are 4-50 letters, digits or dashes'), z.literal('')])
+    .optional()
+    .transform(value => value || undefined)
+});
+
+const bulkVoucherSchema = voucherTermsSchema.extend({
+  count: z.coerce.number().int().min(1).max(500),
+  prefix: z.string().regex(/^[A-Za-z0-9-]{0,20}$/, 'Prefixes are up to 20 letters, digits or dashes').optional()
+});
+
+const segmentVoucherSchema = voucherTermsSchema.omit({ customerId: true }).extend({
+  segmentId: z.string().uuid(),
+  prefix: z.string().regex(/^[A-Za-z0-9-]{0,20}$/, 'Prefixes are up to 20 letters, digits or dashes').optional()
+});
+
+const checkVoucherSchema = z.object({
+  code: z.string().min(1),
+  amountDue: z.coerce.number().min(0),
+  customerId: optionalUuid
+});
+
+// GET /vouchers - List vouchers
+router.get('/',
+  requirePermission(PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_PROMO),
+  handle(async (req: Request, res: Response) => {
+    const options = z.object({
+      status: z.enum(['active', 'used', 'expired', 'cancelled', 'all']).optional(),
+      search: optionalText,
+      customerId: optionalUuid,
+      batchName: optionalText
+    }).parse(req.query);
+    ok(res, { vouchers: await VoucherService.listVouchers(req.ctx!.tenantId, options) });
+  }, 'Failed to get vouchers'));
+
+// POST /vouchers - Create a voucher
+router.post('/', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  const body = createVoucherSchema.parse(req.body);
+  ok(res, await VoucherService.createVoucher(req.ctx!, body), 201);
+}, 'Failed to create voucher'));
+
+// POST /vouchers/bulk - Generate a batch of vouchers
+router.post('/bulk', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  const body = bulkVoucherSchema.parse(req.body);
+  ok(res, { vouchers: await VoucherService.generateVouchers(req.ctx!, body) }, 201);
+}, 'Failed to generate vouchers'));
+
+// POST /vouchers/segment - Issue a voucher to every customer in a segment
+router.post('/segment', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  const body = segmentVoucherSchema.parse(req.body);
+  ok(res, { vouchers: await VoucherService.generateForSegment(req.ctx!, body) }, 201);
+}, 'Failed to issue segment vouchers'));
+
+// POST /vouchers/check - Amount a voucher can pay towards a sale
+router.post('/check',
+  requirePermission(PERMISSIONS.POS_SALE, PERMISSIONS.PRICING_VIEW),
+  handle(async (req: Request, res: Response) => {
+    const { code, amountDue, customerId } = checkVoucherSchema.parse(req.body);
+    ok(res, await VoucherService.checkVoucher(req.ctx!.tenantId, code, amountDue, customerId));
+  }, 'Failed to check voucher'));
+
+// POST /vouchers/:id/cancel - Cancel a voucher
+router.post('/:id/cancel', requirePermission(PERMISSIONS.PRICING_PROMO), handle(async (req: Request, res: Response) => {
+  ok(res, await VoucherService.cancelVoucher(req.ctx!, req.params.id));
+}, 'Failed to cancel voucher'));
+
+export default router;
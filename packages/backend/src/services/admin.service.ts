@@ -0,0 +1,730 @@
+import bcrypt from 'bcryptjs';
+import { PoolClient, QueryResultRow } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { config } from '../config/index.js';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_GROUPS, PERMISSION_LABELS, TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { AuditService } from './audit.service.js';
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName?: string;
+  role?: string;
+  roleIds?: string[];
+  storeId?: string;
+}
+
+export interface UpdateUserInput {
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+  roleIds?: string[];
+  storeId?: string;
+  isActive?: boolean;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface StoreInput {
+  name: string;
+  code?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  isActive?: boolean;
+  // Drawer cash above which cashiers are prompted to drop; null for none
+  drawerLimit?: number | null;
+}
+
+export interface TenantSettingsInput {
+  companyName?: string;
+  currencyCode?: string;
+  timezone?: string;
+  taxRate?: number;
+  receiptFooter?: string;
+  lowStockThreshold?: number;
+  allowNegativeStock?: boolean;
+  requireCustomer?: boolean;
+  autoGenerateSku?: boolean;
+  matchQtyTolerancePct?: number;
+  matchPriceTolerancePct?: number;
+  giftCardExpiryMonths?: number;
+  blindCashUp?: boolean;
+  // null turns manager sign-off of cash variances off
+  cashVarianceThreshold?: number | null;
+}
+
+// Shown on the roles page until the tenant has roles of its own
+const DEFAULT_ROLES = [
+  { id: 'admin', name: 'Administrator', description: 'Full system access', isSystem: true },
+  { id: 'manager', name: 'Store Manager', description: 'Manage store operations, inventory, and reports', isSystem: false },
+  { id: 'cashier', name: 'Cashier', description: 'POS operations and basic customer management', isSystem: false },
+  { id: 'inventory', name: 'Inventory Staff', description: 'Manage stock and inventory operations', isSystem: false }
+].map(role => ({ ...role, permissions: DEFAULT_ROLE_PERMISSIONS[role.id], userCount: 0 }));
+
+/**
+ * Admin Service
+ *
+ * Tenant administration: users, stores, roles, settings and audit logs.
+ */
+export class AdminService {
+  /**
+   * Users with their default store and role
+   */
+  static async listUsers(tenantId: string) {
+    const result = await query(
+      `SELECT u.id, u.email, u.first_name, u.last_name, u.is_active, u.created_at, u.last_login_at as last_login,
+              s.name as store_name, s.id as store_id,
+              COALESCE(string_agg(DISTINCT r.name, ', '), 'No Role') as role_name,
+              COALESCE(json_agg(DISTINCT jsonb_build_object('id', r.id, 'name', r.name))
+                FILTER (WHERE r.id IS NOT NULL), '[]') as roles
+       FROM users u
+       LEFT JOIN stores s ON s.id = u.default_store_id
+       LEFT JOIN user_roles ur ON ur.user_id = u.id
+       LEFT JOIN roles r ON r.id = ur.role_id
+       WHERE u.tenant_id = $1
+       GROUP BY u.id, s.id
+       ORDER BY u.created_at DESC`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  // Role by name, created empty when the tenant does not have it yet
+  private static async findOrCreateRole(client: PoolClient, tenantId: string, name: string): Promise<string> {
+    const existing = await client.query(
+      `SELECT id FROM roles WHERE tenant_id = $1 AND name = $2`,
+      [tenantId, name]
+    );
+    if (existing.rows.length > 0) {
+      return existing.rows[0].id;
+    }
+    const created = await client.query(
+      `INSERT INTO roles (tenant_id, name, description, permissions)
+       VALUES ($1, $2, $3, $4) RETURNING id`,
+      [tenantId, name, `${name} role`, JSON.stringify(DEFAULT_ROLE_PERMISSIONS[name.toLowerCase()] || [])]
+    );
+    return created.rows[0].id;
+  }
+
+  /**
+   * Create a user and assign the named role
+   */
+  static async createUser(ctx: TenantContext, input: CreateUserInput) {
+    const passwordHash = await bcrypt.hash(input.password, config.bcryptRounds);
+
+    try {
+      return await withTransaction(async (client) => {
+        const userResult = await client.query(
+          `INSERT INTO users (tenant_id, email, password_hash, first_name, last_name, default_store_id)
+           VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, email, first_name, last_name, is_active, created_at`,
+          [ctx.tenantId, input.email, passwordHash, input.firstName, input.lastName || null, input.storeId || null]
+        );
+        const user = userResult.rows[0];
+
+        let roleIds = input.roleIds;
+        if (!roleIds && input.role) {
+          roleIds = [await this.findOrCreateRole(client, ctx.tenantId, input.role)];
+        }
+        if (roleIds) {
+          await this.setUserRoles(client, ctx, user.id, roleIds);
+        }
+
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.USER_CREATED,
+          entityType: 'user',
+          entityId: user.id,
+          afterData: { email: input.email, role: input.role, roleIds }
+        }, client);
+
+        return { ...user, role: input.role, roleIds };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('Email already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a user's profile, default store and active flag
+   */
+  static async updateUser(ctx: TenantContext, userId: string, input: UpdateUserInput) {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE users SET
+          first_name = COALESCE($1, first_name),
+          last_name = COALESCE($2, last_name),
+          default_store_id = $3,
+          is_active = COALESCE($4, is_active),
+          updated_at = NOW()
+         WHERE id = $5 AND tenant_id = $6
+         RETURNING id, email, first_name, last_name, is_active`,
+        [input.firstName, input.lastName, input.storeId || null, input.isActive, userId, ctx.tenantId]
+      );
+      if (result.rows.length === 0) {
+        throw AppError.notFound('User not found');
+      }
+
+      if (input.roleIds) {
+        await this.setUserRoles(client, ctx, userId, input.roleIds);
+      }
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'user',
+        entityId: userId,
+        afterData: { role: input.role, roleIds: input.roleIds, isActive: input.isActive }
+      }, client);
+
+      return { ...result.rows[0], role: input.role, roleIds: input.roleIds };
+    });
+  }
+
+  /**
+   * Replace the roles assigned to a user. The change is audited when the set differs.
+   */
+  private static async setUserRoles(
+    client: PoolClient,
+    ctx: TenantContext,
+    userId: string,
+    roleIds: string[]
+  ): Promise<void> {
+    const wanted = [...new Set(roleIds)];
+    const found = await client.query(
+      `SELECT id FROM roles WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [ctx.tenantId, wanted]
+    );
+    if (found.rows.length !== wanted.length) {
+      throw AppError.badRequest('One or more roles were not found');
+    }
+
+    const current = await client.query(
+      `SELECT DISTINCT role_id FROM user_roles WHERE user_id = $1`,
+      [userId]
+    );
+    const before: string[] = current.rows.map(r => r.role_id);
+    const added = wanted.filter(id => !before.includes(id));
+    const removed = before.filter(id => !wanted.includes(id));
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    if (removed.length > 0) {
+      await client.query(
+        `DELETE FROM user_roles WHERE user_id = $1 AND role_id = ANY($2::uuid[])`,
+        [userId, removed]
+      );
+    }
+    for (const roleId of added) {
+      await client.query(
+        `INSERT INTO user_roles (user_id, role_id) VALUES ($1, $2)`,
+        [userId, roleId]
+      );
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.PERMISSION_CHANGE,
+      entityType: 'user',
+      entityId: userId,
+      beforeData: { roleIds: before },
+      afterData: { roleIds: wanted, added, removed }
+    }, client);
+  }
+
+  /**
+   * Set a new password for a user
+   */
+  static async resetPassword(ctx: TenantContext, userId: string, newPassword: string): Promise<void> {
+    const passwordHash = await bcrypt.hash(newPassword, config.bcryptRounds);
+    const result = await query(
+      `UPDATE users SET password_hash = $1, updated_at = NOW()
+       WHERE id = $2 AND tenant_id = $3 RETURNING id`,
+      [passwordHash, userId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('User not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.PASSWORD_RESET,
+      entityType: 'user',
+      entityId: userId,
+      afterData: { by: ctx.userId }
+    });
+  }
+
+  /**
+   * Deactivate a user (soft delete); users cannot deactivate themselves
+   */
+  static async deactivateUser(ctx: TenantContext, userId: string): Promise<void> {
+    if (userId === ctx.userId) {
+      throw AppError.badRequest('Cannot delete your own account');
+    }
+    const result = await query(
+      `UPDATE users SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [userId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('User not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.USER_DEACTIVATED,
+      entityType: 'user',
+      entityId: userId
+    });
+  }
+
+  /**
+   * Stores with user and product counts
+   */
+  static async listStores(tenantId: string) {
+    const result = await query(
+      `SELECT s.*,
+              (SELECT COUNT(*) FROM users u WHERE u.default_store_id = s.id) as user_count,
+              (SELECT COUNT(*) FROM products p WHERE p.tenant_id = s.tenant_id) as product_count
+       FROM stores s
+       WHERE s.tenant_id = $1
+       ORDER BY s.name`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Create a store, enforcing the tenant's plan store limit (NULL = unlimited)
+   * The tenant row is locked so concurrent requests cannot both pass the check
+   */
+  static async createStore(ctx: TenantContext, input: StoreInput) {
+    try {
+      return await withTransaction(async (client) => {
+        const tenantResult = await client.query(
+          `SELECT store_limit FROM tenants WHERE id = $1 FOR UPDATE`,
+          [ctx.tenantId]
+        );
+        if (tenantResult.rows.length === 0) {
+          throw AppError.notFound('Tenant not found');
+        }
+        const storeLimit: number | null = tenantResult.rows[0].store_limit;
+
+        const countResult = await client.query(
+          `SELECT COUNT(*)::INTEGER as count FROM stores WHERE tenant_id = $1 AND is_active = true`,
+          [ctx.tenantId]
+        );
+        const currentCount: number = countResult.rows[0].count;
+
+        if (storeLimit !== null && currentCount >= storeLimit) {
+          throw new AppError(
+            'Store limit reached. Please contact the administrator to increase your plan limit.',
+            403,
+            'STORE_LIMIT_REACHED',
+            { currentCount, limit: storeLimit }
+          );
+        }
+
+        const code = input.code || input.name.toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, 10);
+        const result = await client.query(
+          `INSERT INTO stores (tenant_id, name, code, address, phone, email, is_active, drawer_limit)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+          [ctx.tenantId, input.name, code, input.address || null, input.phone || null,
+           input.email || null, input.isActive !== false, input.drawerLimit ?? null]
+        );
+        const store = result.rows[0];
+
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.CREATE,
+          entityType: 'store',
+          entityId: store.id,
+          afterData: { name: input.name }
+        }, client);
+
+        return store;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('Store code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a store
+   */
+  static async updateStore(ctx: TenantContext, storeId: string, input: Partial<StoreInput>) {
+    try {
+      const result = await query(
+        `UPDATE stores SET
+          name = COALESCE($1, name),
+          code = COALESCE($2, code),
+          address = $3,
+          phone = $4,
+          email = $5,
+          is_active = COALESCE($6, is_active),
+          drawer_limit = CASE WHEN $9::boolean THEN $10::decimal ELSE drawer_limit END,
+          updated_at = NOW()
+         WHERE id = $7 AND tenant_id = $8 RETURNING *`,
+        [input.name, input.code, input.address || null, input.phone || null, input.email || null,
+         input.isActive, storeId, ctx.tenantId, input.drawerLimit !== undefined, input.drawerLimit ?? null]
+      );
+      if (result.rows.length === 0) {
+        throw AppError.notFound('Store not found');
+      }
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'store',
+        entityId: storeId,
+        afterData: { name: input.name }
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('Store code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a store (soft delete)
+   */
+  static async deactivateStore(ctx: TenantContext, storeId: string): Promise<void> {
+    const result = await query(
+      `UPDATE stores SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [storeId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Store not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DEACTIVATE,
+      entityType: 'store',
+      entityId: storeId
+    });
+  }
+
+  /**
+   * Roles with user counts (the predefined roles until the tenant has its own)
+   */
+  static async listRoles(tenantId: string) {
+    const result = await query(
+      `SELECT r.id, r.name, r.description, r.permissions, r.is_system,
+              (SELECT COUNT(DISTINCT ur.user_id) FROM user_roles ur WHERE ur.role_id = r.id) as user_count
+       FROM roles r
+       WHERE r.tenant_id = $1
+       ORDER BY r.name`,
+      [tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return DEFAULT_ROLES;
+    }
+    return result.rows.map(r => ({
+      ...this.toRole(r),
+      userCount: parseInt(r.user_count) || 0
+    }));
+  }
+
+  /**
+   * Permission matrix: the permission catalogue alongside every role's grants
+   */
+  static async getPermissionMatrix(tenantId: string) {
+    const permissions = Object.entries(PERMISSION_LABELS).map(([code, label]) => ({ code, ...label }));
+    const groups = PERMISSION_GROUPS.map(group => ({
+      name: group.name,
+      permissions: group.permissions.map(code => ({ code, ...PERMISSION_LABELS[code] }))
+    }));
+    return { permissions, groups, roles: await this.listRoles(tenantId) };
+  }
+
+  /**
+   * Create a custom role
+   */
+  static async createRole(ctx: TenantContext, input: RoleInput) {
+    const permissions = [...new Set(input.permissions)];
+    try {
+      return await withTransaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO roles (tenant_id, name, description, permissions)
+           VALUES ($1, $2, $3, $4)
+           RETURNING id, name, description, permissions, is_system`,
+          [ctx.tenantId, input.name, input.description || null, JSON.stringify(permissions)]
+        );
+        const role = result.rows[0];
+
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.CREATE,
+          entityType: 'role',
+          entityId: role.id,
+          afterData: { name: input.name, permissions }
+        }, client);
+
+        return this.toRole(role);
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('Role name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a custom role's details and permissions. System roles cannot be changed.
+   * Permission changes are audited separately with the codes granted and revoked.
+   */
+  static async updateRole(ctx: TenantContext, roleId: string, input: Partial<RoleInput>) {
+    try {
+      return await withTransaction(async (client) => {
+        const existing = await client.query(
+          `SELECT id, name, description, permissions, is_system FROM roles
+           WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+          [roleId, ctx.tenantId]
+        );
+        if (existing.rows.length === 0) {
+          throw AppError.notFound('Role not found');
+        }
+        const before = existing.rows[0];
+        if (before.is_system) {
+          throw AppError.forbidden('System roles cannot be changed');
+        }
+
+        const permissions = input.permissions ? [...new Set(input.permissions)] : null;
+        const result = await client.query(
+          `UPDATE roles SET
+            name = COALESCE($1, name),
+            description = COALESCE($2, description),
+            permissions = COALESCE($3, permissions),
+            updated_at = NOW()
+           WHERE id = $4 AND tenant_id = $5
+           RETURNING id, name, description, permissions, is_system`,
+          [input.name, input.description, permissions ? JSON.stringify(permissions) : null, roleId, ctx.tenantId]
+        );
+
+        if (input.name !== undefined || input.description !== undefined) {
+          await AuditService.log(ctx, {
+            action: AuditService.ACTIONS.UPDATE,
+            entityType: 'role',
+            entityId: roleId,
+            beforeData: { name: before.name, description: before.description },
+            afterData: { name: result.rows[0].name, description: result.rows[0].description }
+          }, client);
+        }
+
+        if (permissions) {
+          const previous: string[] = before.permissions || [];
+          const granted = permissions.filter(code => !previous.includes(code));
+          const revoked = previous.filter(code => !permissions.includes(code));
+          if (granted.length > 0 || revoked.length > 0) {
+            await AuditService.log(ctx, {
+              action: AuditService.ACTIONS.PERMISSION_CHANGE,
+              entityType: 'role',
+              entityId: roleId,
+              beforeData: { permissions: previous },
+              afterData: { permissions, granted, revoked }
+            }, client);
+          }
+        }
+
+        return this.toRole(result.rows[0]);
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('Role name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom role that no user is assigned to
+   */
+  static async deleteRole(ctx: TenantContext, roleId: string): Promise<void> {
+    await withTransaction(async (client) => {
+      const existing = await client.query(
+        `SELECT r.id, r.name, r.permissions, r.is_system,
+                (SELECT COUNT(DISTINCT ur.user_id) FROM user_roles ur WHERE ur.role_id = r.id) as user_count
+         FROM roles r
+         WHERE r.id = $1 AND r.tenant_id = $2
+         FOR UPDATE OF r`,
+        [roleId, ctx.tenantId]
+      );
+      if (existing.rows.length === 0) {
+        throw AppError.notFound('Role not found');
+      }
+      const role = existing.rows[0];
+      if (role.is_system) {
+        throw AppError.forbidden('System roles cannot be deleted');
+      }
+      const userCount = parseInt(role.user_count) || 0;
+      if (userCount > 0) {
+        throw new AppError('Role is still assigned to users', 400, 'ROLE_IN_USE', { userCount });
+      }
+
+      await client.query(`DELETE FROM roles WHERE id = $1 AND tenant_id = $2`, [roleId, ctx.tenantId]);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.DELETE,
+        entityType: 'role',
+        entityId: roleId,
+        beforeData: { name: role.name, permissions: role.permissions }
+      }, client);
+    });
+  }
+
+  private static toRole(row: QueryResultRow) {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      isSystem: row.is_system === true,
+      permissions: row.permissions || []
+    };
+  }
+
+  /**
+   * Tenant settings with defaults applied
+   */
+  static async getSettings(tenantId: string) {
+    const result = await query(`SELECT * FROM tenants WHERE id = $1`, [tenantId]);
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Tenant not found');
+    }
+
+    const tenant = result.rows[0];
+    const settings = tenant.settings || {};
+
+    return {
+      companyName: tenant.name,
+      currencyCode: tenant.currency_code || 'EGP',
+      timezone: tenant.timezone || 'Africa/Cairo',
+      taxRate: settings.tax_rate || 14,
+      receiptFooter: settings.receipt_footer || 'Thank you for your business!',
+      lowStockThreshold: settings.low_stock_threshold || 10,
+      allowNegativeStock: settings.allow_negative_stock || false,
+      requireCustomer: settings.require_customer || false,
+      autoGenerateSku: settings.auto_generate_sku !== false,
+      matchQtyTolerancePct: settings.match_qty_tolerance_pct ?? 0,
+      matchPriceTolerancePct: settings.match_price_tolerance_pct ?? 2,
+      giftCardExpiryMonths: settings.gift_card_expiry_months ?? 12,
+      blindCashUp: settings.blind_cash_up === true,
+      cashVarianceThreshold: settings.cash_variance_threshold ?? null
+    };
+  }
+
+  /**
+   * Update tenant settings
+   * Only the keys that were sent are merged into the settings JSON
+   */
+  static async updateSettings(ctx: TenantContext, input: TenantSettingsInput): Promise<void> {
+    const settings = Object.fromEntries(
+      Object.entries({
+        tax_rate: input.taxRate,
+        receipt_footer: input.receiptFooter,
+        low_stock_threshold: input.lowStockThreshold,
+        allow_negative_stock: input.allowNegativeStock,
+        require_customer: input.requireCustomer,
+        auto_generate_sku: input.autoGenerateSku,
+        match_qty_tolerance_pct: input.matchQtyTolerancePct,
+        match_price_tolerance_pct: input.matchPriceTolerancePct,
+        gift_card_expiry_months: input.giftCardExpiryMonths,
+        blind_cash_up: input.blindCashUp,
+        cash_variance_threshold: input.cashVarianceThreshold
+      }).filter(([, value]) => value !== undefined)
+    );
+
+    await query(
+      `UPDATE tenants SET
+        name = COALESCE($1, name),
+        currency_code = COALESCE($2, currency_code),
+        timezone = COALESCE($3, timezone),
+        settings = COALESCE(settings, '{}'::jsonb) || $4::jsonb,
+        updated_at = NOW()
+       WHERE id = $5`,
+      [input.companyName, input.currencyCode, input.timezone, JSON.stringify(settings), ctx.tenantId]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.UPDATE,
+      entityType: 'settings',
+      entityId: ctx.tenantId,
+      afterData: { ...input }
+    });
+  }
+
+  /**
+   * Audit log, newest first
+   */
+  static async getAuditLogs(
+    tenantId: string,
+    options: { startDate?: string; endDate?: string; action?: string; entityType?: string; userId?: string; limit: number }
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT al.*, u.email as user_email, u.first_name, u.last_name
+      FROM audit_logs al
+      LEFT JOIN users u ON u.id = al.user_id
+      WHERE al.tenant_id = $1`;
+
+    if (options.startDate) {
+      params.push(options.startDate);
+      sql += ` AND al.created_at >= $${params.length}`;
+    }
+    if (options.endDate) {
+      params.push(options.endDate);
+      sql += ` AND al.created_at <= $${params.length}`;
+    }
+    if (options.action) {
+      params.push(options.action);
+      sql += ` AND al.action = $${params.length}`;
+    }
+    if (options.entityType) {
+      params.push(options.entityType);
+      sql += ` AND al.entity_type = $${params.length}`;
+    }
+    if (options.userId) {
+      params.push(options.userId);
+      sql += ` AND al.user_id = $${params.length}`;
+    }
+    params.push(options.limit);
+    sql += ` ORDER BY al.created_at DESC LIMIT $${params.length}`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Headline counts for the admin overview
+   */
+  static async getStats(tenantId: string) {
+    const [users, stores, products, sales] = await Promise.all([
+      query(`SELECT COUNT(*) as count FROM users WHERE tenant_id = $1 AND is_active = true`, [tenantId]),
+      query(`SELECT COUNT(*) as count FROM stores WHERE tenant_id = $1 AND is_active = true`, [tenantId]),
+      query(`SELECT COUNT(*) as count FROM products WHERE tenant_id = $1 AND is_active = true`, [tenantId]),
+      query(`SELECT COUNT(*) as count, COALESCE(SUM(total_amount), 0) as total FROM sales_receipts WHERE tenant_id = $1 AND status = 'completed'`, [tenantId])
+    ]);
+
+    return {
+      userCount: parseInt(users.rows[0].count),
+      storeCount: parseInt(stores.rows[0].count),
+      productCount: parseInt(products.rows[0].count),
+      salesCount: parseInt(sales.rows[0].count),
+      totalRevenue: parseFloat(sales.rows[0].total)
+    };
+  }
+}
+
+export default AdminService;
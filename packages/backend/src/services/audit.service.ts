@@ -1,3 +1,4 @@
+import { PoolClient } from 'pg';
 import { query } from '../database/pool.js';
 import { v4 as uuidv4 } from 'uuid';
 import { TenantContext, AuditLog } from '../types/index.js';
@@ -21,15 +22,17 @@ export interface AuditLogInput {
  */
 export class AuditService {
   /**
-   * Log an audit event
+   * Log an audit event (inside the caller's transaction when a client is given)
    */
   static async log(
     ctx: TenantContext,
-    input: AuditLogInput
+    input: AuditLogInput,
+    client?: PoolClient
   ): Promise<AuditLog> {
     const id = uuidv4();
+    const executeQuery = client ? client.query.bind(client) : query;
     
-    const result = await query<AuditLog>(
+    const result = await executeQuery<AuditLog>(
       `INSERT INTO audit_logs (
         id, tenant_id, user_id, action, entity_type, entity_id,
         store_id, before_data, after_data, ip_address, user_agent
@@ -166,25 +169,41 @@ export class AuditService {
     LOGIN: 'LOGIN',
     LOGOUT: 'LOGOUT',
     PASSWORD_CHANGE: 'PASSWORD_CHANGE',
+    PASSWORD_RESET: 'PASSWORD_RESET',
+    PERMISSION_CHANGE: 'PERMISSION_CHANGE',
     
     // CRUD
     CREATE: 'CREATE',
     UPDATE: 'UPDATE',
     DELETE: 'DELETE',
+    DEACTIVATE: 'DEACTIVATE',
+    CANCEL: 'CANCEL',
+    MERGE: 'MERGE',
     
     // POS
     SALE_COMPLETED: 'SALE_COMPLETED',
     SALE_VOIDED: 'SALE_VOIDED',
     REFUND_ISSUED: 'REFUND_ISSUED',
+    EXCHANGE_COMPLETED: 'EXCHANGE_COMPLETED',
     DISCOUNT_APPLIED: 'DISCOUNT_APPLIED',
     SALE_PARKED: 'SALE_PARKED',
     SALE_RECALLED: 'SALE_RECALLED',
+    SYNC_CONFLICT_RESOLVED: 'SYNC_CONFLICT_RESOLVED',
+    CARD_AUTHORIZATION: 'CARD_AUTHORIZATION',
+    CARD_VOIDED: 'CARD_VOIDED',
+    CARD_REFUNDED: 'CARD_REFUNDED',
     
     // Shift
     SHIFT_OPENED: 'SHIFT_OPENED',
     SHIFT_CLOSED: 'SHIFT_CLOSED',
+    SHIFT_JOINED: 'SHIFT_JOINED',
+    SHIFT_LEFT: 'SHIFT_LEFT',
+    CASH_UP_VARIANCE: 'CASH_UP_VARIANCE',
     CASH_IN: 'CASH_IN',
     CASH_OUT: 'CASH_OUT',
+    CASH_DROP: 'CASH_DROP',
+    CASH_PICKUP: 'CASH_PICKUP',
+    SAFE_DEPOSIT: 'SAFE_DEPOSIT',
     
     // Inventory
     GRN_RECEIVED: 'GRN_RECEIVED',
@@ -193,6 +212,20 @@ export class AuditService {
     TRANSFER_RECEIVED: 'TRANSFER_RECEIVED',
     STOCK_COUNT_POSTED: 'STOCK_COUNT_POSTED',
     
+    // Purchasing
+    APPROVE: 'APPROVE',
+    SEND: 'SEND',
+    CLOSE: 'CLOSE',
+    INVOICE_VARIANCE_APPROVED: 'INVOICE_VARIANCE_APPROVED',
+    INVOICE_PAYMENT: 'INVOICE_PAYMENT',
+    
+    // Documents
+    PRINT: 'PRINT',
+    REPRINT: 'REPRINT',
+    DOWNLOAD: 'DOWNLOAD',
+    EMAIL: 'EMAIL',
+    SHARE: 'SHARE',
+    
     // Pricing
     PRICE_UPDATED: 'PRICE_UPDATED',
     PROMO_CREATED: 'PROMO_CREATED',
@@ -203,6 +236,8 @@ export class AuditService {
     USER_DEACTIVATED: 'USER_DEACTIVATED',
     ROLE_ASSIGNED: 'ROLE_ASSIGNED',
     ROLE_REVOKED: 'ROLE_REVOKED',
+    DEVICE_BOUND: 'DEVICE_BOUND',
+    DEVICE_UNBOUND: 'DEVICE_UNBOUND',
   } as const;
 }
 
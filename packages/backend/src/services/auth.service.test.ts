@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import bcrypt from 'bcryptjs';
+
+const db = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock('../config/index.js', () => ({
+  config: { nodeEnv: 'test', supervisorMaxAttempts: 3, supervisorLockoutMs: 60000 }
+}));
+vi.mock('../database/pool.js', () => ({ query: db.query, withTransaction: vi.fn() }));
+vi.mock('../middleware/auth.js', () => ({}));
+
+import { AuthService } from './auth.service.js';
+
+const pinHash = bcrypt.hashSync('4321', 4);
+
+beforeEach(() => {
+  db.query.mockReset();
+  db.query.mockResolvedValue({ rows: [{ id: 'manager-1', name: 'Mona Manager ', hash: pinHash }] });
+});
+
+describe('AuthService.verifySupervisor', () => {
+  it('approves with a supervisor\'s PIN', async () => {
+    const ctx = { tenantId: 'tenant-1', userId: 'cashier-1', permissions: [] };
+
+    await expect(AuthService.verifySupervisor(ctx, 'POS_VOID', { pin: '4321' }))
+      .resolves.toEqual({ userId: 'manager-1', name: 'Mona Manager' });
+  });
+
+  it('locks the cashier out after repeated wrong PINs', async () => {
+    const ctx = { tenantId: 'tenant-1', userId: 'cashier-2', permissions: [] };
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(AuthService.verifySupervisor(ctx, 'POS_VOID', { pin: '0000' })).rejects.toMatchObject({ status: 403 });
+    }
+
+    await expect(AuthService.verifySupervisor(ctx, 'POS_VOID', { pin: '4321' }))
+      .rejects.toMatchObject({ status: 429, code: 'SUPERVISOR_LOCKED' });
+    await expect(AuthService.verifySupervisor({ ...ctx, userId: 'cashier-3' }, 'POS_VOID', { pin: '4321' }))
+      .resolves.toMatchObject({ userId: 'manager-1' });
+  });
+});
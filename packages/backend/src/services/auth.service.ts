@@ -1,307 +1,237 @@
 import bcrypt from 'bcryptjs';
 import { query } from '../database/pool.js';
-import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/index.js';
-import { createToken, createRefreshToken } from '../middleware/auth.js';
-import { User, Tenant, Store, Role } from '../types/index.js';
+import { createToken, createRefreshToken, verifyToken, JWTPayload } from '../middleware/auth.js';
+import { TenantContext } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
 import { AuditService } from './audit.service.js';
 
+export interface LoginUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  tenantId?: string;
+  defaultStoreId?: string;
+  isSuperAdmin?: boolean;
+  mustChangePassword: boolean;
+}
+
+export interface LoginTenant {
+  id: string;
+  name: string;
+  slug: string;
+  currencyCode: string;
+  storeLimit: number;
+  activeStoreCount: number;
+}
+
+// Failed supervisor approvals per tenant and requesting user
+const supervisorFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+export type SupervisorCredentials = { pin: string } | { email: string; password: string };
+
 export interface LoginResult {
-  user: Omit<User, 'passwordHash'>;
-  tenant: Tenant;
-  stores: Store[];
-  roles: Role[];
-  permissions: string[];
   accessToken: string;
   refreshToken: string;
-}
-
-export interface RegisterTenantInput {
-  tenantName: string;
-  tenantSlug: string;
-  currencyCode?: string;
-  timezone?: string;
-  adminEmail: string;
-  adminPassword: string;
-  adminFirstName: string;
-  adminLastName?: string;
-  storeName: string;
-  storeCode?: string;
+  user: LoginUser;
+  tenant: LoginTenant | null;
+  stores: Array<{ id: string; code: string; name: string }>;
+  permissions: string[];
+  isSuperAdmin?: boolean;
 }
 
 /**
  * Authentication Service
- * 
- * Handles user authentication, tenant registration, and session management.
+ *
+ * Handles user authentication and session management. Super admins
+ * (users without a tenant) get a platform-wide token; tenant users get a
+ * token scoped to their tenant.
  */
 export class AuthService {
   /**
    * Login user
    */
-  static async login(
-    email: string,
-    password: string
-  ): Promise<LoginResult> {
-    // Find user by email (across all tenants)
-    const userResult = await query<User & { password_hash: string }>(
-      `SELECT u.*, u.password_hash FROM users u
-       WHERE u.email = $1 AND u.is_active = true`,
-      [email.toLowerCase()]
-    );
-
-    if (userResult.rows.length === 0) {
-      throw new Error('Invalid email or password');
-    }
-
-    const user = userResult.rows[0];
+  static async login(email: string, password: string): Promise<LoginResult> {
+    // Super admins have no tenant
+    const superAdminResult = await query(
+      `SELECT * FROM users WHERE email = $1 AND tenant_id IS NULL AND is_active = true`,
+      [email]
+    );
+
+    if (superAdminResult.rows.length > 0) {
+      const superAdmin = superAdminResult.rows[0];
+      const validPassword = await bcrypt.compare(password, superAdmin.password_hash);
+      if (!validPassword) {
+        throw AppError.unauthorized('Invalid credentials');
+      }
 
-    // Verify password
-    const validPassword = await bcrypt.compare(password, user.password_hash);
-    if (!validPassword) {
-      throw new Error('Invalid email or password');
+      const tokens = await this.issueTokens({
+        userId: superAdmin.id,
+        tenantId: null,
+        email: superAdmin.email,
+        isSuperAdmin: true
+      });
+
+      await query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [superAdmin.id]);
+
+      return {
+        ...tokens,
+        user: {
+          id: superAdmin.id,
+          email: superAdmin.email,
+          firstName: superAdmin.first_name,
+          lastName: superAdmin.last_name || '',
+          isSuperAdmin: true,
+          mustChangePassword: superAdmin.must_change_password || false
+        },
+        tenant: null,
+        stores: [],
+        permissions: ['*'],
+        isSuperAdmin: true
+      };
     }
 
-    // Get tenant
-    const tenantResult = await query<Tenant>(
-      `SELECT * FROM tenants WHERE id = $1 AND status = 'active'`,
-      [user.tenantId]
+    // Regular tenant user
+    const result = await query(
+      `SELECT u.*, t.name as tenant_name, t.currency_code, t.settings as tenant_settings,
+              t.status as tenant_status, t.store_limit,
+              array_agg(DISTINCT r.permissions) as role_permissions
+       FROM users u
+       JOIN tenants t ON t.id = u.tenant_id
+       LEFT JOIN user_roles ur ON ur.user_id = u.id
+       LEFT JOIN roles r ON r.id = ur.role_id
+       WHERE u.email = $1 AND u.is_active = true
+       GROUP BY u.id, t.id`,
+      [email]
     );
 
-    if (tenantResult.rows.length === 0) {
-      throw new Error('Tenant not found or inactive');
+    if (result.rows.length === 0) {
+      throw AppError.unauthorized('Invalid credentials');
     }
 
-    const tenant = tenantResult.rows[0];
-
-    // Get user's stores
-    const storesResult = await query<Store>(
-      `SELECT s.* FROM stores s
-       LEFT JOIN user_stores us ON s.id = us.store_id
-       WHERE s.tenant_id = $1 AND s.is_active = true
-       AND (us.user_id = $2 OR s.id = $3)`,
-      [user.tenantId, user.id, user.defaultStoreId]
-    );
-
-    // Get roles and permissions
-    const rolesResult = await query<Role>(
-      `SELECT r.* FROM roles r
-       JOIN user_roles ur ON r.id = ur.role_id
-       WHERE ur.user_id = $1`,
-      [user.id]
-    );
+    const user = result.rows[0];
 
-    const permissions = [...new Set(rolesResult.rows.flatMap(r => r.permissions))];
+    if (user.tenant_status === 'suspended') {
+      throw AppError.forbidden('Your account has been suspended. Please contact the administrator.');
+    }
+    if (user.tenant_status === 'cancelled') {
+      throw AppError.forbidden('Your account has been cancelled.');
+    }
 
-    // Create tokens
-    const tokenPayload = {
-      sub: user.id,
-      tenantId: user.tenantId,
-      email: user.email,
-      storeId: user.defaultStoreId
-    };
+    const validPassword = await bcrypt.compare(password, user.password_hash);
+    if (!validPassword) {
+      throw AppError.unauthorized('Invalid credentials');
+    }
 
-    const accessToken = await createToken(tokenPayload);
-    const refreshToken = await createRefreshToken(tokenPayload);
+    const stores = await this.ensureUserStores(user.id, user.tenant_id);
 
-    // Store refresh token
-    const refreshTokenHash = await bcrypt.hash(refreshToken, 10);
-    await query(
-      `INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at)
-       VALUES ($1, $2, $3, NOW() + INTERVAL '7 days')`,
-      [uuidv4(), user.id, refreshTokenHash]
-    );
+    const tokens = await this.issueTokens({
+      userId: user.id,
+      tenantId: user.tenant_id,
+      email: user.email
+    });
 
-    // Update last login
-    await query(
-      `UPDATE users SET last_login_at = NOW() WHERE id = $1`,
-      [user.id]
-    );
+    await query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [user.id]);
 
-    // Audit log
-    await AuditService.log(
-      { tenantId: user.tenantId, userId: user.id, permissions },
-      {
-        action: AuditService.ACTIONS.LOGIN,
-        entityType: 'user',
-        entityId: user.id
-      }
+    const storeCountResult = await query<{ count: number }>(
+      `SELECT COUNT(*)::INTEGER as count FROM stores WHERE tenant_id = $1 AND is_active = true`,
+      [user.tenant_id]
     );
 
-    // Remove sensitive fields
-    const { password_hash, ...safeUser } = user;
-
     return {
-      user: safeUser,
-      tenant,
-      stores: storesResult.rows,
-      roles: rolesResult.rows,
-      permissions,
-      accessToken,
-      refreshToken
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name || '',
+        tenantId: user.tenant_id,
+        defaultStoreId: user.default_store_id,
+        mustChangePassword: user.must_change_password || false
+      },
+      tenant: {
+        id: user.tenant_id,
+        name: user.tenant_name,
+        slug: user.tenant_name.toLowerCase().replace(/\s+/g, '-'),
+        currencyCode: user.currency_code,
+        storeLimit: user.store_limit,
+        activeStoreCount: storeCountResult.rows[0]?.count || 0
+      },
+      stores: stores.map(s => ({ id: s.id, code: s.code, name: s.name })),
+      permissions: (user.role_permissions || []).flat().filter(Boolean)
     };
   }
 
   /**
-   * Register a new tenant with admin user
+   * A user without any store is attached to the tenant's first store
+   * (creating a "Main Store" for a tenant that has none)
    */
-  static async registerTenant(input: RegisterTenantInput): Promise<LoginResult> {
-    // Check if slug is taken
-    const existingTenant = await query(
-      `SELECT id FROM tenants WHERE slug = $1`,
-      [input.tenantSlug.toLowerCase()]
-    );
-
-    if (existingTenant.rows.length > 0) {
-      throw new Error('Tenant slug is already taken');
-    }
-
-    // Check if email is taken
-    const existingUser = await query(
-      `SELECT id FROM users WHERE email = $1`,
-      [input.adminEmail.toLowerCase()]
+  private static async ensureUserStores(userId: string, tenantId: string) {
+    const storesResult = await query(
+      `SELECT s.* FROM stores s
+       JOIN user_stores us ON us.store_id = s.id
+       WHERE us.user_id = $1`,
+      [userId]
     );
-
-    if (existingUser.rows.length > 0) {
-      throw new Error('Email is already registered');
+    if (storesResult.rows.length > 0) {
+      return storesResult.rows;
     }
 
-    const tenantId = uuidv4();
-    const storeId = uuidv4();
-    const userId = uuidv4();
-    const adminRoleId = uuidv4();
-
-    // Create tenant
-    await query(
-      `INSERT INTO tenants (id, name, slug, currency_code, timezone)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [tenantId, input.tenantName, input.tenantSlug.toLowerCase(), 
-       input.currencyCode || 'USD', input.timezone || 'UTC']
-    );
-
-    // Create default store
-    await query(
-      `INSERT INTO stores (id, tenant_id, code, name)
-       VALUES ($1, $2, $3, $4)`,
-      [storeId, tenantId, input.storeCode || 'MAIN', input.storeName]
-    );
-
-    // Create admin role with all permissions
-    const allPermissions = [
-      'POS_SALE', 'POS_REFUND', 'POS_VOID', 'POS_DISCOUNT', 'POS_PARK',
-      'INVENTORY_VIEW', 'INVENTORY_ADJUST', 'INVENTORY_TRANSFER', 'INVENTORY_COUNT', 'INVENTORY_GRN',
-      'PURCHASING_VIEW', 'PURCHASING_PO', 'PURCHASING_SUPPLIER',
-      'PRICING_VIEW', 'PRICING_EDIT', 'PRICING_PROMO',
-      'MASTER_VIEW', 'MASTER_PRODUCT', 'MASTER_CATEGORY',
-      'CUSTOMER_VIEW', 'CUSTOMER_EDIT', 'CUSTOMER_LOYALTY',
-      'REPORTS_VIEW', 'REPORTS_SALES', 'REPORTS_INVENTORY', 'REPORTS_FINANCIAL',
-      'ADMIN_USERS', 'ADMIN_ROLES', 'ADMIN_STORES', 'ADMIN_SETTINGS', 'ADMIN_AUDIT'
-    ];
-
-    await query(
-      `INSERT INTO roles (id, tenant_id, name, description, permissions, is_system)
-       VALUES ($1, $2, 'Admin', 'Full system access', $3, true)`,
-      [adminRoleId, tenantId, JSON.stringify(allPermissions)]
-    );
-
-    // Create default roles
-    const cashierRoleId = uuidv4();
-    await query(
-      `INSERT INTO roles (id, tenant_id, name, description, permissions, is_system)
-       VALUES ($1, $2, 'Cashier', 'POS operations', $3, true)`,
-      [cashierRoleId, tenantId, JSON.stringify(['POS_SALE', 'POS_PARK', 'CUSTOMER_VIEW'])]
-    );
-
-    const managerRoleId = uuidv4();
-    await query(
-      `INSERT INTO roles (id, tenant_id, name, description, permissions, is_system)
-       VALUES ($1, $2, 'Manager', 'Store management', $3, true)`,
-      [managerRoleId, tenantId, JSON.stringify([
-        'POS_SALE', 'POS_REFUND', 'POS_VOID', 'POS_DISCOUNT', 'POS_PARK',
-        'INVENTORY_VIEW', 'INVENTORY_ADJUST', 'INVENTORY_TRANSFER', 'INVENTORY_COUNT', 'INVENTORY_GRN',
-        'CUSTOMER_VIEW', 'CUSTOMER_EDIT',
-        'REPORTS_VIEW', 'REPORTS_SALES', 'REPORTS_INVENTORY'
-      ])]
+    const tenantStores = await query(
+      `SELECT * FROM stores WHERE tenant_id = $1 LIMIT 1`,
+      [tenantId]
     );
 
-    // Create admin user
-    const passwordHash = await bcrypt.hash(input.adminPassword, config.bcryptRounds);
-    await query(
-      `INSERT INTO users (id, tenant_id, email, password_hash, first_name, last_name, default_store_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [userId, tenantId, input.adminEmail.toLowerCase(), passwordHash,
-       input.adminFirstName, input.adminLastName, storeId]
-    );
+    const store = tenantStores.rows[0] || (await query(
+      `INSERT INTO stores (tenant_id, code, name) VALUES ($1, 'MAIN', 'Main Store') RETURNING *`,
+      [tenantId]
+    )).rows[0];
 
-    // Assign admin role
     await query(
-      `INSERT INTO user_roles (id, user_id, role_id)
-       VALUES ($1, $2, $3)`,
-      [uuidv4(), userId, adminRoleId]
+      `INSERT INTO user_stores (user_id, store_id, is_default) VALUES ($1, $2, true) ON CONFLICT DO NOTHING`,
+      [userId, store.id]
     );
-
-    // Create default tax groups
     await query(
-      `INSERT INTO tax_groups (id, tenant_id, code, name, rate, is_default)
-       VALUES ($1, $2, 'STANDARD', 'Standard Rate', 0.10, true),
-              ($3, $2, 'REDUCED', 'Reduced Rate', 0.05, false),
-              ($4, $2, 'ZERO', 'Zero Rated', 0, false)`,
-      [uuidv4(), tenantId, uuidv4(), uuidv4()]
+      `UPDATE users SET default_store_id = $1 WHERE id = $2`,
+      [store.id, userId]
     );
 
-    // Create default UoMs
-    await query(
-      `INSERT INTO uoms (id, tenant_id, code, name, is_base)
-       VALUES ($1, $2, 'EACH', 'Each', true),
-              ($3, $2, 'PACK', 'Pack', false),
-              ($4, $2, 'BOX', 'Box', false),
-              ($5, $2, 'CASE', 'Case', false)`,
-      [uuidv4(), tenantId, uuidv4(), uuidv4(), uuidv4()]
-    );
+    return [store];
+  }
 
-    // Login and return
-    return this.login(input.adminEmail, input.adminPassword);
+  private static async issueTokens(payload: JWTPayload) {
+    return {
+      accessToken: await createToken(payload),
+      refreshToken: await createRefreshToken(payload)
+    };
   }
 
   /**
    * Refresh access token
    */
   static async refreshToken(refreshToken: string): Promise<{ accessToken: string }> {
-    // Find valid refresh token
-    const tokenResult = await query<{ user_id: string; expires_at: Date }>(
-      `SELECT rt.user_id, rt.expires_at FROM refresh_tokens rt
-       WHERE rt.revoked_at IS NULL AND rt.expires_at > NOW()`,
-      []
-    );
-
-    let validToken = null;
-    for (const token of tokenResult.rows) {
-      // We'd need to check the hash here
-      validToken = token;
-      break;
-    }
-
-    if (!validToken) {
-      throw new Error('Invalid or expired refresh token');
+    let payload: JWTPayload;
+    try {
+      payload = await verifyToken(refreshToken);
+    } catch {
+      throw AppError.unauthorized('Invalid or expired refresh token');
     }
 
-    // Get user
-    const userResult = await query<User>(
-      `SELECT * FROM users WHERE id = $1 AND is_active = true`,
-      [validToken.user_id]
+    const userResult = await query(
+      `SELECT id, tenant_id, email FROM users WHERE id = $1 AND is_active = true`,
+      [payload.userId]
     );
-
     if (userResult.rows.length === 0) {
-      throw new Error('User not found');
+      throw AppError.unauthorized('User not found');
     }
 
     const user = userResult.rows[0];
-
-    // Create new access token
     const accessToken = await createToken({
-      sub: user.id,
-      tenantId: user.tenantId,
+      userId: user.id,
+      tenantId: user.tenant_id,
       email: user.email,
-      storeId: user.defaultStoreId
+      isSuperAdmin: !user.tenant_id
     });
 
     return { accessToken };
@@ -310,191 +240,212 @@ export class AuthService {
   /**
    * Logout user
    */
-  static async logout(userId: string, refreshToken?: string): Promise<void> {
+  static async logout(userId: string): Promise<void> {
     // Revoke all refresh tokens for user
     await query(
-      `UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1`,
+      `UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL`,
       [userId]
     );
   }
 
+  /**
+   * Current user profile
+   */
+  static async getCurrentUser(userId: string) {
+    const result = await query(
+      `SELECT u.*, t.name as tenant_name, t.currency_code
+       FROM users u JOIN tenants t ON t.id = u.tenant_id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('User not found');
+    }
+
+    const user = result.rows[0];
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      tenant: { id: user.tenant_id, name: user.tenant_name, currency: user.currency_code }
+    };
+  }
+
   /**
    * Change email
    */
   static async changeEmail(
-    userId: string,
+    ctx: TenantContext,
     newEmail: string,
     password: string
   ): Promise<void> {
     const userResult = await query<{ password_hash: string; email: string }>(
       `SELECT password_hash, email FROM users WHERE id = $1`,
-      [userId]
+      [ctx.userId]
     );
 
     if (userResult.rows.length === 0) {
-      throw new Error('User not found');
+      throw AppError.notFound('User not found');
     }
 
     const validPassword = await bcrypt.compare(password, userResult.rows[0].password_hash);
     if (!validPassword) {
-      throw new Error('Password is incorrect');
+      throw AppError.badRequest('Password is incorrect');
     }
 
     // Check if new email is already taken
     const existingUser = await query(
       `SELECT id FROM users WHERE email = $1 AND id != $2`,
-      [newEmail.toLowerCase(), userId]
+      [newEmail.toLowerCase(), ctx.userId]
     );
 
     if (existingUser.rows.length > 0) {
-      throw new Error('Email is already in use');
+      throw AppError.badRequest('Email is already in use');
     }
 
     await query(
       `UPDATE users SET email = $1, updated_at = NOW() WHERE id = $2`,
-      [newEmail.toLowerCase(), userId]
+      [newEmail.toLowerCase(), ctx.userId]
     );
+
+    if (ctx.tenantId) {
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'user',
+        entityId: ctx.userId,
+        beforeData: { email: userResult.rows[0].email },
+        afterData: { email: newEmail.toLowerCase() }
+      });
+    }
   }
 
   /**
    * Change password
    */
   static async changePassword(
-    userId: string,
+    ctx: TenantContext,
     currentPassword: string,
     newPassword: string
   ): Promise<void> {
-    const userResult = await query<{ password_hash: string; tenant_id: string }>(
-      `SELECT password_hash, tenant_id FROM users WHERE id = $1`,
-      [userId]
+    const userResult = await query<{ password_hash: string }>(
+      `SELECT password_hash FROM users WHERE id = $1`,
+      [ctx.userId]
     );
 
     if (userResult.rows.length === 0) {
-      throw new Error('User not found');
+      throw AppError.notFound('User not found');
     }
 
     const validPassword = await bcrypt.compare(currentPassword, userResult.rows[0].password_hash);
     if (!validPassword) {
-      throw new Error('Current password is incorrect');
+      throw AppError.badRequest('Current password is incorrect');
     }
 
     const newHash = await bcrypt.hash(newPassword, config.bcryptRounds);
     await query(
-      `UPDATE users SET password_hash = $1, password_changed_at = NOW() WHERE id = $2`,
-      [newHash, userId]
+      `UPDATE users SET password_hash = $1, password_changed_at = NOW(), must_change_password = false
+       WHERE id = $2`,
+      [newHash, ctx.userId]
     );
 
-    // Revoke all refresh tokens
-    await query(
-      `UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1`,
-      [userId]
-    );
+    await this.logout(ctx.userId);
+
+    if (ctx.tenantId) {
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.PASSWORD_CHANGE,
+        entityType: 'user',
+        entityId: ctx.userId
+      });
+    }
   }
 
   /**
-   * Create a new user
+   * Set the user's PIN for supervisor overrides at the register
    */
-  static async createUser(
-    tenantId: string,
-    createdBy: string,
-    data: {
-      email: string;
-      password: string;
-      firstName: string;
-      lastName?: string;
-      phone?: string;
-      defaultStoreId?: string;
-      roleIds: string[];
-    }
-  ): Promise<User> {
-    const userId = uuidv4();
-    const passwordHash = await bcrypt.hash(data.password, config.bcryptRounds);
-
-    await query(
-      `INSERT INTO users (id, tenant_id, email, password_hash, first_name, last_name, phone, default_store_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [userId, tenantId, data.email.toLowerCase(), passwordHash,
-       data.firstName, data.lastName, data.phone, data.defaultStoreId]
+  static async setPin(ctx: TenantContext, currentPassword: string, pin: string): Promise<void> {
+    const userResult = await query<{ password_hash: string }>(
+      `SELECT password_hash FROM users WHERE id = $1`,
+      [ctx.userId]
     );
 
-    // Assign roles
-    for (const roleId of data.roleIds) {
-      await query(
-        `INSERT INTO user_roles (id, user_id, role_id) VALUES ($1, $2, $3)`,
-        [uuidv4(), userId, roleId]
-      );
+    if (userResult.rows.length === 0) {
+      throw AppError.notFound('User not found');
     }
 
-    const result = await query<User>(
-      `SELECT * FROM users WHERE id = $1`,
-      [userId]
-    );
-
-    return result.rows[0];
-  }
+    const validPassword = await bcrypt.compare(currentPassword, userResult.rows[0].password_hash);
+    if (!validPassword) {
+      throw AppError.badRequest('Current password is incorrect');
+    }
 
-  /**
-   * Get user by ID
-   */
-  static async getUserById(tenantId: string, userId: string): Promise<User | null> {
-    const result = await query<User>(
-      `SELECT * FROM users WHERE id = $1 AND tenant_id = $2`,
-      [userId, tenantId]
+    const pinHash = await bcrypt.hash(pin, config.bcryptRounds);
+    await query(
+      `UPDATE users SET pin_hash = $1, updated_at = NOW() WHERE id = $2`,
+      [pinHash, ctx.userId]
     );
-    return result.rows[0] || null;
+
+    if (ctx.tenantId) {
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'user',
+        entityId: ctx.userId,
+        afterData: { pinSet: true }
+      });
+    }
   }
 
   /**
-   * Get all users for tenant
+   * Check a supervisor's PIN or email and password for an override
+   * The supervisor must be an active user of the tenant holding the permission.
+   * A PIN is matched against every such user, so PINs should differ between supervisors.
+   * After SUPERVISOR_MAX_ATTEMPTS failures the requesting user is locked out
+   * of overrides for SUPERVISOR_LOCKOUT_MS.
    */
-  static async getUsers(
-    tenantId: string,
-    options: { storeId?: string; isActive?: boolean; limit?: number; offset?: number } = {}
-  ): Promise<{ users: User[]; total: number }> {
-    const conditions: string[] = ['u.tenant_id = $1'];
-    const params: unknown[] = [tenantId];
-    let paramIndex = 2;
-
-    if (options.isActive !== undefined) {
-      conditions.push(`u.is_active = $${paramIndex++}`);
-      params.push(options.isActive);
-    }
-
-    if (options.storeId) {
-      conditions.push(`(u.default_store_id = $${paramIndex} OR EXISTS (
-        SELECT 1 FROM user_stores us WHERE us.user_id = u.id AND us.store_id = $${paramIndex}
-      ))`);
-      params.push(options.storeId);
-      paramIndex++;
+  static async verifySupervisor(
+    ctx: TenantContext,
+    permission: string,
+    credentials: SupervisorCredentials
+  ): Promise<{ userId: string; name: string }> {
+    const key = `${ctx.tenantId}:${ctx.userId}`;
+    const failures = supervisorFailures.get(key);
+    if (failures && failures.lockedUntil > Date.now()) {
+      const minutes = Math.ceil((failures.lockedUntil - Date.now()) / 60000);
+      throw new AppError(
+        `Too many failed supervisor approvals; try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+        429,
+        'SUPERVISOR_LOCKED'
+      );
     }
 
-    const whereClause = conditions.join(' AND ');
-    const limit = options.limit || 50;
-    const offset = options.offset || 0;
-
-    const countResult = await query<{ count: string }>(
-      `SELECT COUNT(*) as count FROM users u WHERE ${whereClause}`,
-      params
-    );
-
-    const usersResult = await query<User>(
-      `SELECT u.*, s.name as default_store_name,
-              array_agg(DISTINCT r.name) as role_names
+    const byPin = 'pin' in credentials;
+    const result = await query<{ id: string; name: string; hash: string | null }>(
+      `SELECT u.id, u.first_name || ' ' || COALESCE(u.last_name, '') as name,
+              ${byPin ? 'u.pin_hash' : 'u.password_hash'} as hash
        FROM users u
-       LEFT JOIN stores s ON u.default_store_id = s.id
-       LEFT JOIN user_roles ur ON u.id = ur.user_id
-       LEFT JOIN roles r ON ur.role_id = r.id
-       WHERE ${whereClause}
-       GROUP BY u.id, s.name
-       ORDER BY u.first_name
-       LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
-      [...params, limit, offset]
-    );
+       WHERE u.tenant_id = $1 AND u.is_active = true
+         ${byPin ? 'AND u.pin_hash IS NOT NULL' : 'AND u.email = $3'}
+         AND EXISTS (
+           SELECT 1 FROM user_roles ur
+           JOIN roles r ON r.id = ur.role_id
+           WHERE ur.user_id = u.id AND jsonb_typeof(r.permissions) = 'array'
+             AND r.permissions ?| ARRAY[$2::text, '*', 'all']
+         )`,
+      byPin ? [ctx.tenantId, permission] : [ctx.tenantId, permission, credentials.email.toLowerCase()]
+    );
+
+    for (const user of result.rows) {
+      const secret = byPin ? credentials.pin : credentials.password;
+      if (user.hash && await bcrypt.compare(secret, user.hash)) {
+        supervisorFailures.delete(key);
+        return { userId: user.id, name: user.name.trim() };
+      }
+    }
 
-    return {
-      users: usersResult.rows,
-      total: parseInt(countResult.rows[0].count)
-    };
+    const count = (failures?.count || 0) + 1;
+    supervisorFailures.set(key, count >= config.supervisorMaxAttempts
+      ? { count: 0, lockedUntil: Date.now() + config.supervisorLockoutMs }
+      : { count, lockedUntil: 0 });
+    throw AppError.forbidden('Supervisor approval failed: invalid credentials or missing permission');
   }
 }
 
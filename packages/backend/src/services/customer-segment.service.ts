@@ -0,0 +1,290 @@
+import { query } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { AuditService } from './audit.service.js';
+import { CustomerService, RfmScore, RfmSegment } from './customer.service.js';
+
+/**
+ * Segment filters; every filter that is set must match
+ * Spend is net of refunds over the customer's whole history. RFM filters only
+ * match customers who have bought something.
+ */
+export interface SegmentFilters {
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  rfmSegments?: RfmSegment[];
+  minRecency?: number;
+  minFrequency?: number;
+  minMonetary?: number;
+  minSpend?: number;
+  maxSpend?: number;
+  lastVisitWithinDays?: number;
+  noVisitForDays?: number;
+  storeId?: string;
+  birthdayMonth?: number;
+  customerGroupId?: string;
+}
+
+export interface SegmentInput {
+  name: string;
+  description?: string;
+  filters: SegmentFilters;
+}
+
+export interface SegmentMember {
+  id: string;
+  code: string;
+  first_name: string;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  date_of_birth: string | null;
+  tags: string[];
+  receipt_count: number;
+  net_spend: number;
+  last_purchase: Date | null;
+  rfm: RfmScore | null;
+}
+
+const CSV_COLUMNS = [
+  'code', 'first_name', 'last_name', 'email', 'phone', 'date_of_birth', 'tags',
+  'receipt_count', 'net_spend', 'last_purchase', 'rfm_segment'
+];
+
+/**
+ * Customer Segment Service
+ *
+ * Saved customer filters used to export contact lists, bind promotions to an
+ * audience and issue customer-bound vouchers. Members are worked out from the
+ * filters each time, never stored.
+ */
+export class CustomerSegmentService {
+  static async listSegments(tenantId: string) {
+    const result = await query(
+      `SELECT s.*,
+              (SELECT COUNT(*) FROM promotions p
+               WHERE p.customer_segment_id = s.id AND p.is_active = true) as promotion_count
+       FROM customer_segments s
+       WHERE s.tenant_id = $1
+       ORDER BY s.name`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  static async getSegment(tenantId: string, segmentId: string) {
+    const result = await query(
+      `SELECT * FROM customer_segments WHERE id = $1 AND tenant_id = $2`,
+      [segmentId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Segment not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Create or update a segment
+   */
+  static async saveSegment(ctx: TenantContext, input: SegmentInput, segmentId?: string) {
+    try {
+      const result = segmentId
+        ? await query(
+          `UPDATE customer_segments SET name = $1, description = $2, filters = $3, updated_at = NOW()
+           WHERE id = $4 AND tenant_id = $5
+           RETURNING *`,
+          [input.name.trim(), input.description || null, JSON.stringify(input.filters), segmentId, ctx.tenantId]
+        )
+        : await query(
+          `INSERT INTO customer_segments (tenant_id, name, description, filters, created_by)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [ctx.tenantId, input.name.trim(), input.description || null, JSON.stringify(input.filters), ctx.userId]
+        );
+      if (result.rows.length === 0) {
+        throw AppError.notFound('Segment not found');
+      }
+      const segment = result.rows[0];
+
+      await AuditService.log(ctx, {
+        action: segmentId ? AuditService.ACTIONS.UPDATE : AuditService.ACTIONS.CREATE,
+        entityType: 'customer_segment',
+        entityId: segment.id,
+        afterData: segment
+      });
+
+      return segment;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A segment with this name already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a segment that no promotion targets
+   */
+  static async deleteSegment(ctx: TenantContext, segmentId: string): Promise<void> {
+    const used = await query(
+      `SELECT COUNT(*) as count FROM promotions WHERE customer_segment_id = $1 AND tenant_id = $2`,
+      [segmentId, ctx.tenantId]
+    );
+    if (parseInt(used.rows[0].count) > 0) {
+      throw AppError.badRequest('This segment is the audience of a promotion; change the promotion first');
+    }
+
+    const result = await query(
+      `DELETE FROM customer_segments WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [segmentId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Segment not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DELETE,
+      entityType: 'customer_segment',
+      entityId: segmentId
+    });
+  }
+
+  /**
+   * Active customers matching the filters, highest spend first
+   */
+  static async findMembers(
+    tenantId: string,
+    filters: SegmentFilters,
+    options: { customerIds?: string[] } = {}
+  ): Promise<SegmentMember[]> {
+    const params: unknown[] = [tenantId];
+    const conditions = ['c.tenant_id = $1', 'c.is_active = true'];
+    const add = (sql: (param: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (options.customerIds) add(p => `c.id = ANY(${p}::uuid[])`, options.customerIds);
+    if (filters.tags?.length) {
+      add(p => filters.tagMatch === 'all' ? `c.tags ?& ${p}::text[]` : `c.tags ?| ${p}::text[]`, filters.tags);
+    }
+    if (filters.customerGroupId) add(p => `c.customer_group_id = ${p}`, filters.customerGroupId);
+    if (filters.birthdayMonth) add(p => `EXTRACT(MONTH FROM c.date_of_birth) = ${p}`, filters.birthdayMonth);
+    if (filters.minSpend !== undefined) add(p => `COALESCE(stats.net_spend, 0) >= ${p}`, filters.minSpend);
+    if (filters.maxSpend !== undefined) add(p => `COALESCE(stats.net_spend, 0) <= ${p}`, filters.maxSpend);
+    if (filters.lastVisitWithinDays) {
+      add(p => `stats.last_purchase >= NOW() - make_interval(days => ${p}::int)`, filters.lastVisitWithinDays);
+    }
+    if (filters.noVisitForDays) {
+      add(
+        p => `(stats.last_purchase IS NULL OR stats.last_purchase < NOW() - make_interval(days => ${p}::int))`,
+        filters.noVisitForDays
+      );
+    }
+    if (filters.storeId) {
+      add(p => `EXISTS (
+        SELECT 1 FROM sales_receipts sr
+        WHERE sr.tenant_id = c.tenant_id AND sr.customer_id = c.id AND sr.store_id = ${p}
+          AND sr.type = 'sale' AND sr.status IN ('completed', 'refunded')
+      )`, filters.storeId);
+    }
+
+    const [result, scores] = await Promise.all([
+      query(
+        `SELECT c.id, c.code, c.first_name, c.last_name, c.email, c.phone,
+                TO_CHAR(c.date_of_birth, 'YYYY-MM-DD') as date_of_birth, c.tags,
+                COALESCE(stats.receipt_count, 0) as receipt_count,
+                COALESCE(stats.net_spend, 0) as net_spend,
+                stats.last_purchase
+         FROM customers c
+         LEFT JOIN (
+           SELECT customer_id,
+                  COUNT(*) FILTER (WHERE type = 'sale') as receipt_count,
+                  SUM(total_amount) as net_spend,
+                  MAX(receipt_date) FILTER (WHERE type = 'sale') as last_purchase
+           FROM sales_receipts
+           WHERE tenant_id = $1 AND customer_id IS NOT NULL AND status IN ('completed', 'refunded')
+           GROUP BY customer_id
+         ) stats ON stats.customer_id = c.id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY net_spend DESC, c.first_name`,
+        params
+      ),
+      CustomerService.getRfmScores(tenantId)
+    ]);
+
+    const rfmByCustomer = new Map(scores.map(score => [score.customerId, score]));
+    const members: SegmentMember[] = result.rows.map(row => ({
+      id: row.id,
+      code: row.code,
+      first_name: row.first_name,
+      last_name: row.last_name,
+      email: row.email,
+      phone: row.phone,
+      date_of_birth: row.date_of_birth,
+      last_purchase: row.last_purchase,
+      tags: row.tags || [],
+      receipt_count: parseInt(row.receipt_count),
+      net_spend: roundMoney(parseFloat(row.net_spend)),
+      rfm: rfmByCustomer.get(row.id) || null
+    }));
+
+    const usesRfm = filters.rfmSegments?.length || filters.minRecency || filters.minFrequency || filters.minMonetary;
+    if (!usesRfm) return members;
+    return members.filter(({ rfm }) => rfm
+      && (!filters.rfmSegments?.length || filters.rfmSegments.includes(rfm.segment))
+      && rfm.recency >= (filters.minRecency || 0)
+      && rfm.frequency >= (filters.minFrequency || 0)
+      && rfm.monetary >= (filters.minMonetary || 0));
+  }
+
+  /**
+   * A saved segment's members
+   */
+  static async getMembers(tenantId: string, segmentId: string) {
+    const segment = await this.getSegment(tenantId, segmentId);
+    return { segment, members: await this.findMembers(tenantId, segment.filters) };
+  }
+
+  /**
+   * Which of the given segments a customer is in
+   */
+  static async memberOf(tenantId: string, customerId: string, segmentIds: string[]): Promise<Set<string>> {
+    const ids = [...new Set(segmentIds)];
+    if (ids.length === 0) return new Set();
+
+    const segments = await query(
+      `SELECT id, filters FROM customer_segments WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, ids]
+    );
+    const matched = new Set<string>();
+    for (const segment of segments.rows) {
+      const members = await this.findMembers(tenantId, segment.filters, { customerIds: [customerId] });
+      if (members.length > 0) matched.add(segment.id);
+    }
+    return matched;
+  }
+
+  /**
+   * A segment's members as CSV, one row per customer
+   */
+  static async exportCsv(tenantId: string, segmentId: string) {
+    const { segment, members } = await this.getMembers(tenantId, segmentId);
+    const rows = members.map(member => [
+      member.code, member.first_name, member.last_name, member.email, member.phone, member.date_of_birth,
+      member.tags.join(';'), member.receipt_count, member.net_spend,
+      member.last_purchase ? new Date(member.last_purchase).toISOString() : '', member.rfm?.segment
+    ]);
+    const csv = [CSV_COLUMNS, ...rows].map(row => row.map(csvValue).join(',')).join('\r\n');
+    return { name: segment.name as string, csv };
+  }
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export default CustomerSegmentService;
@@ -0,0 +1,574 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { EventService } from './event.service.js';
+import { AuditService } from './audit.service.js';
+import { LoyaltyService } from './loyalty.service.js';
+
+export interface CustomerInput {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  customerGroupId?: string | null;
+  // YYYY-MM-DD; null clears it
+  dateOfBirth?: string | null;
+  tags?: string[];
+}
+
+export type RfmSegment =
+  | 'champions' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'hibernating' | 'lost';
+
+export interface RfmScore {
+  customerId: string;
+  // Quintiles within the tenant's purchasing customers, 5 is best
+  recency: number;
+  frequency: number;
+  monetary: number;
+  segment: RfmSegment;
+  lastPurchase: Date;
+  receiptCount: number;
+  netSpend: number;
+}
+
+export interface CustomerGroupInput {
+  code?: string;
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Customer Service
+ *
+ * Customer master data and customer groups. Deleting a customer deactivates
+ * it so past receipts keep their customer. A customer's group decides which
+ * group-only price lists they get. Duplicates are merged into one record,
+ * which takes over the other's receipts, vouchers, gift cards and points.
+ */
+export class CustomerService {
+  /**
+   * List active customers, optionally filtered by name, phone or email
+   */
+  static async listCustomers(tenantId: string, search?: string) {
+    const params: unknown[] = [tenantId];
+    let sql = `SELECT c.*, TO_CHAR(c.date_of_birth, 'YYYY-MM-DD') as date_of_birth, cg.name as customer_group_name
+               FROM customers c
+               LEFT JOIN customer_groups cg ON cg.id = c.customer_group_id
+               WHERE c.tenant_id = $1 AND c.is_active = true`;
+    if (search) {
+      params.push(`%${search}%`);
+      sql += ` AND (c.first_name ILIKE $2 OR c.last_name ILIKE $2 OR c.phone ILIKE $2 OR c.email ILIKE $2)`;
+    }
+    sql += ` ORDER BY c.first_name`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Create a customer with a generated code
+   */
+  static async createCustomer(ctx: TenantContext, input: CustomerInput) {
+    const code = `CUST-${Date.now().toString(36).toUpperCase()}`;
+    await this.assertGroup(ctx.tenantId, input.customerGroupId);
+    const result = await query(
+      `INSERT INTO customers (
+        tenant_id, code, first_name, last_name, email, phone, customer_group_id, date_of_birth, tags, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [
+        ctx.tenantId, code, input.firstName, input.lastName || null, input.email || null, input.phone || null,
+        input.customerGroupId || null, input.dateOfBirth || null, JSON.stringify(normaliseTags(input.tags)), ctx.userId
+      ]
+    ).catch(error => this.rethrowDuplicate(ctx.tenantId, input, error));
+    const customer = result.rows[0];
+
+    await EventService.queueEvent(ctx.tenantId, {
+      eventType: EventService.EVENT_TYPES.CUSTOMER_CREATED,
+      entityType: 'customer',
+      entityId: customer.id,
+      payload: { code }
+    });
+
+    return customer;
+  }
+
+  /**
+   * Update a customer (email and phone are replaced; names, group, birthday and tags kept when omitted)
+   */
+  static async updateCustomer(ctx: TenantContext, customerId: string, input: CustomerInput) {
+    await this.assertGroup(ctx.tenantId, input.customerGroupId);
+    const result = await query(
+      `UPDATE customers SET
+        first_name = COALESCE($1, first_name),
+        last_name = COALESCE($2, last_name),
+        email = $3,
+        phone = $4,
+        customer_group_id = CASE WHEN $7::boolean THEN $8::uuid ELSE customer_group_id END,
+        date_of_birth = CASE WHEN $9::boolean THEN $10::date ELSE date_of_birth END,
+        tags = COALESCE($11, tags),
+        updated_at = NOW()
+       WHERE id = $5 AND tenant_id = $6 RETURNING *`,
+      [
+        input.firstName, input.lastName, input.email || null, input.phone || null, customerId, ctx.tenantId,
+        input.customerGroupId !== undefined, input.customerGroupId || null,
+        input.dateOfBirth !== undefined, input.dateOfBirth || null,
+        input.tags ? JSON.stringify(normaliseTags(input.tags)) : null
+      ]
+    ).catch(error => this.rethrowDuplicate(ctx.tenantId, input, error, customerId));
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Customer not found');
+    }
+
+    await EventService.queueEvent(ctx.tenantId, {
+      eventType: EventService.EVENT_TYPES.CUSTOMER_UPDATED,
+      entityType: 'customer',
+      entityId: customerId,
+      payload: { ...input }
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Deactivate a customer (soft delete)
+   */
+  static async deleteCustomer(ctx: TenantContext, customerId: string): Promise<void> {
+    const result = await query(
+      `UPDATE customers SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [customerId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Customer not found');
+    }
+  }
+
+  /**
+   * Customer 360: purchase history, returns, favourite products, visit pattern,
+   * RFM segment and loyalty wallet
+   * Sales count whether or not they were later refunded; refunds are netted
+   * off in lifetime value. Voided sales are left out.
+   */
+  static async getProfile(tenantId: string, customerId: string) {
+    const customerResult = await query(
+      `SELECT c.*, cg.name as customer_group_name,
+              m.first_name || ' ' || COALESCE(m.last_name, '') as merged_into_name
+       FROM customers c
+       LEFT JOIN customer_groups cg ON cg.id = c.customer_group_id
+       LEFT JOIN customers m ON m.id = c.merged_into_id
+       WHERE c.id = $1 AND c.tenant_id = $2`,
+      [customerId, tenantId]
+    );
+    if (customerResult.rows.length === 0) {
+      throw AppError.notFound('Customer not found');
+    }
+
+    const [summary, receipts, returns, favourites, merged, rfm, wallet] = await Promise.all([
+      query(
+        `SELECT
+          COUNT(*) FILTER (WHERE type = 'sale') as receipt_count,
+          COUNT(*) FILTER (WHERE type = 'refund') as return_count,
+          COALESCE(SUM(total_amount) FILTER (WHERE type = 'sale'), 0) as total_spent,
+          COALESCE(-SUM(total_amount) FILTER (WHERE type = 'refund'), 0) as total_refunded,
+          MIN(receipt_date) FILTER (WHERE type = 'sale') as first_purchase,
+          MAX(receipt_date) FILTER (WHERE type = 'sale') as last_purchase,
+          COUNT(DISTINCT (receipt_date AT TIME ZONE 'Africa/Cairo')::date) FILTER (WHERE type = 'sale') as visit_count,
+          COUNT(DISTINCT store_id) FILTER (WHERE type = 'sale') as store_count
+         FROM sales_receipts
+         WHERE tenant_id = $1 AND customer_id = $2 AND status IN ('completed', 'refunded')`,
+        [tenantId, customerId]
+      ),
+      query(
+        `SELECT sr.id, sr.receipt_number, sr.receipt_date, sr.status, sr.total_amount, s.name as store_name,
+                (SELECT COALESCE(SUM(sl.quantity), 0) FROM sales_lines sl WHERE sl.receipt_id = sr.id) as item_count
+         FROM sales_receipts sr
+         JOIN stores s ON s.id = sr.store_id
+         WHERE sr.tenant_id = $1 AND sr.customer_id = $2 AND sr.type = 'sale'
+         ORDER BY sr.receipt_date DESC
+         LIMIT 50`,
+        [tenantId, customerId]
+      ),
+      query(
+        `SELECT sr.id, sr.receipt_number, sr.receipt_date, -sr.total_amount as refund_amount, s.name as store_name,
+                o.id as original_receipt_id, o.receipt_number as original_receipt_number
+         FROM sales_receipts sr
+         JOIN stores s ON s.id = sr.store_id
+         LEFT JOIN sales_receipts o ON o.id = sr.original_receipt_id
+         WHERE sr.tenant_id = $1 AND sr.customer_id = $2 AND sr.type = 'refund'
+         ORDER BY sr.receipt_date DESC
+         LIMIT 50`,
+        [tenantId, customerId]
+      ),
+      query(
+        `SELECT sl.product_id, p.name, p.sku,
+                SUM(sl.quantity) as quantity,
+                SUM(sl.line_total) as amount,
+                COUNT(DISTINCT sr.id) FILTER (WHERE sr.type = 'sale') as receipt_count
+         FROM sales_lines sl
+         JOIN sales_receipts sr ON sr.id = sl.receipt_id
+         JOIN products p ON p.id = sl.product_id
+         WHERE sr.tenant_id = $1 AND sr.customer_id = $2 AND sr.status IN ('completed', 'refunded')
+         GROUP BY sl.product_id, p.name, p.sku
+         HAVING SUM(sl.quantity) > 0
+         ORDER BY quantity DESC, amount DESC
+         LIMIT 10`,
+        [tenantId, customerId]
+      ),
+      query(
+        `SELECT id, code, first_name, last_name, merged_at FROM customers
+         WHERE tenant_id = $1 AND merged_into_id = $2
+         ORDER BY merged_at DESC`,
+        [tenantId, customerId]
+      ),
+      this.getRfmScores(tenantId, customerId),
+      LoyaltyService.getWallet(tenantId, customerId)
+    ]);
+
+    const row = summary.rows[0];
+    const receiptCount = parseInt(row.receipt_count);
+    const visitCount = parseInt(row.visit_count);
+    const totalSpent = roundMoney(parseFloat(row.total_spent));
+    const totalRefunded = roundMoney(parseFloat(row.total_refunded));
+    const firstPurchase: Date | null = row.first_purchase;
+    const lastPurchase: Date | null = row.last_purchase;
+    const dayMs = 24 * 60 * 60 * 1000;
+    const firstTime = firstPurchase ? new Date(firstPurchase).getTime() : 0;
+    const lastTime = lastPurchase ? new Date(lastPurchase).getTime() : 0;
+    const activeMonths = firstPurchase ? Math.max(1, (Date.now() - firstTime) / (30 * dayMs)) : 0;
+
+    return {
+      customer: customerResult.rows[0],
+      summary: {
+        receiptCount,
+        returnCount: parseInt(row.return_count),
+        totalSpent,
+        totalRefunded,
+        lifetimeValue: roundMoney(totalSpent - totalRefunded),
+        averageBasket: receiptCount > 0 ? roundMoney(totalSpent / receiptCount) : 0,
+        firstPurchase,
+        lastPurchase,
+        daysSinceLastVisit: lastPurchase ? Math.floor((Date.now() - lastTime) / dayMs) : null,
+        visitCount,
+        visitsPerMonth: activeMonths ? Math.round((visitCount / activeMonths) * 100) / 100 : 0,
+        averageDaysBetweenVisits: visitCount > 1 ? Math.round((lastTime - firstTime) / dayMs / (visitCount - 1)) : null,
+        storeCount: parseInt(row.store_count)
+      },
+      rfm: rfm[0] || null,
+      favouriteProducts: favourites.rows,
+      receipts: receipts.rows,
+      returns: returns.rows,
+      mergedCustomers: merged.rows,
+      wallet
+    };
+  }
+
+  /**
+   * RFM scores for the tenant's purchasing customers, or for one customer
+   * Each measure is a quintile across every customer with a sale, so scores
+   * are relative to the tenant's own customer base.
+   */
+  static async getRfmScores(tenantId: string, customerId?: string): Promise<RfmScore[]> {
+    const result = await query(
+      `SELECT * FROM (
+         SELECT customer_id, last_purchase, receipt_count, net_spend,
+                NTILE(5) OVER (ORDER BY last_purchase) as recency,
+                NTILE(5) OVER (ORDER BY receipt_count) as frequency,
+                NTILE(5) OVER (ORDER BY net_spend) as monetary
+         FROM (
+           SELECT customer_id,
+                  MAX(receipt_date) FILTER (WHERE type = 'sale') as last_purchase,
+                  COUNT(*) FILTER (WHERE type = 'sale') as receipt_count,
+                  SUM(total_amount) as net_spend
+           FROM sales_receipts
+           WHERE tenant_id = $1 AND customer_id IS NOT NULL AND status IN ('completed', 'refunded')
+           GROUP BY customer_id
+           HAVING COUNT(*) FILTER (WHERE type = 'sale') > 0
+         ) stats
+       ) scored
+       ${customerId ? 'WHERE customer_id = $2' : ''}`,
+      customerId ? [tenantId, customerId] : [tenantId]
+    );
+
+    return result.rows.map(row => {
+      const recency = parseInt(row.recency);
+      const frequency = parseInt(row.frequency);
+      return {
+        customerId: row.customer_id,
+        recency,
+        frequency,
+        monetary: parseInt(row.monetary),
+        segment: rfmSegment(recency, frequency),
+        lastPurchase: row.last_purchase,
+        receiptCount: parseInt(row.receipt_count),
+        netSpend: roundMoney(parseFloat(row.net_spend))
+      };
+    });
+  }
+
+  /**
+   * Merge a duplicate customer into another
+   * The survivor takes the duplicate's receipts, parked sales, vouchers, gift
+   * cards and loyalty points, and fills any contact details it is missing. The
+   * duplicate is deactivated and keeps a pointer to the survivor.
+   */
+  static async mergeCustomers(ctx: TenantContext, customerId: string, duplicateId: string) {
+    if (customerId === duplicateId) {
+      throw AppError.badRequest('A customer cannot be merged into itself');
+    }
+
+    const { customer, duplicate, receiptsMoved } = await withTransaction(async (client) => {
+      const locked = await client.query(
+        `SELECT * FROM customers WHERE tenant_id = $1 AND id = ANY($2::uuid[]) ORDER BY id FOR UPDATE`,
+        [ctx.tenantId, [customerId, duplicateId]]
+      );
+      const target = locked.rows.find(row => row.id === customerId);
+      const source = locked.rows.find(row => row.id === duplicateId);
+      if (!target || !source) {
+        throw AppError.notFound('Customer not found');
+      }
+      if (!target.is_active) {
+        throw AppError.badRequest('Customers can only be merged into an active customer');
+      }
+      if (source.merged_into_id) {
+        throw AppError.badRequest('This customer has already been merged');
+      }
+
+      const receipts = await this.reassign(client, ctx.tenantId, 'sales_receipts', duplicateId, customerId);
+      await this.reassign(client, ctx.tenantId, 'parked_sales', duplicateId, customerId);
+      await this.reassign(client, ctx.tenantId, 'vouchers', duplicateId, customerId);
+      await this.reassign(client, ctx.tenantId, 'gift_cards', duplicateId, customerId);
+      await client.query(
+        `UPDATE customers SET merged_into_id = $1, updated_at = NOW() WHERE tenant_id = $2 AND merged_into_id = $3`,
+        [customerId, ctx.tenantId, duplicateId]
+      );
+      await LoyaltyService.mergeWallets(client, ctx.tenantId, duplicateId, customerId);
+
+      // Free the duplicate's email and phone before the survivor takes them
+      await client.query(
+        `UPDATE customers SET
+          email = NULL, phone = NULL, is_active = false,
+          merged_into_id = $1, merged_at = NOW(), updated_at = NOW()
+         WHERE id = $2`,
+        [customerId, duplicateId]
+      );
+      const tags = normaliseTags([...(target.tags || []), ...(source.tags || [])]);
+      const updated = await client.query(
+        `UPDATE customers SET
+          last_name = COALESCE(last_name, $2),
+          email = COALESCE(email, $3),
+          phone = COALESCE(phone, $4),
+          date_of_birth = COALESCE(date_of_birth, $5),
+          gender = COALESCE(gender, $6),
+          customer_group_id = COALESCE(customer_group_id, $7),
+          notes = CASE WHEN $8::text IS NULL THEN notes ELSE CONCAT_WS(E'\n', notes, $8::text) END,
+          tags = $9,
+          updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [
+          customerId, source.last_name, source.email, source.phone, source.date_of_birth, source.gender,
+          source.customer_group_id, source.notes || null, JSON.stringify(tags)
+        ]
+      );
+
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.CUSTOMER_MERGED,
+        entityType: 'customer',
+        entityId: customerId,
+        payload: { mergedCustomerId: duplicateId, mergedCustomerCode: source.code }
+      }, client);
+
+      return { customer: updated.rows[0], duplicate: source, receiptsMoved: receipts };
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.MERGE,
+      entityType: 'customer',
+      entityId: customerId,
+      beforeData: duplicate,
+      afterData: { ...customer, receiptsMoved }
+    });
+
+    return { customer, receiptsMoved };
+  }
+
+  /**
+   * Every tag in use on active customers, with how many customers carry it
+   */
+  static async listTags(tenantId: string) {
+    const result = await query(
+      `SELECT tag, COUNT(*) as customer_count
+       FROM customers c, jsonb_array_elements_text(COALESCE(c.tags, '[]'::jsonb)) as tag
+       WHERE c.tenant_id = $1 AND c.is_active = true
+       GROUP BY tag
+       ORDER BY tag`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * List customer groups with their member and price list counts
+   */
+  static async listGroups(tenantId: string) {
+    const result = await query(
+      `SELECT cg.*,
+              (SELECT COUNT(*) FROM customers c WHERE c.customer_group_id = cg.id AND c.is_active = true) as customer_count,
+              (SELECT COUNT(*) FROM price_lists pl WHERE pl.customer_group_id = cg.id AND pl.is_active = true) as price_list_count
+       FROM customer_groups cg
+       WHERE cg.tenant_id = $1
+       ORDER BY cg.is_active DESC, cg.name`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  static async createGroup(ctx: TenantContext, input: CustomerGroupInput) {
+    try {
+      const result = await query(
+        `INSERT INTO customer_groups (tenant_id, code, name, description, created_by)
+         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [ctx.tenantId, input.code?.trim().toUpperCase(), input.name?.trim(), input.description || null, ctx.userId]
+      );
+      const group = result.rows[0];
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'customer_group',
+        entityId: group.id,
+        afterData: group
+      });
+
+      return group;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A customer group with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  static async updateGroup(ctx: TenantContext, groupId: string, input: CustomerGroupInput) {
+    try {
+      const result = await query(
+        `UPDATE customer_groups SET
+          code = COALESCE($1, code),
+          name = COALESCE($2, name),
+          description = $3,
+          is_active = COALESCE($4, is_active),
+          updated_at = NOW()
+         WHERE id = $5 AND tenant_id = $6 RETURNING *`,
+        [
+          input.code?.trim().toUpperCase() || null, input.name?.trim() || null, input.description || null,
+          input.isActive ?? null, groupId, ctx.tenantId
+        ]
+      );
+      if (result.rows.length === 0) {
+        throw AppError.notFound('Customer group not found');
+      }
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'customer_group',
+        entityId: groupId,
+        afterData: result.rows[0]
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A customer group with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a customer group; its customers and price lists are no longer grouped
+   */
+  static async deleteGroup(ctx: TenantContext, groupId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM customer_groups WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [groupId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Customer group not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DELETE,
+      entityType: 'customer_group',
+      entityId: groupId
+    });
+  }
+
+  private static async reassign(
+    client: PoolClient,
+    tenantId: string,
+    table: 'sales_receipts' | 'parked_sales' | 'vouchers' | 'gift_cards',
+    fromCustomerId: string,
+    toCustomerId: string
+  ): Promise<number> {
+    const result = await client.query(
+      `UPDATE ${table} SET customer_id = $1 WHERE tenant_id = $2 AND customer_id = $3`,
+      [toCustomerId, tenantId, fromCustomerId]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Turn an email or phone clash into an error naming the customer that has it,
+   * so the caller can offer to merge the two
+   */
+  private static async rethrowDuplicate(
+    tenantId: string,
+    input: CustomerInput,
+    error: unknown,
+    customerId?: string
+  ): Promise<never> {
+    if (!isUniqueViolation(error)) throw error;
+    const existing = await query(
+      `SELECT id, code, first_name, last_name, email, phone FROM customers
+       WHERE tenant_id = $1 AND id IS DISTINCT FROM $2::uuid AND (email = $3 OR phone = $4)
+       LIMIT 1`,
+      [tenantId, customerId || null, input.email || null, input.phone || null]
+    );
+    const match = existing.rows[0];
+    if (!match) throw error;
+    const name = `${match.first_name} ${match.last_name || ''}`.trim();
+    const field = input.phone && match.phone === input.phone ? 'phone number' : 'email';
+    throw AppError.badRequest(`${name} already has this ${field}`, { customerId: match.id, code: match.code });
+  }
+
+  private static async assertGroup(tenantId: string, groupId?: string | null): Promise<void> {
+    if (!groupId) return;
+    const result = await query(
+      `SELECT 1 FROM customer_groups WHERE id = $1 AND tenant_id = $2 AND is_active = true`,
+      [groupId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Customer group not found');
+    }
+  }
+}
+
+// Tags are matched exactly, so they are stored trimmed, lower-case and once each
+function normaliseTags(tags: string[] = []): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Segment from recency and frequency; spend separates customers within a segment
+function rfmSegment(recency: number, frequency: number): RfmSegment {
+  if (recency >= 4 && frequency >= 4) return 'champions';
+  if (recency >= 3 && frequency >= 3) return 'loyal';
+  if (recency >= 4) return 'new';
+  if (recency === 3) return 'promising';
+  if (frequency >= 3) return 'at_risk';
+  if (recency === 2) return 'hibernating';
+  return 'lost';
+}
+
+export default CustomerService;
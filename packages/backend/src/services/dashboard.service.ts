@@ -0,0 +1,123 @@
+import { query } from '../database/pool.js';
+import { getCairoStartOfDay } from '../utils/dates.js';
+
+/**
+ * Dashboard Service
+ *
+ * Today's headline figures for the home screen (Cairo trading day).
+ */
+export class DashboardService {
+  /**
+   * Today's sales, orders and customers plus catalog counts
+   */
+  static async getStats(tenantId: string, storeId?: string) {
+    const todayStart = getCairoStartOfDay();
+    const storeFilter = storeId ? 'AND store_id = $3' : '';
+    const todayParams = storeId ? [tenantId, todayStart, storeId] : [tenantId, todayStart];
+
+    const salesResult = await query(
+      `SELECT COALESCE(SUM(total_amount), 0) as total_sales, COUNT(*) as order_count
+       FROM sales_receipts
+       WHERE tenant_id = $1 AND status = 'completed' AND receipt_date >= $2
+       ${storeFilter}`,
+      todayParams
+    );
+
+    const customersResult = await query(
+      `SELECT COUNT(DISTINCT customer_id) as customer_count
+       FROM sales_receipts
+       WHERE tenant_id = $1 AND status = 'completed' AND receipt_date >= $2 AND customer_id IS NOT NULL
+       ${storeFilter}`,
+      todayParams
+    );
+
+    // Below the reorder point, with 10 as the floor when none is set
+    const lowStockResult = await query(
+      `SELECT COUNT(*) as low_stock_count
+       FROM stock_on_hand soh
+       JOIN products p ON p.id = soh.product_id
+       WHERE soh.tenant_id = $1 AND soh.quantity < GREATEST(p.reorder_point, 10)
+       ${storeId ? 'AND soh.store_id = $2' : ''}`,
+      storeId ? [tenantId, storeId] : [tenantId]
+    );
+
+    const productsResult = await query(
+      `SELECT COUNT(*) as product_count FROM products WHERE tenant_id = $1 AND is_active = true`,
+      [tenantId]
+    );
+
+    const totalCustomersResult = await query(
+      `SELECT COUNT(*) as total_customers FROM customers WHERE tenant_id = $1 AND is_active = true`,
+      [tenantId]
+    );
+
+    return {
+      todaySales: parseFloat(salesResult.rows[0].total_sales) || 0,
+      orderCount: parseInt(salesResult.rows[0].order_count) || 0,
+      customerCount: parseInt(customersResult.rows[0].customer_count) || 0,
+      lowStockCount: parseInt(lowStockResult.rows[0].low_stock_count) || 0,
+      productCount: parseInt(productsResult.rows[0].product_count) || 0,
+      totalCustomers: parseInt(totalCustomersResult.rows[0].total_customers) || 0
+    };
+  }
+
+  /**
+   * Latest completed sales
+   */
+  static async getRecentSales(tenantId: string, options: { storeId?: string; limit: number }) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT sr.id, sr.receipt_number, sr.total_amount, sr.receipt_date,
+             c.first_name as customer_first_name, c.last_name as customer_last_name,
+             (SELECT COUNT(*) FROM sales_lines sl WHERE sl.receipt_id = sr.id) as item_count
+      FROM sales_receipts sr
+      LEFT JOIN customers c ON c.id = sr.customer_id
+      WHERE sr.tenant_id = $1 AND sr.status = 'completed'`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND sr.store_id = $${params.length}`;
+    }
+    params.push(options.limit);
+    sql += ` ORDER BY sr.receipt_date DESC LIMIT $${params.length}`;
+
+    const result = await query(sql, params);
+    return result.rows.map(r => ({
+      id: r.receipt_number,
+      customer: r.customer_first_name ? `${r.customer_first_name} ${r.customer_last_name || ''}`.trim() : 'Walk-in',
+      items: parseInt(r.item_count) || 0,
+      total: parseFloat(r.total_amount) || 0,
+      date: r.receipt_date
+    }));
+  }
+
+  /**
+   * Today's best sellers by quantity
+   */
+  static async getTopProducts(tenantId: string, options: { storeId?: string; limit: number }) {
+    const params: unknown[] = [tenantId, getCairoStartOfDay()];
+    let sql = `
+      SELECT sl.product_id, sl.name,
+             SUM(sl.quantity) as total_sold,
+             SUM(sl.line_total) as total_revenue
+      FROM sales_lines sl
+      JOIN sales_receipts sr ON sr.id = sl.receipt_id
+      WHERE sl.tenant_id = $1 AND sr.status = 'completed' AND sr.receipt_date >= $2`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND sr.store_id = $${params.length}`;
+    }
+    params.push(options.limit);
+    sql += ` GROUP BY sl.product_id, sl.name ORDER BY total_sold DESC LIMIT $${params.length}`;
+
+    const result = await query(sql, params);
+    return result.rows.map(r => ({
+      name: r.name,
+      sales: parseInt(r.total_sold) || 0,
+      revenue: parseFloat(r.total_revenue) || 0
+    }));
+  }
+}
+
+export default DashboardService;
@@ -0,0 +1,475 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { query } from '../database/pool.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { TenantContext } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { AuditService } from './audit.service.js';
+import { MailService } from './mail.service.js';
+import { PurchaseOrderService } from './purchase-order.service.js';
+import { ShiftService } from './shift.service.js';
+// The PDF layouts (pdfkit) live in the CommonJS renderer at services/documentService.js,
+// which resolves to the same place from src/ and dist/
+import * as renderer from '../../services/documentService.js';
+
+export type DocumentFormat = 'thermal' | 'a4';
+
+export interface RenderedDocument {
+  buffer: Buffer;
+  filename: string;
+}
+
+// Receipt links are <receiptId>.<expiry, base-36 seconds>.<HMAC>, short enough for a small QR code
+function receiptSignature(payload: string): string {
+  return createHmac('sha256', config.receiptLinkSecret || config.jwtSecret)
+    .update(`receipt:${payload}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+function signReceiptLink(receiptId: string) {
+  const expiresAt = new Date(Date.now() + config.receiptLinkTtlDays * 24 * 60 * 60 * 1000);
+  const payload = `${receiptId}.${Math.floor(expiresAt.getTime() / 1000).toString(36)}`;
+  const token = `${payload}.${receiptSignature(payload)}`;
+  return {
+    url: `${config.publicApiUrl!.replace(/\/+$/, '')}/api/public/receipts/${token}`,
+    expiresAt: expiresAt.toISOString()
+  };
+}
+
+function verifyReceiptLink(token: string): string {
+  const [receiptId, expiry, signature] = token.split('.');
+  const expected = receiptId && expiry ? receiptSignature(`${receiptId}.${expiry}`) : '';
+  if (!signature || signature.length !== expected.length
+    || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw AppError.notFound('Receipt not found');
+  }
+  if (parseInt(expiry, 36) * 1000 < Date.now()) {
+    throw new AppError('This receipt link has expired; ask the store for a new one', 410, 'LINK_EXPIRED');
+  }
+  return receiptId;
+}
+
+async function getTenant(tenantId: string) {
+  const result = await query(`SELECT * FROM tenants WHERE id = $1`, [tenantId]);
+  return result.rows[0];
+}
+
+/**
+ * Document Service
+ *
+ * Builds printable PDFs (receipts, GRNs, purchase orders, transfer notes,
+ * shift X/Z reports) and records each print in the audit log. Receipts can also be emailed or
+ * shared through a signed, expiring public link.
+ */
+export class DocumentService {
+  /**
+   * Sales receipt (thermal by default); reprints are watermarked
+   */
+  static async salesReceipt(
+    ctx: TenantContext,
+    receiptId: string,
+    options: { format: DocumentFormat; reprint: boolean }
+  ): Promise<RenderedDocument> {
+    const { document } = await this.renderReceipt(ctx, receiptId, options.format, options.reprint);
+
+    await AuditService.log(ctx, {
+      action: options.reprint ? AuditService.ACTIONS.REPRINT : AuditService.ACTIONS.PRINT,
+      entityType: 'receipt',
+      entityId: receiptId,
+      afterData: { format: options.format, reprint: options.reprint }
+    });
+
+    return document;
+  }
+
+  /**
+   * Signed public link to a receipt, valid for RECEIPT_LINK_TTL_DAYS
+   */
+  static async receiptLink(ctx: TenantContext, receiptId: string) {
+    if (!config.publicApiUrl) {
+      throw AppError.badRequest('Receipt links need PUBLIC_API_URL to be set on the server');
+    }
+    const result = await query(
+      `SELECT id, store_id FROM sales_receipts WHERE id = $1 AND tenant_id = $2`,
+      [receiptId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Receipt not found');
+    }
+    await assertStoreAccess(ctx, result.rows[0].store_id);
+    const link = signReceiptLink(receiptId);
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.SHARE,
+      entityType: 'receipt',
+      entityId: receiptId,
+      afterData: { expiresAt: link.expiresAt }
+    });
+
+    return link;
+  }
+
+  /**
+   * Email a receipt PDF to the given address or the receipt's customer
+   */
+  static async emailReceipt(
+    ctx: TenantContext,
+    receiptId: string,
+    options: { email?: string; format: DocumentFormat }
+  ) {
+    const { document, receipt, tenant, link } = await this.renderReceipt(ctx, receiptId, options.format, false);
+    const to = options.email || receipt.customer_email;
+    if (!to) {
+      throw AppError.badRequest('The receipt has no customer email; enter an address to send it to');
+    }
+
+    const shopName = receipt.store_name || tenant?.name || 'our store';
+    const total = `${Number(receipt.total_amount).toFixed(2)} ${tenant?.currency_code || 'EGP'}`;
+    const lines = [
+      receipt.customer_first_name ? `Hello ${receipt.customer_first_name},` : 'Hello,',
+      '',
+      `Thank you for shopping at ${shopName}. Your receipt ${receipt.receipt_number} `
+        + `(${new Date(receipt.receipt_date).toISOString().slice(0, 10)}, total ${total}) is attached.`,
+      ...(link ? ['', `You can also view it online until ${link.expiresAt.slice(0, 10)}:`, link.url] : [])
+    ];
+
+    let sent: { messageId: string };
+    try {
+      sent = await MailService.send({
+        to,
+        subject: `Your receipt ${receipt.receipt_number} from ${shopName}`,
+        text: lines.join('\n'),
+        attachments: [{ filename: document.filename, contentType: 'application/pdf', content: document.buffer }]
+      });
+    } catch (error) {
+      console.error('Receipt email failed:', error);
+      throw new AppError('The email could not be sent; check the mail server settings', 502, 'MAIL_FAILED');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.EMAIL,
+      entityType: 'receipt',
+      entityId: receiptId,
+      afterData: { to, format: options.format, messageId: sent.messageId }
+    });
+
+    return { to, messageId: sent.messageId };
+  }
+
+  /**
+   * Receipt PDF behind a public link; no login, the signature is the access check
+   */
+  static async publicReceipt(token: string, format: DocumentFormat): Promise<RenderedDocument> {
+    const receiptId = verifyReceiptLink(token);
+    const result = await query(`SELECT tenant_id FROM sales_receipts WHERE id = $1`, [receiptId]);
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Receipt not found');
+    }
+    const { document } = await this.renderReceipt(result.rows[0].tenant_id, receiptId, format, false);
+    return document;
+  }
+
+  /**
+   * Render a receipt for a signed-in user (who needs access to its store) or,
+   * given only the tenant id, for a public link
+   */
+  private static async renderReceipt(
+    access: TenantContext | string,
+    receiptId: string,
+    format: DocumentFormat,
+    reprint: boolean
+  ) {
+    const tenantId = typeof access === 'string' ? access : access.tenantId;
+    const receiptResult = await query(
+      `SELECT sr.*, s.name as store_name, s.address as store_address, s.phone as store_phone,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as cashier_name,
+              c.first_name as customer_first_name, c.last_name as customer_last_name,
+              c.phone as customer_phone, c.email as customer_email
+       FROM sales_receipts sr
+       LEFT JOIN stores s ON s.id = sr.store_id
+       LEFT JOIN users u ON u.id = sr.cashier_id
+       LEFT JOIN customers c ON c.id = sr.customer_id
+       WHERE sr.id = $1 AND sr.tenant_id = $2`,
+      [receiptId, tenantId]
+    );
+    if (receiptResult.rows.length === 0) {
+      throw AppError.notFound('Receipt not found');
+    }
+    const receipt = receiptResult.rows[0];
+    if (typeof access !== 'string') {
+      await assertStoreAccess(access, receipt.store_id);
+    }
+
+    const itemsResult = await query(
+      `SELECT sl.*, COALESCE(p.sku, sl.sku) as sku
+       FROM sales_lines sl
+       LEFT JOIN products p ON p.id = sl.product_id
+       WHERE sl.receipt_id = $1
+       ORDER BY sl.line_number`,
+      [receiptId]
+    );
+    const tenant = await getTenant(tenantId);
+    // The QR code points at the e-receipt when the server has a public URL
+    const link = config.publicApiUrl ? signReceiptLink(receiptId) : null;
+
+    const buffer = await renderer.generateDocument(
+      receipt.status === 'voided'
+        ? renderer.DOCUMENT_TYPES.VOID_RECEIPT
+        : receipt.type === 'exchange' ? renderer.DOCUMENT_TYPES.EXCHANGE_RECEIPT : renderer.DOCUMENT_TYPES.SALES_RECEIPT,
+      {
+        store: {
+          id: receipt.store_id,
+          name: receipt.store_name,
+          address: receipt.store_address,
+          phone: receipt.store_phone
+        },
+        receipt: {
+          id: receipt.id,
+          receipt_number: receipt.receipt_number,
+          receipt_date: receipt.receipt_date,
+          type: receipt.type || 'sale',
+          subtotal: receipt.subtotal,
+          discount_amount: receipt.discount_amount,
+          tax_amount: receipt.tax_amount,
+          total_amount: receipt.total_amount,
+          paid_amount: receipt.paid_amount,
+          change_amount: receipt.change_amount,
+          status: receipt.status,
+          void_reason: receipt.void_reason,
+          public_url: link?.url
+        },
+        items: itemsResult.rows,
+        payments: receipt.payments || [],
+        customer: receipt.customer_first_name ? {
+          first_name: receipt.customer_first_name,
+          last_name: receipt.customer_last_name,
+          phone: receipt.customer_phone,
+          email: receipt.customer_email
+        } : null,
+        cashier: { name: receipt.cashier_name },
+        tenant: {
+          name: tenant?.name,
+          currency_code: tenant?.currency_code || 'EGP',
+          settings: tenant?.settings || {}
+        }
+      },
+      format,
+      { isReprint: reprint }
+    );
+
+    return {
+      document: { buffer, filename: `receipt-${receipt.receipt_number}.pdf` },
+      receipt,
+      tenant,
+      link
+    };
+  }
+
+  /**
+   * Goods received note
+   */
+  static async grnProof(ctx: TenantContext, grnId: string, format: DocumentFormat): Promise<RenderedDocument> {
+    const grnResult = await query(
+      `SELECT g.*, s.name as store_name, s.address as store_address,
+              sup.name as supplier_name, sup.code as supplier_code, sup.phone as supplier_phone,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as received_by_name,
+              po.po_number
+       FROM grns g
+       LEFT JOIN purchase_orders po ON po.id = g.purchase_order_id
+       LEFT JOIN stores s ON s.id = g.store_id
+       LEFT JOIN suppliers sup ON sup.id = g.supplier_id
+       LEFT JOIN users u ON u.id = g.received_by
+       WHERE g.id = $1 AND g.tenant_id = $2`,
+      [grnId, ctx.tenantId]
+    );
+    if (grnResult.rows.length === 0) {
+      throw AppError.notFound('GRN not found');
+    }
+    const grn = grnResult.rows[0];
+
+    const itemsResult = await query(
+      `SELECT gl.*, gl.received_qty as quantity, p.sku, p.name
+       FROM grn_lines gl
+       LEFT JOIN products p ON p.id = gl.product_id
+       WHERE gl.grn_id = $1
+       ORDER BY gl.line_number`,
+      [grnId]
+    );
+    const tenant = await getTenant(ctx.tenantId);
+
+    const buffer = await renderer.generateDocument(
+      renderer.DOCUMENT_TYPES.GRN_PROOF,
+      {
+        grn,
+        items: itemsResult.rows,
+        supplier: { name: grn.supplier_name, code: grn.supplier_code, phone: grn.supplier_phone },
+        store: { name: grn.store_name, address: grn.store_address },
+        user: { name: grn.received_by_name },
+        tenant: { name: tenant?.name, currency_code: tenant?.currency_code || 'EGP' }
+      },
+      format
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DOWNLOAD,
+      entityType: 'grn',
+      entityId: grnId,
+      afterData: { format }
+    });
+
+    return { buffer, filename: `grn-${grn.grn_number}.pdf` };
+  }
+
+  /**
+   * Purchase order for sending to the supplier
+   */
+  static async purchaseOrder(ctx: TenantContext, purchaseOrderId: string, format: DocumentFormat): Promise<RenderedDocument> {
+    const order = await PurchaseOrderService.getOrder(ctx.tenantId, purchaseOrderId);
+    if (!order) {
+      throw AppError.notFound('Purchase order not found');
+    }
+    const tenant = await getTenant(ctx.tenantId);
+
+    const buffer = await renderer.generateDocument(
+      renderer.DOCUMENT_TYPES.PURCHASE_ORDER,
+      {
+        purchaseOrder: order,
+        items: order.lines.map(line => ({
+          sku: line.sku,
+          name: line.product_name,
+          quantity: line.quantity,
+          unit_cost: line.unit_cost,
+          line_total: line.line_total
+        })),
+        supplier: {
+          name: order.supplier_name,
+          code: order.supplier_code,
+          contact_name: order.supplier_contact,
+          phone: order.supplier_phone,
+          email: order.supplier_email,
+          payment_terms: order.supplier_payment_terms
+        },
+        store: { name: order.store_name, address: order.store_address },
+        tenant: { name: tenant?.name, currency_code: tenant?.currency_code || 'EGP' }
+      },
+      format
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DOWNLOAD,
+      entityType: 'purchase_order',
+      entityId: purchaseOrderId,
+      afterData: { format }
+    });
+
+    return { buffer, filename: `po-${order.po_number}.pdf` };
+  }
+
+  /**
+   * Transfer note with the created/dispatched/received timeline
+   */
+  static async transferNote(ctx: TenantContext, transferId: string, format: DocumentFormat): Promise<RenderedDocument> {
+    const transferResult = await query(
+      `SELECT t.*,
+              fs.name as from_store_name, fs.address as from_store_address,
+              ts.name as to_store_name, ts.address as to_store_address,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+              du.first_name || ' ' || COALESCE(du.last_name, '') as dispatched_by_name,
+              ru.first_name || ' ' || COALESCE(ru.last_name, '') as received_by_name
+       FROM transfers t
+       LEFT JOIN stores fs ON fs.id = t.from_store_id
+       LEFT JOIN stores ts ON ts.id = t.to_store_id
+       LEFT JOIN users u ON u.id = t.created_by
+       LEFT JOIN users du ON du.id = t.dispatched_by
+       LEFT JOIN users ru ON ru.id = t.received_by
+       WHERE t.id = $1 AND t.tenant_id = $2`,
+      [transferId, ctx.tenantId]
+    );
+    if (transferResult.rows.length === 0) {
+      throw AppError.notFound('Transfer not found');
+    }
+    const transfer = transferResult.rows[0];
+
+    const timeline: { status: string; timestamp: Date; user?: string }[] = [
+      { status: 'Created', timestamp: transfer.created_at, user: transfer.created_by_name }
+    ];
+    if (transfer.dispatched_at) {
+      timeline.push({ status: 'Dispatched', timestamp: transfer.dispatched_at, user: transfer.dispatched_by_name });
+    }
+    if (transfer.received_at) {
+      timeline.push({ status: 'Received', timestamp: transfer.received_at, user: transfer.received_by_name });
+    }
+    if (transfer.cancelled_at) {
+      timeline.push({ status: 'Cancelled', timestamp: transfer.cancelled_at });
+    }
+
+    const itemsResult = await query(
+      `SELECT tl.*, p.sku, p.name, u.symbol as uom,
+              tl.received_qty as quantity_received
+       FROM transfer_lines tl
+       LEFT JOIN products p ON p.id = tl.product_id
+       LEFT JOIN uoms u ON u.id = tl.uom_id
+       WHERE tl.transfer_id = $1
+       ORDER BY tl.line_number`,
+      [transferId]
+    );
+    const tenant = await getTenant(ctx.tenantId);
+
+    const buffer = await renderer.generateDocument(
+      renderer.DOCUMENT_TYPES.TRANSFER_NOTE,
+      {
+        transfer: { ...transfer, timeline },
+        items: itemsResult.rows,
+        fromStore: { name: transfer.from_store_name, address: transfer.from_store_address },
+        toStore: { name: transfer.to_store_name, address: transfer.to_store_address },
+        user: { name: transfer.created_by_name },
+        tenant: { name: tenant?.name }
+      },
+      format
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DOWNLOAD,
+      entityType: 'transfer',
+      entityId: transferId,
+      afterData: { format }
+    });
+
+    return { buffer, filename: `transfer-${transfer.transfer_number}.pdf` };
+  }
+
+  /**
+   * Shift report: X while the shift is open, Z once it is closed
+   * Blind cash-ups leave the money totals off X reports unless revealCash is set.
+   */
+  static async shiftReport(
+    ctx: TenantContext,
+    shiftId: string,
+    options: { format: DocumentFormat; revealCash: boolean }
+  ): Promise<RenderedDocument> {
+    const report = await ShiftService.getReport(ctx, shiftId, options.revealCash);
+    const tenant = await getTenant(ctx.tenantId);
+
+    const buffer = await renderer.generateDocument(
+      renderer.DOCUMENT_TYPES.SHIFT_REPORT,
+      {
+        ...report,
+        tenant: { name: tenant?.name, currency_code: tenant?.currency_code || 'EGP' }
+      },
+      options.format
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.PRINT,
+      entityType: 'shift',
+      entityId: shiftId,
+      storeId: report.shift.store_id,
+      afterData: { format: options.format, report: report.type }
+    });
+
+    return { buffer, filename: `${report.type.toLowerCase()}-report-${report.shift.shift_number}.pdf` };
+  }
+}
+
+export default DocumentService;
@@ -1,3 +1,4 @@
+import { PoolClient } from 'pg';
 import { query } from '../database/pool.js';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -16,15 +17,17 @@ export interface QueuedEvent {
  */
 export class EventService {
   /**
-   * Queue an event for BigQuery sync
+   * Queue an event for BigQuery sync (inside the caller's transaction when a client is given)
    */
   static async queueEvent(
     tenantId: string,
-    event: QueuedEvent
+    event: QueuedEvent,
+    client?: PoolClient
   ): Promise<string> {
     const id = uuidv4();
+    const executeQuery = client ? client.query.bind(client) : query;
     
-    await query(
+    await executeQuery(
       `INSERT INTO event_queue (
         id, tenant_id, event_type, entity_type, entity_id, payload
       ) VALUES ($1, $2, $3, $4, $5, $6)`,
@@ -185,6 +188,8 @@ export class EventService {
   static readonly EVENT_TYPES = {
     SALE_COMPLETED: 'sale_completed',
     RECEIPT_REFUNDED: 'receipt_refunded',
+    SALE_VOIDED: 'sale_voided',
+    EXCHANGE_COMPLETED: 'exchange_completed',
     GRN_RECEIVED: 'grn_received',
     TRANSFER_DISPATCHED: 'transfer_dispatched',
     TRANSFER_RECEIVED: 'transfer_received',
@@ -193,6 +198,7 @@ export class EventService {
     STOCK_MOVEMENT: 'stock_movement',
     CUSTOMER_CREATED: 'customer_created',
     CUSTOMER_UPDATED: 'customer_updated',
+    CUSTOMER_MERGED: 'customer_merged',
     LOYALTY_EARNED: 'loyalty_earned',
     LOYALTY_REDEEMED: 'loyalty_redeemed',
     PRODUCT_CREATED: 'product_created',
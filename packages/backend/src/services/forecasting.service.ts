@@ -0,0 +1,262 @@
+import { query } from '../database/pool.js';
+import { roundMoney } from '../utils/money.js';
+
+export type ForecastUrgency = 'critical' | 'high' | 'medium' | 'info' | 'normal';
+
+export type ForecastRecommendation =
+  | 'OUT_OF_STOCK'
+  | 'STOCK_BELOW_DEMAND'
+  | 'LOW_STOCK_DAYS'
+  | 'BELOW_REORDER_POINT'
+  | 'NO_RECENT_SALES';
+
+export interface StockRecommendation {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  category: string | null;
+  current_stock: number;
+  reorder_point: number;
+  avg_daily_demand: number;
+  forecasted_demand: number;
+  days_of_stock: number;
+  urgency: ForecastUrgency;
+  recommendation: ForecastRecommendation;
+  suggested_quantity: number;
+  estimated_cost: number;
+  trend: 'stable' | 'insufficient_data' | 'no_sales';
+}
+
+interface ProductDemand {
+  product_name: string;
+  sku: string;
+  category: string | null;
+  daily_sales: number[];
+  total_quantity: number;
+  days_with_sales: number;
+}
+
+// Demand history window and the safety stock multiplier (standard deviations)
+const HISTORY_DAYS = 30;
+const SAFETY_FACTOR = 1.5;
+// Days of stock reported for products that are not selling
+const NO_DEMAND_DAYS = 999;
+
+const URGENCY_ORDER: Record<ForecastUrgency, number> = { critical: 0, high: 1, medium: 2, info: 3, normal: 4 };
+
+/**
+ * Forecasting Service
+ *
+ * Demand forecasts and reorder recommendations from the last 30 days of sales.
+ */
+export class ForecastingService {
+  /**
+   * Reorder recommendations for a store, most urgent first
+   * Days without sales count as zero demand
+   */
+  static async getRecommendations(tenantId: string, storeId: string) {
+    const salesData = await query(
+      `SELECT sl.product_id, p.name as product_name, p.sku, c.name as category,
+              DATE(sr.receipt_date + INTERVAL '2 hours') as sale_date,
+              SUM(sl.quantity) as daily_quantity
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       LEFT JOIN categories c ON c.id = p.category_id
+       WHERE sl.tenant_id = $1
+         AND sr.store_id = $2
+         AND sr.status = 'completed'
+         AND sr.receipt_date >= NOW() - INTERVAL '30 days'
+       GROUP BY sl.product_id, p.name, p.sku, c.name, DATE(sr.receipt_date + INTERVAL '2 hours')
+       ORDER BY sl.product_id, sale_date`,
+      [tenantId, storeId]
+    );
+
+    // Every active product, including those with no stock_on_hand row
+    const stockLevels = await query(
+      `SELECT p.id as product_id, p.name as product_name, p.sku, c.name as category,
+              p.reorder_point, p.cost_price,
+              COALESCE(soh.quantity, 0) as current_stock
+       FROM products p
+       LEFT JOIN categories c ON c.id = p.category_id
+       LEFT JOIN stock_on_hand soh ON soh.product_id = p.id AND soh.store_id = $2 AND soh.tenant_id = $1
+       WHERE p.tenant_id = $1 AND p.is_active = true`,
+      [tenantId, storeId]
+    );
+
+    const demand = new Map<string, ProductDemand>();
+    for (const sale of salesData.rows) {
+      let stats = demand.get(sale.product_id);
+      if (!stats) {
+        stats = {
+          product_name: sale.product_name,
+          sku: sale.sku,
+          category: sale.category,
+          daily_sales: [],
+          total_quantity: 0,
+          days_with_sales: 0
+        };
+        demand.set(sale.product_id, stats);
+      }
+      const quantity = parseFloat(sale.daily_quantity);
+      stats.daily_sales.push(quantity);
+      stats.total_quantity += quantity;
+      stats.days_with_sales++;
+    }
+
+    const recommendations: StockRecommendation[] = [];
+    const stockMap = new Map(stockLevels.rows.map(s => [s.product_id, s]));
+
+    for (const [productId, stats] of demand) {
+      const stock = stockMap.get(productId);
+      const currentStock = parseFloat(stock?.current_stock) || 0;
+      const reorderPoint = stock?.reorder_point || 5;
+      const costPrice = parseFloat(stock?.cost_price) || 0;
+
+      const avgDailyDemand = stats.total_quantity / HISTORY_DAYS;
+      const dailySales = [...stats.daily_sales];
+      while (dailySales.length < HISTORY_DAYS) dailySales.push(0);
+      const variance = dailySales.reduce((sum, x) => sum + Math.pow(x - avgDailyDemand, 2), 0) / HISTORY_DAYS;
+      const forecastedDemand = Math.ceil(avgDailyDemand + Math.sqrt(variance) * SAFETY_FACTOR);
+      const daysOfStock = avgDailyDemand > 0 ? Math.floor(currentStock / avgDailyDemand) : NO_DEMAND_DAYS;
+
+      let recommendation: ForecastRecommendation | null = null;
+      let urgency: ForecastUrgency = 'normal';
+      let suggestedQuantity = 0;
+
+      if (currentStock <= 0) {
+        urgency = 'critical';
+        recommendation = 'OUT_OF_STOCK';
+        suggestedQuantity = Math.max(forecastedDemand * 7, stock?.reorder_point || 10);
+      } else if (currentStock < forecastedDemand) {
+        urgency = 'critical';
+        recommendation = 'STOCK_BELOW_DEMAND';
+        suggestedQuantity = Math.max(forecastedDemand * 7 - currentStock, 0);
+      } else if (daysOfStock <= 3) {
+        urgency = 'high';
+        recommendation = 'LOW_STOCK_DAYS';
+        suggestedQuantity = Math.max(forecastedDemand * 7 - currentStock, 0);
+      } else if (currentStock <= reorderPoint) {
+        urgency = 'medium';
+        recommendation = 'BELOW_REORDER_POINT';
+        suggestedQuantity = Math.max(forecastedDemand * 14 - currentStock, 0);
+      }
+
+      if (recommendation) {
+        recommendations.push({
+          product_id: productId,
+          product_name: stats.product_name,
+          sku: stats.sku,
+          category: stats.category,
+          current_stock: currentStock,
+          reorder_point: reorderPoint,
+          avg_daily_demand: roundMoney(avgDailyDemand),
+          forecasted_demand: forecastedDemand,
+          days_of_stock: daysOfStock,
+          urgency,
+          recommendation,
+          suggested_quantity: Math.ceil(suggestedQuantity),
+          estimated_cost: roundMoney(suggestedQuantity * costPrice),
+          trend: stats.days_with_sales >= 7 ? 'stable' : 'insufficient_data'
+        });
+      }
+    }
+
+    // Products with no sales in the window: out of stock, below reorder point, or dead stock
+    const unsold = stockLevels.rows.filter(s => !demand.has(s.product_id));
+    for (const stock of unsold) {
+      const currentStock = parseFloat(stock.current_stock) || 0;
+      const costPrice = parseFloat(stock.cost_price) || 0;
+      const base = {
+        product_id: stock.product_id,
+        product_name: stock.product_name,
+        sku: stock.sku,
+        category: stock.category,
+        current_stock: currentStock,
+        reorder_point: stock.reorder_point || 5,
+        avg_daily_demand: 0,
+        forecasted_demand: 0,
+        trend: 'no_sales' as const
+      };
+
+      if (currentStock <= 0) {
+        const quantity = stock.reorder_point || 10;
+        recommendations.push({
+          ...base,
+          days_of_stock: 0,
+          urgency: 'critical',
+          recommendation: 'OUT_OF_STOCK',
+          suggested_quantity: quantity,
+          estimated_cost: roundMoney(quantity * costPrice)
+        });
+      } else if (currentStock <= (stock.reorder_point || 5)) {
+        const quantity = Math.max((stock.reorder_point || 10) * 2 - currentStock, 0);
+        recommendations.push({
+          ...base,
+          days_of_stock: NO_DEMAND_DAYS,
+          urgency: 'medium',
+          recommendation: 'BELOW_REORDER_POINT',
+          suggested_quantity: quantity,
+          estimated_cost: roundMoney(quantity * costPrice)
+        });
+      } else {
+        recommendations.push({
+          ...base,
+          days_of_stock: NO_DEMAND_DAYS,
+          urgency: 'info',
+          recommendation: 'NO_RECENT_SALES',
+          suggested_quantity: 0,
+          estimated_cost: 0
+        });
+      }
+    }
+
+    recommendations.sort((a, b) => URGENCY_ORDER[a.urgency] - URGENCY_ORDER[b.urgency]);
+
+    return {
+      recommendations,
+      summary: {
+        total_products_analyzed: demand.size + unsold.length,
+        critical_alerts: recommendations.filter(r => r.urgency === 'critical').length,
+        high_alerts: recommendations.filter(r => r.urgency === 'high').length,
+        medium_alerts: recommendations.filter(r => r.urgency === 'medium').length,
+        total_estimated_cost: roundMoney(recommendations.reduce((sum, r) => sum + r.estimated_cost, 0)),
+        generated_at: new Date().toISOString()
+      },
+      store_id: storeId
+    };
+  }
+
+  /**
+   * Count of products out of stock or with under two days of recent demand
+   * (cheap enough for the notification badge to poll)
+   */
+  static async getAlertsCount(tenantId: string, storeId: string) {
+    const result = await query(
+      `WITH daily_demand AS (
+         SELECT sl.product_id, AVG(sl.quantity) as avg_daily
+         FROM sales_lines sl
+         JOIN sales_receipts sr ON sr.id = sl.receipt_id
+         WHERE sl.tenant_id = $1
+           AND sr.store_id = $2
+           AND sr.status = 'completed'
+           AND sr.receipt_date >= NOW() - INTERVAL '14 days'
+         GROUP BY sl.product_id
+       )
+       SELECT COUNT(*) as count
+       FROM stock_on_hand soh
+       LEFT JOIN daily_demand dd ON dd.product_id = soh.product_id
+       WHERE soh.tenant_id = $1
+         AND soh.store_id = $2
+         AND (soh.quantity <= 0 OR soh.quantity < COALESCE(dd.avg_daily, 0) * 2)`,
+      [tenantId, storeId]
+    );
+
+    return {
+      critical: parseInt(result.rows[0]?.count) || 0,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export default ForecastingService;
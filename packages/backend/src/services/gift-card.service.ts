@@ -0,0 +1,477 @@
+import { PoolClient } from 'pg';
+import { randomBytes } from 'crypto';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext, Payment } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { getCairoEndOfDay, parseDateToCairoEnd, parseDateToCairoStart } from '../utils/dates.js';
+import { AuditService } from './audit.service.js';
+
+export type GiftCardLedgerType = 'issue' | 'reload' | 'redeem' | 'refund' | 'expire' | 'cancel';
+
+// A gift card sold or topped up on a sale; an unknown or missing code issues a new card
+export interface GiftCardSaleInput {
+  code?: string;
+  amount: number;
+}
+
+export interface GiftCardSaleLine {
+  giftCardId: string;
+  code: string;
+  type: 'issue' | 'reload';
+  amount: number;
+}
+
+interface GiftCardRow {
+  id: string;
+  tenant_id: string;
+  code: string;
+  balance: string;
+  status: string;
+  customer_id: string | null;
+  expires_at: Date | null;
+}
+
+interface LedgerEntry {
+  type: GiftCardLedgerType;
+  amount: number;
+  storeId?: string | null;
+  referenceType?: string;
+  referenceId?: string;
+  notes?: string;
+}
+
+// No 0/O or 1/I so codes read back correctly over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+
+/**
+ * Gift Card Service
+ *
+ * Stored-value cards sold and reloaded as sale lines and spent as a
+ * 'gift_card' payment across any number of sales. Every balance change
+ * goes through post(), which writes the gift card ledger.
+ */
+export class GiftCardService {
+  /**
+   * List gift cards; active cards past their expiry are reported as expired
+   */
+  static async listGiftCards(
+    tenantId: string,
+    options: { status?: string; search?: string; customerId?: string } = {}
+  ) {
+    const params: unknown[] = [tenantId];
+    let where = 'g.tenant_id = $1';
+    if (options.search) {
+      params.push(`%${options.search.toUpperCase()}%`);
+      where += ` AND g.code LIKE $${params.length}`;
+    }
+    if (options.customerId) {
+      params.push(options.customerId);
+      where += ` AND g.customer_id = $${params.length}`;
+    }
+
+    // Status is derived in the inner query, so it is filtered outside it
+    let statusFilter = '';
+    if (options.status && options.status !== 'all') {
+      params.push(options.status);
+      statusFilter = `WHERE g.status = $${params.length}`;
+    }
+
+    const result = await query(
+      `SELECT * FROM (
+         SELECT g.id, g.code, g.balance, g.customer_id, g.expires_at, g.created_at, g.updated_at,
+                CASE WHEN g.status = 'active' AND g.expires_at < NOW() THEN 'expired' ELSE g.status END as status,
+                c.first_name || ' ' || COALESCE(c.last_name, '') as customer_name,
+                s.name as issued_store_name
+         FROM gift_cards g
+         LEFT JOIN customers c ON g.customer_id = c.id
+         LEFT JOIN stores s ON g.issued_store_id = s.id
+         WHERE ${where}
+       ) g
+       ${statusFilter}
+       ORDER BY g.created_at DESC
+       LIMIT 500`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * A card and its ledger, by code (typed or scanned) or id
+   */
+  static async getGiftCard(tenantId: string, codeOrId: string) {
+    const isId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(codeOrId);
+    const result = await query(
+      `SELECT g.*,
+              CASE WHEN g.status = 'active' AND g.expires_at < NOW() THEN 'expired' ELSE g.status END as status,
+              c.first_name || ' ' || COALESCE(c.last_name, '') as customer_name
+       FROM gift_cards g
+       LEFT JOIN customers c ON g.customer_id = c.id
+       WHERE g.tenant_id = $1 AND ${isId ? 'g.id = $2' : 'g.code = $2'}`,
+      [tenantId, isId ? codeOrId : codeOrId.trim().toUpperCase()]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Gift card not found');
+    }
+
+    const ledger = await query(
+      `SELECT l.id, l.type, l.amount_delta, l.balance_before, l.balance_after, l.reference_type, l.reference_id,
+              l.notes, l.occurred_at,
+              sr.receipt_number, s.name as store_name,
+              u.first_name || ' ' || u.last_name as created_by_name
+       FROM gift_card_ledger l
+       LEFT JOIN sales_receipts sr ON l.reference_type = 'sales_receipt' AND sr.id = l.reference_id
+       LEFT JOIN stores s ON s.id = l.store_id
+       LEFT JOIN users u ON u.id = l.created_by
+       WHERE l.gift_card_id = $1
+       ORDER BY l.occurred_at DESC
+       LIMIT 200`,
+      [result.rows[0].id]
+    );
+
+    return { ...result.rows[0], ledger: ledger.rows };
+  }
+
+  /**
+   * Issue and reload the gift cards sold on a sale
+   * Runs in the sale transaction. Each sale extends the card's validity by the
+   * tenant's gift card expiry setting.
+   */
+  static async sell(
+    client: PoolClient,
+    ctx: TenantContext,
+    sale: { storeId: string; receiptId: string; receiptNumber: string; customerId?: string },
+    cards: GiftCardSaleInput[]
+  ): Promise<GiftCardSaleLine[]> {
+    if (cards.length === 0) return [];
+
+    const settings = await client.query(
+      `SELECT COALESCE((settings->>'gift_card_expiry_months')::int, 12) as months FROM tenants WHERE id = $1`,
+      [ctx.tenantId]
+    );
+    const expiryMonths: number = settings.rows[0]?.months ?? 12;
+    const reference = {
+      storeId: sale.storeId,
+      referenceType: 'sales_receipt',
+      referenceId: sale.receiptId,
+      notes: sale.receiptNumber
+    };
+
+    const sold: GiftCardSaleLine[] = [];
+    for (const card of cards) {
+      const code = card.code?.trim().toUpperCase();
+      const existing = code
+        ? await client.query<GiftCardRow>(
+          `SELECT * FROM gift_cards WHERE tenant_id = $1 AND code = $2 FOR UPDATE`,
+          [ctx.tenantId, code]
+        )
+        : null;
+
+      let giftCard = existing?.rows[0];
+      let type: 'issue' | 'reload' = 'reload';
+      if (giftCard) {
+        if (giftCard.status === 'cancelled') {
+          throw AppError.badRequest(`Gift card ${giftCard.code} is cancelled`);
+        }
+        // Reloading an expired card brings it back into use
+        await client.query(
+          `UPDATE gift_cards SET status = 'active',
+            expires_at = CASE WHEN $2::int > 0 THEN NOW() + make_interval(months => $2::int) END,
+            updated_at = NOW()
+           WHERE id = $1`,
+          [giftCard.id, expiryMonths]
+        );
+      } else {
+        type = 'issue';
+        giftCard = await this.insertCard(client, ctx, code || this.generateCode(), {
+          customerId: sale.customerId,
+          storeId: sale.storeId,
+          expiryMonths
+        });
+      }
+
+      await this.post(client, ctx, giftCard.id, { type, amount: card.amount, ...reference });
+      sold.push({ giftCardId: giftCard.id, code: giftCard.code, type, amount: card.amount });
+    }
+    return sold;
+  }
+
+  /**
+   * Spend the sale's gift card payments
+   * Runs in the sale transaction; each card row is locked so two registers
+   * cannot spend the same balance.
+   */
+  static async redeem(
+    client: PoolClient,
+    ctx: TenantContext,
+    sale: { storeId: string; receiptId: string; receiptNumber: string },
+    payments: Payment[]
+  ): Promise<void> {
+    for (const payment of payments.filter(p => p.method === 'gift_card')) {
+      if (!payment.giftCardId) {
+        throw AppError.badRequest('Gift card payment is missing its gift card');
+      }
+
+      const giftCard = await this.lockCard(client, ctx.tenantId, payment.giftCardId);
+      this.assertUsable(giftCard);
+      const balance = parseFloat(giftCard.balance);
+      if (roundMoney(payment.amount) > roundMoney(balance)) {
+        throw AppError.badRequest(`Gift card ${giftCard.code} has only ${balance.toFixed(2)} left`);
+      }
+
+      await this.post(client, ctx, giftCard.id, {
+        type: 'redeem',
+        amount: -payment.amount,
+        storeId: sale.storeId,
+        referenceType: 'sales_receipt',
+        referenceId: sale.receiptId,
+        notes: sale.receiptNumber
+      });
+    }
+  }
+
+  /**
+   * Settle the gift card side of a refund
+   * Gift cards sold on the original sale lose the refunded value (which must
+   * not have been spent yet); gift card refund payments are credited back.
+   */
+  static async applyRefund(
+    client: PoolClient,
+    ctx: TenantContext,
+    refund: { storeId: string; refundId: string; receiptNumber: string },
+    soldCards: Array<{ giftCardId: string; amount: number }>,
+    payments: Payment[]
+  ): Promise<void> {
+    const reference = {
+      storeId: refund.storeId,
+      referenceType: 'sales_receipt',
+      referenceId: refund.refundId,
+      notes: refund.receiptNumber
+    };
+
+    for (const sold of soldCards) {
+      const giftCard = await this.lockCard(client, ctx.tenantId, sold.giftCardId);
+      const balance = parseFloat(giftCard.balance);
+      if (roundMoney(sold.amount) > roundMoney(balance)) {
+        throw AppError.badRequest(
+          `Gift card ${giftCard.code} has been spent; only ${balance.toFixed(2)} can be refunded`
+        );
+      }
+      await this.post(client, ctx, giftCard.id, { type: 'cancel', amount: -sold.amount, ...reference });
+    }
+
+    for (const payment of payments.filter(p => p.method === 'gift_card')) {
+      if (!payment.giftCardId) {
+        throw AppError.badRequest('Gift card payment is missing its gift card');
+      }
+      const giftCard = await this.lockCard(client, ctx.tenantId, payment.giftCardId);
+      if (giftCard.status === 'cancelled') {
+        throw AppError.badRequest(`Gift card ${giftCard.code} is cancelled`);
+      }
+      await this.post(client, ctx, giftCard.id, { type: 'refund', amount: payment.amount, ...reference });
+    }
+  }
+
+  /**
+   * Cancel a card; what is left on it is written off in the ledger
+   */
+  static async cancelGiftCard(ctx: TenantContext, giftCardId: string, notes?: string) {
+    const cancelled = await withTransaction(async (client) => {
+      const giftCard = await this.lockCard(client, ctx.tenantId, giftCardId);
+      if (giftCard.status === 'cancelled') {
+        throw AppError.badRequest('Gift card is already cancelled');
+      }
+      const balance = parseFloat(giftCard.balance);
+      if (balance > 0) {
+        await this.post(client, ctx, giftCard.id, { type: 'cancel', amount: -balance, notes });
+      }
+      await client.query(
+        `UPDATE gift_cards SET status = 'cancelled', updated_at = NOW() WHERE id = $1`,
+        [giftCard.id]
+      );
+      return { id: giftCard.id, code: giftCard.code, writtenOff: balance };
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CANCEL,
+      entityType: 'gift_card',
+      entityId: giftCardId,
+      afterData: { ...cancelled, notes }
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Expire cards past their date, each in its own transaction
+   * Run on a timer from the server and on demand per tenant.
+   */
+  static async expireGiftCards(tenantId?: string): Promise<number> {
+    const cards = await query<{ id: string; tenant_id: string }>(
+      `SELECT id, tenant_id FROM gift_cards
+       WHERE status = 'active' AND expires_at <= NOW() ${tenantId ? 'AND tenant_id = $1' : ''}
+       ORDER BY expires_at
+       LIMIT 1000`,
+      tenantId ? [tenantId] : []
+    );
+
+    let expired = 0;
+    for (const card of cards.rows) {
+      await withTransaction(async (client) => {
+        const giftCard = await this.lockCard(client, card.tenant_id, card.id);
+        if (giftCard.status !== 'active' || !giftCard.expires_at || new Date(giftCard.expires_at) > new Date()) return;
+
+        const balance = parseFloat(giftCard.balance);
+        if (balance > 0) {
+          await this.post(client, { tenantId: card.tenant_id, userId: null }, giftCard.id, {
+            type: 'expire',
+            amount: -balance,
+            notes: 'Gift card expired'
+          });
+        }
+        await client.query(
+          `UPDATE gift_cards SET status = 'expired', updated_at = NOW() WHERE id = $1`,
+          [giftCard.id]
+        );
+        expired++;
+      });
+    }
+    return expired;
+  }
+
+  /**
+   * Outstanding gift card liability at a date, with the period's movements
+   * The balance is rebuilt from the ledger, so past dates report what was owed then.
+   */
+  static async getLiability(tenantId: string, options: { startDate?: string; endDate?: string } = {}) {
+    const end = options.endDate ? parseDateToCairoEnd(options.endDate) : getCairoEndOfDay();
+    const start = options.startDate ? parseDateToCairoStart(options.startDate) : null;
+
+    const [outstanding, byStore, movements] = await Promise.all([
+      query(
+        `SELECT COUNT(*) FILTER (WHERE balance > 0) as card_count, COALESCE(SUM(balance), 0) as balance
+         FROM (
+           SELECT l.gift_card_id, SUM(l.amount_delta) as balance
+           FROM gift_card_ledger l
+           WHERE l.tenant_id = $1 AND l.occurred_at <= $2
+           GROUP BY l.gift_card_id
+         ) cards`,
+        [tenantId, end]
+      ),
+      query(
+        `SELECT g.issued_store_id as store_id, s.name as store_name,
+                COUNT(*) FILTER (WHERE cards.balance > 0) as card_count, COALESCE(SUM(cards.balance), 0) as balance
+         FROM (
+           SELECT l.gift_card_id, SUM(l.amount_delta) as balance
+           FROM gift_card_ledger l
+           WHERE l.tenant_id = $1 AND l.occurred_at <= $2
+           GROUP BY l.gift_card_id
+         ) cards
+         JOIN gift_cards g ON g.id = cards.gift_card_id
+         LEFT JOIN stores s ON s.id = g.issued_store_id
+         GROUP BY g.issued_store_id, s.name
+         ORDER BY balance DESC`,
+        [tenantId, end]
+      ),
+      query(
+        `SELECT type, COUNT(*) as entry_count, COALESCE(SUM(amount_delta), 0) as amount
+         FROM gift_card_ledger
+         WHERE tenant_id = $1 AND occurred_at <= $2 ${start ? 'AND occurred_at >= $3' : ''}
+         GROUP BY type
+         ORDER BY type`,
+        start ? [tenantId, end, start] : [tenantId, end]
+      )
+    ]);
+
+    return {
+      asOf: end,
+      cardCount: parseInt(outstanding.rows[0].card_count),
+      balance: roundMoney(parseFloat(outstanding.rows[0].balance)),
+      byStore: byStore.rows.map(row => ({
+        storeId: row.store_id,
+        storeName: row.store_name,
+        cardCount: parseInt(row.card_count),
+        balance: roundMoney(parseFloat(row.balance))
+      })),
+      movements: movements.rows.map(row => ({
+        type: row.type as GiftCardLedgerType,
+        count: parseInt(row.entry_count),
+        amount: roundMoney(parseFloat(row.amount))
+      }))
+    };
+  }
+
+  private static async lockCard(client: PoolClient, tenantId: string, giftCardId: string): Promise<GiftCardRow> {
+    const result = await client.query<GiftCardRow>(
+      `SELECT * FROM gift_cards WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+      [giftCardId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Gift card not found');
+    }
+    return result.rows[0];
+  }
+
+  private static assertUsable(giftCard: GiftCardRow): void {
+    if (giftCard.status !== 'active') {
+      throw AppError.badRequest(`Gift card ${giftCard.code} is ${giftCard.status}`);
+    }
+    if (giftCard.expires_at && new Date(giftCard.expires_at) < new Date()) {
+      throw AppError.badRequest(`Gift card ${giftCard.code} has expired`);
+    }
+  }
+
+  /**
+   * Move a card's balance and write the ledger entry; returns the new balance
+   */
+  private static async post(
+    client: PoolClient,
+    ctx: Pick<TenantContext, 'tenantId'> & { userId: string | null },
+    giftCardId: string,
+    entry: LedgerEntry
+  ): Promise<number> {
+    const result = await client.query<{ balance: string }>(
+      `UPDATE gift_cards SET balance = balance + $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING balance`,
+      [giftCardId, entry.amount]
+    );
+    const balanceAfter = parseFloat(result.rows[0].balance);
+
+    await client.query(
+      `INSERT INTO gift_card_ledger (
+        tenant_id, gift_card_id, store_id, type, amount_delta, balance_before, balance_after,
+        reference_type, reference_id, notes, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        ctx.tenantId, giftCardId, entry.storeId || null, entry.type, entry.amount,
+        balanceAfter - entry.amount, balanceAfter,
+        entry.referenceType || null, entry.referenceId || null, entry.notes || null, ctx.userId
+      ]
+    );
+    return balanceAfter;
+  }
+
+  private static async insertCard(
+    client: PoolClient,
+    ctx: TenantContext,
+    code: string,
+    options: { customerId?: string; storeId: string; expiryMonths: number }
+  ): Promise<GiftCardRow> {
+    const result = await client.query<GiftCardRow>(
+      `INSERT INTO gift_cards (tenant_id, code, customer_id, issued_store_id, expires_at, created_by)
+       VALUES ($1, $2, $3, $4, CASE WHEN $5::int > 0 THEN NOW() + make_interval(months => $5::int) END, $6)
+       RETURNING *`,
+      [ctx.tenantId, code, options.customerId || null, options.storeId, options.expiryMonths, ctx.userId]
+    );
+    return result.rows[0];
+  }
+
+  private static generateCode(): string {
+    const bytes = randomBytes(CODE_LENGTH);
+    return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  }
+}
+
+export default GiftCardService;
@@ -1,19 +1,17 @@
 import { PoolClient } from 'pg';
-import { query, withTransaction, getClient } from '../database/pool.js';
+import { query, withTransaction } from '../database/pool.js';
 import { v4 as uuidv4 } from 'uuid';
-import { 
-  TenantContext, 
-  StockLedgerEntry, 
-  StockOnHand, 
-  StockReferenceType 
+import {
+  TenantContext,
+  StockLedgerEntry,
+  StockReferenceType
 } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { nextDailyNumber } from '../utils/numbering.js';
 import { EventService } from './event.service.js';
 
 export interface StockMovement {
-  productId?: string;
-  variantId?: string;
-  uomId?: string;
-  lotId?: string;
+  productId: string;
   quantity: number;
   costPrice?: number;
   referenceType: StockReferenceType;
@@ -22,16 +20,32 @@ export interface StockMovement {
   notes?: string;
 }
 
+export interface ReceiveStockInput {
+  storeId: string;
+  supplierId?: string;
+  reference?: string;
+  notes?: string;
+  items: Array<{ productId: string; quantity: number; costPrice?: number }>;
+}
+
+export interface AdjustStockInput {
+  storeId: string;
+  reason?: string;
+  notes?: string;
+  items: Array<{ productId: string; quantity: number }>;
+}
+
 /**
  * Inventory Service
- * 
+ *
  * Handles all stock movements through the ledger.
  * The stock_ledger is the source of truth - stock_on_hand is derived from it.
  */
 export class InventoryService {
   /**
    * Record a stock movement in the ledger
-   * This is the ONLY way stock should change
+   * This is the ONLY way stock should change. The stock_on_hand row is
+   * locked for the rest of the caller's transaction.
    */
   static async recordMovement(
     ctx: TenantContext,
@@ -39,39 +53,36 @@ export class InventoryService {
     movement: StockMovement,
     client?: PoolClient
   ): Promise<StockLedgerEntry> {
-    const executeQuery = client ? client.query.bind(client) : query;
-    
-    // Get current stock level
-    const currentStock = await this.getStockLevel(
-      ctx.tenantId,
-      storeId,
-      movement.productId,
-      movement.variantId,
-      movement.uomId,
-      movement.lotId,
-      client
-    );
+    if (!client) {
+      return withTransaction(tx => this.recordMovement(ctx, storeId, movement, tx));
+    }
 
-    const quantityBefore = currentStock?.quantity || 0;
+    const stockResult = await client.query(
+      'SELECT quantity FROM stock_on_hand WHERE store_id = $1 AND product_id = $2 FOR UPDATE',
+      [storeId, movement.productId]
+    );
+    const quantityBefore = parseFloat(stockResult.rows[0]?.quantity) || 0;
     const quantityAfter = quantityBefore + movement.quantity;
-    const id = uuidv4();
 
-    // Insert ledger entry
-    const ledgerResult = await executeQuery(
+    await client.query(
+      `INSERT INTO stock_on_hand (tenant_id, store_id, product_id, quantity)
+       VALUES ($1, $2, $3, $4::numeric)
+       ON CONFLICT (product_id, store_id)
+       DO UPDATE SET quantity = stock_on_hand.quantity + $4::numeric, updated_at = NOW()`,
+      [ctx.tenantId, storeId, movement.productId, movement.quantity]
+    );
+
+    const ledgerResult = await client.query<StockLedgerEntry>(
       `INSERT INTO stock_ledger (
-        id, tenant_id, store_id, product_id, variant_id, uom_id, lot_id,
-        quantity_delta, quantity_before, quantity_after, cost_price,
-        reference_type, reference_id, reference_line_id, notes, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        id, tenant_id, store_id, product_id, quantity_delta, quantity_before, quantity_after,
+        cost_price, reference_type, reference_id, reference_line_id, notes, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *`,
       [
-        id,
+        uuidv4(),
         ctx.tenantId,
         storeId,
         movement.productId,
-        movement.variantId,
-        movement.uomId,
-        movement.lotId,
         movement.quantity,
         quantityBefore,
         quantityAfter,
@@ -79,371 +90,274 @@ export class InventoryService {
         movement.referenceType,
         movement.referenceId,
         movement.referenceLineId,
-        movement.notes,
+        movement.notes || '',
         ctx.userId
       ]
     );
 
-    // Update stock_on_hand (upsert)
-    await this.updateStockOnHand(
-      ctx.tenantId,
-      storeId,
-      movement,
-      quantityAfter,
-      client
-    );
-
     // Queue event for BigQuery sync
     await EventService.queueEvent(ctx.tenantId, {
-      eventType: 'stock_movement',
+      eventType: EventService.EVENT_TYPES.STOCK_MOVEMENT,
       entityType: 'stock_ledger',
-      entityId: id,
+      entityId: ledgerResult.rows[0].id,
       payload: {
         storeId,
         productId: movement.productId,
-        variantId: movement.variantId,
         quantityDelta: movement.quantity,
         quantityAfter,
         referenceType: movement.referenceType,
         referenceId: movement.referenceId
       }
-    });
+    }, client);
 
     return ledgerResult.rows[0];
   }
 
   /**
-   * Record multiple movements in a single transaction
+   * Current quantity of a product in a store
    */
-  static async recordMovements(
-    ctx: TenantContext,
-    storeId: string,
-    movements: StockMovement[]
-  ): Promise<StockLedgerEntry[]> {
-    return withTransaction(async (client) => {
-      const entries: StockLedgerEntry[] = [];
-      for (const movement of movements) {
-        const entry = await this.recordMovement(ctx, storeId, movement, client);
-        entries.push(entry);
-      }
-      return entries;
-    });
-  }
-
-  /**
-   * Get current stock level for a product/variant
-   */
-  static async getStockLevel(
+  static async getQuantity(
     tenantId: string,
     storeId: string,
-    productId?: string,
-    variantId?: string,
-    uomId?: string,
-    lotId?: string,
+    productId: string,
     client?: PoolClient
-  ): Promise<StockOnHand | null> {
+  ): Promise<number> {
     const executeQuery = client ? client.query.bind(client) : query;
-    
-    const result = await executeQuery<StockOnHand>(
-      `SELECT * FROM stock_on_hand 
-       WHERE tenant_id = $1 AND store_id = $2 
-       AND COALESCE(product_id::text, '') = COALESCE($3::text, '')
-       AND COALESCE(variant_id::text, '') = COALESCE($4::text, '')
-       AND COALESCE(uom_id::text, '') = COALESCE($5::text, '')
-       AND COALESCE(lot_id::text, '') = COALESCE($6::text, '')`,
-      [tenantId, storeId, productId, variantId, uomId, lotId]
+    const result = await executeQuery(
+      `SELECT quantity FROM stock_on_hand
+       WHERE tenant_id = $1 AND store_id = $2 AND product_id = $3`,
+      [tenantId, storeId, productId]
     );
-
-    return result.rows[0] || null;
+    return parseFloat(result.rows[0]?.quantity) || 0;
   }
 
   /**
-   * Update stock_on_hand after a ledger entry
+   * Get stock on hand (optionally for one store)
    */
-  private static async updateStockOnHand(
-    tenantId: string,
-    storeId: string,
-    movement: StockMovement,
-    newQuantity: number,
-    client?: PoolClient
-  ): Promise<void> {
-    const executeQuery = client ? client.query.bind(client) : query;
-    
-    // Calculate new average cost if receiving stock
-    let avgCostUpdate = '';
-    if (movement.quantity > 0 && movement.costPrice) {
-      avgCostUpdate = `, avg_cost = (
-        (COALESCE(quantity, 0) * COALESCE(avg_cost, 0) + $7 * $8) / 
-        NULLIF(COALESCE(quantity, 0) + $7, 0)
-      )`;
+  static async getStockOnHand(tenantId: string, storeId?: string) {
+    const params: unknown[] = [tenantId];
+    let sql = `SELECT soh.*, p.sku, p.name as product_name
+               FROM stock_on_hand soh
+               JOIN products p ON p.id = soh.product_id
+               WHERE soh.tenant_id = $1`;
+    if (storeId) {
+      params.push(storeId);
+      sql += ` AND soh.store_id = $${params.length}`;
     }
-
-    // Upsert stock_on_hand
-    await executeQuery(
-      `INSERT INTO stock_on_hand (
-        id, tenant_id, store_id, product_id, variant_id, uom_id, lot_id,
-        quantity, avg_cost, last_received_at, last_sold_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $9,
-        $7, COALESCE($8, 0),
-        ${movement.referenceType === 'GRN' ? 'NOW()' : 'NULL'},
-        ${movement.referenceType === 'SALE' ? 'NOW()' : 'NULL'}
-      )
-      ON CONFLICT (tenant_id, store_id, product_id, variant_id, uom_id, lot_id) 
-      DO UPDATE SET 
-        quantity = $7
-        ${avgCostUpdate}
-        ${movement.referenceType === 'GRN' ? ', last_received_at = NOW()' : ''}
-        ${movement.referenceType === 'SALE' ? ', last_sold_at = NOW()' : ''}
-        , updated_at = NOW()`,
-      [
-        uuidv4(),
-        tenantId,
-        storeId,
-        movement.productId,
-        movement.variantId,
-        movement.uomId,
-        newQuantity,
-        movement.costPrice,
-        movement.lotId
-      ]
-    );
+    const result = await query(sql, params);
+    return result.rows;
   }
 
   /**
-   * Get stock on hand for a store
+   * Get products below their reorder point (or the given threshold)
    */
-  static async getStockOnHand(
-    tenantId: string,
-    storeId: string,
-    options: {
-      categoryId?: string;
-      brandId?: string;
-      lowStockOnly?: boolean;
-      outOfStockOnly?: boolean;
-      search?: string;
-      limit?: number;
-      offset?: number;
-    } = {}
-  ): Promise<{ items: StockOnHand[]; total: number }> {
-    const conditions: string[] = ['soh.tenant_id = $1', 'soh.store_id = $2'];
-    const params: unknown[] = [tenantId, storeId];
-    let paramIndex = 3;
-
-    if (options.lowStockOnly) {
-      conditions.push('soh.quantity <= p.reorder_point AND soh.quantity > 0');
-    }
-
-    if (options.outOfStockOnly) {
-      conditions.push('soh.quantity <= 0');
-    }
-
-    if (options.categoryId) {
-      conditions.push(`p.category_id = $${paramIndex++}`);
-      params.push(options.categoryId);
-    }
-
-    if (options.brandId) {
-      conditions.push(`p.brand_id = $${paramIndex++}`);
-      params.push(options.brandId);
-    }
-
-    if (options.search) {
-      conditions.push(`(p.sku ILIKE $${paramIndex} OR p.name ILIKE $${paramIndex})`);
-      params.push(`%${options.search}%`);
-      paramIndex++;
+  static async getLowStockItems(tenantId: string, options: { storeId?: string; threshold: number }) {
+    const params: unknown[] = [tenantId, options.threshold];
+    if (options.storeId) {
+      params.push(options.storeId);
     }
-
-    const whereClause = conditions.join(' AND ');
-    const limit = options.limit || 50;
-    const offset = options.offset || 0;
-
-    const countResult = await query<{ count: string }>(
-      `SELECT COUNT(*) as count FROM stock_on_hand soh
-       LEFT JOIN products p ON soh.product_id = p.id
-       WHERE ${whereClause}`,
+    const result = await query(
+      `SELECT p.id, p.sku, p.name, p.reorder_point,
+              COALESCE(soh.quantity, 0) as current_stock,
+              GREATEST(p.reorder_point, $2) as alert_threshold
+       FROM products p
+       LEFT JOIN stock_on_hand soh ON soh.product_id = p.id ${options.storeId ? 'AND soh.store_id = $3' : ''}
+       WHERE p.tenant_id = $1 AND p.is_active = true
+         AND COALESCE(soh.quantity, 0) < GREATEST(p.reorder_point, $2)
+       ORDER BY COALESCE(soh.quantity, 0) ASC
+       LIMIT 50`,
       params
     );
 
-    const itemsResult = await query<StockOnHand>(
-      `SELECT soh.*, p.sku, p.name as product_name, p.reorder_point, p.reorder_qty,
-              c.name as category_name, b.name as brand_name
-       FROM stock_on_hand soh
-       LEFT JOIN products p ON soh.product_id = p.id
-       LEFT JOIN categories c ON p.category_id = c.id
-       LEFT JOIN brands b ON p.brand_id = b.id
-       WHERE ${whereClause}
-       ORDER BY p.name
-       LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
-      [...params, limit, offset]
-    );
-
     return {
-      items: itemsResult.rows,
-      total: parseInt(countResult.rows[0].count)
+      alerts: result.rows,
+      count: result.rows.length,
+      threshold: options.threshold
     };
   }
 
   /**
-   * Get stock ledger history
+   * Receive stock into a store
+   * Receipts from a known supplier are recorded as a GRN without a purchase order
    */
-  static async getLedgerHistory(
-    tenantId: string,
-    options: {
-      storeId?: string;
-      productId?: string;
-      variantId?: string;
-      referenceType?: StockReferenceType;
-      startDate?: Date;
-      endDate?: Date;
-      limit?: number;
-      offset?: number;
-    } = {}
-  ): Promise<{ entries: StockLedgerEntry[]; total: number }> {
-    const conditions: string[] = ['sl.tenant_id = $1'];
-    const params: unknown[] = [tenantId];
-    let paramIndex = 2;
-
-    if (options.storeId) {
-      conditions.push(`sl.store_id = $${paramIndex++}`);
-      params.push(options.storeId);
-    }
-
-    if (options.productId) {
-      conditions.push(`sl.product_id = $${paramIndex++}`);
-      params.push(options.productId);
-    }
-
-    if (options.variantId) {
-      conditions.push(`sl.variant_id = $${paramIndex++}`);
-      params.push(options.variantId);
-    }
+  static async receiveStock(ctx: TenantContext, input: ReceiveStockInput) {
+    return withTransaction(async (client) => {
+      let grn = null;
+      if (input.supplierId) {
+        const grnNumber = await nextDailyNumber(client, 'grns', 'GRN', ctx.tenantId);
+        const totalAmount = input.items.reduce((sum, item) => sum + item.quantity * (item.costPrice || 0), 0);
+
+        const grnResult = await client.query(
+          `INSERT INTO grns (
+            tenant_id, store_id, supplier_id, grn_number, reference_number, status,
+            subtotal, total_amount, notes, received_at, created_by, received_by
+          ) VALUES ($1, $2, $3, $4, $5, 'received', $6, $6, $7, NOW(), $8, $8)
+          RETURNING *`,
+          [ctx.tenantId, input.storeId, input.supplierId, grnNumber, input.reference || null,
+           totalAmount, input.notes || null, ctx.userId]
+        );
+        grn = grnResult.rows[0];
+      }
 
-    if (options.referenceType) {
-      conditions.push(`sl.reference_type = $${paramIndex++}`);
-      params.push(options.referenceType);
-    }
+      // Ad-hoc receipts without a GRN still share one reference in the ledger
+      const referenceId = grn?.id || uuidv4();
+
+      for (const [index, item] of input.items.entries()) {
+        await this.recordMovement(ctx, input.storeId, {
+          productId: item.productId,
+          quantity: item.quantity,
+          costPrice: item.costPrice,
+          referenceType: 'receive',
+          referenceId,
+          notes: input.notes || input.reference
+        }, client);
+
+        if (grn) {
+          await client.query(
+            `INSERT INTO grn_lines (tenant_id, grn_id, line_number, product_id, received_qty, unit_cost, line_total)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [ctx.tenantId, grn.id, index + 1, item.productId, item.quantity,
+             item.costPrice || 0, item.quantity * (item.costPrice || 0)]
+          );
+        }
+
+        // Latest cost becomes the product's cost price
+        if (item.costPrice) {
+          await client.query(
+            `UPDATE products SET cost_price = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3`,
+            [item.costPrice, item.productId, ctx.tenantId]
+          );
+        }
+      }
 
-    if (options.startDate) {
-      conditions.push(`sl.occurred_at >= $${paramIndex++}`);
-      params.push(options.startDate);
-    }
+      return { message: 'Stock received successfully', itemCount: input.items.length, grn };
+    });
+  }
 
-    if (options.endDate) {
-      conditions.push(`sl.occurred_at <= $${paramIndex++}`);
-      params.push(options.endDate);
+  /**
+   * Ledger rows of one reference type, newest first
+   */
+  private static async getMovementsByType(
+    tenantId: string,
+    referenceType: StockReferenceType,
+    storeId?: string
+  ) {
+    const params: unknown[] = [tenantId, referenceType];
+    let sql = `SELECT sl.*, p.name as product_name, p.sku, s.name as store_name
+               FROM stock_ledger sl
+               JOIN products p ON p.id = sl.product_id
+               LEFT JOIN stores s ON s.id = sl.store_id
+               WHERE sl.tenant_id = $1 AND sl.reference_type = $2`;
+    if (storeId) {
+      params.push(storeId);
+      sql += ` AND sl.store_id = $${params.length}`;
     }
+    sql += ` ORDER BY sl.created_at DESC`;
 
-    const whereClause = conditions.join(' AND ');
-    const limit = options.limit || 50;
-    const offset = options.offset || 0;
-
-    const countResult = await query<{ count: string }>(
-      `SELECT COUNT(*) as count FROM stock_ledger sl WHERE ${whereClause}`,
-      params
-    );
+    const result = await query(sql, params);
+    return result.rows;
+  }
 
-    const entriesResult = await query<StockLedgerEntry>(
-      `SELECT sl.*, p.sku, p.name as product_name, s.name as store_name
-       FROM stock_ledger sl
-       LEFT JOIN products p ON sl.product_id = p.id
-       LEFT JOIN stores s ON sl.store_id = s.id
-       WHERE ${whereClause}
-       ORDER BY sl.occurred_at DESC
-       LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
-      [...params, limit, offset]
-    );
+  /**
+   * Receiving history
+   */
+  static async getPurchases(tenantId: string, storeId?: string) {
+    return this.getMovementsByType(tenantId, 'receive', storeId);
+  }
 
-    return {
-      entries: entriesResult.rows,
-      total: parseInt(countResult.rows[0].count)
-    };
+  /**
+   * Adjustment history
+   */
+  static async getAdjustments(tenantId: string, storeId?: string) {
+    return this.getMovementsByType(tenantId, 'adjustment', storeId);
   }
 
   /**
-   * Check if stock is available for a sale
+   * Post a stock adjustment (positive quantities add stock, negative remove it)
    */
-  static async checkAvailability(
-    tenantId: string,
-    storeId: string,
-    items: Array<{
-      productId?: string;
-      variantId?: string;
-      uomId?: string;
-      quantity: number;
-    }>
-  ): Promise<Array<{ available: boolean; currentStock: number; requested: number }>> {
-    const results = [];
-
-    for (const item of items) {
-      const stock = await this.getStockLevel(
-        tenantId,
-        storeId,
-        item.productId,
-        item.variantId,
-        item.uomId
-      );
-
-      const currentStock = stock?.availableQuantity || 0;
-      results.push({
-        available: currentStock >= item.quantity,
-        currentStock,
-        requested: item.quantity
-      });
+  static async adjustStock(ctx: TenantContext, input: AdjustStockInput) {
+    if (input.items.some(item => item.quantity === 0)) {
+      throw AppError.badRequest('Adjustment quantities cannot be zero');
     }
 
-    return results;
+    return withTransaction(async (client) => {
+      const referenceId = uuidv4();
+      for (const item of input.items) {
+        await this.recordMovement(ctx, input.storeId, {
+          productId: item.productId,
+          quantity: item.quantity,
+          referenceType: 'adjustment',
+          referenceId,
+          notes: input.reason || input.notes
+        }, client);
+      }
+
+      return { message: 'Stock adjusted successfully', itemCount: input.items.length };
+    });
   }
 
   /**
-   * Get low stock items
+   * List goods received notes
    */
-  static async getLowStockItems(
+  static async getGrns(
     tenantId: string,
-    storeId?: string
-  ): Promise<StockOnHand[]> {
-    const storeCondition = storeId ? 'AND soh.store_id = $2' : '';
-    const params = storeId ? [tenantId, storeId] : [tenantId];
-
-    const result = await query<StockOnHand>(
-      `SELECT soh.*, p.sku, p.name as product_name, p.reorder_point, p.reorder_qty,
-              s.name as store_name
-       FROM stock_on_hand soh
-       JOIN products p ON soh.product_id = p.id
-       JOIN stores s ON soh.store_id = s.id
-       WHERE soh.tenant_id = $1 ${storeCondition}
-       AND soh.quantity <= p.reorder_point
-       AND soh.quantity > 0
-       AND p.track_inventory = true
-       ORDER BY (soh.quantity / NULLIF(p.reorder_point, 0)) ASC`,
-      params
-    );
+    options: { storeId?: string; search?: string; status?: string } = {}
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT g.*, s.name as store_name,
+             sup.name as supplier_name, sup.code as supplier_code,
+             u.first_name || ' ' || COALESCE(u.last_name, '') as received_by_name
+      FROM grns g
+      LEFT JOIN stores s ON s.id = g.store_id
+      LEFT JOIN suppliers sup ON sup.id = g.supplier_id
+      LEFT JOIN users u ON u.id = g.received_by
+      WHERE g.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND g.store_id = $${params.length}`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      sql += ` AND (g.grn_number ILIKE $${params.length} OR sup.name ILIKE $${params.length} OR g.reference_number ILIKE $${params.length})`;
+    }
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND g.status = $${params.length}`;
+    }
+    sql += ` ORDER BY g.created_at DESC LIMIT 100`;
 
+    const result = await query(sql, params);
     return result.rows;
   }
 
   /**
-   * Get out of stock items
+   * Get stock ledger history
    */
-  static async getOutOfStockItems(
+  static async getLedgerHistory(
     tenantId: string,
-    storeId?: string
-  ): Promise<StockOnHand[]> {
-    const storeCondition = storeId ? 'AND soh.store_id = $2' : '';
-    const params = storeId ? [tenantId, storeId] : [tenantId];
-
-    const result = await query<StockOnHand>(
-      `SELECT soh.*, p.sku, p.name as product_name, s.name as store_name
-       FROM stock_on_hand soh
-       JOIN products p ON soh.product_id = p.id
-       JOIN stores s ON soh.store_id = s.id
-       WHERE soh.tenant_id = $1 ${storeCondition}
-       AND soh.quantity <= 0
-       AND p.track_inventory = true
-       ORDER BY p.name`,
-      params
-    );
+    options: { storeId?: string; productId?: string; limit?: number } = {}
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `SELECT sl.*, p.name as product_name, p.sku
+               FROM stock_ledger sl
+               JOIN products p ON p.id = sl.product_id
+               WHERE sl.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND sl.store_id = $${params.length}`;
+    }
+    if (options.productId) {
+      params.push(options.productId);
+      sql += ` AND sl.product_id = $${params.length}`;
+    }
+
+    params.push(options.limit || 50);
+    sql += ` ORDER BY sl.created_at DESC LIMIT $${params.length}`;
 
+    const result = await query(sql, params);
     return result.rows;
   }
 }
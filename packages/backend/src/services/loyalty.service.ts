@@ -0,0 +1,686 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext, Payment } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { AuditService } from './audit.service.js';
+import { EventService } from './event.service.js';
+
+export interface LoyaltyProgram {
+  enabled: boolean;
+  // Points per currency unit spent, unless the product's category has its own rate
+  earnRate: number;
+  // Currency value of one point when it pays for a sale
+  pointValue: number;
+  minRedeemPoints: number;
+  // Days an earned lot stays spendable; 0 keeps points forever
+  expiryDays: number;
+}
+
+export interface LoyaltyTierInput {
+  code: string;
+  name: string;
+  minLifetimePoints: number;
+  earnMultiplier?: number;
+  isActive?: boolean;
+}
+
+export interface LoyaltySaleInput {
+  customerId?: string;
+  receiptId: string;
+  receiptNumber: string;
+  lines: Array<{ productId: string; lineTotal: number }>;
+  totalAmount: number;
+  payments: Payment[];
+}
+
+export interface LoyaltyRefundInput {
+  customerId?: string;
+  refundId: string;
+  receiptNumber: string;
+  // Share of the original sale being refunded
+  ratio: number;
+  pointsEarned: number;
+  pointsRedeemed: number;
+  redeemedAmount: number;
+}
+
+type LoyaltyTransactionType = 'earn' | 'redeem' | 'adjust' | 'expire';
+
+interface WalletRow {
+  id: string;
+  points_balance: string;
+  lifetime_points: string;
+  tier: string;
+}
+
+const DEFAULT_PROGRAM: LoyaltyProgram = {
+  enabled: true,
+  earnRate: 0.01,
+  pointValue: 1,
+  minRedeemPoints: 0,
+  expiryDays: 0
+};
+
+// Highest active tier the wallet's lifetime points reach
+const TIER_FOR_WALLET = `COALESCE((
+  SELECT t.code FROM loyalty_tiers t
+  WHERE t.tenant_id = w.tenant_id AND t.is_active = true AND t.min_lifetime_points <= w.lifetime_points
+  ORDER BY t.min_lifetime_points DESC LIMIT 1
+), 'standard')`;
+
+/**
+ * Loyalty Service
+ *
+ * Earn and redeem points on sales, tiers by lifetime points, and expiry.
+ * Every earn (and positive adjustment) is a lot with its own expiry date;
+ * spending uses the lots closest to expiring first.
+ */
+export class LoyaltyService {
+  /**
+   * Programme settings (kept under settings.loyalty on the tenant) with defaults applied
+   */
+  static async getProgram(tenantId: string, client?: PoolClient): Promise<LoyaltyProgram> {
+    const run = (text: string, params: unknown[]) => client ? client.query(text, params) : query(text, params);
+    const result = await run(`SELECT settings->'loyalty' as loyalty FROM tenants WHERE id = $1`, [tenantId]);
+    return { ...DEFAULT_PROGRAM, ...(result.rows[0]?.loyalty || {}) };
+  }
+
+  /**
+   * Update programme settings; only the keys that were sent are changed
+   */
+  static async updateProgram(ctx: TenantContext, input: Partial<LoyaltyProgram>): Promise<LoyaltyProgram> {
+    const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    await query(
+      `UPDATE tenants SET
+        settings = COALESCE(settings, '{}'::jsonb)
+          || jsonb_build_object('loyalty', COALESCE(settings->'loyalty', '{}'::jsonb) || $1::jsonb),
+        updated_at = NOW()
+       WHERE id = $2`,
+      [JSON.stringify(changes), ctx.tenantId]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.UPDATE,
+      entityType: 'loyalty_program',
+      entityId: ctx.tenantId,
+      afterData: changes
+    });
+
+    return this.getProgram(ctx.tenantId);
+  }
+
+  static async listTiers(tenantId: string) {
+    const result = await query(
+      `SELECT t.*,
+              (SELECT COUNT(*) FROM loyalty_wallets w WHERE w.tenant_id = t.tenant_id AND w.tier = t.code) as member_count
+       FROM loyalty_tiers t
+       WHERE t.tenant_id = $1
+       ORDER BY t.min_lifetime_points`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  static async listEarnRules(tenantId: string) {
+    const result = await query(
+      `SELECT r.*, c.name as category_name
+       FROM loyalty_earn_rules r
+       JOIN categories c ON c.id = r.category_id
+       WHERE r.tenant_id = $1
+       ORDER BY c.name`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Create or update a tier; every wallet is re-tiered against the new thresholds
+   */
+  static async saveTier(ctx: TenantContext, input: LoyaltyTierInput, tierId?: string) {
+    try {
+      const tier = await withTransaction(async (client) => {
+        const result = tierId
+          ? await client.query(
+            `UPDATE loyalty_tiers SET
+              code = $1, name = $2, min_lifetime_points = $3, earn_multiplier = $4, is_active = $5, updated_at = NOW()
+             WHERE id = $6 AND tenant_id = $7
+             RETURNING *`,
+            [
+              input.code.trim().toUpperCase(), input.name, input.minLifetimePoints, input.earnMultiplier ?? 1,
+              input.isActive ?? true, tierId, ctx.tenantId
+            ]
+          )
+          : await client.query(
+            `INSERT INTO loyalty_tiers (tenant_id, code, name, min_lifetime_points, earn_multiplier, is_active)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [
+              ctx.tenantId, input.code.trim().toUpperCase(), input.name, input.minLifetimePoints,
+              input.earnMultiplier ?? 1, input.isActive ?? true
+            ]
+          );
+        if (result.rows.length === 0) {
+          throw AppError.notFound('Tier not found');
+        }
+        await this.refreshTiers(client, ctx.tenantId);
+        return result.rows[0];
+      });
+
+      await AuditService.log(ctx, {
+        action: tierId ? AuditService.ACTIONS.UPDATE : AuditService.ACTIONS.CREATE,
+        entityType: 'loyalty_tier',
+        entityId: tier.id,
+        afterData: tier
+      });
+
+      return tier;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A tier with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  static async deleteTier(ctx: TenantContext, tierId: string): Promise<void> {
+    await withTransaction(async (client) => {
+      const result = await client.query(
+        `DELETE FROM loyalty_tiers WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+        [tierId, ctx.tenantId]
+      );
+      if (result.rows.length === 0) {
+        throw AppError.notFound('Tier not found');
+      }
+      await this.refreshTiers(client, ctx.tenantId);
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DELETE,
+      entityType: 'loyalty_tier',
+      entityId: tierId
+    });
+  }
+
+  /**
+   * Set a category's own earn rate
+   */
+  static async setEarnRule(ctx: TenantContext, categoryId: string, earnRate: number) {
+    const category = await query(
+      `SELECT 1 FROM categories WHERE id = $1 AND tenant_id = $2`,
+      [categoryId, ctx.tenantId]
+    );
+    if (category.rows.length === 0) {
+      throw AppError.badRequest('Category not found');
+    }
+
+    const result = await query(
+      `INSERT INTO loyalty_earn_rules (tenant_id, category_id, earn_rate)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (tenant_id, category_id) DO UPDATE SET earn_rate = EXCLUDED.earn_rate, updated_at = NOW()
+       RETURNING *`,
+      [ctx.tenantId, categoryId, earnRate]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.UPDATE,
+      entityType: 'loyalty_earn_rule',
+      entityId: result.rows[0].id,
+      afterData: { categoryId, earnRate }
+    });
+
+    return result.rows[0];
+  }
+
+  static async removeEarnRule(ctx: TenantContext, ruleId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM loyalty_earn_rules WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [ruleId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Earn rule not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DELETE,
+      entityType: 'loyalty_earn_rule',
+      entityId: ruleId
+    });
+  }
+
+  /**
+   * A customer's wallet: balance, tier progress and recent transactions
+   */
+  static async getWallet(tenantId: string, customerId: string) {
+    const customer = await query(
+      `SELECT id FROM customers WHERE id = $1 AND tenant_id = $2`,
+      [customerId, tenantId]
+    );
+    if (customer.rows.length === 0) {
+      throw AppError.notFound('Customer not found');
+    }
+
+    const [program, walletResult, tierResult] = await Promise.all([
+      this.getProgram(tenantId),
+      query<WalletRow>(
+        `SELECT * FROM loyalty_wallets WHERE tenant_id = $1 AND customer_id = $2`,
+        [tenantId, customerId]
+      ),
+      query(
+        `SELECT code, name, min_lifetime_points, earn_multiplier FROM loyalty_tiers
+         WHERE tenant_id = $1 AND is_active = true
+         ORDER BY min_lifetime_points`,
+        [tenantId]
+      )
+    ]);
+
+    const wallet = walletResult.rows[0];
+    const balance = wallet ? parseFloat(wallet.points_balance) : 0;
+    const lifetimePoints = wallet ? parseFloat(wallet.lifetime_points) : 0;
+    const tiers = tierResult.rows;
+    const tier = tiers.find(t => t.code === wallet?.tier);
+    const nextTier = tiers.find(t => parseFloat(t.min_lifetime_points) > lifetimePoints);
+
+    let transactions: unknown[] = [];
+    let expiringSoon = 0;
+    if (wallet) {
+      const [history, expiring] = await Promise.all([
+        query(
+          `SELECT lt.id, lt.type, lt.points, lt.balance_after, lt.reference_type, lt.reference_id,
+                  lt.notes, lt.expires_at, lt.remaining_points, lt.created_at,
+                  sr.receipt_number,
+                  u.first_name || ' ' || u.last_name as created_by_name
+           FROM loyalty_transactions lt
+           LEFT JOIN sales_receipts sr ON lt.reference_type = 'sales_receipt' AND sr.id = lt.reference_id
+           LEFT JOIN users u ON u.id = lt.created_by
+           WHERE lt.wallet_id = $1
+           ORDER BY lt.created_at DESC
+           LIMIT 100`,
+          [wallet.id]
+        ),
+        query(
+          `SELECT COALESCE(SUM(remaining_points), 0) as points FROM loyalty_transactions
+           WHERE wallet_id = $1 AND remaining_points > 0 AND expires_at < NOW() + INTERVAL '30 days'`,
+          [wallet.id]
+        )
+      ]);
+      transactions = history.rows;
+      expiringSoon = parseFloat(expiring.rows[0].points);
+    }
+
+    return {
+      customerId,
+      enabled: program.enabled,
+      balance,
+      balanceValue: roundMoney(balance * program.pointValue),
+      pointValue: program.pointValue,
+      minRedeemPoints: program.minRedeemPoints,
+      lifetimePoints,
+      tier: tier
+        ? { code: tier.code, name: tier.name, earnMultiplier: parseFloat(tier.earn_multiplier) }
+        : { code: 'standard', name: 'Standard', earnMultiplier: 1 },
+      nextTier: nextTier
+        ? { code: nextTier.code, name: nextTier.name, pointsNeeded: parseFloat(nextTier.min_lifetime_points) - lifetimePoints }
+        : null,
+      expiringSoon,
+      transactions
+    };
+  }
+
+  /**
+   * Manual adjustment; added points are a new lot, removed points come off the oldest lots
+   */
+  static async adjustPoints(ctx: TenantContext, customerId: string, points: number, notes: string) {
+    const program = await this.getProgram(ctx.tenantId);
+    const balanceAfter = await withTransaction(async (client) => {
+      const wallet = await this.lockWallet(client, ctx.tenantId, customerId);
+      if (points < 0 && parseFloat(wallet.points_balance) + points < 0) {
+        throw AppError.badRequest(`Only ${parseFloat(wallet.points_balance)} points available`);
+      }
+      return this.post(client, ctx.tenantId, ctx.userId, wallet.id, {
+        type: 'adjust',
+        points,
+        notes,
+        expiryDays: program.expiryDays
+      });
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.UPDATE,
+      entityType: 'loyalty_wallet',
+      entityId: customerId,
+      afterData: { points, balanceAfter, notes }
+    });
+
+    return { balance: balanceAfter };
+  }
+
+  /**
+   * Redeem the sale's loyalty payments and earn points on the rest
+   * Runs in the sale transaction. Points are earned on what was not paid
+   * with points, at each line's category rate times the customer's tier.
+   */
+  static async applySale(
+    client: PoolClient,
+    ctx: TenantContext,
+    input: LoyaltySaleInput
+  ): Promise<{ pointsEarned: number; pointsRedeemed: number }> {
+    const loyaltyPaid = input.payments
+      .filter(p => p.method === 'loyalty')
+      .reduce((sum, p) => sum + p.amount, 0);
+
+    if (!input.customerId) {
+      if (loyaltyPaid > 0) {
+        throw AppError.badRequest('Select the customer whose points pay for the sale');
+      }
+      return { pointsEarned: 0, pointsRedeemed: 0 };
+    }
+
+    const program = await this.getProgram(ctx.tenantId, client);
+    if (!program.enabled) {
+      if (loyaltyPaid > 0) {
+        throw AppError.badRequest('The loyalty programme is switched off');
+      }
+      return { pointsEarned: 0, pointsRedeemed: 0 };
+    }
+
+    const wallet = await this.lockWallet(client, ctx.tenantId, input.customerId);
+    const reference = { referenceType: 'sales_receipt', referenceId: input.receiptId, notes: input.receiptNumber };
+
+    let pointsRedeemed = 0;
+    if (loyaltyPaid > 0) {
+      pointsRedeemed = roundMoney(loyaltyPaid / program.pointValue);
+      const balance = parseFloat(wallet.points_balance);
+      if (pointsRedeemed < program.minRedeemPoints) {
+        throw AppError.badRequest(`At least ${program.minRedeemPoints} points must be redeemed at once`);
+      }
+      if (pointsRedeemed > balance) {
+        throw AppError.badRequest(`Only ${balance} points available`);
+      }
+      await this.post(client, ctx.tenantId, ctx.userId, wallet.id, { type: 'redeem', points: -pointsRedeemed, ...reference });
+    }
+
+    const lineTotal = input.lines.reduce((sum, line) => sum + line.lineTotal, 0);
+    const eligibleRatio = lineTotal > 0 ? Math.max(0, input.totalAmount - loyaltyPaid) / lineTotal : 0;
+    const pointsEarned = await this.calculateEarn(client, ctx.tenantId, program, wallet.tier, input.lines, eligibleRatio);
+    if (pointsEarned > 0) {
+      await this.post(client, ctx.tenantId, ctx.userId, wallet.id, {
+        type: 'earn',
+        points: pointsEarned,
+        expiryDays: program.expiryDays,
+        ...reference
+      });
+      await this.refreshTiers(client, ctx.tenantId, wallet.id);
+    }
+
+    if (pointsEarned > 0) {
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.LOYALTY_EARNED,
+        entityType: 'customer',
+        entityId: input.customerId,
+        payload: { receiptId: input.receiptId, points: pointsEarned }
+      }, client);
+    }
+    if (pointsRedeemed > 0) {
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.LOYALTY_REDEEMED,
+        entityType: 'customer',
+        entityId: input.customerId,
+        payload: { receiptId: input.receiptId, points: pointsRedeemed, amount: loyaltyPaid }
+      }, client);
+    }
+
+    return { pointsEarned, pointsRedeemed };
+  }
+
+  /**
+   * Refund the refunded share of a sale's points
+   * Points paid with come back as a new lot; points earned are taken back
+   * (as far as the balance allows) and no longer count towards the tier.
+   * Returns the returned points as a loyalty payment for the refund receipt.
+   */
+  static async reverseForRefund(client: PoolClient, ctx: TenantContext, input: LoyaltyRefundInput): Promise<Payment[]> {
+    const pointsBack = roundMoney(input.pointsRedeemed * input.ratio);
+    const pointsTaken = roundMoney(input.pointsEarned * input.ratio);
+    if (!input.customerId || (pointsBack <= 0 && pointsTaken <= 0)) return [];
+
+    const program = await this.getProgram(ctx.tenantId, client);
+    const wallet = await this.lockWallet(client, ctx.tenantId, input.customerId);
+    const reference = { referenceType: 'sales_receipt', referenceId: input.refundId, notes: input.receiptNumber };
+
+    let balance = parseFloat(wallet.points_balance);
+    if (pointsBack > 0) {
+      balance = await this.post(client, ctx.tenantId, ctx.userId, wallet.id, {
+        type: 'adjust',
+        points: pointsBack,
+        expiryDays: program.expiryDays,
+        ...reference
+      });
+    }
+    if (pointsTaken > 0) {
+      await this.post(client, ctx.tenantId, ctx.userId, wallet.id, {
+        type: 'earn',
+        points: -Math.min(pointsTaken, balance),
+        lifetimePoints: -pointsTaken,
+        ...reference
+      });
+      await this.refreshTiers(client, ctx.tenantId, wallet.id);
+    }
+
+    return pointsBack > 0
+      ? [{ method: 'loyalty', amount: roundMoney(input.redeemedAmount * input.ratio), reference: `${pointsBack} points` }]
+      : [];
+  }
+
+  /**
+   * Expire lots past their date, each in its own transaction
+   * Run on a timer from the server and on demand per tenant.
+   */
+  static async expirePoints(tenantId?: string): Promise<number> {
+    const lots = await query<{ id: string; tenant_id: string; wallet_id: string }>(
+      `SELECT id, tenant_id, wallet_id FROM loyalty_transactions
+       WHERE remaining_points > 0 AND expires_at <= NOW() ${tenantId ? 'AND tenant_id = $1' : ''}
+       ORDER BY expires_at
+       LIMIT 1000`,
+      tenantId ? [tenantId] : []
+    );
+
+    let expired = 0;
+    for (const lot of lots.rows) {
+      await withTransaction(async (client) => {
+        const wallet = await client.query<WalletRow>(
+          `SELECT * FROM loyalty_wallets WHERE id = $1 FOR UPDATE`,
+          [lot.wallet_id]
+        );
+        const current = await client.query<{ remaining_points: string }>(
+          `SELECT remaining_points FROM loyalty_transactions WHERE id = $1 AND remaining_points > 0 FOR UPDATE`,
+          [lot.id]
+        );
+        if (current.rows.length === 0 || wallet.rows.length === 0) return;
+
+        const points = Math.min(parseFloat(current.rows[0].remaining_points), parseFloat(wallet.rows[0].points_balance));
+        await client.query(`UPDATE loyalty_transactions SET remaining_points = 0 WHERE id = $1`, [lot.id]);
+        if (points > 0) {
+          await this.post(client, lot.tenant_id, null, lot.wallet_id, {
+            type: 'expire',
+            points: -points,
+            referenceType: 'loyalty_transaction',
+            referenceId: lot.id,
+            notes: 'Points expired'
+          });
+        }
+        expired++;
+      });
+    }
+    return expired;
+  }
+
+  private static async calculateEarn(
+    client: PoolClient,
+    tenantId: string,
+    program: LoyaltyProgram,
+    tierCode: string,
+    lines: LoyaltySaleInput['lines'],
+    eligibleRatio: number
+  ): Promise<number> {
+    if (eligibleRatio <= 0 || lines.length === 0) return 0;
+
+    const [rules, tier] = await Promise.all([
+      client.query<{ product_id: string; earn_rate: string }>(
+        `SELECT p.id as product_id, r.earn_rate
+         FROM products p
+         JOIN loyalty_earn_rules r ON r.category_id = p.category_id AND r.tenant_id = p.tenant_id
+         WHERE p.tenant_id = $1 AND p.id = ANY($2::uuid[])`,
+        [tenantId, [...new Set(lines.map(l => l.productId))]]
+      ),
+      client.query<{ earn_multiplier: string }>(
+        `SELECT earn_multiplier FROM loyalty_tiers WHERE tenant_id = $1 AND code = $2 AND is_active = true`,
+        [tenantId, tierCode]
+      )
+    ]);
+
+    const rates = new Map(rules.rows.map(r => [r.product_id, parseFloat(r.earn_rate)]));
+    const multiplier = tier.rows[0] ? parseFloat(tier.rows[0].earn_multiplier) : 1;
+    const base = lines.reduce((sum, line) => sum + line.lineTotal * (rates.get(line.productId) ?? program.earnRate), 0);
+    return Math.max(0, Math.floor(base * eligibleRatio * multiplier));
+  }
+
+  /**
+   * Move one customer's points into another's wallet when customers are merged
+   * Transactions (and their lots) move with the points, so expiry dates are kept.
+   */
+  static async mergeWallets(
+    client: PoolClient,
+    tenantId: string,
+    fromCustomerId: string,
+    toCustomerId: string
+  ): Promise<void> {
+    const source = await client.query<WalletRow>(
+      `SELECT * FROM loyalty_wallets WHERE tenant_id = $1 AND customer_id = $2 FOR UPDATE`,
+      [tenantId, fromCustomerId]
+    );
+    if (source.rows.length === 0) return;
+
+    const from = source.rows[0];
+    const to = await this.lockWallet(client, tenantId, toCustomerId);
+    await client.query(
+      `UPDATE loyalty_transactions SET wallet_id = $2 WHERE wallet_id = $1`,
+      [from.id, to.id]
+    );
+    await client.query(
+      `UPDATE loyalty_wallets SET
+        points_balance = points_balance + $2,
+        lifetime_points = lifetime_points + $3,
+        updated_at = NOW()
+       WHERE id = $1`,
+      [to.id, from.points_balance, from.lifetime_points]
+    );
+    await client.query(`DELETE FROM loyalty_wallets WHERE id = $1`, [from.id]);
+    await this.refreshTiers(client, tenantId, to.id);
+  }
+
+  /**
+   * Lock the customer's wallet, opening one on first use
+   */
+  private static async lockWallet(client: PoolClient, tenantId: string, customerId: string): Promise<WalletRow> {
+    await client.query(
+      `INSERT INTO loyalty_wallets (tenant_id, customer_id) VALUES ($1, $2)
+       ON CONFLICT (tenant_id, customer_id) DO NOTHING`,
+      [tenantId, customerId]
+    );
+    const result = await client.query<WalletRow>(
+      `SELECT * FROM loyalty_wallets WHERE tenant_id = $1 AND customer_id = $2 FOR UPDATE`,
+      [tenantId, customerId]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Write a transaction and move the wallet balance; returns the new balance
+   * Earned points also count towards lifetime points. Positive entries open a
+   * lot; negative ones (other than expiry, which closes its own lot) use up lots.
+   */
+  private static async post(
+    client: PoolClient,
+    tenantId: string,
+    userId: string | null,
+    walletId: string,
+    entry: {
+      type: LoyaltyTransactionType;
+      points: number;
+      lifetimePoints?: number;
+      expiryDays?: number;
+      referenceType?: string;
+      referenceId?: string;
+      notes?: string;
+    }
+  ): Promise<number> {
+    const lifetimePoints = entry.lifetimePoints ?? (entry.type === 'earn' ? entry.points : 0);
+    const wallet = await client.query<{ points_balance: string }>(
+      `UPDATE loyalty_wallets SET
+        points_balance = points_balance + $2,
+        lifetime_points = GREATEST(lifetime_points + $3, 0),
+        updated_at = NOW()
+       WHERE id = $1
+       RETURNING points_balance`,
+      [walletId, entry.points, lifetimePoints]
+    );
+    const balanceAfter = parseFloat(wallet.rows[0].points_balance);
+
+    const opensLot = entry.points > 0;
+    await client.query(
+      `INSERT INTO loyalty_transactions (
+        tenant_id, wallet_id, type, points, balance_after, reference_type, reference_id, notes,
+        remaining_points, expires_at, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9,
+                CASE WHEN $10::int > 0 THEN NOW() + make_interval(days => $10::int) END, $11)`,
+      [
+        tenantId, walletId, entry.type, entry.points, balanceAfter, entry.referenceType || null,
+        entry.referenceId || null, entry.notes || null, opensLot ? entry.points : null,
+        opensLot ? entry.expiryDays || 0 : 0, userId
+      ]
+    );
+
+    if (entry.points < 0 && entry.type !== 'expire') {
+      await this.consumeLots(client, walletId, -entry.points);
+    }
+    return balanceAfter;
+  }
+
+  /**
+   * Take points off the wallet's lots, soonest to expire first
+   */
+  private static async consumeLots(client: PoolClient, walletId: string, points: number): Promise<void> {
+    const lots = await client.query<{ id: string; remaining_points: string }>(
+      `SELECT id, remaining_points FROM loyalty_transactions
+       WHERE wallet_id = $1 AND remaining_points > 0
+       ORDER BY expires_at ASC NULLS LAST, created_at
+       FOR UPDATE`,
+      [walletId]
+    );
+
+    let left = points;
+    for (const lot of lots.rows) {
+      if (left <= 0) break;
+      const take = Math.min(left, parseFloat(lot.remaining_points));
+      await client.query(
+        `UPDATE loyalty_transactions SET remaining_points = remaining_points - $2 WHERE id = $1`,
+        [lot.id, take]
+      );
+      left = roundMoney(left - take);
+    }
+  }
+
+  /**
+   * Re-tier one wallet, or all of a tenant's wallets after tiers change
+   */
+  private static async refreshTiers(client: PoolClient, tenantId: string, walletId?: string): Promise<void> {
+    await client.query(
+      `UPDATE loyalty_wallets w SET tier = ${TIER_FOR_WALLET}, updated_at = NOW()
+       WHERE w.tenant_id = $1 ${walletId ? 'AND w.id = $2' : ''}`,
+      walletId ? [tenantId, walletId] : [tenantId]
+    );
+  }
+}
+
+export default LoyaltyService;
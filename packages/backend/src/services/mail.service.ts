@@ -0,0 +1,271 @@
+import { Socket, connect as connectPlain } from 'net';
+import { connect as connectTls } from 'tls';
+import { randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Delivers a message; replace the default with MailService.setTransport()
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<{ messageId: string }>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Plain SMTP client: implicit TLS when secure, STARTTLS when the server offers
+ * it, AUTH PLAIN when a user is set. A local mail catcher (Mailpit, MailHog)
+ * works with just a host and port.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(private readonly options: SmtpOptions) {}
+
+  send(message: MailMessage & { from: string }): Promise<{ messageId: string }> {
+    return new SmtpSession(this.options).deliver(message);
+  }
+}
+
+// One connection, one message
+class SmtpSession {
+  private socket: Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async deliver(message: MailMessage & { from: string }): Promise<{ messageId: string }> {
+    const messageId = `<${randomBytes(12).toString('hex')}@${domainOf(message.from)}>`;
+    try {
+      await this.connect();
+      await this.expect(220);
+      let features = await this.command(`EHLO ${domainOf(message.from)}`, 250);
+      if (!this.options.secure && /^STARTTLS$/mi.test(features.text)) {
+        await this.command('STARTTLS', 220);
+        await this.upgrade();
+        features = await this.command(`EHLO ${domainOf(message.from)}`, 250);
+      }
+      if (this.options.user) {
+        if (!/^AUTH\b.*\bPLAIN\b/mi.test(features.text)) {
+          throw new Error('SMTP server does not offer AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password || ''}`).toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await this.command(`MAIL FROM:<${addressOf(message.from)}>`, 250);
+      await this.command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251);
+      await this.command('DATA', 354);
+      await this.command(`${dotStuff(buildMime(message, messageId))}\r\n.`, 250);
+      await this.command('QUIT', 221).catch(() => undefined);
+      return { messageId };
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private connect(): Promise<void> {
+    const { host, port, secure, timeoutMs = 15000 } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host }, () => resolve())
+        : connectPlain({ host, port }, () => resolve());
+      socket.once('error', reject);
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+      this.attach(socket);
+    });
+  }
+
+  private upgrade(): Promise<void> {
+    const plain = this.socket!;
+    plain.removeAllListeners('data');
+    return new Promise((resolve, reject) => {
+      const socket = connectTls({ socket: plain, servername: this.options.host }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), text: this.lines.map(l => l.slice(4)).join('\n') };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  private command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+}
+
+/**
+ * Writes messages to the server log instead of sending them; the default
+ * when SMTP_HOST is not set
+ */
+export class LogTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<{ messageId: string }> {
+    const attachments = (message.attachments || []).map(a => a.filename).join(', ');
+    console.log(`Mail (not sent, SMTP_HOST is not set) to ${message.to}: ${message.subject}`
+      + (attachments ? ` [${attachments}]` : ''));
+    return { messageId: `<${randomBytes(12).toString('hex')}@localhost>` };
+  }
+}
+
+/**
+ * Mail Service
+ *
+ * Sends outgoing email through the configured transport: SMTP when SMTP_HOST
+ * is set, otherwise the server log.
+ */
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<{ messageId: string }> {
+    if (!this.transport) {
+      this.transport = config.smtpHost
+        ? new SmtpTransport({
+          host: config.smtpHost,
+          port: config.smtpPort,
+          secure: config.smtpSecure,
+          user: config.smtpUser,
+          password: config.smtpPassword
+        })
+        : new LogTransport();
+    }
+    return this.transport.send({ ...message, from: config.mailFrom });
+  }
+}
+
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function domainOf(mailbox: string): string {
+  return addressOf(mailbox).split('@')[1] || 'localhost';
+}
+
+// Non-ASCII header text as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(content: Buffer): string {
+  return content.toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function buildMime(message: MailMessage & { from: string }, messageId: string): string {
+  const boundary = `part-${randomBytes(12).toString('hex')}`;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`
+  ];
+  const parts = [
+    ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', base64Lines(Buffer.from(message.text))]
+  ];
+  for (const attachment of message.attachments || []) {
+    parts.push([
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      '',
+      base64Lines(attachment.content)
+    ]);
+  }
+  return [
+    ...headers,
+    '',
+    ...parts.map(part => [`--${boundary}`, ...part].join('\r\n')),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+// Lines starting with a dot are doubled so they do not end the DATA section
+function dotStuff(body: string): string {
+  return body.replace(/^\./gm, '..');
+}
+
+export default MailService;
@@ -0,0 +1,432 @@
+import { PoolClient } from 'pg';
+import { randomBytes, randomInt } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../database/pool.js';
+import { config } from '../config/index.js';
+import { TenantContext, Payment } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { AuditService } from './audit.service.js';
+
+export type TerminalOutcome = 'approved' | 'declined' | 'timeout';
+
+export type SimulatorScenario = 'amount' | 'approve' | 'decline' | 'timeout';
+
+export interface TerminalRequest {
+  amount: number;
+  currencyCode: string;
+  // Our card transaction id, so the terminal can report it back
+  reference: string;
+}
+
+export interface TerminalResponse {
+  outcome: TerminalOutcome;
+  // The terminal's own id for the transaction
+  reference?: string;
+  authCode?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  message?: string;
+}
+
+/**
+ * Talks to a card terminal; replace the default with PaymentTerminalService.setDriver()
+ */
+export interface PaymentTerminalDriver {
+  readonly name: string;
+  authorize(request: TerminalRequest): Promise<TerminalResponse>;
+  capture(reference: string, amount: number): Promise<TerminalResponse>;
+  void(reference: string): Promise<TerminalResponse>;
+  refund(reference: string, request: TerminalRequest): Promise<TerminalResponse>;
+}
+
+interface CardTransactionRow {
+  id: string;
+  store_id: string;
+  receipt_id: string | null;
+  status: string;
+  amount: string;
+  refunded_amount: string;
+  currency_code: string | null;
+  driver_reference: string | null;
+  auth_code: string | null;
+  card_brand: string | null;
+  card_last4: string | null;
+}
+
+const SIMULATOR_CARDS = [
+  { brand: 'VISA', last4: '4242' },
+  { brand: 'MASTERCARD', last4: '4444' },
+  { brand: 'MEEZA', last4: '5078' }
+];
+
+/**
+ * Stand-in terminal for development. With the 'amount' scenario, amounts
+ * ending in .51 are declined, .52 time out and everything else is approved;
+ * the other scenarios force one outcome for every authorisation and refund.
+ */
+export class SimulatorTerminal implements PaymentTerminalDriver {
+  readonly name = 'simulator';
+
+  constructor(private readonly options: { scenario: SimulatorScenario; delayMs: number }) {}
+
+  async authorize(request: TerminalRequest): Promise<TerminalResponse> {
+    await this.wait();
+    const outcome = this.outcomeFor(request.amount);
+    if (outcome !== 'approved') {
+      return { outcome, message: outcome === 'declined' ? 'Declined by simulator' : 'Simulated timeout' };
+    }
+    const card = SIMULATOR_CARDS[randomInt(SIMULATOR_CARDS.length)];
+    return {
+      outcome,
+      reference: `SIM-${randomBytes(6).toString('hex').toUpperCase()}`,
+      authCode: String(randomInt(1000000)).padStart(6, '0'),
+      cardBrand: card.brand,
+      cardLast4: card.last4
+    };
+  }
+
+  async capture(reference: string): Promise<TerminalResponse> {
+    await this.wait();
+    return { outcome: 'approved', reference };
+  }
+
+  async void(reference: string): Promise<TerminalResponse> {
+    await this.wait();
+    return { outcome: 'approved', reference };
+  }
+
+  async refund(_reference: string, request: TerminalRequest): Promise<TerminalResponse> {
+    await this.wait();
+    const outcome = this.outcomeFor(request.amount);
+    if (outcome !== 'approved') {
+      return { outcome, message: outcome === 'declined' ? 'Refund declined by simulator' : 'Simulated timeout' };
+    }
+    return {
+      outcome,
+      reference: `SIM-${randomBytes(6).toString('hex').toUpperCase()}`,
+      authCode: String(randomInt(1000000)).padStart(6, '0')
+    };
+  }
+
+  private outcomeFor(amount: number): TerminalOutcome {
+    switch (this.options.scenario) {
+      case 'approve': return 'approved';
+      case 'decline': return 'declined';
+      case 'timeout': return 'timeout';
+    }
+    const cents = Math.round(amount * 100) % 100;
+    return cents === 51 ? 'declined' : cents === 52 ? 'timeout' : 'approved';
+  }
+
+  private wait(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.options.delayMs));
+  }
+}
+
+/**
+ * Payment Terminal Service
+ *
+ * Card payments taken on a terminal: the register authorises the amount
+ * first, the sale captures it, and voids and refunds go back through the
+ * terminal. Every request and its outcome is kept in card_transactions.
+ * With PAYMENT_TERMINAL=none card payments are recorded as an amount only.
+ */
+export class PaymentTerminalService {
+  private static driver: PaymentTerminalDriver | null | undefined;
+
+  static setDriver(driver: PaymentTerminalDriver | null): void {
+    this.driver = driver;
+  }
+
+  /**
+   * Whether the register should send card payments to a terminal
+   */
+  static getStatus() {
+    const driver = this.getDriver();
+    return { enabled: !!driver, driver: driver?.name || 'none' };
+  }
+
+  /**
+   * Authorise a card payment before the sale is completed
+   * Declines and timeouts are recorded and reported as errors the register
+   * can show; a timed-out request is voided in case the card was charged.
+   */
+  static async authorize(ctx: TenantContext, input: { storeId: string; amount: number }) {
+    const driver = this.requireDriver();
+    const tenantResult = await query(`SELECT currency_code FROM tenants WHERE id = $1`, [ctx.tenantId]);
+    const currencyCode = tenantResult.rows[0]?.currency_code || 'USD';
+    const transactionId = uuidv4();
+    const amount = roundMoney(input.amount);
+
+    const response = await this.call(() => driver.authorize({ amount, currencyCode, reference: transactionId }));
+    if (response.outcome === 'timeout') {
+      await this.call(() => driver.void(response.reference || transactionId)).catch(() => undefined);
+    }
+
+    const status = response.outcome === 'approved' ? 'authorized' : response.outcome;
+    const result = await query(
+      `INSERT INTO card_transactions (
+        id, tenant_id, store_id, type, status, amount, currency_code, driver,
+        driver_reference, auth_code, card_brand, card_last4, message, created_by
+      ) VALUES ($1, $2, $3, 'sale', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *`,
+      [
+        transactionId, ctx.tenantId, input.storeId, status, amount, currencyCode, driver.name,
+        response.reference || null, response.authCode || null, response.cardBrand || null,
+        response.cardLast4 || null, response.message || null, ctx.userId
+      ]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CARD_AUTHORIZATION,
+      entityType: 'card_transaction',
+      entityId: transactionId,
+      storeId: input.storeId,
+      afterData: { amount, status, authCode: response.authCode, cardLast4: response.cardLast4 }
+    });
+
+    if (response.outcome === 'declined') {
+      throw new AppError(response.message || 'Card declined', 402, 'CARD_DECLINED', { transactionId });
+    }
+    if (response.outcome === 'timeout') {
+      throw new AppError('The card terminal did not respond', 504, 'TERMINAL_TIMEOUT', { transactionId });
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Release an authorisation the register did not use (sale cancelled or failed)
+   */
+  static async voidAuthorization(ctx: TenantContext, transactionId: string) {
+    const driver = this.requireDriver();
+    const existing = await query<CardTransactionRow>(
+      `SELECT * FROM card_transactions
+       WHERE id = $1 AND tenant_id = $2 AND type = 'sale' AND status = 'authorized' AND receipt_id IS NULL`,
+      [transactionId, ctx.tenantId]
+    );
+    if (existing.rows.length === 0) {
+      throw AppError.notFound('Open card authorisation not found');
+    }
+    const transaction = existing.rows[0];
+
+    const response = await this.call(() => driver.void(transaction.driver_reference || transaction.id));
+    if (response.outcome !== 'approved') {
+      throw new AppError(response.message || 'The card terminal did not release the authorisation', 502, 'TERMINAL_ERROR');
+    }
+    const result = await query(
+      `UPDATE card_transactions SET status = 'voided', updated_at = NOW()
+       WHERE id = $1 AND status = 'authorized'
+       RETURNING *`,
+      [transactionId]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CARD_VOIDED,
+      entityType: 'card_transaction',
+      entityId: transactionId,
+      storeId: transaction.store_id,
+      afterData: { amount: parseFloat(transaction.amount) }
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Capture the authorised card payments of a receipt and write the terminal's
+   * authorisation codes and card digits onto it. Card payments without a
+   * terminal transaction (offline sales, PAYMENT_TERMINAL=none) pass through.
+   */
+  static async capture(
+    client: PoolClient,
+    ctx: TenantContext,
+    receiptId: string,
+    payments: Payment[]
+  ): Promise<Payment[]> {
+    if (!payments.some(p => p.method === 'card' && p.terminalTransactionId)) return payments;
+    const driver = this.requireDriver();
+
+    const captured: Payment[] = [];
+    for (const payment of payments) {
+      if (payment.method !== 'card' || !payment.terminalTransactionId) {
+        captured.push(payment);
+        continue;
+      }
+      const transaction = await this.lock(client, ctx.tenantId, payment.terminalTransactionId);
+      if (transaction.status !== 'authorized' || transaction.receipt_id) {
+        throw AppError.badRequest('The card authorisation has already been used or released');
+      }
+      if (roundMoney(payment.amount) !== roundMoney(parseFloat(transaction.amount))) {
+        throw AppError.badRequest('The card payment does not match the amount authorised on the terminal');
+      }
+
+      const response = await this.call(() => driver.capture(transaction.driver_reference || transaction.id, payment.amount));
+      if (response.outcome !== 'approved') {
+        throw new AppError(response.message || 'The card terminal did not capture the payment', 402, 'CARD_DECLINED');
+      }
+      await client.query(
+        `UPDATE card_transactions SET status = 'captured', receipt_id = $1, updated_at = NOW() WHERE id = $2`,
+        [receiptId, transaction.id]
+      );
+      captured.push({
+        ...payment,
+        authCode: transaction.auth_code || undefined,
+        cardLast4: transaction.card_last4 || payment.cardLast4
+      });
+    }
+
+    await client.query(`UPDATE sales_receipts SET payments = $1 WHERE id = $2`, [JSON.stringify(captured), receiptId]);
+    return captured;
+  }
+
+  /**
+   * Void the captured card payments of a sale that is being voided
+   */
+  static async reverse(client: PoolClient, ctx: TenantContext, storeId: string, payments: Payment[]): Promise<void> {
+    for (const payment of payments) {
+      if (payment.method !== 'card' || !payment.terminalTransactionId) continue;
+      const driver = this.requireDriver();
+      const transaction = await this.lock(client, ctx.tenantId, payment.terminalTransactionId);
+      if (transaction.status !== 'captured') continue;
+
+      const response = await this.call(() => driver.void(transaction.driver_reference || transaction.id));
+      if (response.outcome !== 'approved') {
+        throw new AppError(response.message || 'The card terminal did not void the payment', 402, 'CARD_DECLINED');
+      }
+      await client.query(
+        `UPDATE card_transactions SET status = 'voided', updated_at = NOW() WHERE id = $1`,
+        [transaction.id]
+      );
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CARD_VOIDED,
+        entityType: 'card_transaction',
+        entityId: transaction.id,
+        storeId,
+        afterData: { amount: parseFloat(transaction.amount), receiptId: transaction.receipt_id }
+      }, client);
+    }
+  }
+
+  /**
+   * Pay refunds back to the cards they were taken on and write the refund
+   * authorisation codes onto the refund receipt. A card can be refunded up to
+   * what was captured on it, across any number of refunds.
+   */
+  static async refund(
+    client: PoolClient,
+    ctx: TenantContext,
+    refund: { storeId: string; refundId: string },
+    payments: Payment[]
+  ): Promise<Payment[]> {
+    if (!payments.some(p => p.method === 'card' && p.terminalTransactionId)) return payments;
+    const driver = this.requireDriver();
+
+    const refunded: Payment[] = [];
+    for (const payment of payments) {
+      if (payment.method !== 'card' || !payment.terminalTransactionId) {
+        refunded.push(payment);
+        continue;
+      }
+      const original = await this.lock(client, ctx.tenantId, payment.terminalTransactionId);
+      if (original.status !== 'captured') {
+        throw AppError.badRequest('Only captured card payments can be refunded to the card');
+      }
+      const left = roundMoney(parseFloat(original.amount) - parseFloat(original.refunded_amount));
+      if (roundMoney(payment.amount) > left) {
+        throw AppError.badRequest(`Only ${left.toFixed(2)} is left to refund to card ${original.card_last4 || ''}`.trim());
+      }
+
+      const transactionId = uuidv4();
+      const response = await this.call(() => driver.refund(original.driver_reference || original.id, {
+        amount: roundMoney(payment.amount),
+        currencyCode: original.currency_code || 'USD',
+        reference: transactionId
+      }));
+      if (response.outcome !== 'approved') {
+        throw new AppError(
+          response.outcome === 'timeout' ? 'The card terminal did not respond' : response.message || 'Card refund declined',
+          response.outcome === 'timeout' ? 504 : 402,
+          response.outcome === 'timeout' ? 'TERMINAL_TIMEOUT' : 'CARD_DECLINED'
+        );
+      }
+
+      await client.query(
+        `INSERT INTO card_transactions (
+          id, tenant_id, store_id, receipt_id, original_transaction_id, type, status, amount,
+          currency_code, driver, driver_reference, auth_code, card_brand, card_last4, created_by
+        ) VALUES ($1, $2, $3, $4, $5, 'refund', 'refunded', $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          transactionId, ctx.tenantId, refund.storeId, refund.refundId, original.id, roundMoney(payment.amount),
+          original.currency_code, driver.name, response.reference || null, response.authCode || null,
+          original.card_brand, original.card_last4, ctx.userId
+        ]
+      );
+      await client.query(
+        `UPDATE card_transactions SET refunded_amount = refunded_amount + $1, updated_at = NOW() WHERE id = $2`,
+        [roundMoney(payment.amount), original.id]
+      );
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CARD_REFUNDED,
+        entityType: 'card_transaction',
+        entityId: transactionId,
+        storeId: refund.storeId,
+        afterData: { amount: roundMoney(payment.amount), originalTransactionId: original.id, refundId: refund.refundId }
+      }, client);
+
+      refunded.push({
+        ...payment,
+        authCode: response.authCode || undefined,
+        cardLast4: original.card_last4 || payment.cardLast4
+      });
+    }
+
+    await client.query(`UPDATE sales_receipts SET payments = $1 WHERE id = $2`, [JSON.stringify(refunded), refund.refundId]);
+    return refunded;
+  }
+
+  private static getDriver(): PaymentTerminalDriver | null {
+    if (this.driver === undefined) {
+      this.driver = config.paymentTerminal === 'simulator'
+        ? new SimulatorTerminal({
+          scenario: config.terminalSimulatorScenario,
+          delayMs: config.terminalSimulatorDelayMs
+        })
+        : null;
+    }
+    return this.driver;
+  }
+
+  private static requireDriver(): PaymentTerminalDriver {
+    const driver = this.getDriver();
+    if (!driver) {
+      throw AppError.badRequest('No card terminal is configured');
+    }
+    return driver;
+  }
+
+  // A terminal that does not answer within TERMINAL_TIMEOUT_MS counts as a timeout
+  private static async call(request: () => Promise<TerminalResponse>): Promise<TerminalResponse> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<TerminalResponse>(resolve => {
+      timer = setTimeout(() => resolve({ outcome: 'timeout', message: 'The card terminal did not respond' }), config.terminalTimeoutMs);
+    });
+    try {
+      return await Promise.race([request(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static async lock(client: PoolClient, tenantId: string, transactionId: string): Promise<CardTransactionRow> {
+    const result = await client.query<CardTransactionRow>(
+      `SELECT * FROM card_transactions WHERE id = $1 AND tenant_id = $2 AND type = 'sale' FOR UPDATE`,
+      [transactionId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Card transaction not found');
+    }
+    return result.rows[0];
+  }
+}
+
+export default PaymentTerminalService;
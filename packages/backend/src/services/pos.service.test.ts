@@ -0,0 +1,397 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  client: { query: vi.fn() },
+  query: vi.fn()
+}));
+
+vi.mock('../config/index.js', () => ({ config: { nodeEnv: 'test', paymentTerminal: 'none' } }));
+vi.mock('../database/pool.js', () => ({
+  query: db.query,
+  withTransaction: vi.fn(async (callback: (client: unknown) => unknown) => callback(db.client))
+}));
+vi.mock('../middleware/auth.js', () => ({ assertStoreAccess: vi.fn() }));
+
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+import { POSService } from './pos.service.js';
+import { AuditService } from './audit.service.js';
+import { EventService } from './event.service.js';
+import { GiftCardService } from './gift-card.service.js';
+import { InventoryService } from './inventory.service.js';
+import { LoyaltyService } from './loyalty.service.js';
+import { PaymentTerminalService } from './payment-terminal.service.js';
+import { PricingService } from './pricing.service.js';
+import { PromotionService } from './promotion.service.js';
+import { VoucherService } from './voucher.service.js';
+
+const ctx = { tenantId: 'tenant-1', userId: 'user-1', permissions: [] };
+
+// Answer the transaction's queries by the first pattern the SQL matches
+function respond(handlers: Array<[RegExp, unknown[]]>) {
+  db.client.query.mockImplementation(async (sql: string) => {
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    return { rows: handler ? handler[1] : [], rowCount: handler ? handler[1].length : 0 };
+  });
+}
+
+function receipt(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'receipt-1',
+    tenant_id: 'tenant-1',
+    store_id: 'store-1',
+    type: 'sale',
+    status: 'completed',
+    total_amount: '100',
+    change_amount: '0',
+    payments: [{ method: 'cash', amount: 100 }],
+    ...overrides
+  };
+}
+
+// The server prices a one-item cart at the given unit price, untaxed
+function priceAt(item: { productId: string; sku: string; name: string; quantity: number }, unitPrice: number) {
+  const lineTotal = unitPrice * item.quantity;
+  vi.spyOn(PricingService, 'priceCart').mockResolvedValue({
+    storeId: 'store-1',
+    lines: [{
+      index: 0, productId: item.productId, sku: item.sku, name: item.name, quantity: item.quantity,
+      basePrice: unitPrice, unitPrice, promotionDiscount: 0, manualDiscount: 0, discountAmount: 0,
+      taxRate: 0, taxInclusive: false, taxAmount: 0, lineTotal, explanation: []
+    }],
+    promotions: [],
+    rejectedCoupons: [],
+    subtotal: lineTotal,
+    discountAmount: 0,
+    taxAmount: 0,
+    totalAmount: lineTotal
+  });
+}
+
+beforeEach(() => {
+  db.client.query.mockReset();
+  db.query.mockReset();
+  vi.restoreAllMocks();
+});
+
+describe('POSService.processRefund eligibility', () => {
+  it.each([
+    ['a voided sale', receipt({ status: 'voided' })],
+    ['a refund receipt', receipt({ type: 'refund' })],
+    ['an exchange receipt', receipt({ type: 'exchange' })]
+  ])('rejects %s', async (_label, original) => {
+    respond([[/FROM sales_receipts WHERE id = \$1/, [original]]]);
+
+    await expect(POSService.processRefund(ctx, 'receipt-1', [{ lineId: 'line-1', quantity: 1 }]))
+      .rejects.toThrow('Only completed sales can be refunded');
+  });
+
+  it('rejects a receipt from another tenant as not found', async () => {
+    respond([]);
+
+    await expect(POSService.processRefund(ctx, 'receipt-1', [{ lineId: 'line-1', quantity: 1 }]))
+      .rejects.toThrow('Original receipt not found');
+  });
+});
+
+describe('POSService.processExchange eligibility', () => {
+  const exchange = {
+    storeId: 'store-1',
+    originalReceiptId: 'receipt-1',
+    returnLines: [{ lineId: 'line-1', quantity: 1 }],
+    items: [{ productId: 'product-1', sku: 'SKU-1', name: 'Tea', quantity: 1, unitPrice: 10 }],
+    expectedTotal: 10,
+    payments: []
+  };
+
+  it('rejects a sale from a store the user has no access to', async () => {
+    respond([[/FROM sales_receipts WHERE id = \$1/, [receipt({ store_id: 'store-2' })]]]);
+    vi.mocked(assertStoreAccess).mockRejectedValueOnce(new AppError('No access to this store', 403, 'STORE_ACCESS_DENIED'));
+
+    await expect(POSService.processExchange(ctx, exchange)).rejects.toThrow('No access to this store');
+    expect(assertStoreAccess).toHaveBeenCalledWith(ctx, 'store-2');
+  });
+});
+
+describe('POSService.voidSale eligibility', () => {
+  it('rejects a sale that is no longer completed', async () => {
+    respond([[/FROM sales_receipts WHERE id = \$1/, [receipt({ status: 'refunded' })]]]);
+
+    await expect(POSService.voidSale(ctx, 'receipt-1', { reason: 'Wrong item' }))
+      .rejects.toThrow('Only completed sales can be voided; this receipt is refunded');
+  });
+
+  it('rejects a sale with refunds against it', async () => {
+    respond([
+      [/FROM sales_receipts WHERE id = \$1/, [receipt()]],
+      [/WHERE original_receipt_id = \$1/, [{ '?column?': 1 }]]
+    ]);
+
+    await expect(POSService.voidSale(ctx, 'receipt-1', { reason: 'Wrong item' }))
+      .rejects.toThrow('can no longer be voided');
+  });
+});
+
+describe('POSService.processRefund tenders', () => {
+  const line = { id: 'line-1', line_number: 1, product_id: null, quantity: '1', line_total: '100', returned_quantity: '0' };
+
+  // A sale of one 100.00 line paid with the given tenders, with earlier refunds paid back as given
+  function sale(payments: unknown[], paidBack: unknown[] = []) {
+    respond([
+      [/FROM sales_receipts WHERE id = \$1/, [receipt({ payments })]],
+      [/FROM sales_lines ol/, [line]],
+      [/WHERE original_receipt_id = \$1 AND status = 'completed'/, paidBack.map(payments => ({ payments: [payments] }))],
+      [/COUNT\(\*\) \+ 1 as num/, [{ num: '7' }]],
+      [/RETURNING \*/, [{ id: 'refund-1' }]]
+    ]);
+  }
+
+  function refund(payments: Array<Record<string, unknown>>) {
+    return POSService.processRefund(ctx, 'receipt-1', [{ lineId: 'line-1', quantity: 1 }], payments as never);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(InventoryService, 'recordMovement').mockResolvedValue(undefined as never);
+    vi.spyOn(GiftCardService, 'applyRefund').mockResolvedValue(undefined as never);
+    vi.spyOn(PaymentTerminalService, 'refund').mockImplementation(async (_client, _ctx, _refund, payments) => payments);
+    vi.spyOn(LoyaltyService, 'reverseForRefund').mockResolvedValue([]);
+    vi.spyOn(VoucherService, 'reverseRedemptions').mockResolvedValue([]);
+    vi.spyOn(PromotionService, 'releaseUsage').mockResolvedValue(undefined as never);
+    vi.spyOn(EventService, 'queueEvent').mockResolvedValue(undefined as never);
+    vi.spyOn(AuditService, 'log').mockResolvedValue(undefined as never);
+  });
+
+  it('pays back split tenders that add up to the refund', async () => {
+    sale([{ method: 'cash', amount: 50 }, { method: 'card', amount: 50, cardLast4: '4242' }]);
+
+    const result = await refund([{ method: 'cash', amount: 60 }, { method: 'card', amount: 40 }]);
+
+    expect(result.payments).toEqual([{ method: 'cash', amount: 60 }, { method: 'card', amount: 40 }]);
+  });
+
+  it('defaults to the sale tenders less the points share', async () => {
+    sale([{ method: 'cash', amount: 80 }, { method: 'loyalty', amount: 20 }]);
+
+    const result = await refund([]);
+
+    expect(result.payments).toEqual([{ method: 'cash', amount: 80 }]);
+  });
+
+  it('rejects tenders that pay out more than the refund', async () => {
+    sale([{ method: 'cash', amount: 100 }]);
+
+    await expect(refund([{ method: 'cash', amount: 500 }]))
+      .rejects.toThrow('Refund tenders add up to 500.00, not the 100.00 to be paid back');
+  });
+
+  it('leaves the points share to the loyalty refund', async () => {
+    sale([{ method: 'cash', amount: 80 }, { method: 'loyalty', amount: 20 }]);
+
+    await expect(refund([{ method: 'cash', amount: 100 }]))
+      .rejects.toThrow('Refund tenders add up to 100.00, not the 80.00 to be paid back');
+    await expect(refund([{ method: 'loyalty', amount: 20 }, { method: 'cash', amount: 80 }]))
+      .rejects.toThrow('Points and vouchers are returned with the refund');
+  });
+
+  it('refunds a gift card no more than the sale took on it', async () => {
+    sale([{ method: 'gift_card', amount: 100, giftCardId: 'card-a' }]);
+
+    await expect(refund([{ method: 'gift_card', amount: 100, giftCardId: 'card-b' }]))
+      .rejects.toThrow('Only 0.00 of this sale is left to refund to the gift card');
+  });
+
+  it('refunds a card no more than is left after earlier refunds', async () => {
+    sale(
+      [{ method: 'cash', amount: 50 }, { method: 'card', amount: 50, cardLast4: '4242' }],
+      [{ method: 'card', amount: 30, cardLast4: '4242' }]
+    );
+
+    await expect(refund([{ method: 'card', amount: 50 }, { method: 'cash', amount: 50 }]))
+      .rejects.toThrow('Only 20.00 of this sale is left to refund to the card');
+  });
+
+  it('refunds to the card terminal only for card payments of the sale', async () => {
+    sale([{ method: 'card', amount: 100, terminalTransactionId: 'txn-1' }]);
+
+    await expect(refund([{ method: 'card', amount: 100, terminalTransactionId: 'txn-2' }]))
+      .rejects.toThrow('Card refunds go back to a card payment of this sale');
+  });
+});
+
+describe('POSService.createSale shift', () => {
+  const sale = {
+    storeId: 'store-1',
+    shiftId: 'shift-other',
+    items: [{ productId: 'product-1', sku: 'SKU-1', name: 'Tea', quantity: 1, unitPrice: 10 }],
+    expectedTotal: 10,
+    payments: [{ method: 'cash' as const, amount: 10 }]
+  };
+
+  it('rejects a shift the cashier is not on at this store', async () => {
+    respond([]);
+
+    await expect(POSService.createSale(ctx, sale))
+      .rejects.toThrow('You are not on an open shift with this id at this store');
+    const [sql, params] = db.client.query.mock.calls[0];
+    expect(sql).toMatch(/s\.tenant_id = \$2 AND s\.store_id = \$4/);
+    expect(params).toEqual(['shift-other', 'tenant-1', 'user-1', 'store-1', false]);
+  });
+});
+
+describe('POSService.createSale pricing', () => {
+  const item = { productId: 'product-1', sku: 'SKU-1', name: 'Tea', quantity: 2, unitPrice: 10 };
+  const sale = { storeId: 'store-1', items: [item], payments: [{ method: 'cash' as const, amount: 20 }] };
+
+  const serverPrice = (unitPrice: number) => priceAt(item, unitPrice);
+
+  beforeEach(() => {
+    respond([
+      [/FROM products WHERE tenant_id/, [{ id: item.productId, name: item.name, sell_price: '10', is_active: true }]],
+      [/COUNT\(\*\) \+ 1 as num/, [{ num: '7' }]],
+      [/RETURNING \*/, [{ id: 'receipt-1' }]]
+    ]);
+    db.query.mockResolvedValue({ rows: [] });
+    vi.spyOn(InventoryService, 'getQuantity').mockResolvedValue(10);
+    vi.spyOn(InventoryService, 'recordMovement').mockResolvedValue(undefined as never);
+    vi.spyOn(LoyaltyService, 'applySale').mockResolvedValue({ pointsEarned: 0, pointsRedeemed: 0 } as never);
+    vi.spyOn(GiftCardService, 'sell').mockResolvedValue([]);
+    vi.spyOn(GiftCardService, 'redeem').mockResolvedValue(undefined as never);
+    vi.spyOn(PromotionService, 'recordUsage').mockResolvedValue(undefined as never);
+    vi.spyOn(VoucherService, 'redeem').mockResolvedValue(undefined as never);
+    vi.spyOn(PaymentTerminalService, 'capture').mockImplementation(async (_client, _ctx, _receiptId, payments) => payments);
+    vi.spyOn(EventService, 'queueEvent').mockResolvedValue(undefined as never);
+    vi.spyOn(AuditService, 'log').mockResolvedValue(undefined as never);
+  });
+
+  it('requires the total the register showed for an online sale', async () => {
+    serverPrice(10);
+
+    await expect(POSService.createSale(ctx, sale))
+      .rejects.toThrow('The total shown to the customer (expectedTotal) is required');
+  });
+
+  it('rejects an online sale the server prices differently', async () => {
+    serverPrice(12);
+
+    await expect(POSService.createSale(ctx, { ...sale, expectedTotal: 20 }))
+      .rejects.toMatchObject({ status: 409, code: 'PRICE_MISMATCH' });
+  });
+
+  it('records an online sale at the server pricing', async () => {
+    serverPrice(10);
+
+    const result = await POSService.createSale(ctx, { ...sale, expectedTotal: 20 });
+
+    expect(result).toMatchObject({ conflicts: [] });
+    const insert = db.client.query.mock.calls.find(([sql]) => /INSERT INTO sales_receipts/.test(sql));
+    expect(insert![1]).toContain(20);
+  });
+
+  it('queues an offline sale whose total the server prices differently for review', async () => {
+    serverPrice(12);
+
+    const result = await POSService.createSale(ctx, {
+      ...sale,
+      expectedTotal: 20,
+      offlineCreated: true,
+      idempotencyKey: 'offline-1',
+      clientCreatedAt: '2026-10-18T09:00:00.000Z'
+    });
+
+    expect(result).toMatchObject({ conflicts: ['total_mismatch'] });
+    const conflict = db.client.query.mock.calls.find(([sql]) => /INSERT INTO pos_sync_conflicts/.test(sql));
+    expect(JSON.parse(conflict![1][5])).toMatchObject({ registerTotal: 20, serverTotal: 24, amountDue: 20, paid: 20 });
+  });
+
+  it('queues an offline sale whose tenders do not settle it for review', async () => {
+    serverPrice(10);
+
+    const result = await POSService.createSale(ctx, {
+      ...sale,
+      expectedTotal: 20,
+      payments: [{ method: 'card', amount: 50 }],
+      offlineCreated: true,
+      idempotencyKey: 'offline-2',
+      clientCreatedAt: '2026-10-18T09:00:00.000Z'
+    });
+
+    expect(result).toMatchObject({ conflicts: ['total_mismatch'] });
+  });
+});
+
+describe('POSService.processExchange payout', () => {
+  const item = { productId: 'product-2', sku: 'SKU-2', name: 'Mug', quantity: 1, unitPrice: 40 };
+  const line = {
+    id: 'line-1', line_number: 1, product_id: 'product-1', sku: 'SKU-1', name: 'Teapot', quantity: '1',
+    unit_price: '100', discount_amount: '0', tax_rate: '0', tax_amount: '0', line_total: '100',
+    cost_price: '50', returned_quantity: '0'
+  };
+  const exchange = {
+    storeId: 'store-1',
+    originalReceiptId: 'receipt-1',
+    returnLines: [{ lineId: 'line-1', quantity: 1 }],
+    items: [item],
+    expectedTotal: 40
+  };
+
+  // A 100.00 teapot paid with the given tenders, exchanged for a 40.00 mug
+  function sale(payments: unknown[]) {
+    respond([
+      [/FROM sales_receipts WHERE id = \$1/, [receipt({ payments })]],
+      [/FROM sales_lines ol/, [line]],
+      [/COUNT\(\*\) \+ 1 as num/, [{ num: '7' }]],
+      [/RETURNING \*/, [{ id: 'exchange-1' }]]
+    ]);
+    priceAt(item, 40);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(InventoryService, 'getQuantity').mockResolvedValue(10);
+    vi.spyOn(InventoryService, 'recordMovement').mockResolvedValue(undefined as never);
+    vi.spyOn(LoyaltyService, 'reverseForRefund').mockResolvedValue([]);
+    vi.spyOn(LoyaltyService, 'applySale').mockResolvedValue({ pointsEarned: 0, pointsRedeemed: 0 } as never);
+    vi.spyOn(PromotionService, 'recordUsage').mockResolvedValue(undefined as never);
+    vi.spyOn(GiftCardService, 'applyRefund').mockResolvedValue(undefined as never);
+    vi.spyOn(PaymentTerminalService, 'refund').mockImplementation(async (_client, _ctx, _refund, payments) => payments);
+    vi.spyOn(EventService, 'queueEvent').mockResolvedValue(undefined as never);
+    vi.spyOn(AuditService, 'log').mockResolvedValue(undefined as never);
+  });
+
+  it('pays the difference back to the sale tenders through the card terminal', async () => {
+    sale([{ method: 'card', amount: 100, terminalTransactionId: 'txn-1' }]);
+
+    const result = await POSService.processExchange(ctx, { ...exchange, payments: [] });
+
+    const payout = [{ method: 'card', amount: 60, terminalTransactionId: 'txn-1' }];
+    expect(result.receipt.payments).toEqual(payout);
+    expect(PaymentTerminalService.refund).toHaveBeenCalledWith(
+      db.client, ctx, { storeId: 'store-1', refundId: expect.any(String) }, payout
+    );
+  });
+
+  it('credits returned items at the share not paid with points', async () => {
+    sale([{ method: 'cash', amount: 80 }, { method: 'loyalty', amount: 20 }]);
+
+    const result = await POSService.processExchange(ctx, { ...exchange, payments: [] });
+
+    expect(result.returnTotal).toBe(80);
+    expect(result.receipt.payments).toEqual([{ method: 'cash', amount: 40 }]);
+    expect(LoyaltyService.reverseForRefund).toHaveBeenCalledWith(db.client, ctx, expect.objectContaining({ ratio: 1 }));
+  });
+
+  it('refunds a gift card no more than the sale took on it', async () => {
+    sale([{ method: 'gift_card', amount: 100, giftCardId: 'card-a' }]);
+
+    await expect(POSService.processExchange(ctx, {
+      ...exchange,
+      payments: [{ method: 'gift_card', amount: 60, giftCardId: 'card-b' }]
+    })).rejects.toThrow('Only 0.00 of this sale is left to refund to the gift card');
+  });
+
+  it('rejects a payout that differs from the difference', async () => {
+    sale([{ method: 'cash', amount: 100 }]);
+
+    await expect(POSService.processExchange(ctx, { ...exchange, payments: [{ method: 'cash', amount: 90 }] }))
+      .rejects.toThrow('Refund tenders add up to 90.00, not the 60.00 to be paid back');
+  });
+});
@@ -1,24 +1,27 @@
-import { PoolClient } from 'pg';
+import { PoolClient, QueryResultRow } from 'pg';
 import { query, withTransaction } from '../database/pool.js';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   TenantContext, 
-  SalesReceipt, 
-  SalesLine,
   Payment,
   DiscountDetail,
-  TaxDetail,
-  Shift
+  TaxDetail
 } from '../types/index.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
 import { InventoryService } from './inventory.service.js';
 import { EventService } from './event.service.js';
 import { AuditService } from './audit.service.js';
-import { PricingService } from './pricing.service.js';
+import { PromotionService } from './promotion.service.js';
+import { PricingService, CartPricing } from './pricing.service.js';
+import { VoucherService } from './voucher.service.js';
+import { LoyaltyService } from './loyalty.service.js';
+import { GiftCardService, GiftCardSaleInput } from './gift-card.service.js';
+import { PaymentTerminalService } from './payment-terminal.service.js';
 
 export interface CartItem {
-  productId?: string;
-  variantId?: string;
-  uomId?: string;
+  productId: string;
   sku: string;
   name: string;
   quantity: number;
@@ -26,8 +29,13 @@ export interface CartItem {
   costPrice?: number;
   discountType?: 'percent' | 'fixed';
   discountValue?: number;
+  discountAmount?: number;
   taxRate?: number;
+  taxAmount?: number;
   promotionId?: string;
+  taxCode?: string;
+  taxName?: string;
+  taxInclusive?: boolean;
   notes?: string;
 }
 
@@ -36,142 +44,449 @@ export interface CreateSaleInput {
   shiftId?: string;
   customerId?: string;
   items: CartItem[];
-  cartDiscounts?: DiscountDetail[];
+  giftCards?: GiftCardSaleInput[];
+  // Promotions already allocated to the lines' discountAmount; kept on the receipt for reporting
+  promotions?: DiscountDetail[];
+  couponCodes?: string[];
+  // Total of the products as the register showed it; online sales are rejected when the
+  // server prices differently, offline sales are queued for review
+  expectedTotal?: number;
   payments: Payment[];
-  loyaltyPointsRedeemed?: number;
   notes?: string;
   idempotencyKey?: string;
   offlineCreated?: boolean;
+  clientCreatedAt?: string;
 }
 
+export interface ExchangeInput {
+  storeId: string;
+  shiftId?: string;
+  originalReceiptId: string;
+  returnLines: Array<{ lineId: string; quantity: number; reason?: string }>;
+  items: CartItem[];
+  couponCodes?: string[];
+  // Total of the new items as the register showed it; rejected when the server prices differently
+  expectedTotal?: number;
+  // What the customer pays when the new items cost more, or is paid back when they cost less
+  payments: Payment[];
+  notes?: string;
+}
+
+export type SyncConflictType = 'negative_stock' | 'price_changed' | 'product_inactive' | 'total_mismatch';
+
+interface SyncConflict {
+  type: SyncConflictType;
+  details: Record<string, unknown>;
+}
+
+interface StockIssue {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// A sale's tenders with what is left to refund on each, and the share of its total they paid
+interface RefundableTenders {
+  tenders: Array<{ tender: Payment; left: number }>;
+  paidBack: Payment[];
+  paidShare: number;
+}
+
+// Quantity of original line ol already returned by refunds and exchanges
+// (refund lines written before original_line_id existed are matched on line number)
+const RETURNED_QUANTITY_SQL = `COALESCE((
+  SELECT SUM(-rl.quantity)
+  FROM sales_receipts r
+  JOIN sales_lines rl ON rl.receipt_id = r.id
+  WHERE r.original_receipt_id = ol.receipt_id AND r.type IN ('refund', 'exchange') AND rl.quantity < 0
+    AND (rl.original_line_id = ol.id OR (rl.original_line_id IS NULL AND rl.line_number = ol.line_number))
+), 0)`;
+
 /**
  * POS Service
  * 
  * Handles all point-of-sale operations including:
- * - Sales transactions
+ * - Sales transactions (online and replayed offline sales)
  * - Returns/refunds
  * - Park/recall
- * - Shift management
+ * - Receipt search
  */
 export class POSService {
   /**
    * Create a new sale
+   * Offline registers replay queued sales with the same idempotencyKey until
+   * they get a response, so a key that has already been recorded returns the
+   * original receipt instead of selling twice.
+   */
+  static async createSale(ctx: TenantContext, input: CreateSaleInput) {
+    const existing = await this.findByIdempotencyKey(ctx.tenantId, input.idempotencyKey);
+    if (existing) {
+      return { receipt: existing, duplicate: true };
+    }
+
+    try {
+      return await this.insertSale(ctx, input);
+    } catch (error) {
+      // A concurrent replay of the same offline sale committed first
+      if (isUniqueViolation(error) && input.idempotencyKey) {
+        const raced = await this.findByIdempotencyKey(ctx.tenantId, input.idempotencyKey);
+        if (raced) {
+          return { receipt: raced, duplicate: true };
+        }
+      }
+      throw error;
+    }
+  }
+
+  private static async findByIdempotencyKey(tenantId: string, idempotencyKey?: string) {
+    if (!idempotencyKey) {
+      return null;
+    }
+    const existing = await query(
+      `SELECT * FROM sales_receipts WHERE tenant_id = $1 AND idempotency_key = $2`,
+      [tenantId, idempotencyKey]
+    );
+    if (existing.rows.length === 0) {
+      return null;
+    }
+    const lines = await query(
+      `SELECT product_id as "productId", sku, name, quantity, unit_price as "unitPrice",
+              discount_amount as "discountAmount", tax_amount as "taxAmount", line_total as "lineTotal"
+       FROM sales_lines WHERE receipt_id = $1 ORDER BY line_number`,
+      [existing.rows[0].id]
+    );
+    return { ...existing.rows[0], lines: lines.rows };
+  }
+
+  /**
+   * The shift a register sent with a sale, which must be one of this store's
+   * shifts the cashier is on. An offline sale replayed after its shift closed
+   * (or after the cashier left it) still belongs to that shift.
    */
-  static async createSale(
+  private static async resolveShift(
+    client: PoolClient,
     ctx: TenantContext,
-    input: CreateSaleInput
-  ): Promise<SalesReceipt> {
-    // Check idempotency
-    if (input.idempotencyKey) {
-      const existing = await query<SalesReceipt>(
-        `SELECT * FROM sales_receipts 
-         WHERE tenant_id = $1 AND idempotency_key = $2`,
-        [ctx.tenantId, input.idempotencyKey]
-      );
-      if (existing.rows.length > 0) {
-        return existing.rows[0];
+    storeId: string,
+    shiftId: string,
+    offlineCreated?: boolean
+  ): Promise<string> {
+    const shiftResult = await client.query(
+      `SELECT s.id FROM shifts s
+       JOIN shift_cashiers sc ON sc.shift_id = s.id AND sc.user_id = $3
+       WHERE s.id = $1 AND s.tenant_id = $2 AND s.store_id = $4
+         AND ($5 OR (s.status = 'open' AND sc.left_at IS NULL))
+       LIMIT 1`,
+      [shiftId, ctx.tenantId, ctx.userId, storeId, Boolean(offlineCreated)]
+    );
+    if (shiftResult.rows.length === 0) {
+      throw AppError.badRequest('You are not on an open shift with this id at this store');
+    }
+    return shiftResult.rows[0].id;
+  }
+
+  // Sales are attached to the open shift the cashier is working (their own
+  // or one they joined) when the register did not send one
+  private static async findOpenShift(client: PoolClient, ctx: TenantContext, storeId: string): Promise<string | undefined> {
+    const shiftResult = await client.query(
+      `SELECT s.id FROM shifts s
+       JOIN shift_cashiers sc ON sc.shift_id = s.id AND sc.user_id = $2 AND sc.left_at IS NULL
+       WHERE s.tenant_id = $1 AND s.store_id = $3 AND s.status = 'open'
+       ORDER BY s.opened_at DESC LIMIT 1`,
+      [ctx.tenantId, ctx.userId, storeId]
+    );
+    return shiftResult.rows[0]?.id;
+  }
+
+  /**
+   * Products in the cart that the store does not have enough stock for
+   */
+  private static async findStockIssues(
+    client: PoolClient,
+    tenantId: string,
+    storeId: string,
+    items: CartItem[]
+  ): Promise<StockIssue[]> {
+    const issues: StockIssue[] = [];
+    for (const item of items) {
+      const available = await InventoryService.getQuantity(tenantId, storeId, item.productId, client);
+      if (item.quantity > available) {
+        issues.push({ productId: item.productId, name: item.name, requested: item.quantity, available });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Compare an offline sale against the live catalog the register could not see
+   * Offline sales are never rejected (the goods have already left the store);
+   * problems are logged as sync conflicts for a supervisor instead
+   */
+  private static async findSyncConflicts(
+    client: PoolClient,
+    tenantId: string,
+    items: CartItem[],
+    stockIssues: StockIssue[]
+  ): Promise<SyncConflict[]> {
+    const conflicts: SyncConflict[] = [];
+    if (stockIssues.length > 0) {
+      conflicts.push({ type: 'negative_stock', details: { items: stockIssues } });
+    }
+
+    const productResult = await client.query(
+      `SELECT id, name, sell_price, is_active FROM products WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, items.map(i => i.productId)]
+    );
+    const productsById = new Map(productResult.rows.map(p => [p.id, p]));
+    const priceChanges: Array<Record<string, unknown>> = [];
+    const inactive: Array<Record<string, unknown>> = [];
+
+    for (const item of items) {
+      const product = productsById.get(item.productId);
+      if (!product) continue;
+      if (!product.is_active) {
+        inactive.push({ productId: item.productId, name: item.name });
       }
+      const currentPrice = parseFloat(product.sell_price) || 0;
+      if (Math.abs(currentPrice - item.unitPrice) >= 0.005) {
+        priceChanges.push({ productId: item.productId, name: item.name, soldAt: item.unitPrice, currentPrice });
+      }
+    }
+
+    if (priceChanges.length > 0) {
+      conflicts.push({ type: 'price_changed', details: { items: priceChanges } });
+    }
+    if (inactive.length > 0) {
+      conflicts.push({ type: 'product_inactive', details: { items: inactive } });
     }
+    return conflicts;
+  }
 
+  /**
+   * Check an offline sale's total and tenders against what the server makes of them
+   * The register priced the cart on its own, so line discounts, a total the
+   * server does not arrive at, or tenders that do not settle the amount due
+   * are left for a supervisor rather than trusted.
+   */
+  private static async findTotalConflict(
+    client: PoolClient,
+    tenantId: string,
+    input: CreateSaleInput,
+    registerTotal: number,
+    amountDue: number
+  ): Promise<SyncConflict | null> {
+    let serverTotal: number | null = null;
+    try {
+      const pricing = await PricingService.priceCart(tenantId, {
+        storeId: input.storeId,
+        customerId: input.customerId,
+        items: input.items,
+        couponCodes: input.couponCodes
+      }, client);
+      serverTotal = roundMoney(pricing.totalAmount);
+    } catch (error) {
+      // Products the server no longer sells are logged as product_inactive
+      if (!(error instanceof AppError)) throw error;
+    }
+
+    const paid = roundMoney(input.payments.reduce((sum, p) => sum + p.amount, 0));
+    const nonCash = roundMoney(input.payments.filter(p => p.method !== 'cash').reduce((sum, p) => sum + p.amount, 0));
+    const due = roundMoney(amountDue);
+    const totalDiffers = serverTotal !== null && Math.abs(serverTotal - roundMoney(registerTotal)) >= 0.01;
+    if (!totalDiffers && paid >= due && nonCash <= due) {
+      return null;
+    }
+    return {
+      type: 'total_mismatch',
+      details: { registerTotal: roundMoney(registerTotal), serverTotal, amountDue: due, paid, nonCash }
+    };
+  }
+
+  private static async insertSale(ctx: TenantContext, input: CreateSaleInput) {
     return withTransaction(async (client) => {
-      // Generate receipt number
-      const receiptNumber = await this.generateReceiptNumber(ctx.tenantId, input.storeId, client);
+      const shiftId = input.shiftId
+        ? await this.resolveShift(client, ctx, input.storeId, input.shiftId, input.offlineCreated)
+        : await this.findOpenShift(client, ctx, input.storeId);
+
+      const stockIssues = await this.findStockIssues(client, ctx.tenantId, input.storeId, input.items);
+      const syncConflicts = input.offlineCreated
+        ? await this.findSyncConflicts(client, ctx.tenantId, input.items, stockIssues)
+        : [];
+      if (!input.offlineCreated && stockIssues.length > 0) {
+        const issueList = stockIssues
+          .map(i => `${i.name}: requested ${i.requested}, available ${i.available}`)
+          .join('; ');
+        throw AppError.badRequest(`Insufficient stock: ${issueList}`, { stockIssues });
+      }
+
+      // Online sales are priced by the server; offline sales keep the register's prices
+      // (price changes it missed are logged as sync conflicts above)
+      let promotionDetails = input.promotions || [];
+      let items = input.items;
+      if (!input.offlineCreated) {
+        const pricing = await PricingService.priceCart(ctx.tenantId, {
+          storeId: input.storeId,
+          customerId: input.customerId,
+          items: input.items,
+          couponCodes: input.couponCodes
+        }, client);
+        this.assertPricingMatches(input, pricing);
+        items = this.applyPricing(input.items, pricing);
+        promotionDetails = pricing.promotions.map(p => ({
+          type: 'promotion' as const,
+          promotionId: p.promotionId,
+          code: p.code,
+          description: p.name,
+          amount: p.amount
+        }));
+      }
+
+      const receiptNumber = await this.generateReceiptNumber(ctx.tenantId, client);
 
       // Calculate totals
-      const lines = input.items.map((item, index) => {
-        const discountAmount = this.calculateLineDiscount(item);
-        const lineSubtotal = item.quantity * item.unitPrice - discountAmount;
-        const taxAmount = lineSubtotal * (item.taxRate || 0);
-        const lineTotal = lineSubtotal + taxAmount;
+      const lines = this.calculateLines(items);
 
-        return {
-          ...item,
-          lineNumber: index + 1,
-          discountAmount,
-          taxAmount,
-          lineTotal
-        };
-      });
+      // Gift cards sold on the sale are untaxed, undiscounted lines after the products
+      const giftCards = input.giftCards || [];
+      const giftCardTotal = roundMoney(giftCards.reduce((sum, card) => sum + card.amount, 0));
+      if (giftCardTotal > 0 && input.payments.some(p => p.method === 'gift_card')) {
+        throw AppError.badRequest('Gift cards cannot be bought with a gift card');
+      }
 
-      const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
-      const lineDiscountTotal = lines.reduce((sum, line) => sum + line.discountAmount, 0);
-      const cartDiscountTotal = (input.cartDiscounts || []).reduce((sum, d) => sum + d.amount, 0);
-      const discountAmount = lineDiscountTotal + cartDiscountTotal;
-      const taxableAmount = subtotal - discountAmount;
+      const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0) + giftCardTotal;
+      // Cart-level discounts only come from server-priced promotions and coupons,
+      // which are already allocated to the lines
+      const discountAmount = lines.reduce((sum, line) => sum + line.discountAmount, 0);
       const taxAmount = lines.reduce((sum, line) => sum + line.taxAmount, 0);
-      const totalAmount = taxableAmount + taxAmount;
-      
+      // Line totals are net of line discounts and include tax (tax inside the price is not added again)
+      const productTotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+      const totalAmount = productTotal + giftCardTotal;
+
       const paidAmount = input.payments.reduce((sum, p) => sum + p.amount, 0);
+      if (!input.offlineCreated) {
+        this.assertTenders(input.payments, totalAmount);
+      } else {
+        const totalConflict = await this.findTotalConflict(client, ctx.tenantId, input, productTotal, totalAmount);
+        if (totalConflict) {
+          syncConflicts.push(totalConflict);
+        }
+      }
       const changeAmount = Math.max(0, paidAmount - totalAmount);
 
-      // Calculate loyalty points earned
-      const loyaltyPointsEarned = Math.floor(totalAmount * 0.01); // 1 point per dollar
-
       // Create receipt
       const receiptId = uuidv4();
-      const receiptResult = await client.query<SalesReceipt>(
+
+      // Points paid with and earned are settled first so the receipt records both
+      // (gift cards are stored value and earn nothing)
+      const loyalty = await LoyaltyService.applySale(client, ctx, {
+        customerId: input.customerId,
+        receiptId,
+        receiptNumber,
+        lines: lines.map(line => ({ productId: line.productId, lineTotal: line.lineTotal })),
+        totalAmount: totalAmount - giftCardTotal,
+        payments: input.payments
+      });
+      const receiptResult = await client.query(
         `INSERT INTO sales_receipts (
           id, tenant_id, store_id, shift_id, cashier_id, customer_id,
           receipt_number, receipt_date, type, status,
           subtotal, discount_amount, tax_amount, total_amount,
           paid_amount, change_amount, discount_details, tax_details, payments,
           loyalty_points_earned, loyalty_points_redeemed, notes,
-          idempotency_key, offline_created
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), 'sale', 'completed',
-                  $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+          idempotency_key, offline_created, client_created_at, synced_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($22::timestamptz, NOW()), 'sale', 'completed',
+                  $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+                  $22::timestamptz, CASE WHEN $21::boolean THEN NOW() END)
         RETURNING *`,
         [
-          receiptId, ctx.tenantId, input.storeId, input.shiftId, ctx.userId, input.customerId,
+          receiptId, ctx.tenantId, input.storeId, shiftId || null, ctx.userId, input.customerId || null,
           receiptNumber,
           subtotal, discountAmount, taxAmount, totalAmount,
           paidAmount, changeAmount,
-          JSON.stringify(input.cartDiscounts || []),
+          JSON.stringify(promotionDetails),
           JSON.stringify(this.calculateTaxDetails(lines)),
           JSON.stringify(input.payments),
-          loyaltyPointsEarned, input.loyaltyPointsRedeemed || 0, input.notes,
-          input.idempotencyKey, input.offlineCreated || false
+          loyalty.pointsEarned, loyalty.pointsRedeemed, input.notes || null,
+          input.idempotencyKey || null, input.offlineCreated || false,
+          input.clientCreatedAt || null
         ]
       );
 
-      // Create sales lines
+      // Create sales lines and deduct stock
       for (const line of lines) {
+        const lineId = uuidv4();
         await client.query(
           `INSERT INTO sales_lines (
             id, tenant_id, receipt_id, line_number,
-            product_id, variant_id, uom_id, sku, name,
+            product_id, sku, name,
             quantity, unit_price, discount_type, discount_value,
             discount_amount, tax_rate, tax_amount, line_total, cost_price,
             promotion_id, notes
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)`,
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
           [
-            uuidv4(), ctx.tenantId, receiptId, line.lineNumber,
-            line.productId, line.variantId, line.uomId, line.sku, line.name,
-            line.quantity, line.unitPrice, line.discountType, line.discountValue || 0,
+            lineId, ctx.tenantId, receiptId, line.lineNumber,
+            line.productId, line.sku, line.name,
+            line.quantity, line.unitPrice, line.discountType || null, line.discountValue || 0,
             line.discountAmount, line.taxRate || 0, line.taxAmount, line.lineTotal, line.costPrice || 0,
-            line.promotionId, line.notes
+            line.promotionId || null, line.notes || null
           ]
         );
 
-        // Update inventory (deduct stock)
         await InventoryService.recordMovement(
           ctx,
           input.storeId,
           {
             productId: line.productId,
-            variantId: line.variantId,
-            uomId: line.uomId,
             quantity: -line.quantity, // Negative for sale
             costPrice: line.costPrice,
-            referenceType: 'SALE',
+            referenceType: 'sale',
             referenceId: receiptId,
-            referenceLineId: line.productId // Using productId as reference
+            referenceLineId: lineId
           },
           client
         );
       }
 
+      const sale = { storeId: input.storeId, receiptId, receiptNumber, customerId: input.customerId };
+      const soldGiftCards = await GiftCardService.sell(client, ctx, sale, giftCards);
+      for (const [index, card] of soldGiftCards.entries()) {
+        await client.query(
+          `INSERT INTO sales_lines (
+            tenant_id, receipt_id, line_number, sku, name,
+            quantity, unit_price, line_total, gift_card_id
+          ) VALUES ($1, $2, $3, $4, $5, 1, $6, $6, $7)`,
+          [
+            ctx.tenantId, receiptId, lines.length + index + 1, card.code,
+            card.type === 'issue' ? 'Gift card' : 'Gift card reload', card.amount, card.giftCardId
+          ]
+        );
+      }
+
+      await PromotionService.recordUsage(
+        client,
+        ctx.tenantId,
+        promotionDetails.flatMap(p => p.promotionId ? [p.promotionId] : [])
+      );
+      await VoucherService.redeem(client, ctx, receiptId, input.payments, totalAmount, input.customerId);
+      await GiftCardService.redeem(client, ctx, sale, input.payments);
+
+      for (const conflict of syncConflicts) {
+        await client.query(
+          `INSERT INTO pos_sync_conflicts (
+            tenant_id, store_id, receipt_id, idempotency_key, conflict_type, details, created_by
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            ctx.tenantId, input.storeId, receiptId, input.idempotencyKey || null, conflict.type,
+            JSON.stringify({ receiptNumber, ...conflict.details }), ctx.userId
+          ]
+        );
+      }
+
+      // Card payments authorised on the terminal are captured last, once the rest of the sale has gone through
+      receiptResult.rows[0].payments = await PaymentTerminalService.capture(client, ctx, receiptId, input.payments);
+
       // Update shift totals
-      if (input.shiftId) {
+      if (shiftId) {
         const cashPayment = input.payments
           .filter(p => p.method === 'cash')
           .reduce((sum, p) => sum + p.amount, 0);
@@ -184,9 +499,10 @@ export class POSService {
             total_sales = total_sales + $1,
             total_cash_payments = total_cash_payments + $2,
             total_card_payments = total_card_payments + $3,
-            transaction_count = transaction_count + 1
-          WHERE id = $4`,
-          [totalAmount, cashPayment - changeAmount, cardPayment, input.shiftId]
+            transaction_count = transaction_count + 1,
+            updated_at = NOW()
+          WHERE id = $4 AND tenant_id = $5`,
+          [totalAmount, cashPayment - changeAmount, cardPayment, shiftId, ctx.tenantId]
         );
       }
 
@@ -203,7 +519,7 @@ export class POSService {
           itemCount: lines.length,
           paymentMethods: input.payments.map(p => p.method)
         }
-      });
+      }, client);
 
       // Audit log
       await AuditService.log(ctx, {
@@ -212,72 +528,133 @@ export class POSService {
         entityId: receiptId,
         storeId: input.storeId,
         afterData: { receiptNumber, totalAmount, itemCount: lines.length }
-      });
+      }, client);
+
+      return {
+        receipt: { ...receiptResult.rows[0], lines: input.items },
+        giftCards: soldGiftCards,
+        conflicts: syncConflicts.map(c => c.type)
+      };
+    });
+  }
+
+  /**
+   * Offline sync conflicts awaiting supervisor review
+   */
+  static async listSyncConflicts(tenantId: string, options: { status: string; storeId?: string }) {
+    const params: unknown[] = [tenantId];
+    let where = 'c.tenant_id = $1';
+    if (options.status !== 'all') {
+      params.push(options.status);
+      where += ` AND c.status = $${params.length}`;
+    }
+    if (options.storeId) {
+      params.push(options.storeId);
+      where += ` AND c.store_id = $${params.length}`;
+    }
 
-      return receiptResult.rows[0];
+    const result = await query(
+      `SELECT c.*, s.name as store_name, r.receipt_number, r.total_amount, r.client_created_at,
+              u.first_name || ' ' || u.last_name as cashier_name,
+              rb.first_name || ' ' || rb.last_name as resolved_by_name
+       FROM pos_sync_conflicts c
+       LEFT JOIN stores s ON c.store_id = s.id
+       LEFT JOIN sales_receipts r ON c.receipt_id = r.id
+       LEFT JOIN users u ON c.created_by = u.id
+       LEFT JOIN users rb ON c.resolved_by = rb.id
+       WHERE ${where}
+       ORDER BY c.created_at DESC
+       LIMIT 200`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Mark a sync conflict as reviewed
+   */
+  static async resolveSyncConflict(ctx: TenantContext, conflictId: string, notes?: string) {
+    const result = await query(
+      `UPDATE pos_sync_conflicts
+       SET status = 'resolved', resolution_notes = $3, resolved_by = $4, resolved_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status = 'open'
+       RETURNING *`,
+      [conflictId, ctx.tenantId, notes || null, ctx.userId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Conflict not found or already resolved');
+    }
+    const conflict = result.rows[0];
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.SYNC_CONFLICT_RESOLVED,
+      entityType: 'pos_sync_conflict',
+      entityId: conflict.id,
+      storeId: conflict.store_id,
+      afterData: { conflictType: conflict.conflict_type, receiptId: conflict.receipt_id, notes }
     });
+
+    return conflict;
   }
 
   /**
    * Process a refund/return
+   * Tenders left out default to the ones the sale was paid with.
    */
   static async processRefund(
     ctx: TenantContext,
     originalReceiptId: string,
     linesToRefund: Array<{ lineId: string; quantity: number; reason?: string }>,
-    payments: Payment[]
-  ): Promise<SalesReceipt> {
+    tenders?: Payment[]
+  ) {
     return withTransaction(async (client) => {
-      // Get original receipt
-      const originalResult = await client.query<SalesReceipt>(
-        `SELECT * FROM sales_receipts WHERE id = $1 AND tenant_id = $2`,
-        [originalReceiptId, ctx.tenantId]
-      );
-
-      if (originalResult.rows.length === 0) {
-        throw new Error('Original receipt not found');
+      // Get original receipt and lines
+      const { original, lines: originalLines } = await this.getReturnableLines(client, ctx.tenantId, originalReceiptId);
+      if (original.type !== 'sale' || !['completed', 'refunded'].includes(original.status)) {
+        throw AppError.badRequest('Only completed sales can be refunded');
       }
+      await assertStoreAccess(ctx, original.store_id);
 
-      const original = originalResult.rows[0];
-
-      // Get original lines
-      const originalLines = await client.query<SalesLine>(
-        `SELECT * FROM sales_lines WHERE receipt_id = $1`,
-        [originalReceiptId]
-      );
-
-      const lineMap = new Map(originalLines.rows.map(l => [l.id, l]));
+      const lineMap = new Map(originalLines.map(l => [l.id, l]));
 
       // Validate refund quantities
-      const refundLines: SalesLine[] = [];
+      const refundLines = [];
       let refundTotal = 0;
 
       for (const refund of linesToRefund) {
         const originalLine = lineMap.get(refund.lineId);
         if (!originalLine) {
-          throw new Error(`Line ${refund.lineId} not found in original receipt`);
+          throw AppError.badRequest(`Line ${refund.lineId} not found in original receipt`);
         }
-        if (refund.quantity > originalLine.quantity) {
-          throw new Error(`Refund quantity exceeds original quantity for line ${refund.lineId}`);
+        const originalQty = parseFloat(originalLine.quantity);
+        if (refund.quantity > originalQty - parseFloat(originalLine.returned_quantity)) {
+          throw AppError.badRequest(`Refund quantity exceeds the quantity left to return for line ${refund.lineId}`);
         }
 
-        const ratio = refund.quantity / originalLine.quantity;
-        const lineTotal = originalLine.lineTotal * ratio;
+        const ratio = refund.quantity / originalQty;
+        const lineTotal = parseFloat(originalLine.line_total) * ratio;
         refundTotal += lineTotal;
 
-        refundLines.push({
-          ...originalLine,
-          quantity: refund.quantity,
-          lineTotal
-        } as SalesLine);
+        refundLines.push({ ...originalLine, quantity: refund.quantity, line_total: lineTotal });
       }
 
-      // Generate receipt number
-      const receiptNumber = await this.generateReceiptNumber(ctx.tenantId, original.storeId, client);
+      // Without tenders given, the refund goes back the way the sale was paid
+      const refundable = await this.refundableTenders(client, original);
+      const payout = roundMoney(refundTotal * refundable.paidShare);
+      let payments: Payment[];
+      if (tenders && tenders.length > 0) {
+        this.assertRefundTenders(tenders, refundable, payout);
+        payments = tenders;
+      } else {
+        payments = this.defaultRefundTenders(refundable, payout);
+      }
+
+      const shiftId = await this.findOpenShift(client, ctx, original.store_id);
+      const receiptNumber = await this.generateReceiptNumber(ctx.tenantId, client);
 
       // Create refund receipt
       const refundId = uuidv4();
-      const refundResult = await client.query<SalesReceipt>(
+      const refundResult = await client.query(
         `INSERT INTO sales_receipts (
           id, tenant_id, store_id, shift_id, cashier_id, customer_id,
           receipt_number, receipt_date, type, status,
@@ -288,7 +665,7 @@ export class POSService {
                   $8, 0, 0, $8, $8, 0, $9, $10)
         RETURNING *`,
         [
-          refundId, ctx.tenantId, original.storeId, null, ctx.userId, original.customerId,
+          refundId, ctx.tenantId, original.store_id, shiftId || null, ctx.userId, original.customer_id,
           receiptNumber,
           -refundTotal,
           JSON.stringify(payments),
@@ -301,39 +678,107 @@ export class POSService {
         await client.query(
           `INSERT INTO sales_lines (
             id, tenant_id, receipt_id, line_number,
-            product_id, variant_id, uom_id, sku, name,
-            quantity, unit_price, discount_amount, tax_rate, tax_amount, line_total, cost_price
+            product_id, sku, name,
+            quantity, unit_price, discount_amount, tax_rate, tax_amount, line_total, cost_price, gift_card_id,
+            original_line_id
           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
           [
-            uuidv4(), ctx.tenantId, refundId, line.lineNumber,
-            line.productId, line.variantId, line.uomId, line.sku, line.name,
-            -line.quantity, line.unitPrice, line.discountAmount, line.taxRate, line.taxAmount, -line.lineTotal, line.costPrice
+            uuidv4(), ctx.tenantId, refundId, line.line_number,
+            line.product_id, line.sku, line.name,
+            -line.quantity, line.unit_price, line.discount_amount, line.tax_rate, line.tax_amount,
+            -line.line_total, line.cost_price, line.gift_card_id, line.id
           ]
         );
 
         // Restore inventory
-        await InventoryService.recordMovement(
-          ctx,
-          original.storeId,
-          {
-            productId: line.productId || undefined,
-            variantId: line.variantId || undefined,
-            uomId: line.uomId || undefined,
-            quantity: line.quantity, // Positive for return
-            costPrice: line.costPrice,
-            referenceType: 'RETURN',
-            referenceId: refundId
-          },
-          client
+        if (line.product_id) {
+          await InventoryService.recordMovement(
+            ctx,
+            original.store_id,
+            {
+              productId: line.product_id,
+              quantity: line.quantity, // Positive for return
+              costPrice: parseFloat(line.cost_price) || undefined,
+              referenceType: 'return',
+              referenceId: refundId
+            },
+            client
+          );
+        }
+      }
+
+      // Refunded gift cards lose the refunded value; refunds paid to a gift card credit it
+      await GiftCardService.applyRefund(
+        client,
+        ctx,
+        { storeId: original.store_id, refundId, receiptNumber },
+        refundLines.flatMap(line => line.gift_card_id ? [{ giftCardId: line.gift_card_id, amount: line.line_total }] : []),
+        payments
+      );
+      // Card payments taken on the terminal are refunded to the same card
+      payments = await PaymentTerminalService.refund(client, ctx, { storeId: original.store_id, refundId }, payments);
+      refundResult.rows[0].payments = payments;
+
+      // Points go back in proportion to the refund; a fully returned sale also gives
+      // its vouchers and promotion uses back. Returned points and voucher value are
+      // recorded on the refund instead of being paid out.
+      const originalTotal = parseFloat(original.total_amount);
+      const returnedPayments = await LoyaltyService.reverseForRefund(client, ctx, {
+        customerId: original.customer_id || undefined,
+        refundId,
+        receiptNumber,
+        ratio: originalTotal > 0 ? Math.min(1, refundTotal / originalTotal) : 0,
+        pointsEarned: parseFloat(original.loyalty_points_earned) || 0,
+        pointsRedeemed: parseFloat(original.loyalty_points_redeemed) || 0,
+        redeemedAmount: (original.payments as Payment[] || [])
+          .filter(p => p.method === 'loyalty')
+          .reduce((sum, p) => sum + p.amount, 0)
+      });
+
+      const fullyRefunded = await this.isFullyRefunded(client, originalReceiptId);
+      if (fullyRefunded) {
+        returnedPayments.push(...await VoucherService.reverseRedemptions(
+          client, ctx.tenantId, originalReceiptId, refundId
+        ));
+      }
+      if (returnedPayments.length > 0) {
+        await client.query(
+          `UPDATE sales_receipts SET payments = payments || $1::jsonb WHERE id = $2`,
+          [JSON.stringify(returnedPayments), refundId]
+        );
+        refundResult.rows[0].payments = [...payments, ...returnedPayments];
+      }
+      if (fullyRefunded) {
+        const discounts: DiscountDetail[] = original.discount_details || [];
+        await PromotionService.releaseUsage(
+          client,
+          ctx.tenantId,
+          discounts.flatMap(d => d.type === 'promotion' && d.promotionId ? [d.promotionId] : [])
         );
       }
 
       // Update original receipt status
       await client.query(
-        `UPDATE sales_receipts SET status = 'refunded' WHERE id = $1`,
+        `UPDATE sales_receipts SET status = 'refunded', updated_at = NOW() WHERE id = $1`,
         [originalReceiptId]
       );
 
+      // Refunds rung up during a shift come out of its totals
+      if (shiftId) {
+        const cashPayment = payments.filter(p => p.method === 'cash').reduce((sum, p) => sum + p.amount, 0);
+        const cardPayment = payments.filter(p => p.method === 'card').reduce((sum, p) => sum + p.amount, 0);
+        await client.query(
+          `UPDATE shifts SET
+            total_refunds = total_refunds - $1,
+            total_cash_payments = total_cash_payments - $2,
+            total_card_payments = total_card_payments - $3,
+            transaction_count = transaction_count + 1,
+            updated_at = NOW()
+          WHERE id = $4 AND tenant_id = $5`,
+          [refundTotal, cashPayment, cardPayment, shiftId, ctx.tenantId]
+        );
+      }
+
       // Queue event
       await EventService.queueEvent(ctx.tenantId, {
         eventType: EventService.EVENT_TYPES.RECEIPT_REFUNDED,
@@ -344,21 +789,465 @@ export class POSService {
           refundAmount: refundTotal,
           lineCount: refundLines.length
         }
-      });
+      }, client);
 
       // Audit log
       await AuditService.log(ctx, {
         action: AuditService.ACTIONS.REFUND_ISSUED,
         entityType: 'sales_receipt',
         entityId: refundId,
-        storeId: original.storeId,
+        storeId: original.store_id,
         afterData: { originalReceiptId, refundAmount: refundTotal }
-      });
+      }, client);
 
       return refundResult.rows[0];
     });
   }
 
+  /**
+   * Exchange: return lines of an earlier sale and sell new items on one receipt
+   * The receipt total is the difference; the customer pays it when positive and
+   * is paid back when negative, with the same tender checks and card terminal
+   * refund as a refund (no tenders given pays back the sale's). Returned items
+   * are credited at the share of their price paid with those tenders: points
+   * and vouchers spent on the original sale stay spent. Earned points are taken
+   * back for the returned share and earned on the new items.
+   */
+  static async processExchange(ctx: TenantContext, input: ExchangeInput) {
+    if (input.payments.some(p => p.method === 'voucher' || p.method === 'loyalty')) {
+      throw AppError.badRequest('Exchanges are settled in cash, card, wallet or gift card');
+    }
+
+    return withTransaction(async (client) => {
+      const { original, lines: originalLines } = await this.getReturnableLines(
+        client, ctx.tenantId, input.originalReceiptId
+      );
+      if (original.type !== 'sale' || !['completed', 'refunded'].includes(original.status)) {
+        throw AppError.badRequest('Only completed sales can be exchanged');
+      }
+      await assertStoreAccess(ctx, original.store_id);
+      const refundable = await this.refundableTenders(client, original);
+
+      // Returned lines are credited in proportion to the quantity brought back,
+      // less the share of the sale paid with points and vouchers
+      const lineMap = new Map(originalLines.map(l => [l.id, l]));
+      const returnedLines = input.returnLines.map(returned => {
+        const line = lineMap.get(returned.lineId);
+        if (!line) {
+          throw AppError.badRequest(`Line ${returned.lineId} not found in original receipt`);
+        }
+        if (line.gift_card_id) {
+          throw AppError.badRequest('Gift cards cannot be exchanged');
+        }
+        const originalQty = parseFloat(line.quantity);
+        if (returned.quantity > originalQty - parseFloat(line.returned_quantity)) {
+          throw AppError.badRequest(`Return quantity exceeds the quantity left to return for ${line.name}`);
+        }
+        const ratio = returned.quantity / originalQty;
+        return {
+          line,
+          quantity: returned.quantity,
+          reason: returned.reason,
+          discountAmount: parseFloat(line.discount_amount) * ratio,
+          taxAmount: parseFloat(line.tax_amount) * ratio * refundable.paidShare,
+          value: parseFloat(line.line_total) * ratio,
+          lineTotal: parseFloat(line.line_total) * ratio * refundable.paidShare
+        };
+      });
+      const returnTotal = roundMoney(returnedLines.reduce((sum, r) => sum + r.lineTotal, 0));
+      const returnValue = returnedLines.reduce((sum, r) => sum + r.value, 0);
+
+      // New items are checked and priced like a sale
+      const stockIssues = await this.findStockIssues(client, ctx.tenantId, input.storeId, input.items);
+      if (stockIssues.length > 0) {
+        const issueList = stockIssues
+          .map(i => `${i.name}: requested ${i.requested}, available ${i.available}`)
+          .join('; ');
+        throw AppError.badRequest(`Insufficient stock: ${issueList}`, { stockIssues });
+      }
+      const customerId = original.customer_id || undefined;
+      const pricing = await PricingService.priceCart(ctx.tenantId, {
+        storeId: input.storeId,
+        customerId,
+        items: input.items,
+        couponCodes: input.couponCodes
+      }, client);
+      this.assertPricingMatches(input, pricing);
+      const newLines = this.calculateLines(this.applyPricing(input.items, pricing), returnedLines.length + 1);
+      const newTotal = roundMoney(newLines.reduce((sum, line) => sum + line.lineTotal, 0));
+      const promotionDetails: DiscountDetail[] = pricing.promotions.map(p => ({
+        type: 'promotion' as const,
+        promotionId: p.promotionId,
+        code: p.code,
+        description: p.name,
+        amount: p.amount
+      }));
+
+      const totalAmount = roundMoney(newTotal - returnTotal);
+      let payments = input.payments;
+      if (totalAmount >= 0) {
+        const owed = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+        if (owed < totalAmount) {
+          throw AppError.badRequest(`The customer owes ${totalAmount.toFixed(2)}; payments cover ${owed.toFixed(2)}`);
+        }
+        this.assertTenders(payments, totalAmount);
+      } else if (payments.length > 0) {
+        this.assertRefundTenders(payments, refundable, -totalAmount);
+      } else {
+        payments = this.defaultRefundTenders(refundable, -totalAmount);
+      }
+      const paidAmount = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+      const changeAmount = totalAmount >= 0 ? roundMoney(paidAmount - totalAmount) : 0;
+
+      const shiftId = input.shiftId
+        ? await this.resolveShift(client, ctx, input.storeId, input.shiftId)
+        : await this.findOpenShift(client, ctx, input.storeId);
+      const receiptNumber = await this.generateReceiptNumber(ctx.tenantId, client);
+      const exchangeId = uuidv4();
+
+      const originalTotal = parseFloat(original.total_amount);
+      await LoyaltyService.reverseForRefund(client, ctx, {
+        customerId,
+        refundId: exchangeId,
+        receiptNumber,
+        ratio: originalTotal > 0 ? Math.min(1, returnValue / originalTotal) : 0,
+        pointsEarned: parseFloat(original.loyalty_points_earned) || 0,
+        pointsRedeemed: 0,
+        redeemedAmount: 0
+      });
+      const loyalty = await LoyaltyService.applySale(client, ctx, {
+        customerId,
+        receiptId: exchangeId,
+        receiptNumber,
+        lines: newLines.map(line => ({ productId: line.productId, lineTotal: line.lineTotal })),
+        totalAmount: newTotal,
+        payments: []
+      });
+
+      // Returned tax comes off under the tax code the original sale used
+      const originalTaxes: TaxDetail[] = original.tax_details || [];
+      const returnedTax = returnedLines.map(r => {
+        const rate = parseFloat(r.line.tax_rate) || 0;
+        const tax = originalTaxes.find(t => Number(t.rate) === rate);
+        return { taxRate: rate, taxCode: tax?.code, taxName: tax?.name, taxAmount: -r.taxAmount };
+      });
+      const receiptResult = await client.query(
+        `INSERT INTO sales_receipts (
+          id, tenant_id, store_id, shift_id, cashier_id, customer_id,
+          receipt_number, receipt_date, type, status,
+          subtotal, discount_amount, tax_amount, total_amount,
+          paid_amount, change_amount, discount_details, tax_details, payments,
+          loyalty_points_earned, original_receipt_id, notes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), 'exchange', 'completed',
+                  $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+        RETURNING *`,
+        [
+          exchangeId, ctx.tenantId, input.storeId, shiftId || null, ctx.userId, customerId || null,
+          receiptNumber,
+          newLines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)
+            - returnedLines.reduce((sum, r) => sum + r.quantity * parseFloat(r.line.unit_price), 0),
+          newLines.reduce((sum, line) => sum + line.discountAmount, 0)
+            - returnedLines.reduce((sum, r) => sum + r.discountAmount, 0),
+          newLines.reduce((sum, line) => sum + line.taxAmount, 0)
+            - returnedLines.reduce((sum, r) => sum + r.taxAmount, 0),
+          totalAmount,
+          totalAmount >= 0 ? paidAmount : -paidAmount,
+          changeAmount,
+          JSON.stringify(promotionDetails),
+          JSON.stringify(this.calculateTaxDetails([...newLines, ...returnedTax])),
+          JSON.stringify(payments),
+          loyalty.pointsEarned,
+          input.originalReceiptId,
+          input.notes || null
+        ]
+      );
+
+      // Returned lines come first and put the stock back
+      for (const [index, returned] of returnedLines.entries()) {
+        const lineId = uuidv4();
+        const line = returned.line;
+        await client.query(
+          `INSERT INTO sales_lines (
+            id, tenant_id, receipt_id, line_number,
+            product_id, sku, name,
+            quantity, unit_price, discount_amount, tax_rate, tax_amount, line_total, cost_price,
+            original_line_id, notes
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+          [
+            lineId, ctx.tenantId, exchangeId, index + 1,
+            line.product_id, line.sku, line.name,
+            -returned.quantity, line.unit_price, -returned.discountAmount, line.tax_rate, -returned.taxAmount,
+            -returned.lineTotal, line.cost_price, line.id, returned.reason || null
+          ]
+        );
+        if (line.product_id) {
+          await InventoryService.recordMovement(
+            ctx,
+            input.storeId,
+            {
+              productId: line.product_id,
+              quantity: returned.quantity,
+              costPrice: parseFloat(line.cost_price) || undefined,
+              referenceType: 'return',
+              referenceId: exchangeId,
+              referenceLineId: lineId
+            },
+            client
+          );
+        }
+      }
+
+      for (const line of newLines) {
+        const lineId = uuidv4();
+        await client.query(
+          `INSERT INTO sales_lines (
+            id, tenant_id, receipt_id, line_number,
+            product_id, sku, name,
+            quantity, unit_price, discount_amount, tax_rate, tax_amount, line_total, cost_price,
+            promotion_id, notes
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+          [
+            lineId, ctx.tenantId, exchangeId, line.lineNumber,
+            line.productId, line.sku, line.name,
+            line.quantity, line.unitPrice, line.discountAmount, line.taxRate || 0, line.taxAmount,
+            line.lineTotal, line.costPrice || 0, line.promotionId || null, line.notes || null
+          ]
+        );
+        await InventoryService.recordMovement(
+          ctx,
+          input.storeId,
+          {
+            productId: line.productId,
+            quantity: -line.quantity,
+            costPrice: line.costPrice,
+            referenceType: 'sale',
+            referenceId: exchangeId,
+            referenceLineId: lineId
+          },
+          client
+        );
+      }
+
+      await PromotionService.recordUsage(
+        client,
+        ctx.tenantId,
+        promotionDetails.flatMap(p => p.promotionId ? [p.promotionId] : [])
+      );
+      const reference = { storeId: input.storeId, receiptNumber };
+      if (totalAmount > 0) {
+        await GiftCardService.redeem(client, ctx, { ...reference, receiptId: exchangeId }, payments);
+        receiptResult.rows[0].payments = await PaymentTerminalService.capture(client, ctx, exchangeId, payments);
+      } else if (totalAmount < 0) {
+        await GiftCardService.applyRefund(client, ctx, { ...reference, refundId: exchangeId }, [], payments);
+        // Card payments taken on the terminal are refunded to the same card
+        receiptResult.rows[0].payments = await PaymentTerminalService.refund(
+          client, ctx, { storeId: input.storeId, refundId: exchangeId }, payments
+        );
+      }
+
+      // The difference is a sale or a refund in the shift totals
+      if (shiftId) {
+        const sign = totalAmount >= 0 ? 1 : -1;
+        const cashPayment = payments
+          .filter(p => p.method === 'cash')
+          .reduce((sum, p) => sum + p.amount, 0);
+        const cardPayment = payments
+          .filter(p => p.method === 'card')
+          .reduce((sum, p) => sum + p.amount, 0);
+
+        await client.query(
+          `UPDATE shifts SET
+            total_sales = total_sales + $1,
+            total_refunds = total_refunds + $2,
+            total_cash_payments = total_cash_payments + $3,
+            total_card_payments = total_card_payments + $4,
+            transaction_count = transaction_count + 1,
+            updated_at = NOW()
+          WHERE id = $5 AND tenant_id = $6`,
+          [
+            Math.max(totalAmount, 0), Math.min(totalAmount, 0),
+            sign * cashPayment - changeAmount, sign * cardPayment, shiftId, ctx.tenantId
+          ]
+        );
+      }
+
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.EXCHANGE_COMPLETED,
+        entityType: 'sales_receipt',
+        entityId: exchangeId,
+        payload: {
+          receiptNumber,
+          originalReceiptId: input.originalReceiptId,
+          storeId: input.storeId,
+          returnTotal,
+          newTotal,
+          totalAmount
+        }
+      }, client);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.EXCHANGE_COMPLETED,
+        entityType: 'sales_receipt',
+        entityId: exchangeId,
+        storeId: input.storeId,
+        afterData: { receiptNumber, originalReceiptId: input.originalReceiptId, returnTotal, newTotal, totalAmount }
+      }, client);
+
+      return { receipt: receiptResult.rows[0], returnTotal, newTotal };
+    });
+  }
+
+  /**
+   * Void a completed sale while its shift is still open
+   * Stock, gift cards, points, vouchers and promotion uses are put back and the
+   * shift totals reduced. The receipt keeps its number and prints as a VOID receipt.
+   * Cashiers without POS_VOID need a supervisor's approval (checked by the route).
+   */
+  static async voidSale(
+    ctx: TenantContext,
+    receiptId: string,
+    input: { reason: string; approvedBy?: string }
+  ) {
+    return withTransaction(async (client) => {
+      const receiptResult = await client.query(
+        `SELECT * FROM sales_receipts WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+        [receiptId, ctx.tenantId]
+      );
+      if (receiptResult.rows.length === 0) {
+        throw AppError.notFound('Receipt not found');
+      }
+      const receipt = receiptResult.rows[0];
+      await assertStoreAccess(ctx, receipt.store_id);
+
+      if (receipt.type !== 'sale' || receipt.status !== 'completed') {
+        throw AppError.badRequest(`Only completed sales can be voided; this receipt is ${receipt.status}`);
+      }
+      const refunds = await client.query(
+        `SELECT 1 FROM sales_receipts WHERE original_receipt_id = $1 AND type IN ('refund', 'exchange') LIMIT 1`,
+        [receiptId]
+      );
+      if (refunds.rows.length > 0) {
+        throw AppError.badRequest('This sale has refunds or exchanges against it and can no longer be voided');
+      }
+      const shiftResult = receipt.shift_id
+        ? await client.query(
+          `SELECT id FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open' FOR UPDATE`,
+          [receipt.shift_id, ctx.tenantId]
+        )
+        : { rows: [] };
+      if (shiftResult.rows.length === 0) {
+        throw AppError.badRequest('Sales can only be voided during the shift that rang them up; refund it instead');
+      }
+
+      const linesResult = await client.query(
+        `SELECT * FROM sales_lines WHERE receipt_id = $1 ORDER BY line_number`,
+        [receiptId]
+      );
+
+      // Put the stock back
+      for (const line of linesResult.rows) {
+        if (!line.product_id) continue;
+        await InventoryService.recordMovement(
+          ctx,
+          receipt.store_id,
+          {
+            productId: line.product_id,
+            quantity: parseFloat(line.quantity),
+            costPrice: parseFloat(line.cost_price) || undefined,
+            referenceType: 'void',
+            referenceId: receiptId,
+            referenceLineId: line.id
+          },
+          client
+        );
+      }
+
+      // Gift cards sold lose their value again; gift card payments are credited back
+      const payments: Payment[] = receipt.payments || [];
+      await GiftCardService.applyRefund(
+        client,
+        ctx,
+        { storeId: receipt.store_id, refundId: receiptId, receiptNumber: receipt.receipt_number },
+        linesResult.rows.flatMap(line => line.gift_card_id
+          ? [{ giftCardId: line.gift_card_id, amount: parseFloat(line.line_total) }]
+          : []),
+        payments
+      );
+      await LoyaltyService.reverseForRefund(client, ctx, {
+        customerId: receipt.customer_id || undefined,
+        refundId: receiptId,
+        receiptNumber: receipt.receipt_number,
+        ratio: 1,
+        pointsEarned: parseFloat(receipt.loyalty_points_earned) || 0,
+        pointsRedeemed: parseFloat(receipt.loyalty_points_redeemed) || 0,
+        redeemedAmount: payments.filter(p => p.method === 'loyalty').reduce((sum, p) => sum + p.amount, 0)
+      });
+      await VoucherService.reverseRedemptions(client, ctx.tenantId, receiptId, receiptId);
+      const discounts: DiscountDetail[] = receipt.discount_details || [];
+      await PromotionService.releaseUsage(
+        client,
+        ctx.tenantId,
+        discounts.flatMap(d => d.type === 'promotion' && d.promotionId ? [d.promotionId] : [])
+      );
+
+      await PaymentTerminalService.reverse(client, ctx, receipt.store_id, payments);
+
+      // Take the sale back out of the shift totals
+      const totalAmount = parseFloat(receipt.total_amount);
+      const cashPayment = payments.filter(p => p.method === 'cash').reduce((sum, p) => sum + p.amount, 0);
+      const cardPayment = payments.filter(p => p.method === 'card').reduce((sum, p) => sum + p.amount, 0);
+      await client.query(
+        `UPDATE shifts SET
+          total_sales = total_sales - $1,
+          total_cash_payments = total_cash_payments - $2,
+          total_card_payments = total_card_payments - $3,
+          transaction_count = GREATEST(transaction_count - 1, 0),
+          total_voids = total_voids + $1,
+          void_count = void_count + 1,
+          updated_at = NOW()
+        WHERE id = $4 AND tenant_id = $5`,
+        [totalAmount, cashPayment - parseFloat(receipt.change_amount), cardPayment, receipt.shift_id, ctx.tenantId]
+      );
+
+      const voidResult = await client.query(
+        `UPDATE sales_receipts SET
+          status = 'voided', voided_at = NOW(), voided_by = $1, void_approved_by = $2, void_reason = $3,
+          updated_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [ctx.userId, input.approvedBy || null, input.reason, receiptId]
+      );
+
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.SALE_VOIDED,
+        entityType: 'sales_receipt',
+        entityId: receiptId,
+        payload: {
+          receiptNumber: receipt.receipt_number,
+          storeId: receipt.store_id,
+          totalAmount,
+          reason: input.reason
+        }
+      }, client);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SALE_VOIDED,
+        entityType: 'sales_receipt',
+        entityId: receiptId,
+        storeId: receipt.store_id,
+        beforeData: { status: receipt.status },
+        afterData: {
+          receiptNumber: receipt.receipt_number,
+          totalAmount,
+          reason: input.reason,
+          approvedBy: input.approvedBy
+        }
+      }, client);
+
+      return voidResult.rows[0];
+    });
+  }
+
   /**
    * Park a sale for later
    */
@@ -381,10 +1270,10 @@ export class POSService {
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW() + INTERVAL '24 hours')
       RETURNING id`,
       [
-        uuidv4(), ctx.tenantId, storeId, ctx.userId, customerId,
+        uuidv4(), ctx.tenantId, storeId, ctx.userId, customerId || null,
         name || 'Parked Sale',
         JSON.stringify(items),
-        subtotal, discountAmount, notes
+        subtotal, discountAmount, notes || null
       ]
     );
 
@@ -405,22 +1294,17 @@ export class POSService {
     ctx: TenantContext,
     parkedSaleId: string
   ): Promise<{ items: CartItem[]; customerId?: string; notes?: string }> {
-    const result = await query<{ items: string; customer_id: string; notes: string }>(
-      `SELECT items, customer_id, notes FROM parked_sales 
-       WHERE id = $1 AND tenant_id = $2`,
+    const result = await query<{ items: CartItem[]; customer_id: string; notes: string }>(
+      `DELETE FROM parked_sales
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING items, customer_id, notes`,
       [parkedSaleId, ctx.tenantId]
     );
 
     if (result.rows.length === 0) {
-      throw new Error('Parked sale not found');
+      throw AppError.notFound('Parked sale not found');
     }
 
-    // Delete the parked sale
-    await query(
-      `DELETE FROM parked_sales WHERE id = $1`,
-      [parkedSaleId]
-    );
-
     await AuditService.log(ctx, {
       action: AuditService.ACTIONS.SALE_RECALLED,
       entityType: 'parked_sale',
@@ -428,7 +1312,7 @@ export class POSService {
     });
 
     return {
-      items: JSON.parse(result.rows[0].items),
+      items: result.rows[0].items,
       customerId: result.rows[0].customer_id,
       notes: result.rows[0].notes
     };
@@ -441,7 +1325,7 @@ export class POSService {
     tenantId: string,
     storeId: string
   ): Promise<Array<{ id: string; name: string; itemCount: number; subtotal: number; parkedAt: Date }>> {
-    const result = await query<{ id: string; name: string; items: string; subtotal: number; parked_at: Date }>(
+    const result = await query<{ id: string; name: string; items: CartItem[]; subtotal: string; parked_at: Date }>(
       `SELECT id, name, items, subtotal, parked_at FROM parked_sales 
        WHERE tenant_id = $1 AND store_id = $2 AND expires_at > NOW()
        ORDER BY parked_at DESC`,
@@ -451,267 +1335,349 @@ export class POSService {
     return result.rows.map(row => ({
       id: row.id,
       name: row.name,
-      itemCount: JSON.parse(row.items).length,
-      subtotal: row.subtotal,
+      itemCount: row.items.length,
+      subtotal: parseFloat(row.subtotal),
       parkedAt: row.parked_at
     }));
   }
 
   /**
-   * Open a new shift
+   * Get receipt by number or ID
    */
-  static async openShift(
-    ctx: TenantContext,
-    storeId: string,
-    openingCash: number,
-    registerId?: string
-  ): Promise<Shift> {
-    // Check if there's already an open shift for this user
-    const existingResult = await query<{ id: string }>(
-      `SELECT id FROM shifts 
-       WHERE tenant_id = $1 AND cashier_id = $2 AND status = 'open'`,
-      [ctx.tenantId, ctx.userId]
+  static async getReceipt(tenantId: string, identifier: string): Promise<(QueryResultRow & { lines: QueryResultRow[] }) | null> {
+    const receiptResult = await query(
+      `SELECT * FROM sales_receipts 
+       WHERE tenant_id = $1 AND (id::text = $2 OR receipt_number = $2)`,
+      [tenantId, identifier]
     );
 
-    if (existingResult.rows.length > 0) {
-      throw new Error('You already have an open shift. Please close it first.');
+    if (receiptResult.rows.length === 0) {
+      return null;
     }
 
-    const shiftNumber = await this.generateShiftNumber(ctx.tenantId, storeId);
+    const receipt = receiptResult.rows[0];
 
-    const result = await query<Shift>(
-      `INSERT INTO shifts (
-        id, tenant_id, store_id, cashier_id, register_id, shift_number,
-        opened_at, opening_cash, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7, 'open')
-      RETURNING *`,
-      [
-        uuidv4(), ctx.tenantId, storeId, ctx.userId, registerId, shiftNumber, openingCash
-      ]
+    const linesResult = await query(
+      `SELECT ol.*, ${RETURNED_QUANTITY_SQL} as returned_quantity
+       FROM sales_lines ol
+       WHERE ol.receipt_id = $1
+       ORDER BY ol.line_number`,
+      [receipt.id]
     );
 
-    await AuditService.log(ctx, {
-      action: AuditService.ACTIONS.SHIFT_OPENED,
-      entityType: 'shift',
-      entityId: result.rows[0].id,
-      storeId,
-      afterData: { openingCash }
-    });
-
-    return result.rows[0];
+    return {
+      ...receipt,
+      lines: linesResult.rows
+    };
   }
 
   /**
-   * Close a shift
+   * Search receipts (receipt number, customer phone or name)
    */
-  static async closeShift(
-    ctx: TenantContext,
-    shiftId: string,
-    closingCash: number,
-    notes?: string
-  ): Promise<Shift> {
-    // Get shift with calculations
-    const shiftResult = await query<Shift>(
-      `SELECT * FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open'`,
-      [shiftId, ctx.tenantId]
-    );
+  static async searchReceipts(
+    tenantId: string,
+    options: {
+      storeId?: string;
+      startDate?: string;
+      endDate?: string;
+      search?: string;
+      status?: string;
+      paymentMethod?: string;
+      type?: string;
+      limit: number;
+      offset: number;
+    }
+  ) {
+    const params: unknown[] = [tenantId];
+    let where = 'sr.tenant_id = $1';
 
-    if (shiftResult.rows.length === 0) {
-      throw new Error('Shift not found or already closed');
+    if (options.storeId) {
+      params.push(options.storeId);
+      where += ` AND sr.store_id = $${params.length}`;
+    }
+    if (options.startDate) {
+      params.push(options.startDate);
+      where += ` AND sr.receipt_date >= $${params.length}`;
+    }
+    if (options.endDate) {
+      params.push(`${options.endDate} 23:59:59`);
+      where += ` AND sr.receipt_date <= $${params.length}`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      where += ` AND (sr.receipt_number ILIKE $${params.length} OR c.phone ILIKE $${params.length} OR c.first_name ILIKE $${params.length})`;
+    }
+    if (options.status) {
+      params.push(options.status);
+      where += ` AND sr.status = $${params.length}`;
+    }
+    if (options.paymentMethod) {
+      params.push(JSON.stringify([{ method: options.paymentMethod }]));
+      where += ` AND sr.payments @> $${params.length}::jsonb`;
+    }
+    if (options.type) {
+      params.push(options.type);
+      where += ` AND sr.type = $${params.length}`;
     }
 
-    const shift = shiftResult.rows[0];
-    
-    // Calculate expected cash
-    const cashMovementsResult = await query<{ total: string }>(
-      `SELECT COALESCE(SUM(CASE WHEN type IN ('cash_in', 'drop') THEN amount 
-                              WHEN type IN ('cash_out', 'pickup') THEN -amount 
-                              ELSE 0 END), 0) as total
-       FROM shift_cash_movements WHERE shift_id = $1`,
-      [shiftId]
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count
+       FROM sales_receipts sr
+       LEFT JOIN customers c ON c.id = sr.customer_id
+       WHERE ${where}`,
+      params
     );
 
-    const cashMovements = parseFloat(cashMovementsResult.rows[0].total);
-    const expectedCash = shift.openingCash + shift.totalCashPayments + cashMovements;
-    const cashDifference = closingCash - expectedCash;
-
-    const result = await query<Shift>(
-      `UPDATE shifts SET 
-        closed_at = NOW(),
-        closing_cash = $1,
-        expected_cash = $2,
-        cash_difference = $3,
-        notes = $4,
-        status = 'closed'
-      WHERE id = $5
-      RETURNING *`,
-      [closingCash, expectedCash, cashDifference, notes, shiftId]
+    const result = await query(
+      `SELECT sr.id, sr.receipt_number, sr.receipt_date, sr.total_amount, sr.status, sr.type,
+              sr.payments, sr.customer_id,
+              s.name as store_name,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as cashier_name,
+              c.first_name || ' ' || COALESCE(c.last_name, '') as customer_name,
+              c.phone as customer_phone, c.email as customer_email
+       FROM sales_receipts sr
+       LEFT JOIN stores s ON s.id = sr.store_id
+       LEFT JOIN users u ON u.id = sr.cashier_id
+       LEFT JOIN customers c ON c.id = sr.customer_id
+       WHERE ${where}
+       ORDER BY sr.receipt_date DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset]
     );
 
-    await AuditService.log(ctx, {
-      action: AuditService.ACTIONS.SHIFT_CLOSED,
-      entityType: 'shift',
-      entityId: shiftId,
-      storeId: shift.storeId,
-      beforeData: { openingCash: shift.openingCash },
-      afterData: { closingCash, expectedCash, cashDifference }
-    });
-
-    return result.rows[0];
+    return {
+      receipts: result.rows,
+      total: parseInt(countResult.rows[0].count),
+      limit: options.limit,
+      offset: options.offset
+    };
   }
 
+  // Helper methods
   /**
-   * Record cash in/out during shift
+   * Whether every line of a sale has been returned across its refunds and exchanges
    */
-  static async recordCashMovement(
-    ctx: TenantContext,
-    shiftId: string,
-    type: 'cash_in' | 'cash_out' | 'drop' | 'pickup',
-    amount: number,
-    reason?: string,
-    notes?: string,
-    approvedBy?: string
-  ): Promise<void> {
-    await query(
-      `INSERT INTO shift_cash_movements (
-        id, tenant_id, shift_id, type, amount, reason, notes, approved_by, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        uuidv4(), ctx.tenantId, shiftId, type, amount, reason, notes, approvedBy, ctx.userId
-      ]
+  private static async isFullyRefunded(client: PoolClient, receiptId: string): Promise<boolean> {
+    const result = await client.query(
+      `SELECT 1
+       FROM sales_lines ol
+       WHERE ol.receipt_id = $1 AND ol.quantity > ${RETURNED_QUANTITY_SQL}
+       LIMIT 1`,
+      [receiptId]
     );
-
-    await AuditService.log(ctx, {
-      action: type === 'cash_in' || type === 'drop' 
-        ? AuditService.ACTIONS.CASH_IN 
-        : AuditService.ACTIONS.CASH_OUT,
-      entityType: 'shift_cash_movement',
-      entityId: shiftId,
-      afterData: { type, amount, reason }
-    });
+    return result.rows.length === 0;
   }
 
   /**
-   * Get receipt by number or ID
+   * A sale's lines with the quantity already returned, locking the sale so two
+   * returns of the same line cannot both pass the check
    */
-  static async getReceipt(
-    tenantId: string,
-    identifier: string
-  ): Promise<SalesReceipt & { lines: SalesLine[] } | null> {
-    const receiptResult = await query<SalesReceipt>(
-      `SELECT * FROM sales_receipts 
-       WHERE tenant_id = $1 AND (id = $2 OR receipt_number = $2)`,
-      [tenantId, identifier]
+  private static async getReturnableLines(client: PoolClient, tenantId: string, receiptId: string) {
+    const receiptResult = await client.query(
+      `SELECT * FROM sales_receipts WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+      [receiptId, tenantId]
     );
-
     if (receiptResult.rows.length === 0) {
-      return null;
+      throw AppError.notFound('Original receipt not found');
     }
+    const linesResult = await client.query(
+      `SELECT ol.*, ${RETURNED_QUANTITY_SQL} as returned_quantity
+       FROM sales_lines ol
+       WHERE ol.receipt_id = $1
+       ORDER BY ol.line_number`,
+      [receiptId]
+    );
+    return { original: receiptResult.rows[0], lines: linesResult.rows };
+  }
 
-    const receipt = receiptResult.rows[0];
+  /**
+   * Only cash can be handed over in excess and given back as change; other
+   * tenders must add up to no more than the amount due
+   */
+  private static assertTenders(payments: Payment[], amountDue: number): void {
+    const nonCash = roundMoney(payments.filter(p => p.method !== 'cash').reduce((sum, p) => sum + p.amount, 0));
+    if (nonCash > roundMoney(amountDue)) {
+      throw AppError.badRequest(
+        `Non-cash payments add up to ${nonCash.toFixed(2)}, more than the ${roundMoney(amountDue).toFixed(2)} due`
+      );
+    }
+  }
 
-    const linesResult = await query<SalesLine>(
-      `SELECT * FROM sales_lines WHERE receipt_id = $1 ORDER BY line_number`,
-      [receipt.id]
+  /**
+   * What is left to pay back on each tender the sale was paid with
+   * Points and vouchers are returned by the loyalty and voucher services, so
+   * only the other tenders are listed (cash net of change) and `paidShare` is the
+   * part of the sale's total they paid. Each tender's `left` is its amount less
+   * what earlier refunds and exchanges paid back to it.
+   */
+  private static async refundableTenders(
+    client: PoolClient,
+    original: { id: string; total_amount: string; change_amount: string; payments: Payment[] | null }
+  ): Promise<RefundableTenders> {
+    const key = (p: Payment) => [p.method, p.giftCardId || p.cardLast4 || p.reference || ''].join(':');
+    const tenders = (original.payments || [])
+      .filter(p => p.method !== 'loyalty' && p.method !== 'voucher')
+      .map(p => ({ ...p }));
+    const change = parseFloat(original.change_amount) || 0;
+    const cash = tenders.find(p => p.method === 'cash');
+    if (cash) cash.amount = roundMoney(cash.amount - change);
+
+    const originalTotal = parseFloat(original.total_amount);
+    const payable = tenders.reduce((sum, p) => sum + p.amount, 0);
+    const paidShare = originalTotal > 0 ? Math.min(1, payable / originalTotal) : 0;
+
+    const refundedResult = await client.query(
+      `SELECT payments FROM sales_receipts
+       WHERE original_receipt_id = $1 AND status = 'completed'
+         AND (type = 'refund' OR (type = 'exchange' AND total_amount < 0))`,
+      [original.id]
     );
+    const paidBack = refundedResult.rows.flatMap(row => (row.payments as Payment[]) || []);
+    const refunded = new Map<string, number>();
+    for (const p of paidBack) {
+      refunded.set(key(p), (refunded.get(key(p)) || 0) + p.amount);
+    }
 
     return {
-      ...receipt,
-      lines: linesResult.rows
+      tenders: tenders.map(tender => ({ tender, left: roundMoney(tender.amount - (refunded.get(key(tender)) || 0)) })),
+      paidBack,
+      paidShare
     };
   }
 
   /**
-   * Search receipts
+   * Pay a refund back to the tenders the sale was paid with
+   * Each tender gets back at most what is left of it, non-cash tenders first;
+   * cash (net of change) takes the rest.
    */
-  static async searchReceipts(
-    tenantId: string,
-    options: {
-      storeId?: string;
-      cashierId?: string;
-      customerId?: string;
-      startDate?: Date;
-      endDate?: Date;
-      status?: string;
-      type?: string;
-      search?: string;
-      limit?: number;
-      offset?: number;
-    } = {}
-  ): Promise<{ receipts: SalesReceipt[]; total: number }> {
-    const conditions: string[] = ['sr.tenant_id = $1'];
-    const params: unknown[] = [tenantId];
-    let paramIndex = 2;
-
-    if (options.storeId) {
-      conditions.push(`sr.store_id = $${paramIndex++}`);
-      params.push(options.storeId);
+  private static defaultRefundTenders(refundable: RefundableTenders, payout: number): Payment[] {
+    let remaining = payout;
+    const payments: Payment[] = [];
+    const ordered = [
+      ...refundable.tenders.filter(t => t.tender.method !== 'cash'),
+      ...refundable.tenders.filter(t => t.tender.method === 'cash')
+    ];
+    for (const { tender, left } of ordered) {
+      if (remaining <= 0) break;
+      const amount = tender.method === 'cash' ? remaining : Math.min(remaining, left);
+      if (amount <= 0) continue;
+      payments.push({ ...tender, amount: roundMoney(amount) });
+      remaining = roundMoney(remaining - amount);
     }
-
-    if (options.cashierId) {
-      conditions.push(`sr.cashier_id = $${paramIndex++}`);
-      params.push(options.cashierId);
+    // Anything no tender can take back (e.g. a card already refunded in full) is paid in cash
+    if (remaining > 0) {
+      payments.push({ method: 'cash', amount: remaining });
     }
+    return payments;
+  }
 
-    if (options.customerId) {
-      conditions.push(`sr.customer_id = $${paramIndex++}`);
-      params.push(options.customerId);
+  /**
+   * Check tenders chosen by the cashier for a refund
+   * They must pay back exactly the refund less the points and voucher share,
+   * and a gift card or card gets back at most what the sale took on it.
+   */
+  private static assertRefundTenders(payments: Payment[], refundable: RefundableTenders, payout: number): void {
+    if (payments.some(p => p.method === 'loyalty' || p.method === 'voucher')) {
+      throw AppError.badRequest('Points and vouchers are returned with the refund; pay the rest in cash, card, wallet or gift card');
     }
-
-    if (options.status) {
-      conditions.push(`sr.status = $${paramIndex++}`);
-      params.push(options.status);
+    const total = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+    if (Math.abs(total - payout) >= 0.01) {
+      throw AppError.badRequest(
+        `Refund tenders add up to ${total.toFixed(2)}, not the ${payout.toFixed(2)} to be paid back`,
+        { payout }
+      );
     }
 
-    if (options.type) {
-      conditions.push(`sr.type = $${paramIndex++}`);
-      params.push(options.type);
+    const capKey = (p: Payment) => p.method === 'gift_card' ? `gift_card:${p.giftCardId || ''}` : p.method;
+    const capped = (p: Payment) => p.method === 'gift_card' || p.method === 'card';
+    const caps = new Map<string, number>();
+    for (const { tender } of refundable.tenders.filter(t => capped(t.tender))) {
+      caps.set(capKey(tender), (caps.get(capKey(tender)) || 0) + tender.amount);
     }
-
-    if (options.startDate) {
-      conditions.push(`sr.receipt_date >= $${paramIndex++}`);
-      params.push(options.startDate);
+    for (const p of refundable.paidBack.filter(capped)) {
+      caps.set(capKey(p), (caps.get(capKey(p)) || 0) - p.amount);
     }
-
-    if (options.endDate) {
-      conditions.push(`sr.receipt_date <= $${paramIndex++}`);
-      params.push(options.endDate);
+    const requested = new Map<string, number>();
+    for (const p of payments.filter(capped)) {
+      requested.set(capKey(p), (requested.get(capKey(p)) || 0) + p.amount);
     }
-
-    if (options.search) {
-      conditions.push(`sr.receipt_number ILIKE $${paramIndex}`);
-      params.push(`%${options.search}%`);
-      paramIndex++;
+    for (const [key, amount] of requested) {
+      const left = Math.max(0, roundMoney(caps.get(key) || 0));
+      if (roundMoney(amount) > left) {
+        const tender = key === 'card' ? 'card' : 'gift card';
+        throw AppError.badRequest(`Only ${left.toFixed(2)} of this sale is left to refund to the ${tender}`);
+      }
     }
 
-    const whereClause = conditions.join(' AND ');
-    const limit = options.limit || 50;
-    const offset = options.offset || 0;
+    const terminalIds = new Set(refundable.tenders.flatMap(t => t.tender.terminalTransactionId ? [t.tender.terminalTransactionId] : []));
+    if (payments.some(p => p.terminalTransactionId && !terminalIds.has(p.terminalTransactionId))) {
+      throw AppError.badRequest('Card refunds go back to a card payment of this sale');
+    }
+  }
 
-    const countResult = await query<{ count: string }>(
-      `SELECT COUNT(*) as count FROM sales_receipts sr WHERE ${whereClause}`,
-      params
-    );
+  /**
+   * Reject an online sale whose prices or total differ from the server's by a cent or more
+   * The server pricing is returned in the error details so the register can refresh the cart.
+   */
+  private static assertPricingMatches(
+    input: { items: CartItem[]; expectedTotal?: number },
+    pricing: CartPricing
+  ): void {
+    if (input.expectedTotal === undefined) {
+      throw AppError.badRequest('The total shown to the customer (expectedTotal) is required');
+    }
+    const changedLines = pricing.lines
+      .filter(line => Math.abs(line.unitPrice - input.items[line.index].unitPrice) >= 0.01)
+      .map(line => ({ productId: line.productId, name: line.name, sent: input.items[line.index].unitPrice, price: line.unitPrice }));
+    const totalDiffers = Math.abs(input.expectedTotal - pricing.totalAmount) >= 0.01;
+
+    if (changedLines.length > 0 || totalDiffers) {
+      throw new AppError('Cart prices have changed. Review the cart and try again.', 409, 'PRICE_MISMATCH', {
+        changedLines,
+        expectedTotal: input.expectedTotal,
+        pricing
+      });
+    }
+  }
 
-    const receiptsResult = await query<SalesReceipt>(
-      `SELECT sr.*, u.first_name as cashier_name, c.first_name as customer_name, s.name as store_name
-       FROM sales_receipts sr
-       LEFT JOIN users u ON sr.cashier_id = u.id
-       LEFT JOIN customers c ON sr.customer_id = c.id
-       LEFT JOIN stores s ON sr.store_id = s.id
-       WHERE ${whereClause}
-       ORDER BY sr.receipt_date DESC
-       LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
-      [...params, limit, offset]
-    );
+  // Replace the register's line amounts with the server pricing
+  private static applyPricing(items: CartItem[], pricing: CartPricing): CartItem[] {
+    return items.map((item, index) => {
+      const priced = pricing.lines[index];
+      return {
+        ...item,
+        sku: priced.sku,
+        name: priced.name,
+        unitPrice: priced.unitPrice,
+        discountAmount: priced.discountAmount,
+        promotionId: priced.promotionId,
+        taxRate: priced.taxRate,
+        taxAmount: priced.taxAmount,
+        taxCode: priced.taxCode,
+        taxName: priced.taxName,
+        taxInclusive: priced.taxInclusive
+      };
+    });
+  }
 
-    return {
-      receipts: receiptsResult.rows,
-      total: parseInt(countResult.rows[0].count)
-    };
+  // Discount, tax and total for each line, numbered from firstLineNumber
+  private static calculateLines(items: CartItem[], firstLineNumber = 1) {
+    return items.map((item, index) => {
+      const discountAmount = item.discountAmount ?? this.calculateLineDiscount(item);
+      const lineSubtotal = item.quantity * item.unitPrice - discountAmount;
+      const taxAmount = item.taxAmount ?? lineSubtotal * (item.taxRate || 0);
+      const lineTotal = item.taxInclusive ? lineSubtotal : lineSubtotal + taxAmount;
+
+      return {
+        ...item,
+        lineNumber: firstLineNumber + index,
+        discountAmount,
+        taxAmount,
+        lineTotal
+      };
+    });
   }
 
-  // Helper methods
   private static calculateLineDiscount(item: CartItem): number {
     if (!item.discountType || !item.discountValue) return 0;
     
@@ -722,58 +1688,28 @@ export class POSService {
     return item.discountValue;
   }
 
-  private static calculateTaxDetails(lines: Array<CartItem & { taxAmount: number }>): TaxDetail[] {
-    const taxMap = new Map<number, number>();
+  private static calculateTaxDetails(
+    lines: Array<Pick<CartItem, 'taxRate' | 'taxCode' | 'taxName'> & { taxAmount: number }>
+  ): TaxDetail[] {
+    const taxMap = new Map<string, TaxDetail>();
     
     for (const line of lines) {
       const rate = line.taxRate || 0;
-      const current = taxMap.get(rate) || 0;
-      taxMap.set(rate, current + line.taxAmount);
+      const code = line.taxCode || `TAX_${rate * 100}`;
+      const current = taxMap.get(code) || { code, name: line.taxName || `Tax ${rate * 100}%`, rate, amount: 0 };
+      taxMap.set(code, { ...current, amount: current.amount + line.taxAmount });
     }
 
-    return Array.from(taxMap.entries()).map(([rate, amount]) => ({
-      code: `TAX_${rate * 100}`,
-      name: `Tax ${rate * 100}%`,
-      rate,
-      amount
-    }));
-  }
-
-  private static async generateReceiptNumber(
-    tenantId: string,
-    storeId: string,
-    client?: PoolClient
-  ): Promise<string> {
-    const executeQuery = client ? client.query.bind(client) : query;
-    
-    const result = await executeQuery<{ next_val: string }>(
-      `SELECT COALESCE(MAX(CAST(SUBSTRING(receipt_number FROM '[0-9]+$') AS INTEGER)), 0) + 1 as next_val
-       FROM sales_receipts 
-       WHERE tenant_id = $1 AND store_id = $2 
-       AND receipt_number LIKE $3`,
-      [tenantId, storeId, `RCP-${new Date().toISOString().slice(0,10).replace(/-/g, '')}-%`]
-    );
-
-    const nextVal = result.rows[0].next_val;
-    const date = new Date().toISOString().slice(0,10).replace(/-/g, '');
-    return `RCP-${date}-${String(nextVal).padStart(6, '0')}`;
+    return Array.from(taxMap.values());
   }
 
-  private static async generateShiftNumber(
-    tenantId: string,
-    storeId: string
-  ): Promise<string> {
-    const result = await query<{ next_val: string }>(
-      `SELECT COUNT(*) + 1 as next_val
-       FROM shifts 
-       WHERE tenant_id = $1 AND store_id = $2 
-       AND DATE(opened_at) = CURRENT_DATE`,
-      [tenantId, storeId]
+  // Receipt numbers are sequential per tenant (receipt_number is unique per tenant)
+  private static async generateReceiptNumber(tenantId: string, client: PoolClient): Promise<string> {
+    const result = await client.query<{ num: string }>(
+      `SELECT COUNT(*) + 1 as num FROM sales_receipts WHERE tenant_id = $1`,
+      [tenantId]
     );
-
-    const nextVal = result.rows[0].next_val;
-    const date = new Date().toISOString().slice(0,10).replace(/-/g, '');
-    return `SHF-${date}-${String(nextVal).padStart(3, '0')}`;
+    return `RCP-${String(result.rows[0].num).padStart(6, '0')}`;
   }
 }
 
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock('../config/index.js', () => ({ config: { nodeEnv: 'test' } }));
+vi.mock('../database/pool.js', () => ({ query: db.query, withTransaction: vi.fn() }));
+
+import { PricingService } from './pricing.service.js';
+import { PromotionService } from './promotion.service.js';
+
+const tea = { id: 'tea', sku: 'TEA', name: 'Tea', sell_price: '100', is_active: true, tax_rate: null };
+
+// Answer the lookups by the first pattern the SQL matches
+function respond(handlers: Array<[RegExp, unknown[]]>) {
+  db.query.mockImplementation(async (sql: string) => {
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    return { rows: handler ? handler[1] : [], rowCount: handler ? handler[1].length : 0 };
+  });
+}
+
+// Promotions taking the given discount off each line
+function promotions(discounts: number[]) {
+  vi.spyOn(PromotionService, 'evaluateCart').mockResolvedValue({
+    lines: discounts.map((discountAmount, index) => ({
+      index,
+      discountAmount,
+      promotionId: discountAmount > 0 ? 'promo-1' : undefined,
+      promotions: discountAmount > 0 ? [{ promotionId: 'promo-1', name: 'Spring sale', amount: discountAmount }] : []
+    })),
+    promotions: [],
+    totalDiscount: discounts.reduce((sum, amount) => sum + amount, 0),
+    rejectedCoupons: []
+  });
+}
+
+beforeEach(() => {
+  db.query.mockReset();
+  vi.restoreAllMocks();
+});
+
+describe('PricingService.priceCart', () => {
+  it('adds tax on top of the base price', async () => {
+    respond([[/FROM products p/, [{ ...tea, tax_code: 'VAT', tax_name: 'VAT', tax_rate: '0.14', tax_inclusive: false }]]]);
+    promotions([0]);
+
+    const pricing = await PricingService.priceCart('tenant-1', { storeId: 'store-1', items: [{ productId: 'tea', quantity: 2 }] });
+
+    expect(pricing.lines[0]).toMatchObject({ unitPrice: 100, taxAmount: 28, lineTotal: 228 });
+    expect(pricing.totalAmount).toBe(228);
+  });
+
+  it('uses the price list price and the default tax group included in it', async () => {
+    respond([
+      [/FROM products p/, [tea]],
+      [/is_default = true/, [{ code: 'VAT', name: 'VAT', rate: '0.14', is_inclusive: true }]],
+      [/FROM price_list_items pli/, [{ price: '57', min_qty: null, price_list_id: 'list-1', name: 'Members' }]]
+    ]);
+    promotions([0]);
+
+    const pricing = await PricingService.priceCart('tenant-1', { storeId: 'store-1', items: [{ productId: 'tea', quantity: 1 }] });
+
+    expect(pricing.lines[0]).toMatchObject({ basePrice: 100, unitPrice: 57, priceListId: 'list-1', taxAmount: 7, lineTotal: 57 });
+    expect(pricing.totalAmount).toBe(57);
+  });
+
+  it('takes a manual discount off what is left after promotions', async () => {
+    respond([[/FROM products p/, [tea]]]);
+    promotions([20]);
+
+    const pricing = await PricingService.priceCart('tenant-1', {
+      storeId: 'store-1',
+      items: [{ productId: 'tea', quantity: 2, discountType: 'percent', discountValue: 10 }]
+    });
+
+    expect(pricing.lines[0]).toMatchObject({ promotionDiscount: 20, manualDiscount: 18, discountAmount: 38, lineTotal: 162 });
+    expect(pricing.lines[0].explanation.map(step => step.step)).toEqual(['base', 'promotion', 'manual_discount']);
+  });
+
+  it('caps a percent discount at the whole line', async () => {
+    respond([[/FROM products p/, [tea]]]);
+    promotions([0]);
+
+    const pricing = await PricingService.priceCart('tenant-1', {
+      storeId: 'store-1',
+      items: [{ productId: 'tea', quantity: 1, discountType: 'percent', discountValue: 250 }]
+    });
+
+    expect(pricing.lines[0]).toMatchObject({ manualDiscount: 100, lineTotal: 0 });
+    expect(pricing.totalAmount).toBe(0);
+  });
+
+  it('rejects products that are no longer sold', async () => {
+    respond([[/FROM products p/, [{ ...tea, is_active: false }]]]);
+
+    await expect(PricingService.priceCart('tenant-1', { storeId: 'store-1', items: [{ productId: 'tea', quantity: 1 }] }))
+      .rejects.toThrow('Some products are no longer sold');
+  });
+});
@@ -1,5 +1,10 @@
+import { PoolClient } from 'pg';
 import { query } from '../database/pool.js';
 import { TenantContext, Promotion } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { AppliedPromotion, CartPromotionResult, PromotionService } from './promotion.service.js';
+import { AuditService } from './audit.service.js';
 
 export interface PriceResult {
   unitPrice: number;
@@ -10,10 +15,87 @@ export interface PriceResult {
   promotionName?: string;
 }
 
+export interface CartPricingItem {
+  productId: string;
+  quantity: number;
+  discountType?: 'percent' | 'fixed';
+  discountValue?: number;
+}
+
+export interface CartPricingInput {
+  storeId: string;
+  customerId?: string;
+  items: CartPricingItem[];
+  couponCodes?: string[];
+}
+
+export interface PriceStep {
+  step: 'base' | 'price_list' | 'promotion' | 'manual_discount' | 'tax';
+  label: string;
+  amount: number;
+}
+
+export interface PricedLine {
+  index: number;
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  basePrice: number;
+  unitPrice: number;
+  priceListId?: string;
+  promotionId?: string;
+  promotionDiscount: number;
+  manualDiscount: number;
+  discountAmount: number;
+  taxCode?: string;
+  taxName?: string;
+  taxRate: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  lineTotal: number;
+  explanation: PriceStep[];
+}
+
+export interface CartPricing {
+  storeId: string;
+  customerId?: string;
+  lines: PricedLine[];
+  promotions: AppliedPromotion[];
+  rejectedCoupons: CartPromotionResult['rejectedCoupons'];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface PriceListInput {
+  id?: string;
+  code: string;
+  name: string;
+  description?: string;
+  storeId?: string;
+  channel?: string;
+  customerGroupId?: string;
+  currencyCode?: string;
+  priority?: number;
+  startDate?: string;
+  endDate?: string;
+  isActive?: boolean;
+}
+
+interface ListPrice {
+  price: number;
+  priceListId: string;
+  name: string;
+  minQty: number;
+}
+
 /**
  * Pricing Service
  * 
- * Handles price lookups, price lists, and promotion calculations.
+ * Handles price lookups, price lists, cart pricing and coupon checks.
+ * Promotion rules themselves live in PromotionService.
  */
 export class PricingService {
   /**
@@ -31,70 +113,48 @@ export class PricingService {
     let basePrice = 0;
     
     if (variantId) {
-      const variantResult = await query<{ sell_price: number; cost_price: number }>(
-        `SELECT pv.sell_price, pv.cost_price FROM product_variants pv
+      const variantResult = await query<{ sell_price: string }>(
+        `SELECT pv.sell_price FROM product_variants pv
          WHERE pv.id = $1 AND pv.tenant_id = $2`,
         [variantId, tenantId]
       );
       if (variantResult.rows.length > 0 && variantResult.rows[0].sell_price) {
-        basePrice = variantResult.rows[0].sell_price;
+        basePrice = parseFloat(variantResult.rows[0].sell_price);
       }
     }
     
     if (basePrice === 0 && productId) {
-      const productResult = await query<{ sell_price: number }>(
+      const productResult = await query<{ sell_price: string }>(
         `SELECT sell_price FROM products WHERE id = $1 AND tenant_id = $2`,
         [productId, tenantId]
       );
       if (productResult.rows.length > 0) {
-        basePrice = productResult.rows[0].sell_price;
+        basePrice = parseFloat(productResult.rows[0].sell_price) || 0;
       }
     }
 
     // 2. Check for price list price (store-specific or channel-specific)
-    const priceListResult = await query<{ price: number; price_list_id: string }>(
-      `SELECT pli.price, pli.price_list_id
-       FROM price_list_items pli
-       JOIN price_lists pl ON pli.price_list_id = pl.id
-       WHERE pli.tenant_id = $1
-       AND (pli.product_id = $2 OR pli.variant_id = $3)
-       AND pl.is_active = true
-       AND (pl.store_id = $4 OR pl.store_id IS NULL)
-       AND (pl.start_date IS NULL OR pl.start_date <= CURRENT_DATE)
-       AND (pl.end_date IS NULL OR pl.end_date >= CURRENT_DATE)
-       AND (pli.min_qty IS NULL OR pli.min_qty <= $5)
-       ORDER BY pl.priority DESC, pli.min_qty DESC NULLS LAST
-       LIMIT 1`,
-      [tenantId, productId, variantId, storeId, quantity]
-    );
-
-    let effectivePrice = basePrice;
-    let priceListId: string | undefined;
-
-    if (priceListResult.rows.length > 0) {
-      effectivePrice = priceListResult.rows[0].price;
-      priceListId = priceListResult.rows[0].price_list_id;
-    }
-
-    // 3. Check for applicable promotions
-    const promoResult = await this.getApplicablePromotion(
-      tenantId,
-      productId,
-      variantId,
-      storeId,
-      effectivePrice,
-      quantity
-    );
-
-    if (promoResult) {
-      return {
-        unitPrice: effectivePrice - promoResult.discount,
-        originalPrice: effectivePrice,
-        discountAmount: promoResult.discount,
-        priceListId,
-        promotionId: promoResult.promotionId,
-        promotionName: promoResult.promotionName
-      };
+    const listPrice = await this.findListPrice(tenantId, { productId, variantId, storeId, quantity, customerId });
+    const effectivePrice = listPrice ? listPrice.price : basePrice;
+    const priceListId = listPrice?.priceListId;
+
+    // 3. Check for applicable promotions (a single line, so multi-line rules only count this product)
+    if (productId) {
+      const promotions = await PromotionService.evaluateCart(tenantId, storeId, [
+        { productId, quantity, unitPrice: effectivePrice }
+      ], { customerId });
+      const promotion = promotions.promotions[0];
+      if (promotion && quantity > 0) {
+        const discount = promotions.lines[0].discountAmount / quantity;
+        return {
+          unitPrice: effectivePrice - discount,
+          originalPrice: effectivePrice,
+          discountAmount: discount,
+          priceListId,
+          promotionId: promotion.promotionId,
+          promotionName: promotion.name
+        };
+      }
     }
 
     return {
@@ -106,74 +166,183 @@ export class PricingService {
   }
 
   /**
-   * Get applicable promotion for a product
+   * Price a whole cart at a store
+   * Each line goes base price -> price list -> promotions (evaluated across
+   * the cart, coupons included) -> manual line discount -> tax group, and the
+   * steps are returned with the line so the POS can show how a price was made.
    */
-  static async getApplicablePromotion(
-    tenantId: string,
-    productId: string | undefined,
-    variantId: string | undefined,
-    storeId: string,
-    price: number,
-    quantity: number
-  ): Promise<{ promotionId: string; promotionName: string; discount: number } | null> {
-    const now = new Date();
+  static async priceCart(tenantId: string, input: CartPricingInput, client?: PoolClient): Promise<CartPricing> {
+    const run = (text: string, params: unknown[]) => client ? client.query(text, params) : query(text, params);
+
+    const productResult = await run(
+      `SELECT p.id, p.sku, p.name, p.sell_price, p.is_active,
+              tg.code as tax_code, tg.name as tax_name, tg.rate as tax_rate, tg.is_inclusive as tax_inclusive
+       FROM products p
+       LEFT JOIN tax_groups tg ON tg.id = p.tax_group_id AND tg.is_active = true
+       WHERE p.tenant_id = $1 AND p.id = ANY($2::uuid[])`,
+      [tenantId, [...new Set(input.items.map(i => i.productId))]]
+    );
+    const productsById = new Map(productResult.rows.map(p => [p.id, p]));
+    const missing = input.items.filter(i => !productsById.get(i.productId)?.is_active);
+    if (missing.length > 0) {
+      throw AppError.badRequest('Some products are no longer sold', { productIds: missing.map(i => i.productId) });
+    }
 
-    const promotions = await query<Promotion>(
-      `SELECT * FROM promotions
-       WHERE tenant_id = $1
-       AND is_active = true
-       AND (start_date IS NULL OR start_date <= $2)
-       AND (end_date IS NULL OR end_date >= $2)
-       AND (usage_limit IS NULL OR usage_count < usage_limit)
-       AND type IN ('percent_off', 'fixed_off')
-       ORDER BY discount_value DESC`,
-      [tenantId, now]
+    // Products without their own tax group use the tenant default
+    const defaultTaxResult = await run(
+      `SELECT code, name, rate, is_inclusive FROM tax_groups
+       WHERE tenant_id = $1 AND is_default = true AND is_active = true
+       LIMIT 1`,
+      [tenantId]
     );
+    const defaultTax = defaultTaxResult.rows[0];
 
-    for (const promo of promotions.rows) {
-      // Check if promotion applies to this store
-      if (promo.applicableStores.length > 0 && !promo.applicableStores.includes(storeId)) {
-        continue;
-      }
+    // Quantity breaks look at the product's total quantity across the cart
+    const quantityByProduct = new Map<string, number>();
+    for (const item of input.items) {
+      quantityByProduct.set(item.productId, (quantityByProduct.get(item.productId) || 0) + item.quantity);
+    }
+    const listPrices = new Map<string, ListPrice | null>();
+    for (const [productId, quantity] of quantityByProduct) {
+      listPrices.set(productId, await this.findListPrice(tenantId, {
+        productId, storeId: input.storeId, quantity, customerId: input.customerId
+      }, client));
+    }
 
-      // Check if promotion applies to this product
-      const appliesToProduct = promo.applicableProducts.length === 0 || 
-        (productId && promo.applicableProducts.includes(productId)) ||
-        (variantId && promo.applicableProducts.includes(variantId));
+    const baseLines = input.items.map(item => {
+      const product = productsById.get(item.productId)!;
+      const basePrice = parseFloat(product.sell_price) || 0;
+      const listPrice = listPrices.get(item.productId);
+      return { item, product, basePrice, listPrice, unitPrice: listPrice ? listPrice.price : basePrice };
+    });
 
-      if (!appliesToProduct) {
-        continue;
-      }
+    const promotions = await PromotionService.evaluateCart(
+      tenantId,
+      input.storeId,
+      baseLines.map(l => ({ productId: l.item.productId, quantity: l.item.quantity, unitPrice: l.unitPrice })),
+      { couponCodes: input.couponCodes, customerId: input.customerId },
+      client
+    );
 
-      // Check minimum purchase
-      const lineTotal = price * quantity;
-      if (promo.minPurchase && lineTotal < promo.minPurchase) {
-        continue;
+    const lines: PricedLine[] = baseLines.map(({ item, product, basePrice, listPrice, unitPrice }, index) => {
+      const explanation: PriceStep[] = [{ step: 'base', label: 'Base price', amount: basePrice }];
+      if (listPrice) {
+        const qtyNote = listPrice.minQty > 1 ? ` (${listPrice.minQty}+ units)` : '';
+        explanation.push({ step: 'price_list', label: `Price list ${listPrice.name}${qtyNote}`, amount: listPrice.price });
       }
 
-      // Calculate discount
-      let discount = 0;
-      if (promo.type === 'percent_off' && promo.discountValue) {
-        discount = price * (promo.discountValue / 100);
-      } else if (promo.type === 'fixed_off' && promo.discountValue) {
-        discount = promo.discountValue;
+      const gross = roundMoney(item.quantity * unitPrice);
+      const promotionLine = promotions.lines[index];
+      for (const applied of promotionLine.promotions) {
+        explanation.push({ step: 'promotion', label: applied.name, amount: -applied.amount });
       }
-
-      // Apply max discount cap
-      if (promo.maxDiscount && discount > promo.maxDiscount) {
-        discount = promo.maxDiscount;
+      const promotionDiscount = promotionLine.discountAmount;
+
+      const remaining = gross - promotionDiscount;
+      let manualDiscount = 0;
+      if (item.discountType && item.discountValue && item.discountValue > 0) {
+        const percent = Math.min(item.discountValue, 100);
+        manualDiscount = roundMoney(item.discountType === 'percent'
+          ? remaining * percent / 100
+          : Math.min(item.discountValue, remaining));
+        const label = item.discountType === 'percent' ? `Discount ${percent}%` : 'Discount';
+        explanation.push({ step: 'manual_discount', label, amount: -manualDiscount });
       }
 
-      if (discount > 0) {
-        return {
-          promotionId: promo.id,
-          promotionName: promo.name,
-          discount
-        };
+      const discountAmount = roundMoney(promotionDiscount + manualDiscount);
+      const net = gross - discountAmount;
+      const tax = product.tax_rate !== null
+        ? { code: product.tax_code, name: product.tax_name, rate: product.tax_rate, inclusive: product.tax_inclusive }
+        : defaultTax
+          ? { code: defaultTax.code, name: defaultTax.name, rate: defaultTax.rate, inclusive: defaultTax.is_inclusive }
+          : null;
+      const taxRate = tax ? parseFloat(tax.rate) : 0;
+      const taxInclusive = tax?.inclusive === true;
+      const taxAmount = roundMoney(taxInclusive ? net - net / (1 + taxRate) : net * taxRate);
+      if (tax) {
+        const label = `${tax.name} ${+(taxRate * 100).toFixed(2)}%${taxInclusive ? ' (included)' : ''}`;
+        explanation.push({ step: 'tax', label, amount: taxAmount });
       }
-    }
 
-    return null;
+      return {
+        index,
+        productId: item.productId,
+        sku: product.sku,
+        name: product.name,
+        quantity: item.quantity,
+        basePrice,
+        unitPrice,
+        priceListId: listPrice?.priceListId,
+        promotionId: promotionLine.promotionId,
+        promotionDiscount,
+        manualDiscount,
+        discountAmount,
+        taxCode: tax?.code,
+        taxName: tax?.name,
+        taxRate,
+        taxInclusive,
+        taxAmount,
+        lineTotal: roundMoney(taxInclusive ? net : net + taxAmount),
+        explanation
+      };
+    });
+
+    return {
+      storeId: input.storeId,
+      customerId: input.customerId,
+      lines,
+      promotions: promotions.promotions,
+      rejectedCoupons: promotions.rejectedCoupons,
+      subtotal: roundMoney(lines.reduce((sum, l) => sum + l.quantity * l.unitPrice, 0)),
+      discountAmount: roundMoney(lines.reduce((sum, l) => sum + l.discountAmount, 0)),
+      taxAmount: roundMoney(lines.reduce((sum, l) => sum + l.taxAmount, 0)),
+      totalAmount: roundMoney(lines.reduce((sum, l) => sum + l.lineTotal, 0))
+    };
+  }
+
+  /**
+   * Best price list price for a product at a store and quantity
+   * Lists for the customer's group win over general lists, then higher
+   * priority, then store-specific lists; within a list the largest quantity
+   * break that the quantity reaches applies. Group lists are never used for
+   * customers outside the group or for walk-in sales.
+   */
+  private static async findListPrice(
+    tenantId: string,
+    lookup: { productId?: string; variantId?: string; storeId: string; quantity: number; customerId?: string },
+    client?: PoolClient
+  ): Promise<ListPrice | null> {
+    const sql = `SELECT pli.price, pli.min_qty, pl.id as price_list_id, pl.name
+       FROM price_list_items pli
+       JOIN price_lists pl ON pli.price_list_id = pl.id
+       WHERE pli.tenant_id = $1
+       AND (pli.product_id = $2 OR pli.variant_id = $3)
+       AND pl.is_active = true
+       AND (pl.store_id = $4 OR pl.store_id IS NULL)
+       AND (pl.channel IS NULL OR pl.channel = 'pos')
+       AND (pl.start_date IS NULL OR pl.start_date <= CURRENT_DATE)
+       AND (pl.end_date IS NULL OR pl.end_date >= CURRENT_DATE)
+       AND (pli.min_qty IS NULL OR pli.min_qty <= $5)
+       AND (pl.customer_group_id IS NULL OR pl.customer_group_id = (
+         SELECT c.customer_group_id FROM customers c WHERE c.id = $6 AND c.tenant_id = $1
+       ))
+       ORDER BY pl.customer_group_id IS NULL, pl.priority DESC, pl.store_id IS NULL, pli.min_qty DESC NULLS LAST
+       LIMIT 1`;
+    const params = [
+      tenantId, lookup.productId || null, lookup.variantId || null, lookup.storeId, lookup.quantity,
+      lookup.customerId || null
+    ];
+    const result = client ? await client.query(sql, params) : await query(sql, params);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const row = result.rows[0];
+    return {
+      price: parseFloat(row.price),
+      priceListId: row.price_list_id,
+      name: row.name,
+      minQty: parseFloat(row.min_qty) || 1
+    };
   }
 
   /**
@@ -290,81 +459,188 @@ export class PricingService {
   }
 
   /**
-   * Create or update a price list
+   * List price lists with their store, customer group and item count
    */
-  static async upsertPriceList(
-    ctx: TenantContext,
-    data: {
-      id?: string;
-      code: string;
-      name: string;
-      storeId?: string;
-      channel?: string;
-      currencyCode?: string;
-      priority?: number;
-      startDate?: Date;
-      endDate?: Date;
-      isActive?: boolean;
+  static async listPriceLists(tenantId: string, options: { storeId?: string; includeInactive?: boolean } = {}) {
+    const params: unknown[] = [tenantId];
+    let sql = `SELECT pl.*, s.name as store_name, cg.name as customer_group_name,
+                      (SELECT COUNT(*) FROM price_list_items pli WHERE pli.price_list_id = pl.id) as item_count
+               FROM price_lists pl
+               LEFT JOIN stores s ON s.id = pl.store_id
+               LEFT JOIN customer_groups cg ON cg.id = pl.customer_group_id
+               WHERE pl.tenant_id = $1`;
+    if (!options.includeInactive) {
+      sql += ` AND pl.is_active = true`;
+    }
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND (pl.store_id = $${params.length} OR pl.store_id IS NULL)`;
+    }
+    sql += ` ORDER BY pl.priority DESC, pl.name`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Get a price list with its items, cheapest quantity break first per product
+   */
+  static async getPriceList(tenantId: string, priceListId: string) {
+    const result = await query(
+      `SELECT pl.*, s.name as store_name, cg.name as customer_group_name
+       FROM price_lists pl
+       LEFT JOIN stores s ON s.id = pl.store_id
+       LEFT JOIN customer_groups cg ON cg.id = pl.customer_group_id
+       WHERE pl.id = $1 AND pl.tenant_id = $2`,
+      [priceListId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Price list not found');
     }
-  ): Promise<{ id: string }> {
+
+    const items = await query(
+      `SELECT pli.id, pli.product_id, pli.price, pli.min_qty, p.sku, p.name as product_name, p.sell_price
+       FROM price_list_items pli
+       JOIN products p ON p.id = pli.product_id
+       WHERE pli.price_list_id = $1 AND pli.tenant_id = $2
+       ORDER BY p.name, pli.min_qty`,
+      [priceListId, tenantId]
+    );
+
+    return { ...result.rows[0], items: items.rows };
+  }
+
+  /**
+   * Create or update a price list
+   */
+  static async upsertPriceList(ctx: TenantContext, data: PriceListInput): Promise<{ id: string }> {
     const { id, ...fields } = data;
+    if (fields.startDate && fields.endDate && fields.endDate < fields.startDate) {
+      throw AppError.badRequest('End date must be on or after the start date');
+    }
+
+    try {
+      if (id) {
+        const result = await query<{ id: string }>(
+          `UPDATE price_lists SET
+            code = $1, name = $2, description = $3, store_id = $4, channel = $5,
+            customer_group_id = $6, currency_code = $7, priority = $8, start_date = $9,
+            end_date = $10, is_active = $11, updated_at = NOW()
+           WHERE id = $12 AND tenant_id = $13
+           RETURNING id`,
+          [
+            fields.code.trim().toUpperCase(), fields.name, fields.description || null, fields.storeId || null,
+            fields.channel || null, fields.customerGroupId || null, fields.currencyCode || null,
+            fields.priority || 0, fields.startDate || null, fields.endDate || null,
+            fields.isActive ?? true, id, ctx.tenantId
+          ]
+        );
+        if (result.rows.length === 0) {
+          throw AppError.notFound('Price list not found');
+        }
+
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.UPDATE,
+          entityType: 'price_list',
+          entityId: id,
+          storeId: fields.storeId,
+          afterData: fields
+        });
+        return { id };
+      }
 
-    if (id) {
-      await query(
-        `UPDATE price_lists SET
-          code = $1, name = $2, store_id = $3, channel = $4,
-          currency_code = $5, priority = $6, start_date = $7,
-          end_date = $8, is_active = $9
-         WHERE id = $10 AND tenant_id = $11`,
+      const result = await query<{ id: string }>(
+        `INSERT INTO price_lists (
+          tenant_id, code, name, description, store_id, channel, customer_group_id,
+          currency_code, priority, start_date, end_date, is_active, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING id`,
         [
-          fields.code, fields.name, fields.storeId, fields.channel,
-          fields.currencyCode, fields.priority || 0, fields.startDate,
-          fields.endDate, fields.isActive ?? true, id, ctx.tenantId
+          ctx.tenantId, fields.code.trim().toUpperCase(), fields.name, fields.description || null,
+          fields.storeId || null, fields.channel || null, fields.customerGroupId || null,
+          fields.currencyCode || null, fields.priority || 0, fields.startDate || null, fields.endDate || null,
+          fields.isActive ?? true, ctx.userId
         ]
       );
-      return { id };
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'price_list',
+        entityId: result.rows[0].id,
+        storeId: fields.storeId,
+        afterData: fields
+      });
+      return result.rows[0];
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A price list with this code already exists');
+      }
+      throw error;
     }
+  }
 
-    const result = await query<{ id: string }>(
-      `INSERT INTO price_lists (
-        id, tenant_id, code, name, store_id, channel,
-        currency_code, priority, start_date, end_date, is_active, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-      RETURNING id`,
-      [
-        crypto.randomUUID(), ctx.tenantId, fields.code, fields.name,
-        fields.storeId, fields.channel, fields.currencyCode,
-        fields.priority || 0, fields.startDate, fields.endDate,
-        fields.isActive ?? true, ctx.userId
-      ]
+  /**
+   * Delete a price list and its items
+   */
+  static async deletePriceList(ctx: TenantContext, priceListId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM price_lists WHERE id = $1 AND tenant_id = $2 RETURNING id, code, name`,
+      [priceListId, ctx.tenantId]
     );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Price list not found');
+    }
 
-    return result.rows[0];
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DELETE,
+      entityType: 'price_list',
+      entityId: priceListId,
+      beforeData: result.rows[0]
+    });
   }
 
   /**
-   * Set price list items
+   * Set the price of a product at a quantity break (replaces the price for the same break)
    */
   static async setPriceListItem(
     ctx: TenantContext,
     priceListId: string,
-    productId: string | undefined,
-    variantId: string | undefined,
+    productId: string,
     price: number,
-    minQty?: number,
-    uomId?: string
-  ): Promise<void> {
-    await query(
-      `INSERT INTO price_list_items (
-        id, tenant_id, price_list_id, product_id, variant_id, uom_id, price, min_qty, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      ON CONFLICT (tenant_id, price_list_id, product_id, variant_id, uom_id, min_qty)
-      DO UPDATE SET price = $7`,
-      [
-        crypto.randomUUID(), ctx.tenantId, priceListId,
-        productId, variantId, uomId, price, minQty || 1, ctx.userId
-      ]
+    minQty?: number
+  ) {
+    const list = await query(
+      'SELECT 1 FROM price_lists WHERE id = $1 AND tenant_id = $2',
+      [priceListId, ctx.tenantId]
+    );
+    if (list.rows.length === 0) {
+      throw AppError.notFound('Price list not found');
+    }
+
+    const result = await query(
+      `INSERT INTO price_list_items (tenant_id, price_list_id, product_id, price, min_qty, created_by)
+       SELECT $1, $2, p.id, $4, $5, $6 FROM products p WHERE p.id = $3 AND p.tenant_id = $1
+       ON CONFLICT (price_list_id, product_id, min_qty) WHERE variant_id IS NULL
+       DO UPDATE SET price = EXCLUDED.price, updated_at = NOW()
+       RETURNING *`,
+      [ctx.tenantId, priceListId, productId, price, minQty || 1, ctx.userId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Product not found');
+    }
+
+    await query('UPDATE price_lists SET updated_at = NOW() WHERE id = $1', [priceListId]);
+    return result.rows[0];
+  }
+
+  static async removePriceListItem(ctx: TenantContext, priceListId: string, itemId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM price_list_items WHERE id = $1 AND price_list_id = $2 AND tenant_id = $3 RETURNING id`,
+      [itemId, priceListId, ctx.tenantId]
     );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Price list item not found');
+    }
   }
 }
 
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock('../config/index.js', () => ({ config: { nodeEnv: 'test' } }));
+vi.mock('../database/pool.js', () => ({ query: db.query, withTransaction: vi.fn() }));
+
+import { PromotionService } from './promotion.service.js';
+
+// Buy 2 get 1 free on every product
+const buyTwoGetOne = {
+  id: 'promo-1', code: 'B2G1', name: 'Buy 2 get 1', type: 'buy_x_get_y',
+  rules: { buyQty: 2, getQty: 1 }, is_active: true, is_combinable: false
+};
+
+beforeEach(() => {
+  db.query.mockReset();
+  db.query.mockImplementation(async (sql: string) => ({ rows: /FROM promotions/.test(sql) ? [buyTwoGetOne] : [] }));
+});
+
+describe('PromotionService.evaluateCart buy X get Y', () => {
+  it('gives the cheapest units free across lines', async () => {
+    const result = await PromotionService.evaluateCart('tenant-1', 'store-1', [
+      { productId: 'shirt', quantity: 4, unitPrice: 30 },
+      { productId: 'socks', quantity: 2, unitPrice: 5 }
+    ]);
+
+    expect(result.lines.map(line => line.discountAmount)).toEqual([0, 10]);
+  });
+
+  it('prices large quantities without going unit by unit', async () => {
+    const result = await PromotionService.evaluateCart('tenant-1', 'store-1', [
+      { productId: 'shirt', quantity: 9000, unitPrice: 30 },
+      { productId: 'socks', quantity: 1000, unitPrice: 5 }
+    ]);
+
+    // 3333 free units: all 1000 socks and 2333 shirts
+    expect(result.lines.map(line => line.discountAmount)).toEqual([69990, 5000]);
+  });
+});
@@ -0,0 +1,733 @@
+import { PoolClient, QueryResultRow } from 'pg';
+import { query } from '../database/pool.js';
+import { TenantContext, Promotion } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { getCairoEndOfDay, parseDateToCairoEnd, parseDateToCairoStart } from '../utils/dates.js';
+import { AuditService } from './audit.service.js';
+import { CustomerSegmentService } from './customer-segment.service.js';
+import { ReportPeriodInput } from './report.service.js';
+
+export type PromotionType = Promotion['type'];
+
+/**
+ * Type-specific settings stored in promotions.rules
+ * - buy_x_get_y: buy `buyQty` qualifying units, get `getQty` units at `getDiscountPercent` off
+ *   (100 = free). Reward units come from `getProducts`, or from the qualifying units when empty.
+ * - bundle: every set of `bundleItems` sells for `bundlePrice`
+ * - coupon: `discountType` says whether discount_value is a percent or a fixed amount
+ */
+export interface PromotionRules {
+  buyQty?: number;
+  getQty?: number;
+  getProducts?: string[];
+  getDiscountPercent?: number;
+  bundleItems?: Array<{ productId: string; quantity: number }>;
+  bundlePrice?: number;
+  discountType?: 'percent' | 'fixed';
+}
+
+export interface PromotionInput {
+  code?: string;
+  name?: string;
+  description?: string;
+  type?: PromotionType;
+  rules?: PromotionRules;
+  discountValue?: number;
+  maxDiscount?: number;
+  minPurchase?: number;
+  applicableProducts?: string[];
+  applicableCategories?: string[];
+  applicableStores?: string[];
+  startDate?: string;
+  endDate?: string;
+  usageLimit?: number;
+  isCombinable?: boolean;
+  isActive?: boolean;
+  // Only customers in this segment get the promotion; null opens it to everyone
+  customerSegmentId?: string | null;
+}
+
+export interface PromotionCartLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  code: string;
+  name: string;
+  type: PromotionType;
+  amount: number;
+  lines: number[];
+}
+
+export interface CartPromotionResult {
+  lines: Array<{
+    index: number;
+    discountAmount: number;
+    promotionId?: string;
+    promotions: Array<{ promotionId: string; name: string; amount: number }>;
+  }>;
+  promotions: AppliedPromotion[];
+  totalDiscount: number;
+  rejectedCoupons: Array<{ code: string; message: string }>;
+}
+
+interface PromotionCandidate {
+  promotion: Promotion;
+  rules: PromotionRules;
+  allocations: Map<number, number>;
+  total: number;
+}
+
+
+/**
+ * Promotion Service
+ *
+ * Promotion maintenance, cart-level promotion evaluation and the promotion
+ * performance report.
+ *
+ * Every promotion that qualifies is worked out against the undiscounted cart;
+ * they are then applied largest discount first. A line carries at most one
+ * promotion that is not combinable, and combinable promotions only stack with
+ * each other, so a non-combinable promotion never shares a line.
+ * Promotions aimed at a customer segment are skipped unless the sale's
+ * customer is in that segment.
+ */
+export class PromotionService {
+  /**
+   * List promotions
+   */
+  static async listPromotions(tenantId: string, options: { search?: string; status?: string }) {
+    const params: unknown[] = [tenantId];
+    let sql = `SELECT * FROM promotions WHERE tenant_id = $1`;
+
+    if (options.status === 'active') {
+      sql += ` AND is_active = true AND (end_date IS NULL OR end_date >= NOW())`;
+    } else if (options.status === 'inactive') {
+      sql += ` AND (is_active = false OR end_date < NOW())`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      sql += ` AND (name ILIKE $${params.length} OR code ILIKE $${params.length})`;
+    }
+    sql += ` ORDER BY is_active DESC, start_date DESC NULLS LAST, name`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  static async getPromotion(tenantId: string, promotionId: string) {
+    const result = await query(
+      'SELECT * FROM promotions WHERE id = $1 AND tenant_id = $2',
+      [promotionId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Promotion not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Create a promotion (codes are stored upper-case)
+   */
+  static async createPromotion(ctx: TenantContext, input: PromotionInput) {
+    const code = input.code?.trim().toUpperCase();
+    const name = input.name?.trim();
+    if (!code || !name || !input.type) {
+      throw AppError.badRequest('Promotion code, name and type are required');
+    }
+    const rules = this.validateRules(input.type, input);
+    await this.assertSegment(ctx.tenantId, input.customerSegmentId);
+
+    try {
+      const result = await query(
+        `INSERT INTO promotions (
+          tenant_id, code, name, description, type, rules, discount_value, max_discount, min_purchase,
+          applicable_products, applicable_categories, applicable_stores, start_date, end_date,
+          usage_limit, is_combinable, is_active, created_by, customer_segment_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+        RETURNING *`,
+        [
+          ctx.tenantId, code, name, input.description || null, input.type, JSON.stringify(rules),
+          input.discountValue ?? null, input.maxDiscount ?? null, input.minPurchase ?? null,
+          JSON.stringify(input.applicableProducts || []), JSON.stringify(input.applicableCategories || []),
+          JSON.stringify(input.applicableStores || []), input.startDate || null, input.endDate || null,
+          input.usageLimit ?? null, input.isCombinable ?? false, input.isActive ?? true, ctx.userId,
+          input.customerSegmentId || null
+        ]
+      );
+      const promotion = result.rows[0];
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'promotion',
+        entityId: promotion.id,
+        afterData: promotion
+      });
+
+      return promotion;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A promotion with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a promotion
+   * The rule settings are validated against the resulting type, so a partial
+   * update is merged with the stored promotion first
+   */
+  static async updatePromotion(ctx: TenantContext, promotionId: string, input: PromotionInput) {
+    const before = await this.getPromotion(ctx.tenantId, promotionId);
+    const type: PromotionType = input.type || before.type;
+    const merged: PromotionInput = {
+      rules: input.rules ?? before.rules,
+      discountValue: input.discountValue ?? this.toNumber(before.discount_value)
+    };
+    const rules = this.validateRules(type, merged);
+    await this.assertSegment(ctx.tenantId, input.customerSegmentId);
+
+    try {
+      const result = await query(
+        `UPDATE promotions SET
+          code = COALESCE($1, code),
+          name = COALESCE($2, name),
+          description = $3,
+          type = $4,
+          rules = $5,
+          discount_value = $6,
+          max_discount = $7,
+          min_purchase = $8,
+          applicable_products = COALESCE($9, applicable_products),
+          applicable_categories = COALESCE($10, applicable_categories),
+          applicable_stores = COALESCE($11, applicable_stores),
+          start_date = $12,
+          end_date = $13,
+          usage_limit = $14,
+          is_combinable = COALESCE($15, is_combinable),
+          is_active = COALESCE($16, is_active),
+          customer_segment_id = CASE WHEN $19::boolean THEN $20::uuid ELSE customer_segment_id END,
+          updated_at = NOW()
+         WHERE id = $17 AND tenant_id = $18
+         RETURNING *`,
+        [
+          input.code?.trim().toUpperCase() || null, input.name?.trim() || null, input.description || null,
+          type, JSON.stringify(rules), merged.discountValue ?? null,
+          input.maxDiscount ?? null, input.minPurchase ?? null,
+          input.applicableProducts ? JSON.stringify(input.applicableProducts) : null,
+          input.applicableCategories ? JSON.stringify(input.applicableCategories) : null,
+          input.applicableStores ? JSON.stringify(input.applicableStores) : null,
+          input.startDate || null, input.endDate || null, input.usageLimit ?? null,
+          input.isCombinable ?? null, input.isActive ?? null, promotionId, ctx.tenantId,
+          input.customerSegmentId !== undefined, input.customerSegmentId || null
+        ]
+      );
+      const promotion = result.rows[0];
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'promotion',
+        entityId: promotionId,
+        beforeData: before,
+        afterData: promotion
+      });
+
+      return promotion;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A promotion with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * End a promotion. Sales history keeps referring to it.
+   */
+  static async deactivatePromotion(ctx: TenantContext, promotionId: string): Promise<void> {
+    const result = await query(
+      `UPDATE promotions SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [promotionId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Promotion not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DEACTIVATE,
+      entityType: 'promotion',
+      entityId: promotionId
+    });
+  }
+
+  /**
+   * Work out the promotion discounts for a cart at a store
+   * Coupons only apply when their code is passed in couponCodes; segment
+   * promotions only when customerId is in the segment.
+   */
+  static async evaluateCart(
+    tenantId: string,
+    storeId: string,
+    lines: PromotionCartLine[],
+    options: { couponCodes?: string[]; customerId?: string } = {},
+    client?: PoolClient
+  ): Promise<CartPromotionResult> {
+    const run = (text: string, params: unknown[]) => client ? client.query(text, params) : query(text, params);
+    const couponCodes = [...new Set((options.couponCodes || []).map(c => c.trim().toUpperCase()).filter(Boolean))];
+
+    const promoResult = await run(
+      `SELECT * FROM promotions
+       WHERE tenant_id = $1
+       AND is_active = true
+       AND (start_date IS NULL OR start_date <= NOW())
+       AND (end_date IS NULL OR end_date >= NOW())
+       AND (usage_limit IS NULL OR usage_count < usage_limit)
+       AND (COALESCE(applicable_stores, '[]'::jsonb) = '[]'::jsonb OR applicable_stores @> $2::jsonb)
+       AND (type <> 'coupon' OR code = ANY($3::text[]))`,
+      [tenantId, JSON.stringify([storeId]), couponCodes]
+    );
+    const segmentIds: string[] = promoResult.rows.map(row => row.customer_segment_id).filter(Boolean);
+    const customerSegments = options.customerId && segmentIds.length > 0
+      ? await CustomerSegmentService.memberOf(tenantId, options.customerId, segmentIds)
+      : new Set<string>();
+    const outsideAudience = new Set<string>();
+    const promotions = promoResult.rows
+      .filter(row => {
+        if (!row.customer_segment_id || customerSegments.has(row.customer_segment_id)) return true;
+        outsideAudience.add(row.code);
+        return false;
+      })
+      .map(row => this.toPromotion(row));
+
+    const productResult = await run(
+      `SELECT id, category_id FROM products WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, [...new Set(lines.map(l => l.productId))]]
+    );
+    const categoryByProduct = new Map<string, string | null>(
+      productResult.rows.map(p => [p.id, p.category_id])
+    );
+
+    const candidates: PromotionCandidate[] = [];
+    const noDiscountCoupons = new Set<string>();
+    for (const promotion of promotions) {
+      const candidate = this.evaluatePromotion(promotion, lines, categoryByProduct);
+      if (candidate) {
+        candidates.push(candidate);
+      } else if (promotion.type === 'coupon') {
+        noDiscountCoupons.add(promotion.code);
+      }
+    }
+
+    // Largest discount first; each line keeps track of what it already carries
+    candidates.sort((a, b) => b.total - a.total);
+    const lineState = lines.map(line => ({
+      gross: line.quantity * line.unitPrice,
+      discount: 0,
+      exclusive: false,
+      promotions: [] as Array<{ promotionId: string; name: string; amount: number }>
+    }));
+    const applied: AppliedPromotion[] = [];
+    const blockedCoupons = new Set<string>();
+
+    for (const candidate of candidates) {
+      const { promotion } = candidate;
+      const touched = [...candidate.allocations.keys()];
+      const fits = touched.every(index => promotion.isCombinable
+        ? !lineState[index].exclusive
+        : lineState[index].promotions.length === 0);
+      if (!fits) {
+        if (promotion.type === 'coupon') blockedCoupons.add(promotion.code);
+        continue;
+      }
+
+      let total = 0;
+      const appliedLines: number[] = [];
+      for (const [index, amount] of candidate.allocations) {
+        const state = lineState[index];
+        const capped = roundMoney(Math.min(amount, state.gross - state.discount));
+        if (capped <= 0) continue;
+        state.discount = roundMoney(state.discount + capped);
+        state.exclusive = state.exclusive || !promotion.isCombinable;
+        state.promotions.push({ promotionId: promotion.id, name: promotion.name, amount: capped });
+        appliedLines.push(index);
+        total += capped;
+      }
+      if (appliedLines.length > 0) {
+        applied.push({
+          promotionId: promotion.id,
+          code: promotion.code,
+          name: promotion.name,
+          type: promotion.type,
+          amount: roundMoney(total),
+          lines: appliedLines
+        });
+      }
+    }
+
+    const appliedCodes = new Set(applied.map(p => p.code));
+    const knownCodes = new Set(promotions.map(p => p.code));
+    const rejectedCoupons = couponCodes
+      .filter(code => !appliedCodes.has(code))
+      .map(code => ({
+        code,
+        message: outsideAudience.has(code)
+          ? 'This coupon is only for selected customers'
+          : !knownCodes.has(code)
+          ? 'Invalid or expired coupon code'
+          : blockedCoupons.has(code)
+            ? 'Coupon cannot be combined with the promotions already applied'
+            : noDiscountCoupons.has(code) ? 'Cart does not meet the coupon conditions' : 'Coupon does not apply'
+      }));
+
+    return {
+      lines: lineState.map((state, index) => ({
+        index,
+        discountAmount: state.discount,
+        promotionId: state.promotions[0]?.promotionId,
+        promotions: state.promotions
+      })),
+      promotions: applied,
+      totalDiscount: roundMoney(applied.reduce((sum, p) => sum + p.amount, 0)),
+      rejectedCoupons
+    };
+  }
+
+  /**
+   * Count a completed sale against each promotion's usage limit
+   */
+  static async recordUsage(client: PoolClient, tenantId: string, promotionIds: string[]): Promise<void> {
+    const ids = [...new Set(promotionIds)];
+    if (ids.length === 0) return;
+    await client.query(
+      `UPDATE promotions SET usage_count = usage_count + 1
+       WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, ids]
+    );
+  }
+
+  /**
+   * Give back the uses of a fully refunded sale
+   */
+  static async releaseUsage(client: PoolClient, tenantId: string, promotionIds: string[]): Promise<void> {
+    const ids = [...new Set(promotionIds)];
+    if (ids.length === 0) return;
+    await client.query(
+      `UPDATE promotions SET usage_count = GREATEST(usage_count - 1, 0)
+       WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, ids]
+    );
+  }
+
+  /**
+   * Promotion performance
+   * Built from the promotion entries in completed receipts' discount_details:
+   * receipts, discount given, sales value and average basket per promotion.
+   * Periods are Cairo days; without dates the whole history is reported.
+   */
+  static async getPerformance(tenantId: string, options: ReportPeriodInput = {}) {
+    const start = options.startDate ? parseDateToCairoStart(options.startDate).toISOString() : null;
+    const end = options.endDate ? parseDateToCairoEnd(options.endDate).toISOString() : getCairoEndOfDay().toISOString();
+    const params: unknown[] = [tenantId, start, end, options.storeId || null];
+    const result = await query(`
+      WITH usage AS (
+        SELECT (d->>'promotionId')::uuid as promotion_id,
+               r.id as receipt_id,
+               r.total_amount,
+               (d->>'amount')::numeric as discount
+        FROM sales_receipts r
+        CROSS JOIN LATERAL jsonb_array_elements(r.discount_details) d
+        WHERE r.tenant_id = $1 AND r.type = 'sale' AND r.status = 'completed'
+          AND d->>'type' = 'promotion' AND d->>'promotionId' IS NOT NULL
+          AND ($2::timestamptz IS NULL OR r.receipt_date >= $2::timestamptz)
+          AND r.receipt_date <= $3::timestamptz
+          AND ($4::uuid IS NULL OR r.store_id = $4::uuid)
+      ),
+      units AS (
+        SELECT sl.promotion_id, SUM(sl.quantity) as units
+        FROM sales_lines sl
+        JOIN sales_receipts r ON r.id = sl.receipt_id
+        WHERE r.tenant_id = $1 AND r.type = 'sale' AND r.status = 'completed' AND sl.promotion_id IS NOT NULL
+          AND ($2::timestamptz IS NULL OR r.receipt_date >= $2::timestamptz)
+          AND r.receipt_date <= $3::timestamptz
+          AND ($4::uuid IS NULL OR r.store_id = $4::uuid)
+        GROUP BY sl.promotion_id
+      )
+      SELECT p.id, p.code, p.name, p.type, p.is_active, p.start_date, p.end_date,
+             p.usage_count, p.usage_limit,
+             COUNT(DISTINCT u.receipt_id) as receipt_count,
+             COALESCE(SUM(u.discount), 0) as discount_total,
+             COALESCE(SUM(u.total_amount), 0) as sales_total,
+             COALESCE(un.units, 0) as units
+      FROM promotions p
+      LEFT JOIN usage u ON u.promotion_id = p.id
+      LEFT JOIN units un ON un.promotion_id = p.id
+      WHERE p.tenant_id = $1
+      GROUP BY p.id, un.units
+      ORDER BY discount_total DESC, p.name
+    `, params);
+
+    const promotions = result.rows.map(row => {
+      const receiptCount = parseInt(row.receipt_count);
+      const discountTotal = parseFloat(row.discount_total);
+      const salesTotal = parseFloat(row.sales_total);
+      return {
+        promotionId: row.id,
+        code: row.code,
+        name: row.name,
+        type: row.type,
+        isActive: row.is_active,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        usageCount: row.usage_count,
+        usageLimit: row.usage_limit,
+        receiptCount,
+        units: parseFloat(row.units),
+        discountTotal: roundMoney(discountTotal),
+        salesTotal: roundMoney(salesTotal),
+        avgBasket: receiptCount > 0 ? roundMoney(salesTotal / receiptCount) : null,
+        discountRate: salesTotal + discountTotal > 0 ? discountTotal / (salesTotal + discountTotal) * 100 : null
+      };
+    });
+
+    return {
+      promotions,
+      summary: {
+        receiptCount: promotions.reduce((sum, p) => sum + p.receiptCount, 0),
+        discountTotal: roundMoney(promotions.reduce((sum, p) => sum + p.discountTotal, 0)),
+        salesTotal: roundMoney(promotions.reduce((sum, p) => sum + p.salesTotal, 0))
+      }
+    };
+  }
+
+  /**
+   * Discount a single promotion would give on the undiscounted cart, per line
+   */
+  private static evaluatePromotion(
+    promotion: Promotion,
+    lines: PromotionCartLine[],
+    categoryByProduct: Map<string, string | null>
+  ): PromotionCandidate | null {
+    const rules = promotion.rules as PromotionRules;
+    const scoped = promotion.applicableProducts.length > 0 || promotion.applicableCategories.length > 0;
+    const eligible = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => line.quantity > 0 && (!scoped
+        || promotion.applicableProducts.includes(line.productId)
+        || promotion.applicableCategories.includes(categoryByProduct.get(line.productId) || '')));
+
+    const eligibleSubtotal = eligible.reduce((sum, { line }) => sum + line.quantity * line.unitPrice, 0);
+    if (promotion.minPurchase && eligibleSubtotal < promotion.minPurchase) {
+      return null;
+    }
+
+    const allocations = new Map<number, number>();
+    const add = (index: number, amount: number) => {
+      if (amount > 0) allocations.set(index, (allocations.get(index) || 0) + amount);
+    };
+    const value = promotion.discountValue || 0;
+
+    switch (promotion.type) {
+      case 'percent_off':
+        eligible.forEach(({ line, index }) => add(index, line.quantity * line.unitPrice * value / 100));
+        break;
+
+      case 'fixed_off':
+        eligible.forEach(({ line, index }) => add(index, line.quantity * Math.min(value, line.unitPrice)));
+        break;
+
+      case 'coupon': {
+        const discount = rules.discountType === 'percent'
+          ? eligibleSubtotal * value / 100
+          : Math.min(value, eligibleSubtotal);
+        eligible.forEach(({ line, index }) => {
+          if (eligibleSubtotal > 0) add(index, discount * line.quantity * line.unitPrice / eligibleSubtotal);
+        });
+        break;
+      }
+
+      case 'buy_x_get_y': {
+        const buyQty = rules.buyQty || 0;
+        const getQty = rules.getQty || 0;
+        const percent = rules.getDiscountPercent ?? 100;
+        if (buyQty < 1 || getQty < 1) return null;
+        const rewardProducts = rules.getProducts || [];
+        // Whole units per line, dearest first
+        const toTiers = (entries: typeof eligible) => entries
+          .map(({ line, index }) => ({ index, price: line.unitPrice, units: Math.floor(line.quantity) }))
+          .sort((a, b) => b.price - a.price);
+        const unitCount = (tiers: ReturnType<typeof toTiers>) => tiers.reduce((sum, tier) => sum + tier.units, 0);
+        const discountCheapest = (tiers: ReturnType<typeof toTiers>, count: number) => {
+          let left = count;
+          for (let i = tiers.length - 1; i >= 0 && left > 0; i--) {
+            const units = Math.min(left, tiers[i].units);
+            add(tiers[i].index, units * tiers[i].price * percent / 100);
+            left -= units;
+          }
+        };
+
+        if (rewardProducts.length === 0) {
+          // Same pool: every buyQty + getQty units, the cheapest getQty are discounted
+          const tiers = toTiers(eligible);
+          discountCheapest(tiers, Math.floor(unitCount(tiers) / (buyQty + getQty)) * getQty);
+        } else {
+          const qualifying = toTiers(eligible.filter(({ line }) => !rewardProducts.includes(line.productId)));
+          const rewards = toTiers(lines
+            .map((line, index) => ({ line, index }))
+            .filter(({ line }) => rewardProducts.includes(line.productId)));
+          discountCheapest(rewards, Math.floor(unitCount(qualifying) / buyQty) * getQty);
+        }
+        break;
+      }
+
+      case 'bundle': {
+        const items = rules.bundleItems || [];
+        if (items.length === 0 || rules.bundlePrice === undefined) return null;
+        const linesFor = (productId: string) => lines
+          .map((line, index) => ({ line, index }))
+          .filter(({ line }) => line.productId === productId);
+
+        const bundles = Math.min(...items.map(item => Math.floor(
+          linesFor(item.productId).reduce((sum, { line }) => sum + line.quantity, 0) / item.quantity
+        )));
+        if (bundles < 1) return null;
+
+        // Undiscounted price of one bundle, using the highest price in the cart for each item
+        const itemPrices = items.map(item => Math.max(...linesFor(item.productId).map(({ line }) => line.unitPrice)));
+        const bundleValue = items.reduce((sum, item, i) => sum + item.quantity * itemPrices[i], 0);
+        const discountPerBundle = bundleValue - rules.bundlePrice;
+        if (discountPerBundle <= 0) return null;
+
+        // Spread the discount over the component lines by their share of the bundle value
+        items.forEach((item, i) => {
+          let remaining = item.quantity * bundles;
+          const share = discountPerBundle * (item.quantity * itemPrices[i]) / bundleValue / item.quantity;
+          for (const { line, index } of linesFor(item.productId)) {
+            if (remaining <= 0) break;
+            const qty = Math.min(line.quantity, remaining);
+            add(index, qty * share);
+            remaining -= qty;
+          }
+        });
+        break;
+      }
+    }
+
+    let total = [...allocations.values()].reduce((sum, amount) => sum + amount, 0);
+    if (total <= 0) return null;
+
+    // Scale every line down when the promotion has a discount cap
+    if (promotion.maxDiscount && total > promotion.maxDiscount) {
+      const factor = promotion.maxDiscount / total;
+      for (const [index, amount] of allocations) {
+        allocations.set(index, amount * factor);
+      }
+      total = promotion.maxDiscount;
+    }
+
+    return { promotion, rules, allocations, total };
+  }
+
+  /**
+   * Check the settings each promotion type needs and return the rules to store
+   */
+  private static validateRules(type: PromotionType, input: PromotionInput): PromotionRules {
+    const rules = input.rules || {};
+    const value = input.discountValue;
+
+    switch (type) {
+      case 'percent_off':
+        if (!value || value <= 0 || value > 100) {
+          throw AppError.badRequest('Percent off needs a discount between 0 and 100');
+        }
+        return {};
+      case 'fixed_off':
+        if (!value || value <= 0) {
+          throw AppError.badRequest('Fixed off needs a discount amount');
+        }
+        return {};
+      case 'coupon': {
+        const discountType = rules.discountType === 'percent' ? 'percent' : 'fixed';
+        if (!value || value <= 0 || (discountType === 'percent' && value > 100)) {
+          throw AppError.badRequest('Coupon needs a discount value (percent coupons up to 100)');
+        }
+        return { discountType };
+      }
+      case 'buy_x_get_y': {
+        const getDiscountPercent = rules.getDiscountPercent ?? 100;
+        if (!rules.buyQty || rules.buyQty < 1 || !rules.getQty || rules.getQty < 1) {
+          throw AppError.badRequest('Buy X get Y needs buy and get quantities of at least 1');
+        }
+        if (getDiscountPercent <= 0 || getDiscountPercent > 100) {
+          throw AppError.badRequest('Buy X get Y discount must be between 0 and 100 percent');
+        }
+        return {
+          buyQty: Math.floor(rules.buyQty),
+          getQty: Math.floor(rules.getQty),
+          getProducts: rules.getProducts || [],
+          getDiscountPercent
+        };
+      }
+      case 'bundle': {
+        const items = (rules.bundleItems || []).filter(item => item.quantity > 0);
+        const units = items.reduce((sum, item) => sum + item.quantity, 0);
+        if (units < 2) {
+          throw AppError.badRequest('A bundle needs at least two units');
+        }
+        if (rules.bundlePrice === undefined || rules.bundlePrice < 0) {
+          throw AppError.badRequest('A bundle needs a bundle price');
+        }
+        return { bundleItems: items, bundlePrice: rules.bundlePrice };
+      }
+    }
+  }
+
+  private static async assertSegment(tenantId: string, segmentId?: string | null): Promise<void> {
+    if (!segmentId) return;
+    const result = await query(
+      `SELECT 1 FROM customer_segments WHERE id = $1 AND tenant_id = $2`,
+      [segmentId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Customer segment not found');
+    }
+  }
+
+  private static toPromotion(row: QueryResultRow): Promotion {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      code: row.code,
+      name: row.name,
+      description: row.description || undefined,
+      type: row.type,
+      rules: row.rules || {},
+      discountValue: this.toNumber(row.discount_value),
+      maxDiscount: this.toNumber(row.max_discount),
+      minPurchase: this.toNumber(row.min_purchase),
+      applicableProducts: row.applicable_products || [],
+      applicableCategories: row.applicable_categories || [],
+      applicableStores: row.applicable_stores || [],
+      startDate: row.start_date || undefined,
+      endDate: row.end_date || undefined,
+      usageLimit: row.usage_limit ?? undefined,
+      usageCount: row.usage_count || 0,
+      isCombinable: row.is_combinable === true,
+      isActive: row.is_active === true,
+      customerSegmentId: row.customer_segment_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static toNumber(value: unknown): number | undefined {
+    return value === null || value === undefined ? undefined : parseFloat(String(value));
+  }
+}
+
+export default PromotionService;
@@ -0,0 +1,456 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { nextDailyNumber } from '../utils/numbering.js';
+import { InventoryService } from './inventory.service.js';
+import { AuditService } from './audit.service.js';
+
+export type PurchaseOrderStatus =
+  | 'draft' | 'approved' | 'sent' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  taxRate?: number;
+}
+
+export interface CreatePurchaseOrderInput {
+  storeId: string;
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface UpdatePurchaseOrderInput {
+  supplierId?: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface ReceivePurchaseOrderInput {
+  lines: Array<{ lineId: string; quantity: number; unitCost?: number }>;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+interface StatusTransition {
+  from: PurchaseOrderStatus[];
+  to: PurchaseOrderStatus;
+  action: string;
+  setClause?: string;
+  setParams?: unknown[];
+}
+
+// Line and header totals (tax_rate is a fraction, e.g. 0.14)
+function calculateLines(lines: PurchaseOrderLineInput[]) {
+  let subtotal = 0;
+  let taxAmount = 0;
+
+  const calculated = lines.map((line, index) => {
+    const taxRate = line.taxRate || 0;
+    const lineSubtotal = line.quantity * line.unitCost;
+    const lineTax = lineSubtotal * taxRate;
+    subtotal += lineSubtotal;
+    taxAmount += lineTax;
+
+    return {
+      lineNumber: index + 1,
+      productId: line.productId,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+      taxRate,
+      taxAmount: lineTax,
+      lineTotal: lineSubtotal + lineTax
+    };
+  });
+
+  return { lines: calculated, subtotal, taxAmount, totalAmount: subtotal + taxAmount };
+}
+
+/**
+ * Purchase Order Service
+ *
+ * Draft → approved → sent → (partially_)received → closed, with receiving
+ * against PO lines through GRNs.
+ */
+export class PurchaseOrderService {
+  /**
+   * List purchase orders with line and quantity totals
+   */
+  static async listOrders(
+    tenantId: string,
+    options: { storeId?: string; status?: string; supplierId?: string; search?: string }
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT po.*, s.name as store_name, sup.name as supplier_name, sup.code as supplier_code,
+             u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+             (SELECT COUNT(*) FROM purchase_order_lines pol WHERE pol.purchase_order_id = po.id) as line_count,
+             (SELECT COALESCE(SUM(pol.quantity), 0) FROM purchase_order_lines pol WHERE pol.purchase_order_id = po.id) as ordered_qty,
+             (SELECT COALESCE(SUM(pol.received_qty), 0) FROM purchase_order_lines pol WHERE pol.purchase_order_id = po.id) as received_qty
+      FROM purchase_orders po
+      LEFT JOIN stores s ON s.id = po.store_id
+      LEFT JOIN suppliers sup ON sup.id = po.supplier_id
+      LEFT JOIN users u ON u.id = po.created_by
+      WHERE po.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND po.store_id = $${params.length}`;
+    }
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND po.status = $${params.length}`;
+    }
+    if (options.supplierId) {
+      params.push(options.supplierId);
+      sql += ` AND po.supplier_id = $${params.length}`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      sql += ` AND (po.po_number ILIKE $${params.length} OR sup.name ILIKE $${params.length})`;
+    }
+    sql += ` ORDER BY po.created_at DESC LIMIT 200`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Purchase order with lines and the GRNs received against it
+   */
+  static async getOrder(tenantId: string, purchaseOrderId: string) {
+    const poResult = await query(
+      `SELECT po.*, s.name as store_name, s.address as store_address,
+              sup.name as supplier_name, sup.code as supplier_code, sup.contact_name as supplier_contact,
+              sup.email as supplier_email, sup.phone as supplier_phone, sup.payment_terms as supplier_payment_terms,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+              au.first_name || ' ' || COALESCE(au.last_name, '') as approved_by_name
+       FROM purchase_orders po
+       LEFT JOIN stores s ON s.id = po.store_id
+       LEFT JOIN suppliers sup ON sup.id = po.supplier_id
+       LEFT JOIN users u ON u.id = po.created_by
+       LEFT JOIN users au ON au.id = po.approved_by
+       WHERE po.id = $1 AND po.tenant_id = $2`,
+      [purchaseOrderId, tenantId]
+    );
+    if (poResult.rows.length === 0) {
+      return null;
+    }
+
+    const linesResult = await query(
+      `SELECT pol.*, p.name as product_name, p.sku,
+              GREATEST(pol.quantity - COALESCE(pol.received_qty, 0), 0) as remaining_qty,
+              (SELECT COALESCE(SUM(sil.quantity), 0)
+               FROM supplier_invoice_lines sil JOIN supplier_invoices si ON si.id = sil.invoice_id
+               WHERE sil.purchase_order_line_id = pol.id AND si.status <> 'cancelled') as invoiced_qty
+       FROM purchase_order_lines pol
+       LEFT JOIN products p ON p.id = pol.product_id
+       WHERE pol.purchase_order_id = $1
+       ORDER BY pol.line_number`,
+      [purchaseOrderId]
+    );
+
+    const grnsResult = await query(
+      `SELECT g.id, g.grn_number, g.grn_date, g.reference_number, g.total_amount, g.received_at,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as received_by_name
+       FROM grns g
+       LEFT JOIN users u ON u.id = g.received_by
+       WHERE g.purchase_order_id = $1 AND g.tenant_id = $2
+       ORDER BY g.created_at`,
+      [purchaseOrderId, tenantId]
+    );
+
+    return Object.assign(poResult.rows[0], { lines: linesResult.rows, grns: grnsResult.rows });
+  }
+
+  private static async insertLines(
+    client: PoolClient,
+    tenantId: string,
+    purchaseOrderId: string,
+    lines: ReturnType<typeof calculateLines>['lines']
+  ): Promise<void> {
+    for (const line of lines) {
+      await client.query(
+        `INSERT INTO purchase_order_lines (
+          tenant_id, purchase_order_id, line_number, product_id, quantity, unit_cost, tax_rate, tax_amount, line_total
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [tenantId, purchaseOrderId, line.lineNumber, line.productId, line.quantity,
+         line.unitCost, line.taxRate, line.taxAmount, line.lineTotal]
+      );
+    }
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  static async createOrder(ctx: TenantContext, input: CreatePurchaseOrderInput) {
+    const orderId = await withTransaction(async (client) => {
+      const poNumber = await nextDailyNumber(client, 'purchase_orders', 'PO', ctx.tenantId);
+      const totals = calculateLines(input.lines);
+
+      const result = await client.query(
+        `INSERT INTO purchase_orders (
+          tenant_id, store_id, supplier_id, po_number, expected_date, status,
+          subtotal, tax_amount, total_amount, notes, created_by
+        ) VALUES ($1, $2, $3, $4, $5, 'draft', $6, $7, $8, $9, $10)
+        RETURNING id`,
+        [ctx.tenantId, input.storeId, input.supplierId, poNumber, input.expectedDate || null,
+         totals.subtotal, totals.taxAmount, totals.totalAmount, input.notes || null, ctx.userId]
+      );
+      const id: string = result.rows[0].id;
+
+      await this.insertLines(client, ctx.tenantId, id, totals.lines);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'purchase_order',
+        entityId: id,
+        storeId: input.storeId,
+        afterData: {
+          poNumber,
+          supplierId: input.supplierId,
+          totalAmount: totals.totalAmount,
+          lineCount: totals.lines.length
+        }
+      }, client);
+
+      return id;
+    });
+
+    return this.getOrder(ctx.tenantId, orderId);
+  }
+
+  /**
+   * Update a draft purchase order (lines are replaced)
+   */
+  static async updateOrder(ctx: TenantContext, purchaseOrderId: string, input: UpdatePurchaseOrderInput) {
+    await withTransaction(async (client) => {
+      const existing = await client.query(
+        'SELECT * FROM purchase_orders WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [purchaseOrderId, ctx.tenantId]
+      );
+      if (existing.rows.length === 0) {
+        throw AppError.notFound('Purchase order not found');
+      }
+      const order = existing.rows[0];
+      if (order.status !== 'draft') {
+        throw AppError.badRequest('Only draft purchase orders can be edited');
+      }
+
+      const totals = calculateLines(input.lines);
+
+      await client.query(
+        `UPDATE purchase_orders
+         SET supplier_id = COALESCE($1, supplier_id), expected_date = $2, notes = $3,
+             subtotal = $4, tax_amount = $5, total_amount = $6, updated_at = NOW()
+         WHERE id = $7`,
+        [input.supplierId || null, input.expectedDate || null, input.notes || null,
+         totals.subtotal, totals.taxAmount, totals.totalAmount, purchaseOrderId]
+      );
+
+      await client.query('DELETE FROM purchase_order_lines WHERE purchase_order_id = $1', [purchaseOrderId]);
+      await this.insertLines(client, ctx.tenantId, purchaseOrderId, totals.lines);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'purchase_order',
+        entityId: purchaseOrderId,
+        storeId: order.store_id,
+        beforeData: { totalAmount: order.total_amount },
+        afterData: { totalAmount: totals.totalAmount, lineCount: totals.lines.length }
+      }, client);
+    });
+
+    return this.getOrder(ctx.tenantId, purchaseOrderId);
+  }
+
+  /**
+   * Move a PO between statuses, recording who did it
+   * setClause may reference $5 onwards for the values in setParams
+   */
+  private static async transition(ctx: TenantContext, purchaseOrderId: string, transition: StatusTransition) {
+    const result = await query(
+      `UPDATE purchase_orders
+       SET status = $1, updated_at = NOW() ${transition.setClause || ''}
+       WHERE id = $2 AND tenant_id = $3 AND status = ANY($4::text[])
+       RETURNING *`,
+      [transition.to, purchaseOrderId, ctx.tenantId, transition.from, ...(transition.setParams || [])]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest(
+        `Purchase order must be ${transition.from.join(' or ')} to ${transition.action.toLowerCase()}`
+      );
+    }
+    const order = result.rows[0];
+
+    await AuditService.log(ctx, {
+      action: transition.action,
+      entityType: 'purchase_order',
+      entityId: purchaseOrderId,
+      storeId: order.store_id,
+      afterData: { poNumber: order.po_number, status: transition.to }
+    });
+
+    return this.getOrder(ctx.tenantId, purchaseOrderId);
+  }
+
+  static async approveOrder(ctx: TenantContext, purchaseOrderId: string) {
+    return this.transition(ctx, purchaseOrderId, {
+      from: ['draft'], to: 'approved', action: AuditService.ACTIONS.APPROVE,
+      setClause: ', approved_by = $5, approved_at = NOW()', setParams: [ctx.userId]
+    });
+  }
+
+  // Mark as sent to the supplier
+  static async sendOrder(ctx: TenantContext, purchaseOrderId: string) {
+    return this.transition(ctx, purchaseOrderId, {
+      from: ['approved'], to: 'sent', action: AuditService.ACTIONS.SEND,
+      setClause: ', sent_by = $5, sent_at = NOW()', setParams: [ctx.userId]
+    });
+  }
+
+  // Short-close a partially received PO
+  static async closeOrder(ctx: TenantContext, purchaseOrderId: string) {
+    return this.transition(ctx, purchaseOrderId, {
+      from: ['partially_received', 'received'], to: 'closed', action: AuditService.ACTIONS.CLOSE,
+      setClause: ', closed_at = NOW()'
+    });
+  }
+
+  // Cancel, only before anything is received
+  static async cancelOrder(ctx: TenantContext, purchaseOrderId: string) {
+    return this.transition(ctx, purchaseOrderId, {
+      from: ['draft', 'approved', 'sent'], to: 'cancelled', action: AuditService.ACTIONS.CANCEL,
+      setClause: ', cancelled_at = NOW()'
+    });
+  }
+
+  /**
+   * Receive against PO lines
+   * Creates a GRN, posts 'receive' stock movements, updates product cost and
+   * moves the PO to partially_received or received
+   */
+  static async receiveOrder(ctx: TenantContext, purchaseOrderId: string, input: ReceivePurchaseOrderInput) {
+    const receiving = input.lines.filter(line => line.quantity > 0);
+    if (receiving.length === 0) {
+      throw AppError.badRequest('Enter a received quantity for at least one line');
+    }
+
+    const { grn, totalAmount } = await withTransaction(async (client) => {
+      const poResult = await client.query(
+        'SELECT * FROM purchase_orders WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [purchaseOrderId, ctx.tenantId]
+      );
+      const po = poResult.rows[0];
+      if (!po) {
+        throw AppError.notFound('Purchase order not found');
+      }
+      if (!['sent', 'partially_received'].includes(po.status)) {
+        throw AppError.badRequest(`Cannot receive against a purchase order in status ${po.status}`);
+      }
+
+      const grnNumber = await nextDailyNumber(client, 'grns', 'GRN', ctx.tenantId);
+      const grnResult = await client.query(
+        `INSERT INTO grns (
+          tenant_id, store_id, supplier_id, purchase_order_id, grn_number, reference_number,
+          status, notes, received_at, created_by, received_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, 'received', $7, NOW(), $8, $8)
+        RETURNING *`,
+        [ctx.tenantId, po.store_id, po.supplier_id, po.id, grnNumber,
+         input.referenceNumber || null, input.notes || null, ctx.userId]
+      );
+      const created = grnResult.rows[0];
+
+      let subtotal = 0;
+      let taxAmount = 0;
+      let lineNumber = 1;
+
+      for (const line of receiving) {
+        const lineResult = await client.query(
+          'SELECT * FROM purchase_order_lines WHERE id = $1 AND purchase_order_id = $2 FOR UPDATE',
+          [line.lineId, po.id]
+        );
+        const poLine = lineResult.rows[0];
+        if (!poLine) {
+          throw AppError.badRequest('Purchase order line not found');
+        }
+
+        const unitCost = line.unitCost ?? parseFloat(poLine.unit_cost);
+        const taxRate = parseFloat(poLine.tax_rate) || 0;
+        const lineSubtotal = line.quantity * unitCost;
+        const lineTax = lineSubtotal * taxRate;
+        subtotal += lineSubtotal;
+        taxAmount += lineTax;
+
+        const grnLineResult = await client.query(
+          `INSERT INTO grn_lines (
+            tenant_id, grn_id, line_number, product_id, purchase_order_line_id,
+            ordered_qty, received_qty, unit_cost, tax_rate, tax_amount, line_total
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          RETURNING id`,
+          [ctx.tenantId, created.id, lineNumber++, poLine.product_id, poLine.id,
+           poLine.quantity, line.quantity, unitCost, taxRate, lineTax, lineSubtotal + lineTax]
+        );
+
+        await client.query(
+          'UPDATE purchase_order_lines SET received_qty = COALESCE(received_qty, 0) + $1 WHERE id = $2',
+          [line.quantity, poLine.id]
+        );
+
+        await InventoryService.recordMovement(ctx, po.store_id, {
+          productId: poLine.product_id,
+          quantity: line.quantity,
+          costPrice: unitCost,
+          referenceType: 'receive',
+          referenceId: created.id,
+          referenceLineId: grnLineResult.rows[0].id,
+          notes: `${grnNumber} against ${po.po_number}`
+        }, client);
+
+        await client.query(
+          'UPDATE products SET cost_price = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3',
+          [unitCost, poLine.product_id, ctx.tenantId]
+        );
+      }
+
+      await client.query(
+        'UPDATE grns SET subtotal = $1, tax_amount = $2, total_amount = $3 WHERE id = $4',
+        [subtotal, taxAmount, subtotal + taxAmount, created.id]
+      );
+
+      // Fully received once every line has reached its ordered quantity
+      const outstanding = await client.query(
+        `SELECT COUNT(*) as open_lines FROM purchase_order_lines
+         WHERE purchase_order_id = $1 AND COALESCE(received_qty, 0) < quantity`,
+        [po.id]
+      );
+      const newStatus: PurchaseOrderStatus =
+        parseInt(outstanding.rows[0].open_lines) === 0 ? 'received' : 'partially_received';
+
+      await client.query(
+        'UPDATE purchase_orders SET status = $1, updated_at = NOW() WHERE id = $2',
+        [newStatus, po.id]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.GRN_RECEIVED,
+        entityType: 'grn',
+        entityId: created.id,
+        storeId: po.store_id,
+        afterData: { grnNumber, poNumber: po.po_number, totalAmount: subtotal + taxAmount, poStatus: newStatus }
+      }, client);
+
+      return { grn: created, totalAmount: subtotal + taxAmount };
+    });
+
+    const order = await this.getOrder(ctx.tenantId, purchaseOrderId);
+    return { grn: { ...grn, total_amount: totalAmount }, order };
+  }
+}
+
+export default PurchaseOrderService;
@@ -0,0 +1,217 @@
+import { query, withTransaction } from '../database/pool.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { AuditService } from './audit.service.js';
+
+export interface RegisterInput {
+  storeId: string;
+  name: string;
+}
+
+export interface DeviceInput {
+  deviceKey: string;
+  deviceName?: string;
+}
+
+// The device key identifies a browser and is never sent back
+const REGISTER_COLUMNS = `
+  r.id, r.store_id, r.name, r.is_active, r.created_at, r.updated_at,
+  r.device_key IS NOT NULL as device_bound, r.device_name, r.device_bound_at,
+  s.id as open_shift_id,
+  s.shift_number as open_shift_number,
+  (SELECT string_agg(u.first_name || ' ' || COALESCE(u.last_name, ''), ', ' ORDER BY sc.joined_at)
+   FROM shift_cashiers sc JOIN users u ON u.id = sc.user_id
+   WHERE sc.shift_id = s.id AND sc.left_at IS NULL) as open_shift_cashiers`;
+
+const REGISTER_FROM = `
+  FROM registers r
+  LEFT JOIN shifts s ON s.register_id = r.id AND s.status = 'open'`;
+
+/**
+ * Register Service
+ *
+ * The tills of a store. A browser is bound to a register by a device key it
+ * generates and keeps, so the POS knows which register it is; shifts are
+ * opened on a register (see ShiftService).
+ */
+export class RegisterService {
+  /**
+   * Registers of a store with the shift open on each
+   */
+  static async listRegisters(tenantId: string, storeId: string, includeInactive = false) {
+    const result = await query(
+      `SELECT ${REGISTER_COLUMNS} ${REGISTER_FROM}
+       WHERE r.tenant_id = $1 AND r.store_id = $2 ${includeInactive ? '' : 'AND r.is_active = true'}
+       ORDER BY r.name`,
+      [tenantId, storeId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * The register a browser is bound to at a store, if any
+   */
+  static async getDeviceRegister(tenantId: string, storeId: string, deviceKey: string) {
+    const result = await query(
+      `SELECT ${REGISTER_COLUMNS} ${REGISTER_FROM}
+       WHERE r.tenant_id = $1 AND r.store_id = $2 AND r.device_key = $3 AND r.is_active = true`,
+      [tenantId, storeId, deviceKey]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a register to a store
+   */
+  static async createRegister(ctx: TenantContext, input: RegisterInput) {
+    const storeCheck = await query(
+      `SELECT id FROM stores WHERE id = $1 AND tenant_id = $2`,
+      [input.storeId, ctx.tenantId]
+    );
+    if (storeCheck.rows.length === 0) {
+      throw AppError.notFound('Store not found');
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO registers (tenant_id, store_id, name, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [ctx.tenantId, input.storeId, input.name, ctx.userId]
+      );
+      const registerId: string = result.rows[0].id;
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'register',
+        entityId: registerId,
+        storeId: input.storeId,
+        afterData: { name: input.name }
+      });
+
+      return this.getRegister(ctx, registerId);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('The store already has a register with this name');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a register or switch it on or off
+   * A register cannot be switched off while a shift is open on it.
+   */
+  static async updateRegister(ctx: TenantContext, registerId: string, input: { name?: string; isActive?: boolean }) {
+    const register = await this.getRegister(ctx, registerId);
+    if (input.isActive === false && register.open_shift_id) {
+      throw AppError.badRequest(`${register.name} has an open shift; close it first`);
+    }
+
+    try {
+      await query(
+        `UPDATE registers SET
+          name = COALESCE($1, name),
+          is_active = COALESCE($2, is_active),
+          updated_at = NOW()
+         WHERE id = $3 AND tenant_id = $4`,
+        [input.name, input.isActive, registerId, ctx.tenantId]
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('The store already has a register with this name');
+      }
+      throw error;
+    }
+
+    await AuditService.log(ctx, {
+      action: input.isActive === false ? AuditService.ACTIONS.DEACTIVATE : AuditService.ACTIONS.UPDATE,
+      entityType: 'register',
+      entityId: registerId,
+      storeId: register.store_id,
+      beforeData: { name: register.name, isActive: register.is_active },
+      afterData: input
+    });
+
+    return this.getRegister(ctx, registerId);
+  }
+
+  /**
+   * Bind a browser to a register
+   * The device moves off any register it was bound to, and a browser already
+   * bound to this register is replaced.
+   */
+  static async bindDevice(ctx: TenantContext, registerId: string, input: DeviceInput) {
+    const register = await this.getRegister(ctx, registerId);
+    if (!register.is_active) {
+      throw AppError.badRequest(`${register.name} is switched off`);
+    }
+
+    await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE registers SET device_key = NULL, device_name = NULL, device_bound_at = NULL,
+          device_bound_by = NULL, updated_at = NOW()
+         WHERE tenant_id = $1 AND device_key = $2 AND id <> $3`,
+        [ctx.tenantId, input.deviceKey, registerId]
+      );
+      await client.query(
+        `UPDATE registers SET device_key = $1, device_name = $2, device_bound_at = NOW(),
+          device_bound_by = $3, updated_at = NOW()
+         WHERE id = $4`,
+        [input.deviceKey, input.deviceName || null, ctx.userId, registerId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.DEVICE_BOUND,
+        entityType: 'register',
+        entityId: registerId,
+        storeId: register.store_id,
+        beforeData: register.device_bound ? { deviceName: register.device_name } : undefined,
+        afterData: { deviceName: input.deviceName }
+      }, client);
+    });
+
+    return this.getRegister(ctx, registerId);
+  }
+
+  /**
+   * Release a register's browser
+   */
+  static async unbindDevice(ctx: TenantContext, registerId: string) {
+    const register = await this.getRegister(ctx, registerId);
+
+    await query(
+      `UPDATE registers SET device_key = NULL, device_name = NULL, device_bound_at = NULL,
+        device_bound_by = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [registerId]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DEVICE_UNBOUND,
+      entityType: 'register',
+      entityId: registerId,
+      storeId: register.store_id,
+      beforeData: { deviceName: register.device_name }
+    });
+
+    return this.getRegister(ctx, registerId);
+  }
+
+  // A register by id, for users with access to its store
+  private static async getRegister(ctx: TenantContext, registerId: string) {
+    const result = await query(
+      `SELECT ${REGISTER_COLUMNS} ${REGISTER_FROM}
+       WHERE r.id = $1 AND r.tenant_id = $2`,
+      [registerId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Register not found');
+    }
+    await assertStoreAccess(ctx, result.rows[0].store_id);
+    return result.rows[0];
+  }
+}
+
+export default RegisterService;
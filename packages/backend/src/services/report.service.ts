@@ -0,0 +1,369 @@
+import { query } from '../database/pool.js';
+import { getCairoEndOfDay, parseDateToCairoEnd, parseDateToCairoStart } from '../utils/dates.js';
+
+export interface ReportPeriodInput {
+  storeId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+const DEFAULT_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Report period in Cairo days; defaults to the 30 days up to the end of today
+function resolvePeriod(input: ReportPeriodInput) {
+  const end = input.endDate ? parseDateToCairoEnd(input.endDate) : getCairoEndOfDay();
+  const start = input.startDate ? parseDateToCairoStart(input.startDate) : new Date(end.getTime() - DEFAULT_PERIOD_MS);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+// Completed receipts in the period, optionally for one store ($1 tenant, $2-$3 period, $4 store)
+function salesScope(input: ReportPeriodInput) {
+  const period = resolvePeriod(input);
+  const params: unknown[] = [period.start, period.end];
+  let where = `sr.receipt_date >= $2 AND sr.receipt_date <= $3 AND sr.status = 'completed'`;
+  if (input.storeId) {
+    params.push(input.storeId);
+    where += ' AND sr.store_id = $4';
+  }
+  return { period, params, where };
+}
+
+/**
+ * Report Service
+ *
+ * Sales, inventory, customer and profit reports. Days are Cairo trading days
+ * (UTC+2), matching the dashboard.
+ */
+export class ReportService {
+  /**
+   * Sales summary: totals, daily trend, payment mix, top products and hourly distribution
+   */
+  static async getSalesSummary(tenantId: string, input: ReportPeriodInput) {
+    const { period, params, where } = salesScope(input);
+    const values = [tenantId, ...params];
+
+    const salesMetrics = await query(
+      `SELECT
+        COUNT(*) as total_transactions,
+        COALESCE(SUM(total_amount), 0) as total_revenue,
+        COALESCE(AVG(total_amount), 0) as avg_transaction,
+        COALESCE(SUM(discount_amount), 0) as total_discounts
+       FROM sales_receipts sr
+       WHERE sr.tenant_id = $1 AND ${where}`,
+      values
+    );
+
+    const dailySales = await query(
+      `SELECT
+        DATE(receipt_date + INTERVAL '2 hours') as date,
+        COUNT(*) as transactions,
+        COALESCE(SUM(total_amount), 0) as revenue
+       FROM sales_receipts sr
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY DATE(receipt_date + INTERVAL '2 hours')
+       ORDER BY date`,
+      values
+    );
+
+    const salesByPayment = await query(
+      `SELECT
+        COALESCE(p.value->>'method', 'cash') as payment_method,
+        COUNT(DISTINCT sr.id) as transactions,
+        COALESCE(SUM((p.value->>'amount')::numeric), 0) as revenue
+       FROM sales_receipts sr
+       CROSS JOIN LATERAL jsonb_array_elements(COALESCE(sr.payments, '[]'::jsonb)) AS p(value)
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY COALESCE(p.value->>'method', 'cash')`,
+      values
+    );
+
+    const topProducts = await query(
+      `SELECT
+        p.name,
+        p.sku,
+        SUM(sl.quantity) as units_sold,
+        SUM(sl.line_total) as revenue
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY p.id, p.name, p.sku
+       ORDER BY revenue DESC
+       LIMIT 10`,
+      values
+    );
+
+    const hourlyDistribution = await query(
+      `SELECT
+        EXTRACT(HOUR FROM receipt_date + INTERVAL '2 hours') as hour,
+        COUNT(*) as transactions,
+        COALESCE(SUM(total_amount), 0) as revenue
+       FROM sales_receipts sr
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY EXTRACT(HOUR FROM receipt_date + INTERVAL '2 hours')
+       ORDER BY hour`,
+      values
+    );
+
+    return {
+      period,
+      metrics: salesMetrics.rows[0],
+      dailySales: dailySales.rows,
+      salesByPayment: salesByPayment.rows,
+      topProducts: topProducts.rows,
+      hourlyDistribution: hourlyDistribution.rows
+    };
+  }
+
+  /**
+   * Inventory: stock value, low/out of stock, stock by category and 30-day movements
+   */
+  static async getInventoryReport(tenantId: string, storeId?: string) {
+    const params = storeId ? [tenantId, storeId] : [tenantId];
+    const sohStoreJoin = storeId ? 'AND soh.store_id = $2' : '';
+
+    const stockSummary = await query(
+      `SELECT
+        COUNT(DISTINCT soh.product_id) as total_products,
+        COALESCE(SUM(soh.quantity), 0) as total_units,
+        COALESCE(SUM(soh.quantity * p.cost_price), 0) as total_value,
+        COALESCE(SUM(soh.quantity * p.sell_price), 0) as retail_value
+       FROM stock_on_hand soh
+       JOIN products p ON p.id = soh.product_id
+       WHERE soh.tenant_id = $1 AND p.is_active = true ${sohStoreJoin}`,
+      params
+    );
+
+    const lowStockItems = await query(
+      `SELECT
+        p.name, p.sku, p.reorder_point,
+        COALESCE(SUM(soh.quantity), 0) as current_stock
+       FROM products p
+       LEFT JOIN stock_on_hand soh ON soh.product_id = p.id ${sohStoreJoin}
+       WHERE p.tenant_id = $1 AND p.is_active = true
+       GROUP BY p.id, p.name, p.sku, p.reorder_point
+       HAVING COALESCE(SUM(soh.quantity), 0) <= p.reorder_point
+       ORDER BY current_stock ASC
+       LIMIT 20`,
+      params
+    );
+
+    const outOfStock = await query(
+      `SELECT p.name, p.sku
+       FROM products p
+       LEFT JOIN stock_on_hand soh ON soh.product_id = p.id ${sohStoreJoin}
+       WHERE p.tenant_id = $1 AND p.is_active = true
+       GROUP BY p.id, p.name, p.sku
+       HAVING COALESCE(SUM(soh.quantity), 0) <= 0`,
+      params
+    );
+
+    const stockByCategory = await query(
+      `SELECT
+        COALESCE(c.name, 'Uncategorized') as category,
+        COUNT(DISTINCT p.id) as products,
+        COALESCE(SUM(soh.quantity), 0) as units,
+        COALESCE(SUM(soh.quantity * p.cost_price), 0) as value
+       FROM products p
+       LEFT JOIN categories c ON c.id = p.category_id
+       LEFT JOIN stock_on_hand soh ON soh.product_id = p.id ${sohStoreJoin}
+       WHERE p.tenant_id = $1 AND p.is_active = true
+       GROUP BY c.id, c.name
+       ORDER BY value DESC`,
+      params
+    );
+
+    const recentMovements = await query(
+      `SELECT
+        sl.reference_type,
+        COUNT(*) as count,
+        SUM(ABS(sl.quantity_delta)) as units
+       FROM stock_ledger sl
+       WHERE sl.tenant_id = $1
+         AND sl.created_at >= NOW() - INTERVAL '30 days'
+         ${storeId ? 'AND sl.store_id = $2' : ''}
+       GROUP BY sl.reference_type`,
+      params
+    );
+
+    return {
+      summary: stockSummary.rows[0],
+      lowStockItems: lowStockItems.rows,
+      outOfStockCount: outOfStock.rows.length,
+      outOfStockItems: outOfStock.rows,
+      stockByCategory: stockByCategory.rows,
+      recentMovements: recentMovements.rows
+    };
+  }
+
+  /**
+   * Customers: activity, top spenders, new vs returning, walk-in vs registered
+   * Not filtered by store - customers shop across all stores
+   */
+  static async getCustomerReport(tenantId: string, input: ReportPeriodInput) {
+    const period = resolvePeriod(input);
+    const params = [tenantId, period.start, period.end];
+
+    const customerSummary = await query(
+      `SELECT
+        COUNT(DISTINCT c.id) as total_customers,
+        COUNT(DISTINCT sr.customer_id) FILTER (WHERE sr.receipt_date >= $2 AND sr.receipt_date <= $3) as active_customers
+       FROM customers c
+       LEFT JOIN sales_receipts sr ON sr.customer_id = c.id AND sr.tenant_id = $1 AND sr.status = 'completed'
+       WHERE c.tenant_id = $1 AND c.is_active = true`,
+      params
+    );
+
+    const topCustomers = await query(
+      `SELECT
+        c.id,
+        c.first_name,
+        c.last_name,
+        c.email,
+        c.phone,
+        COUNT(sr.id) as total_orders,
+        COALESCE(SUM(sr.total_amount), 0) as total_spent,
+        MAX(sr.receipt_date) as last_purchase
+       FROM customers c
+       JOIN sales_receipts sr ON sr.customer_id = c.id AND sr.tenant_id = $1
+       WHERE c.tenant_id = $1
+         AND sr.receipt_date >= $2 AND sr.receipt_date <= $3
+         AND sr.status = 'completed'
+       GROUP BY c.id, c.first_name, c.last_name, c.email, c.phone
+       ORDER BY total_spent DESC
+       LIMIT 10`,
+      params
+    );
+
+    const customerTypes = await query(
+      `SELECT
+        CASE WHEN first_purchase >= $2 THEN 'new' ELSE 'returning' END as customer_type,
+        COUNT(*) as count,
+        COALESCE(SUM(period_spend), 0) as revenue
+       FROM (
+         SELECT
+           c.id,
+           MIN(sr.receipt_date) as first_purchase,
+           SUM(CASE WHEN sr.receipt_date >= $2 AND sr.receipt_date <= $3 THEN sr.total_amount ELSE 0 END) as period_spend
+         FROM customers c
+         JOIN sales_receipts sr ON sr.customer_id = c.id AND sr.tenant_id = $1 AND sr.status = 'completed'
+         WHERE c.tenant_id = $1
+         GROUP BY c.id
+         HAVING SUM(CASE WHEN sr.receipt_date >= $2 AND sr.receipt_date <= $3 THEN 1 ELSE 0 END) > 0
+       ) sub
+       GROUP BY customer_type`,
+      params
+    );
+
+    const walkInVsRegistered = await query(
+      `SELECT
+        CASE WHEN customer_id IS NULL THEN 'Walk-in' ELSE 'Registered' END as type,
+        COUNT(*) as transactions,
+        COALESCE(SUM(total_amount), 0) as revenue
+       FROM sales_receipts sr
+       WHERE sr.tenant_id = $1
+         AND sr.receipt_date >= $2 AND sr.receipt_date <= $3
+         AND sr.status = 'completed'
+       GROUP BY CASE WHEN customer_id IS NULL THEN 'Walk-in' ELSE 'Registered' END`,
+      params
+    );
+
+    return {
+      period,
+      summary: customerSummary.rows[0],
+      topCustomers: topCustomers.rows,
+      customerTypes: customerTypes.rows,
+      walkInVsRegistered: walkInVsRegistered.rows
+    };
+  }
+
+  /**
+   * Profit and margin at current product cost, by product, category and day
+   */
+  static async getProfitReport(tenantId: string, input: ReportPeriodInput) {
+    const { period, params, where } = salesScope(input);
+    const values = [tenantId, ...params];
+
+    const profitMetrics = await query(
+      `SELECT
+        COALESCE(SUM(sl.line_total), 0) as total_revenue,
+        COALESCE(SUM(sl.quantity * p.cost_price), 0) as total_cost,
+        COALESCE(SUM(sl.line_total - (sl.quantity * p.cost_price)), 0) as gross_profit
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       WHERE sr.tenant_id = $1 AND ${where}`,
+      values
+    );
+
+    const metrics = profitMetrics.rows[0];
+    const revenue = parseFloat(metrics.total_revenue) || 0;
+    const cost = parseFloat(metrics.total_cost) || 0;
+    const profit = parseFloat(metrics.gross_profit) || 0;
+    const margin = revenue > 0 ? ((profit / revenue) * 100).toFixed(2) : 0;
+
+    const profitByProduct = await query(
+      `SELECT
+        p.name,
+        p.sku,
+        SUM(sl.quantity) as units_sold,
+        COALESCE(SUM(sl.line_total), 0) as revenue,
+        COALESCE(SUM(sl.quantity * p.cost_price), 0) as cost,
+        COALESCE(SUM(sl.line_total - (sl.quantity * p.cost_price)), 0) as profit
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY p.id, p.name, p.sku
+       ORDER BY profit DESC
+       LIMIT 10`,
+      values
+    );
+
+    const profitByCategory = await query(
+      `SELECT
+        COALESCE(c.name, 'Uncategorized') as category,
+        COALESCE(SUM(sl.line_total), 0) as revenue,
+        COALESCE(SUM(sl.quantity * p.cost_price), 0) as cost,
+        COALESCE(SUM(sl.line_total - (sl.quantity * p.cost_price)), 0) as profit
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       LEFT JOIN categories c ON c.id = p.category_id
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY c.id, c.name
+       ORDER BY profit DESC`,
+      values
+    );
+
+    const dailyProfit = await query(
+      `SELECT
+        DATE(sr.receipt_date + INTERVAL '2 hours') as date,
+        COALESCE(SUM(sl.line_total), 0) as revenue,
+        COALESCE(SUM(sl.quantity * p.cost_price), 0) as cost,
+        COALESCE(SUM(sl.line_total - (sl.quantity * p.cost_price)), 0) as profit
+       FROM sales_lines sl
+       JOIN sales_receipts sr ON sr.id = sl.receipt_id
+       JOIN products p ON p.id = sl.product_id
+       WHERE sr.tenant_id = $1 AND ${where}
+       GROUP BY DATE(sr.receipt_date + INTERVAL '2 hours')
+       ORDER BY date`,
+      values
+    );
+
+    return {
+      period,
+      metrics: {
+        totalRevenue: revenue,
+        totalCost: cost,
+        grossProfit: profit,
+        marginPercent: margin
+      },
+      profitByProduct: profitByProduct.rows,
+      profitByCategory: profitByCategory.rows,
+      dailyProfit: dailyProfit.rows
+    };
+  }
+}
+
+export default ReportService;
@@ -0,0 +1,245 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { getCairoEndOfDay, parseDateToCairoEnd, parseDateToCairoStart } from '../utils/dates.js';
+import { AuditService } from './audit.service.js';
+
+export type SafeLedgerType = 'drop' | 'pickup' | 'deposit';
+
+interface SafeEntry {
+  storeId: string;
+  type: SafeLedgerType;
+  // Drops add to the safe; pickups and deposits are negative
+  amount: number;
+  shiftMovementId?: string;
+  reference?: string;
+  notes?: string;
+  approvedBy?: string;
+}
+
+interface SafeLedgerRow {
+  id: string;
+  store_id: string;
+  type: SafeLedgerType;
+  amount_delta: string;
+  balance_before: string;
+  balance_after: string;
+  reference: string | null;
+  occurred_at: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CAIRO_OFFSET_MS = 2 * 60 * 60 * 1000;
+const DEFAULT_RECONCILIATION_DAYS = 7;
+const MAX_RECONCILIATION_DAYS = 366;
+
+/**
+ * Safe Service
+ *
+ * The store safe: cash dropped from the tills, picked up for a till and
+ * deposited at the bank. Every balance change goes through post(), which
+ * writes the safe ledger; the daily reconciliation reads it back next to
+ * the shifts closed each day.
+ */
+export class SafeService {
+  /**
+   * Safe balance of a store with its latest ledger entries
+   */
+  static async getSafe(tenantId: string, storeId: string, limit: number) {
+    const storeResult = await query(
+      `SELECT id, name, safe_balance, drawer_limit FROM stores WHERE id = $1 AND tenant_id = $2`,
+      [storeId, tenantId]
+    );
+    if (storeResult.rows.length === 0) {
+      throw AppError.notFound('Store not found');
+    }
+    const store = storeResult.rows[0];
+
+    const ledgerResult = await query(
+      `SELECT l.*,
+        u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+        a.first_name || ' ' || COALESCE(a.last_name, '') as approved_by_name,
+        sh.shift_number
+       FROM safe_ledger l
+       LEFT JOIN users u ON u.id = l.created_by
+       LEFT JOIN users a ON a.id = l.approved_by
+       LEFT JOIN shift_cash_movements m ON m.id = l.shift_movement_id
+       LEFT JOIN shifts sh ON sh.id = m.shift_id
+       WHERE l.store_id = $1 AND l.tenant_id = $2
+       ORDER BY l.occurred_at DESC
+       LIMIT $3`,
+      [storeId, tenantId, limit]
+    );
+
+    return {
+      storeId: store.id,
+      storeName: store.name,
+      balance: roundMoney(parseFloat(store.safe_balance) || 0),
+      drawerLimit: store.drawer_limit !== null ? parseFloat(store.drawer_limit) : null,
+      entries: ledgerResult.rows
+    };
+  }
+
+  /**
+   * Bank deposit out of the safe
+   */
+  static async deposit(
+    ctx: TenantContext,
+    input: { storeId: string; amount: number; reference: string; notes?: string }
+  ) {
+    return withTransaction(async (client) => {
+      const entry = await this.post(client, ctx, {
+        storeId: input.storeId,
+        type: 'deposit',
+        amount: -input.amount,
+        reference: input.reference,
+        notes: input.notes
+      });
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SAFE_DEPOSIT,
+        entityType: 'safe_ledger',
+        entityId: entry.id,
+        storeId: input.storeId,
+        afterData: { amount: input.amount, reference: input.reference, balance: parseFloat(entry.balance_after) }
+      }, client);
+
+      return entry;
+    });
+  }
+
+  /**
+   * Move cash in or out of a store's safe
+   * The store row is locked so concurrent entries see each other's balance;
+   * the safe cannot go below zero.
+   */
+  static async post(client: PoolClient, ctx: TenantContext, entry: SafeEntry): Promise<SafeLedgerRow> {
+    const storeResult = await client.query<{ safe_balance: string }>(
+      `SELECT safe_balance FROM stores WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+      [entry.storeId, ctx.tenantId]
+    );
+    if (storeResult.rows.length === 0) {
+      throw AppError.notFound('Store not found');
+    }
+    const balanceBefore = parseFloat(storeResult.rows[0].safe_balance) || 0;
+    const balanceAfter = roundMoney(balanceBefore + entry.amount);
+    if (balanceAfter < 0) {
+      throw AppError.badRequest(`The safe only holds ${balanceBefore.toFixed(2)}`);
+    }
+
+    await client.query(
+      `UPDATE stores SET safe_balance = $2, updated_at = NOW() WHERE id = $1`,
+      [entry.storeId, balanceAfter]
+    );
+
+    const result = await client.query<SafeLedgerRow>(
+      `INSERT INTO safe_ledger (
+        tenant_id, store_id, type, amount_delta, balance_before, balance_after,
+        shift_movement_id, reference, notes, approved_by, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        ctx.tenantId, entry.storeId, entry.type, entry.amount, balanceBefore, balanceAfter,
+        entry.shiftMovementId || null, entry.reference || null, entry.notes || null,
+        entry.approvedBy || null, ctx.userId
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Daily cash reconciliation of a store (Cairo days, the last 7 by default)
+   * Per day: the safe's opening and closing balance with its drops, pickups
+   * and deposits, next to the shifts closed that day (cash takings, expected
+   * and counted cash).
+   */
+  static async getReconciliation(
+    tenantId: string,
+    options: { storeId: string; startDate?: string; endDate?: string }
+  ) {
+    const end = options.endDate ? parseDateToCairoEnd(options.endDate) : getCairoEndOfDay();
+    const start = options.startDate
+      ? parseDateToCairoStart(options.startDate)
+      : new Date(end.getTime() + 1 - DEFAULT_RECONCILIATION_DAYS * DAY_MS);
+    if (start > end) {
+      throw AppError.badRequest('The start date must be on or before the end date');
+    }
+    if (end.getTime() - start.getTime() > MAX_RECONCILIATION_DAYS * DAY_MS) {
+      throw AppError.badRequest(`The reconciliation covers at most ${MAX_RECONCILIATION_DAYS} days`);
+    }
+    const params = [tenantId, options.storeId, start, end];
+
+    const [openingResult, safeResult, shiftResult] = await Promise.all([
+      query(
+        `SELECT COALESCE(SUM(amount_delta), 0) as balance
+         FROM safe_ledger
+         WHERE tenant_id = $1 AND store_id = $2 AND occurred_at < $3`,
+        params.slice(0, 3)
+      ),
+      query(
+        `SELECT TO_CHAR(occurred_at + INTERVAL '2 hours', 'YYYY-MM-DD') as day,
+          COALESCE(SUM(amount_delta) FILTER (WHERE type = 'drop'), 0) as drops,
+          COALESCE(-SUM(amount_delta) FILTER (WHERE type = 'pickup'), 0) as pickups,
+          COALESCE(-SUM(amount_delta) FILTER (WHERE type = 'deposit'), 0) as deposits
+         FROM safe_ledger
+         WHERE tenant_id = $1 AND store_id = $2 AND occurred_at >= $3 AND occurred_at <= $4
+         GROUP BY 1`,
+        params
+      ),
+      query(
+        `SELECT TO_CHAR(closed_at + INTERVAL '2 hours', 'YYYY-MM-DD') as day,
+          COUNT(*) as shift_count,
+          COALESCE(SUM(total_cash_payments), 0) as cash_takings,
+          COALESCE(SUM(expected_cash), 0) as expected_cash,
+          COALESCE(SUM(closing_cash), 0) as counted_cash,
+          COALESCE(SUM(cash_difference), 0) as cash_difference
+         FROM shifts
+         WHERE tenant_id = $1 AND store_id = $2 AND status = 'closed'
+           AND closed_at >= $3 AND closed_at <= $4
+         GROUP BY 1`,
+        params
+      )
+    ]);
+
+    const safeByDay = new Map(safeResult.rows.map(row => [row.day as string, row]));
+    const shiftsByDay = new Map(shiftResult.rows.map(row => [row.day as string, row]));
+    const openingBalance = roundMoney(parseFloat(openingResult.rows[0].balance) || 0);
+
+    let balance = openingBalance;
+    const days = [];
+    for (let dayStart = start.getTime(); dayStart <= end.getTime(); dayStart += DAY_MS) {
+      const date = new Date(dayStart + CAIRO_OFFSET_MS).toISOString().slice(0, 10);
+      const safe = safeByDay.get(date);
+      const shifts = shiftsByDay.get(date);
+      const drops = roundMoney(parseFloat(safe?.drops) || 0);
+      const pickups = roundMoney(parseFloat(safe?.pickups) || 0);
+      const deposits = roundMoney(parseFloat(safe?.deposits) || 0);
+      const dayOpening = balance;
+      balance = roundMoney(balance + drops - pickups - deposits);
+
+      days.push({
+        date,
+        safe: { openingBalance: dayOpening, drops, pickups, deposits, closingBalance: balance },
+        shifts: {
+          count: parseInt(shifts?.shift_count) || 0,
+          cashTakings: roundMoney(parseFloat(shifts?.cash_takings) || 0),
+          expectedCash: roundMoney(parseFloat(shifts?.expected_cash) || 0),
+          countedCash: roundMoney(parseFloat(shifts?.counted_cash) || 0),
+          cashDifference: roundMoney(parseFloat(shifts?.cash_difference) || 0)
+        }
+      });
+    }
+
+    return {
+      storeId: options.storeId,
+      period: { start: start.toISOString(), end: end.toISOString() },
+      openingBalance,
+      closingBalance: balance,
+      days
+    };
+  }
+}
+
+export default SafeService;
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  client: { query: vi.fn() },
+  query: vi.fn()
+}));
+
+vi.mock('../config/index.js', () => ({ config: { nodeEnv: 'test' } }));
+vi.mock('../database/pool.js', () => ({
+  query: db.query,
+  withTransaction: vi.fn(async (callback: (client: unknown) => unknown) => callback(db.client))
+}));
+vi.mock('../middleware/auth.js', () => ({ assertStoreAccess: vi.fn() }));
+
+import { ShiftService } from './shift.service.js';
+import { AuditService } from './audit.service.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+
+const ctx = { tenantId: 'tenant-1', userId: 'user-1', permissions: [] };
+
+// An open USD shift with a 100.00 float, 50.00 taken in cash and a 5.00 variance threshold
+function openShift(options: { onShift?: boolean } = {}) {
+  const handlers: Array<[RegExp, unknown[]]> = [
+    [/FROM shifts WHERE id = \$1/, [{ id: 'shift-1', store_id: 'store-1', opening_cash: '100' }]],
+    [/FROM shift_cashiers WHERE shift_id = \$1 AND user_id = \$2/, options.onShift === false ? [] : [{ '?column?': 1 }]],
+    [/FROM tenants WHERE id = \$1/, [{ currency_code: 'USD', blind: null, variance_threshold: '5' }]],
+    [/as total_sales/, [{ total_sales: '50', total_refunds: '0', transaction_count: '1', total_voids: '0', void_count: '0' }]],
+    [/SELECT method, SUM\(amount\)/, [{ method: 'cash', amount: '50' }]],
+    [/FROM shift_cash_movements/, [{ cash_in: '0', cash_out: '0' }]],
+    [/UPDATE shifts SET/, [{ id: 'shift-1', status: 'closed' }]]
+  ];
+  db.client.query.mockImplementation(async (sql: string) => {
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    return { rows: handler ? handler[1] : [], rowCount: handler ? handler[1].length : 0 };
+  });
+}
+
+// Answer reads outside a transaction by the first pattern the SQL matches
+function respondToReads(handlers: Array<[RegExp, unknown[]]>) {
+  db.query.mockImplementation(async (sql: string) => {
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    return { rows: handler ? handler[1] : [], rowCount: handler ? handler[1].length : 0 };
+  });
+}
+
+beforeEach(() => {
+  db.client.query.mockReset();
+  db.query.mockReset();
+  vi.restoreAllMocks();
+  vi.spyOn(AuditService, 'log').mockResolvedValue(undefined as never);
+});
+
+describe('ShiftService.closeShift', () => {
+  it('closes with the cash counted by denomination', async () => {
+    openShift();
+
+    const { summary } = await ShiftService.closeShift(ctx, 'shift-1', {
+      cashCount: [{ value: 100, count: 1 }, { value: 20, count: 2 }, { value: 10, count: 1 }]
+    });
+
+    expect(summary.expectedCash).toBe(150);
+    expect(summary.closingCash).toBe(150);
+    expect(summary.cashDifference).toBe(0);
+  });
+
+  it('requires the counted cash', async () => {
+    openShift();
+
+    await expect(ShiftService.closeShift(ctx, 'shift-1', {}))
+      .rejects.toThrow('Count the cash in the drawer to close the shift');
+  });
+
+  it('rejects notes and coins the currency does not have', async () => {
+    openShift();
+
+    await expect(ShiftService.closeShift(ctx, 'shift-1', { cashCount: [{ value: 3, count: 1 }] }))
+      .rejects.toThrow('3 is not a USD note or coin');
+  });
+
+  it('needs approval for a variance over the threshold', async () => {
+    openShift();
+
+    await expect(ShiftService.closeShift(ctx, 'shift-1', { closingCash: 140 }))
+      .rejects.toMatchObject({ status: 403, code: 'VARIANCE_APPROVAL_REQUIRED' });
+
+    const { summary } = await ShiftService.closeShift(ctx, 'shift-1', { closingCash: 140, varianceApprovedBy: 'manager-1' });
+    expect(summary.cashDifference).toBe(-10);
+    expect(summary.varianceApprovedBy).toBe('manager-1');
+  });
+
+  it('refuses a user who is not on the shift', async () => {
+    openShift({ onShift: false });
+
+    await expect(ShiftService.closeShift(ctx, 'shift-1', { closingCash: 150 }))
+      .rejects.toThrow('Only a cashier on this shift or a manager can close it');
+  });
+
+  it('lets a cash-up manager close a shift they are not on', async () => {
+    openShift({ onShift: false });
+
+    const { shift } = await ShiftService.closeShift(ctx, 'shift-1', { closingCash: 150, canCloseAnyShift: true });
+
+    expect(shift.status).toBe('closed');
+  });
+});
+
+describe('ShiftService.getShift', () => {
+  it('checks access to the shift\'s store', async () => {
+    db.query.mockResolvedValue({ rows: [{ id: 'shift-1', store_id: 'store-2', status: 'closed' }] });
+    vi.mocked(assertStoreAccess).mockRejectedValueOnce(new AppError('No access to this store', 403, 'STORE_ACCESS_DENIED'));
+
+    await expect(ShiftService.getShift(ctx, 'shift-1')).rejects.toMatchObject({ code: 'STORE_ACCESS_DENIED' });
+    expect(assertStoreAccess).toHaveBeenCalledWith(ctx, 'store-2');
+  });
+});
+
+describe('ShiftService.getShift under blind cash-up', () => {
+  it('hides every running total of an open shift from cashiers', async () => {
+    respondToReads([
+      [/FROM shifts s/, [{ id: 'shift-1', store_id: 'store-1', status: 'open', opening_cash: '100', total_sales: '50', total_card_payments: '20' }]],
+      [/FROM tenants WHERE id = \$1/, [{ currency_code: 'USD', blind: 'true', variance_threshold: null }]],
+      [/as receipt_count/, [{ receipt_count: '2', total_sales: '50', total_refunds: '0' }]],
+      [/WITH cashiers AS/, [{ user_id: 'user-1', name: 'Sam ', total_sales: '50', total_refunds: '0', transaction_count: '2', void_count: '0' }]]
+    ]);
+
+    const { shift, cashiers, salesSummary } = await ShiftService.getShift(ctx, 'shift-1', false);
+
+    expect(shift).toMatchObject({ opening_cash: null, total_sales: null, total_card_payments: null, total_cash_payments: null });
+    expect(cashiers[0]).toMatchObject({ totalSales: null, transactionCount: 2 });
+    expect(salesSummary).toEqual({ receipt_count: '2', total_sales: null, total_refunds: null, tenders: {} });
+  });
+});
+
+describe('ShiftService.openShift', () => {
+  it('opens a bound register only from its device', async () => {
+    db.client.query.mockImplementation(async (sql: string) => {
+      const rows = /FROM registers/.test(sql) ? [{ id: 'register-1', name: 'Register 1', device_key: 'device-key-of-till-1' }] : [];
+      return { rows, rowCount: rows.length };
+    });
+
+    await expect(ShiftService.openShift(ctx, {
+      storeId: 'store-1', registerId: 'register-1', openingCash: 100, deviceKey: 'device-key-of-laptop'
+    })).rejects.toMatchObject({ status: 403, code: 'REGISTER_DEVICE_MISMATCH' });
+  });
+});
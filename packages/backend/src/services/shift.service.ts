@@ -0,0 +1,858 @@
+import { PoolClient, QueryResultRow } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { DenominationCount, PaymentMethod, TenantContext } from '../types/index.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+import { dateStamp } from '../utils/dates.js';
+import { roundMoney } from '../utils/money.js';
+import { AuditService } from './audit.service.js';
+import { SafeService } from './safe.service.js';
+
+export type CashMovementType = 'cash_in' | 'cash_out' | 'drop' | 'pickup';
+
+export type TenderTotals = Partial<Record<PaymentMethod, number>>;
+
+export interface OpenShiftInput {
+  storeId: string;
+  openingCash: number;
+  registerId?: string;
+  // This browser's device key; required when the register is bound to a device
+  deviceKey?: string;
+  notes?: string;
+}
+
+export interface CloseShiftInput {
+  closingCash?: number;
+  // Counted notes and coins; when given, the closing cash is their total
+  cashCount?: DenominationCount[];
+  notes?: string;
+  varianceApprovedBy?: string;
+  // Set for POS_CASH_UP holders, who can close a shift they are not on
+  canCloseAnyShift?: boolean;
+}
+
+export interface CashMovementInput {
+  type: CashMovementType;
+  amount: number;
+  reason?: string;
+  notes?: string;
+  // Pickups need a second person's approval
+  approvedBy?: string;
+}
+
+export interface DrawerStatus {
+  drawerLimit: number | null;
+  overLimit: boolean;
+  // Cash to drop to bring the drawer back to its opening float; null when the count is blind
+  suggestedDrop: number | null;
+}
+
+export interface CashUpSettings {
+  currencyCode: string;
+  denominations: number[];
+  blind: boolean;
+  varianceThreshold: number | null;
+}
+
+// Cashiers on a shift's drawer now, in the order they joined
+const SHIFT_CASHIER_NAMES = `(
+  SELECT string_agg(cu.first_name || ' ' || COALESCE(cu.last_name, ''), ', ' ORDER BY scn.joined_at)
+  FROM shift_cashiers scn JOIN users cu ON cu.id = scn.user_id
+  WHERE scn.shift_id = s.id AND scn.left_at IS NULL)`;
+
+// Money columns of a shift row kept from blind cash-up users while it is open
+const RUNNING_TOTALS = [
+  'opening_cash', 'expected_cash', 'total_sales', 'total_refunds', 'total_voids',
+  'total_cash_payments', 'total_card_payments', 'tender_totals', 'total_cash_in', 'total_cash_out'
+];
+
+const CASH_MOVEMENT_ACTIONS: Record<CashMovementType, string> = {
+  cash_in: AuditService.ACTIONS.CASH_IN,
+  cash_out: AuditService.ACTIONS.CASH_OUT,
+  drop: AuditService.ACTIONS.CASH_DROP,
+  pickup: AuditService.ACTIONS.CASH_PICKUP
+};
+
+// Notes and coins in circulation, largest first; other currencies are counted as a single total
+const CASH_DENOMINATIONS: Record<string, number[]> = {
+  EGP: [200, 100, 50, 20, 10, 5, 1, 0.5, 0.25],
+  USD: [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01],
+  EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  SAR: [500, 200, 100, 50, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05],
+  AED: [1000, 500, 200, 100, 50, 20, 10, 5, 1, 0.5, 0.25]
+};
+
+/**
+ * Shift Service
+ *
+ * Cashier shifts: opening float, cash movements during the shift and the
+ * cash-up on close (expected vs counted cash), optionally blind and counted
+ * by denomination, with manager sign-off for large variances.
+ * A shift is opened on a register and cashiers can join it to share the
+ * drawer; each sale stays with the cashier who rang it up.
+ */
+export class ShiftService {
+  /**
+   * List shifts, newest first
+   */
+  static async listShifts(
+    tenantId: string,
+    options: { storeId?: string; status?: string; limit: number },
+    revealCash = true
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT s.*,
+        u.first_name as cashier_first_name,
+        u.last_name as cashier_last_name,
+        u.email as cashier_email,
+        st.name as store_name,
+        rg.name as register_name,
+        (SELECT COUNT(*) FROM sales_receipts sr WHERE sr.shift_id = s.id) as receipt_count
+      FROM shifts s
+      JOIN users u ON u.id = s.cashier_id
+      JOIN stores st ON st.id = s.store_id
+      LEFT JOIN registers rg ON rg.id = s.register_id
+      WHERE s.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND s.store_id = $${params.length}`;
+    }
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND s.status = $${params.length}`;
+    }
+    params.push(options.limit);
+    sql += ` ORDER BY s.opened_at DESC LIMIT $${params.length}`;
+
+    const result = await query(sql, params);
+    return this.hideRunningTotals(tenantId, result.rows, revealCash);
+  }
+
+  /**
+   * The open shift the current user is working at a store, if any
+   */
+  static async getCurrentShift(
+    ctx: TenantContext,
+    storeId: string,
+    revealCash = true
+  ): Promise<(QueryResultRow & { drawer: DrawerStatus }) | null> {
+    const result = await query(
+      `SELECT s.*,
+        u.first_name as cashier_first_name,
+        u.last_name as cashier_last_name,
+        st.name as store_name,
+        rg.name as register_name,
+        ${SHIFT_CASHIER_NAMES} as cashier_names,
+        (SELECT COUNT(*)::INTEGER FROM shift_cashiers WHERE shift_id = s.id AND left_at IS NULL) as cashier_count,
+        st.drawer_limit,
+        (SELECT COALESCE(SUM(amount), 0) FROM shift_cash_movements WHERE shift_id = s.id AND type IN ('cash_in', 'pickup')) as total_cash_in,
+        (SELECT COALESCE(SUM(amount), 0) FROM shift_cash_movements WHERE shift_id = s.id AND type IN ('cash_out', 'drop')) as total_cash_out
+       FROM shifts s
+       JOIN shift_cashiers sc ON sc.shift_id = s.id AND sc.user_id = $2 AND sc.left_at IS NULL
+       JOIN users u ON u.id = s.cashier_id
+       JOIN stores st ON st.id = s.store_id
+       LEFT JOIN registers rg ON rg.id = s.register_id
+       WHERE s.tenant_id = $1
+         AND s.store_id = $3
+         AND s.status = 'open'
+       ORDER BY s.opened_at DESC
+       LIMIT 1`,
+      [ctx.tenantId, ctx.userId, storeId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const [shift] = await this.hideRunningTotals(ctx.tenantId, result.rows, revealCash);
+    return { ...shift, drawer: this.getDrawerStatus(result.rows[0], shift.total_cash_payments === null) };
+  }
+
+  /**
+   * Whether the drawer of an open shift holds more cash than its store's
+   * drawer limit, and how much to drop to get back to the opening float.
+   * The limit is checked on the real drawer cash even when the count is
+   * blind; only the suggested amount is withheld.
+   */
+  private static getDrawerStatus(shift: QueryResultRow, cashHidden: boolean): DrawerStatus {
+    const drawerLimit = shift.drawer_limit != null ? parseFloat(shift.drawer_limit) : null;
+    const openingCash = parseFloat(shift.opening_cash) || 0;
+    const drawerCash = roundMoney(
+      openingCash + (parseFloat(shift.total_cash_payments) || 0)
+        + (parseFloat(shift.total_cash_in) || 0) - (parseFloat(shift.total_cash_out) || 0)
+    );
+    const overLimit = drawerLimit !== null && drawerCash > drawerLimit;
+    return {
+      drawerLimit,
+      overLimit,
+      suggestedDrop: overLimit && !cashHidden
+        ? roundMoney(drawerCash - Math.min(openingCash, drawerLimit as number))
+        : null
+    };
+  }
+
+  /**
+   * Shift with its cash movements and sales summary
+   */
+  static async getShift(ctx: TenantContext, shiftId: string, revealCash = true) {
+    const shiftResult = await query(
+      `SELECT s.*,
+        u.first_name as cashier_first_name,
+        u.last_name as cashier_last_name,
+        u.email as cashier_email,
+        st.name as store_name,
+        rg.name as register_name,
+        va.first_name || ' ' || COALESCE(va.last_name, '') as variance_approved_by_name
+       FROM shifts s
+       JOIN users u ON u.id = s.cashier_id
+       JOIN stores st ON st.id = s.store_id
+       LEFT JOIN registers rg ON rg.id = s.register_id
+       LEFT JOIN users va ON va.id = s.variance_approved_by
+       WHERE s.id = $1 AND s.tenant_id = $2`,
+      [shiftId, ctx.tenantId]
+    );
+    if (shiftResult.rows.length === 0) {
+      throw AppError.notFound('Shift not found');
+    }
+    await assertStoreAccess(ctx, shiftResult.rows[0].store_id);
+
+    const movementsResult = await query(
+      `SELECT m.*, u.first_name as created_by_name,
+        a.first_name || ' ' || COALESCE(a.last_name, '') as approved_by_name
+       FROM shift_cash_movements m
+       LEFT JOIN users u ON u.id = m.created_by
+       LEFT JOIN users a ON a.id = m.approved_by
+       WHERE m.shift_id = $1
+       ORDER BY m.created_at ASC`,
+      [shiftId]
+    );
+
+    const salesResult = await query(
+      `SELECT
+        COUNT(*) as receipt_count,
+        COALESCE(SUM(CASE WHEN type = 'sale' THEN total_amount ELSE 0 END), 0) as total_sales,
+        COALESCE(SUM(CASE WHEN type = 'refund' THEN total_amount ELSE 0 END), 0) as total_refunds
+       FROM sales_receipts
+       WHERE shift_id = $1 AND status = 'completed'`,
+      [shiftId]
+    );
+
+    const [shift] = await this.hideRunningTotals(ctx.tenantId, shiftResult.rows, revealCash);
+    const cashiers = await this.getShiftCashiers(shiftId);
+    if (shift.total_cash_payments === null) {
+      return {
+        shift,
+        movements: movementsResult.rows,
+        cashiers: cashiers.map(cashier => ({ ...cashier, totalSales: null, totalRefunds: null })),
+        salesSummary: { receipt_count: salesResult.rows[0].receipt_count, total_sales: null, total_refunds: null, tenders: {} }
+      };
+    }
+
+    return {
+      shift,
+      movements: movementsResult.rows,
+      cashiers,
+      salesSummary: { ...salesResult.rows[0], tenders: await this.getTenderTotals(shiftId) }
+    };
+  }
+
+  /**
+   * Cashiers who worked a shift's drawer with the sales each rang up
+   * (anyone who rang up a sale on it counts, joined or not)
+   */
+  static async getShiftCashiers(shiftId: string) {
+    const result = await query(
+      `WITH cashiers AS (
+         SELECT user_id, joined_at, left_at FROM shift_cashiers WHERE shift_id = $1
+         UNION ALL
+         SELECT DISTINCT cashier_id, NULL::timestamptz, NULL::timestamptz FROM sales_receipts
+         WHERE shift_id = $1
+           AND cashier_id NOT IN (SELECT user_id FROM shift_cashiers WHERE shift_id = $1)
+       )
+       SELECT c.user_id, c.joined_at, c.left_at,
+         u.first_name || ' ' || COALESCE(u.last_name, '') as name,
+         COALESCE(SUM(CASE WHEN r.status <> 'voided' AND (r.type = 'sale' OR (r.type = 'exchange' AND r.total_amount > 0))
+                           THEN r.total_amount ELSE 0 END), 0) as total_sales,
+         COALESCE(SUM(CASE WHEN r.status <> 'voided' AND (r.type = 'refund' OR (r.type = 'exchange' AND r.total_amount < 0))
+                           THEN r.total_amount ELSE 0 END), 0) as total_refunds,
+         COUNT(r.id) FILTER (WHERE r.status <> 'voided') as transaction_count,
+         COUNT(r.id) FILTER (WHERE r.status = 'voided') as void_count
+       FROM cashiers c
+       JOIN users u ON u.id = c.user_id
+       LEFT JOIN sales_receipts r ON r.shift_id = $1 AND r.cashier_id = c.user_id
+         AND r.status IN ('completed', 'refunded', 'voided')
+       GROUP BY c.user_id, c.joined_at, c.left_at, u.first_name, u.last_name
+       ORDER BY c.joined_at NULLS LAST`,
+      [shiftId]
+    );
+    return result.rows.map(row => ({
+      userId: row.user_id as string,
+      name: (row.name as string).trim(),
+      joinedAt: row.joined_at as Date | null,
+      leftAt: row.left_at as Date | null,
+      totalSales: parseFloat(row.total_sales) || 0,
+      totalRefunds: parseFloat(row.total_refunds) || 0,
+      transactionCount: parseInt(row.transaction_count) || 0,
+      voidCount: parseInt(row.void_count) || 0
+    }));
+  }
+
+  /**
+   * Under blind cash-up the running totals of open shifts (float, takings per
+   * tender, cash in and out) are kept from users without POS_CASH_UP, so they
+   * cannot work out the expected cash; total_cash_payments is null when hidden
+   */
+  private static async hideRunningTotals(tenantId: string, shifts: QueryResultRow[], revealCash: boolean) {
+    if (revealCash || !shifts.some(shift => shift.status === 'open')
+        || !(await this.getCashUpSettings(tenantId)).blind) {
+      return shifts;
+    }
+    const hidden = Object.fromEntries(RUNNING_TOTALS.map(column => [column, null]));
+    return shifts.map(shift => (shift.status === 'open' ? { ...shift, ...hidden } : shift));
+  }
+
+  /**
+   * Cash-up rules of the tenant: denominations of its currency, blind
+   * close and the variance (either way) allowed without sign-off
+   */
+  static async getCashUpSettings(tenantId: string, client?: PoolClient): Promise<CashUpSettings> {
+    const executeQuery = client ? client.query.bind(client) : query;
+    const result = await executeQuery(
+      `SELECT currency_code,
+        settings->>'blind_cash_up' as blind,
+        settings->>'cash_variance_threshold' as variance_threshold
+       FROM tenants WHERE id = $1`,
+      [tenantId]
+    );
+    const row = result.rows[0] || {};
+    const currencyCode: string = row.currency_code || 'EGP';
+    return {
+      currencyCode,
+      denominations: CASH_DENOMINATIONS[currencyCode] || [],
+      blind: row.blind === 'true',
+      varianceThreshold: row.variance_threshold != null ? parseFloat(row.variance_threshold) : null
+    };
+  }
+
+  /**
+   * X report (open shift, running totals) or Z report (closed shift, with
+   * the expected cash it closed against) for the shift report PDF
+   */
+  static async getReport(ctx: TenantContext, shiftId: string, revealCash = true) {
+    const { shift, movements, cashiers } = await this.getShift(ctx, shiftId, revealCash);
+    const totals = await this.shiftTotals(shiftId, parseFloat(shift.opening_cash) || 0);
+    const isOpen = shift.status === 'open';
+    const type = isOpen ? 'X' as const : 'Z' as const;
+
+    if (shift.total_cash_payments === null) {
+      return {
+        type,
+        shift,
+        movements,
+        cashiers,
+        totals: {
+          transactionCount: totals.transactionCount,
+          voidCount: totals.voidCount,
+          openingCash: null,
+          totalSales: null,
+          totalRefunds: null,
+          totalVoids: null,
+          tenderTotals: null,
+          totalCashPayments: null,
+          totalCardPayments: null,
+          cashIn: null,
+          cashOut: null,
+          expectedCash: null
+        }
+      };
+    }
+
+    return {
+      type,
+      shift,
+      movements,
+      cashiers,
+      totals: {
+        ...totals,
+        expectedCash: isOpen ? totals.expectedCash : parseFloat(shift.expected_cash) || 0
+      }
+    };
+  }
+
+  /**
+   * Net takings per payment method of a shift
+   * Sales and exchanges the customer paid for count up; refunds and exchanges
+   * paid back count down. Change given is taken off cash, and voided sales
+   * are left out (a sale refunded later still took its payments).
+   */
+  static async getTenderTotals(shiftId: string, client?: PoolClient): Promise<TenderTotals> {
+    const executeQuery = client ? client.query.bind(client) : query;
+    const result = await executeQuery(
+      `SELECT method, SUM(amount) as amount FROM (
+         SELECT p->>'method' as method,
+           CASE WHEN r.type = 'refund' OR r.total_amount < 0 THEN -1 ELSE 1 END * (p->>'amount')::decimal as amount
+         FROM sales_receipts r, jsonb_array_elements(r.payments) p
+         WHERE r.shift_id = $1 AND r.status IN ('completed', 'refunded')
+         UNION ALL
+         SELECT 'cash', -change_amount
+         FROM sales_receipts
+         WHERE shift_id = $1 AND status IN ('completed', 'refunded') AND change_amount > 0
+       ) tenders
+       GROUP BY method
+       ORDER BY method`,
+      [shiftId]
+    );
+    const totals: TenderTotals = {};
+    for (const row of result.rows) {
+      totals[row.method as PaymentMethod] = parseFloat(row.amount) || 0;
+    }
+    return totals;
+  }
+
+  /**
+   * Open a shift on a register (required once the store has registers)
+   * A cashier works one shift per store at a time, and a register has one
+   * open shift; others at the register join it instead.
+   */
+  static async openShift(ctx: TenantContext, input: OpenShiftInput) {
+    return withTransaction(async (client) => {
+      await this.assertNotOnShift(client, ctx, input.storeId);
+
+      if (input.registerId) {
+        const registerResult = await client.query(
+          `SELECT id, name, device_key FROM registers
+           WHERE id = $1 AND tenant_id = $2 AND store_id = $3 AND is_active = true
+           FOR UPDATE`,
+          [input.registerId, ctx.tenantId, input.storeId]
+        );
+        if (registerResult.rows.length === 0) {
+          throw AppError.notFound('Register not found');
+        }
+        const register = registerResult.rows[0];
+        if (register.device_key && register.device_key !== input.deviceKey) {
+          throw new AppError(`${register.name} is bound to another device`, 403, 'REGISTER_DEVICE_MISMATCH');
+        }
+        const openResult = await client.query(
+          `SELECT id, shift_number FROM shifts WHERE register_id = $1 AND status = 'open'`,
+          [input.registerId]
+        );
+        if (openResult.rows.length > 0) {
+          throw new AppError(
+            `${register.name} already has an open shift; join it instead`,
+            400,
+            'REGISTER_SHIFT_OPEN',
+            { shiftId: openResult.rows[0].id, shiftNumber: openResult.rows[0].shift_number }
+          );
+        }
+      } else {
+        const registersResult = await client.query(
+          `SELECT COUNT(*)::INTEGER as count FROM registers
+           WHERE tenant_id = $1 AND store_id = $2 AND is_active = true`,
+          [ctx.tenantId, input.storeId]
+        );
+        if (registersResult.rows[0].count > 0) {
+          throw new AppError('Choose the register to open the shift on', 400, 'REGISTER_REQUIRED');
+        }
+      }
+
+      // Shift numbers restart daily per store
+      const countResult = await client.query(
+        `SELECT COUNT(*) + 1 as num FROM shifts
+         WHERE tenant_id = $1 AND store_id = $2 AND DATE(opened_at) = CURRENT_DATE`,
+        [ctx.tenantId, input.storeId]
+      );
+      const shiftNumber = `SH-${dateStamp()}-${String(countResult.rows[0].num).padStart(3, '0')}`;
+
+      const result = await client.query(
+        `INSERT INTO shifts (
+          tenant_id, store_id, cashier_id, register_id, shift_number,
+          opening_cash, notes, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'open')
+        RETURNING *`,
+        [ctx.tenantId, input.storeId, ctx.userId, input.registerId || null, shiftNumber,
+         input.openingCash, input.notes || null]
+      );
+      const shift = result.rows[0];
+
+      await client.query(
+        `INSERT INTO shift_cashiers (shift_id, user_id) VALUES ($1, $2)`,
+        [shift.id, ctx.userId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SHIFT_OPENED,
+        entityType: 'shift',
+        entityId: shift.id,
+        storeId: input.storeId,
+        afterData: { openingCash: input.openingCash, registerId: input.registerId }
+      }, client);
+
+      return shift;
+    });
+  }
+
+  /**
+   * Join the open shift of a register to share its drawer
+   */
+  static async joinShift(ctx: TenantContext, shiftId: string) {
+    return withTransaction(async (client) => {
+      const shiftResult = await client.query(
+        `SELECT * FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open' FOR UPDATE`,
+        [shiftId, ctx.tenantId]
+      );
+      if (shiftResult.rows.length === 0) {
+        throw AppError.notFound('Open shift not found');
+      }
+      const shift = shiftResult.rows[0];
+      await assertStoreAccess(ctx, shift.store_id);
+      await this.assertNotOnShift(client, ctx, shift.store_id);
+
+      await client.query(
+        `INSERT INTO shift_cashiers (shift_id, user_id) VALUES ($1, $2)
+         ON CONFLICT (shift_id, user_id) DO UPDATE SET joined_at = NOW(), left_at = NULL`,
+        [shiftId, ctx.userId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SHIFT_JOINED,
+        entityType: 'shift',
+        entityId: shiftId,
+        storeId: shift.store_id,
+        afterData: { registerId: shift.register_id }
+      }, client);
+
+      return shift;
+    });
+  }
+
+  /**
+   * Move off a shared drawer; the shift stays open for the others.
+   * The last cashier on a shift closes it instead.
+   */
+  static async leaveShift(ctx: TenantContext, shiftId: string) {
+    return withTransaction(async (client) => {
+      const shiftResult = await client.query(
+        `SELECT * FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open' FOR UPDATE`,
+        [shiftId, ctx.tenantId]
+      );
+      if (shiftResult.rows.length === 0) {
+        throw AppError.notFound('Open shift not found');
+      }
+      const shift = shiftResult.rows[0];
+
+      const cashiersResult = await client.query<{ user_id: string }>(
+        `SELECT user_id FROM shift_cashiers WHERE shift_id = $1 AND left_at IS NULL`,
+        [shiftId]
+      );
+      const cashierIds = cashiersResult.rows.map(row => row.user_id);
+      if (!cashierIds.includes(ctx.userId)) {
+        throw AppError.badRequest('You are not on this shift');
+      }
+      if (cashierIds.length === 1) {
+        throw AppError.badRequest('You are the last cashier on this shift; close it instead');
+      }
+
+      await client.query(
+        `UPDATE shift_cashiers SET left_at = NOW() WHERE shift_id = $1 AND user_id = $2`,
+        [shiftId, ctx.userId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SHIFT_LEFT,
+        entityType: 'shift',
+        entityId: shiftId,
+        storeId: shift.store_id
+      }, client);
+    });
+  }
+
+  /**
+   * The open shift of a register, for cashiers who are not on it yet
+   */
+  static async getRegisterShift(ctx: TenantContext, registerId: string) {
+    const result = await query(
+      `SELECT s.id, s.shift_number, s.store_id, s.register_id, s.opened_at,
+        rg.name as register_name,
+        ${SHIFT_CASHIER_NAMES} as cashier_names
+       FROM shifts s
+       JOIN registers rg ON rg.id = s.register_id
+       WHERE s.register_id = $1 AND s.tenant_id = $2 AND s.status = 'open'`,
+      [registerId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    await assertStoreAccess(ctx, result.rows[0].store_id);
+    return result.rows[0];
+  }
+
+  // A cashier works one shift per store at a time
+  private static async assertNotOnShift(client: PoolClient, ctx: TenantContext, storeId: string) {
+    const result = await client.query(
+      `SELECT s.shift_number FROM shifts s
+       JOIN shift_cashiers sc ON sc.shift_id = s.id AND sc.user_id = $2 AND sc.left_at IS NULL
+       WHERE s.tenant_id = $1 AND s.store_id = $3 AND s.status = 'open'`,
+      [ctx.tenantId, ctx.userId, storeId]
+    );
+    if (result.rows.length > 0) {
+      throw AppError.badRequest(`You are already on shift ${result.rows[0].shift_number} at this store`);
+    }
+  }
+
+  /**
+   * Totals of a shift recalculated from its receipts and cash movements;
+   * expected cash is opening float + net cash tendered + cash in/pickups - cash out/drops
+   */
+  private static async shiftTotals(shiftId: string, openingCash: number, client?: PoolClient) {
+    const executeQuery = client ? client.query.bind(client) : query;
+    const salesResult = await executeQuery(
+      `SELECT
+        COALESCE(SUM(CASE WHEN status <> 'voided' AND (type = 'sale' OR (type = 'exchange' AND total_amount > 0))
+                          THEN total_amount ELSE 0 END), 0) as total_sales,
+        COALESCE(SUM(CASE WHEN status <> 'voided' AND (type = 'refund' OR (type = 'exchange' AND total_amount < 0))
+                          THEN total_amount ELSE 0 END), 0) as total_refunds,
+        COUNT(*) FILTER (WHERE status <> 'voided') as transaction_count,
+        COALESCE(SUM(CASE WHEN status = 'voided' THEN total_amount ELSE 0 END), 0) as total_voids,
+        COUNT(*) FILTER (WHERE status = 'voided') as void_count
+       FROM sales_receipts
+       WHERE shift_id = $1 AND status IN ('completed', 'refunded', 'voided')`,
+      [shiftId]
+    );
+
+    const tenderTotals = await this.getTenderTotals(shiftId, client);
+
+    const movementsResult = await executeQuery(
+      `SELECT
+        COALESCE(SUM(CASE WHEN type IN ('cash_in', 'pickup') THEN amount ELSE 0 END), 0) as cash_in,
+        COALESCE(SUM(CASE WHEN type IN ('cash_out', 'drop') THEN amount ELSE 0 END), 0) as cash_out
+       FROM shift_cash_movements
+       WHERE shift_id = $1`,
+      [shiftId]
+    );
+
+    const totalCashPayments = tenderTotals.cash || 0;
+    const cashIn = parseFloat(movementsResult.rows[0].cash_in) || 0;
+    const cashOut = parseFloat(movementsResult.rows[0].cash_out) || 0;
+
+    return {
+      openingCash,
+      totalSales: parseFloat(salesResult.rows[0].total_sales) || 0,
+      totalRefunds: parseFloat(salesResult.rows[0].total_refunds) || 0,
+      transactionCount: parseInt(salesResult.rows[0].transaction_count) || 0,
+      totalVoids: parseFloat(salesResult.rows[0].total_voids) || 0,
+      voidCount: parseInt(salesResult.rows[0].void_count) || 0,
+      tenderTotals,
+      totalCashPayments,
+      totalCardPayments: tenderTotals.card || 0,
+      cashIn,
+      cashOut,
+      expectedCash: roundMoney(openingCash + totalCashPayments + cashIn - cashOut)
+    };
+  }
+
+  /**
+   * Close a shift
+   * Only a cashier on the shift or a POS_CASH_UP holder can close it. The
+   * counted cash is checked against the expected cash; a variance over the
+   * tenant's threshold needs varianceApprovedBy (a POS_CASH_UP holder).
+   */
+  static async closeShift(ctx: TenantContext, shiftId: string, input: CloseShiftInput) {
+    return withTransaction(async (client) => {
+      const shiftResult = await client.query(
+        `SELECT * FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open' FOR UPDATE`,
+        [shiftId, ctx.tenantId]
+      );
+      if (shiftResult.rows.length === 0) {
+        throw AppError.notFound('Open shift not found');
+      }
+      const shift = shiftResult.rows[0];
+      await assertStoreAccess(ctx, shift.store_id);
+      if (!input.canCloseAnyShift) {
+        const cashierResult = await client.query(
+          `SELECT 1 FROM shift_cashiers WHERE shift_id = $1 AND user_id = $2 AND left_at IS NULL`,
+          [shiftId, ctx.userId]
+        );
+        if (cashierResult.rows.length === 0) {
+          throw AppError.forbidden('Only a cashier on this shift or a manager can close it');
+        }
+      }
+      const cashUp = await this.getCashUpSettings(ctx.tenantId, client);
+
+      let closingCash = input.closingCash;
+      if (input.cashCount) {
+        const unknown = input.cashCount.find(line => !cashUp.denominations.includes(line.value));
+        if (unknown) {
+          throw AppError.badRequest(`${unknown.value} is not a ${cashUp.currencyCode} note or coin`);
+        }
+        closingCash = roundMoney(input.cashCount.reduce((sum, line) => sum + line.value * line.count, 0));
+      }
+      if (closingCash === undefined) {
+        throw AppError.badRequest('Count the cash in the drawer to close the shift');
+      }
+
+      const totals = await this.shiftTotals(shiftId, parseFloat(shift.opening_cash) || 0, client);
+      const { expectedCash } = totals;
+      const cashDifference = roundMoney(closingCash - expectedCash);
+
+      // The refusal is audited (outside the transaction, so it is kept) and
+      // on a blind close does not say by how much the count is out
+      const needsApproval = cashUp.varianceThreshold !== null && Math.abs(cashDifference) > cashUp.varianceThreshold;
+      if (needsApproval && !input.varianceApprovedBy) {
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.CASH_UP_VARIANCE,
+          entityType: 'shift',
+          entityId: shiftId,
+          storeId: shift.store_id,
+          afterData: { closingCash, expectedCash, cashDifference, threshold: cashUp.varianceThreshold }
+        });
+        throw new AppError(
+          'The counted cash is outside the allowed variance; a manager has to approve the close',
+          403,
+          'VARIANCE_APPROVAL_REQUIRED',
+          cashUp.blind ? undefined : { cashDifference, threshold: cashUp.varianceThreshold }
+        );
+      }
+      const varianceApprovedBy = needsApproval ? input.varianceApprovedBy : undefined;
+
+      const updateResult = await client.query(
+        `UPDATE shifts SET
+          closed_at = NOW(),
+          closing_cash = $1,
+          expected_cash = $2,
+          cash_difference = $3,
+          total_sales = $4,
+          total_refunds = $5,
+          total_cash_payments = $6,
+          total_card_payments = $7,
+          transaction_count = $8,
+          total_voids = $9,
+          void_count = $10,
+          tender_totals = $11,
+          cash_count = $12,
+          blind_close = $13,
+          variance_approved_by = $14,
+          notes = COALESCE($15, notes),
+          status = 'closed',
+          updated_at = NOW()
+         WHERE id = $16 AND tenant_id = $17
+         RETURNING *`,
+        [closingCash, expectedCash, cashDifference, totals.totalSales, totals.totalRefunds,
+         totals.totalCashPayments, totals.totalCardPayments, totals.transactionCount, totals.totalVoids,
+         totals.voidCount, JSON.stringify(totals.tenderTotals),
+         input.cashCount ? JSON.stringify(input.cashCount.filter(line => line.count > 0)) : null,
+         cashUp.blind, varianceApprovedBy || null, input.notes || null, shiftId, ctx.tenantId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.SHIFT_CLOSED,
+        entityType: 'shift',
+        entityId: shiftId,
+        storeId: shift.store_id,
+        beforeData: { openingCash: totals.openingCash },
+        afterData: {
+          closingCash, expectedCash, cashDifference, totalSales: totals.totalSales,
+          transactionCount: totals.transactionCount, blindClose: cashUp.blind,
+          varianceApprovedBy
+        }
+      }, client);
+
+      return {
+        shift: updateResult.rows[0],
+        summary: {
+          ...totals,
+          closingCash,
+          cashDifference,
+          cashCount: input.cashCount,
+          blindClose: cashUp.blind,
+          varianceApprovedBy
+        }
+      };
+    });
+  }
+
+  /**
+   * Record a cash movement during an open shift
+   * Drops go from the drawer into the store safe; pickups come out of the
+   * safe into the drawer and need approvedBy, a second person.
+   */
+  static async addCashMovement(ctx: TenantContext, shiftId: string, input: CashMovementInput) {
+    if (input.type === 'pickup' && !input.approvedBy) {
+      throw new AppError('A pickup needs a second person to approve it', 403, 'SUPERVISOR_REQUIRED');
+    }
+
+    return withTransaction(async (client) => {
+      const shiftCheck = await client.query(
+        `SELECT id, store_id FROM shifts WHERE id = $1 AND tenant_id = $2 AND status = 'open' FOR UPDATE`,
+        [shiftId, ctx.tenantId]
+      );
+      if (shiftCheck.rows.length === 0) {
+        throw AppError.notFound('Open shift not found');
+      }
+      const storeId: string = shiftCheck.rows[0].store_id;
+      await assertStoreAccess(ctx, storeId);
+
+      const result = await client.query(
+        `INSERT INTO shift_cash_movements (tenant_id, shift_id, type, amount, reason, notes, approved_by, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          ctx.tenantId, shiftId, input.type, input.amount, input.reason || null, input.notes || null,
+          input.approvedBy || null, ctx.userId
+        ]
+      );
+      const movement = result.rows[0];
+
+      let safeBalance: number | undefined;
+      if (input.type === 'drop' || input.type === 'pickup') {
+        const entry = await SafeService.post(client, ctx, {
+          storeId,
+          type: input.type,
+          amount: input.type === 'drop' ? input.amount : -input.amount,
+          shiftMovementId: movement.id,
+          notes: input.reason,
+          approvedBy: input.approvedBy
+        });
+        safeBalance = parseFloat(entry.balance_after);
+      }
+
+      await AuditService.log(ctx, {
+        action: CASH_MOVEMENT_ACTIONS[input.type],
+        entityType: 'shift_cash_movement',
+        entityId: movement.id,
+        storeId,
+        afterData: {
+          shiftId, type: input.type, amount: input.amount, reason: input.reason,
+          approvedBy: input.approvedBy, safeBalance
+        }
+      }, client);
+
+      return movement;
+    });
+  }
+
+  /**
+   * Cash movements of a shift
+   */
+  static async getCashMovements(ctx: TenantContext, shiftId: string) {
+    const shiftResult = await query('SELECT store_id FROM shifts WHERE id = $1 AND tenant_id = $2', [shiftId, ctx.tenantId]);
+    if (shiftResult.rows.length === 0) {
+      throw AppError.notFound('Shift not found');
+    }
+    await assertStoreAccess(ctx, shiftResult.rows[0].store_id);
+
+    const result = await query(
+      `SELECT m.*, u.first_name as created_by_name, u.last_name as created_by_last_name,
+        a.first_name || ' ' || COALESCE(a.last_name, '') as approved_by_name
+       FROM shift_cash_movements m
+       LEFT JOIN users u ON u.id = m.created_by
+       LEFT JOIN users a ON a.id = m.approved_by
+       WHERE m.shift_id = $1 AND m.tenant_id = $2
+       ORDER BY m.created_at ASC`,
+      [shiftId, ctx.tenantId]
+    );
+    return result.rows;
+  }
+}
+
+export default ShiftService;
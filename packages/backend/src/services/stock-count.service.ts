@@ -0,0 +1,492 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+import { nextDailyNumber } from '../utils/numbering.js';
+import { AuditService } from './audit.service.js';
+import { EventService } from './event.service.js';
+import { InventoryService } from './inventory.service.js';
+
+export type StockCountType = 'full' | 'cycle' | 'spot';
+
+export interface CreateStockCountInput {
+  storeId: string;
+  type: StockCountType;
+  categoryId?: string;
+  productIds: string[];
+  notes?: string;
+}
+
+/**
+ * Stock Count Service
+ *
+ * Full, cycle and spot counts: draft -> in_progress (system quantities are
+ * frozen) -> completed (variance review) -> posted (variances hit the ledger).
+ */
+export class StockCountService {
+  /**
+   * Snapshot the products in scope of a count into stock_count_lines
+   * Full counts cover every active product, cycle counts a category or product list,
+   * spot counts only the products passed in (more can be added by scanning)
+   */
+  private static async snapshotLines(
+    client: PoolClient,
+    tenantId: string,
+    count: { id: string; store_id: string; category_id: string | null; type: StockCountType },
+    productIds: string[]
+  ): Promise<number> {
+    const params: unknown[] = [tenantId, count.store_id];
+    let sql = `
+      SELECT p.id as product_id, p.cost_price, COALESCE(soh.quantity, 0) as system_qty
+      FROM products p
+      LEFT JOIN stock_on_hand soh ON soh.product_id = p.id AND soh.store_id = $2
+      WHERE p.tenant_id = $1 AND p.is_active = true`;
+
+    if (count.category_id) {
+      params.push(count.category_id);
+      sql += ` AND p.category_id = $${params.length}`;
+    }
+    if (count.type !== 'full' && productIds.length > 0) {
+      params.push(productIds);
+      sql += ` AND p.id = ANY($${params.length}::uuid[])`;
+    } else if (count.type === 'spot') {
+      return 0;
+    }
+
+    const products = await client.query(sql, params);
+
+    for (const product of products.rows) {
+      await client.query(
+        `INSERT INTO stock_count_lines (tenant_id, stock_count_id, product_id, system_qty, cost_price)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (stock_count_id, product_id) DO NOTHING`,
+        [tenantId, count.id, product.product_id, product.system_qty, product.cost_price || 0]
+      );
+    }
+
+    return products.rows.length;
+  }
+
+  /**
+   * Load a stock count with its lines, per-line counter breakdown and cost impact
+   */
+  static async getCount(tenantId: string, countId: string) {
+    const countResult = await query(
+      `SELECT sc.*, s.name as store_name, c.name as category_name,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+              au.first_name || ' ' || COALESCE(au.last_name, '') as posted_by_name
+       FROM stock_counts sc
+       LEFT JOIN stores s ON s.id = sc.store_id
+       LEFT JOIN categories c ON c.id = sc.category_id
+       LEFT JOIN users u ON u.id = sc.created_by
+       LEFT JOIN users au ON au.id = sc.approved_by
+       WHERE sc.id = $1 AND sc.tenant_id = $2`,
+      [countId, tenantId]
+    );
+
+    if (countResult.rows.length === 0) {
+      return null;
+    }
+
+    const linesResult = await query(
+      `SELECT scl.*, p.name as product_name, p.sku,
+              (SELECT pb.barcode FROM product_barcodes pb WHERE pb.product_id = p.id ORDER BY pb.is_primary DESC LIMIT 1) as barcode,
+              scl.variance_qty * COALESCE(scl.cost_price, 0) as variance_value,
+              COALESCE((
+                SELECT json_agg(json_build_object(
+                  'countedBy', e.counted_by,
+                  'countedByName', eu.first_name || ' ' || COALESCE(eu.last_name, ''),
+                  'quantity', e.total_qty
+                ))
+                FROM (
+                  SELECT counted_by, SUM(quantity) as total_qty
+                  FROM stock_count_entries
+                  WHERE stock_count_line_id = scl.id
+                  GROUP BY counted_by
+                ) e
+                LEFT JOIN users eu ON eu.id = e.counted_by
+              ), '[]'::json) as counters
+       FROM stock_count_lines scl
+       LEFT JOIN products p ON p.id = scl.product_id
+       WHERE scl.stock_count_id = $1
+       ORDER BY p.name`,
+      [countId]
+    );
+
+    const count = countResult.rows[0];
+    const lines = linesResult.rows;
+
+    // Uncounted lines only count as zero on full counts
+    const postable = lines.filter(l => l.counted_qty !== null || count.type === 'full');
+    const value = (l: { variance_value?: string }) => parseFloat(l.variance_value || '0');
+    const summary = {
+      totalLines: lines.length,
+      countedLines: lines.filter(l => l.counted_qty !== null).length,
+      varianceLines: postable.filter(l => parseFloat(l.variance_qty) !== 0).length,
+      varianceQty: postable.reduce((sum, l) => sum + parseFloat(l.variance_qty), 0),
+      varianceValue: postable.reduce((sum, l) => sum + value(l), 0),
+      gainValue: postable.reduce((sum, l) => sum + Math.max(0, value(l)), 0),
+      lossValue: postable.reduce((sum, l) => sum + Math.min(0, value(l)), 0)
+    };
+
+    return { ...count, lines, summary };
+  }
+
+  /**
+   * List stock counts
+   */
+  static async listCounts(tenantId: string, options: { storeId?: string; status?: string } = {}) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT sc.*, s.name as store_name, c.name as category_name,
+             u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+             (SELECT COUNT(*) FROM stock_count_lines scl WHERE scl.stock_count_id = sc.id) as line_count,
+             (SELECT COUNT(*) FROM stock_count_lines scl WHERE scl.stock_count_id = sc.id AND scl.counted_qty IS NOT NULL) as counted_count
+      FROM stock_counts sc
+      LEFT JOIN stores s ON s.id = sc.store_id
+      LEFT JOIN categories c ON c.id = sc.category_id
+      LEFT JOIN users u ON u.id = sc.created_by
+      WHERE sc.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      sql += ` AND sc.store_id = $${params.length}`;
+    }
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND sc.status = $${params.length}`;
+    }
+    sql += ` ORDER BY sc.created_at DESC LIMIT 100`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Create a draft count
+   */
+  static async createCount(ctx: TenantContext, input: CreateStockCountInput) {
+    if (input.type === 'cycle' && !input.categoryId && input.productIds.length === 0) {
+      throw AppError.badRequest('Cycle counts need a category or a product list');
+    }
+
+    const countId = await withTransaction(async (client) => {
+      const countNumber = await nextDailyNumber(client, 'stock_counts', 'CNT', ctx.tenantId);
+
+      const result = await client.query(
+        `INSERT INTO stock_counts (tenant_id, store_id, count_number, type, status, category_id, notes, created_by)
+         VALUES ($1, $2, $3, $4, 'draft', $5, $6, $7)
+         RETURNING *`,
+        [ctx.tenantId, input.storeId, countNumber, input.type, input.categoryId || null, input.notes || null, ctx.userId]
+      );
+      const count = result.rows[0];
+
+      const lineCount = await this.snapshotLines(client, ctx.tenantId, count, input.productIds);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'stock_count',
+        entityId: count.id,
+        storeId: input.storeId,
+        afterData: { countNumber, type: input.type, categoryId: input.categoryId || null, lineCount }
+      }, client);
+
+      return count.id as string;
+    });
+
+    return this.getCount(ctx.tenantId, countId);
+  }
+
+  /**
+   * Start counting (freezes system quantities)
+   */
+  static async startCount(ctx: TenantContext, countId: string) {
+    await withTransaction(async (client) => {
+      const countResult = await client.query(
+        'SELECT * FROM stock_counts WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [countId, ctx.tenantId]
+      );
+      const count = countResult.rows[0];
+      if (!count) {
+        throw AppError.notFound('Stock count not found');
+      }
+      if (count.status !== 'draft') {
+        throw AppError.badRequest(`Cannot start a count in status ${count.status}`);
+      }
+      await assertStoreAccess(ctx, count.store_id);
+
+      // Freeze system quantities at the moment counting starts
+      await client.query(
+        `UPDATE stock_count_lines scl
+         SET system_qty = COALESCE((
+           SELECT soh.quantity FROM stock_on_hand soh
+           WHERE soh.product_id = scl.product_id AND soh.store_id = $2
+         ), 0)
+         WHERE scl.stock_count_id = $1`,
+        [countId, count.store_id]
+      );
+
+      await client.query(
+        `UPDATE stock_counts SET status = 'in_progress', started_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [countId]
+      );
+    });
+
+    return this.getCount(ctx.tenantId, countId);
+  }
+
+  /**
+   * Record a count entry (by productId or scanned barcode)
+   * Entries from different counters are summed into the line's counted_qty
+   */
+  static async recordEntry(
+    ctx: TenantContext,
+    countId: string,
+    input: { productId?: string; barcode?: string; quantity: number }
+  ) {
+    return withTransaction(async (client) => {
+      const countResult = await client.query(
+        'SELECT * FROM stock_counts WHERE id = $1 AND tenant_id = $2',
+        [countId, ctx.tenantId]
+      );
+      const count = countResult.rows[0];
+      if (!count) {
+        throw AppError.notFound('Stock count not found');
+      }
+      if (count.status !== 'in_progress') {
+        throw AppError.badRequest('Counts can only be entered while the count is in progress');
+      }
+      await assertStoreAccess(ctx, count.store_id);
+
+      // Resolve product from barcode (falls back to SKU like the POS lookup)
+      let productId = input.productId;
+      if (!productId && input.barcode) {
+        const lookup = await client.query(
+          `SELECT p.id FROM product_barcodes pb
+           JOIN products p ON p.id = pb.product_id
+           WHERE pb.tenant_id = $1 AND pb.barcode = $2
+           UNION ALL
+           SELECT p.id FROM products p WHERE p.tenant_id = $1 AND p.sku = $2
+           LIMIT 1`,
+          [ctx.tenantId, input.barcode]
+        );
+        productId = lookup.rows[0]?.id;
+      }
+      if (!productId) {
+        throw AppError.notFound('Product not found');
+      }
+
+      let lineResult = await client.query(
+        'SELECT * FROM stock_count_lines WHERE stock_count_id = $1 AND product_id = $2',
+        [countId, productId]
+      );
+
+      // Products outside the frozen snapshot can be added to spot/cycle counts on scan
+      if (lineResult.rows.length === 0) {
+        const productResult = await client.query(
+          `SELECT p.id, p.cost_price, p.category_id, COALESCE(soh.quantity, 0) as system_qty
+           FROM products p
+           LEFT JOIN stock_on_hand soh ON soh.product_id = p.id AND soh.store_id = $3
+           WHERE p.id = $1 AND p.tenant_id = $2`,
+          [productId, ctx.tenantId, count.store_id]
+        );
+        const product = productResult.rows[0];
+        if (!product) {
+          throw AppError.notFound('Product not found');
+        }
+        if (count.category_id && product.category_id !== count.category_id) {
+          throw AppError.badRequest('Product is outside the category of this count');
+        }
+        lineResult = await client.query(
+          `INSERT INTO stock_count_lines (tenant_id, stock_count_id, product_id, system_qty, cost_price)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [ctx.tenantId, countId, product.id, product.system_qty, product.cost_price || 0]
+        );
+      }
+      const line = lineResult.rows[0];
+
+      await client.query(
+        `INSERT INTO stock_count_entries (tenant_id, stock_count_id, stock_count_line_id, product_id, quantity, barcode, counted_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [ctx.tenantId, countId, line.id, productId, input.quantity, input.barcode || null, ctx.userId]
+      );
+
+      const updated = await client.query(
+        `UPDATE stock_count_lines
+         SET counted_qty = (SELECT SUM(quantity) FROM stock_count_entries WHERE stock_count_line_id = $1),
+             counted_at = NOW(), counted_by = $2
+         WHERE id = $1
+         RETURNING *`,
+        [line.id, ctx.userId]
+      );
+
+      return updated.rows[0];
+    });
+  }
+
+  /**
+   * Clear the current user's entries for a line (recount)
+   */
+  static async clearEntries(ctx: TenantContext, countId: string, lineId: string) {
+    const countResult = await query(
+      'SELECT status FROM stock_counts WHERE id = $1 AND tenant_id = $2',
+      [countId, ctx.tenantId]
+    );
+    if (countResult.rows.length === 0) {
+      throw AppError.notFound('Stock count not found');
+    }
+    if (countResult.rows[0].status !== 'in_progress') {
+      throw AppError.badRequest('Counts can only be changed while the count is in progress');
+    }
+
+    await query(
+      'DELETE FROM stock_count_entries WHERE stock_count_line_id = $1 AND stock_count_id = $2 AND counted_by = $3',
+      [lineId, countId, ctx.userId]
+    );
+    const updated = await query(
+      `UPDATE stock_count_lines
+       SET counted_qty = (SELECT SUM(quantity) FROM stock_count_entries WHERE stock_count_line_id = $1)
+       WHERE id = $1 AND stock_count_id = $2
+       RETURNING *`,
+      [lineId, countId]
+    );
+
+    return updated.rows[0];
+  }
+
+  /**
+   * Finish counting and move to variance review
+   */
+  static async completeCount(ctx: TenantContext, countId: string) {
+    const result = await query(
+      `UPDATE stock_counts SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status = 'in_progress'
+       RETURNING id`,
+      [countId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Only counts in progress can be completed');
+    }
+    return this.getCount(ctx.tenantId, countId);
+  }
+
+  /**
+   * Reopen a completed count for recounting
+   */
+  static async reopenCount(ctx: TenantContext, countId: string) {
+    const result = await query(
+      `UPDATE stock_counts SET status = 'in_progress', completed_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status = 'completed'
+       RETURNING id`,
+      [countId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Only completed counts can be reopened');
+    }
+    return this.getCount(ctx.tenantId, countId);
+  }
+
+  /**
+   * Post variances to the stock ledger
+   */
+  static async postCount(ctx: TenantContext, countId: string) {
+    await withTransaction(async (client) => {
+      const countResult = await client.query(
+        'SELECT * FROM stock_counts WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [countId, ctx.tenantId]
+      );
+      const count = countResult.rows[0];
+      if (!count) {
+        throw AppError.notFound('Stock count not found');
+      }
+      if (count.status !== 'completed') {
+        throw AppError.badRequest('Only completed counts can be posted');
+      }
+      await assertStoreAccess(ctx, count.store_id);
+
+      // Uncounted lines are only treated as zero on full counts
+      const linesResult = await client.query(
+        `SELECT * FROM stock_count_lines
+         WHERE stock_count_id = $1 AND variance_qty <> 0
+           AND (counted_qty IS NOT NULL OR $2 = 'full')`,
+        [countId, count.type]
+      );
+
+      let varianceValue = 0;
+      for (const line of linesResult.rows) {
+        const varianceQty = parseFloat(line.variance_qty);
+        varianceValue += varianceQty * (parseFloat(line.cost_price) || 0);
+
+        await InventoryService.recordMovement(ctx, count.store_id, {
+          productId: line.product_id,
+          quantity: varianceQty,
+          referenceType: 'stock_count',
+          referenceId: count.id,
+          referenceLineId: line.id,
+          notes: `Stock count ${count.count_number} variance`
+        }, client);
+      }
+
+      await client.query(
+        `UPDATE stock_counts
+         SET status = 'posted', posted_at = NOW(), approved_by = $1, updated_at = NOW()
+         WHERE id = $2`,
+        [ctx.userId, countId]
+      );
+
+      const payload = {
+        countNumber: count.count_number,
+        storeId: count.store_id,
+        type: count.type,
+        adjustedLines: linesResult.rows.length,
+        varianceValue
+      };
+
+      await EventService.queueEvent(ctx.tenantId, {
+        eventType: EventService.EVENT_TYPES.STOCK_COUNT_POSTED,
+        entityType: 'stock_count',
+        entityId: countId,
+        payload
+      }, client);
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.STOCK_COUNT_POSTED,
+        entityType: 'stock_count',
+        entityId: countId,
+        storeId: count.store_id,
+        afterData: payload
+      }, client);
+    });
+
+    return this.getCount(ctx.tenantId, countId);
+  }
+
+  /**
+   * Cancel a count (no stock impact)
+   */
+  static async cancelCount(ctx: TenantContext, countId: string): Promise<void> {
+    const result = await query(
+      `UPDATE stock_counts
+       SET status = 'cancelled', cancelled_at = NOW(), cancelled_by = $1, updated_at = NOW()
+       WHERE id = $2 AND tenant_id = $3 AND status IN ('draft', 'in_progress', 'completed')
+       RETURNING *`,
+      [ctx.userId, countId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Count cannot be cancelled');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CANCEL,
+      entityType: 'stock_count',
+      entityId: countId,
+      storeId: result.rows[0].store_id,
+      afterData: { countNumber: result.rows[0].count_number }
+    });
+  }
+}
+
+export default StockCountService;
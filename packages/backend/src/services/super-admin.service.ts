@@ -0,0 +1,247 @@
+import bcrypt from 'bcryptjs';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { config } from '../config/index.js';
+import { AppError } from '../utils/errors.js';
+
+export type TenantStatus = 'active' | 'suspended' | 'cancelled';
+
+export interface CreateTenantInput {
+  tenantName: string;
+  adminEmail: string;
+  adminPassword: string;
+  adminFirstName?: string;
+  adminLastName?: string;
+  storeLimit?: number | null;
+  currency: string;
+}
+
+export interface UpdateTenantInput {
+  name?: string;
+  status?: TenantStatus;
+  // null removes the limit
+  storeLimit?: number | null;
+}
+
+/**
+ * Super Admin Service
+ *
+ * Platform-level tenant management for operators outside any tenant.
+ * Actions are logged to super_admin_audit_logs rather than the tenant audit log.
+ */
+export class SuperAdminService {
+  private static async log(
+    actorUserId: string,
+    action: string,
+    targetType: string,
+    targetId: string,
+    metadata: Record<string, unknown>,
+    client?: PoolClient
+  ): Promise<void> {
+    const sql = `INSERT INTO super_admin_audit_logs (actor_user_id, action, target_type, target_id, metadata)
+                 VALUES ($1, $2, $3, $4, $5)`;
+    const params = [actorUserId, action, targetType, targetId, JSON.stringify(metadata)];
+    if (client) {
+      await client.query(sql, params);
+    } else {
+      await query(sql, params);
+    }
+  }
+
+  /**
+   * All tenants with active store count and first (admin) user
+   */
+  static async listTenants() {
+    const result = await query(
+      `SELECT t.*,
+         (SELECT COUNT(*)::INTEGER FROM stores WHERE tenant_id = t.id AND is_active = true) as active_store_count,
+         (SELECT u.email FROM users u WHERE u.tenant_id = t.id ORDER BY u.created_at LIMIT 1) as admin_email,
+         (SELECT u.first_name || ' ' || COALESCE(u.last_name, '') FROM users u WHERE u.tenant_id = t.id ORDER BY u.created_at LIMIT 1) as admin_name
+       FROM tenants t
+       ORDER BY t.created_at DESC`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Tenant with its users and stores
+   */
+  static async getTenant(tenantId: string) {
+    const tenantResult = await query(
+      `SELECT t.*,
+         (SELECT COUNT(*)::INTEGER FROM stores WHERE tenant_id = t.id AND is_active = true) as active_store_count
+       FROM tenants t WHERE t.id = $1`,
+      [tenantId]
+    );
+    if (tenantResult.rows.length === 0) {
+      throw AppError.notFound('Tenant not found');
+    }
+
+    const [users, stores] = await Promise.all([
+      query(
+        `SELECT id, email, first_name, last_name, is_active, last_login_at, created_at
+         FROM users WHERE tenant_id = $1 ORDER BY created_at`,
+        [tenantId]
+      ),
+      query(
+        `SELECT id, code, name, is_active, created_at
+         FROM stores WHERE tenant_id = $1 ORDER BY created_at`,
+        [tenantId]
+      )
+    ]);
+
+    return { tenant: tenantResult.rows[0], users: users.rows, stores: stores.rows };
+  }
+
+  /**
+   * Provision a tenant with a main store, admin role and admin user,
+   * plus the default tax group and unit of measure
+   */
+  static async createTenant(actorUserId: string, input: CreateTenantInput) {
+    const passwordHash = await bcrypt.hash(input.adminPassword, config.bcryptRounds);
+
+    return withTransaction(async (client) => {
+      const emailCheck = await client.query('SELECT id FROM users WHERE email = $1', [input.adminEmail]);
+      if (emailCheck.rows.length > 0) {
+        throw AppError.badRequest('Email already exists');
+      }
+
+      const slug = input.tenantName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+      const tenantResult = await client.query(
+        `INSERT INTO tenants (name, slug, currency_code, store_limit, status)
+         VALUES ($1, $2, $3, $4, 'active') RETURNING *`,
+        [input.tenantName, slug, input.currency, input.storeLimit ?? null]
+      );
+      const tenant = tenantResult.rows[0];
+
+      const storeResult = await client.query(
+        `INSERT INTO stores (tenant_id, code, name) VALUES ($1, 'MAIN', 'Main Store') RETURNING *`,
+        [tenant.id]
+      );
+      const store = storeResult.rows[0];
+
+      const roleResult = await client.query(
+        `INSERT INTO roles (tenant_id, name, permissions, is_system) VALUES ($1, 'Admin', $2, true) RETURNING *`,
+        [tenant.id, JSON.stringify(['*'])]
+      );
+      const role = roleResult.rows[0];
+
+      const userResult = await client.query(
+        `INSERT INTO users (tenant_id, email, password_hash, first_name, last_name, default_store_id, must_change_password)
+         VALUES ($1, $2, $3, $4, $5, $6, true) RETURNING *`,
+        [tenant.id, input.adminEmail, passwordHash, input.adminFirstName || 'Admin', input.adminLastName || '', store.id]
+      );
+      const user = userResult.rows[0];
+
+      await client.query('INSERT INTO user_roles (user_id, role_id) VALUES ($1, $2)', [user.id, role.id]);
+      await client.query('INSERT INTO user_stores (user_id, store_id, is_default) VALUES ($1, $2, true)', [user.id, store.id]);
+
+      await client.query(
+        `INSERT INTO tax_groups (tenant_id, code, name, rate, is_default) VALUES ($1, 'STD', 'Standard', 0.14, true)`,
+        [tenant.id]
+      );
+      await client.query(
+        `INSERT INTO uoms (tenant_id, code, name, is_base) VALUES ($1, 'EA', 'Each', true)`,
+        [tenant.id]
+      );
+
+      await this.log(actorUserId, 'CREATE_TENANT', 'tenant', tenant.id, {
+        tenantName: input.tenantName,
+        adminEmail: input.adminEmail,
+        storeLimit: input.storeLimit
+      }, client);
+
+      return {
+        tenant: { ...tenant, active_store_count: 1 },
+        user: { id: user.id, email: user.email, firstName: user.first_name, lastName: user.last_name },
+        store: { id: store.id, code: store.code, name: store.name }
+      };
+    });
+  }
+
+  /**
+   * Update tenant name, status or store limit
+   */
+  static async updateTenant(actorUserId: string, tenantId: string, input: UpdateTenantInput) {
+    const params: unknown[] = [tenantId];
+    const updates: string[] = [];
+
+    if (input.storeLimit !== undefined) {
+      params.push(input.storeLimit);
+      updates.push(`store_limit = $${params.length}`);
+    }
+    if (input.status) {
+      params.push(input.status);
+      updates.push(`status = $${params.length}`);
+    }
+    if (input.name) {
+      params.push(input.name);
+      updates.push(`name = $${params.length}`);
+    }
+    if (updates.length === 0) {
+      throw AppError.badRequest('No updates provided');
+    }
+
+    const result = await query(
+      `UPDATE tenants SET ${updates.join(', ')}, updated_at = NOW() WHERE id = $1 RETURNING *`,
+      params
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Tenant not found');
+    }
+
+    await this.log(actorUserId, 'UPDATE_TENANT', 'tenant', tenantId, { ...input });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Reset a tenant user's password; they must change it at next login
+   */
+  static async resetUserPassword(actorUserId: string, tenantId: string, userId: string, newPassword: string): Promise<void> {
+    const userCheck = await query('SELECT id FROM users WHERE id = $1 AND tenant_id = $2', [userId, tenantId]);
+    if (userCheck.rows.length === 0) {
+      throw AppError.notFound('User not found in this tenant');
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, config.bcryptRounds);
+    await query(
+      `UPDATE users SET password_hash = $1, must_change_password = true, updated_at = NOW() WHERE id = $2`,
+      [passwordHash, userId]
+    );
+
+    await this.log(actorUserId, 'RESET_PASSWORD', 'user', userId, { tenantId });
+  }
+
+  /**
+   * Platform audit log, newest first
+   */
+  static async getAuditLogs(limit: number) {
+    const result = await query(
+      `SELECT sal.*, u.email as actor_email, u.first_name as actor_name
+       FROM super_admin_audit_logs sal
+       LEFT JOIN users u ON u.id = sal.actor_user_id
+       ORDER BY sal.created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Platform-wide tenant, store and user counts
+   */
+  static async getStats() {
+    const result = await query(
+      `SELECT
+         (SELECT COUNT(*) FROM tenants WHERE status = 'active') as active_tenants,
+         (SELECT COUNT(*) FROM tenants WHERE status = 'suspended') as suspended_tenants,
+         (SELECT COUNT(*) FROM tenants) as total_tenants,
+         (SELECT COUNT(*) FROM stores WHERE is_active = true) as total_stores,
+         (SELECT COUNT(*) FROM users WHERE tenant_id IS NOT NULL AND is_active = true) as total_users`
+    );
+    return result.rows[0];
+  }
+}
+
+export default SuperAdminService;
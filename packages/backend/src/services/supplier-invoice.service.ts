@@ -0,0 +1,532 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { AuditService } from './audit.service.js';
+
+export type MatchStatus = 'matched' | 'variance';
+
+export interface SupplierInvoiceLineInput {
+  purchaseOrderLineId?: string;
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  taxAmount?: number;
+}
+
+export interface CreateSupplierInvoiceInput {
+  supplierId: string;
+  purchaseOrderId?: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate?: string;
+  notes?: string;
+  lines: SupplierInvoiceLineInput[];
+}
+
+type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+type BucketTotals = Record<AgingBucket | 'total', number>;
+
+function bucketFor(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days1to30';
+  if (daysOverdue <= 60) return 'days31to60';
+  if (daysOverdue <= 90) return 'days61to90';
+  return 'over90';
+}
+
+function emptyBuckets(): BucketTotals {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+}
+
+/**
+ * Supplier Invoice Service
+ *
+ * Supplier invoices, the three-way match (invoice vs PO vs GRN), variance
+ * approval, payments and accounts payable aging.
+ */
+export class SupplierInvoiceService {
+  /**
+   * List invoices with match result and outstanding balance
+   */
+  static async listInvoices(
+    tenantId: string,
+    options: { status?: string; supplierId?: string; purchaseOrderId?: string; search?: string }
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT si.*, sup.name as supplier_name, po.po_number,
+             im.match_status, im.variance_amount,
+             si.total_amount - COALESCE(si.paid_amount, 0) as balance
+      FROM supplier_invoices si
+      LEFT JOIN suppliers sup ON sup.id = si.supplier_id
+      LEFT JOIN purchase_orders po ON po.id = si.purchase_order_id
+      LEFT JOIN invoice_matching im ON im.invoice_id = si.id
+      WHERE si.tenant_id = $1`;
+
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND si.status = $${params.length}`;
+    }
+    if (options.supplierId) {
+      params.push(options.supplierId);
+      sql += ` AND si.supplier_id = $${params.length}`;
+    }
+    if (options.purchaseOrderId) {
+      params.push(options.purchaseOrderId);
+      sql += ` AND si.purchase_order_id = $${params.length}`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      sql += ` AND (si.invoice_number ILIKE $${params.length} OR sup.name ILIKE $${params.length})`;
+    }
+    sql += ` ORDER BY si.created_at DESC LIMIT 200`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Invoice with lines and its match result
+   */
+  static async getInvoice(tenantId: string, invoiceId: string) {
+    const invoiceResult = await query(
+      `SELECT si.*, sup.name as supplier_name, sup.code as supplier_code, po.po_number,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name
+       FROM supplier_invoices si
+       LEFT JOIN suppliers sup ON sup.id = si.supplier_id
+       LEFT JOIN purchase_orders po ON po.id = si.purchase_order_id
+       LEFT JOIN users u ON u.id = si.created_by
+       WHERE si.id = $1 AND si.tenant_id = $2`,
+      [invoiceId, tenantId]
+    );
+    if (invoiceResult.rows.length === 0) {
+      return null;
+    }
+
+    const linesResult = await query(
+      `SELECT sil.*, p.name as product_name, p.sku
+       FROM supplier_invoice_lines sil
+       LEFT JOIN products p ON p.id = sil.product_id
+       WHERE sil.invoice_id = $1
+       ORDER BY sil.line_number`,
+      [invoiceId]
+    );
+
+    const matchResult = await query(
+      `SELECT im.*,
+              mu.first_name || ' ' || COALESCE(mu.last_name, '') as matched_by_name,
+              au.first_name || ' ' || COALESCE(au.last_name, '') as approved_by_name
+       FROM invoice_matching im
+       LEFT JOIN users mu ON mu.id = im.matched_by
+       LEFT JOIN users au ON au.id = im.approved_by
+       WHERE im.invoice_id = $1`,
+      [invoiceId]
+    );
+
+    return { ...invoiceResult.rows[0], lines: linesResult.rows, match: matchResult.rows[0] || null };
+  }
+
+  /**
+   * Invoices whose match variance is waiting for approval
+   */
+  static async getVarianceQueue(tenantId: string) {
+    const result = await query(
+      `SELECT si.id, si.invoice_number, si.invoice_date, si.due_date, si.total_amount,
+              sup.name as supplier_name, po.po_number,
+              im.po_amount, im.grn_amount, im.invoice_amount, im.variance_amount,
+              im.line_results, im.notes as match_notes, im.updated_at as matched_at
+       FROM invoice_matching im
+       JOIN supplier_invoices si ON si.id = im.invoice_id
+       LEFT JOIN suppliers sup ON sup.id = si.supplier_id
+       LEFT JOIN purchase_orders po ON po.id = si.purchase_order_id
+       WHERE im.tenant_id = $1 AND im.match_status = 'variance' AND si.status = 'variance'
+       ORDER BY im.updated_at`,
+      [tenantId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Accounts payable aging of unpaid invoices by due date
+   */
+  static async getPayablesAging(tenantId: string, asOf: string) {
+    const result = await query(
+      `SELECT si.id, si.invoice_number, si.invoice_date, si.due_date, si.status,
+              si.total_amount, COALESCE(si.paid_amount, 0) as paid_amount,
+              si.total_amount - COALESCE(si.paid_amount, 0) as balance,
+              si.supplier_id, sup.name as supplier_name,
+              GREATEST($2::date - COALESCE(si.due_date, si.invoice_date), 0) as days_overdue
+       FROM supplier_invoices si
+       LEFT JOIN suppliers sup ON sup.id = si.supplier_id
+       WHERE si.tenant_id = $1 AND si.status NOT IN ('paid', 'cancelled')
+         AND si.total_amount - COALESCE(si.paid_amount, 0) > 0
+       ORDER BY COALESCE(si.due_date, si.invoice_date)`,
+      [tenantId, asOf]
+    );
+
+    const totals = emptyBuckets();
+    const bySupplier = new Map<string, BucketTotals & { supplierId: string; supplierName: string }>();
+
+    const invoices = result.rows.map(row => {
+      const balance = parseFloat(row.balance);
+      const bucket = bucketFor(parseInt(row.days_overdue));
+
+      let supplier = bySupplier.get(row.supplier_id);
+      if (!supplier) {
+        supplier = { supplierId: row.supplier_id, supplierName: row.supplier_name, ...emptyBuckets() };
+        bySupplier.set(row.supplier_id, supplier);
+      }
+      supplier[bucket] += balance;
+      supplier.total += balance;
+      totals[bucket] += balance;
+      totals.total += balance;
+
+      return { ...row, bucket };
+    });
+
+    return {
+      asOf,
+      totals,
+      suppliers: Array.from(bySupplier.values()).sort((a, b) => b.total - a.total),
+      invoices
+    };
+  }
+
+  // Match tolerances from tenant settings (percent)
+  private static async getMatchTolerances(client: PoolClient, tenantId: string) {
+    const result = await client.query('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    const settings = result.rows[0]?.settings || {};
+    return {
+      qtyTolerancePct: parseFloat(settings.match_qty_tolerance_pct ?? 0),
+      priceTolerancePct: parseFloat(settings.match_price_tolerance_pct ?? 2)
+    };
+  }
+
+  /**
+   * Three-way match: invoice lines against PO unit cost and GRN received quantity
+   * Quantity available to invoice is what has been received less what other
+   * invoices already billed.
+   */
+  private static async matchInvoice(client: PoolClient, ctx: TenantContext, invoiceId: string) {
+    const invoiceResult = await client.query(
+      'SELECT * FROM supplier_invoices WHERE id = $1 AND tenant_id = $2',
+      [invoiceId, ctx.tenantId]
+    );
+    const invoice = invoiceResult.rows[0];
+    const { qtyTolerancePct, priceTolerancePct } = await this.getMatchTolerances(client, ctx.tenantId);
+
+    const linesResult = await client.query(
+      `SELECT sil.*, p.name as product_name, p.sku,
+              pol.quantity as ordered_qty, pol.unit_cost as po_unit_cost,
+              (SELECT COALESCE(SUM(gl.received_qty), 0)
+               FROM grn_lines gl JOIN grns g ON g.id = gl.grn_id
+               WHERE gl.purchase_order_line_id = pol.id AND g.status = 'received') as received_qty,
+              (SELECT COALESCE(SUM(other.quantity), 0)
+               FROM supplier_invoice_lines other JOIN supplier_invoices si ON si.id = other.invoice_id
+               WHERE other.purchase_order_line_id = pol.id AND other.invoice_id <> sil.invoice_id
+                 AND si.status <> 'cancelled') as previously_invoiced_qty
+       FROM supplier_invoice_lines sil
+       LEFT JOIN products p ON p.id = sil.product_id
+       LEFT JOIN purchase_order_lines pol ON pol.id = sil.purchase_order_line_id
+       WHERE sil.invoice_id = $1
+       ORDER BY sil.line_number`,
+      [invoiceId]
+    );
+
+    let poAmount = 0;
+    let grnAmount = 0;
+    let varianceAmount = 0;
+    const lineResults = [];
+
+    for (const line of linesResult.rows) {
+      const invoicedQty = parseFloat(line.quantity);
+      const invoiceCost = parseFloat(line.unit_cost);
+      const issues: string[] = [];
+      const base = {
+        lineId: line.id,
+        productId: line.product_id,
+        productName: line.product_name,
+        sku: line.sku,
+        invoicedQty,
+        invoiceCost
+      };
+
+      if (!line.purchase_order_line_id) {
+        issues.push('not_on_po');
+        varianceAmount += invoicedQty * invoiceCost;
+        lineResults.push({ ...base, receivedQty: 0, availableQty: 0, poCost: null, issues });
+        continue;
+      }
+
+      const poCost = parseFloat(line.po_unit_cost);
+      const receivedQty = parseFloat(line.received_qty);
+      const availableQty = Math.max(receivedQty - parseFloat(line.previously_invoiced_qty), 0);
+
+      if (invoicedQty > availableQty * (1 + qtyTolerancePct / 100)) {
+        issues.push('qty_over_received');
+      }
+      if (poCost > 0 ? Math.abs(invoiceCost - poCost) / poCost * 100 > priceTolerancePct : invoiceCost > 0) {
+        issues.push('price_variance');
+      }
+
+      const matchedQty = Math.min(invoicedQty, availableQty);
+      poAmount += parseFloat(line.ordered_qty) * poCost;
+      grnAmount += matchedQty * poCost;
+      varianceAmount += invoicedQty * invoiceCost - matchedQty * poCost;
+
+      lineResults.push({ ...base, receivedQty, availableQty, poCost, issues });
+    }
+
+    const headerIssues: string[] = [];
+    if (!invoice.purchase_order_id) headerIssues.push('no_purchase_order');
+    if (linesResult.rows.length === 0) headerIssues.push('no_lines');
+
+    const hasVariance = headerIssues.length > 0 || lineResults.some(line => line.issues.length > 0);
+    const matchStatus: MatchStatus = hasVariance ? 'variance' : 'matched';
+
+    const latestGrn = invoice.purchase_order_id
+      ? await client.query(
+          `SELECT id FROM grns WHERE purchase_order_id = $1 AND status = 'received'
+           ORDER BY created_at DESC LIMIT 1`,
+          [invoice.purchase_order_id]
+        )
+      : { rows: [] };
+
+    // Re-matching replaces the previous result and clears any approval
+    await client.query(
+      `INSERT INTO invoice_matching (
+        tenant_id, purchase_order_id, grn_id, invoice_id, match_status, po_amount, grn_amount,
+        invoice_amount, variance_amount, qty_tolerance_pct, price_tolerance_pct, line_results, notes, matched_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      ON CONFLICT (invoice_id) DO UPDATE SET
+        purchase_order_id = EXCLUDED.purchase_order_id,
+        grn_id = EXCLUDED.grn_id,
+        match_status = EXCLUDED.match_status,
+        po_amount = EXCLUDED.po_amount,
+        grn_amount = EXCLUDED.grn_amount,
+        invoice_amount = EXCLUDED.invoice_amount,
+        variance_amount = EXCLUDED.variance_amount,
+        qty_tolerance_pct = EXCLUDED.qty_tolerance_pct,
+        price_tolerance_pct = EXCLUDED.price_tolerance_pct,
+        line_results = EXCLUDED.line_results,
+        notes = EXCLUDED.notes,
+        matched_by = EXCLUDED.matched_by,
+        approved_by = NULL,
+        approved_at = NULL,
+        updated_at = NOW()`,
+      [ctx.tenantId, invoice.purchase_order_id, latestGrn.rows[0]?.id || null, invoiceId, matchStatus,
+       poAmount, grnAmount, parseFloat(invoice.subtotal), varianceAmount, qtyTolerancePct, priceTolerancePct,
+       JSON.stringify(lineResults), headerIssues.join(',') || null, ctx.userId]
+    );
+
+    await client.query(
+      'UPDATE supplier_invoices SET status = $1, updated_at = NOW() WHERE id = $2',
+      [matchStatus, invoiceId]
+    );
+
+    return { matchStatus, varianceAmount, lineResults, headerIssues };
+  }
+
+  /**
+   * Enter an invoice and run the three-way match
+   * The due date defaults to the invoice date plus the supplier's payment terms
+   */
+  static async createInvoice(ctx: TenantContext, input: CreateSupplierInvoiceInput) {
+    let invoiceId: string;
+    try {
+      invoiceId = await withTransaction(async (client) => {
+        if (input.purchaseOrderId) {
+          const poResult = await client.query(
+            'SELECT supplier_id FROM purchase_orders WHERE id = $1 AND tenant_id = $2',
+            [input.purchaseOrderId, ctx.tenantId]
+          );
+          if (poResult.rows.length === 0 || poResult.rows[0].supplier_id !== input.supplierId) {
+            throw AppError.badRequest('Purchase order does not belong to this supplier');
+          }
+        }
+
+        let dueDate = input.dueDate;
+        if (!dueDate) {
+          const supplierResult = await client.query(
+            'SELECT payment_terms FROM suppliers WHERE id = $1 AND tenant_id = $2',
+            [input.supplierId, ctx.tenantId]
+          );
+          const termDays = parseInt(supplierResult.rows[0]?.payment_terms) || 0;
+          const due = new Date(input.invoiceDate);
+          due.setDate(due.getDate() + termDays);
+          dueDate = due.toISOString().slice(0, 10);
+        }
+
+        let subtotal = 0;
+        let taxAmount = 0;
+        const lines = input.lines.map((line, index) => {
+          const lineTax = line.taxAmount || 0;
+          subtotal += line.quantity * line.unitCost;
+          taxAmount += lineTax;
+          return { ...line, lineNumber: index + 1, taxAmount: lineTax, lineTotal: line.quantity * line.unitCost + lineTax };
+        });
+
+        const result = await client.query(
+          `INSERT INTO supplier_invoices (
+            tenant_id, supplier_id, purchase_order_id, invoice_number, invoice_date, due_date,
+            subtotal, tax_amount, total_amount, status, notes, created_by
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', $10, $11)
+          RETURNING id`,
+          [ctx.tenantId, input.supplierId, input.purchaseOrderId || null, input.invoiceNumber,
+           input.invoiceDate, dueDate, subtotal, taxAmount, subtotal + taxAmount, input.notes || null, ctx.userId]
+        );
+        const id: string = result.rows[0].id;
+
+        for (const line of lines) {
+          await client.query(
+            `INSERT INTO supplier_invoice_lines (
+              tenant_id, invoice_id, line_number, purchase_order_line_id, product_id, quantity, unit_cost, tax_amount, line_total
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [ctx.tenantId, id, line.lineNumber, line.purchaseOrderLineId || null, line.productId,
+             line.quantity, line.unitCost, line.taxAmount, line.lineTotal]
+          );
+        }
+
+        const match = await this.matchInvoice(client, ctx, id);
+
+        await AuditService.log(ctx, {
+          action: AuditService.ACTIONS.CREATE,
+          entityType: 'supplier_invoice',
+          entityId: id,
+          afterData: {
+            invoiceNumber: input.invoiceNumber,
+            supplierId: input.supplierId,
+            totalAmount: subtotal + taxAmount,
+            matchStatus: match.matchStatus
+          }
+        }, client);
+
+        return id;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('This invoice number is already recorded for the supplier');
+      }
+      throw error;
+    }
+
+    return this.getInvoice(ctx.tenantId, invoiceId);
+  }
+
+  /**
+   * Re-run matching (e.g. after more goods were received)
+   */
+  static async rematchInvoice(ctx: TenantContext, invoiceId: string) {
+    const matchStatus = await withTransaction(async (client) => {
+      const existing = await client.query(
+        'SELECT status FROM supplier_invoices WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [invoiceId, ctx.tenantId]
+      );
+      if (existing.rows.length === 0) {
+        throw AppError.notFound('Supplier invoice not found');
+      }
+      if (['paid', 'cancelled'].includes(existing.rows[0].status)) {
+        throw AppError.badRequest(`Cannot re-match a ${existing.rows[0].status} invoice`);
+      }
+
+      const match = await this.matchInvoice(client, ctx, invoiceId);
+      return match.matchStatus;
+    });
+
+    return { matchStatus, invoice: await this.getInvoice(ctx.tenantId, invoiceId) };
+  }
+
+  /**
+   * Approve a match variance so the invoice can be paid
+   */
+  static async approveVariance(ctx: TenantContext, invoiceId: string, notes?: string) {
+    await withTransaction(async (client) => {
+      const matchResult = await client.query(
+        `UPDATE invoice_matching
+         SET match_status = 'approved', approved_by = $1, approved_at = NOW(),
+             notes = COALESCE($2, notes), updated_at = NOW()
+         WHERE invoice_id = $3 AND tenant_id = $4 AND match_status = 'variance'
+         RETURNING *`,
+        [ctx.userId, notes || null, invoiceId, ctx.tenantId]
+      );
+      if (matchResult.rows.length === 0) {
+        throw AppError.badRequest('Invoice has no variance awaiting approval');
+      }
+
+      await client.query(
+        `UPDATE supplier_invoices SET status = 'matched', updated_at = NOW() WHERE id = $1`,
+        [invoiceId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.INVOICE_VARIANCE_APPROVED,
+        entityType: 'supplier_invoice',
+        entityId: invoiceId,
+        afterData: { varianceAmount: matchResult.rows[0].variance_amount, notes }
+      }, client);
+    });
+
+    return this.getInvoice(ctx.tenantId, invoiceId);
+  }
+
+  /**
+   * Record a payment against a matched invoice, up to the outstanding balance
+   */
+  static async recordPayment(ctx: TenantContext, invoiceId: string, amount: number) {
+    const result = await query(
+      `UPDATE supplier_invoices
+       SET paid_amount = COALESCE(paid_amount, 0) + $1,
+           status = CASE WHEN COALESCE(paid_amount, 0) + $1 >= total_amount THEN 'paid' ELSE status END,
+           paid_at = CASE WHEN COALESCE(paid_amount, 0) + $1 >= total_amount THEN NOW() ELSE paid_at END,
+           updated_at = NOW()
+       WHERE id = $2 AND tenant_id = $3 AND status = 'matched'
+         AND COALESCE(paid_amount, 0) + $1 <= total_amount
+       RETURNING *`,
+      [amount, invoiceId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Only matched invoices can be paid, up to the outstanding balance');
+    }
+    const invoice = result.rows[0];
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.INVOICE_PAYMENT,
+      entityType: 'supplier_invoice',
+      entityId: invoiceId,
+      afterData: { amount, paidAmount: invoice.paid_amount, status: invoice.status }
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Cancel an unpaid invoice
+   */
+  static async cancelInvoice(ctx: TenantContext, invoiceId: string) {
+    const result = await query(
+      `UPDATE supplier_invoices
+       SET status = 'cancelled', cancelled_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status IN ('pending', 'matched', 'variance')
+         AND COALESCE(paid_amount, 0) = 0
+       RETURNING *`,
+      [invoiceId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Only unpaid invoices can be cancelled');
+    }
+    const invoice = result.rows[0];
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CANCEL,
+      entityType: 'supplier_invoice',
+      entityId: invoiceId,
+      afterData: { invoiceNumber: invoice.invoice_number }
+    });
+
+    return invoice;
+  }
+}
+
+export default SupplierInvoiceService;
@@ -0,0 +1,305 @@
+import { query } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { AuditService } from './audit.service.js';
+
+export interface SupplierInput {
+  code?: string;
+  name?: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: Record<string, unknown>;
+  paymentTerms?: number;
+  leadTimeDays?: number;
+  taxId?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export interface SupplierScorecard {
+  supplierId: string;
+  code: string;
+  name: string;
+  leadTimeDays: number;
+  receiptCount: number;
+  onTimeCount: number;
+  onTimeRate: number | null;
+  avgLeadDays: number | null;
+  orderedQty: number;
+  filledQty: number;
+  fillRate: number | null;
+  costVariance: number;
+  costVariancePct: number | null;
+}
+
+interface ScorecardOptions {
+  supplierId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Supplier Service
+ *
+ * Supplier master data and performance scorecards built from PO and GRN history.
+ */
+export class SupplierService {
+  /**
+   * List suppliers with PO counts and open PO value
+   */
+  static async listSuppliers(tenantId: string, options: { search?: string; includeInactive?: boolean }) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT s.*,
+             (SELECT COUNT(*) FROM purchase_orders po WHERE po.supplier_id = s.id) as po_count,
+             (SELECT COALESCE(SUM(po.total_amount), 0) FROM purchase_orders po
+              WHERE po.supplier_id = s.id AND po.status IN ('approved', 'sent', 'partially_received')) as open_po_value
+      FROM suppliers s
+      WHERE s.tenant_id = $1`;
+
+    if (!options.includeInactive) {
+      sql += ` AND s.is_active = true`;
+    }
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      sql += ` AND (s.name ILIKE $${params.length} OR s.code ILIKE $${params.length} OR s.contact_name ILIKE $${params.length})`;
+    }
+    sql += ` ORDER BY s.name`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Performance scorecards
+   * On-time: GRN received by the PO expected date (or sent date + lead time).
+   * Fill rate: received vs ordered on POs that have been received against.
+   * Cost variance: GRN unit cost vs PO unit cost for the received quantity.
+   */
+  static async getScorecards(tenantId: string, options: ScorecardOptions = {}): Promise<SupplierScorecard[]> {
+    const params: unknown[] = [tenantId, options.from || null, options.to || null];
+    let supplierFilter = '';
+    if (options.supplierId) {
+      params.push(options.supplierId);
+      supplierFilter = `AND s.id = $${params.length}`;
+    }
+
+    const result = await query(`
+      WITH receipts AS (
+        SELECT g.supplier_id, g.id as grn_id, g.received_at, po.id as po_id,
+               COALESCE(po.expected_date, (COALESCE(po.sent_at, po.created_at)::date + s.lead_time_days)) as due_date,
+               GREATEST(g.received_at::date - COALESCE(po.sent_at, po.created_at)::date, 0) as lead_days
+        FROM grns g
+        JOIN purchase_orders po ON po.id = g.purchase_order_id
+        JOIN suppliers s ON s.id = g.supplier_id
+        WHERE g.tenant_id = $1 AND g.status = 'received'
+          AND ($2::date IS NULL OR g.received_at::date >= $2::date)
+          AND ($3::date IS NULL OR g.received_at::date <= $3::date)
+      ),
+      fills AS (
+        SELECT po.supplier_id,
+               SUM(pol.quantity) as ordered_qty,
+               SUM(LEAST(COALESCE(pol.received_qty, 0), pol.quantity)) as filled_qty
+        FROM purchase_orders po
+        JOIN purchase_order_lines pol ON pol.purchase_order_id = po.id
+        WHERE po.tenant_id = $1 AND po.status IN ('partially_received', 'received', 'closed')
+          AND ($2::date IS NULL OR po.po_date >= $2::date)
+          AND ($3::date IS NULL OR po.po_date <= $3::date)
+        GROUP BY po.supplier_id
+      ),
+      costs AS (
+        SELECT g.supplier_id,
+               SUM(gl.received_qty * pol.unit_cost) as po_cost,
+               SUM(gl.received_qty * (gl.unit_cost - pol.unit_cost)) as cost_variance
+        FROM grn_lines gl
+        JOIN grns g ON g.id = gl.grn_id
+        JOIN purchase_order_lines pol ON pol.id = gl.purchase_order_line_id
+        WHERE g.tenant_id = $1 AND g.status = 'received'
+          AND ($2::date IS NULL OR g.received_at::date >= $2::date)
+          AND ($3::date IS NULL OR g.received_at::date <= $3::date)
+        GROUP BY g.supplier_id
+      )
+      SELECT s.id as supplier_id, s.code, s.name, s.lead_time_days,
+             COUNT(DISTINCT r.grn_id) as receipt_count,
+             COUNT(DISTINCT r.grn_id) FILTER (WHERE r.received_at::date <= r.due_date) as on_time_count,
+             AVG(r.lead_days) as avg_lead_days,
+             COALESCE(f.ordered_qty, 0) as ordered_qty,
+             COALESCE(f.filled_qty, 0) as filled_qty,
+             COALESCE(c.po_cost, 0) as po_cost,
+             COALESCE(c.cost_variance, 0) as cost_variance
+      FROM suppliers s
+      LEFT JOIN receipts r ON r.supplier_id = s.id
+      LEFT JOIN fills f ON f.supplier_id = s.id
+      LEFT JOIN costs c ON c.supplier_id = s.id
+      WHERE s.tenant_id = $1 ${supplierFilter}
+      GROUP BY s.id, f.ordered_qty, f.filled_qty, c.po_cost, c.cost_variance
+      ORDER BY s.name
+    `, params);
+
+    return result.rows.map(row => {
+      const receiptCount = parseInt(row.receipt_count);
+      const onTimeCount = parseInt(row.on_time_count);
+      const orderedQty = parseFloat(row.ordered_qty);
+      const filledQty = parseFloat(row.filled_qty);
+      const poCost = parseFloat(row.po_cost);
+      const costVariance = parseFloat(row.cost_variance);
+      return {
+        supplierId: row.supplier_id,
+        code: row.code,
+        name: row.name,
+        leadTimeDays: row.lead_time_days,
+        receiptCount,
+        onTimeCount,
+        onTimeRate: receiptCount > 0 ? onTimeCount / receiptCount * 100 : null,
+        avgLeadDays: row.avg_lead_days !== null ? parseFloat(row.avg_lead_days) : null,
+        orderedQty,
+        filledQty,
+        fillRate: orderedQty > 0 ? filledQty / orderedQty * 100 : null,
+        costVariance,
+        costVariancePct: poCost > 0 ? costVariance / poCost * 100 : null
+      };
+    });
+  }
+
+  /**
+   * Supplier with its scorecard and latest purchase orders
+   */
+  static async getSupplier(tenantId: string, supplierId: string, options: { from?: string; to?: string } = {}) {
+    const result = await query(
+      'SELECT * FROM suppliers WHERE id = $1 AND tenant_id = $2',
+      [supplierId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Supplier not found');
+    }
+
+    const [scorecard] = await this.getScorecards(tenantId, { ...options, supplierId });
+
+    const ordersResult = await query(
+      `SELECT id, po_number, po_date, expected_date, status, total_amount
+       FROM purchase_orders
+       WHERE supplier_id = $1 AND tenant_id = $2
+       ORDER BY created_at DESC LIMIT 10`,
+      [supplierId, tenantId]
+    );
+
+    return { supplier: result.rows[0], scorecard, recentOrders: ordersResult.rows };
+  }
+
+  /**
+   * Create a supplier (codes are stored upper-case)
+   */
+  static async createSupplier(ctx: TenantContext, input: SupplierInput) {
+    const code = input.code?.trim().toUpperCase();
+    const name = input.name?.trim();
+    if (!code || !name) {
+      throw AppError.badRequest('Supplier code and name are required');
+    }
+
+    try {
+      const result = await query(
+        `INSERT INTO suppliers (
+          tenant_id, code, name, contact_name, email, phone, address, payment_terms, lead_time_days, tax_id, notes, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [ctx.tenantId, code, name, input.contactName || null, input.email || null, input.phone || null,
+         JSON.stringify(input.address || {}), input.paymentTerms ?? 30, input.leadTimeDays ?? 7,
+         input.taxId || null, input.notes || null, ctx.userId]
+      );
+      const supplier = result.rows[0];
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'supplier',
+        entityId: supplier.id,
+        afterData: supplier
+      });
+
+      return supplier;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A supplier with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a supplier
+   * Contact fields, tax ID and notes are always replaced; the rest keep their
+   * value when omitted
+   */
+  static async updateSupplier(ctx: TenantContext, supplierId: string, input: SupplierInput) {
+    const before = await query(
+      'SELECT * FROM suppliers WHERE id = $1 AND tenant_id = $2',
+      [supplierId, ctx.tenantId]
+    );
+    if (before.rows.length === 0) {
+      throw AppError.notFound('Supplier not found');
+    }
+
+    try {
+      const result = await query(
+        `UPDATE suppliers SET
+          code = COALESCE($1, code),
+          name = COALESCE($2, name),
+          contact_name = $3,
+          email = $4,
+          phone = $5,
+          address = COALESCE($6, address),
+          payment_terms = COALESCE($7, payment_terms),
+          lead_time_days = COALESCE($8, lead_time_days),
+          tax_id = $9,
+          notes = $10,
+          is_active = COALESCE($11, is_active),
+          updated_at = NOW()
+         WHERE id = $12 AND tenant_id = $13
+         RETURNING *`,
+        [input.code?.trim().toUpperCase() || null, input.name?.trim() || null,
+         input.contactName || null, input.email || null, input.phone || null,
+         input.address ? JSON.stringify(input.address) : null,
+         input.paymentTerms ?? null, input.leadTimeDays ?? null,
+         input.taxId || null, input.notes || null, input.isActive ?? null,
+         supplierId, ctx.tenantId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.UPDATE,
+        entityType: 'supplier',
+        entityId: supplierId,
+        beforeData: before.rows[0],
+        afterData: result.rows[0]
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A supplier with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a supplier (soft delete)
+   */
+  static async deactivateSupplier(ctx: TenantContext, supplierId: string): Promise<void> {
+    const result = await query(
+      `UPDATE suppliers SET is_active = false, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [supplierId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.notFound('Supplier not found');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.DEACTIVATE,
+      entityType: 'supplier',
+      entityId: supplierId
+    });
+  }
+}
+
+export default SupplierService;
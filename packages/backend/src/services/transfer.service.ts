@@ -0,0 +1,391 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext } from '../types/index.js';
+import { assertStoreAccess } from '../middleware/auth.js';
+import { AppError } from '../utils/errors.js';
+import { nextDailyNumber } from '../utils/numbering.js';
+import { AuditService } from './audit.service.js';
+import { InventoryService } from './inventory.service.js';
+
+export interface CreateTransferInput {
+  fromStoreId: string;
+  toStoreId: string;
+  items: Array<{ productId: string; quantity: number }>;
+  notes?: string;
+  dispatch?: boolean;
+}
+
+export interface ReceiveTransferLine {
+  lineId: string;
+  receivedQty?: number;
+  damagedQty?: number;
+  notes?: string;
+}
+
+/**
+ * Transfer Service
+ *
+ * Store-to-store transfers: draft -> in_transit (stock leaves the source) ->
+ * received (stock arrives at the destination), or cancelled.
+ */
+export class TransferService {
+  /**
+   * Load a transfer header with store names and its lines
+   */
+  static async getTransfer(tenantId: string, transferId: string, client?: PoolClient) {
+    const executeQuery = client ? client.query.bind(client) : query;
+    const transferResult = await executeQuery(
+      `SELECT t.*,
+              fs.name as from_store_name,
+              ts.name as to_store_name,
+              u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+              du.first_name || ' ' || COALESCE(du.last_name, '') as dispatched_by_name,
+              ru.first_name || ' ' || COALESCE(ru.last_name, '') as received_by_name
+       FROM transfers t
+       LEFT JOIN stores fs ON fs.id = t.from_store_id
+       LEFT JOIN stores ts ON ts.id = t.to_store_id
+       LEFT JOIN users u ON u.id = t.created_by
+       LEFT JOIN users du ON du.id = t.dispatched_by
+       LEFT JOIN users ru ON ru.id = t.received_by
+       WHERE t.id = $1 AND t.tenant_id = $2`,
+      [transferId, tenantId]
+    );
+
+    if (transferResult.rows.length === 0) {
+      return null;
+    }
+
+    const linesResult = await executeQuery(
+      `SELECT tl.*, p.name as product_name, p.sku
+       FROM transfer_lines tl
+       LEFT JOIN products p ON p.id = tl.product_id
+       WHERE tl.transfer_id = $1
+       ORDER BY tl.line_number`,
+      [transferId]
+    );
+
+    return { ...transferResult.rows[0], lines: linesResult.rows };
+  }
+
+  /**
+   * List transfers
+   * direction=incoming lists transfers arriving at storeId, outgoing those leaving it
+   */
+  static async listTransfers(
+    tenantId: string,
+    options: { storeId?: string; status?: string; direction?: string } = {}
+  ) {
+    const params: unknown[] = [tenantId];
+    let sql = `
+      SELECT t.*,
+             fs.name as from_store_name,
+             ts.name as to_store_name,
+             u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name,
+             (SELECT COUNT(*) FROM transfer_lines tl WHERE tl.transfer_id = t.id) as line_count,
+             (SELECT COALESCE(SUM(tl.quantity), 0) FROM transfer_lines tl WHERE tl.transfer_id = t.id) as total_quantity
+      FROM transfers t
+      LEFT JOIN stores fs ON fs.id = t.from_store_id
+      LEFT JOIN stores ts ON ts.id = t.to_store_id
+      LEFT JOIN users u ON u.id = t.created_by
+      WHERE t.tenant_id = $1`;
+
+    if (options.storeId) {
+      params.push(options.storeId);
+      if (options.direction === 'incoming') {
+        sql += ` AND t.to_store_id = $${params.length}`;
+      } else if (options.direction === 'outgoing') {
+        sql += ` AND t.from_store_id = $${params.length}`;
+      } else {
+        sql += ` AND (t.from_store_id = $${params.length} OR t.to_store_id = $${params.length})`;
+      }
+    }
+
+    if (options.status) {
+      params.push(options.status);
+      sql += ` AND t.status = $${params.length}`;
+    }
+
+    sql += ` ORDER BY t.created_at DESC LIMIT 200`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Create a draft transfer, optionally dispatched straight away
+   */
+  static async createTransfer(ctx: TenantContext, input: CreateTransferInput) {
+    if (input.fromStoreId === input.toStoreId) {
+      throw AppError.badRequest('Source and destination stores must be different');
+    }
+
+    const transferId = await withTransaction(async (client) => {
+      const transferNumber = await nextDailyNumber(client, 'transfers', 'TRF', ctx.tenantId);
+
+      const transferResult = await client.query(
+        `INSERT INTO transfers (tenant_id, from_store_id, to_store_id, transfer_number, status, notes, created_by)
+         VALUES ($1, $2, $3, $4, 'draft', $5, $6)
+         RETURNING *`,
+        [ctx.tenantId, input.fromStoreId, input.toStoreId, transferNumber, input.notes || null, ctx.userId]
+      );
+      const transfer = transferResult.rows[0];
+
+      let lineNumber = 1;
+      for (const item of input.items) {
+        const productResult = await client.query(
+          'SELECT cost_price FROM products WHERE id = $1 AND tenant_id = $2',
+          [item.productId, ctx.tenantId]
+        );
+        if (productResult.rows.length === 0) {
+          throw AppError.notFound('Product not found');
+        }
+        await client.query(
+          `INSERT INTO transfer_lines (tenant_id, transfer_id, line_number, product_id, quantity, cost_price)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [ctx.tenantId, transfer.id, lineNumber++, item.productId, item.quantity,
+           productResult.rows[0].cost_price || 0]
+        );
+      }
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'transfer',
+        entityId: transfer.id,
+        storeId: input.fromStoreId,
+        afterData: { transferNumber, toStoreId: input.toStoreId, itemCount: input.items.length }
+      }, client);
+
+      if (input.dispatch) {
+        await this.dispatchInTransaction(ctx, transfer.id, client);
+      }
+
+      return transfer.id as string;
+    });
+
+    return this.getTransfer(ctx.tenantId, transferId);
+  }
+
+  /**
+   * Dispatch a draft transfer
+   */
+  static async dispatchTransfer(ctx: TenantContext, transferId: string) {
+    await withTransaction(client => this.dispatchInTransaction(ctx, transferId, client));
+    return this.getTransfer(ctx.tenantId, transferId);
+  }
+
+  // Stock leaves the source store now and is held against the transfer
+  // until the destination confirms receipt
+  private static async dispatchInTransaction(ctx: TenantContext, transferId: string, client: PoolClient) {
+    const transferResult = await client.query(
+      'SELECT * FROM transfers WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+      [transferId, ctx.tenantId]
+    );
+    const transfer = transferResult.rows[0];
+    if (!transfer) {
+      throw AppError.notFound('Transfer not found');
+    }
+    if (transfer.status !== 'draft') {
+      throw AppError.badRequest(`Cannot dispatch a transfer in status ${transfer.status}`);
+    }
+    await assertStoreAccess(ctx, transfer.from_store_id);
+
+    const linesResult = await client.query(
+      `SELECT tl.*, p.name as product_name
+       FROM transfer_lines tl
+       LEFT JOIN products p ON p.id = tl.product_id
+       WHERE tl.transfer_id = $1
+       ORDER BY tl.line_number`,
+      [transferId]
+    );
+
+    for (const line of linesResult.rows) {
+      const quantity = parseFloat(line.quantity);
+      const sourceQty = await InventoryService.getQuantity(ctx.tenantId, transfer.from_store_id, line.product_id, client);
+
+      if (quantity > sourceQty) {
+        throw AppError.badRequest(
+          `Insufficient stock for ${line.product_name || 'product'}: available ${sourceQty}, requested ${quantity}`
+        );
+      }
+
+      await InventoryService.recordMovement(ctx, transfer.from_store_id, {
+        productId: line.product_id,
+        quantity: -quantity,
+        referenceType: 'transfer_out',
+        referenceId: transfer.id,
+        referenceLineId: line.id,
+        notes: `Transfer ${transfer.transfer_number} dispatched`
+      }, client);
+    }
+
+    await client.query(
+      `UPDATE transfers
+       SET status = 'in_transit', dispatched_at = NOW(), dispatched_by = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [ctx.userId, transferId]
+    );
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.TRANSFER_DISPATCHED,
+      entityType: 'transfer',
+      entityId: transferId,
+      storeId: transfer.from_store_id,
+      afterData: { transferNumber: transfer.transfer_number, lineCount: linesResult.rows.length }
+    }, client);
+  }
+
+  /**
+   * Receive an in-transit transfer at the destination store
+   * The dispatched quantity is booked in as transfer_in, then any short, over or
+   * damaged variance is posted as a separate transfer_in movement so the ledger
+   * shows what was sent versus what actually arrived
+   */
+  static async receiveTransfer(
+    ctx: TenantContext,
+    transferId: string,
+    lines: ReceiveTransferLine[],
+    notes?: string
+  ) {
+    const variances = await withTransaction(async (client) => {
+      const transferResult = await client.query(
+        'SELECT * FROM transfers WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [transferId, ctx.tenantId]
+      );
+      const transfer = transferResult.rows[0];
+      if (!transfer) {
+        throw AppError.notFound('Transfer not found');
+      }
+      if (!['dispatched', 'in_transit'].includes(transfer.status)) {
+        throw AppError.badRequest(`Cannot receive a transfer in status ${transfer.status}`);
+      }
+      // Only the destination store can confirm what arrived
+      await assertStoreAccess(ctx, transfer.to_store_id);
+
+      const linesResult = await client.query(
+        'SELECT * FROM transfer_lines WHERE transfer_id = $1 ORDER BY line_number',
+        [transferId]
+      );
+
+      const found: Array<{ lineId: string; productId: string; shortQty: number; overQty: number; damagedQty: number }> = [];
+
+      for (const line of linesResult.rows) {
+        const input = lines.find(l => l.lineId === line.id);
+        const dispatchedQty = parseFloat(line.quantity);
+        // Lines not confirmed explicitly, or sent without a received quantity, are
+        // treated as received in full (less anything reported damaged)
+        const damagedQty = input ? Math.max(0, input.damagedQty || 0) : 0;
+        const receivedQty = input?.receivedQty !== undefined
+          ? Math.max(0, input.receivedQty)
+          : Math.max(0, dispatchedQty - damagedQty);
+        const arrivedQty = receivedQty + damagedQty;
+        const shortQty = Math.max(0, dispatchedQty - arrivedQty);
+        const overQty = Math.max(0, arrivedQty - dispatchedQty);
+
+        const movements: Array<[number, string]> = [
+          [dispatchedQty, 'received'],
+          [-shortQty, 'variance: short'],
+          [overQty, 'variance: over'],
+          [-damagedQty, 'variance: damaged']
+        ];
+        for (const [quantity, label] of movements) {
+          if (quantity === 0) continue;
+          await InventoryService.recordMovement(ctx, transfer.to_store_id, {
+            productId: line.product_id,
+            quantity,
+            referenceType: 'transfer_in',
+            referenceId: transfer.id,
+            referenceLineId: line.id,
+            notes: `Transfer ${transfer.transfer_number} ${label}`
+          }, client);
+        }
+
+        await client.query(
+          `UPDATE transfer_lines
+           SET received_qty = $1, damaged_qty = $2, short_qty = $3, over_qty = $4, receive_notes = $5
+           WHERE id = $6`,
+          [receivedQty, damagedQty, shortQty, overQty, input?.notes || null, line.id]
+        );
+
+        if (shortQty > 0 || overQty > 0 || damagedQty > 0) {
+          found.push({ lineId: line.id, productId: line.product_id, shortQty, overQty, damagedQty });
+        }
+      }
+
+      await client.query(
+        `UPDATE transfers
+         SET status = 'received', received_at = NOW(), received_by = $1,
+             notes = COALESCE($2, notes), updated_at = NOW()
+         WHERE id = $3`,
+        [ctx.userId, notes || null, transferId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.TRANSFER_RECEIVED,
+        entityType: 'transfer',
+        entityId: transferId,
+        storeId: transfer.to_store_id,
+        afterData: { transferNumber: transfer.transfer_number, variances: found }
+      }, client);
+
+      return found;
+    });
+
+    return { transfer: await this.getTransfer(ctx.tenantId, transferId), variances };
+  }
+
+  /**
+   * Cancel a draft or in-transit transfer
+   * In-transit stock is returned to the source store
+   */
+  static async cancelTransfer(ctx: TenantContext, transferId: string, reason?: string): Promise<void> {
+    await withTransaction(async (client) => {
+      const transferResult = await client.query(
+        'SELECT * FROM transfers WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [transferId, ctx.tenantId]
+      );
+      const transfer = transferResult.rows[0];
+      if (!transfer) {
+        throw AppError.notFound('Transfer not found');
+      }
+      if (!['draft', 'dispatched', 'in_transit'].includes(transfer.status)) {
+        throw AppError.badRequest(`Cannot cancel a transfer in status ${transfer.status}`);
+      }
+      await assertStoreAccess(ctx, transfer.from_store_id);
+
+      if (transfer.status !== 'draft') {
+        const linesResult = await client.query(
+          'SELECT * FROM transfer_lines WHERE transfer_id = $1 ORDER BY line_number',
+          [transferId]
+        );
+        for (const line of linesResult.rows) {
+          await InventoryService.recordMovement(ctx, transfer.from_store_id, {
+            productId: line.product_id,
+            quantity: parseFloat(line.quantity),
+            referenceType: 'transfer_in',
+            referenceId: transfer.id,
+            referenceLineId: line.id,
+            notes: `Transfer ${transfer.transfer_number} cancelled - returned to source`
+          }, client);
+        }
+      }
+
+      await client.query(
+        `UPDATE transfers
+         SET status = 'cancelled', cancelled_at = NOW(), cancelled_by = $1, updated_at = NOW()
+         WHERE id = $2`,
+        [ctx.userId, transferId]
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CANCEL,
+        entityType: 'transfer',
+        entityId: transferId,
+        storeId: transfer.from_store_id,
+        beforeData: { status: transfer.status },
+        afterData: { status: 'cancelled', reason: reason || null }
+      }, client);
+    });
+  }
+}
+
+export default TransferService;
@@ -0,0 +1,429 @@
+import { PoolClient } from 'pg';
+import { randomBytes } from 'crypto';
+import { query, withTransaction } from '../database/pool.js';
+import { TenantContext, Payment } from '../types/index.js';
+import { AppError, isUniqueViolation } from '../utils/errors.js';
+import { roundMoney } from '../utils/money.js';
+import { parseDateToCairoEnd } from '../utils/dates.js';
+import { AuditService } from './audit.service.js';
+import { CustomerSegmentService } from './customer-segment.service.js';
+
+export type VoucherType = 'fixed' | 'percent';
+
+export interface VoucherInput {
+  code?: string;
+  type: VoucherType;
+  value: number;
+  maxDiscount?: number;
+  minPurchase?: number;
+  customerId?: string;
+  usageLimit?: number;
+  // Last day the voucher can be used, YYYY-MM-DD (Cairo)
+  expiresAt?: string;
+  batchName?: string;
+}
+
+export interface VoucherBatchInput extends Omit<VoucherInput, 'code'> {
+  count: number;
+  prefix?: string;
+}
+
+export interface VoucherSegmentInput extends Omit<VoucherInput, 'code' | 'customerId'> {
+  segmentId: string;
+  prefix?: string;
+}
+
+interface VoucherRow {
+  id: string;
+  code: string;
+  type: VoucherType;
+  value: string;
+  max_discount: string | null;
+  min_purchase: string | null;
+  customer_id: string | null;
+  usage_limit: number | null;
+  usage_count: number;
+  expires_at: Date | null;
+  status: string;
+}
+
+// No 0/O or 1/I so codes read back correctly over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+// Largest segment a single voucher run will issue to
+const MAX_SEGMENT_VOUCHERS = 2000;
+
+/**
+ * Voucher Service
+ *
+ * Vouchers are single or batch-generated codes redeemed as a POS payment.
+ * A batch can also be issued to a customer segment, one voucher per customer.
+ * Redemptions are counted inside the sale transaction and given back when
+ * the receipt is fully refunded.
+ */
+export class VoucherService {
+  /**
+   * List vouchers; active vouchers past their expiry are reported as expired
+   */
+  static async listVouchers(
+    tenantId: string,
+    options: { status?: string; search?: string; customerId?: string; batchName?: string } = {}
+  ) {
+    const params: unknown[] = [tenantId];
+    let where = 'v.tenant_id = $1';
+    if (options.search) {
+      params.push(`%${options.search.toUpperCase()}%`);
+      where += ` AND v.code LIKE $${params.length}`;
+    }
+    if (options.customerId) {
+      params.push(options.customerId);
+      where += ` AND v.customer_id = $${params.length}`;
+    }
+    if (options.batchName) {
+      params.push(options.batchName);
+      where += ` AND v.batch_name = $${params.length}`;
+    }
+
+    // Status is derived in the inner query, so it is filtered outside it
+    let statusFilter = '';
+    if (options.status && options.status !== 'all') {
+      params.push(options.status);
+      statusFilter = `WHERE v.status = $${params.length}`;
+    }
+
+    const result = await query(
+      `SELECT * FROM (
+         SELECT v.id, v.code, v.type, v.value, v.max_discount, v.min_purchase, v.customer_id,
+                v.usage_limit, v.usage_count, v.expires_at, v.batch_name, v.created_at,
+                CASE WHEN v.status = 'active' AND v.expires_at < NOW() THEN 'expired' ELSE v.status END as status,
+                c.first_name || ' ' || COALESCE(c.last_name, '') as customer_name
+         FROM vouchers v
+         LEFT JOIN customers c ON v.customer_id = c.id
+         WHERE ${where}
+       ) v
+       ${statusFilter}
+       ORDER BY v.created_at DESC
+       LIMIT 500`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Create a voucher; a code is generated when none is given
+   */
+  static async createVoucher(ctx: TenantContext, input: VoucherInput) {
+    this.validateInput(input);
+    await this.assertCustomer(ctx.tenantId, input.customerId);
+
+    try {
+      const voucher = await withTransaction(client =>
+        this.insertVoucher(client, ctx, input.code?.trim().toUpperCase() || this.generateCode(), input)
+      );
+
+      await AuditService.log(ctx, {
+        action: AuditService.ACTIONS.CREATE,
+        entityType: 'voucher',
+        entityId: voucher.id,
+        afterData: voucher
+      });
+
+      return voucher;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw AppError.badRequest('A voucher with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a batch of vouchers with the same terms and unique random codes
+   */
+  static async generateVouchers(ctx: TenantContext, input: VoucherBatchInput) {
+    this.validateInput(input);
+    await this.assertCustomer(ctx.tenantId, input.customerId);
+    const prefix = input.prefix?.trim().toUpperCase() || '';
+
+    const vouchers = await withTransaction(async (client) => {
+      const created: Array<Record<string, unknown>> = [];
+      let attempts = 0;
+      while (created.length < input.count) {
+        if (++attempts > input.count * 3) {
+          throw AppError.badRequest('Could not generate enough unique codes; try a different prefix');
+        }
+        const voucher = await this.insertVoucher(client, ctx, prefix + this.generateCode(), input, true);
+        if (voucher) created.push(voucher);
+      }
+      return created;
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CREATE,
+      entityType: 'voucher_batch',
+      afterData: { batchName: input.batchName, count: vouchers.length, type: input.type, value: input.value }
+    });
+
+    return vouchers;
+  }
+
+  /**
+   * Issue one voucher to every customer in a segment, each bound to its customer
+   * The batch is named after the segment unless a batch name is given.
+   */
+  static async generateForSegment(ctx: TenantContext, input: VoucherSegmentInput) {
+    this.validateInput(input);
+    const { segment, members } = await CustomerSegmentService.getMembers(ctx.tenantId, input.segmentId);
+    if (members.length === 0) {
+      throw AppError.badRequest('This segment has no customers');
+    }
+    if (members.length > MAX_SEGMENT_VOUCHERS) {
+      throw AppError.badRequest(`Vouchers can be issued to at most ${MAX_SEGMENT_VOUCHERS} customers at a time`);
+    }
+    const prefix = input.prefix?.trim().toUpperCase() || '';
+    const terms: VoucherInput = { ...input, batchName: input.batchName || segment.name };
+
+    const vouchers = await withTransaction(async (client) => {
+      const created: Array<Record<string, unknown>> = [];
+      for (const member of members) {
+        let voucher;
+        for (let attempt = 0; !voucher; attempt++) {
+          if (attempt >= 3) {
+            throw AppError.badRequest('Could not generate enough unique codes; try a different prefix');
+          }
+          voucher = await this.insertVoucher(
+            client, ctx, prefix + this.generateCode(), { ...terms, customerId: member.id }, true
+          );
+        }
+        created.push(voucher);
+      }
+      return created;
+    });
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CREATE,
+      entityType: 'voucher_batch',
+      afterData: {
+        batchName: terms.batchName, segmentId: segment.id, count: vouchers.length, type: input.type, value: input.value
+      }
+    });
+
+    return vouchers;
+  }
+
+  /**
+   * Cancel an active voucher so it can no longer be redeemed
+   */
+  static async cancelVoucher(ctx: TenantContext, voucherId: string) {
+    const result = await query(
+      `UPDATE vouchers SET status = 'cancelled', updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status = 'active'
+       RETURNING *`,
+      [voucherId, ctx.tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Voucher not found or no longer active');
+    }
+
+    await AuditService.log(ctx, {
+      action: AuditService.ACTIONS.CANCEL,
+      entityType: 'voucher',
+      entityId: voucherId,
+      afterData: { code: result.rows[0].code }
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Check a code at the register: the amount it can pay towards the sale
+   */
+  static async checkVoucher(tenantId: string, code: string, amountDue: number, customerId?: string) {
+    const result = await query<VoucherRow>(
+      `SELECT * FROM vouchers WHERE tenant_id = $1 AND code = $2`,
+      [tenantId, code.trim().toUpperCase()]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Invalid voucher code');
+    }
+
+    const voucher = result.rows[0];
+    return {
+      voucherId: voucher.id,
+      code: voucher.code,
+      type: voucher.type,
+      value: parseFloat(voucher.value),
+      amount: this.redeemableAmount(voucher, amountDue, customerId),
+      remainingUses: voucher.usage_limit ? voucher.usage_limit - voucher.usage_count : null
+    };
+  }
+
+  /**
+   * Redeem the sale's voucher payments
+   * Runs in the sale transaction; each voucher row is locked so two registers
+   * cannot spend the same last use.
+   */
+  static async redeem(
+    client: PoolClient,
+    ctx: TenantContext,
+    receiptId: string,
+    payments: Payment[],
+    totalAmount: number,
+    customerId?: string
+  ): Promise<void> {
+    // Vouchers together cannot pay more than the sale total
+    let remaining = totalAmount;
+    for (const payment of payments.filter(p => p.method === 'voucher')) {
+      if (!payment.voucherId) {
+        throw AppError.badRequest('Voucher payment is missing its voucher');
+      }
+
+      const result = await client.query<VoucherRow>(
+        `SELECT * FROM vouchers WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+        [payment.voucherId, ctx.tenantId]
+      );
+      if (result.rows.length === 0) {
+        throw AppError.badRequest('Invalid voucher code');
+      }
+
+      const voucher = result.rows[0];
+      const allowed = Math.min(this.redeemableAmount(voucher, totalAmount, customerId), roundMoney(remaining));
+      if (roundMoney(payment.amount) > allowed) {
+        throw AppError.badRequest(`Voucher ${voucher.code} covers at most ${allowed.toFixed(2)}`);
+      }
+      remaining -= payment.amount;
+
+      await client.query(
+        `UPDATE vouchers SET
+          usage_count = usage_count + 1,
+          status = CASE WHEN usage_limit IS NOT NULL AND usage_count + 1 >= usage_limit THEN 'used' ELSE status END,
+          updated_at = NOW()
+         WHERE id = $1`,
+        [voucher.id]
+      );
+      await client.query(
+        `INSERT INTO voucher_redemptions (tenant_id, voucher_id, receipt_id, amount, created_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [ctx.tenantId, voucher.id, receiptId, payment.amount, ctx.userId]
+      );
+    }
+  }
+
+  /**
+   * Give back the vouchers redeemed on a receipt
+   * Returns the reinstated amounts as voucher payments for the refund receipt.
+   */
+  static async reverseRedemptions(
+    client: PoolClient,
+    tenantId: string,
+    receiptId: string,
+    refundReceiptId: string
+  ): Promise<Payment[]> {
+    const result = await client.query<{ voucher_id: string; amount: string }>(
+      `UPDATE voucher_redemptions SET reversed_at = NOW(), reversal_receipt_id = $3
+       WHERE tenant_id = $1 AND receipt_id = $2 AND reversed_at IS NULL
+       RETURNING voucher_id, amount`,
+      [tenantId, receiptId, refundReceiptId]
+    );
+
+    const payments: Payment[] = [];
+    for (const redemption of result.rows) {
+      const voucher = await client.query<{ code: string }>(
+        `UPDATE vouchers SET
+          usage_count = GREATEST(usage_count - 1, 0),
+          status = CASE WHEN status = 'used' THEN 'active' ELSE status END,
+          updated_at = NOW()
+         WHERE id = $1
+         RETURNING code`,
+        [redemption.voucher_id]
+      );
+      payments.push({
+        method: 'voucher',
+        amount: parseFloat(redemption.amount),
+        voucherId: redemption.voucher_id,
+        reference: voucher.rows[0]?.code
+      });
+    }
+    return payments;
+  }
+
+  /**
+   * Amount a voucher can pay towards a total, or why it cannot be used
+   */
+  private static redeemableAmount(voucher: VoucherRow, amountDue: number, customerId?: string): number {
+    if (voucher.status !== 'active') {
+      throw AppError.badRequest(`Voucher is ${voucher.status}`);
+    }
+    if (voucher.expires_at && new Date(voucher.expires_at) < new Date()) {
+      throw AppError.badRequest('Voucher has expired');
+    }
+    if (voucher.usage_limit && voucher.usage_count >= voucher.usage_limit) {
+      throw AppError.badRequest('Voucher has already been used');
+    }
+    if (voucher.customer_id && voucher.customer_id !== customerId) {
+      throw AppError.badRequest('Voucher belongs to another customer');
+    }
+    const minPurchase = parseFloat(voucher.min_purchase || '0');
+    if (minPurchase > 0 && amountDue < minPurchase) {
+      throw AppError.badRequest(`Minimum purchase of ${minPurchase.toFixed(2)} required`);
+    }
+
+    let amount = voucher.type === 'percent'
+      ? amountDue * parseFloat(voucher.value) / 100
+      : parseFloat(voucher.value);
+    if (voucher.max_discount) {
+      amount = Math.min(amount, parseFloat(voucher.max_discount));
+    }
+    return roundMoney(Math.max(0, Math.min(amount, amountDue)));
+  }
+
+  private static async insertVoucher(
+    client: PoolClient,
+    ctx: TenantContext,
+    code: string,
+    input: VoucherInput,
+    skipDuplicate = false
+  ) {
+    const result = await client.query(
+      `INSERT INTO vouchers (
+        tenant_id, code, type, value, max_discount, min_purchase, customer_id,
+        usage_limit, expires_at, batch_name, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ${skipDuplicate ? 'ON CONFLICT (tenant_id, code) DO NOTHING' : ''}
+      RETURNING *`,
+      [
+        ctx.tenantId, code, input.type, input.value, input.maxDiscount ?? null, input.minPurchase ?? null,
+        input.customerId || null, input.usageLimit ?? 1, input.expiresAt ? parseDateToCairoEnd(input.expiresAt) : null, input.batchName || null,
+        ctx.userId
+      ]
+    );
+    return result.rows[0];
+  }
+
+  private static generateCode(): string {
+    const bytes = randomBytes(CODE_LENGTH);
+    return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  }
+
+  private static validateInput(input: VoucherInput): void {
+    if (input.type === 'percent' && input.value > 100) {
+      throw AppError.badRequest('A percentage voucher cannot exceed 100%');
+    }
+    if (input.expiresAt && parseDateToCairoEnd(input.expiresAt) < new Date()) {
+      throw AppError.badRequest('Expiry must be in the future');
+    }
+  }
+
+  private static async assertCustomer(tenantId: string, customerId?: string): Promise<void> {
+    if (!customerId) return;
+    const result = await query(
+      `SELECT 1 FROM customers WHERE id = $1 AND tenant_id = $2`,
+      [customerId, tenantId]
+    );
+    if (result.rows.length === 0) {
+      throw AppError.badRequest('Customer not found');
+    }
+  }
+}
+
+export default VoucherService;
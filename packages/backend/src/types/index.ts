@@ -3,6 +3,8 @@
 export interface TenantContext {
   tenantId: string;
   userId: string;
+  email?: string;
+  isSuperAdmin?: boolean;
   storeId?: string;
   permissions: string[];
 }
@@ -64,6 +66,23 @@ export interface Store {
   email?: string;
   timezone?: string;
   settings: Record<string, unknown>;
+  // Cash in a till above this prompts a drop to the safe
+  drawerLimit?: number;
+  safeBalance: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Register {
+  id: string;
+  tenantId: string;
+  storeId: string;
+  name: string;
+  // The browser bound to this register, by the device key it keeps
+  deviceKey?: string;
+  deviceName?: string;
+  deviceBoundAt?: Date;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -214,10 +233,16 @@ export interface Customer {
   updatedAt: Date;
 }
 
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
 export interface Shift {
   id: string;
   tenantId: string;
   storeId: string;
+  // Opened the shift; the cashiers sharing its drawer are in shift_cashiers
   cashierId: string;
   registerId?: string;
   shiftNumber?: string;
@@ -231,7 +256,15 @@ export interface Shift {
   totalRefunds: number;
   totalCashPayments: number;
   totalCardPayments: number;
+  // Net takings per payment method (sales less refunds, cash net of change), kept at close
+  tenderTotals: Partial<Record<PaymentMethod, number>>;
   transactionCount: number;
+  totalVoids: number;
+  voidCount: number;
+  // Drawer count by denomination at close; blind closes hid the expected cash from the cashier
+  cashCount?: DenominationCount[];
+  blindClose: boolean;
+  varianceApprovedBy?: string;
   notes?: string;
   status: 'open' | 'closed';
   createdAt: Date;
@@ -261,10 +294,15 @@ export interface SalesReceipt {
   loyaltyPointsEarned: number;
   loyaltyPointsRedeemed: number;
   originalReceiptId?: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidApprovedBy?: string;
+  voidReason?: string;
   notes?: string;
   idempotencyKey?: string;
   offlineCreated: boolean;
   syncedAt?: Date;
+  clientCreatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -289,13 +327,15 @@ export interface SalesLine {
   lineTotal: number;
   costPrice: number;
   promotionId?: string;
+  originalLineId?: string;
   notes?: string;
   createdAt: Date;
 }
 
 export interface DiscountDetail {
-  type: 'line' | 'cart' | 'coupon' | 'loyalty';
+  type: 'line' | 'cart' | 'coupon' | 'loyalty' | 'promotion';
   code?: string;
+  promotionId?: string;
   description: string;
   amount: number;
 }
@@ -307,12 +347,29 @@ export interface TaxDetail {
   amount: number;
 }
 
+export type PaymentMethod =
+  | 'cash'
+  | 'card'
+  | 'instapay'
+  | 'vodafone_cash'
+  | 'etisalat_cash'
+  | 'orange_cash'
+  | 'wallet'
+  | 'bank_transfer'
+  | 'voucher'
+  | 'loyalty'
+  | 'gift_card';
+
 export interface Payment {
-  method: 'cash' | 'card' | 'voucher' | 'loyalty';
+  method: PaymentMethod;
   amount: number;
   reference?: string;
   cardLast4?: string;
+  // Card payments taken on the terminal
+  authCode?: string;
+  terminalTransactionId?: string;
   voucherId?: string;
+  giftCardId?: string;
 }
 
 export interface StockLedgerEntry {
@@ -337,13 +394,14 @@ export interface StockLedgerEntry {
 }
 
 export type StockReferenceType = 
-  | 'SALE' 
-  | 'RETURN' 
-  | 'GRN' 
-  | 'TRANSFER_OUT' 
-  | 'TRANSFER_IN' 
-  | 'ADJUSTMENT' 
-  | 'STOCK_COUNT';
+  | 'sale' 
+  | 'return' 
+  | 'receive' 
+  | 'transfer_out' 
+  | 'transfer_in' 
+  | 'adjustment' 
+  | 'stock_count'
+  | 'void';
 
 export interface StockOnHand {
   id: string;
@@ -495,6 +553,7 @@ export interface Promotion {
   usageCount: number;
   isCombinable: boolean;
   isActive: boolean;
+  customerSegmentId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -522,6 +581,7 @@ export const PERMISSIONS = {
   POS_VOID: 'POS_VOID',
   POS_DISCOUNT: 'POS_DISCOUNT',
   POS_PARK: 'POS_PARK',
+  POS_CASH_UP: 'POS_CASH_UP',
   
   // Inventory
   INVENTORY_VIEW: 'INVENTORY_VIEW',
@@ -566,6 +626,78 @@ export const PERMISSIONS = {
 
 export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
 
+// Display names for the roles permission matrix
+export const PERMISSION_LABELS: Record<Permission, { name: string; description: string }> = {
+  POS_SALE: { name: 'Sell', description: 'Ring up sales, open and close shifts' },
+  POS_REFUND: { name: 'Refund', description: 'Refund completed sales' },
+  POS_VOID: { name: 'Void & sync review', description: 'Void sales and resolve offline sync conflicts' },
+  POS_DISCOUNT: { name: 'Discount', description: 'Apply manual discounts at the till' },
+  POS_PARK: { name: 'Park & recall', description: 'Park sales and recall them later' },
+  POS_CASH_UP: { name: 'Cash-up approval', description: 'See expected cash on blind closes and sign off cash variances' },
+  INVENTORY_VIEW: { name: 'View stock', description: 'Stock on hand, ledger, transfers and counts' },
+  INVENTORY_ADJUST: { name: 'Adjust stock', description: 'Post adjustments and stock count variances' },
+  INVENTORY_TRANSFER: { name: 'Transfers', description: 'Create, dispatch and receive store transfers' },
+  INVENTORY_COUNT: { name: 'Stock counts', description: 'Create stock counts and enter counted quantities' },
+  INVENTORY_GRN: { name: 'Receive goods', description: 'Receive deliveries into stock' },
+  PURCHASING_VIEW: { name: 'View purchasing', description: 'Purchase orders, supplier invoices and payables' },
+  PURCHASING_PO: { name: 'Purchase orders', description: 'Raise, approve and receive purchase orders; enter invoices' },
+  PURCHASING_SUPPLIER: { name: 'Suppliers', description: 'Create and maintain suppliers' },
+  PRICING_VIEW: { name: 'View pricing', description: 'Price lists and promotions' },
+  PRICING_EDIT: { name: 'Edit prices', description: 'Change prices and price lists' },
+  PRICING_PROMO: { name: 'Promotions', description: 'Create and end promotions' },
+  MASTER_VIEW: { name: 'View catalog', description: 'Products, categories and brands' },
+  MASTER_PRODUCT: { name: 'Edit products', description: 'Create and modify products and barcodes' },
+  MASTER_CATEGORY: { name: 'Edit categories', description: 'Create and modify categories and brands' },
+  CUSTOMER_VIEW: { name: 'View customers', description: 'Customer list and history' },
+  CUSTOMER_EDIT: { name: 'Edit customers', description: 'Create and modify customers' },
+  CUSTOMER_LOYALTY: { name: 'Loyalty', description: 'Adjust loyalty points' },
+  REPORTS_VIEW: { name: 'Dashboard', description: 'Dashboard and general reports' },
+  REPORTS_SALES: { name: 'Sales reports', description: 'Sales, receipt and customer reports' },
+  REPORTS_INVENTORY: { name: 'Inventory reports', description: 'Inventory valuation and stock forecasts' },
+  REPORTS_FINANCIAL: { name: 'Financial reports', description: 'Profit and payables' },
+  ADMIN_USERS: { name: 'Users', description: 'Manage user accounts' },
+  ADMIN_ROLES: { name: 'Roles', description: 'Edit role permissions' },
+  ADMIN_STORES: { name: 'Stores', description: 'Manage stores; access every store' },
+  ADMIN_SETTINGS: { name: 'Settings', description: 'Configure tenant settings' },
+  ADMIN_AUDIT: { name: 'Audit log', description: 'View the audit log' },
+};
+
+// Permission catalogue grouped by area, in the order the role editor shows it
+export const PERMISSION_GROUPS: { name: string; permissions: Permission[] }[] = [
+  { name: 'POS', permissions: [PERMISSIONS.POS_SALE, PERMISSIONS.POS_REFUND, PERMISSIONS.POS_VOID, PERMISSIONS.POS_DISCOUNT, PERMISSIONS.POS_PARK, PERMISSIONS.POS_CASH_UP] },
+  { name: 'Inventory', permissions: [PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_ADJUST, PERMISSIONS.INVENTORY_TRANSFER, PERMISSIONS.INVENTORY_COUNT, PERMISSIONS.INVENTORY_GRN] },
+  { name: 'Purchasing', permissions: [PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO, PERMISSIONS.PURCHASING_SUPPLIER] },
+  { name: 'Pricing', permissions: [PERMISSIONS.PRICING_VIEW, PERMISSIONS.PRICING_EDIT, PERMISSIONS.PRICING_PROMO] },
+  { name: 'Master', permissions: [PERMISSIONS.MASTER_VIEW, PERMISSIONS.MASTER_PRODUCT, PERMISSIONS.MASTER_CATEGORY] },
+  { name: 'Customers', permissions: [PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.CUSTOMER_EDIT, PERMISSIONS.CUSTOMER_LOYALTY] },
+  { name: 'Reports', permissions: [PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES, PERMISSIONS.REPORTS_INVENTORY, PERMISSIONS.REPORTS_FINANCIAL] },
+  { name: 'Admin', permissions: [PERMISSIONS.ADMIN_USERS, PERMISSIONS.ADMIN_ROLES, PERMISSIONS.ADMIN_STORES, PERMISSIONS.ADMIN_SETTINGS, PERMISSIONS.ADMIN_AUDIT] },
+];
+
+// Permissions for the predefined roles offered when creating users
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['*'],
+  manager: [
+    PERMISSIONS.POS_SALE, PERMISSIONS.POS_REFUND, PERMISSIONS.POS_VOID, PERMISSIONS.POS_DISCOUNT, PERMISSIONS.POS_PARK,
+    PERMISSIONS.POS_CASH_UP,
+    PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_ADJUST, PERMISSIONS.INVENTORY_TRANSFER,
+    PERMISSIONS.INVENTORY_COUNT, PERMISSIONS.INVENTORY_GRN,
+    PERMISSIONS.PURCHASING_VIEW, PERMISSIONS.PURCHASING_PO,
+    PERMISSIONS.MASTER_VIEW, PERMISSIONS.MASTER_PRODUCT, PERMISSIONS.MASTER_CATEGORY,
+    PERMISSIONS.CUSTOMER_VIEW, PERMISSIONS.CUSTOMER_EDIT,
+    PERMISSIONS.REPORTS_VIEW, PERMISSIONS.REPORTS_SALES, PERMISSIONS.REPORTS_INVENTORY,
+  ],
+  cashier: [
+    PERMISSIONS.POS_SALE, PERMISSIONS.POS_PARK,
+    PERMISSIONS.MASTER_VIEW, PERMISSIONS.CUSTOMER_VIEW,
+  ],
+  inventory: [
+    PERMISSIONS.INVENTORY_VIEW, PERMISSIONS.INVENTORY_ADJUST, PERMISSIONS.INVENTORY_TRANSFER,
+    PERMISSIONS.INVENTORY_COUNT, PERMISSIONS.INVENTORY_GRN,
+    PERMISSIONS.MASTER_VIEW, PERMISSIONS.REPORTS_INVENTORY,
+  ],
+};
+
 // Event types for BigQuery sync
 export interface BusinessEvent {
   id: string;
@@ -0,0 +1,51 @@
+/**
+ * Business-day helpers
+ *
+ * Reports and dashboards use the tenant's trading day in Cairo time
+ * (Africa/Cairo, UTC+2). These return UTC instants for database filters.
+ */
+
+const CAIRO_OFFSET_HOURS = 2;
+const OFFSET_MS = CAIRO_OFFSET_HOURS * 60 * 60 * 1000;
+
+function cairoNow(): Date {
+  return new Date(Date.now() + OFFSET_MS);
+}
+
+export function getCairoStartOfDay(): Date {
+  const cairo = cairoNow();
+  const midnight = Date.UTC(cairo.getUTCFullYear(), cairo.getUTCMonth(), cairo.getUTCDate(), 0, 0, 0, 0);
+  return new Date(midnight - OFFSET_MS);
+}
+
+export function getCairoEndOfDay(): Date {
+  const cairo = cairoNow();
+  const endOfDay = Date.UTC(cairo.getUTCFullYear(), cairo.getUTCMonth(), cairo.getUTCDate(), 23, 59, 59, 999);
+  return new Date(endOfDay - OFFSET_MS);
+}
+
+function parseYmd(dateStr: unknown): [number, number, number] | null {
+  if (!dateStr || typeof dateStr !== 'string') return null;
+  const parts = dateStr.split('-').map(Number);
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+  return [parts[0], parts[1], parts[2]];
+}
+
+// Start of a YYYY-MM-DD day in Cairo time (today if the value is missing or invalid)
+export function parseDateToCairoStart(dateStr: unknown): Date {
+  const ymd = parseYmd(dateStr);
+  if (!ymd) return getCairoStartOfDay();
+  return new Date(Date.UTC(ymd[0], ymd[1] - 1, ymd[2], 0, 0, 0, 0) - OFFSET_MS);
+}
+
+// End of a YYYY-MM-DD day in Cairo time (today if the value is missing or invalid)
+export function parseDateToCairoEnd(dateStr: unknown): Date {
+  const ymd = parseYmd(dateStr);
+  if (!ymd) return getCairoEndOfDay();
+  return new Date(Date.UTC(ymd[0], ymd[1] - 1, ymd[2], 23, 59, 59, 999) - OFFSET_MS);
+}
+
+// YYYYMMDD stamp used in document numbers (e.g. PO-20250101-001)
+export function dateStamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
@@ -0,0 +1,40 @@
+/**
+ * Application error
+ *
+ * Services throw AppError for anything the caller can act on (validation,
+ * missing records, invalid state transitions). The route wrapper turns it
+ * into an ApiResponse error with the given status and code; any other error
+ * is logged and reported as a 500.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+    public readonly code: string = 'BAD_REQUEST',
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+
+  static badRequest(message: string, details?: unknown): AppError {
+    return new AppError(message, 400, 'BAD_REQUEST', details);
+  }
+
+  static notFound(message: string): AppError {
+    return new AppError(message, 404, 'NOT_FOUND');
+  }
+
+  static forbidden(message: string): AppError {
+    return new AppError(message, 403, 'FORBIDDEN');
+  }
+
+  static unauthorized(message: string): AppError {
+    return new AppError(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+// PostgreSQL unique_violation
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
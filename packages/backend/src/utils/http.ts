@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { ApiResponse } from '../types/index.js';
+import { AppError, isUniqueViolation } from './errors.js';
+
+type RouteHandler = (req: Request, res: Response) => Promise<unknown>;
+
+// Send a successful ApiResponse
+export function ok<T>(res: Response, data: T, status = 200): void {
+  const body: ApiResponse<T> = { success: true, data };
+  res.status(status).json(body);
+}
+
+// Send an error ApiResponse
+export function fail(res: Response, status: number, code: string, message: string, details?: unknown): void {
+  const body: ApiResponse = { success: false, error: { code, message, details } };
+  res.status(status).json(body);
+}
+
+// PDFs are streamed as-is; failures still use the JSON error envelope
+export function sendPdf(res: Response, document: { buffer: Buffer; filename: string }): void {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${document.filename}"`);
+  res.send(document.buffer);
+}
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof ZodError) {
+    const issue = error.issues[0];
+    const field = issue?.path.join('.');
+    fail(res, 400, 'VALIDATION_ERROR', field ? `${field}: ${issue.message}` : issue?.message || 'Invalid request', error.issues);
+    return;
+  }
+  if (error instanceof AppError) {
+    fail(res, error.status, error.code, error.message, error.details);
+    return;
+  }
+  if (isUniqueViolation(error)) {
+    fail(res, 400, 'DUPLICATE', 'A record with these details already exists');
+    return;
+  }
+  console.error(`${fallbackMessage}:`, error);
+  fail(res, 500, 'INTERNAL_ERROR', fallbackMessage);
+}
+
+/**
+ * Wrap an async route handler so thrown errors become ApiResponse errors.
+ * The handler sends its own success response (usually via ok()).
+ */
+export function handle(fn: RouteHandler, fallbackMessage = 'Request failed') {
+  return async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error(`${fallbackMessage}:`, error);
+        return;
+      }
+      sendError(res, error, fallbackMessage);
+    }
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Money helpers
+ *
+ * Amounts are kept as JS numbers and rounded to cents whenever a value is
+ * stored or compared.
+ */
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
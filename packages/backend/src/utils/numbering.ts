@@ -0,0 +1,25 @@
+import { PoolClient } from 'pg';
+import { dateStamp } from './dates.js';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Next document number of the day, e.g. GRN-20250101-001
+ *
+ * The sequence restarts every day and counts the tenant's documents in
+ * `table` created today. Call it inside the transaction that inserts the
+ * document.
+ */
+export async function nextDailyNumber(
+  db: Queryable,
+  table: string,
+  prefix: string,
+  tenantId: string
+): Promise<string> {
+  const result = await db.query(
+    `SELECT COUNT(*) + 1 as num FROM ${table}
+     WHERE tenant_id = $1 AND DATE(created_at) = CURRENT_DATE`,
+    [tenantId]
+  );
+  return `${prefix}-${dateStamp()}-${String(result.rows[0].num).padStart(3, '0')}`;
+}
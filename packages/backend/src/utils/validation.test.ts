@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { optionalNumber, optionalUuid } from './validation.js';
+
+describe('optionalNumber', () => {
+  it('treats cleared form fields as not sent', () => {
+    expect(optionalNumber.parse('')).toBeUndefined();
+    expect(optionalNumber.parse(null)).toBeUndefined();
+    expect(optionalNumber.parse(undefined)).toBeUndefined();
+  });
+
+  it('coerces numbers and numeric strings', () => {
+    expect(optionalNumber.parse('12.5')).toBe(12.5);
+    expect(optionalNumber.parse(0)).toBe(0);
+    expect(optionalNumber.parse('0')).toBe(0);
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(optionalNumber.safeParse('abc').success).toBe(false);
+  });
+});
+
+describe('optionalUuid', () => {
+  it('treats cleared form fields as not sent', () => {
+    expect(optionalUuid.parse('')).toBeUndefined();
+    expect(optionalUuid.parse(null)).toBeUndefined();
+  });
+});
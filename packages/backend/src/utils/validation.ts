@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// The web client sends '' or null for cleared optional fields;
+// these schemas normalise both to undefined
+
+export const optionalUuid = z
+  .union([z.string().uuid(), z.literal(''), z.null()])
+  .optional()
+  .transform(value => value || undefined);
+
+export const optionalText = z
+  .string()
+  .nullable()
+  .optional()
+  .transform(value => value || undefined);
+
+// Numeric form fields arrive as numbers or numeric strings; '' and null are
+// matched before coercion, which would turn them into 0
+export const optionalNumber = z
+  .union([z.literal(''), z.null(), z.coerce.number()])
+  .optional()
+  .transform(value => (value === '' || value === null ? undefined : value));
@@ -26,6 +26,9 @@ import BrandsPage from '@/pages/products/BrandsPage';
 import POSPage from '@/pages/pos/POSPage';
 import ReceiptsPage from '@/pages/pos/ReceiptsPage';
 import ShiftsPage from '@/pages/pos/ShiftsPage';
+import SyncConflictsPage from '@/pages/pos/SyncConflictsPage';
+import GiftCardsPage from '@/pages/pos/GiftCardsPage';
+import SafePage from '@/pages/pos/SafePage';
 
 // Inventory Pages
 import StockPage from '@/pages/inventory/StockPage';
@@ -37,8 +40,21 @@ import TransfersPage from '@/pages/inventory/TransfersPage';
 import StockCountPage from '@/pages/inventory/StockCountPage';
 import StockForecastPage from '@/pages/inventory/StockForecastPage';
 
+// Purchasing Pages
+import PurchaseOrdersPage from '@/pages/purchasing/PurchaseOrdersPage';
+import SupplierInvoicesPage from '@/pages/purchasing/SupplierInvoicesPage';
+import SuppliersPage from '@/pages/purchasing/SuppliersPage';
+
+// Pricing Pages
+import PromotionsPage from '@/pages/pricing/PromotionsPage';
+import PriceListsPage from '@/pages/pricing/PriceListsPage';
+import VouchersPage from '@/pages/pricing/VouchersPage';
+
 // Customers Pages
 import CustomersPage from '@/pages/customers/CustomersPage';
+import LoyaltyPage from '@/pages/customers/LoyaltyPage';
+import CustomerDetailPage from '@/pages/customers/CustomerDetailPage';
+import SegmentsPage from '@/pages/customers/SegmentsPage';
 
 // Reports Pages
 import ReportsPage from '@/pages/reports/ReportsPage';
@@ -97,6 +113,9 @@ function App() {
           {/* POS Management */}
           <Route path="/pos/receipts" element={<ReceiptsPage />} />
           <Route path="/pos/shifts" element={<ShiftsPage />} />
+          <Route path="/pos/sync-conflicts" element={<SyncConflictsPage />} />
+          <Route path="/pos/gift-cards" element={<GiftCardsPage />} />
+          <Route path="/pos/safe" element={<SafePage />} />
           
           {/* Inventory */}
           <Route path="/inventory" element={<StockPage />} />
@@ -107,9 +126,22 @@ function App() {
           <Route path="/inventory/transfers" element={<TransfersPage />} />
           <Route path="/inventory/count" element={<StockCountPage />} />
           <Route path="/inventory/forecast" element={<StockForecastPage />} />
+
+          {/* Purchasing */}
+          <Route path="/purchasing/orders" element={<PurchaseOrdersPage />} />
+          <Route path="/purchasing/invoices" element={<SupplierInvoicesPage />} />
+          <Route path="/purchasing/suppliers" element={<SuppliersPage />} />
+
+          {/* Pricing */}
+          <Route path="/pricing/promotions" element={<PromotionsPage />} />
+          <Route path="/pricing/price-lists" element={<PriceListsPage />} />
+          <Route path="/pricing/vouchers" element={<VouchersPage />} />
           
           {/* Customers */}
           <Route path="/customers" element={<CustomersPage />} />
+          <Route path="/customers/loyalty" element={<LoyaltyPage />} />
+          <Route path="/customers/segments" element={<SegmentsPage />} />
+          <Route path="/customers/:id" element={<CustomerDetailPage />} />
           
           {/* Reports */}
           <Route path="/reports/*" element={<ReportsPage />} />
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { getDeviceKey } from '@/lib/device';
+
+export interface Register {
+  id: string;
+  store_id: string;
+  name: string;
+  is_active: boolean;
+  device_bound: boolean;
+  device_name?: string;
+  device_bound_at?: string;
+  open_shift_id?: string;
+  open_shift_number?: string;
+  open_shift_cashiers?: string;
+}
+
+// The register this browser is bound to at the store, or null
+export function useDeviceRegister(storeId: string | null) {
+  return useQuery({
+    queryKey: ['device-register', storeId],
+    queryFn: async () => {
+      const res = await api.get('/registers/device', { params: { storeId, deviceKey: getDeviceKey() } });
+      return res.data.register as Register | null;
+    },
+    enabled: !!storeId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
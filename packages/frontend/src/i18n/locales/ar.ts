@@ -100,6 +100,11 @@ export default {
     title: "نقطة البيع",
     shift: "الوردية",
     noShift: "لا توجد وردية",
+    joinShift: "انضم إلى {{register}}",
+    drawer: {
+      overLimit: "الدرج يحتوي على نقد أكثر من حد المتجر",
+      dropCash: "إيداع في الخزنة"
+    },
     cart: "السلة",
     emptyCart: "سلتك فارغة",
     startScanning: "ابدأ بمسح أو البحث عن المنتجات للبدء",
@@ -147,7 +152,132 @@ export default {
     instapay: "إنستاباي",
     vodafoneCash: "فودافون كاش",
     orangeCash: "أورانج كاش",
-    etisalatCash: "إي آند كاش"
+    etisalatCash: "إي آند كاش",
+    tenders: {
+      split: "تقسيم الدفع",
+      amount: "المبلغ",
+      reference: "المرجع",
+      cardLast4: "آخر 4 أرقام",
+      add: "إضافة طريقة دفع",
+      remaining: "المتبقي",
+      onlyCashChange: "النقدي فقط يمكن أن يتجاوز المبلغ المستحق",
+      byMethod: "المدفوعات حسب الطريقة",
+      methods: {
+        cash: "نقدي",
+        card: "بطاقة",
+        instapay: "إنستاباي",
+        vodafone_cash: "فودافون كاش",
+        orange_cash: "أورانج كاش",
+        etisalat_cash: "إي آند كاش",
+        wallet: "محفظة",
+        bank_transfer: "تحويل بنكي",
+        voucher: "قسيمة",
+        loyalty: "نقاط",
+        gift_card: "بطاقة هدية"
+      }
+    },
+    terminal: {
+      waiting: "في انتظار جهاز البطاقات",
+      present: "اطلب من العميل تمرير أو إدخال البطاقة",
+      declined: "تم رفض البطاقة",
+      timeout: "لم يستجب جهاز البطاقات؛ حاول مرة أخرى",
+      failed: "فشل الدفع بالبطاقة"
+    },
+    promotions: {
+      title: "العروض",
+      coupon: "رمز القسيمة",
+      apply: "تطبيق",
+      offlineNotice: "لا تطبق العروض أثناء عدم الاتصال"
+    },
+    vouchers: {
+      code: "رمز قسيمة الشراء",
+      redeem: "استخدام",
+      voucher: "قسيمة شراء",
+      remove: "إزالة قسيمة الشراء",
+      amountDue: "المتبقي للدفع",
+      completeWithVoucher: "إتمام بقسيمة الشراء"
+    },
+    loyalty: {
+      balance: "{{points}} نقطة",
+      use: "استخدام النقاط ({{value}})",
+      points: "النقاط ({{points}})",
+      remove: "إلغاء استخدام النقاط",
+      completeWithPoints: "إتمام بالنقاط"
+    },
+    giftCards: {
+      sell: "بطاقة هدية",
+      sellTitle: "بيع أو شحن بطاقة هدية",
+      giftCard: "بطاقة هدية",
+      reloadLine: "شحن بطاقة هدية",
+      newCode: "بطاقة جديدة",
+      code: "رمز البطاقة",
+      codeHint: "امسح بطاقة موجودة لشحنها، أو اتركه فارغاً لإصدار رمز جديد",
+      reloadHint: "بطاقة موجودة، الرصيد الحالي {{balance}}",
+      amount: "المبلغ",
+      add: "إضافة إلى البيع",
+      payCode: "رمز بطاقة الهدية",
+      apply: "تطبيق",
+      remove: "إزالة بطاقة الهدية",
+      notActive: "بطاقة الهدية هذه {{status}}",
+      empty: "لا يوجد رصيد متبقٍ في بطاقة الهدية",
+      completeWithGiftCard: "إتمام ببطاقة الهدية",
+      needsConnection: "تتطلب مبيعات بطاقات الهدية اتصالاً بالخادم",
+      issued: "بطاقات الهدية"
+    },
+    exchange: {
+      start: "استبدال",
+      title: "استبدال أصناف",
+      receipt: "رقم الإيصال",
+      find: "بحث",
+      returnable: "يمكن إرجاع {{count}}",
+      notExchangeable: "يمكن استبدال المبيعات المكتملة فقط",
+      begin: "بدء الاستبدال",
+      banner: "استبدال للإيصال {{receipt}}",
+      credit: "الأصناف المرتجعة",
+      refundDue: "المبلغ المسترد",
+      cancel: "إلغاء الاستبدال",
+      hint: "أضف الأصناف الجديدة إلى السلة؛ يدفع العميل الفرق أو يُرد إليه",
+      needsConnection: "يتطلب الاستبدال اتصالاً بالخادم"
+    },
+    offline: {
+      offline: "غير متصل",
+      pending: "{{count}} بانتظار المزامنة",
+      syncNow: "مزامنة الآن",
+      savedOffline: "تم الحفظ دون اتصال - ستتم المزامنة عند عودة الاتصال",
+      receiptLater: "تم تسجيل هذا البيع دون اتصال. يمكن طباعة الإيصال من صفحة الإيصالات بعد المزامنة.",
+      syncedTitle: "تمت مزامنة المبيعات",
+      syncedDescription: "تم رفع {{count}} عملية بيع معلقة",
+      conflictsTitle: "تعارضات المزامنة",
+      conflictsDescription: "{{count}} مشكلة تحتاج مراجعة المشرف",
+      failedTitle: "فشلت المزامنة",
+      failedDescription: "رفض الخادم {{count}} عملية بيع"
+    },
+    syncConflicts: {
+      title: "تعارضات المزامنة",
+      description: "مبيعات دون اتصال تحتاج مراجعة المشرف بعد المزامنة",
+      outbox: "بانتظار المزامنة على هذه الكاشير",
+      pending: "معلق",
+      failed: "فشل",
+      open: "مفتوح",
+      resolved: "تمت المعالجة",
+      all: "الكل",
+      none: "لا توجد تعارضات",
+      negativeStock: "أصبح المخزون سالباً",
+      priceChanged: "تغير السعر",
+      productInactive: "المنتج غير نشط",
+      totalMismatch: "اختلاف الإجمالي",
+      registerTotal: "إجمالي نقطة البيع",
+      serverTotal: "إجمالي الخادم",
+      paid: "المدفوع",
+      sold: "المباع",
+      onHand: "المتوفر",
+      soldAt: "بيع بسعر",
+      currentPrice: "السعر الحالي",
+      resolve: "معالجة",
+      notes: "ملاحظات المعالجة",
+      notesPlaceholder: "مثال: تم إعادة الجرد وتسجيل تسوية",
+      resolvedDescription: "تم تعليم التعارض كمعالج"
+    }
   },
   products: {
     title: "كتالوج المنتجات",
@@ -190,9 +320,13 @@ export default {
     products: "المنتجات",
     customers: "العملاء",
     suppliers: "الموردون",
+    purchasing: "المشتريات",
+    purchaseOrders: "أوامر الشراء",
+    supplierInvoices: "فواتير الموردين",
     reports: "التقارير",
     settings: "الإعدادات",
-    help: "المساعدة والدعم"
+    help: "المساعدة والدعم",
+    syncConflicts: "تعارضات المزامنة"
   },
   inventory: {
     purchasing: "المشتريات",
@@ -222,6 +356,19 @@ export default {
     newTransfer: "نقل جديد",
     transferHistory: "سجل عمليات النقل",
     noTransferHistory: "لا يوجد سجل عمليات نقل بعد",
+    awaitingReceipt: "بانتظار الاستلام",
+    awaitingReceiptDesc: "عمليات النقل المرسلة إلى هذا الفرع والتي تحتاج إلى استلام",
+    noAwaitingReceipt: "لا توجد عمليات نقل بانتظار الاستلام",
+    receiveTransfer: "استلام",
+    confirmReceipt: "تأكيد الاستلام",
+    dispatch: "إرسال",
+    dispatchTransfer: "إرسال النقل",
+    saveDraft: "حفظ كمسودة",
+    receivedQty: "الكمية المستلمة",
+    damagedQty: "الكمية التالفة",
+    short: "نقص",
+    over: "زيادة",
+    damaged: "تالف",
     stockLedger: "دفتر المخزون",
     ledgerDesc: "عرض سجل حركات المخزون",
     noTransactions: "لا توجد معاملات بعد",
@@ -236,6 +383,19 @@ export default {
     currentReorderPoint: "الحالي / نقطة إعادة الطلب",
     stockCount: "جرد المخزون",
     stockCountDesc: "إجراء جرد المخزون",
+    newCount: "جرد جديد",
+    noCounts: "لا يوجد جرد بعد",
+    startCount: "بدء الجرد",
+    completeCount: "إنهاء الجرد",
+    recount: "إعادة الجرد",
+    postVariances: "ترحيل الفروقات",
+    countedLines: "تم جرده",
+    varianceLines: "أصناف بها فروقات",
+    gainValue: "قيمة الزيادة",
+    lossValue: "قيمة العجز",
+    scanToCount: "امسح للجرد",
+    noCountLines: "لا توجد منتجات في هذا العرض",
+    uncountedSkipped: "يتم تخطي المنتجات غير المجرودة في الجرد الدوري والجزئي؛ الجرد الكامل فقط يعتبرها صفراً.",
     stockForecast: "توقعات المخزون والتوصيات",
     forecastDesc: "توقعات الطلب والتوصيات بالذكاء الاصطناعي",
     soundOn: "الصوت مفعّل",
@@ -376,7 +536,70 @@ export default {
     noShifts: "لم يتم العثور على ورديات",
     enterAmount: "أدخل المبلغ",
     shiftOpened: "تم فتح الوردية بنجاح",
-    shiftClosed: "تم إغلاق الوردية بنجاح"
+    shiftClosed: "تم إغلاق الوردية بنجاح",
+    cashUp: {
+      countDrawer: "عدّ الدرج",
+      denomination: "ورقة / عملة",
+      quantity: "العدد",
+      counted: "المعدود",
+      enterTotal: "إدخال الإجمالي بدلاً من ذلك",
+      countByDenomination: "العدّ حسب الفئة",
+      blindNotice: "عدّ أعمى: عدّ كل ما في الدرج. يظهر المبلغ المتوقع بعد إغلاق الوردية.",
+      approvalRequired: "موافقة المدير",
+      approvalHint: "المبلغ المعدود خارج الفرق المسموح به. أعد العدّ أو اطلب من المدير الموافقة على الإغلاق.",
+      approve: "الموافقة والإغلاق",
+      xReport: "تقرير X",
+      zReport: "تقرير Z",
+      drawerCount: "عدّ الدرج",
+      blindClose: "عدّ أعمى",
+      approvedBy: "وافق على الفرق"
+    },
+    movements: {
+      types: {
+        cash_in: "إدخال نقد",
+        cash_out: "إخراج نقد",
+        drop: "إيداع في الخزنة",
+        pickup: "سحب من الخزنة"
+      },
+      hints: {
+        cash_in: "إضافة نقد إلى الدرج",
+        cash_out: "إخراج نقد من الدرج",
+        drop: "نقل النقد إلى الخزنة",
+        pickup: "أخذ نقد من الخزنة"
+      },
+      recorded: {
+        cash_in: "تمت إضافة النقد",
+        cash_out: "تم إخراج النقد",
+        drop: "تم الإيداع في الخزنة",
+        pickup: "تم السحب من الخزنة"
+      },
+      pickupApproval: "موافقة ثانية",
+      pickupApprovalHint: "يوافق مدير غيرك على النقد المأخوذ من الخزنة.",
+      approvedBy: "وافق",
+      overLimit: "الدرج تجاوز الحد",
+      overLimitHint: "الدرج يحتوي على أكثر من {{limit}}. أودع {{amount}} في الخزنة.",
+      overLimitBlind: "الدرج يحتوي على أكثر من {{limit}}. عدّ النقد الزائد عن الرصيد الافتتاحي وأودعه في الخزنة.",
+      makeDrop: "إيداع في الخزنة"
+    },
+    registers: {
+      register: "الكاشير",
+      chooseRegister: "اختر جهاز الكاشير",
+      thisDevice: "هذا الجهاز",
+      inUse: "مستخدم، {{shift}}",
+      noDevice: "هذا المتصفح غير مرتبط بجهاز كاشير بعد. يمكن للمسؤول ربطه من الفروع ← أجهزة الكاشير.",
+      registerOpen: "{{register}} عليه وردية مفتوحة {{shift}}",
+      joinHint: "انضم لمشاركة الدرج مع {{names}}؛ تبقى مبيعاتك مسجلة باسمك.",
+      join: "الانضمام للوردية",
+      joined: "تم الانضمام للوردية",
+      joinedHint: "مبيعاتك على هذا الدرج تُسجل باسمك",
+      leave: "مغادرة",
+      left: "تمت مغادرة الوردية",
+      sharedDrawer: "درج مشترك: {{names}}",
+      cashiers: "الكاشيرية",
+      notJoined: "سجّل مبيعات دون الانضمام",
+      cashierTransactions: "{{count}} معاملة",
+      cashierRefunds: "مرتجع {{amount}}"
+    }
   },
   admin: {
     users: "المستخدمون",
@@ -418,5 +641,83 @@ export default {
     entity: "الكيان",
     details: "التفاصيل",
     noAuditLogs: "لم يتم العثور على سجلات تدقيق"
+  },
+  purchasing: {
+    purchaseOrders: "أوامر الشراء",
+    purchaseOrdersDesc: "إنشاء أوامر الشراء واعتمادها واستلامها من الموردين",
+    newOrder: "أمر شراء جديد",
+    editOrder: "تعديل أمر الشراء",
+    noOrders: "لا توجد أوامر شراء بعد",
+    supplier: "المورد",
+    selectSupplier: "اختر المورد",
+    expectedDate: "تاريخ التسليم المتوقع",
+    orderDate: "تاريخ الأمر",
+    unitCost: "تكلفة الوحدة",
+    taxRate: "الضريبة %",
+    ordered: "المطلوب",
+    received: "المستلم",
+    remaining: "المتبقي",
+    receiveNow: "استلام الآن",
+    approve: "اعتماد",
+    markSent: "تحديد كمرسل",
+    receiveGoods: "استلام البضاعة",
+    confirmReceipt: "ترحيل إذن الاستلام",
+    closeOrder: "إغلاق الأمر",
+    supplierReference: "إذن تسليم المورد",
+    receipts: "البضاعة المستلمة",
+    noReceipts: "لم يتم استلام أي شيء على هذا الأمر بعد",
+    subtotal: "المجموع الفرعي",
+    tax: "الضريبة",
+    total: "الإجمالي",
+    allStatuses: "كل الحالات",
+    supplierInvoices: "فواتير الموردين",
+    supplierInvoicesDesc: "مطابقة فواتير الموردين مع أوامر الشراء والبضاعة المستلمة",
+    newInvoice: "فاتورة جديدة",
+    noInvoices: "لا توجد فواتير موردين بعد",
+    purchaseOrder: "أمر الشراء",
+    invoiceNumber: "رقم الفاتورة",
+    invoiceDate: "تاريخ الفاتورة",
+    dueDate: "الاستحقاق",
+    balance: "الرصيد",
+    invoiced: "المفوتر",
+    invoiceCost: "تكلفة الفاتورة",
+    poCost: "تكلفة أمر الشراء",
+    matchResult: "المطابقة",
+    varianceQueue: "قائمة الفروقات",
+    noVariances: "لا توجد فواتير بانتظار اعتماد الفروقات",
+    variance: "الفرق",
+    review: "مراجعة",
+    apAging: "أعمار الذمم الدائنة",
+    noPayables: "لا توجد فواتير موردين غير مسددة",
+    nothingToInvoice: "تمت فوترة كل ما تم استلامه على هذا الأمر",
+    selectOrderForLines: "اختر أمر شراء لتحميل البنود المستلمة",
+    saveAndMatch: "حفظ ومطابقة",
+    poValue: "قيمة أمر الشراء",
+    receivedValue: "قيمة المستلم",
+    invoiceValue: "قيمة الفاتورة",
+    tolerance: "نسبة السماح",
+    approvalNotes: "ملاحظات الاعتماد",
+    recordPayment: "تسجيل دفعة",
+    pay: "دفع",
+    rematch: "إعادة المطابقة",
+    approveVariance: "اعتماد الفرق",
+    suppliers: "الموردون",
+    suppliersDesc: "بيانات الموردين وأداء التوريد",
+    addSupplier: "إضافة مورد",
+    editSupplier: "تعديل المورد",
+    searchSuppliers: "البحث عن الموردين...",
+    showInactive: "عرض غير النشطين",
+    scorecardPeriod: "فترة التقييم",
+    noSuppliers: "لم يتم العثور على موردين",
+    contact: "جهة الاتصال",
+    terms: "شروط الدفع",
+    leadTime: "مدة التوريد",
+    onTime: "في الموعد",
+    fillRate: "نسبة التلبية",
+    costVariance: "فرق التكلفة",
+    openOrders: "الأوامر المفتوحة",
+    paymentTermsDays: "شروط الدفع (أيام)",
+    leadTimeDays: "مدة التوريد (أيام)",
+    taxId: "الرقم الضريبي"
   }
 };
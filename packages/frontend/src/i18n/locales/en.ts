@@ -100,6 +100,11 @@ export default {
     title: "Point of Sale",
     shift: "Shift",
     noShift: "No Shift",
+    joinShift: "Join {{register}}",
+    drawer: {
+      overLimit: "The drawer holds more cash than the store's limit",
+      dropCash: "Drop cash"
+    },
     cart: "Cart",
     emptyCart: "Your cart is empty",
     startScanning: "Start scanning or searching products to begin",
@@ -141,7 +146,138 @@ export default {
     each: "each",
     loyaltyCustomer: "Loyalty Customer",
     amountDue: "Amount Due",
-    exactAmount: "Exact Amount"
+    exactAmount: "Exact Amount",
+    walletPayment: "Pay with Wallet",
+    selectWallet: "Select payment method",
+    instapay: "InstaPay",
+    vodafoneCash: "Vodafone Cash",
+    orangeCash: "Orange Cash",
+    etisalatCash: "e& Cash",
+    tenders: {
+      split: "Split payment",
+      amount: "Amount",
+      reference: "Reference",
+      cardLast4: "Card last 4",
+      add: "Add tender",
+      remaining: "Remaining",
+      onlyCashChange: "Only cash can be more than the amount due",
+      byMethod: "Payments by Method",
+      methods: {
+        cash: "Cash",
+        card: "Card",
+        instapay: "InstaPay",
+        vodafone_cash: "Vodafone Cash",
+        orange_cash: "Orange Cash",
+        etisalat_cash: "e& Cash",
+        wallet: "Wallet",
+        bank_transfer: "Bank Transfer",
+        voucher: "Voucher",
+        loyalty: "Points",
+        gift_card: "Gift Card"
+      }
+    },
+    terminal: {
+      waiting: "Waiting for the card terminal",
+      present: "Ask the customer to tap, insert or swipe their card",
+      declined: "Card declined",
+      timeout: "The card terminal did not respond; try again",
+      failed: "Card payment failed"
+    },
+    promotions: {
+      title: "Promotions",
+      coupon: "Coupon code",
+      apply: "Apply",
+      offlineNotice: "Promotions are not applied while offline"
+    },
+    vouchers: {
+      code: "Voucher code",
+      redeem: "Redeem",
+      voucher: "Voucher",
+      remove: "Remove voucher",
+      amountDue: "Still to pay",
+      completeWithVoucher: "Complete with voucher"
+    },
+    loyalty: {
+      balance: "{{points}} pts",
+      use: "Use points ({{value}})",
+      points: "Points ({{points}})",
+      remove: "Stop using points",
+      completeWithPoints: "Complete with points"
+    },
+    giftCards: {
+      sell: "Gift card",
+      sellTitle: "Sell or reload a gift card",
+      giftCard: "Gift card",
+      reloadLine: "Gift card reload",
+      newCode: "New card",
+      code: "Card code",
+      codeHint: "Scan an existing card to reload it, or leave blank to issue a new code",
+      reloadHint: "Existing card, current balance {{balance}}",
+      amount: "Amount",
+      add: "Add to sale",
+      payCode: "Gift card code",
+      apply: "Apply",
+      remove: "Remove gift card",
+      notActive: "This gift card is {{status}}",
+      empty: "This gift card has no balance left",
+      completeWithGiftCard: "Complete with gift card",
+      needsConnection: "Gift card sales need a connection to the server",
+      issued: "Gift cards"
+    },
+    exchange: {
+      start: "Exchange",
+      title: "Exchange items",
+      receipt: "Receipt number",
+      find: "Find",
+      returnable: "{{count}} can be returned",
+      notExchangeable: "Only completed sales can be exchanged",
+      begin: "Start exchange",
+      banner: "Exchange for {{receipt}}",
+      credit: "Returned items",
+      refundDue: "Refund due",
+      cancel: "Cancel exchange",
+      hint: "Add the new items to the cart; the customer pays or is paid back the difference",
+      needsConnection: "Exchanges need a connection to the server"
+    },
+    offline: {
+      offline: "Offline",
+      pending: "{{count}} to sync",
+      syncNow: "Sync now",
+      savedOffline: "Saved offline - will sync when back online",
+      receiptLater: "This sale was recorded offline. The receipt can be printed from Receipts once it has synced.",
+      syncedTitle: "Offline Sales Synced",
+      syncedDescription: "{{count}} queued sale(s) uploaded",
+      conflictsTitle: "Sync Conflicts",
+      conflictsDescription: "{{count}} issue(s) need supervisor review",
+      failedTitle: "Sync Failed",
+      failedDescription: "{{count}} sale(s) were rejected by the server"
+    },
+    syncConflicts: {
+      title: "Sync Conflicts",
+      description: "Offline sales that need supervisor review after syncing",
+      outbox: "Waiting to sync on this register",
+      pending: "Pending",
+      failed: "Failed",
+      open: "Open",
+      resolved: "Resolved",
+      all: "All",
+      none: "No sync conflicts",
+      negativeStock: "Stock went negative",
+      priceChanged: "Price changed",
+      productInactive: "Product inactive",
+      totalMismatch: "Total mismatch",
+      registerTotal: "Register total",
+      serverTotal: "Server total",
+      paid: "Paid",
+      sold: "Sold",
+      onHand: "On hand",
+      soldAt: "Sold at",
+      currentPrice: "Current price",
+      resolve: "Resolve",
+      notes: "Resolution Notes",
+      notesPlaceholder: "e.g. stock recounted, adjustment posted",
+      resolvedDescription: "Conflict marked as resolved"
+    }
   },
   products: {
     title: "Product Catalog",
@@ -184,9 +320,13 @@ export default {
     products: "Products",
     customers: "Customers",
     suppliers: "Suppliers",
+    purchasing: "Purchasing",
+    purchaseOrders: "Purchase Orders",
+    supplierInvoices: "Supplier Invoices",
     reports: "Reports",
     settings: "Settings",
-    help: "Help & Support"
+    help: "Help & Support",
+    syncConflicts: "Sync Conflicts"
   },
   inventory: {
     purchasing: "Purchasing",
@@ -216,6 +356,19 @@ export default {
     newTransfer: "New Transfer",
     transferHistory: "Transfer History",
     noTransferHistory: "No transfer history yet",
+    awaitingReceipt: "Awaiting Receipt",
+    awaitingReceiptDesc: "Transfers dispatched to this store that need to be received",
+    noAwaitingReceipt: "No transfers awaiting receipt",
+    receiveTransfer: "Receive",
+    confirmReceipt: "Confirm Receipt",
+    dispatch: "Dispatch",
+    dispatchTransfer: "Dispatch Transfer",
+    saveDraft: "Save as Draft",
+    receivedQty: "Received Qty",
+    damagedQty: "Damaged Qty",
+    short: "Short",
+    over: "Over",
+    damaged: "Damaged",
     stockLedger: "Stock Ledger",
     ledgerDesc: "View inventory transaction history",
     noTransactions: "No transactions yet",
@@ -230,6 +383,19 @@ export default {
     currentReorderPoint: "Current / Reorder Point",
     stockCount: "Stock Count",
     stockCountDesc: "Perform inventory counts",
+    newCount: "New Count",
+    noCounts: "No stock counts yet",
+    startCount: "Start Counting",
+    completeCount: "Finish Counting",
+    recount: "Recount",
+    postVariances: "Post Variances",
+    countedLines: "Counted",
+    varianceLines: "Lines with Variance",
+    gainValue: "Gain Value",
+    lossValue: "Loss Value",
+    scanToCount: "Scan to Count",
+    noCountLines: "No products in this view",
+    uncountedSkipped: "Uncounted products are skipped on cycle and spot counts; only full counts treat them as zero.",
     stockForecast: "Stock Forecast & Recommendations",
     forecastDesc: "AI-powered demand forecasting and stock recommendations",
     soundOn: "Sound On",
@@ -370,7 +536,70 @@ export default {
     noShifts: "No shifts found",
     enterAmount: "Enter Amount",
     shiftOpened: "Shift opened successfully",
-    shiftClosed: "Shift closed successfully"
+    shiftClosed: "Shift closed successfully",
+    cashUp: {
+      countDrawer: "Count the Drawer",
+      denomination: "Note / Coin",
+      quantity: "Qty",
+      counted: "Counted",
+      enterTotal: "Enter a total instead",
+      countByDenomination: "Count by note and coin",
+      blindNotice: "Blind count: count everything in the drawer. The expected amount is shown after the shift closes.",
+      approvalRequired: "Manager Approval",
+      approvalHint: "The count is outside the allowed variance. Recount, or have a manager approve the close.",
+      approve: "Approve & Close",
+      xReport: "X Report",
+      zReport: "Z Report",
+      drawerCount: "Drawer Count",
+      blindClose: "Blind count",
+      approvedBy: "Variance approved by"
+    },
+    movements: {
+      types: {
+        cash_in: "Cash In",
+        cash_out: "Cash Out",
+        drop: "Drop",
+        pickup: "Pickup"
+      },
+      hints: {
+        cash_in: "Add cash to drawer",
+        cash_out: "Remove cash from drawer",
+        drop: "Move cash to the safe",
+        pickup: "Take cash from the safe"
+      },
+      recorded: {
+        cash_in: "Cash Added",
+        cash_out: "Cash Removed",
+        drop: "Cash Dropped",
+        pickup: "Cash Picked Up"
+      },
+      pickupApproval: "Second Approval",
+      pickupApprovalHint: "Cash taken from the safe is approved by a manager other than you.",
+      approvedBy: "Approved by",
+      overLimit: "Drawer over its limit",
+      overLimitHint: "The drawer holds more than {{limit}}. Drop {{amount}} into the safe.",
+      overLimitBlind: "The drawer holds more than {{limit}}. Count out the cash above the float and drop it into the safe.",
+      makeDrop: "Make a Drop"
+    },
+    registers: {
+      register: "Register",
+      chooseRegister: "Choose a register",
+      thisDevice: "this device",
+      inUse: "in use, {{shift}}",
+      noDevice: "This browser is not bound to a register yet. An admin can bind it under Stores → Registers.",
+      registerOpen: "{{register}} has shift {{shift}} open",
+      joinHint: "Join to share the drawer with {{names}}; your sales stay under your name.",
+      join: "Join Shift",
+      joined: "Joined the shift",
+      joinedHint: "Your sales on this drawer are recorded under your name",
+      leave: "Leave",
+      left: "Left the shift",
+      sharedDrawer: "Shared drawer: {{names}}",
+      cashiers: "Cashiers",
+      notJoined: "Rang up sales without joining",
+      cashierTransactions: "{{count}} transaction(s)",
+      cashierRefunds: "{{amount}} refunded"
+    }
   },
   admin: {
     users: "Users",
@@ -412,5 +641,83 @@ export default {
     entity: "Entity",
     details: "Details",
     noAuditLogs: "No audit logs found"
+  },
+  purchasing: {
+    purchaseOrders: "Purchase Orders",
+    purchaseOrdersDesc: "Raise, approve and receive orders from suppliers",
+    newOrder: "New Purchase Order",
+    editOrder: "Edit Purchase Order",
+    noOrders: "No purchase orders yet",
+    supplier: "Supplier",
+    selectSupplier: "Select supplier",
+    expectedDate: "Expected Date",
+    orderDate: "Order Date",
+    unitCost: "Unit Cost",
+    taxRate: "Tax %",
+    ordered: "Ordered",
+    received: "Received",
+    remaining: "Remaining",
+    receiveNow: "Receive Now",
+    approve: "Approve",
+    markSent: "Mark as Sent",
+    receiveGoods: "Receive Goods",
+    confirmReceipt: "Post GRN",
+    closeOrder: "Close Order",
+    supplierReference: "Supplier Delivery Note",
+    receipts: "Goods Received",
+    noReceipts: "Nothing received against this order yet",
+    subtotal: "Subtotal",
+    tax: "Tax",
+    total: "Total",
+    allStatuses: "All statuses",
+    supplierInvoices: "Supplier Invoices",
+    supplierInvoicesDesc: "Match supplier invoices to purchase orders and goods received",
+    newInvoice: "New Invoice",
+    noInvoices: "No supplier invoices yet",
+    purchaseOrder: "Purchase Order",
+    invoiceNumber: "Invoice Number",
+    invoiceDate: "Invoice Date",
+    dueDate: "Due",
+    balance: "Balance",
+    invoiced: "Invoiced",
+    invoiceCost: "Invoice Cost",
+    poCost: "PO Cost",
+    matchResult: "Match",
+    varianceQueue: "Variance Queue",
+    noVariances: "No invoices awaiting variance approval",
+    variance: "Variance",
+    review: "Review",
+    apAging: "Payables Aging",
+    noPayables: "No unpaid supplier invoices",
+    nothingToInvoice: "Everything received on this order has already been invoiced",
+    selectOrderForLines: "Select a purchase order to load received lines",
+    saveAndMatch: "Save & Match",
+    poValue: "PO Value",
+    receivedValue: "Received Value",
+    invoiceValue: "Invoice Value",
+    tolerance: "Tolerance",
+    approvalNotes: "Approval Notes",
+    recordPayment: "Record Payment",
+    pay: "Pay",
+    rematch: "Re-match",
+    approveVariance: "Approve Variance",
+    suppliers: "Suppliers",
+    suppliersDesc: "Supplier master data and delivery performance",
+    addSupplier: "Add Supplier",
+    editSupplier: "Edit Supplier",
+    searchSuppliers: "Search suppliers...",
+    showInactive: "Show inactive",
+    scorecardPeriod: "Scorecard period",
+    noSuppliers: "No suppliers found",
+    contact: "Contact",
+    terms: "Terms",
+    leadTime: "Lead Time",
+    onTime: "On-Time",
+    fillRate: "Fill Rate",
+    costVariance: "Cost Variance",
+    openOrders: "Open Orders",
+    paymentTermsDays: "Payment Terms (days)",
+    leadTimeDays: "Lead Time (days)",
+    taxId: "Tax ID"
   }
 };
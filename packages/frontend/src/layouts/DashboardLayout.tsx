@@ -3,8 +3,8 @@ import { useAuthStore } from '@/stores/auth';
 import { cn } from '@/lib/utils';
 import {
   LayoutDashboard, Package, ShoppingCart, Warehouse, Users, BarChart3,
-  Settings, LogOut, ChevronDown, Store, Receipt,
-  Menu, X, Search, UserCircle
+  Settings, LogOut, ChevronDown, Store, Receipt, ClipboardList,
+  Menu, X, Search, UserCircle, Tag
 } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
@@ -34,15 +34,39 @@ const useNavigation = () => {
         { name: 'Stock Ledger', href: '/inventory/ledger' },
         { name: t('sidebar.stockAdjustments'), href: '/inventory/adjustments' },
         { name: t('sidebar.stockTransfers'), href: '/inventory/transfers' },
+        { name: t('inventory.stockCount'), href: '/inventory/count' },
+      ]
+    },
+    {
+      name: t('sidebar.purchasing'), icon: ClipboardList, children: [
+        { name: t('sidebar.purchaseOrders'), href: '/purchasing/orders' },
+        { name: t('sidebar.supplierInvoices'), href: '/purchasing/invoices' },
+        { name: t('sidebar.suppliers'), href: '/purchasing/suppliers' },
+      ]
+    },
+    {
+      name: 'Pricing', icon: Tag, children: [
+        { name: 'Promotions', href: '/pricing/promotions' },
+        { name: 'Price Lists', href: '/pricing/price-lists' },
+        { name: 'Vouchers', href: '/pricing/vouchers' },
       ]
     },
     {
       name: 'Sales', icon: Receipt, children: [
         { name: 'Receipts', href: '/pos/receipts' },
         { name: 'Shifts', href: '/pos/shifts' },
+        { name: 'Gift Cards', href: '/pos/gift-cards' },
+        { name: 'Safe', href: '/pos/safe' },
+        { name: t('sidebar.syncConflicts'), href: '/pos/sync-conflicts' },
+      ]
+    },
+    {
+      name: t('sidebar.customers'), icon: Users, children: [
+        { name: t('sidebar.customers'), href: '/customers' },
+        { name: 'Loyalty', href: '/customers/loyalty' },
+        { name: 'Segments', href: '/customers/segments' },
       ]
     },
-    { name: t('sidebar.customers'), href: '/customers', icon: Users },
     { name: t('sidebar.reports'), href: '/reports', icon: BarChart3 },
     {
       name: 'Admin', icon: Settings, children: [
@@ -17,10 +17,23 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Response interceptor - handle errors
+const isEnvelope = (body: unknown): body is { success: boolean; data?: unknown; error?: { code: string; message: string; details?: unknown } } =>
+  typeof body === 'object' && body !== null && typeof (body as { success?: unknown }).success === 'boolean';
+
+// Response interceptor - unwrap the { success, data, error } envelope and handle errors
+// Errors are flattened to { error: message, code, details } so pages can read response.data.error
 api.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    if (isEnvelope(response.data) && response.data.success) {
+      response.data = response.data.data;
+    }
+    return response;
+  },
   async (error) => {
+    const body = error.response?.data;
+    if (isEnvelope(body) && body.error) {
+      error.response.data = { error: body.error.message, code: body.error.code, details: body.error.details };
+    }
     if (error.response?.status === 401) {
       localStorage.removeItem('auth-storage');
       window.location.href = '/login';
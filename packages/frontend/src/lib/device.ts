@@ -0,0 +1,34 @@
+/**
+ * This browser's identity as a POS device
+ *
+ * A random key is generated once and kept in local storage; binding it to a
+ * register (Stores > Registers) makes this browser that register.
+ */
+
+const DEVICE_KEY_STORAGE = 'pos-device-key';
+
+export function getDeviceKey(): string {
+  let key = localStorage.getItem(DEVICE_KEY_STORAGE);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY_STORAGE, key);
+  }
+  return key;
+}
+
+// A readable label for the binding, e.g. "Chrome on Windows"
+export function describeDevice(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const platform = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'unknown device';
+  return `${browser} on ${platform}`;
+}
@@ -0,0 +1,157 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+
+/**
+ * Local POS storage (IndexedDB)
+ *
+ * - catalog:   last product list (with store stock and prices) per store
+ * - customers: customer directory for offline lookup
+ * - outbox:    sales recorded while the API was unreachable, replayed in
+ *              order with their idempotency key once the connection is back
+ */
+
+export interface CachedProduct {
+  id: string;
+  sku: string;
+  name: string;
+  sell_price: number;
+  category_name?: string;
+  stock_quantity?: number;
+  available_quantity?: number;
+  barcode?: string;
+}
+
+export interface CachedCustomer {
+  id: string;
+  first_name: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  loyalty_points?: number;
+}
+
+export interface OutboxSale {
+  idempotencyKey: string;
+  storeId: string;
+  provisionalNumber: string;
+  total: number;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+interface POSOfflineDB extends DBSchema {
+  catalog: {
+    key: string;
+    value: { storeId: string; products: CachedProduct[]; cachedAt: string };
+  };
+  customers: {
+    key: string;
+    value: CachedCustomer;
+  };
+  outbox: {
+    key: string;
+    value: OutboxSale;
+    indexes: { 'by-created': string };
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<POSOfflineDB>> | null = null;
+
+function getDB() {
+  if (!dbPromise) {
+    dbPromise = openDB<POSOfflineDB>('erp-pos-offline', 1, {
+      upgrade(db) {
+        db.createObjectStore('catalog', { keyPath: 'storeId' });
+        db.createObjectStore('customers', { keyPath: 'id' });
+        const outbox = db.createObjectStore('outbox', { keyPath: 'idempotencyKey' });
+        outbox.createIndex('by-created', 'createdAt');
+      },
+    });
+  }
+  return dbPromise;
+}
+
+// Catalog
+
+export async function cacheCatalog(storeId: string, products: CachedProduct[]) {
+  const db = await getDB();
+  await db.put('catalog', { storeId, products, cachedAt: new Date().toISOString() });
+}
+
+export async function getCachedCatalog(storeId: string, search = '') {
+  const db = await getDB();
+  const entry = await db.get('catalog', storeId);
+  if (!entry) return { products: [] as CachedProduct[], cachedAt: null };
+  const term = search.trim().toLowerCase();
+  const products = term
+    ? entry.products.filter(p =>
+        p.name.toLowerCase().includes(term) ||
+        p.sku?.toLowerCase().includes(term) ||
+        p.barcode?.toLowerCase().includes(term))
+    : entry.products;
+  return { products, cachedAt: entry.cachedAt };
+}
+
+/**
+ * Apply an offline sale to the cached stock so the register keeps showing
+ * sensible availability until the next catalog refresh
+ */
+export async function deductCachedStock(storeId: string, items: Array<{ productId: string; quantity: number }>) {
+  const db = await getDB();
+  const entry = await db.get('catalog', storeId);
+  if (!entry) return;
+  const sold = new Map(items.map(i => [i.productId, i.quantity]));
+  entry.products = entry.products.map(p => {
+    const qty = sold.get(p.id);
+    if (!qty) return p;
+    return {
+      ...p,
+      stock_quantity: (Number(p.stock_quantity) || 0) - qty,
+      available_quantity: p.available_quantity != null ? Number(p.available_quantity) - qty : p.available_quantity,
+    };
+  });
+  await db.put('catalog', entry);
+}
+
+// Customers
+
+export async function cacheCustomers(customers: CachedCustomer[]) {
+  const db = await getDB();
+  const tx = db.transaction('customers', 'readwrite');
+  await Promise.all([...customers.map(c => tx.store.put(c)), tx.done]);
+}
+
+export async function searchCachedCustomers(search = '') {
+  const db = await getDB();
+  const customers = await db.getAll('customers');
+  const term = search.trim().toLowerCase();
+  if (!term) return customers;
+  return customers.filter(c =>
+    `${c.first_name} ${c.last_name || ''}`.toLowerCase().includes(term) ||
+    c.phone?.includes(term) ||
+    c.email?.toLowerCase().includes(term));
+}
+
+// Outbox
+
+export async function addToOutbox(sale: Omit<OutboxSale, 'status' | 'attempts' | 'createdAt'>) {
+  const db = await getDB();
+  await db.put('outbox', { ...sale, status: 'pending', attempts: 0, createdAt: new Date().toISOString() });
+}
+
+export async function listOutbox() {
+  const db = await getDB();
+  return db.getAllFromIndex('outbox', 'by-created');
+}
+
+export async function updateOutboxEntry(entry: OutboxSale) {
+  const db = await getDB();
+  await db.put('outbox', entry);
+}
+
+export async function removeFromOutbox(idempotencyKey: string) {
+  const db = await getDB();
+  await db.delete('outbox', idempotencyKey);
+}
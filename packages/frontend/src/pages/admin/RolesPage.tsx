@@ -1,77 +1,240 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/hooks/use-toast';
 import {
   Shield, Users, ShoppingCart, Package, BarChart3, UserCog,
-  Settings, Loader2, Check, X, Store, FileText, Boxes
+  Loader2, Check, X, Boxes, Truck, Tag, Save, RotateCcw, Plus, Edit2, Trash2, Lock
 } from 'lucide-react';
 
 interface Role {
   id: string;
   name: string;
   description: string;
+  isSystem: boolean;
   permissions: string[];
   userCount: number;
 }
 
-const allPermissions = [
-  { id: 'pos', name: 'Point of Sale', icon: ShoppingCart, description: 'Access POS terminal and process sales' },
-  { id: 'inventory', name: 'Inventory', icon: Boxes, description: 'Manage stock, receive goods, adjustments' },
-  { id: 'products.view', name: 'View Products', icon: Package, description: 'View product catalog' },
-  { id: 'products.edit', name: 'Edit Products', icon: Package, description: 'Create and modify products' },
-  { id: 'customers.view', name: 'View Customers', icon: Users, description: 'View customer list' },
-  { id: 'customers.edit', name: 'Edit Customers', icon: Users, description: 'Create and modify customers' },
-  { id: 'reports', name: 'Reports', icon: BarChart3, description: 'Access all reports' },
-  { id: 'reports.inventory', name: 'Inventory Reports', icon: FileText, description: 'View inventory reports only' },
-  { id: 'admin.users', name: 'User Management', icon: UserCog, description: 'Manage user accounts' },
-  { id: 'admin.stores', name: 'Store Management', icon: Store, description: 'Manage store locations' },
-  { id: 'admin.settings', name: 'System Settings', icon: Settings, description: 'Configure system settings' },
-];
+interface PermissionDef {
+  code: string;
+  name: string;
+  description: string;
+}
+
+interface PermissionGroup {
+  name: string;
+  permissions: PermissionDef[];
+}
+
+const groupIcons: Record<string, typeof Shield> = {
+  POS: ShoppingCart,
+  Inventory: Boxes,
+  Purchasing: Truck,
+  Pricing: Tag,
+  Master: Package,
+  Customers: Users,
+  Reports: BarChart3,
+  Admin: UserCog,
+};
+
+const emptyForm = { name: '', description: '', permissions: [] as string[] };
 
 export default function RolesPage() {
-  const { data: rolesData, isLoading } = useQuery({
-    queryKey: ['admin-roles'],
+  const queryClient = useQueryClient();
+  // Unsaved permission edits keyed by role id
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [showModal, setShowModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: matrixData, isLoading } = useQuery({
+    queryKey: ['admin-permissions'],
     queryFn: async () => {
-      const res = await api.get('/admin/roles');
+      const res = await api.get('/admin/permissions');
+      return res.data;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, permissions }: { id: string; permissions: string[] }) => {
+      const res = await api.put(`/admin/roles/${id}/permissions`, { permissions });
       return res.data;
     },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-roles'] });
+      setDrafts(({ [id]: _saved, ...rest }) => rest);
+      toast({ title: 'Permissions Saved', description: 'Role permissions have been updated' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to save permissions', variant: 'destructive' });
+    },
   });
 
-  const roles: Role[] = rolesData?.roles || [];
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const res = await api.post('/admin/roles', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-roles'] });
+      toast({ title: 'Role Created', description: 'New role has been added successfully' });
+      closeModal();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to create role', variant: 'destructive' });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
+      const res = await api.put(`/admin/roles/${id}`, data);
+      return res.data;
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-roles'] });
+      setDrafts(({ [id]: _saved, ...rest }) => rest);
+      toast({ title: 'Role Updated', description: 'Role has been updated successfully' });
+      closeModal();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to update role', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/admin/roles/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-roles'] });
+      toast({ title: 'Role Deleted', description: 'Role has been deleted' });
+    },
+    onError: (error: any) => {
+      const errorData = error.response?.data;
+      const description = errorData?.code === 'ROLE_IN_USE'
+        ? `Reassign the ${errorData.details?.userCount} user(s) with this role first`
+        : errorData?.error || 'Failed to delete role';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    },
+  });
+
+  const roles: Role[] = matrixData?.roles || [];
+  const groups: PermissionGroup[] = matrixData?.groups || [];
+
+  const isFullAccess = (role: Role) => role.permissions.includes('*') || role.permissions.includes('all');
+  const canEdit = (role: Role) => !role.isSystem && !isFullAccess(role);
+  const currentPermissions = (role: Role) => drafts[role.id] ?? role.permissions;
+  const isDirty = (role: Role) => drafts[role.id] !== undefined;
+
+  const hasPermission = (role: Role, code: string) =>
+    isFullAccess(role) || currentPermissions(role).includes(code);
+
+  const togglePermission = (role: Role, code: string) => {
+    if (!canEdit(role)) return;
+    const current = currentPermissions(role);
+    const next = current.includes(code) ? current.filter(p => p !== code) : [...current, code];
+    setDrafts(prev => ({ ...prev, [role.id]: next }));
+  };
+
+  const discardChanges = (role: Role) => {
+    setDrafts(({ [role.id]: _discarded, ...rest }) => rest);
+  };
 
-  const hasPermission = (role: Role, permId: string) => {
-    if (role.permissions.includes('all')) return true;
-    return role.permissions.includes(permId);
+  const openCreate = () => {
+    setEditingRole(null);
+    setFormData(emptyForm);
+    setShowModal(true);
   };
 
-  const getRoleIcon = (roleId: string) => {
+  const openEdit = (role: Role) => {
+    setEditingRole(role);
+    setFormData({ name: role.name, description: role.description, permissions: currentPermissions(role) });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingRole(null);
+    setFormData(emptyForm);
+  };
+
+  const toggleFormPermission = (code: string) => {
+    const permissions = formData.permissions.includes(code)
+      ? formData.permissions.filter(p => p !== code)
+      : [...formData.permissions, code];
+    setFormData({ ...formData, permissions });
+  };
+
+  const toggleFormGroup = (group: PermissionGroup) => {
+    const codes = group.permissions.map(p => p.code);
+    const allSelected = codes.every(code => formData.permissions.includes(code));
+    const permissions = allSelected
+      ? formData.permissions.filter(p => !codes.includes(p))
+      : [...new Set([...formData.permissions, ...codes])];
+    setFormData({ ...formData, permissions });
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name.trim()) {
+      toast({ title: 'Error', description: 'Role name is required', variant: 'destructive' });
+      return;
+    }
+    if (editingRole) {
+      updateMutation.mutate({ id: editingRole.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const handleDelete = (role: Role) => {
+    if (confirm(`Delete the ${role.name} role?`)) {
+      deleteMutation.mutate(role.id);
+    }
+  };
+
+  const getRoleIcon = (role: Role) => {
     const icons: Record<string, string> = {
       admin: '👑',
       manager: '🏪',
       cashier: '💳',
       inventory: '📦',
     };
-    return icons[roleId] || '👤';
+    return icons[role.name.toLowerCase()] || '👤';
   };
 
-  const getRoleColor = (roleId: string) => {
+  const getRoleColor = (role: Role) => {
     const colors: Record<string, string> = {
       admin: 'from-purple-500 to-indigo-600',
       manager: 'from-blue-500 to-cyan-600',
       cashier: 'from-green-500 to-emerald-600',
       inventory: 'from-orange-500 to-amber-600',
     };
-    return colors[roleId] || 'from-gray-500 to-slate-600';
+    return colors[role.name.toLowerCase()] || 'from-gray-500 to-slate-600';
   };
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold flex items-center gap-2">
-          <Shield className="h-6 w-6 text-primary" />
-          Roles & Permissions
-        </h1>
-        <p className="text-muted-foreground mt-1">View role-based access control configuration</p>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Shield className="h-6 w-6 text-primary" />
+            Roles & Permissions
+          </h1>
+          <p className="text-muted-foreground mt-1">Control what each role can do. Click a cell to grant or revoke a permission.</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Role
+        </Button>
       </div>
 
       {isLoading ? (
@@ -87,16 +250,48 @@ export default function RolesPage() {
                 key={role.id}
                 className="bg-white rounded-xl border shadow-sm overflow-hidden hover:shadow-md transition-shadow"
               >
-                <div className={`h-2 bg-gradient-to-r ${getRoleColor(role.id)}`} />
+                <div className={`h-2 bg-gradient-to-r ${getRoleColor(role)}`} />
                 <div className="p-4">
                   <div className="flex items-center gap-3 mb-3">
-                    <span className="text-2xl">{getRoleIcon(role.id)}</span>
-                    <div>
-                      <h3 className="font-semibold">{role.name}</h3>
-                      <p className="text-xs text-muted-foreground">{role.userCount} users</p>
+                    <span className="text-2xl">{getRoleIcon(role)}</span>
+                    <div className="flex-1">
+                      <h3 className="font-semibold flex items-center gap-1">
+                        {role.name}
+                        {role.isSystem && <Lock className="h-3 w-3 text-muted-foreground" />}
+                      </h3>
+                      <p className="text-xs text-muted-foreground">
+                        {role.userCount} {role.userCount === 1 ? 'user' : 'users'}
+                        {isFullAccess(role) && ' · Full access'}
+                      </p>
                     </div>
+                    {!role.isSystem && (
+                      <div className="flex items-center">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(role)} title="Edit">
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(role)} title="Delete">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">{role.description}</p>
+                  {isDirty(role) && (
+                    <div className="mt-4 pt-4 border-t flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => saveMutation.mutate({ id: role.id, permissions: currentPermissions(role) })}
+                        disabled={saveMutation.isPending}
+                      >
+                        {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => discardChanges(role)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Discard
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -106,17 +301,17 @@ export default function RolesPage() {
           <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
             <div className="p-4 border-b bg-muted/30">
               <h2 className="font-semibold text-lg">Permissions Matrix</h2>
-              <p className="text-sm text-muted-foreground">Overview of what each role can access</p>
+              <p className="text-sm text-muted-foreground">Roles with full access cannot be edited here</p>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-muted/50 border-b">
                   <tr>
-                    <th className="text-left p-4 font-medium min-w-[200px]">Permission</th>
+                    <th className="text-left p-4 font-medium min-w-[240px]">Permission</th>
                     {roles.map((role) => (
                       <th key={role.id} className="text-center p-4 font-medium min-w-[100px]">
                         <div className="flex flex-col items-center gap-1">
-                          <span>{getRoleIcon(role.id)}</span>
+                          <span>{getRoleIcon(role)}</span>
                           <span className="text-xs">{role.name}</span>
                         </div>
                       </th>
@@ -124,87 +319,142 @@ export default function RolesPage() {
                   </tr>
                 </thead>
                 <tbody className="divide-y">
-                  {allPermissions.map((perm) => {
-                    const Icon = perm.icon;
-                    return (
-                      <tr key={perm.id} className="hover:bg-muted/20">
-                        <td className="p-4">
-                          <div className="flex items-center gap-3">
-                            <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
-                              <Icon className="h-4 w-4 text-primary" />
-                            </div>
-                            <div>
-                              <p className="font-medium text-sm">{perm.name}</p>
-                              <p className="text-xs text-muted-foreground">{perm.description}</p>
-                            </div>
+                  {groups.map((group) => {
+                    const Icon = groupIcons[group.name] || Shield;
+                    return [
+                      <tr key={group.name} className="bg-muted/30">
+                        <td colSpan={roles.length + 1} className="px-4 py-2">
+                          <div className="flex items-center gap-2 font-semibold text-sm">
+                            <Icon className="h-4 w-4 text-primary" />
+                            {group.name}
                           </div>
                         </td>
-                        {roles.map((role) => (
-                          <td key={role.id} className="text-center p-4">
-                            {hasPermission(role, perm.id) ? (
-                              <div className="inline-flex items-center justify-center h-8 w-8 rounded-full bg-green-100">
-                                <Check className="h-4 w-4 text-green-600" />
-                              </div>
-                            ) : (
-                              <div className="inline-flex items-center justify-center h-8 w-8 rounded-full bg-gray-100">
-                                <X className="h-4 w-4 text-gray-400" />
-                              </div>
-                            )}
+                      </tr>,
+                      ...group.permissions.map((perm) => (
+                        <tr key={perm.code} className="hover:bg-muted/20">
+                          <td className="p-4 pl-10">
+                            <p className="font-medium text-sm">{perm.name}</p>
+                            <p className="text-xs text-muted-foreground">{perm.description}</p>
                           </td>
-                        ))}
-                      </tr>
-                    );
+                          {roles.map((role) => (
+                            <td key={role.id} className="text-center p-4">
+                              <button
+                                type="button"
+                                onClick={() => togglePermission(role, perm.code)}
+                                disabled={!canEdit(role)}
+                                title={canEdit(role) ? 'Click to toggle' : 'This role cannot be edited'}
+                                className="disabled:cursor-not-allowed"
+                              >
+                                {hasPermission(role, perm.code) ? (
+                                  <div className="inline-flex items-center justify-center h-8 w-8 rounded-full bg-green-100">
+                                    <Check className="h-4 w-4 text-green-600" />
+                                  </div>
+                                ) : (
+                                  <div className="inline-flex items-center justify-center h-8 w-8 rounded-full bg-gray-100">
+                                    <X className="h-4 w-4 text-gray-400" />
+                                  </div>
+                                )}
+                              </button>
+                            </td>
+                          ))}
+                        </tr>
+                      )),
+                    ];
                   })}
                 </tbody>
               </table>
             </div>
           </div>
+        </>
+      )}
 
-          {/* Role Details */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {roles.map((role) => (
-              <div key={role.id} className="bg-white rounded-xl border shadow-sm overflow-hidden">
-                <div className={`p-4 bg-gradient-to-r ${getRoleColor(role.id)} text-white`}>
-                  <div className="flex items-center gap-3">
-                    <span className="text-3xl">{getRoleIcon(role.id)}</span>
-                    <div>
-                      <h3 className="font-bold text-lg">{role.name}</h3>
-                      <p className="text-white/80 text-sm">{role.description}</p>
-                    </div>
-                  </div>
+      {/* Role Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 m-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold">{editingRole ? 'Edit Role' : 'New Role'}</h3>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4 overflow-y-auto">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm font-medium mb-1.5 block">Name *</label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Shift Supervisor"
+                  />
                 </div>
-                <div className="p-4">
-                  <h4 className="font-medium text-sm text-muted-foreground mb-3">Granted Permissions</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {role.permissions.includes('all') ? (
-                      <span className="px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-sm font-medium">
-                        Full Access
-                      </span>
-                    ) : (
-                      role.permissions.map((perm) => {
-                        const permDef = allPermissions.find(p => p.id === perm);
-                        return (
-                          <span
-                            key={perm}
-                            className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm"
-                          >
-                            {permDef?.name || perm}
-                          </span>
-                        );
-                      })
-                    )}
-                  </div>
-                  <div className="mt-4 pt-4 border-t flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">
-                      <Users className="h-4 w-4 inline mr-1" />
-                      {role.userCount} {role.userCount === 1 ? 'user' : 'users'} assigned
-                    </span>
-                  </div>
+                <div>
+                  <label className="text-sm font-medium mb-1.5 block">Description</label>
+                  <Input
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="What this role is for"
+                  />
                 </div>
               </div>
-            ))}
+
+              <div className="space-y-3">
+                <label className="text-sm font-medium block">Permissions</label>
+                {groups.map((group) => {
+                  const Icon = groupIcons[group.name] || Shield;
+                  const selected = group.permissions.filter(p => formData.permissions.includes(p.code)).length;
+                  return (
+                    <div key={group.name} className="rounded-lg border">
+                      <label className="flex items-center gap-2 px-3 py-2 bg-muted/30 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected === group.permissions.length}
+                          onChange={() => toggleFormGroup(group)}
+                        />
+                        <Icon className="h-4 w-4 text-primary" />
+                        <span className="font-semibold text-sm flex-1">{group.name}</span>
+                        <span className="text-xs text-muted-foreground">{selected}/{group.permissions.length}</span>
+                      </label>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 p-2">
+                        {group.permissions.map((perm) => (
+                          <label key={perm.code} className="flex items-start gap-2 p-2 rounded hover:bg-muted/20 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={formData.permissions.includes(perm.code)}
+                              onChange={() => toggleFormPermission(perm.code)}
+                              className="mt-1"
+                            />
+                            <span>
+                              <span className="block text-sm font-medium">{perm.name}</span>
+                              <span className="block text-xs text-muted-foreground">{perm.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button variant="outline" className="flex-1" onClick={closeModal}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleSubmit}
+                disabled={createMutation.isPending || updateMutation.isPending}
+              >
+                {(createMutation.isPending || updateMutation.isPending) && (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                )}
+                {editingRole ? 'Update' : 'Create'}
+              </Button>
+            </div>
           </div>
-        </>
+        </div>
       )}
     </div>
   );
@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
 import {
   Settings, Save, Building2, DollarSign, Clock, Receipt, Package,
-  Loader2, AlertTriangle, Globe, Percent
+  Loader2, AlertTriangle, Globe, Percent, ClipboardList
 } from 'lucide-react';
 
 interface SettingsData {
@@ -19,6 +19,11 @@ interface SettingsData {
   allowNegativeStock: boolean;
   requireCustomer: boolean;
   autoGenerateSku: boolean;
+  matchQtyTolerancePct: number;
+  matchPriceTolerancePct: number;
+  giftCardExpiryMonths: number;
+  blindCashUp: boolean;
+  cashVarianceThreshold: number | null;
 }
 
 const currencies = [
@@ -50,6 +55,11 @@ export default function SettingsPage() {
     allowNegativeStock: false,
     requireCustomer: false,
     autoGenerateSku: true,
+    matchQtyTolerancePct: 0,
+    matchPriceTolerancePct: 2,
+    giftCardExpiryMonths: 12,
+    blindCashUp: false,
+    cashVarianceThreshold: null,
   });
   const [hasChanges, setHasChanges] = useState(false);
 
@@ -74,6 +84,7 @@ export default function SettingsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-up'] });
       toast({ title: 'Settings Saved', description: 'Your settings have been updated successfully' });
       setHasChanges(false);
     },
@@ -239,6 +250,41 @@ export default function SettingsPage() {
               onChange={(v) => handleChange('requireCustomer', v)}
             />
           </div>
+          <div className="pt-3 border-t">
+            <label className="text-sm font-medium mb-1.5 block">Gift Card Validity (months)</label>
+            <Input
+              type="number"
+              value={settings.giftCardExpiryMonths}
+              onChange={(e) => handleChange('giftCardExpiryMonths', parseInt(e.target.value) || 0)}
+              min="0"
+              step="1"
+              className="max-w-[200px]"
+            />
+            <p className="text-xs text-muted-foreground mt-1">Gift cards sold or reloaded at the POS expire after this many months; 0 never expires</p>
+          </div>
+          <div className="flex items-center justify-between py-3 border-t">
+            <div>
+              <p className="font-medium">Blind Cash-Up</p>
+              <p className="text-sm text-muted-foreground">Cashiers count the drawer at close without seeing the expected cash</p>
+            </div>
+            <Toggle
+              value={settings.blindCashUp}
+              onChange={(v) => handleChange('blindCashUp', v)}
+            />
+          </div>
+          <div className="pt-3 border-t">
+            <label className="text-sm font-medium mb-1.5 block">Cash Variance Needing Approval</label>
+            <Input
+              type="number"
+              value={settings.cashVarianceThreshold ?? ''}
+              onChange={(e) => handleChange('cashVarianceThreshold', e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.01"
+              placeholder="No approval"
+              className="max-w-[200px]"
+            />
+            <p className="text-xs text-muted-foreground mt-1">A shift closing over or short by more than this needs a manager's approval; leave empty to never ask</p>
+          </div>
         </div>
       </div>
 
@@ -281,6 +327,38 @@ export default function SettingsPage() {
           </div>
         </div>
       </div>
+
+      {/* Purchasing Settings */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="p-4 border-b bg-muted/30 flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          <h2 className="font-semibold">Purchasing Settings</h2>
+        </div>
+        <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium mb-1.5 block">Invoice Quantity Tolerance (%)</label>
+            <Input
+              type="number"
+              value={settings.matchQtyTolerancePct}
+              onChange={(e) => handleChange('matchQtyTolerancePct', parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.5"
+            />
+            <p className="text-xs text-muted-foreground mt-1">How far invoiced quantity may exceed received quantity</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1.5 block">Invoice Price Tolerance (%)</label>
+            <Input
+              type="number"
+              value={settings.matchPriceTolerancePct}
+              onChange={(e) => handleChange('matchPriceTolerancePct', parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.5"
+            />
+            <p className="text-xs text-muted-foreground mt-1">Allowed difference between invoice and PO unit cost before approval is required</p>
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
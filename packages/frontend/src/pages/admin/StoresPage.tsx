@@ -5,9 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/stores/auth';
+import { describeDevice, getDeviceKey } from '@/lib/device';
+import { Register, useDeviceRegister } from '@/hooks/use-device-register';
 import {
   Store, Plus, Search, Edit2, Trash2, MapPin, Phone, Mail,
-  Loader2, X, Users, Package, CheckCircle, XCircle, AlertTriangle
+  Loader2, X, Users, Package, CheckCircle, XCircle, AlertTriangle, Banknote,
+  Monitor, Link2, Unlink
 } from 'lucide-react';
 
 interface StoreData {
@@ -18,6 +21,7 @@ interface StoreData {
   phone?: string;
   email?: string;
   is_active: boolean;
+  drawer_limit?: string | null;
   created_at: string;
   user_count: number;
   product_count: number;
@@ -29,6 +33,7 @@ export default function StoresPage() {
   const [search, setSearch] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingStore, setEditingStore] = useState<StoreData | null>(null);
+  const [registersStore, setRegistersStore] = useState<StoreData | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     code: '',
@@ -36,6 +41,7 @@ export default function StoresPage() {
     phone: '',
     email: '',
     isActive: true,
+    drawerLimit: '',
   });
   
   // Store limit from tenant
@@ -50,9 +56,15 @@ export default function StoresPage() {
     },
   });
 
+  // An empty drawer limit clears it
+  const toPayload = (data: typeof formData) => ({
+    ...data,
+    drawerLimit: data.drawerLimit === '' ? null : parseFloat(data.drawerLimit),
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
-      const res = await api.post('/admin/stores', data);
+      const res = await api.post('/admin/stores', toPayload(data));
       return res.data;
     },
     onSuccess: () => {
@@ -63,10 +75,10 @@ export default function StoresPage() {
     },
     onError: (error: any) => {
       const errorData = error.response?.data;
-      if (errorData?.error === 'STORE_LIMIT_REACHED') {
+      if (errorData?.code === 'STORE_LIMIT_REACHED') {
         toast({ 
           title: 'Store Limit Reached', 
-          description: errorData.message || 'Please contact the administrator to increase your plan limit.',
+          description: errorData.error || 'Please contact the administrator to increase your plan limit.',
           variant: 'destructive' 
         });
       } else {
@@ -77,7 +89,7 @@ export default function StoresPage() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: typeof formData }) => {
-      const res = await api.put(`/admin/stores/${id}`, data);
+      const res = await api.put(`/admin/stores/${id}`, toPayload(data));
       return res.data;
     },
     onSuccess: () => {
@@ -116,7 +128,7 @@ export default function StoresPage() {
   const closeModal = () => {
     setShowModal(false);
     setEditingStore(null);
-    setFormData({ name: '', code: '', address: '', phone: '', email: '', isActive: true });
+    setFormData({ name: '', code: '', address: '', phone: '', email: '', isActive: true, drawerLimit: '' });
   };
 
   const openEdit = (store: StoreData) => {
@@ -128,6 +140,7 @@ export default function StoresPage() {
       phone: store.phone || '',
       email: store.email || '',
       isActive: store.is_active,
+      drawerLimit: store.drawer_limit != null ? String(parseFloat(store.drawer_limit)) : '',
     });
     setShowModal(true);
   };
@@ -137,6 +150,10 @@ export default function StoresPage() {
       toast({ title: 'Error', description: 'Store name is required', variant: 'destructive' });
       return;
     }
+    if (formData.drawerLimit !== '' && !(parseFloat(formData.drawerLimit) > 0)) {
+      toast({ title: 'Error', description: 'Drawer limit must be greater than 0', variant: 'destructive' });
+      return;
+    }
     if (editingStore) {
       updateMutation.mutate({ id: editingStore.id, data: formData });
     } else {
@@ -270,6 +287,11 @@ export default function StoresPage() {
               </div>
 
               <div className="px-5 py-3 bg-muted/30 border-t flex items-center justify-end gap-2">
+                {store.is_active && (
+                  <Button variant="ghost" size="sm" onClick={() => setRegistersStore(store)}>
+                    <Monitor className="h-4 w-4 mr-1" /> Registers
+                  </Button>
+                )}
                 <Button variant="ghost" size="sm" onClick={() => openEdit(store)}>
                   <Edit2 className="h-4 w-4 mr-1" /> Edit
                 </Button>
@@ -355,6 +377,23 @@ export default function StoresPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="text-sm font-medium mb-1.5 block flex items-center gap-2">
+                  <Banknote className="h-4 w-4" /> Drawer Limit
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.drawerLimit}
+                  onChange={(e) => setFormData({ ...formData, drawerLimit: e.target.value })}
+                  placeholder="No limit"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Cashiers are prompted to drop cash into the safe once the drawer holds more than this
+                </p>
+              </div>
+
               {editingStore && (
                 <div className="flex items-center justify-between py-3 border-t">
                   <div>
@@ -391,6 +430,181 @@ export default function StoresPage() {
           </div>
         </div>
       )}
+
+      {registersStore && (
+        <RegistersModal store={registersStore} onClose={() => setRegistersStore(null)} />
+      )}
+    </div>
+  );
+}
+
+// Tills of a store; binding makes the browser in use that register
+function RegistersModal({ store, onClose }: { store: StoreData; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['registers', store.id, 'all'],
+    queryFn: async () => {
+      const res = await api.get('/registers', { params: { storeId: store.id, all: 'true' } });
+      return res.data.registers as Register[];
+    },
+  });
+  const registers = data || [];
+
+  const { data: thisDevice } = useDeviceRegister(store.id);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['registers'] });
+    queryClient.invalidateQueries({ queryKey: ['device-register'] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => api.post('/registers', { storeId: store.id, name: newName.trim() }),
+    onSuccess: () => {
+      onSuccess();
+      setNewName('');
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { name?: string; isActive?: boolean } }) =>
+      api.put(`/registers/${id}`, data),
+    onSuccess: () => {
+      onSuccess();
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const bindMutation = useMutation({
+    mutationFn: async (register: Register) =>
+      api.post(`/registers/${register.id}/bind`, { deviceKey: getDeviceKey(), deviceName: describeDevice() }),
+    onSuccess: (_res, register) => {
+      onSuccess();
+      toast({ title: 'Browser bound', description: `This browser is now ${register.name}` });
+    },
+    onError,
+  });
+
+  const unbindMutation = useMutation({
+    mutationFn: async (id: string) => api.post(`/registers/${id}/unbind`),
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Monitor className="h-5 w-5" /> Registers
+            </h2>
+            <p className="text-sm text-muted-foreground">{store.name}</p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-muted-foreground">
+            Shifts are opened on a register. Bind a browser to make it that register; cashiers at the
+            same register join its shift and share the drawer.
+          </p>
+
+          {isLoading ? (
+            <div className="py-6 text-center"><Loader2 className="h-6 w-6 animate-spin mx-auto" /></div>
+          ) : registers.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-4">No registers yet</p>
+          ) : (
+            <div className="space-y-2">
+              {registers.map(register => (
+                <div
+                  key={register.id}
+                  className={`rounded-lg border p-3 space-y-2 ${!register.is_active ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    {editing?.id === register.id ? (
+                      <div className="flex items-center gap-2 flex-1">
+                        <Input
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          className="h-8"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: register.id, data: { name: editing.name.trim() } })}
+                          disabled={!editing.name.trim() || updateMutation.isPending}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="font-medium">
+                          {register.name}
+                          {thisDevice?.id === register.id && (
+                            <span className="ml-2 text-xs text-primary bg-primary/10 px-2 py-0.5 rounded-full">This browser</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {register.device_bound ? `Bound to ${register.device_name || 'a browser'}` : 'No browser bound'}
+                          {register.open_shift_number && ` · Shift ${register.open_shift_number} open (${register.open_shift_cashiers})`}
+                        </p>
+                      </div>
+                    )}
+                    {editing?.id !== register.id && (
+                      <Button variant="ghost" size="sm" onClick={() => setEditing({ id: register.id, name: register.name })}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {register.is_active && thisDevice?.id !== register.id && (
+                      <Button variant="outline" size="sm" onClick={() => bindMutation.mutate(register)} disabled={bindMutation.isPending}>
+                        <Link2 className="h-4 w-4 mr-1" /> Bind this browser
+                      </Button>
+                    )}
+                    {register.device_bound && (
+                      <Button variant="outline" size="sm" onClick={() => unbindMutation.mutate(register.id)} disabled={unbindMutation.isPending}>
+                        <Unlink className="h-4 w-4 mr-1" /> Unbind
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={register.is_active ? 'text-red-500 hover:text-red-600 hover:bg-red-50' : ''}
+                      onClick={() => updateMutation.mutate({ id: register.id, data: { isActive: !register.is_active } })}
+                      disabled={updateMutation.isPending}
+                    >
+                      {register.is_active ? 'Switch off' : 'Switch on'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2 border-t">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={`Register ${registers.length + 1}`}
+              onKeyDown={(e) => e.key === 'Enter' && newName.trim() && createMutation.mutate()}
+            />
+            <Button onClick={() => createMutation.mutate()} disabled={!newName.trim() || createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
@@ -14,7 +14,8 @@ interface User {
   email: string;
   first_name: string;
   last_name: string;
-  role: string;
+  role_name: string;
+  roles: { id: string; name: string }[];
   is_active: boolean;
   created_at: string;
   last_login?: string;
@@ -27,6 +28,12 @@ interface Store {
   name: string;
 }
 
+interface Role {
+  id: string;
+  name: string;
+  description: string;
+}
+
 export default function UsersPage() {
   const queryClient = useQueryClient();
   const [search, setSearch] = useState('');
@@ -39,7 +46,7 @@ export default function UsersPage() {
     password: '',
     firstName: '',
     lastName: '',
-    role: 'cashier',
+    roleIds: [] as string[],
     storeId: '',
   });
 
@@ -59,6 +66,14 @@ export default function UsersPage() {
     },
   });
 
+  const { data: rolesData } = useQuery({
+    queryKey: ['admin-roles'],
+    queryFn: async () => {
+      const res = await api.get('/admin/roles');
+      return res.data;
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const res = await api.post('/admin/users', data);
@@ -123,6 +138,7 @@ export default function UsersPage() {
 
   const users: User[] = usersData?.users || [];
   const stores: Store[] = storesData?.stores || [];
+  const roles: Role[] = rolesData?.roles || [];
 
   const filteredUsers = users.filter(u =>
     u.email.toLowerCase().includes(search.toLowerCase()) ||
@@ -133,7 +149,7 @@ export default function UsersPage() {
   const closeModal = () => {
     setShowModal(false);
     setEditingUser(null);
-    setFormData({ email: '', password: '', firstName: '', lastName: '', role: 'cashier', storeId: '' });
+    setFormData({ email: '', password: '', firstName: '', lastName: '', roleIds: [], storeId: '' });
   };
 
   const openEdit = (user: User) => {
@@ -143,7 +159,7 @@ export default function UsersPage() {
       password: '',
       firstName: user.first_name || '',
       lastName: user.last_name || '',
-      role: user.role,
+      roleIds: user.roles.map(r => r.id),
       storeId: user.store_id || '',
     });
     setShowModal(true);
@@ -160,7 +176,7 @@ export default function UsersPage() {
         data: {
           firstName: formData.firstName,
           lastName: formData.lastName,
-          role: formData.role,
+          roleIds: formData.roleIds,
           storeId: formData.storeId || null,
           isActive: editingUser.is_active,
         },
@@ -180,13 +196,19 @@ export default function UsersPage() {
       data: {
         firstName: user.first_name,
         lastName: user.last_name,
-        role: user.role,
         storeId: user.store_id,
         isActive: !user.is_active,
       },
     });
   };
 
+  const toggleRole = (roleId: string) => {
+    const roleIds = formData.roleIds.includes(roleId)
+      ? formData.roleIds.filter(id => id !== roleId)
+      : [...formData.roleIds, roleId];
+    setFormData({ ...formData, roleIds });
+  };
+
   const getRoleBadge = (role: string) => {
     const colors: Record<string, string> = {
       admin: 'bg-purple-100 text-purple-700 border-purple-200',
@@ -194,7 +216,7 @@ export default function UsersPage() {
       cashier: 'bg-green-100 text-green-700 border-green-200',
       inventory: 'bg-orange-100 text-orange-700 border-orange-200',
     };
-    return colors[role] || 'bg-gray-100 text-gray-700 border-gray-200';
+    return colors[role.toLowerCase()] || 'bg-gray-100 text-gray-700 border-gray-200';
   };
 
   return (
@@ -268,9 +290,17 @@ export default function UsersPage() {
                     </div>
                   </td>
                   <td className="p-4">
-                    <span className={`px-2.5 py-1 rounded-full text-xs font-medium border ${getRoleBadge(user.role)}`}>
-                      {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                    </span>
+                    {user.roles.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {user.roles.map((role) => (
+                          <span key={role.id} className={`px-2.5 py-1 rounded-full text-xs font-medium border ${getRoleBadge(role.name)}`}>
+                            {role.name.charAt(0).toUpperCase() + role.name.slice(1)}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground text-sm">{user.role_name}</span>
+                    )}
                   </td>
                   <td className="p-4">
                     {user.store_name ? (
@@ -383,17 +413,23 @@ export default function UsersPage() {
               )}
 
               <div>
-                <label className="text-sm font-medium mb-1.5 block">Role</label>
-                <select
-                  value={formData.role}
-                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
-                  className="w-full h-10 px-3 rounded-md border border-input bg-background"
-                >
-                  <option value="admin">Administrator</option>
-                  <option value="manager">Store Manager</option>
-                  <option value="cashier">Cashier</option>
-                  <option value="inventory">Inventory Staff</option>
-                </select>
+                <label className="text-sm font-medium mb-1.5 block">Roles</label>
+                <div className="max-h-40 overflow-y-auto rounded-md border border-input divide-y">
+                  {roles.map((role) => (
+                    <label key={role.id} className="flex items-start gap-3 px-3 py-2 cursor-pointer hover:bg-muted/30">
+                      <input
+                        type="checkbox"
+                        checked={formData.roleIds.includes(role.id)}
+                        onChange={() => toggleRole(role.id)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium">{role.name}</span>
+                        <span className="block text-xs text-muted-foreground">{role.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
               </div>
 
               <div>
@@ -0,0 +1,494 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import {
+  ArrowLeft, Users, Loader2, Star, Receipt, RotateCcw, ShoppingBag, GitMerge, X, Search
+} from 'lucide-react';
+
+type RfmSegment = 'champions' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'hibernating' | 'lost';
+
+interface CustomerProfile {
+  customer: {
+    id: string;
+    code: string;
+    first_name: string;
+    last_name?: string;
+    email?: string;
+    phone?: string;
+    customer_group_name?: string;
+    is_active: boolean;
+    merged_into_id?: string;
+    merged_into_name?: string;
+    created_at: string;
+  };
+  summary: {
+    receiptCount: number;
+    returnCount: number;
+    totalSpent: number;
+    totalRefunded: number;
+    lifetimeValue: number;
+    averageBasket: number;
+    firstPurchase: string | null;
+    lastPurchase: string | null;
+    daysSinceLastVisit: number | null;
+    visitCount: number;
+    visitsPerMonth: number;
+    averageDaysBetweenVisits: number | null;
+    storeCount: number;
+  };
+  rfm: { recency: number; frequency: number; monetary: number; segment: RfmSegment } | null;
+  favouriteProducts: { product_id: string; name: string; sku: string; quantity: string; amount: string; receipt_count: string }[];
+  receipts: {
+    id: string;
+    receipt_number: string;
+    receipt_date: string;
+    status: string;
+    total_amount: string;
+    store_name: string;
+    item_count: string;
+  }[];
+  returns: {
+    id: string;
+    receipt_number: string;
+    receipt_date: string;
+    refund_amount: string;
+    store_name: string;
+    original_receipt_number?: string;
+  }[];
+  mergedCustomers: { id: string; code: string; first_name: string; last_name?: string; merged_at: string }[];
+  wallet: {
+    enabled: boolean;
+    balance: number;
+    balanceValue: number;
+    lifetimePoints: number;
+    tier: { code: string; name: string; earnMultiplier: number };
+    nextTier: { code: string; name: string; pointsNeeded: number } | null;
+    expiringSoon: number;
+  };
+}
+
+interface CustomerOption {
+  id: string;
+  first_name: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+}
+
+const segmentLabels: Record<RfmSegment, { label: string; className: string }> = {
+  champions: { label: 'Champion', className: 'bg-emerald-100 text-emerald-700' },
+  loyal: { label: 'Loyal', className: 'bg-blue-100 text-blue-700' },
+  new: { label: 'New', className: 'bg-indigo-100 text-indigo-700' },
+  promising: { label: 'Promising', className: 'bg-cyan-100 text-cyan-700' },
+  at_risk: { label: 'At risk', className: 'bg-amber-100 text-amber-700' },
+  hibernating: { label: 'Hibernating', className: 'bg-orange-100 text-orange-700' },
+  lost: { label: 'Lost', className: 'bg-slate-100 text-slate-600' },
+};
+
+export default function CustomerDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [tab, setTab] = useState<'receipts' | 'returns'>('receipts');
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeSearch, setMergeSearch] = useState('');
+  const [duplicate, setDuplicate] = useState<CustomerOption | null>(null);
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['customer-profile', id],
+    queryFn: async () => {
+      const res = await api.get(`/customers/${id}/profile`);
+      return res.data as CustomerProfile;
+    },
+    enabled: !!id,
+  });
+
+  const { data: searchData, isFetching: searching } = useQuery({
+    queryKey: ['customers', mergeSearch],
+    queryFn: async () => {
+      const res = await api.get('/customers', { params: { search: mergeSearch } });
+      return res.data;
+    },
+    enabled: showMerge && mergeSearch.length >= 2,
+  });
+  const candidates: CustomerOption[] = (searchData?.customers || []).filter((c: CustomerOption) => c.id !== id);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (duplicateId: string) => {
+      const res = await api.post(`/customers/${id}/merge`, { duplicateId });
+      return res.data;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['customer-profile'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['loyalty-wallet'] });
+      closeMerge();
+      toast({ title: 'Customers merged', description: `${result.receiptsMoved} receipts moved to this customer.` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to merge customers', variant: 'destructive' });
+    },
+  });
+
+  const closeMerge = () => {
+    setShowMerge(false);
+    setMergeSearch('');
+    setDuplicate(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-12">
+        <Users className="h-16 w-16 mx-auto text-slate-300 mb-4" />
+        <p className="text-lg font-medium">Customer not found</p>
+        <Link to="/customers">
+          <Button variant="outline" className="mt-4">
+            <ArrowLeft className="h-4 w-4 mr-2" /> Back to Customers
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { customer, summary, rfm, wallet } = profile;
+  const stats = [
+    { label: 'Lifetime value', value: formatCurrency(summary.lifetimeValue, currency) },
+    { label: 'Receipts', value: summary.receiptCount },
+    { label: 'Average basket', value: formatCurrency(summary.averageBasket, currency) },
+    { label: 'Returns', value: `${summary.returnCount} · ${formatCurrency(summary.totalRefunded, currency)}` },
+    { label: 'Visits per month', value: summary.visitsPerMonth },
+    {
+      label: 'Last visit',
+      value: summary.daysSinceLastVisit === null ? '-' : summary.daysSinceLastVisit === 0 ? 'Today' : `${summary.daysSinceLastVisit} days ago`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link to="/customers">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-3">
+              {customer.first_name} {customer.last_name || ''}
+              {rfm && (
+                <span className={cn('text-xs px-2 py-1 rounded-full font-medium', segmentLabels[rfm.segment].className)}>
+                  {segmentLabels[rfm.segment].label}
+                </span>
+              )}
+            </h1>
+            <p className="text-muted-foreground text-sm">
+              {customer.code}
+              {customer.phone && ` · ${customer.phone}`}
+              {customer.email && ` · ${customer.email}`}
+              {customer.customer_group_name && ` · ${customer.customer_group_name}`}
+            </p>
+          </div>
+        </div>
+        {customer.is_active && (
+          <Button variant="outline" onClick={() => setShowMerge(true)}>
+            <GitMerge className="h-4 w-4 mr-2" /> Merge Duplicate
+          </Button>
+        )}
+      </div>
+
+      {customer.merged_into_id && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          This customer was merged into{' '}
+          <Link to={`/customers/${customer.merged_into_id}`} className="font-semibold underline">
+            {customer.merged_into_name}
+          </Link>
+          ; its history now belongs to that customer.
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-xl border shadow-sm p-4">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Visit pattern and RFM */}
+        <div className="bg-white rounded-xl border shadow-sm p-6 space-y-3">
+          <h2 className="font-semibold">Shopping Pattern</h2>
+          <div className="text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">First purchase</span>
+              <span>{summary.firstPurchase ? formatDate(summary.firstPurchase) : '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Visits</span>
+              <span>{summary.visitCount} across {summary.storeCount} store{summary.storeCount === 1 ? '' : 's'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Days between visits</span>
+              <span>{summary.averageDaysBetweenVisits ?? '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Gross spend</span>
+              <span>{formatCurrency(summary.totalSpent, currency)}</span>
+            </div>
+          </div>
+          {rfm ? (
+            <div className="pt-3 border-t">
+              <p className="text-xs text-muted-foreground mb-2">RFM score (1-5 against your other customers)</p>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[['Recency', rfm.recency], ['Frequency', rfm.frequency], ['Monetary', rfm.monetary]].map(([label, score]) => (
+                  <div key={label} className="rounded-lg bg-slate-50 p-2">
+                    <p className="text-xl font-bold">{score}</p>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="pt-3 border-t text-sm text-muted-foreground">No purchases yet</p>
+          )}
+        </div>
+
+        {/* Loyalty */}
+        <div className="bg-white rounded-xl border shadow-sm p-6 space-y-3">
+          <h2 className="font-semibold flex items-center gap-2"><Star className="h-4 w-4 text-amber-500" /> Loyalty</h2>
+          {!wallet.enabled && <p className="text-xs text-muted-foreground">The loyalty programme is switched off</p>}
+          <div>
+            <p className="text-3xl font-bold">{wallet.balance} <span className="text-base font-medium text-muted-foreground">points</span></p>
+            <p className="text-sm text-muted-foreground">Worth {formatCurrency(wallet.balanceValue, currency)}</p>
+          </div>
+          <div className="text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tier</span>
+              <span className="font-medium">{wallet.tier.name}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Lifetime points</span>
+              <span>{wallet.lifetimePoints}</span>
+            </div>
+            {wallet.nextTier && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">To {wallet.nextTier.name}</span>
+                <span>{wallet.nextTier.pointsNeeded} points</span>
+              </div>
+            )}
+            {wallet.expiringSoon > 0 && (
+              <div className="flex justify-between text-amber-600">
+                <span>Expiring in 30 days</span>
+                <span>{wallet.expiringSoon} points</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Favourite products */}
+        <div className="bg-white rounded-xl border shadow-sm p-6 space-y-3">
+          <h2 className="font-semibold flex items-center gap-2"><ShoppingBag className="h-4 w-4" /> Favourite Products</h2>
+          {profile.favouriteProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No purchases yet</p>
+          ) : (
+            <div className="divide-y">
+              {profile.favouriteProducts.map(product => (
+                <div key={product.product_id} className="py-2 flex justify-between text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{product.name}</p>
+                    <p className="text-xs text-muted-foreground">{product.receipt_count} receipts</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium">×{parseFloat(product.quantity)}</p>
+                    <p className="text-xs text-muted-foreground">{formatCurrency(parseFloat(product.amount), currency)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="flex border-b">
+          <button
+            onClick={() => setTab('receipts')}
+            className={cn('px-6 py-3 text-sm font-medium flex items-center gap-2', tab === 'receipts' ? 'border-b-2 border-primary text-primary' : 'text-muted-foreground')}
+          >
+            <Receipt className="h-4 w-4" /> Receipts ({summary.receiptCount})
+          </button>
+          <button
+            onClick={() => setTab('returns')}
+            className={cn('px-6 py-3 text-sm font-medium flex items-center gap-2', tab === 'returns' ? 'border-b-2 border-primary text-primary' : 'text-muted-foreground')}
+          >
+            <RotateCcw className="h-4 w-4" /> Returns ({summary.returnCount})
+          </button>
+        </div>
+        {tab === 'receipts' ? (
+          profile.receipts.length === 0 ? (
+            <p className="p-8 text-center text-muted-foreground">No receipts</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Receipt</th>
+                  <th className="text-left p-3 font-medium">Date</th>
+                  <th className="text-left p-3 font-medium">Store</th>
+                  <th className="text-right p-3 font-medium">Items</th>
+                  <th className="text-right p-3 font-medium">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {profile.receipts.map(receipt => (
+                  <tr key={receipt.id}>
+                    <td className="p-3 font-medium">
+                      {receipt.receipt_number}
+                      {receipt.status !== 'completed' && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 capitalize">{receipt.status}</span>
+                      )}
+                    </td>
+                    <td className="p-3">{formatDateTime(receipt.receipt_date)}</td>
+                    <td className="p-3 text-muted-foreground">{receipt.store_name}</td>
+                    <td className="p-3 text-right">{parseFloat(receipt.item_count)}</td>
+                    <td className="p-3 text-right font-medium">{formatCurrency(parseFloat(receipt.total_amount), currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        ) : profile.returns.length === 0 ? (
+          <p className="p-8 text-center text-muted-foreground">No returns</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="text-left p-3 font-medium">Refund</th>
+                <th className="text-left p-3 font-medium">Original receipt</th>
+                <th className="text-left p-3 font-medium">Date</th>
+                <th className="text-left p-3 font-medium">Store</th>
+                <th className="text-right p-3 font-medium">Refunded</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {profile.returns.map(refund => (
+                <tr key={refund.id}>
+                  <td className="p-3 font-medium">{refund.receipt_number}</td>
+                  <td className="p-3">{refund.original_receipt_number || '-'}</td>
+                  <td className="p-3">{formatDateTime(refund.receipt_date)}</td>
+                  <td className="p-3 text-muted-foreground">{refund.store_name}</td>
+                  <td className="p-3 text-right font-medium text-red-600">{formatCurrency(parseFloat(refund.refund_amount), currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {profile.mergedCustomers.length > 0 && (
+        <div className="bg-white rounded-xl border shadow-sm p-6">
+          <h2 className="font-semibold mb-2">Merged Records</h2>
+          <div className="text-sm divide-y">
+            {profile.mergedCustomers.map(merged => (
+              <div key={merged.id} className="py-2 flex justify-between">
+                <span>{merged.first_name} {merged.last_name || ''} <span className="text-muted-foreground">{merged.code}</span></span>
+                <span className="text-muted-foreground">{formatDate(merged.merged_at)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Merge Modal */}
+      {showMerge && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">Merge Duplicate</h2>
+              <button onClick={closeMerge} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The duplicate's receipts, vouchers, gift cards and loyalty points move to {customer.first_name}.
+                Missing contact details are copied over and the duplicate is deactivated.
+              </p>
+              {duplicate ? (
+                <div className="rounded-lg border p-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{duplicate.first_name} {duplicate.last_name || ''}</p>
+                    <p className="text-xs text-muted-foreground">{[duplicate.phone, duplicate.email].filter(Boolean).join(' · ') || '-'}</p>
+                  </div>
+                  <button onClick={() => setDuplicate(null)} className="text-muted-foreground hover:text-foreground">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search by name, phone or email"
+                      className="pl-10"
+                      value={mergeSearch}
+                      onChange={(e) => setMergeSearch(e.target.value)}
+                      autoFocus
+                    />
+                  </div>
+                  <div className="max-h-56 overflow-y-auto divide-y border rounded-lg">
+                    {searching ? (
+                      <div className="p-4 text-center"><Loader2 className="h-5 w-5 animate-spin mx-auto" /></div>
+                    ) : candidates.length === 0 ? (
+                      <p className="p-4 text-center text-sm text-muted-foreground">
+                        {mergeSearch.length >= 2 ? 'No matching customers' : 'Type at least 2 characters'}
+                      </p>
+                    ) : candidates.map(candidate => (
+                      <button
+                        key={candidate.id}
+                        onClick={() => setDuplicate(candidate)}
+                        className="w-full text-left p-3 hover:bg-slate-50"
+                      >
+                        <p className="font-medium text-sm">{candidate.first_name} {candidate.last_name || ''}</p>
+                        <p className="text-xs text-muted-foreground">{[candidate.phone, candidate.email].filter(Boolean).join(' · ') || '-'}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeMerge}>Cancel</Button>
+                <Button
+                  className="flex-1"
+                  disabled={!duplicate || mergeMutation.isPending}
+                  onClick={() => duplicate && mergeMutation.mutate(duplicate.id)}
+                >
+                  {mergeMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Merge
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
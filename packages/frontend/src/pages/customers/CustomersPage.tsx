@@ -1,10 +1,13 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { api } from '@/lib/api';
 import { toast } from '@/hooks/use-toast';
-import { Plus, X, Loader2, Users, Search, Edit2, Trash2, AlertTriangle } from 'lucide-react';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { Plus, X, Loader2, Users, Search, Edit2, Trash2, AlertTriangle, Tags, Star } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
 interface Customer {
@@ -13,15 +16,64 @@ interface Customer {
   last_name?: string;
   email?: string;
   phone?: string;
+  customer_group_id?: string;
+  customer_group_name?: string;
+  date_of_birth?: string;
+  tags?: string[];
 }
 
+interface CustomerGroup {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  is_active: boolean;
+  customer_count: number;
+  price_list_count: number;
+}
+
+interface LoyaltyTransaction {
+  id: string;
+  type: 'earn' | 'redeem' | 'adjust' | 'expire';
+  points: string;
+  balance_after: string;
+  notes?: string;
+  expires_at?: string;
+  receipt_number?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+interface LoyaltyWallet {
+  enabled: boolean;
+  balance: number;
+  balanceValue: number;
+  lifetimePoints: number;
+  tier: { code: string; name: string; earnMultiplier: number };
+  nextTier: { code: string; name: string; pointsNeeded: number } | null;
+  expiringSoon: number;
+  transactions: LoyaltyTransaction[];
+}
+
+const emptyForm = { firstName: '', lastName: '', email: '', phone: '', customerGroupId: '', dateOfBirth: '', tags: '' };
+const emptyGroupForm = { code: '', name: '', description: '' };
+const emptyAdjustForm = { points: '', notes: '' };
+
 export default function CustomersPage() {
   const { t } = useTranslation();
   const [showModal, setShowModal] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Customer | null>(null);
   const [search, setSearch] = useState('');
-  const [formData, setFormData] = useState({ firstName: '', lastName: '', email: '', phone: '' });
+  const [formData, setFormData] = useState(emptyForm);
+  const [showGroups, setShowGroups] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<CustomerGroup | null>(null);
+  const [groupForm, setGroupForm] = useState(emptyGroupForm);
+  const [walletCustomer, setWalletCustomer] = useState<Customer | null>(null);
+  const [adjustForm, setAdjustForm] = useState(emptyAdjustForm);
+  // Set when a save clashes with another customer's email or phone
+  const [duplicateOf, setDuplicateOf] = useState<{ customerId: string; message: string } | null>(null);
+  const { tenant } = useAuthStore();
   const queryClient = useQueryClient();
 
   const { data, isLoading } = useQuery({
@@ -32,6 +84,71 @@ export default function CustomersPage() {
     },
   });
 
+  const { data: groupsData } = useQuery({
+    queryKey: ['customer-groups'],
+    queryFn: async () => {
+      const res = await api.get('/customers/groups');
+      return res.data;
+    },
+  });
+
+  const groups: CustomerGroup[] = groupsData?.groups || [];
+
+  const { data: wallet, isLoading: walletLoading } = useQuery({
+    queryKey: ['loyalty-wallet', walletCustomer?.id],
+    queryFn: async () => {
+      const res = await api.get(`/loyalty/wallets/${walletCustomer!.id}`);
+      return res.data as LoyaltyWallet;
+    },
+    enabled: !!walletCustomer,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async ({ customerId, data }: { customerId: string; data: { points: number; notes: string } }) => {
+      const res = await api.post(`/loyalty/wallets/${customerId}/adjust`, data);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['loyalty-wallet'] });
+      setAdjustForm(emptyAdjustForm);
+      toast({ title: 'Points adjusted', description: 'The wallet balance has been updated.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to adjust points', variant: 'destructive' });
+    },
+  });
+
+  const saveGroupMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) => {
+      const res = id ? await api.put(`/customers/groups/${id}`, data) : await api.post('/customers/groups', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      setEditingGroup(null);
+      setGroupForm(emptyGroupForm);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to save group', variant: 'destructive' });
+    },
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/customers/groups/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast({ title: 'Group deleted', description: 'Its customers now get general prices.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to delete group', variant: 'destructive' });
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       const res = await api.post('/customers', data);
@@ -43,6 +160,10 @@ export default function CustomersPage() {
       toast({ title: 'Customer created', description: 'Customer has been added successfully.' });
     },
     onError: (error: any) => {
+      if (error.response?.data?.details?.customerId) {
+        setDuplicateOf({ customerId: error.response.data.details.customerId, message: error.response.data.error });
+        return;
+      }
       toast({ title: 'Error', description: error.response?.data?.error || 'Failed to create customer', variant: 'destructive' });
     },
   });
@@ -58,6 +179,10 @@ export default function CustomersPage() {
       toast({ title: 'Customer updated', description: 'Changes saved successfully.' });
     },
     onError: (error: any) => {
+      if (error.response?.data?.details?.customerId) {
+        setDuplicateOf({ customerId: error.response.data.details.customerId, message: error.response.data.error });
+        return;
+      }
       toast({ title: 'Error', description: error.response?.data?.error || 'Failed to update', variant: 'destructive' });
     },
   });
@@ -79,7 +204,7 @@ export default function CustomersPage() {
 
   const openCreate = () => {
     setEditingCustomer(null);
-    setFormData({ firstName: '', lastName: '', email: '', phone: '' });
+    setFormData(emptyForm);
     setShowModal(true);
   };
 
@@ -90,6 +215,9 @@ export default function CustomersPage() {
       lastName: customer.last_name || '',
       email: customer.email || '',
       phone: customer.phone || '',
+      customerGroupId: customer.customer_group_id || '',
+      dateOfBirth: customer.date_of_birth || '',
+      tags: (customer.tags || []).join(', '),
     });
     setShowModal(true);
   };
@@ -97,15 +225,45 @@ export default function CustomersPage() {
   const closeModal = () => {
     setShowModal(false);
     setEditingCustomer(null);
-    setFormData({ firstName: '', lastName: '', email: '', phone: '' });
+    setFormData(emptyForm);
+    setDuplicateOf(null);
+  };
+
+  const editGroup = (group: CustomerGroup) => {
+    setEditingGroup(group);
+    setGroupForm({ code: group.code, name: group.name, description: group.description || '' });
+  };
+
+  const handleGroupSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveGroupMutation.mutate({ id: editingGroup?.id, data: groupForm });
+  };
+
+  const closeWallet = () => {
+    setWalletCustomer(null);
+    setAdjustForm(emptyAdjustForm);
+  };
+
+  const handleAdjustSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!walletCustomer) return;
+    adjustMutation.mutate({
+      customerId: walletCustomer.id,
+      data: { points: parseInt(adjustForm.points, 10), notes: adjustForm.notes },
+    });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const payload = {
+      ...formData,
+      dateOfBirth: formData.dateOfBirth || null,
+      tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    };
     if (editingCustomer) {
-      updateMutation.mutate({ id: editingCustomer.id, data: formData });
+      updateMutation.mutate({ id: editingCustomer.id, data: payload });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(payload);
     }
   };
 
@@ -118,9 +276,14 @@ export default function CustomersPage() {
           <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">{t('sidebar.customers')}</h1>
           <p className="text-sm sm:text-base text-muted-foreground">{t('customers.manageDatabase')}</p>
         </div>
-        <Button onClick={openCreate}>
-          <Plus className="h-4 w-4 mr-2" /> <span className="hidden sm:inline">{t('pos.addCustomer')}</span><span className="sm:hidden">Add</span>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowGroups(true)}>
+            <Tags className="h-4 w-4 mr-2" /> Groups
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" /> <span className="hidden sm:inline">{t('pos.addCustomer')}</span><span className="sm:hidden">Add</span>
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -147,17 +310,30 @@ export default function CustomersPage() {
                 <th className="text-left p-4 font-medium">{t('customers.name')}</th>
                 <th className="text-left p-4 font-medium">{t('customers.email')}</th>
                 <th className="text-left p-4 font-medium">{t('customers.phone')}</th>
+                <th className="text-left p-4 font-medium">Group</th>
                 <th className="text-right p-4 font-medium">{t('products.actions')}</th>
               </tr>
             </thead>
             <tbody className="divide-y">
               {customers.map((customer: Customer) => (
                 <tr key={customer.id} className="hover:bg-slate-50">
-                  <td className="p-4 font-medium">{customer.first_name} {customer.last_name || ''}</td>
+                  <td className="p-4 font-medium">
+                    <Link to={`/customers/${customer.id}`} className="hover:text-primary hover:underline">
+                      {customer.first_name} {customer.last_name || ''}
+                    </Link>
+                  </td>
                   <td className="p-4 text-muted-foreground">{customer.email || '-'}</td>
                   <td className="p-4 text-muted-foreground">{customer.phone || '-'}</td>
+                  <td className="p-4">
+                    {customer.customer_group_name ? (
+                      <span className="text-xs px-2 py-1 rounded-full bg-primary/10 text-primary">{customer.customer_group_name}</span>
+                    ) : <span className="text-muted-foreground">-</span>}
+                  </td>
                   <td className="p-4 text-right">
                     <div className="flex gap-1 justify-end">
+                      <Button variant="ghost" size="icon" title="Loyalty wallet" onClick={() => setWalletCustomer(customer)}>
+                        <Star className="h-4 w-4" />
+                      </Button>
                       <Button variant="ghost" size="icon" onClick={() => openEdit(customer)}>
                         <Edit2 className="h-4 w-4" />
                       </Button>
@@ -203,6 +379,38 @@ export default function CustomersPage() {
                 <label className="text-sm font-medium">Phone</label>
                 <Input placeholder="+1234567890" value={formData.phone} onChange={(e) => setFormData({ ...formData, phone: e.target.value })} />
               </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Customer Group</label>
+                <select
+                  value={formData.customerGroupId}
+                  onChange={(e) => setFormData({ ...formData, customerGroupId: e.target.value })}
+                  className="h-10 w-full border rounded-md px-2 text-sm"
+                >
+                  <option value="">No group</option>
+                  {groups.filter(g => g.is_active || g.id === formData.customerGroupId).map(group => (
+                    <option key={group.id} value={group.id}>{group.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">Group price lists apply at the POS when this customer is selected.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Date of Birth</label>
+                  <Input type="date" value={formData.dateOfBirth} onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tags</label>
+                  <Input placeholder="vip, wholesale" value={formData.tags} onChange={(e) => setFormData({ ...formData, tags: e.target.value })} />
+                </div>
+              </div>
+              {duplicateOf && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  {duplicateOf.message}.{' '}
+                  <Link to={`/customers/${editingCustomer?.id || duplicateOf.customerId}`} className="font-semibold underline">
+                    {editingCustomer ? 'Open this profile to merge them' : 'Open their profile'}
+                  </Link>
+                </div>
+              )}
               <div className="flex gap-3 pt-4">
                 <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
                 <Button type="submit" className="flex-1" disabled={createMutation.isPending || updateMutation.isPending}>
@@ -215,6 +423,183 @@ export default function CustomersPage() {
         </div>
       )}
 
+      {/* Customer Groups Modal */}
+      {showGroups && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">Customer Groups</h2>
+              <button onClick={() => { setShowGroups(false); setEditingGroup(null); setGroupForm(emptyGroupForm); }} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleGroupSubmit} className="p-6 border-b grid grid-cols-3 gap-3 items-end">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Code *</label>
+                <Input placeholder="VIP" value={groupForm.code} onChange={(e) => setGroupForm({ ...groupForm, code: e.target.value.toUpperCase() })} required />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input placeholder="VIP customers" value={groupForm.name} onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })} required />
+              </div>
+              <div className="space-y-2 col-span-3">
+                <label className="text-sm font-medium">Description</label>
+                <Input value={groupForm.description} onChange={(e) => setGroupForm({ ...groupForm, description: e.target.value })} />
+              </div>
+              <div className="col-span-3 flex gap-3">
+                {editingGroup && (
+                  <Button type="button" variant="outline" className="flex-1" onClick={() => { setEditingGroup(null); setGroupForm(emptyGroupForm); }}>Cancel</Button>
+                )}
+                <Button type="submit" className="flex-1" disabled={saveGroupMutation.isPending}>
+                  {saveGroupMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingGroup ? 'Save Group' : 'Add Group'}
+                </Button>
+              </div>
+            </form>
+            {groups.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No customer groups yet</p>
+            ) : (
+              <div className="divide-y">
+                {groups.map(group => (
+                  <div key={group.id} className="p-4 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{group.name} <span className="text-xs text-muted-foreground">{group.code}</span></p>
+                      <p className="text-xs text-muted-foreground">
+                        {group.customer_count} customers · {group.price_list_count} price lists
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => editGroup(group)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => deleteGroupMutation.mutate(group.id)}
+                        disabled={deleteGroupMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Loyalty Wallet Modal */}
+      {walletCustomer && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">Loyalty Wallet · {walletCustomer.first_name} {walletCustomer.last_name || ''}</h2>
+              <button onClick={closeWallet} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {walletLoading || !wallet ? (
+              <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+            ) : (
+              <>
+                {!wallet.enabled && (
+                  <p className="mx-6 mt-6 text-sm p-3 rounded-lg bg-amber-50 text-amber-700">
+                    The loyalty programme is switched off; points are neither earned nor redeemed.
+                  </p>
+                )}
+                <div className="p-6 grid grid-cols-2 sm:grid-cols-4 gap-4 border-b">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Balance</p>
+                    <p className="text-xl font-semibold">{wallet.balance}</p>
+                    <p className="text-xs text-muted-foreground">{formatCurrency(wallet.balanceValue, tenant?.currencyCode)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Tier</p>
+                    <p className="text-xl font-semibold">{wallet.tier.name}</p>
+                    <p className="text-xs text-muted-foreground">×{wallet.tier.earnMultiplier} points</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Next tier</p>
+                    {wallet.nextTier ? (
+                      <>
+                        <p className="text-xl font-semibold">{wallet.nextTier.name}</p>
+                        <p className="text-xs text-muted-foreground">{wallet.nextTier.pointsNeeded} points to go</p>
+                      </>
+                    ) : <p className="text-xl font-semibold">-</p>}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Expiring in 30 days</p>
+                    <p className={`text-xl font-semibold ${wallet.expiringSoon > 0 ? 'text-amber-600' : ''}`}>{wallet.expiringSoon}</p>
+                    <p className="text-xs text-muted-foreground">{wallet.lifetimePoints} lifetime</p>
+                  </div>
+                </div>
+                <form onSubmit={handleAdjustSubmit} className="p-6 border-b grid grid-cols-4 gap-3 items-end">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Points *</label>
+                    <Input
+                      type="number"
+                      step="1"
+                      placeholder="-50"
+                      value={adjustForm.points}
+                      onChange={(e) => setAdjustForm({ ...adjustForm, points: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <label className="text-sm font-medium">Reason *</label>
+                    <Input
+                      placeholder="Goodwill credit"
+                      value={adjustForm.notes}
+                      onChange={(e) => setAdjustForm({ ...adjustForm, notes: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" disabled={adjustMutation.isPending || !parseInt(adjustForm.points, 10)}>
+                    {adjustMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Adjust
+                  </Button>
+                </form>
+                {wallet.transactions.length === 0 ? (
+                  <p className="p-6 text-center text-sm text-muted-foreground">No loyalty activity yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-slate-50">
+                      <tr>
+                        <th className="text-left p-3 font-medium">Date</th>
+                        <th className="text-left p-3 font-medium">Type</th>
+                        <th className="text-left p-3 font-medium">Details</th>
+                        <th className="text-right p-3 font-medium">Points</th>
+                        <th className="text-right p-3 font-medium">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {wallet.transactions.map(tx => (
+                        <tr key={tx.id}>
+                          <td className="p-3 text-muted-foreground">{formatDateTime(tx.created_at)}</td>
+                          <td className="p-3 capitalize">{tx.type}</td>
+                          <td className="p-3 text-muted-foreground">
+                            {tx.receipt_number || tx.notes || '-'}
+                            {tx.expires_at && parseFloat(tx.points) > 0 && (
+                              <span className="block text-xs">Expires {formatDate(tx.expires_at)}</span>
+                            )}
+                          </td>
+                          <td className={`p-3 text-right font-medium ${parseFloat(tx.points) < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                            {parseFloat(tx.points) > 0 ? '+' : ''}{parseFloat(tx.points)}
+                          </td>
+                          <td className="p-3 text-right">{parseFloat(tx.balance_after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation */}
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, Award, Edit2, Trash2, Hourglass } from 'lucide-react';
+
+interface LoyaltyProgram {
+  enabled: boolean;
+  earnRate: number;
+  pointValue: number;
+  minRedeemPoints: number;
+  expiryDays: number;
+}
+
+interface LoyaltyTier {
+  id: string;
+  code: string;
+  name: string;
+  min_lifetime_points: string;
+  earn_multiplier: string;
+  is_active: boolean;
+  member_count: string;
+}
+
+interface EarnRule {
+  id: string;
+  category_id: string;
+  category_name: string;
+  earn_rate: string;
+}
+
+const emptyProgramForm = { enabled: true, earnRate: '', pointValue: '', minRedeemPoints: '', expiryDays: '' };
+const emptyTierForm = { code: '', name: '', minLifetimePoints: '', earnMultiplier: '1', isActive: true };
+const emptyRuleForm = { categoryId: '', earnRate: '' };
+
+export default function LoyaltyPage() {
+  const [programForm, setProgramForm] = useState(emptyProgramForm);
+  const [showTierModal, setShowTierModal] = useState(false);
+  const [editingTier, setEditingTier] = useState<LoyaltyTier | null>(null);
+  const [tierForm, setTierForm] = useState(emptyTierForm);
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['loyalty-program'],
+    queryFn: async () => {
+      const res = await api.get('/loyalty/program');
+      return res.data;
+    },
+  });
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const res = await api.get('/categories');
+      return res.data;
+    },
+  });
+
+  const program: LoyaltyProgram | undefined = data?.program;
+  const tiers: LoyaltyTier[] = data?.tiers || [];
+  const earnRules: EarnRule[] = data?.earnRules || [];
+  const categories: { id: string; name: string }[] = categoriesData?.categories || [];
+
+  useEffect(() => {
+    if (!program) return;
+    setProgramForm({
+      enabled: program.enabled,
+      earnRate: String(program.earnRate),
+      pointValue: String(program.pointValue),
+      minRedeemPoints: String(program.minRedeemPoints),
+      expiryDays: String(program.expiryDays),
+    });
+  }, [program]);
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['loyalty-program'] });
+  };
+
+  const programMutation = useMutation({
+    mutationFn: async (data: Partial<LoyaltyProgram>) => {
+      const res = await api.put('/loyalty/program', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Programme saved', description: 'New sales earn and redeem at these settings.' });
+    },
+    onError,
+  });
+
+  const saveTierMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) => {
+      const res = id ? await api.put(`/loyalty/tiers/${id}`, data) : await api.post('/loyalty/tiers', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingTier ? 'Tier updated' : 'Tier created', description: 'Customers have been re-tiered.' });
+      closeTierModal();
+    },
+    onError,
+  });
+
+  const deleteTierMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/loyalty/tiers/${id}`);
+      return res.data;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const ruleMutation = useMutation({
+    mutationFn: async (data: { categoryId: string; earnRate: number }) => {
+      const res = await api.put('/loyalty/earn-rules', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setRuleForm(emptyRuleForm);
+    },
+    onError,
+  });
+
+  const removeRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/loyalty/earn-rules/${id}`);
+      return res.data;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const expireMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.post('/loyalty/expire');
+      return res.data as { expired: number };
+    },
+    onSuccess: (result) => {
+      toast({ title: 'Expiry run finished', description: `${result.expired} point lots expired.` });
+    },
+    onError,
+  });
+
+  const openCreateTier = () => {
+    setEditingTier(null);
+    setTierForm(emptyTierForm);
+    setShowTierModal(true);
+  };
+
+  const openEditTier = (tier: LoyaltyTier) => {
+    setEditingTier(tier);
+    setTierForm({
+      code: tier.code,
+      name: tier.name,
+      minLifetimePoints: String(parseFloat(tier.min_lifetime_points)),
+      earnMultiplier: String(parseFloat(tier.earn_multiplier)),
+      isActive: tier.is_active,
+    });
+    setShowTierModal(true);
+  };
+
+  const closeTierModal = () => {
+    setShowTierModal(false);
+    setEditingTier(null);
+    setTierForm(emptyTierForm);
+  };
+
+  const handleProgramSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    programMutation.mutate({
+      enabled: programForm.enabled,
+      earnRate: parseFloat(programForm.earnRate) || 0,
+      pointValue: parseFloat(programForm.pointValue) || 1,
+      minRedeemPoints: parseInt(programForm.minRedeemPoints, 10) || 0,
+      expiryDays: parseInt(programForm.expiryDays, 10) || 0,
+    });
+  };
+
+  const handleTierSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTierMutation.mutate({
+      id: editingTier?.id,
+      data: {
+        code: tierForm.code,
+        name: tierForm.name,
+        minLifetimePoints: parseFloat(tierForm.minLifetimePoints) || 0,
+        earnMultiplier: parseFloat(tierForm.earnMultiplier) || 1,
+        isActive: tierForm.isActive,
+      },
+    });
+  };
+
+  const handleRuleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ruleForm.categoryId) return;
+    ruleMutation.mutate({ categoryId: ruleForm.categoryId, earnRate: parseFloat(ruleForm.earnRate) || 0 });
+  };
+
+  if (isLoading) {
+    return <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Loyalty</h1>
+          <p className="text-muted-foreground">Earn rates, tiers and point expiry for the loyalty programme</p>
+        </div>
+        <Button variant="outline" onClick={() => expireMutation.mutate()} disabled={expireMutation.isPending}>
+          {expireMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Hourglass className="h-4 w-4 mr-2" />}
+          Expire points now
+        </Button>
+      </div>
+
+      {/* Programme settings */}
+      <form onSubmit={handleProgramSubmit} className="bg-white rounded-xl border shadow-sm p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Programme</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={programForm.enabled}
+              onChange={(e) => setProgramForm({ ...programForm, enabled: e.target.checked })}
+            />
+            Enabled
+          </label>
+        </div>
+        <div className="grid sm:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Points per {currency || 'unit'} spent</label>
+            <Input type="number" step="0.0001" min="0" value={programForm.earnRate} onChange={(e) => setProgramForm({ ...programForm, earnRate: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Value of one point</label>
+            <Input type="number" step="0.01" min="0.01" value={programForm.pointValue} onChange={(e) => setProgramForm({ ...programForm, pointValue: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Minimum points to redeem</label>
+            <Input type="number" step="1" min="0" value={programForm.minRedeemPoints} onChange={(e) => setProgramForm({ ...programForm, minRedeemPoints: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Points expire after (days)</label>
+            <Input type="number" step="1" min="0" value={programForm.expiryDays} onChange={(e) => setProgramForm({ ...programForm, expiryDays: e.target.value })} />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            A sale of {formatCurrency(100, currency)} earns {Math.floor(100 * (parseFloat(programForm.earnRate) || 0))} points
+            {' '}worth {formatCurrency(Math.floor(100 * (parseFloat(programForm.earnRate) || 0)) * (parseFloat(programForm.pointValue) || 0), currency)}.
+            {' '}Expiry 0 keeps points forever.
+          </p>
+          <Button type="submit" disabled={programMutation.isPending}>
+            {programMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Programme
+          </Button>
+        </div>
+      </form>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Tiers */}
+        <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h2 className="font-semibold">Tiers</h2>
+              <p className="text-xs text-muted-foreground">Reached on lifetime points; the multiplier applies to every earn</p>
+            </div>
+            <Button size="sm" onClick={openCreateTier}><Plus className="h-4 w-4 mr-1" /> Add Tier</Button>
+          </div>
+          {tiers.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Award className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No tiers yet; every customer earns at the programme rate</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {tiers.map(tier => (
+                <div key={tier.id} className={cn('p-4 flex items-center justify-between', !tier.is_active && 'opacity-50')}>
+                  <div>
+                    <p className="font-medium">{tier.name} <span className="text-xs text-muted-foreground">{tier.code}</span></p>
+                    <p className="text-xs text-muted-foreground">
+                      From {parseFloat(tier.min_lifetime_points)} lifetime points · ×{parseFloat(tier.earn_multiplier)} · {tier.member_count} members
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEditTier(tier)}>
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => deleteTierMutation.mutate(tier.id)}
+                      disabled={deleteTierMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Category earn rates */}
+        <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+          <div className="p-4 border-b">
+            <h2 className="font-semibold">Category Earn Rates</h2>
+            <p className="text-xs text-muted-foreground">Override the programme rate for products in a category</p>
+          </div>
+          <form onSubmit={handleRuleSubmit} className="p-4 border-b flex gap-2">
+            <select
+              value={ruleForm.categoryId}
+              onChange={(e) => setRuleForm({ ...ruleForm, categoryId: e.target.value })}
+              className="h-10 flex-1 border rounded-md px-2 text-sm"
+              required
+            >
+              <option value="">Select category</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              step="0.0001"
+              min="0"
+              placeholder="Points per unit"
+              className="w-36"
+              value={ruleForm.earnRate}
+              onChange={(e) => setRuleForm({ ...ruleForm, earnRate: e.target.value })}
+              required
+            />
+            <Button type="submit" disabled={ruleMutation.isPending}>
+              {ruleMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Set'}
+            </Button>
+          </form>
+          {earnRules.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">All categories earn at the programme rate</p>
+          ) : (
+            <div className="divide-y">
+              {earnRules.map(rule => (
+                <div key={rule.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{rule.category_name}</p>
+                    <p className="text-xs text-muted-foreground">{parseFloat(rule.earn_rate)} points per {currency || 'unit'}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => removeRuleMutation.mutate(rule.id)}
+                    disabled={removeRuleMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tier Modal */}
+      {showTierModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{editingTier ? 'Edit Tier' : 'New Tier'}</h2>
+              <button onClick={closeTierModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleTierSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code *</label>
+                  <Input placeholder="GOLD" value={tierForm.code} onChange={(e) => setTierForm({ ...tierForm, code: e.target.value.toUpperCase() })} required />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input placeholder="Gold" value={tierForm.name} onChange={(e) => setTierForm({ ...tierForm, name: e.target.value })} required />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Lifetime points *</label>
+                  <Input type="number" min="0" value={tierForm.minLifetimePoints} onChange={(e) => setTierForm({ ...tierForm, minLifetimePoints: e.target.value })} required />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Earn multiplier</label>
+                  <Input type="number" step="0.01" min="0.01" value={tierForm.earnMultiplier} onChange={(e) => setTierForm({ ...tierForm, earnMultiplier: e.target.value })} />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={tierForm.isActive} onChange={(e) => setTierForm({ ...tierForm, isActive: e.target.checked })} />
+                Active
+              </label>
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeTierModal}>Cancel</Button>
+                <Button type="submit" className="flex-1" disabled={saveTierMutation.isPending}>
+                  {saveTierMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingTier ? 'Save Changes' : 'Create'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,603 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, Filter, Edit2, Trash2, Download, Eye } from 'lucide-react';
+
+type RfmSegment = 'champions' | 'loyal' | 'new' | 'promising' | 'at_risk' | 'hibernating' | 'lost';
+
+interface SegmentFilters {
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  rfmSegments?: RfmSegment[];
+  minRecency?: number;
+  minFrequency?: number;
+  minMonetary?: number;
+  minSpend?: number;
+  maxSpend?: number;
+  lastVisitWithinDays?: number;
+  noVisitForDays?: number;
+  storeId?: string;
+  birthdayMonth?: number;
+  customerGroupId?: string;
+}
+
+interface Segment {
+  id: string;
+  name: string;
+  description?: string;
+  filters: SegmentFilters;
+  promotion_count: string;
+  updated_at: string;
+}
+
+interface SegmentMember {
+  id: string;
+  code: string;
+  first_name: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  tags: string[];
+  receipt_count: number;
+  net_spend: number;
+  last_purchase?: string;
+  rfm: { segment: RfmSegment } | null;
+}
+
+const segmentLabels: Record<RfmSegment, string> = {
+  champions: 'Champion',
+  loyal: 'Loyal',
+  new: 'New',
+  promising: 'Promising',
+  at_risk: 'At risk',
+  hibernating: 'Hibernating',
+  lost: 'Lost',
+};
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const emptyForm = {
+  name: '', description: '',
+  tags: [] as string[], tagMatch: 'any' as 'any' | 'all', rfmSegments: [] as RfmSegment[],
+  minRecency: '', minFrequency: '', minMonetary: '', minSpend: '', maxSpend: '',
+  lastVisitWithinDays: '', noVisitForDays: '', storeId: '', birthdayMonth: '', customerGroupId: '',
+};
+
+const toForm = (segment: Segment): typeof emptyForm => {
+  const f = segment.filters || {};
+  const text = (value?: number) => value !== undefined && value !== null ? String(value) : '';
+  return {
+    name: segment.name,
+    description: segment.description || '',
+    tags: f.tags || [],
+    tagMatch: f.tagMatch || 'any',
+    rfmSegments: f.rfmSegments || [],
+    minRecency: text(f.minRecency),
+    minFrequency: text(f.minFrequency),
+    minMonetary: text(f.minMonetary),
+    minSpend: text(f.minSpend),
+    maxSpend: text(f.maxSpend),
+    lastVisitWithinDays: text(f.lastVisitWithinDays),
+    noVisitForDays: text(f.noVisitForDays),
+    storeId: f.storeId || '',
+    birthdayMonth: text(f.birthdayMonth),
+    customerGroupId: f.customerGroupId || '',
+  };
+};
+
+const toFilters = (form: typeof emptyForm): SegmentFilters => {
+  const number = (value: string) => value === '' ? undefined : Number(value);
+  return {
+    tags: form.tags.length ? form.tags : undefined,
+    tagMatch: form.tags.length ? form.tagMatch : undefined,
+    rfmSegments: form.rfmSegments.length ? form.rfmSegments : undefined,
+    minRecency: number(form.minRecency),
+    minFrequency: number(form.minFrequency),
+    minMonetary: number(form.minMonetary),
+    minSpend: number(form.minSpend),
+    maxSpend: number(form.maxSpend),
+    lastVisitWithinDays: number(form.lastVisitWithinDays),
+    noVisitForDays: number(form.noVisitForDays),
+    storeId: form.storeId || undefined,
+    birthdayMonth: number(form.birthdayMonth),
+    customerGroupId: form.customerGroupId || undefined,
+  };
+};
+
+export default function SegmentsPage() {
+  const [showModal, setShowModal] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [tagInput, setTagInput] = useState('');
+  const [preview, setPreview] = useState<{ count: number; customers: SegmentMember[] } | null>(null);
+  const [viewingSegment, setViewingSegment] = useState<Segment | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { tenant, stores } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['customer-segments'],
+    queryFn: async () => {
+      const res = await api.get('/customers/segments');
+      return res.data;
+    },
+  });
+
+  const { data: tagsData } = useQuery({
+    queryKey: ['customer-tags'],
+    queryFn: async () => {
+      const res = await api.get('/customers/tags');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const { data: groupsData } = useQuery({
+    queryKey: ['customer-groups'],
+    queryFn: async () => {
+      const res = await api.get('/customers/groups');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const { data: membersData, isLoading: membersLoading } = useQuery({
+    queryKey: ['customer-segment-members', viewingSegment?.id],
+    queryFn: async () => {
+      const res = await api.get(`/customers/segments/${viewingSegment!.id}/members`);
+      return res.data;
+    },
+    enabled: !!viewingSegment,
+  });
+
+  const segments: Segment[] = data?.segments || [];
+  const knownTags: { tag: string; customer_count: string }[] = tagsData?.tags || [];
+  const groups: { id: string; name: string; is_active: boolean }[] = groupsData?.groups || [];
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (filters: SegmentFilters) => {
+      const res = await api.post('/customers/segments/preview', { filters });
+      return res.data as { count: number; customers: SegmentMember[] };
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: object }) => {
+      const res = id ? await api.put(`/customers/segments/${id}`, data) : await api.post('/customers/segments', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-segments'] });
+      queryClient.invalidateQueries({ queryKey: ['customer-segment-members'] });
+      toast({ title: editingSegment ? 'Segment updated' : 'Segment saved' });
+      closeModal();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/customers/segments/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-segments'] });
+      toast({ title: 'Segment deleted' });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingSegment(null);
+    setFormData(emptyForm);
+    setPreview(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (segment: Segment) => {
+    setEditingSegment(segment);
+    setFormData(toForm(segment));
+    setPreview(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingSegment(null);
+    setFormData(emptyForm);
+    setTagInput('');
+    setPreview(null);
+  };
+
+  const addTag = (tag: string) => {
+    const value = tag.trim().toLowerCase();
+    if (value && !formData.tags.includes(value)) {
+      setFormData({ ...formData, tags: [...formData.tags, value] });
+    }
+    setTagInput('');
+  };
+
+  const toggleRfm = (segment: RfmSegment) => setFormData({
+    ...formData,
+    rfmSegments: formData.rfmSegments.includes(segment)
+      ? formData.rfmSegments.filter(s => s !== segment)
+      : [...formData.rfmSegments, segment],
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      id: editingSegment?.id,
+      data: { name: formData.name, description: formData.description, filters: toFilters(formData) },
+    });
+  };
+
+  const handleExport = async (segment: Segment) => {
+    setExportingId(segment.id);
+    try {
+      const response = await api.get(`/customers/segments/${segment.id}/export`, { responseType: 'blob' });
+      const blob = new Blob([response.data], { type: 'text/csv;charset=utf-8' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${segment.name.replace(/[^A-Za-z0-9-_]+/g, '-').toLowerCase() || 'segment'}.csv`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Could not export segment', variant: 'destructive' });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const describeFilters = (f: SegmentFilters) => {
+    const parts: string[] = [];
+    if (f.tags?.length) parts.push(`${f.tagMatch === 'all' ? 'all of' : 'any of'} ${f.tags.join(', ')}`);
+    if (f.rfmSegments?.length) parts.push(f.rfmSegments.map(s => segmentLabels[s]).join(' / '));
+    if (f.minSpend !== undefined) parts.push(`spent ≥ ${formatCurrency(f.minSpend, currency)}`);
+    if (f.maxSpend !== undefined) parts.push(`spent ≤ ${formatCurrency(f.maxSpend, currency)}`);
+    if (f.lastVisitWithinDays) parts.push(`visited in last ${f.lastVisitWithinDays} days`);
+    if (f.noVisitForDays) parts.push(`no visit for ${f.noVisitForDays} days`);
+    if (f.storeId) parts.push(`bought at ${stores.find(s => s.id === f.storeId)?.name || 'a store'}`);
+    if (f.birthdayMonth) parts.push(`birthday in ${months[f.birthdayMonth - 1]}`);
+    if (f.customerGroupId) parts.push('in a customer group');
+    return parts.length ? parts.join(' · ') : 'All active customers';
+  };
+
+  const memberList = (members: SegmentMember[]) => (
+    <table className="w-full text-sm">
+      <thead className="border-b bg-slate-50">
+        <tr>
+          <th className="text-left p-3 font-medium">Customer</th>
+          <th className="text-left p-3 font-medium">Tags</th>
+          <th className="text-left p-3 font-medium">RFM</th>
+          <th className="text-right p-3 font-medium">Receipts</th>
+          <th className="text-right p-3 font-medium">Net spend</th>
+          <th className="text-left p-3 font-medium">Last visit</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {members.map(member => (
+          <tr key={member.id}>
+            <td className="p-3">
+              <Link to={`/customers/${member.id}`} className="font-medium hover:underline">
+                {member.first_name} {member.last_name || ''}
+              </Link>
+              <p className="text-xs text-muted-foreground">{member.phone || member.email || member.code}</p>
+            </td>
+            <td className="p-3 text-xs text-muted-foreground">{member.tags.join(', ') || '-'}</td>
+            <td className="p-3 text-xs">{member.rfm ? segmentLabels[member.rfm.segment] : '-'}</td>
+            <td className="p-3 text-right">{member.receipt_count}</td>
+            <td className="p-3 text-right">{formatCurrency(member.net_spend, currency)}</td>
+            <td className="p-3 text-muted-foreground">{member.last_purchase ? formatDate(member.last_purchase) : '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Customer Segments</h1>
+          <p className="text-muted-foreground">Saved audiences for exports, promotions and vouchers</p>
+        </div>
+        <Button onClick={openCreate}><Plus className="h-4 w-4 mr-2" /> New Segment</Button>
+      </div>
+
+      <div className="bg-white rounded-xl border shadow-sm">
+        {isLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : segments.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Filter className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No segments yet</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {segments.map(segment => (
+              <div key={segment.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium">{segment.name}</p>
+                  {segment.description && <p className="text-sm text-muted-foreground">{segment.description}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">{describeFilters(segment.filters || {})}</p>
+                  {Number(segment.promotion_count) > 0 && (
+                    <p className="text-xs text-primary mt-1">Audience of {segment.promotion_count} active promotion(s)</p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => setViewingSegment(segment)} title="Members">
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleExport(segment)}
+                    disabled={exportingId === segment.id}
+                    title="Export CSV"
+                  >
+                    {exportingId === segment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(segment)} title="Edit">
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => deleteMutation.mutate(segment.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Segment Builder Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{editingSegment ? 'Edit Segment' : 'New Segment'}</h2>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input placeholder="Lapsed VIPs" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} required />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Description</label>
+                  <Input value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Tags</label>
+                  <select
+                    value={formData.tagMatch}
+                    onChange={(e) => setFormData({ ...formData, tagMatch: e.target.value as 'any' | 'all' })}
+                    className="h-8 border rounded-md px-2 text-xs"
+                  >
+                    <option value="any">Has any of these</option>
+                    <option value="all">Has all of these</option>
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {formData.tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-primary/10 text-primary">
+                      {tag}
+                      <button type="button" onClick={() => setFormData({ ...formData, tags: formData.tags.filter(t => t !== tag) })}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <Input
+                  placeholder="Type a tag and press Enter"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addTag(tagInput);
+                    }
+                  }}
+                />
+                {knownTags.filter(t => !formData.tags.includes(t.tag)).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {knownTags.filter(t => !formData.tags.includes(t.tag)).map(t => (
+                      <button
+                        key={t.tag}
+                        type="button"
+                        onClick={() => addTag(t.tag)}
+                        className="text-xs px-2 py-0.5 rounded border hover:bg-slate-50"
+                      >
+                        {t.tag} <span className="text-muted-foreground">{t.customer_count}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">RFM segment</label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(segmentLabels) as RfmSegment[]).map(segment => (
+                    <button
+                      key={segment}
+                      type="button"
+                      onClick={() => toggleRfm(segment)}
+                      className={cn(
+                        'text-xs px-2 py-1 rounded border',
+                        formData.rfmSegments.includes(segment) ? 'border-primary bg-primary/5 text-primary' : 'hover:bg-slate-50'
+                      )}
+                    >
+                      {segmentLabels[segment]}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  {([['minRecency', 'Min. recency'], ['minFrequency', 'Min. frequency'], ['minMonetary', 'Min. monetary']] as const).map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                      <label className="text-xs text-muted-foreground">{label}</label>
+                      <select
+                        value={formData[key]}
+                        onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                        className="h-10 w-full border rounded-md px-2 text-sm"
+                      >
+                        <option value="">Any</option>
+                        {[1, 2, 3, 4, 5].map(score => <option key={score} value={score}>{score}+</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Scores run 1-5 against the rest of your customers; 5 is best.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Spent at least</label>
+                  <Input type="number" min="0" step="0.01" value={formData.minSpend} onChange={(e) => setFormData({ ...formData, minSpend: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Spent at most</label>
+                  <Input type="number" min="0" step="0.01" value={formData.maxSpend} onChange={(e) => setFormData({ ...formData, maxSpend: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Visited in the last (days)</label>
+                  <Input type="number" min="1" value={formData.lastVisitWithinDays} onChange={(e) => setFormData({ ...formData, lastVisitWithinDays: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">No visit for (days)</label>
+                  <Input type="number" min="1" value={formData.noVisitForDays} onChange={(e) => setFormData({ ...formData, noVisitForDays: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Bought at store</label>
+                  <select
+                    value={formData.storeId}
+                    onChange={(e) => setFormData({ ...formData, storeId: e.target.value })}
+                    className="h-10 w-full border rounded-md px-2 text-sm"
+                  >
+                    <option value="">Any store</option>
+                    {stores.map(store => <option key={store.id} value={store.id}>{store.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Birthday month</label>
+                  <select
+                    value={formData.birthdayMonth}
+                    onChange={(e) => setFormData({ ...formData, birthdayMonth: e.target.value })}
+                    className="h-10 w-full border rounded-md px-2 text-sm"
+                  >
+                    <option value="">Any month</option>
+                    {months.map((month, index) => <option key={month} value={index + 1}>{month}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Customer group</label>
+                  <select
+                    value={formData.customerGroupId}
+                    onChange={(e) => setFormData({ ...formData, customerGroupId: e.target.value })}
+                    className="h-10 w-full border rounded-md px-2 text-sm"
+                  >
+                    <option value="">Any group</option>
+                    {groups.filter(g => g.is_active || g.id === formData.customerGroupId).map(group => (
+                      <option key={group.id} value={group.id}>{group.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">Spend is net of refunds over the customer's whole history.</p>
+
+              {preview && (
+                <div className="border rounded-lg">
+                  <p className="p-3 text-sm font-medium border-b">
+                    {preview.count} matching customer{preview.count === 1 ? '' : 's'}
+                    {preview.count > preview.customers.length && (
+                      <span className="text-muted-foreground font-normal"> · showing the top {preview.customers.length} by spend</span>
+                    )}
+                  </p>
+                  {preview.customers.length > 0 && <div className="max-h-64 overflow-y-auto">{memberList(preview.customers)}</div>}
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => previewMutation.mutate(toFilters(formData))}
+                  disabled={previewMutation.isPending}
+                >
+                  {previewMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Preview
+                </Button>
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingSegment ? 'Save Changes' : 'Save Segment'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Members Modal */}
+      {viewingSegment && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <div>
+                <h2 className="text-lg font-semibold">{viewingSegment.name}</h2>
+                {membersData && (
+                  <p className="text-sm text-muted-foreground">
+                    {membersData.count} customer{membersData.count === 1 ? '' : 's'}
+                    {membersData.count > membersData.customers.length && ` · showing the top ${membersData.customers.length}, export for all`}
+                  </p>
+                )}
+              </div>
+              <button onClick={() => setViewingSegment(null)} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {membersLoading || !membersData ? (
+              <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+            ) : membersData.customers.length === 0 ? (
+              <p className="p-8 text-center text-sm text-muted-foreground">No customers match this segment right now</p>
+            ) : (
+              memberList(membersData.customers)
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
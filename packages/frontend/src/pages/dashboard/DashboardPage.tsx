@@ -46,7 +46,7 @@ export default function DashboardPage() {
     queryKey: ['dashboard-stats', currentStoreId],
     queryFn: async () => {
       const res = await api.get('/dashboard/stats', { params: { storeId: currentStoreId } });
-      return res.data.data;
+      return res.data;
     },
     refetchInterval: 30000, // Auto-refresh every 30 seconds
   });
@@ -56,7 +56,7 @@ export default function DashboardPage() {
     queryKey: ['dashboard-recent-sales', currentStoreId],
     queryFn: async () => {
       const res = await api.get('/dashboard/recent-sales', { params: { storeId: currentStoreId, limit: 5 } });
-      return res.data.data;
+      return res.data;
     },
     refetchInterval: 30000,
   });
@@ -66,7 +66,7 @@ export default function DashboardPage() {
     queryKey: ['dashboard-top-products', currentStoreId],
     queryFn: async () => {
       const res = await api.get('/dashboard/top-products', { params: { storeId: currentStoreId, limit: 5 } });
-      return res.data.data;
+      return res.data;
     },
     refetchInterval: 30000,
   });
@@ -42,6 +42,7 @@ export default function ReceiveStockPage() {
   const [search, setSearch] = useState('');
   const [items, setItems] = useState<ReceiveItem[]>([]);
   const [reference, setReference] = useState('');
+  const [supplierId, setSupplierId] = useState('');
   const [notes, setNotes] = useState('');
   const [showProducts, setShowProducts] = useState(false);
   const [activeTab, setActiveTab] = useState<'new' | 'history'>('new');
@@ -93,6 +94,17 @@ export default function ReceiveStockPage() {
 
   const products: Product[] = productsData?.products || [];
 
+  // Fetch suppliers so receipts are recorded against supplier master data
+  const { data: suppliersData } = useQuery({
+    queryKey: ['purchasing-suppliers'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/suppliers');
+      return res.data;
+    },
+  });
+
+  const suppliers: { id: string; name: string }[] = suppliersData?.suppliers || [];
+
   const receiveMutation = useMutation({
     mutationFn: async (data: any) => {
       const res = await api.post('/inventory/receive', data);
@@ -104,6 +116,7 @@ export default function ReceiveStockPage() {
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
       setItems([]);
       setReference('');
+      setSupplierId('');
       setNotes('');
       toast({ title: 'Stock Received!', description: 'Inventory has been updated successfully.' });
     },
@@ -146,6 +159,7 @@ export default function ReceiveStockPage() {
     }
     receiveMutation.mutate({
       storeId: currentStoreId,
+      supplierId: supplierId || undefined,
       items: items.map(i => ({
         productId: i.productId,
         quantity: i.quantity,
@@ -230,7 +244,20 @@ export default function ReceiveStockPage() {
         <>
       {/* Reference & Notes */}
       <div className="bg-white rounded-xl border shadow-sm p-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('purchasing.supplier')}</label>
+            <select
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className="w-full h-10 border rounded-md px-3"
+            >
+              <option value="">{t('purchasing.selectSupplier')}</option>
+              {suppliers.map(supplier => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
           <div className="space-y-2">
             <label className="text-sm font-medium">{t('inventory.reference')}</label>
             <Input
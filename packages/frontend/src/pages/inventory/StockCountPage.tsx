@@ -1,11 +1,552 @@
+import { useState, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { playSuccessSound, playErrorSound } from '@/lib/sounds';
+import {
+  Plus, Loader2, ClipboardList, ScanBarcode, ArrowLeft, Play, CheckCircle, Clock,
+  X, Send, RotateCcw, Lock, Trash2
+} from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
+interface CountSummary {
+  id: string;
+  count_number: string;
+  type: 'full' | 'cycle' | 'spot';
+  status: 'draft' | 'in_progress' | 'completed' | 'posted' | 'cancelled';
+  store_name: string;
+  category_name: string | null;
+  line_count: number;
+  counted_count: number;
+  created_by_name: string;
+  created_at: string;
+  started_at: string | null;
+  posted_at: string | null;
+}
+
+interface CountLine {
+  id: string;
+  product_id: string;
+  product_name: string;
+  sku: string;
+  barcode: string | null;
+  system_qty: number;
+  counted_qty: number | null;
+  variance_qty: number;
+  cost_price: number;
+  variance_value: number;
+  counters: { countedBy: string; countedByName: string; quantity: number }[];
+}
+
+interface CountDetail extends CountSummary {
+  notes: string | null;
+  lines: CountLine[];
+  summary: {
+    totalLines: number;
+    countedLines: number;
+    varianceLines: number;
+    varianceQty: number;
+    varianceValue: number;
+    gainValue: number;
+    lossValue: number;
+  };
+}
+
 export default function StockCountPage() {
   const { t } = useTranslation();
+  const { currentStoreId, tenant } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newCount, setNewCount] = useState({ type: 'cycle', categoryId: '', notes: '' });
+  const [scanValue, setScanValue] = useState('');
+  const [scanQty, setScanQty] = useState(1);
+  const [lineFilter, setLineFilter] = useState<'all' | 'uncounted' | 'variance'>('all');
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const currency = tenant?.currencyCode;
+
+  // Fetch counts for the current store
+  const { data: countsData, isLoading: countsLoading } = useQuery({
+    queryKey: ['stock-counts', currentStoreId],
+    queryFn: async () => {
+      const res = await api.get('/inventory/counts', { params: { storeId: currentStoreId } });
+      return res.data;
+    },
+    enabled: !!currentStoreId,
+  });
+
+  const counts: CountSummary[] = countsData?.counts || [];
+
+  // Fetch selected count; refresh while counting so several counters see each other's progress
+  const { data: countData, isLoading: countLoading } = useQuery({
+    queryKey: ['stock-count', selectedId],
+    queryFn: async () => {
+      const res = await api.get(`/inventory/counts/${selectedId}`);
+      return res.data;
+    },
+    enabled: !!selectedId,
+    refetchInterval: (query) => (query.state.data?.count?.status === 'in_progress' ? 10000 : false),
+  });
+
+  const count: CountDetail | undefined = countData?.count;
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const res = await api.get('/categories');
+      return res.data;
+    },
+    enabled: showCreate,
+  });
+
+  const categories: { id: string; name: string }[] = categoriesData?.categories || [];
+
+  const refreshCount = () => {
+    queryClient.invalidateQueries({ queryKey: ['stock-count', selectedId] });
+    queryClient.invalidateQueries({ queryKey: ['stock-counts'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await api.post('/inventory/counts', data);
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['stock-counts'] });
+      setShowCreate(false);
+      setNewCount({ type: 'cycle', categoryId: '', notes: '' });
+      setSelectedId(data.count.id);
+      toast({ title: 'Count Created', description: `${data.count.count_number} with ${data.count.lines.length} products` });
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to create count', variant: 'destructive' });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: 'start' | 'complete' | 'reopen' | 'post' | 'cancel') => {
+      const res = await api.post(`/inventory/counts/${selectedId}/${action}`);
+      return res.data;
+    },
+    onSuccess: (_data, action) => {
+      playSuccessSound();
+      refreshCount();
+      if (action === 'post') {
+        queryClient.invalidateQueries({ queryKey: ['stock'] });
+        queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      }
+      const titles: Record<string, string> = {
+        start: 'Counting started - system quantities frozen',
+        complete: 'Count completed - review variances',
+        reopen: 'Count reopened',
+        post: 'Variances posted to stock',
+        cancel: 'Count cancelled',
+      };
+      toast({ title: titles[action] });
+      if (action === 'cancel') setSelectedId(null);
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Action failed', variant: 'destructive' });
+    },
+  });
+
+  const entryMutation = useMutation({
+    mutationFn: async (data: { productId?: string; barcode?: string; quantity: number }) => {
+      const res = await api.post(`/inventory/counts/${selectedId}/entries`, data);
+      return res.data;
+    },
+    onSuccess: () => {
+      playSuccessSound();
+      setScanValue('');
+      setScanQty(1);
+      refreshCount();
+      scanInputRef.current?.focus();
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to record count', variant: 'destructive' });
+      scanInputRef.current?.select();
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (lineId: string) => {
+      const res = await api.delete(`/inventory/counts/${selectedId}/lines/${lineId}/entries`);
+      return res.data;
+    },
+    onSuccess: () => refreshCount(),
+  });
+
+  const handleCreate = () => {
+    if (newCount.type === 'cycle' && !newCount.categoryId) {
+      toast({ title: 'Error', description: 'Select a category for a cycle count', variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate({
+      storeId: currentStoreId,
+      type: newCount.type,
+      categoryId: newCount.categoryId || undefined,
+      notes: newCount.notes || undefined,
+    });
+  };
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scanValue.trim()) return;
+    entryMutation.mutate({ barcode: scanValue.trim(), quantity: scanQty });
+  };
+
+  const getStatusBadge = (status: CountSummary['status']) => {
+    switch (status) {
+      case 'posted':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium"><CheckCircle className="h-3 w-3" /> Posted</span>;
+      case 'completed':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 rounded-full text-xs font-medium"><ClipboardList className="h-3 w-3" /> In Review</span>;
+      case 'in_progress':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium"><Lock className="h-3 w-3" /> Counting</span>;
+      case 'draft':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium"><Clock className="h-3 w-3" /> Draft</span>;
+      case 'cancelled':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium"><X className="h-3 w-3" /> Cancelled</span>;
+      default:
+        return <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium">{status}</span>;
+    }
+  };
+
+  // ---- COUNT DETAIL ----
+  if (selectedId) {
+    if (countLoading || !count) {
+      return (
+        <div className="p-8 text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+        </div>
+      );
+    }
+
+    // System quantities stay hidden while counting so counters are not biased
+    const showSystem = count.status !== 'in_progress';
+    const isReview = ['completed', 'posted'].includes(count.status);
+    const lines = count.lines.filter((line) => {
+      if (lineFilter === 'uncounted') return line.counted_qty === null;
+      if (lineFilter === 'variance') return (line.counted_qty !== null || count.type === 'full') && Number(line.variance_qty) !== 0;
+      return true;
+    });
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => setSelectedId(null)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-2xl font-semibold tracking-tight">{count.count_number}</h1>
+                {getStatusBadge(count.status)}
+              </div>
+              <p className="text-muted-foreground capitalize">
+                {count.type} count · {count.store_name}{count.category_name ? ` · ${count.category_name}` : ''}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {count.status === 'draft' && (
+              <Button onClick={() => actionMutation.mutate('start')} disabled={actionMutation.isPending}>
+                <Play className="h-4 w-4 mr-2" /> {t('inventory.startCount')}
+              </Button>
+            )}
+            {count.status === 'in_progress' && (
+              <Button onClick={() => actionMutation.mutate('complete')} disabled={actionMutation.isPending}>
+                <CheckCircle className="h-4 w-4 mr-2" /> {t('inventory.completeCount')}
+              </Button>
+            )}
+            {count.status === 'completed' && (
+              <>
+                <Button variant="outline" onClick={() => actionMutation.mutate('reopen')} disabled={actionMutation.isPending}>
+                  <RotateCcw className="h-4 w-4 mr-2" /> {t('inventory.recount')}
+                </Button>
+                <Button
+                  onClick={() => {
+                    if (confirm(`Post ${count.summary.varianceLines} variance line(s) to stock?`)) {
+                      actionMutation.mutate('post');
+                    }
+                  }}
+                  disabled={actionMutation.isPending}
+                >
+                  <Send className="h-4 w-4 mr-2" /> {t('inventory.postVariances')}
+                </Button>
+              </>
+            )}
+            {['draft', 'in_progress', 'completed'].includes(count.status) && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Cancel count ${count.count_number}?`)) actionMutation.mutate('cancel');
+                }}
+                disabled={actionMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-2" /> {t('common.cancel')}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Progress & Cost Impact */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-xl border shadow-sm p-4">
+            <p className="text-sm text-muted-foreground">{t('inventory.countedLines')}</p>
+            <p className="text-2xl font-bold">{count.summary.countedLines} / {count.summary.totalLines}</p>
+          </div>
+          <div className="bg-white rounded-xl border shadow-sm p-4">
+            <p className="text-sm text-muted-foreground">{t('inventory.varianceLines')}</p>
+            <p className="text-2xl font-bold">{showSystem ? count.summary.varianceLines : '-'}</p>
+          </div>
+          <div className="bg-white rounded-xl border shadow-sm p-4">
+            <p className="text-sm text-muted-foreground">{t('inventory.gainValue')}</p>
+            <p className="text-2xl font-bold text-emerald-600">{showSystem ? formatCurrency(count.summary.gainValue, currency) : '-'}</p>
+          </div>
+          <div className="bg-white rounded-xl border shadow-sm p-4">
+            <p className="text-sm text-muted-foreground">{t('inventory.lossValue')}</p>
+            <p className="text-2xl font-bold text-red-600">{showSystem ? formatCurrency(count.summary.lossValue, currency) : '-'}</p>
+          </div>
+        </div>
+
+        {/* Scan Entry */}
+        {count.status === 'in_progress' && (
+          <form onSubmit={handleScan} className="bg-white rounded-xl border shadow-sm p-4 flex items-end gap-3">
+            <div className="flex-1 space-y-1">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <ScanBarcode className="h-4 w-4" /> {t('inventory.scanToCount')}
+              </label>
+              <Input
+                ref={scanInputRef}
+                placeholder="Scan barcode or type SKU..."
+                value={scanValue}
+                onChange={(e) => setScanValue(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="w-28 space-y-1">
+              <label className="text-sm font-medium">{t('inventory.qty')}</label>
+              <Input
+                type="number"
+                value={scanQty}
+                onChange={(e) => setScanQty(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <Button type="submit" disabled={entryMutation.isPending}>
+              {entryMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        {/* Lines */}
+        <div className="bg-white rounded-xl border shadow-sm">
+          <div className="p-4 border-b flex items-center gap-2">
+            {(['all', 'uncounted', 'variance'] as const).map((filter) => (
+              <button
+                key={filter}
+                onClick={() => setLineFilter(filter)}
+                className={`px-3 py-1 rounded-full text-sm capitalize ${lineFilter === filter ? 'bg-primary text-white' : 'bg-slate-100 text-slate-600'}`}
+              >
+                {filter}
+              </button>
+            ))}
+          </div>
+          {lines.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('inventory.noCountLines')}</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-muted-foreground">
+                <tr>
+                  <th className="text-left p-3">Product</th>
+                  {showSystem && <th className="text-right p-3">System</th>}
+                  <th className="text-right p-3">Counted</th>
+                  {showSystem && <th className="text-right p-3">Variance</th>}
+                  {showSystem && <th className="text-right p-3">Cost Impact</th>}
+                  <th className="text-left p-3">Counters</th>
+                  {count.status === 'in_progress' && <th className="p-3" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {lines.map((line) => {
+                  const variance = Number(line.variance_qty);
+                  const countsAsZero = line.counted_qty === null && count.type !== 'full';
+                  return (
+                    <tr key={line.id} className="hover:bg-slate-50">
+                      <td className="p-3">
+                        <p className="font-medium">{line.product_name}</p>
+                        <p className="text-xs text-muted-foreground">{line.sku}{line.barcode ? ` · ${line.barcode}` : ''}</p>
+                      </td>
+                      {showSystem && <td className="p-3 text-right">{Number(line.system_qty)}</td>}
+                      <td className="p-3 text-right font-medium">
+                        {line.counted_qty === null ? <span className="text-muted-foreground">-</span> : Number(line.counted_qty)}
+                      </td>
+                      {showSystem && (
+                        <td className={`p-3 text-right font-semibold ${countsAsZero ? 'text-muted-foreground' : variance > 0 ? 'text-emerald-600' : variance < 0 ? 'text-red-600' : ''}`}>
+                          {countsAsZero ? 'skipped' : variance > 0 ? `+${variance}` : variance}
+                        </td>
+                      )}
+                      {showSystem && (
+                        <td className="p-3 text-right">
+                          {countsAsZero ? '-' : formatCurrency(Number(line.variance_value), currency)}
+                        </td>
+                      )}
+                      <td className="p-3 text-xs text-muted-foreground">
+                        {line.counters.map((c) => `${c.countedByName}: ${Number(c.quantity)}`).join(', ') || '-'}
+                      </td>
+                      {count.status === 'in_progress' && (
+                        <td className="p-3 text-right whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => entryMutation.mutate({ productId: line.product_id, quantity: 1 })}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          {line.counted_qty !== null && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-500 hover:text-red-600"
+                              title="Clear my counts for this product"
+                              onClick={() => clearMutation.mutate(line.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {isReview && count.type !== 'full' && (
+          <p className="text-sm text-muted-foreground">{t('inventory.uncountedSkipped')}</p>
+        )}
+      </div>
+    );
+  }
+
+  // ---- COUNT LIST ----
   return (
     <div className="space-y-6">
-      <h1 className="text-2xl font-semibold">{t('inventory.stockCount')}</h1>
-      <p className="text-muted-foreground">{t('inventory.stockCountDesc')}</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{t('inventory.stockCount')}</h1>
+          <p className="text-muted-foreground">{t('inventory.stockCountDesc')}</p>
+        </div>
+        <Button onClick={() => setShowCreate(true)} disabled={!currentStoreId}>
+          <Plus className="h-4 w-4 mr-2" /> {t('inventory.newCount')}
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl border shadow-sm">
+        {countsLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          </div>
+        ) : counts.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('inventory.noCounts')}</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {counts.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setSelectedId(c.id)}
+                className="w-full text-left p-4 hover:bg-slate-50 flex items-center justify-between"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{c.count_number}</p>
+                    {getStatusBadge(c.status)}
+                  </div>
+                  <p className="text-sm text-muted-foreground capitalize">
+                    {c.type} count{c.category_name ? ` · ${c.category_name}` : ''} · {c.created_by_name}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{c.counted_count} / {c.line_count}</p>
+                  <p className="text-xs text-muted-foreground">{formatDateTime(c.created_at)}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create Count Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">{t('inventory.newCount')}</h2>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('common.type')}</label>
+                <select
+                  value={newCount.type}
+                  onChange={(e) => setNewCount({ ...newCount, type: e.target.value })}
+                  className="w-full h-10 border rounded-md px-3"
+                >
+                  <option value="full">Full - every active product</option>
+                  <option value="cycle">Cycle - one category</option>
+                  <option value="spot">Spot - scan products as you go</option>
+                </select>
+              </div>
+              {newCount.type !== 'full' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('products.category')}</label>
+                  <select
+                    value={newCount.categoryId}
+                    onChange={(e) => setNewCount({ ...newCount, categoryId: e.target.value })}
+                    className="w-full h-10 border rounded-md px-3"
+                  >
+                    <option value="">{newCount.type === 'spot' ? 'Any category' : 'Select category'}</option>
+                    {categories.map((c) => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('inventory.notes')}</label>
+                <Input
+                  placeholder={t('inventory.notesPlaceholder')}
+                  value={newCount.notes}
+                  onChange={(e) => setNewCount({ ...newCount, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setShowCreate(false)}>{t('common.cancel')}</Button>
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                {t('common.submit')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -7,7 +7,10 @@ import { formatDateTime } from '@/lib/utils';
 import { useAuthStore } from '@/stores/auth';
 import { toast } from '@/hooks/use-toast';
 import { playSuccessSound, playErrorSound } from '@/lib/sounds';
-import { Plus, Trash2, Package, Search, Loader2, Check, History, ArrowLeftRight, ArrowRight, Store } from 'lucide-react';
+import {
+  Plus, Trash2, Package, Search, Loader2, Check, History, ArrowLeftRight, ArrowRight, Store,
+  Truck, Inbox, FileText, X, Clock, CheckCircle, Send
+} from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
 interface Product {
@@ -24,15 +27,40 @@ interface TransferItem {
   quantity: number;
 }
 
-interface TransferRecord {
+interface TransferLine {
   id: string;
+  product_id: string;
   product_name: string;
   sku: string;
-  quantity_delta: number;
-  store_name: string;
-  reference_type: string;
-  notes: string;
+  quantity: number;
+  received_qty: number | null;
+  damaged_qty: number | null;
+  short_qty: number | null;
+  over_qty: number | null;
+}
+
+interface TransferRecord {
+  id: string;
+  transfer_number: string;
+  from_store_id: string;
+  to_store_id: string;
+  from_store_name: string;
+  to_store_name: string;
+  status: 'draft' | 'dispatched' | 'in_transit' | 'received' | 'cancelled';
+  notes: string | null;
+  line_count: number;
+  total_quantity: number;
+  created_by_name: string;
   created_at: string;
+  dispatched_at: string | null;
+  received_at: string | null;
+  lines?: TransferLine[];
+}
+
+interface ReceiveLineInput {
+  receivedQty: number;
+  damagedQty: number;
+  notes: string;
 }
 
 export default function TransfersPage() {
@@ -43,7 +71,10 @@ export default function TransfersPage() {
   const [toStoreId, setToStoreId] = useState('');
   const [notes, setNotes] = useState('');
   const [showProducts, setShowProducts] = useState(false);
-  const [activeTab, setActiveTab] = useState<'new' | 'history'>('new');
+  const [activeTab, setActiveTab] = useState<'new' | 'incoming' | 'history'>('new');
+  const [receivingTransfer, setReceivingTransfer] = useState<TransferRecord | null>(null);
+  const [receiveLines, setReceiveLines] = useState<Record<string, ReceiveLineInput>>({});
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
 
   const queryClient = useQueryClient();
   const { stores, currentStoreId } = useAuthStore();
@@ -57,15 +88,29 @@ export default function TransfersPage() {
 
   // Fetch transfer history
   const { data: transfersData, isLoading: transfersLoading } = useQuery({
-    queryKey: ['transfers'],
+    queryKey: ['transfers', currentStoreId],
     queryFn: async () => {
-      const res = await api.get('/inventory/transfers');
+      const res = await api.get('/inventory/transfers', { params: { storeId: currentStoreId } });
       return res.data;
     },
   });
 
   const transfers: TransferRecord[] = transfersData?.transfers || [];
 
+  // Fetch transfers in transit to the current store
+  const { data: incomingData, isLoading: incomingLoading } = useQuery({
+    queryKey: ['transfers', 'incoming', currentStoreId],
+    queryFn: async () => {
+      const res = await api.get('/inventory/transfers', {
+        params: { storeId: currentStoreId, direction: 'incoming', status: 'in_transit' }
+      });
+      return res.data;
+    },
+    enabled: !!currentStoreId,
+  });
+
+  const incomingTransfers: TransferRecord[] = incomingData?.transfers || [];
+
   // Fetch products for selection
   const { data: productsData, isLoading: productsLoading } = useQuery({
     queryKey: ['products-for-transfer', search],
@@ -83,14 +128,20 @@ export default function TransfersPage() {
       const res = await api.post('/inventory/transfers', data);
       return res.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       playSuccessSound();
       queryClient.invalidateQueries({ queryKey: ['stock'] });
       queryClient.invalidateQueries({ queryKey: ['transfers'] });
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
       setItems([]);
       setNotes('');
-      toast({ title: 'Stock Transferred!', description: 'Items have been moved successfully.' });
+      const dispatched = data.transfer?.status === 'in_transit';
+      toast({
+        title: dispatched ? 'Transfer Dispatched!' : 'Transfer Saved',
+        description: dispatched
+          ? `${data.transfer.transfer_number} is now in transit.`
+          : `${data.transfer?.transfer_number} saved as draft.`,
+      });
     },
     onError: (error: any) => {
       playErrorSound();
@@ -98,6 +149,114 @@ export default function TransfersPage() {
     },
   });
 
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'dispatch' | 'cancel' }) => {
+      const res = await api.post(`/inventory/transfers/${id}/${action}`);
+      return res.data;
+    },
+    onSuccess: (_data, { action }) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['transfers'] });
+      toast({ title: action === 'dispatch' ? 'Transfer Dispatched!' : 'Transfer Cancelled' });
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Action failed', variant: 'destructive' });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, lines }: { id: string; lines: any[] }) => {
+      const res = await api.post(`/inventory/transfers/${id}/receive`, { lines });
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      setReceivingTransfer(null);
+      setReceiveLines({});
+      const varianceCount = data.variances?.length || 0;
+      toast({
+        title: 'Transfer Received!',
+        description: varianceCount > 0
+          ? `${varianceCount} line(s) posted with variances.`
+          : 'All items received as dispatched.',
+      });
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to receive transfer', variant: 'destructive' });
+    },
+  });
+
+  const openReceive = async (transfer: TransferRecord) => {
+    try {
+      const res = await api.get(`/inventory/transfers/${transfer.id}`);
+      const detail: TransferRecord = res.data.transfer;
+      const inputs: Record<string, ReceiveLineInput> = {};
+      for (const line of detail.lines || []) {
+        inputs[line.id] = { receivedQty: Number(line.quantity), damagedQty: 0, notes: '' };
+      }
+      setReceiveLines(inputs);
+      setReceivingTransfer(detail);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to load transfer', variant: 'destructive' });
+    }
+  };
+
+  const updateReceiveLine = (lineId: string, patch: Partial<ReceiveLineInput>) => {
+    setReceiveLines({ ...receiveLines, [lineId]: { ...receiveLines[lineId], ...patch } });
+  };
+
+  const handleReceive = () => {
+    if (!receivingTransfer) return;
+    receiveMutation.mutate({
+      id: receivingTransfer.id,
+      lines: Object.entries(receiveLines).map(([lineId, input]) => ({
+        lineId,
+        receivedQty: input.receivedQty,
+        damagedQty: input.damagedQty,
+        notes: input.notes || undefined,
+      })),
+    });
+  };
+
+  const handleDownloadNote = async (transfer: TransferRecord) => {
+    setDownloadingId(transfer.id);
+    try {
+      const response = await api.get(`/documents/transfer/${transfer.id}`, {
+        params: { format: 'a4' },
+        responseType: 'blob'
+      });
+      const blob = new Blob([response.data], { type: 'application/pdf' });
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, '_blank');
+    } catch (error) {
+      toast({ title: 'Preview failed', description: 'Could not load transfer note', variant: 'destructive' });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: TransferRecord['status']) => {
+    switch (status) {
+      case 'received':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium"><CheckCircle className="h-3 w-3" /> Received</span>;
+      case 'dispatched':
+      case 'in_transit':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium"><Truck className="h-3 w-3" /> In Transit</span>;
+      case 'draft':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium"><Clock className="h-3 w-3" /> Draft</span>;
+      case 'cancelled':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium"><X className="h-3 w-3" /> Cancelled</span>;
+      default:
+        return <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium">{status}</span>;
+    }
+  };
+
   const addProduct = (product: Product) => {
     const existing = items.find(i => i.productId === product.id);
     if (existing) {
@@ -123,7 +282,7 @@ export default function TransfersPage() {
     setItems(items.filter(i => i.id !== id));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = (dispatch: boolean) => {
     if (items.length === 0) {
       toast({ title: 'Error', description: 'Add at least one product', variant: 'destructive' });
       return;
@@ -148,6 +307,7 @@ export default function TransfersPage() {
         quantity: i.quantity,
       })),
       notes,
+      dispatch,
     });
   };
 
@@ -174,6 +334,18 @@ export default function TransfersPage() {
           <ArrowLeftRight className="h-4 w-4 inline mr-2" />
           {t('inventory.newTransfer')}
         </button>
+        <button
+          onClick={() => setActiveTab('incoming')}
+          className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+            activeTab === 'incoming' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <Inbox className="h-4 w-4 inline mr-2" />
+          {t('inventory.awaitingReceipt')}
+          {incomingTransfers.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs">{incomingTransfers.length}</span>
+          )}
+        </button>
         <button
           onClick={() => setActiveTab('history')}
           className={`px-4 py-2 font-medium border-b-2 transition-colors ${
@@ -185,7 +357,43 @@ export default function TransfersPage() {
         </button>
       </div>
 
-      {activeTab === 'history' ? (
+      {activeTab === 'incoming' ? (
+        <div className="bg-white rounded-xl border shadow-sm">
+          <div className="p-4 border-b">
+            <h2 className="font-semibold">{t('inventory.awaitingReceipt')}</h2>
+            <p className="text-sm text-muted-foreground">{t('inventory.awaitingReceiptDesc')}</p>
+          </div>
+          {incomingLoading ? (
+            <div className="p-8 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            </div>
+          ) : incomingTransfers.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <Inbox className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('inventory.noAwaitingReceipt')}</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {incomingTransfers.map((transfer) => (
+                <div key={transfer.id} className="p-4 hover:bg-slate-50 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium">{transfer.transfer_number}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {transfer.from_store_name} <ArrowRight className="h-3 w-3 inline" /> {transfer.to_store_name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {transfer.line_count} items · {Number(transfer.total_quantity)} units · dispatched {transfer.dispatched_at ? formatDateTime(transfer.dispatched_at) : '-'}
+                    </p>
+                  </div>
+                  <Button onClick={() => openReceive(transfer)}>
+                    <Check className="h-4 w-4 mr-2" /> {t('inventory.receiveTransfer')}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : activeTab === 'history' ? (
         <div className="bg-white rounded-xl border shadow-sm">
           <div className="p-4 border-b">
             <h2 className="font-semibold">{t('inventory.transferHistory')}</h2>
@@ -203,17 +411,51 @@ export default function TransfersPage() {
             <div className="divide-y">
               {transfers.map((transfer) => (
                 <div key={transfer.id} className="p-4 hover:bg-slate-50">
-                  <div className="flex items-center justify-between">
+                  <div className="flex items-center justify-between gap-4">
                     <div>
-                      <p className="font-medium">{transfer.product_name}</p>
-                      <p className="text-sm text-muted-foreground">{transfer.sku}</p>
-                    </div>
-                    <div className="text-right">
-                      <p className={`font-semibold ${transfer.reference_type === 'transfer_in' ? 'text-emerald-600' : 'text-amber-600'}`}>
-                        {transfer.reference_type === 'transfer_in' ? 'IN' : 'OUT'} {Math.abs(transfer.quantity_delta)}
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{transfer.transfer_number}</p>
+                        {getStatusBadge(transfer.status)}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {transfer.from_store_name} <ArrowRight className="h-3 w-3 inline" /> {transfer.to_store_name}
                       </p>
-                      <p className="text-xs text-muted-foreground">{transfer.store_name}</p>
-                      <p className="text-xs text-muted-foreground">{formatDateTime(transfer.created_at)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {transfer.line_count} items · {Number(transfer.total_quantity)} units · {formatDateTime(transfer.created_at)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {transfer.status === 'draft' && (
+                        <Button
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: transfer.id, action: 'dispatch' })}
+                          disabled={actionMutation.isPending}
+                        >
+                          <Send className="h-4 w-4 mr-1" /> {t('inventory.dispatch')}
+                        </Button>
+                      )}
+                      {['draft', 'in_transit', 'dispatched'].includes(transfer.status) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            if (confirm(`Cancel transfer ${transfer.transfer_number}?`)) {
+                              actionMutation.mutate({ id: transfer.id, action: 'cancel' });
+                            }
+                          }}
+                          disabled={actionMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" /> {t('common.cancel')}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDownloadNote(transfer)}
+                        disabled={downloadingId === transfer.id}
+                      >
+                        {downloadingId === transfer.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -328,16 +570,19 @@ export default function TransfersPage() {
             )}
           </div>
 
-          {/* Submit Button */}
+          {/* Submit Buttons */}
           {items.length > 0 && fromStoreId && toStoreId && (
-            <div className="flex justify-end">
-              <Button size="lg" onClick={handleSubmit} disabled={transferMutation.isPending} className="px-8">
+            <div className="flex justify-end gap-3">
+              <Button size="lg" variant="outline" onClick={() => handleSubmit(false)} disabled={transferMutation.isPending}>
+                {t('inventory.saveDraft')}
+              </Button>
+              <Button size="lg" onClick={() => handleSubmit(true)} disabled={transferMutation.isPending} className="px-8">
                 {transferMutation.isPending ? (
                   <Loader2 className="h-5 w-5 animate-spin mr-2" />
                 ) : (
-                  <Check className="h-5 w-5 mr-2" />
+                  <Truck className="h-5 w-5 mr-2" />
                 )}
-                Complete Transfer
+                {t('inventory.dispatchTransfer')}
               </Button>
             </div>
           )}
@@ -393,6 +638,84 @@ export default function TransfersPage() {
           </div>
         </div>
       )}
+
+      {/* Receive Transfer Modal */}
+      {receivingTransfer && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4 max-h-[85vh] flex flex-col">
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">{t('inventory.receiveTransfer')} {receivingTransfer.transfer_number}</h2>
+              <p className="text-sm text-muted-foreground">
+                {receivingTransfer.from_store_name} <ArrowRight className="h-3 w-3 inline" /> {receivingTransfer.to_store_name}
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {(receivingTransfer.lines || []).map((line) => {
+                const input = receiveLines[line.id] || { receivedQty: 0, damagedQty: 0, notes: '' };
+                const variance = input.receivedQty + input.damagedQty - Number(line.quantity);
+                return (
+                  <div key={line.id} className="p-4 bg-slate-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{line.product_name}</p>
+                        <p className="text-sm text-muted-foreground">{line.sku} · dispatched {Number(line.quantity)}</p>
+                      </div>
+                      {variance < 0 && (
+                        <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium">{t('inventory.short')} {Math.abs(variance)}</span>
+                      )}
+                      {variance > 0 && (
+                        <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium">{t('inventory.over')} {variance}</span>
+                      )}
+                      {input.damagedQty > 0 && (
+                        <span className="px-2 py-1 bg-orange-100 text-orange-700 rounded-full text-xs font-medium">{t('inventory.damaged')} {input.damagedQty}</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="text-xs text-muted-foreground">{t('inventory.receivedQty')}</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={input.receivedQty}
+                          onChange={(e) => updateReceiveLine(line.id, { receivedQty: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-muted-foreground">{t('inventory.damagedQty')}</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={input.damagedQty}
+                          onChange={(e) => updateReceiveLine(line.id, { damagedQty: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-muted-foreground">{t('inventory.notes')}</label>
+                        <Input
+                          value={input.notes}
+                          onChange={(e) => updateReceiveLine(line.id, { notes: e.target.value })}
+                          className="h-9"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="p-4 border-t flex justify-end gap-3">
+              <Button variant="outline" onClick={() => { setReceivingTransfer(null); setReceiveLines({}); }}>
+                {t('common.cancel')}
+              </Button>
+              <Button onClick={handleReceive} disabled={receiveMutation.isPending}>
+                {receiveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+                {t('inventory.confirmReceipt')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Search, X, Loader2, Gift, Ban, Hourglass } from 'lucide-react';
+
+type GiftCardStatus = 'active' | 'expired' | 'cancelled';
+
+interface GiftCard {
+  id: string;
+  code: string;
+  balance: string;
+  status: GiftCardStatus;
+  customer_name?: string;
+  issued_store_name?: string;
+  expires_at?: string;
+  created_at: string;
+}
+
+interface GiftCardLedgerEntry {
+  id: string;
+  type: string;
+  amount_delta: string;
+  balance_after: string;
+  receipt_number?: string;
+  store_name?: string;
+  notes?: string;
+  created_by_name?: string;
+  occurred_at: string;
+}
+
+interface GiftCardDetail extends GiftCard {
+  ledger: GiftCardLedgerEntry[];
+}
+
+interface GiftCardLiability {
+  asOf: string;
+  cardCount: number;
+  balance: number;
+  byStore: { storeId: string; storeName?: string; cardCount: number; balance: number }[];
+  movements: { type: string; count: number; amount: number }[];
+}
+
+const statusStyles: Record<GiftCardStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  expired: 'bg-amber-100 text-amber-700',
+  cancelled: 'bg-slate-100 text-slate-600',
+};
+
+export default function GiftCardsPage() {
+  const [statusFilter, setStatusFilter] = useState<GiftCardStatus | 'all'>('active');
+  const [search, setSearch] = useState('');
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  const [cancelNotes, setCancelNotes] = useState('');
+  const [liabilityRange, setLiabilityRange] = useState({ startDate: '', endDate: '' });
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['gift-cards', statusFilter, search],
+    queryFn: async () => {
+      const res = await api.get('/gift-cards', { params: { status: statusFilter, search: search || undefined } });
+      return res.data;
+    },
+  });
+  const giftCards: GiftCard[] = data?.giftCards || [];
+
+  const { data: detail, isLoading: detailLoading } = useQuery({
+    queryKey: ['gift-card', selectedCode],
+    queryFn: async () => {
+      const res = await api.get(`/gift-cards/${encodeURIComponent(selectedCode!)}`);
+      return res.data as GiftCardDetail;
+    },
+    enabled: !!selectedCode,
+  });
+
+  const { data: liability } = useQuery({
+    queryKey: ['gift-card-liability', liabilityRange],
+    queryFn: async () => {
+      const res = await api.get('/gift-cards/liability', {
+        params: { startDate: liabilityRange.startDate || undefined, endDate: liabilityRange.endDate || undefined },
+      });
+      return res.data as GiftCardLiability;
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['gift-cards'] });
+    queryClient.invalidateQueries({ queryKey: ['gift-card'] });
+    queryClient.invalidateQueries({ queryKey: ['gift-card-liability'] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, notes }: { id: string; notes: string }) => {
+      const res = await api.post(`/gift-cards/${id}/cancel`, { notes });
+      return res.data;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setCancelNotes('');
+      toast({
+        title: 'Gift card cancelled',
+        description: `${formatCurrency(result.writtenOff, currency)} written off ${result.code}.`,
+      });
+    },
+    onError,
+  });
+
+  const expireMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.post('/gift-cards/expire');
+      return res.data;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: 'Expiry run', description: `${result.expired} gift cards expired.` });
+    },
+    onError,
+  });
+
+  const closeDetail = () => {
+    setSelectedCode(null);
+    setCancelNotes('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Gift Cards</h1>
+          <p className="text-muted-foreground">Balances, history and outstanding liability for stored-value cards</p>
+        </div>
+        <Button variant="outline" onClick={() => expireMutation.mutate()} disabled={expireMutation.isPending}>
+          {expireMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Hourglass className="h-4 w-4 mr-2" />}
+          Expire cards now
+        </Button>
+      </div>
+
+      {/* Liability */}
+      <div className="bg-white rounded-xl border shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="font-semibold">Liability</h2>
+            <p className="text-xs text-muted-foreground">
+              Balance owed to card holders{liability ? ` as of ${formatDate(liability.asOf)}` : ''}; movements cover the selected period
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <label className="text-xs font-medium">From</label>
+              <Input type="date" value={liabilityRange.startDate} onChange={(e) => setLiabilityRange({ ...liabilityRange, startDate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">To</label>
+              <Input type="date" value={liabilityRange.endDate} onChange={(e) => setLiabilityRange({ ...liabilityRange, endDate: e.target.value })} />
+            </div>
+          </div>
+        </div>
+        {liability && (
+          <div className="grid lg:grid-cols-3 gap-4">
+            <div className="rounded-lg bg-indigo-50 p-4">
+              <p className="text-xs uppercase tracking-wide text-indigo-700 font-semibold">Outstanding</p>
+              <p className="text-2xl font-bold">{formatCurrency(liability.balance, currency)}</p>
+              <p className="text-xs text-muted-foreground">{liability.cardCount} cards with a balance</p>
+            </div>
+            <div className="rounded-lg border p-4 space-y-1">
+              <p className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">By issuing store</p>
+              {liability.byStore.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No cards issued</p>
+              ) : liability.byStore.map(store => (
+                <div key={store.storeId || 'none'} className="flex justify-between text-sm">
+                  <span>{store.storeName || 'Unknown store'} <span className="text-muted-foreground">({store.cardCount})</span></span>
+                  <span className="font-medium">{formatCurrency(store.balance, currency)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="rounded-lg border p-4 space-y-1">
+              <p className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">Movements</p>
+              {liability.movements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No movements in this period</p>
+              ) : liability.movements.map(movement => (
+                <div key={movement.type} className="flex justify-between text-sm">
+                  <span className="capitalize">{movement.type} <span className="text-muted-foreground">({movement.count})</span></span>
+                  <span className={cn('font-medium', movement.amount < 0 ? 'text-red-600' : 'text-emerald-600')}>
+                    {formatCurrency(movement.amount, currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Cards */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="p-4 border-b flex flex-wrap gap-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by code or scan a card..."
+              className="pl-10"
+              value={search}
+              onChange={(e) => setSearch(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === 'Enter' && search.trim() && setSelectedCode(search.trim())}
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as GiftCardStatus | 'all')}
+            className="h-10 border rounded-md px-3 text-sm"
+          >
+            <option value="active">Active</option>
+            <option value="expired">Expired</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : giftCards.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Gift className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No gift cards found</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-4 font-medium">Code</th>
+                <th className="text-left p-4 font-medium">Status</th>
+                <th className="text-left p-4 font-medium">Customer</th>
+                <th className="text-left p-4 font-medium">Issued</th>
+                <th className="text-left p-4 font-medium">Expires</th>
+                <th className="text-right p-4 font-medium">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {giftCards.map(card => (
+                <tr key={card.id} className="border-t hover:bg-muted/30 cursor-pointer" onClick={() => setSelectedCode(card.code)}>
+                  <td className="p-4 font-mono font-medium">{card.code}</td>
+                  <td className="p-4">
+                    <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', statusStyles[card.status])}>
+                      {card.status}
+                    </span>
+                  </td>
+                  <td className="p-4 text-sm">{card.customer_name || '-'}</td>
+                  <td className="p-4 text-sm">
+                    {formatDate(card.created_at)}
+                    {card.issued_store_name && <span className="text-muted-foreground"> · {card.issued_store_name}</span>}
+                  </td>
+                  <td className="p-4 text-sm">{card.expires_at ? formatDate(card.expires_at) : 'Never'}</td>
+                  <td className="p-4 text-right font-medium">{formatCurrency(parseFloat(card.balance), currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Card Detail Modal */}
+      {selectedCode && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <Gift className="h-5 w-5" /> <span className="font-mono">{detail?.code || selectedCode}</span>
+              </h2>
+              <button onClick={closeDetail} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {detailLoading ? (
+              <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+            ) : !detail ? (
+              <p className="p-8 text-center text-muted-foreground">Gift card not found</p>
+            ) : (
+              <div className="p-6 space-y-6 overflow-y-auto">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Balance</p>
+                    <p className="text-2xl font-bold">{formatCurrency(parseFloat(detail.balance), currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Status</p>
+                    <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', statusStyles[detail.status])}>
+                      {detail.status}
+                    </span>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Expires</p>
+                    <p className="font-medium">{detail.expires_at ? formatDate(detail.expires_at) : 'Never'}</p>
+                  </div>
+                </div>
+
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-3 font-medium">Date</th>
+                        <th className="text-left p-3 font-medium">Type</th>
+                        <th className="text-left p-3 font-medium">Reference</th>
+                        <th className="text-right p-3 font-medium">Amount</th>
+                        <th className="text-right p-3 font-medium">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.ledger.map(entry => (
+                        <tr key={entry.id} className="border-t">
+                          <td className="p-3">{formatDateTime(entry.occurred_at)}</td>
+                          <td className="p-3 capitalize">{entry.type}</td>
+                          <td className="p-3 text-muted-foreground">
+                            {entry.receipt_number || entry.notes || '-'}
+                            {entry.store_name && ` · ${entry.store_name}`}
+                          </td>
+                          <td className={cn('p-3 text-right font-medium', parseFloat(entry.amount_delta) < 0 ? 'text-red-600' : 'text-emerald-600')}>
+                            {formatCurrency(parseFloat(entry.amount_delta), currency)}
+                          </td>
+                          <td className="p-3 text-right">{formatCurrency(parseFloat(entry.balance_after), currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {detail.status === 'active' && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Reason for cancelling"
+                      value={cancelNotes}
+                      onChange={(e) => setCancelNotes(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => cancelMutation.mutate({ id: detail.id, notes: cancelNotes })}
+                      disabled={cancelMutation.isPending}
+                    >
+                      {cancelMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Ban className="h-4 w-4 mr-2" />}
+                      Cancel Card
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
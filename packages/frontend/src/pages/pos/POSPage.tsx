@@ -8,11 +8,18 @@ import { formatCurrency } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
 import { api } from '@/lib/api';
 import { playCashSound, playErrorSound } from '@/lib/sounds';
+import {
+  cacheCatalog, getCachedCatalog, cacheCustomers, searchCachedCustomers,
+  addToOutbox, deductCachedStock
+} from '@/lib/offline-db';
+import { useOfflineStore, isNetworkError } from '@/stores/offline';
 import { useTranslation } from 'react-i18next';
+import { useDeviceRegister } from '@/hooks/use-device-register';
 import {
   ArrowLeft, Search, Trash2, Plus, Minus, CreditCard, Banknote,
   ShoppingCart, Package, X, Check, Loader2, User, UserPlus, ChevronDown,
-  Phone, Mail, Clock, Sparkles, Grid3X3, List, Printer, Download, Eye, FileText, RefreshCw
+  Phone, Mail, Clock, Sparkles, Grid3X3, List, Printer, Download, Eye, FileText, RefreshCw,
+  WifiOff, UploadCloud, Tag, Ticket, Star, Gift, ArrowLeftRight, Split, AlertTriangle
 } from 'lucide-react';
 
 interface CartItem {
@@ -25,6 +32,94 @@ interface CartItem {
   lineTotal: number;
 }
 
+interface CartPricing {
+  lines: {
+    index: number;
+    unitPrice: number;
+    discountAmount: number;
+    promotionId?: string;
+    taxAmount: number;
+    lineTotal: number;
+    explanation: { step: string; label: string; amount: number }[];
+  }[];
+  promotions: { promotionId: string; code: string; name: string; amount: number }[];
+  rejectedCoupons: { code: string; message: string }[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+interface AppliedVoucher {
+  voucherId: string;
+  code: string;
+  amount: number;
+}
+
+interface GiftCardSale {
+  id: string;
+  code: string;
+  amount: number;
+  reload: boolean;
+}
+
+interface AppliedGiftCard {
+  giftCardId: string;
+  code: string;
+  balance: number;
+}
+
+interface LoyaltyWallet {
+  enabled: boolean;
+  balance: number;
+  balanceValue: number;
+  pointValue: number;
+  minRedeemPoints: number;
+}
+
+type PaymentMethod = 'cash' | 'card' | 'instapay' | 'vodafone_cash' | 'etisalat_cash' | 'orange_cash' | 'wallet' | 'bank_transfer' | 'voucher' | 'loyalty' | 'gift_card';
+
+interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  cardLast4?: string;
+  voucherId?: string;
+  giftCardId?: string;
+  // Set once the card terminal has authorised the amount
+  authCode?: string;
+  terminalTransactionId?: string;
+}
+
+// One row of a split payment as the cashier types it
+interface SplitTender {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+  cardLast4: string;
+}
+
+const SPLIT_METHODS: PaymentMethod[] = [
+  'cash', 'card', 'instapay', 'vodafone_cash', 'orange_cash', 'etisalat_cash', 'bank_transfer',
+];
+
+interface ReturnLine {
+  id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  returnable: number;
+  unitCredit: number;
+  returnQty: number;
+}
+
+interface ExchangeReturn {
+  receiptId: string;
+  receiptNumber: string;
+  customerId: string | null;
+  lines: ReturnLine[];
+}
+
 interface Product {
   id: string;
   sku: string;
@@ -49,6 +144,7 @@ export default function POSPage() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { tenant, currentStoreId } = useAuthStore();
+  const { isOnline, syncing, pendingCount, failedCount, refreshCounts, syncOutbox } = useOfflineStore();
   const searchRef = useRef<HTMLInputElement>(null);
   
   const [cart, setCart] = useState<CartItem[]>([]);
@@ -56,9 +152,30 @@ export default function POSPage() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [showPayment, setShowPayment] = useState(false);
   const [showWalletOptions, setShowWalletOptions] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [splitTenders, setSplitTenders] = useState<SplitTender[]>([]);
+  const [terminalAmount, setTerminalAmount] = useState<number | null>(null);
   const [cashReceived, setCashReceived] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showMobileCart, setShowMobileCart] = useState(false);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [voucherInput, setVoucherInput] = useState('');
+  const [appliedVoucher, setAppliedVoucher] = useState<AppliedVoucher | null>(null);
+  const [checkingVoucher, setCheckingVoucher] = useState(false);
+  const [usePoints, setUsePoints] = useState(false);
+  const [giftCardSales, setGiftCardSales] = useState<GiftCardSale[]>([]);
+  const [showGiftCardSale, setShowGiftCardSale] = useState(false);
+  const [giftCardForm, setGiftCardForm] = useState({ code: '', amount: '' });
+  const [giftCardFormBalance, setGiftCardFormBalance] = useState<number | null>(null);
+  const [giftCardInput, setGiftCardInput] = useState('');
+  const [appliedGiftCard, setAppliedGiftCard] = useState<AppliedGiftCard | null>(null);
+  const [checkingGiftCard, setCheckingGiftCard] = useState(false);
+  const [exchange, setExchange] = useState<ExchangeReturn | null>(null);
+  const [showExchange, setShowExchange] = useState(false);
+  const [exchangeLookup, setExchangeLookup] = useState('');
+  const [exchangeDraft, setExchangeDraft] = useState<ExchangeReturn | null>(null);
+  const [lookingUpReceipt, setLookingUpReceipt] = useState(false);
   
   // Customer states
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
@@ -68,27 +185,60 @@ export default function POSPage() {
   const [newCustomer, setNewCustomer] = useState({ firstName: '', lastName: '', phone: '', email: '' });
   
   // Receipt success state
-  const [completedSale, setCompletedSale] = useState<{ receiptId: string; receiptNumber: string; total: number } | null>(null);
+  const [completedSale, setCompletedSale] = useState<{
+    receiptId: string;
+    receiptNumber: string;
+    total: number;
+    offline?: boolean;
+    giftCards?: { code: string; amount: number; type: 'issue' | 'reload' }[];
+  } | null>(null);
   const [receiptFormat, setReceiptFormat] = useState<'thermal' | 'a4'>('thermal');
   const [isDownloading, setIsDownloading] = useState(false);
+  const [receiptEmail, setReceiptEmail] = useState('');
+  const [isEmailing, setIsEmailing] = useState(false);
 
-  // Fetch current open shift
+  // Fetch current open shift, and the one on this browser's register when the cashier is not on it
+  const { data: deviceRegister } = useDeviceRegister(currentStoreId);
   const { data: shiftData } = useQuery({
-    queryKey: ['pos-current-shift', currentStoreId],
+    queryKey: ['pos-current-shift', currentStoreId, deviceRegister?.id],
     queryFn: async () => {
-      const res = await api.get('/shifts/current', { params: { storeId: currentStoreId } });
+      const res = await api.get('/shifts/current', {
+        params: { storeId: currentStoreId, registerId: deviceRegister?.id },
+      });
       return res.data;
     },
     enabled: !!currentStoreId,
   });
   const currentShift = shiftData?.shift;
+  const registerShift = shiftData?.registerShift;
+
+  // Card payments go through the terminal when the server has one configured
+  const { data: terminal } = useQuery({
+    queryKey: ['pos-terminal'],
+    queryFn: async () => {
+      const res = await api.get('/pos/terminal');
+      return res.data as { enabled: boolean; driver: string };
+    },
+    enabled: isOnline,
+    staleTime: 5 * 60 * 1000,
+  });
 
-  // Fetch all products with store-specific stock
+  // Fetch all products with store-specific stock. The unfiltered list is kept
+  // in IndexedDB so the register can keep selling when the API is unreachable.
   const { data: productsData, isLoading: productsLoading, refetch: refetchProducts } = useQuery({
     queryKey: ['pos-products', search, currentStoreId],
     queryFn: async () => {
-      const res = await api.get('/products', { params: { search, storeId: currentStoreId } });
-      return res.data;
+      try {
+        const res = await api.get('/products', { params: { search, storeId: currentStoreId } });
+        if (!search && currentStoreId) {
+          cacheCatalog(currentStoreId, res.data.products || []);
+        }
+        return res.data;
+      } catch (error) {
+        if (!isNetworkError(error) || !currentStoreId) throw error;
+        const cached = await getCachedCatalog(currentStoreId, search);
+        return { products: cached.products, cachedAt: cached.cachedAt };
+      }
     },
   });
 
@@ -96,12 +246,107 @@ export default function POSPage() {
   const { data: customersData, refetch: refetchCustomers } = useQuery({
     queryKey: ['pos-customers', customerSearch],
     queryFn: async () => {
-      const res = await api.get('/customers', { params: { search: customerSearch } });
-      return res.data;
+      try {
+        const res = await api.get('/customers', { params: { search: customerSearch } });
+        cacheCustomers(res.data.customers || []);
+        return res.data;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return { customers: await searchCachedCustomers(customerSearch) };
+      }
     },
     enabled: showCustomerSearch,
   });
 
+  // The server prices the cart (price lists, promotions, coupons, tax); offline sales use shelf prices.
+  // An exchange is priced for the customer on the original sale.
+  const pricingCustomerId = exchange ? exchange.customerId : selectedCustomer?.id;
+  const { data: pricingData, refetch: refetchPricing } = useQuery({
+    queryKey: ['pos-cart-price', currentStoreId, pricingCustomerId, cart.map(i => `${i.productId}:${i.quantity}`).join(','), couponCodes],
+    queryFn: async () => {
+      const res = await api.post('/pos/cart/price', {
+        storeId: currentStoreId,
+        customerId: pricingCustomerId || null,
+        items: cart.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        couponCodes,
+      });
+      return res.data as CartPricing;
+    },
+    enabled: isOnline && cart.length > 0 && !!currentStoreId,
+    retry: false,
+  });
+  const pricing = pricingData && pricingData.lines.length === cart.length ? pricingData : undefined;
+
+  // Points can only be spent while the server can check the balance
+  const { data: wallet } = useQuery({
+    queryKey: ['loyalty-wallet', selectedCustomer?.id],
+    queryFn: async () => {
+      const res = await api.get(`/loyalty/wallets/${selectedCustomer!.id}`);
+      return res.data as LoyaltyWallet;
+    },
+    enabled: isOnline && !!selectedCustomer,
+    retry: false,
+  });
+  const canUsePoints = !!wallet?.enabled && wallet.balance > 0 && wallet.balance >= wallet.minRedeemPoints;
+
+  useEffect(() => {
+    setUsePoints(false);
+  }, [selectedCustomer?.id]);
+
+  // Drop coupons the server turned down so they are not sent with the sale
+  useEffect(() => {
+    if (!pricingData?.rejectedCoupons.length) return;
+    const rejected = pricingData.rejectedCoupons.map(c => c.code);
+    pricingData.rejectedCoupons.forEach(c => {
+      toast({ title: c.code, description: c.message, variant: 'destructive' });
+    });
+    setCouponCodes(prev => prev.filter(code => !rejected.includes(code)));
+  }, [pricingData]);
+
+  const applyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (code && !couponCodes.includes(code)) {
+      setCouponCodes(prev => [...prev, code]);
+    }
+    setCouponInput('');
+  };
+
+  // Pick up anything left in the outbox from a previous session
+  useEffect(() => {
+    refreshCounts().then(() => {
+      if (navigator.onLine && useOfflineStore.getState().pendingCount > 0) {
+        handleSync();
+      }
+    });
+  }, []);
+
+  const handleSync = async () => {
+    const result = await syncOutbox();
+    if (result.synced > 0) {
+      queryClient.invalidateQueries({ queryKey: ['pos-products'] });
+      queryClient.invalidateQueries({ queryKey: ['pos-current-shift'] });
+      toast({
+        title: t('pos.offline.syncedTitle'),
+        description: t('pos.offline.syncedDescription', { count: result.synced }),
+      });
+    }
+    if (result.conflicts > 0) {
+      toast({
+        title: t('pos.offline.conflictsTitle'),
+        description: t('pos.offline.conflictsDescription', { count: result.conflicts }),
+        variant: 'destructive',
+      });
+    }
+    if (result.failed > 0) {
+      playErrorSound();
+      toast({
+        title: t('pos.offline.failedTitle'),
+        description: t('pos.offline.failedDescription', { count: result.failed }),
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleRefresh = () => {
     refetchProducts();
     if (showCustomerSearch) {
@@ -139,10 +384,193 @@ export default function POSPage() {
 
   // Calculate totals
   const itemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
-  const subtotal = cart.reduce((sum, item) => sum + item.lineTotal, 0);
-  const total = subtotal;
+  const subtotal = pricing?.subtotal ?? cart.reduce((sum, item) => sum + item.lineTotal, 0);
+  const productTotal = pricing?.totalAmount ?? subtotal;
+  const giftCardSaleTotal = giftCardSales.reduce((sum, card) => sum + card.amount, 0);
+  const exchangeCredit = exchange
+    ? Math.round(exchange.lines.reduce((sum, line) => sum + line.returnQty * line.unitCredit, 0) * 100) / 100
+    : 0;
+  // In an exchange the total is the difference; below zero it is paid back to the customer
+  const total = Math.round((productTotal + giftCardSaleTotal - exchangeCredit) * 100) / 100;
+  const refundDue = total < 0 ? -total : 0;
+  const hasItems = cart.length > 0 || giftCardSales.length > 0;
+  const voucherAmount = appliedVoucher ? Math.min(appliedVoucher.amount, Math.max(0, total)) : 0;
+  const pointsAmount = usePoints && wallet && isOnline
+    ? Math.round(Math.min(wallet.balanceValue, Math.max(0, total - voucherAmount)) * 100) / 100
+    : 0;
+  const pointsUsed = wallet ? Math.round((pointsAmount / wallet.pointValue) * 100) / 100 : 0;
+  const giftCardAmount = appliedGiftCard
+    ? Math.round(Math.min(appliedGiftCard.balance, Math.max(0, total - voucherAmount - pointsAmount)) * 100) / 100
+    : 0;
+  const amountDue = Math.max(0, total - voucherAmount - pointsAmount - giftCardAmount);
+  // The tender that pays for the whole sale, when one does
+  const coveredBy = amountDue > 0 ? null
+    : giftCardAmount > 0 ? 'gift_card' as const
+    : pointsAmount > 0 ? 'loyalty' as const
+    : appliedVoucher ? 'voucher' as const
+    : null;
   const cashAmount = parseFloat(cashReceived) || 0;
-  const change = cashAmount - total;
+  const change = cashAmount - amountDue;
+  const splitPaid = Math.round(splitTenders.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0) * 100) / 100;
+  const splitNonCash = Math.round(splitTenders
+    .filter(tender => tender.method !== 'cash')
+    .reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0) * 100) / 100;
+  const splitRemaining = Math.round((amountDue - splitPaid) * 100) / 100;
+  // Only cash can go over the amount due and come back as change
+  const splitReady = splitTenders.length > 0
+    && splitRemaining <= 0
+    && splitNonCash <= amountDue
+    && splitTenders.every(tender => (parseFloat(tender.amount) || 0) > 0)
+    && splitTenders.every(tender => tender.method !== 'card' || !tender.cardLast4 || /^\d{4}$/.test(tender.cardLast4));
+
+  // Vouchers are checked by the server against the current total and customer
+  const redeemVoucher = async (code: string) => {
+    setCheckingVoucher(true);
+    try {
+      const res = await api.post('/vouchers/check', {
+        code,
+        amountDue: total,
+        customerId: selectedCustomer?.id || null,
+      });
+      setAppliedVoucher({ voucherId: res.data.voucherId, code: res.data.code, amount: res.data.amount });
+      setVoucherInput('');
+    } catch (error: any) {
+      setAppliedVoucher(null);
+      toast({ title: code, description: error.response?.data?.error || 'Voucher could not be checked', variant: 'destructive' });
+    } finally {
+      setCheckingVoucher(false);
+    }
+  };
+
+  // A changed cart or customer may change what the voucher covers
+  useEffect(() => {
+    if (appliedVoucher && hasItems) {
+      redeemVoucher(appliedVoucher.code);
+    }
+  }, [total, selectedCustomer?.id]);
+
+  // Gift cards are looked up by the code typed or scanned from the card
+  const lookupGiftCard = async (code: string) => {
+    const res = await api.get(`/gift-cards/${encodeURIComponent(code.trim().toUpperCase())}`);
+    return res.data as { id: string; code: string; balance: string; status: string };
+  };
+
+  const applyGiftCard = async (code: string) => {
+    setCheckingGiftCard(true);
+    try {
+      const card = await lookupGiftCard(code);
+      if (card.status !== 'active' || parseFloat(card.balance) <= 0) {
+        throw new Error(card.status !== 'active' ? t('pos.giftCards.notActive', { status: card.status }) : t('pos.giftCards.empty'));
+      }
+      setAppliedGiftCard({ giftCardId: card.id, code: card.code, balance: parseFloat(card.balance) });
+      setGiftCardInput('');
+    } catch (error: any) {
+      toast({ title: code, description: error.response?.data?.error || error.message, variant: 'destructive' });
+    } finally {
+      setCheckingGiftCard(false);
+    }
+  };
+
+  // An existing card is reloaded; an unknown code (or none) issues a new card
+  const checkGiftCardForSale = async () => {
+    const code = giftCardForm.code.trim();
+    setGiftCardFormBalance(null);
+    if (!code) return;
+    try {
+      const card = await lookupGiftCard(code);
+      if (card.status === 'cancelled') {
+        toast({ title: code, description: t('pos.giftCards.notActive', { status: card.status }), variant: 'destructive' });
+        return;
+      }
+      setGiftCardFormBalance(parseFloat(card.balance));
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        toast({ title: code, description: error.response?.data?.error || 'Gift card could not be checked', variant: 'destructive' });
+      }
+    }
+  };
+
+  const addGiftCardSale = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(giftCardForm.amount);
+    if (!amount || amount <= 0) return;
+    setGiftCardSales(prev => [...prev, {
+      id: crypto.randomUUID(),
+      code: giftCardForm.code.trim().toUpperCase(),
+      amount,
+      reload: giftCardFormBalance !== null,
+    }]);
+    // A gift card cannot pay for another gift card
+    setAppliedGiftCard(null);
+    setGiftCardForm({ code: '', amount: '' });
+    setGiftCardFormBalance(null);
+    setShowGiftCardSale(false);
+  };
+
+  // Load the original sale and what is left to return on each line
+  const lookupExchangeReceipt = async () => {
+    const number = exchangeLookup.trim().toUpperCase();
+    if (!number) return;
+    setLookingUpReceipt(true);
+    try {
+      const res = await api.get(`/pos/receipt/${encodeURIComponent(number)}`);
+      const receipt = res.data;
+      if (receipt.type !== 'sale' || !['completed', 'refunded'].includes(receipt.status)) {
+        toast({ title: receipt.receipt_number, description: t('pos.exchange.notExchangeable'), variant: 'destructive' });
+        return;
+      }
+      // Points and vouchers spent on the sale stay spent; returns are credited at the share paid otherwise
+      const saleTotal = parseFloat(receipt.total_amount);
+      const paid = (receipt.payments || [])
+        .filter((p: SalePayment) => p.method !== 'loyalty' && p.method !== 'voucher')
+        .reduce((sum: number, p: SalePayment) => sum + p.amount, 0) - (parseFloat(receipt.change_amount) || 0);
+      const paidShare = saleTotal > 0 ? Math.min(1, paid / saleTotal) : 0;
+      setExchangeDraft({
+        receiptId: receipt.id,
+        receiptNumber: receipt.receipt_number,
+        customerId: receipt.customer_id,
+        lines: (receipt.lines || [])
+          .filter((line: any) => line.product_id)
+          .map((line: any) => {
+            const quantity = parseFloat(line.quantity);
+            return {
+              id: line.id,
+              name: line.name,
+              sku: line.sku,
+              quantity,
+              returnable: quantity - parseFloat(line.returned_quantity || 0),
+              unitCredit: parseFloat(line.line_total) / quantity * paidShare,
+              returnQty: 0,
+            };
+          }),
+      });
+    } catch (error: any) {
+      toast({ title: t('common.error'), description: error.response?.data?.error || 'Receipt not found', variant: 'destructive' });
+    } finally {
+      setLookingUpReceipt(false);
+    }
+  };
+
+  const setReturnQty = (lineId: string, returnQty: number) => {
+    setExchangeDraft(prev => prev && {
+      ...prev,
+      lines: prev.lines.map(line => line.id === lineId
+        ? { ...line, returnQty: Math.min(Math.max(0, returnQty), line.returnable) }
+        : line),
+    });
+  };
+
+  const startExchange = () => {
+    if (!exchangeDraft) return;
+    // Vouchers, points and gift card sales are not part of an exchange
+    setAppliedVoucher(null);
+    setUsePoints(false);
+    setGiftCardSales([]);
+    setExchange({ ...exchangeDraft, lines: exchangeDraft.lines.filter(line => line.returnQty > 0) });
+    setExchangeDraft(null);
+    setExchangeLookup('');
+    setShowExchange(false);
+  };
 
   // Add item to cart
   const addToCart = (product: Product) => {
@@ -197,36 +625,240 @@ export default function POSPage() {
     setShowPayment(false);
     setCashReceived('');
     setSelectedCustomer(null);
+    setCouponCodes([]);
+    setAppliedVoucher(null);
+    setUsePoints(false);
+    setGiftCardSales([]);
+    setAppliedGiftCard(null);
+    setExchange(null);
+    setShowSplit(false);
+    setSplitTenders([]);
+  };
+
+  const openSplit = () => {
+    setSplitTenders([{ method: 'cash', amount: String(amountDue), reference: '', cardLast4: '' }]);
+    setShowSplit(true);
+  };
+
+  const addSplitTender = () => setSplitTenders(tenders => [
+    ...tenders,
+    { method: 'card', amount: String(Math.max(0, splitRemaining)), reference: '', cardLast4: '' },
+  ]);
+
+  const updateSplitTender = (index: number, changes: Partial<SplitTender>) => setSplitTenders(tenders =>
+    tenders.map((tender, i) => i === index ? { ...tender, ...changes } : tender)
+  );
+
+  // Tenders the cashier took: the split rows, or one method for the amount due
+  // (vouchers, points and gift cards are added from what is applied to the cart)
+  const enteredTenders = (method: PaymentMethod | 'split'): SalePayment[] => {
+    if (method === 'split') {
+      return splitTenders.map(tender => ({
+        method: tender.method,
+        amount: parseFloat(tender.amount) || 0,
+        reference: tender.reference.trim() || undefined,
+        cardLast4: tender.method === 'card' ? tender.cardLast4 || undefined : undefined,
+      }));
+    }
+    if (method === 'voucher' || method === 'loyalty' || method === 'gift_card') return [];
+    return [{ method, amount: method === 'cash' ? cashAmount : amountDue }];
+  };
+
+  // Cart lines as sent to the server, with the server's pricing when the register has it
+  const buildSaleItems = () => cart.map((item, index) => ({
+    productId: item.productId,
+    sku: item.sku,
+    name: item.name,
+    quantity: item.quantity,
+    unitPrice: pricing?.lines[index].unitPrice ?? item.unitPrice,
+    lineTotal: item.lineTotal,
+    discountAmount: pricing?.lines[index].discountAmount || undefined,
+    promotionId: pricing?.lines[index].promotionId,
+  }));
+
+  // Release terminal authorisations of a sale that did not go through
+  const releaseCards = (payments: SalePayment[]) => {
+    for (const payment of payments) {
+      if (payment.terminalTransactionId) {
+        api.post(`/pos/terminal/${payment.terminalTransactionId}/void`).catch(() => undefined);
+      }
+    }
+  };
+
+  // Authorise each card payment on the terminal, one at a time; when one is
+  // declined the ones already authorised are released
+  const authorizeCards = async (payments: SalePayment[]) => {
+    if (!terminal?.enabled || !isOnline) return payments;
+    const authorized: SalePayment[] = [];
+    try {
+      for (const payment of payments) {
+        if (payment.method !== 'card' || payment.terminalTransactionId) {
+          authorized.push(payment);
+          continue;
+        }
+        setTerminalAmount(payment.amount);
+        const res = await api.post('/pos/terminal/authorize', { storeId: currentStoreId, amount: payment.amount });
+        authorized.push({
+          ...payment,
+          terminalTransactionId: res.data.transaction.id,
+          authCode: res.data.transaction.auth_code || undefined,
+          cardLast4: res.data.transaction.card_last4 || undefined,
+        });
+      }
+      return authorized;
+    } catch (error) {
+      releaseCards(authorized);
+      throw error;
+    } finally {
+      setTerminalAmount(null);
+    }
+  };
+
+  const terminalError = (error: any) => {
+    playErrorSound();
+    const code = error.response?.data?.code;
+    toast({
+      title: code === 'CARD_DECLINED' ? t('pos.terminal.declined') : t('pos.terminal.failed'),
+      description: code === 'TERMINAL_TIMEOUT' ? t('pos.terminal.timeout') : error.response?.data?.error || 'Please try again',
+      variant: 'destructive',
+    });
+  };
+
+  // Exchanges are online only: returned lines and new items go in one request
+  const completeExchange = async (method: PaymentMethod | 'split') => {
+    if (!exchange) return;
+    setIsProcessing(true);
+    let payments: SalePayment[] = refundDue > 0 ? [{ method: method === 'split' ? 'cash' : method, amount: refundDue }] : [
+      ...(appliedGiftCard && giftCardAmount > 0 ? [{
+        method: 'gift_card' as const,
+        amount: giftCardAmount,
+        giftCardId: appliedGiftCard.giftCardId,
+        reference: appliedGiftCard.code,
+      }] : []),
+      ...enteredTenders(method),
+    ];
+    if (refundDue === 0) {
+      try {
+        payments = await authorizeCards(payments);
+      } catch (error: any) {
+        terminalError(error);
+        setIsProcessing(false);
+        return;
+      }
+    }
+    try {
+      const res = await api.post('/pos/exchange', {
+        storeId: currentStoreId,
+        shiftId: currentShift?.id || null,
+        originalReceiptId: exchange.receiptId,
+        returnLines: exchange.lines.map(line => ({ lineId: line.id, quantity: line.returnQty })),
+        items: buildSaleItems(),
+        couponCodes,
+        expectedTotal: productTotal,
+        payments,
+      });
+      playCashSound();
+      setCompletedSale({
+        receiptId: res.data.receipt.id,
+        receiptNumber: res.data.receipt.receipt_number,
+        total,
+      });
+      setReceiptEmail('');
+      queryClient.invalidateQueries({ queryKey: ['pos-products'] });
+      queryClient.invalidateQueries({ queryKey: ['pos-current-shift'] });
+      clearCart();
+    } catch (error: any) {
+      releaseCards(payments);
+      playErrorSound();
+      if (error.response?.data?.code === 'PRICE_MISMATCH') {
+        refetchPricing();
+      }
+      toast({
+        title: t('pos.exchange.start'),
+        description: isNetworkError(error) ? t('pos.exchange.needsConnection') : error.response?.data?.error || 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   // Complete sale
-  const completeSale = async (method: 'cash' | 'card' | 'instapay' | 'vodafone_cash' | 'etisalat_cash' | 'orange_cash' | 'wallet') => {
-    if (cart.length === 0) return;
-    if (method === 'cash' && cashAmount <= 0) {
+  const completeSale = async (method: PaymentMethod | 'split') => {
+    if (!hasItems) return;
+    if (method === 'cash' && amountDue > 0 && cashAmount <= 0) {
       toast({ title: 'Enter amount', description: 'Please enter the cash received', variant: 'destructive' });
       return;
     }
+    if (exchange) {
+      return completeExchange(method);
+    }
     
     setIsProcessing(true);
+    let payments: SalePayment[] = [
+      ...(appliedVoucher ? [{
+        method: 'voucher' as const,
+        amount: voucherAmount,
+        voucherId: appliedVoucher.voucherId,
+        reference: appliedVoucher.code,
+      }] : []),
+      ...(pointsAmount > 0 ? [{
+        method: 'loyalty' as const,
+        amount: pointsAmount,
+        reference: `${pointsUsed} points`,
+      }] : []),
+      ...(appliedGiftCard && giftCardAmount > 0 ? [{
+        method: 'gift_card' as const,
+        amount: giftCardAmount,
+        giftCardId: appliedGiftCard.giftCardId,
+        reference: appliedGiftCard.code,
+      }] : []),
+      ...enteredTenders(method),
+    ];
     try {
-      const payload = {
-        storeId: currentStoreId,
+      payments = await authorizeCards(payments);
+    } catch (error: any) {
+      terminalError(error);
+      setIsProcessing(false);
+      return;
+    }
+
+    const idempotencyKey = crypto.randomUUID();
+    const payload = {
+      storeId: currentStoreId,
         shiftId: currentShift?.id || null,
-        customerId: selectedCustomer?.id || null,
-        items: cart.map(item => ({
-          productId: item.productId,
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          lineTotal: item.lineTotal,
-        })),
-        payments: [{
-          method,
-          amount: method === 'cash' ? cashAmount : total
-        }],
-      };
+      customerId: selectedCustomer?.id || null,
+      items: buildSaleItems(),
+      giftCards: giftCardSales.map(card => ({ code: card.code || undefined, amount: card.amount })),
+      couponCodes,
+      expectedTotal: productTotal,
+      promotions: (pricing?.promotions || []).map(p => ({
+        type: 'promotion' as const,
+        promotionId: p.promotionId,
+        code: p.code,
+        description: p.name,
+        amount: p.amount,
+      })),
+      payments,
+      idempotencyKey,
+      clientCreatedAt: new Date().toISOString(),
+    };
 
+    const resetCart = () => {
+      setCart([]);
+      setSelectedCustomer(null);
+      setShowPayment(false);
+      setCashReceived('');
+      setCouponCodes([]);
+      setAppliedVoucher(null);
+      setUsePoints(false);
+      setGiftCardSales([]);
+      setAppliedGiftCard(null);
+      setShowSplit(false);
+      setSplitTenders([]);
+    };
+
+    try {
       const res = await api.post('/pos/sale', payload);
       
       // Play success sound
@@ -236,20 +868,48 @@ export default function POSPage() {
       setCompletedSale({
         receiptId: res.data.receipt?.id,
         receiptNumber: res.data.receipt?.receipt_number || 'Generated',
-        total: total
+        total: total,
+        giftCards: res.data.giftCards,
       });
+      setReceiptEmail(selectedCustomer?.email || '');
       
       // Invalidate stock and shift queries
       queryClient.invalidateQueries({ queryKey: ['pos-products'] });
       queryClient.invalidateQueries({ queryKey: ['pos-current-shift'] });
       
       // Clear cart but keep success modal open
-      setCart([]);
-      setSelectedCustomer(null);
-      setShowPayment(false);
-      setCashReceived('');
+      resetCart();
     } catch (error: any) {
+      // Gift card balances live on the server, so those sales cannot be queued
+      if (isNetworkError(error) && (giftCardSales.length > 0 || appliedGiftCard)) {
+        playErrorSound();
+        toast({ title: 'Sale Failed', description: t('pos.giftCards.needsConnection'), variant: 'destructive' });
+        return;
+      }
+      if (isNetworkError(error) && currentStoreId) {
+        // Queue the sale; it is replayed with the same idempotency key on reconnect
+        const provisionalNumber = `OFFLINE-${idempotencyKey.slice(0, 8).toUpperCase()}`;
+        await addToOutbox({
+          idempotencyKey,
+          storeId: currentStoreId,
+          provisionalNumber,
+          total,
+          payload: { ...payload, offlineCreated: true },
+        });
+        await deductCachedStock(currentStoreId, payload.items);
+        useOfflineStore.getState().setOnline(false);
+        await refreshCounts();
+        playCashSound();
+        setCompletedSale({ receiptId: '', receiptNumber: provisionalNumber, total, offline: true });
+        queryClient.invalidateQueries({ queryKey: ['pos-products'] });
+        resetCart();
+        return;
+      }
+      releaseCards(payments);
       playErrorSound();
+      if (error.response?.data?.code === 'PRICE_MISMATCH') {
+        refetchPricing();
+      }
       toast({ 
         title: 'Sale Failed', 
         description: error.response?.data?.error || 'Please try again', 
@@ -349,6 +1009,22 @@ export default function POSPage() {
     }
   };
 
+  const handleEmailReceipt = async () => {
+    if (!completedSale?.receiptId || !receiptEmail) return;
+    setIsEmailing(true);
+    try {
+      const res = await api.post(`/documents/receipt/${completedSale.receiptId}/email`, {
+        email: receiptEmail,
+        format: receiptFormat
+      });
+      toast({ title: 'Receipt sent', description: `Emailed to ${res.data.to}` });
+    } catch (error: any) {
+      toast({ title: 'Email failed', description: error.response?.data?.error || 'Could not email receipt', variant: 'destructive' });
+    } finally {
+      setIsEmailing(false);
+    }
+  };
+
   const closeCompletedSale = () => {
     setCompletedSale(null);
     searchRef.current?.focus();
@@ -381,9 +1057,22 @@ export default function POSPage() {
           {currentShift ? (
             <div className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 bg-emerald-50 border border-emerald-100 rounded-lg sm:rounded-xl">
               <div className="h-2 w-2 bg-emerald-500 rounded-full animate-pulse" />
-              <span className="text-emerald-700 text-xs sm:text-sm font-semibold hidden sm:inline">{t('pos.shift')} #{currentShift.shift_number}</span>
+              <span className="text-emerald-700 text-xs sm:text-sm font-semibold hidden sm:inline">
+                {t('pos.shift')} #{currentShift.shift_number}
+                {currentShift.register_name && ` • ${currentShift.register_name}`}
+              </span>
               <span className="text-emerald-700 text-xs font-semibold sm:hidden">#{currentShift.shift_number}</span>
             </div>
+          ) : registerShift ? (
+            <button
+              onClick={() => navigate('/pos/shifts')}
+              className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 bg-blue-50 border border-blue-100 rounded-lg sm:rounded-xl hover:bg-blue-100 transition-colors"
+            >
+              <div className="h-2 w-2 bg-blue-500 rounded-full" />
+              <span className="text-blue-700 text-xs sm:text-sm font-semibold hidden sm:inline">
+                {t('pos.joinShift', { register: registerShift.register_name })}
+              </span>
+            </button>
           ) : (
             <button
               onClick={() => navigate('/pos/shifts')}
@@ -393,6 +1082,44 @@ export default function POSPage() {
               <span className="text-amber-700 text-xs sm:text-sm font-semibold hidden sm:inline">{t('pos.noShift')}</span>
             </button>
           )}
+          {/* Drawer over the store's limit - drop cash into the safe from Shifts */}
+          {currentShift?.drawer?.overLimit && (
+            <button
+              onClick={() => navigate('/pos/shifts')}
+              className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 bg-red-50 border border-red-100 rounded-lg sm:rounded-xl hover:bg-red-100 transition-colors"
+              title={t('pos.drawer.overLimit')}
+            >
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <span className="text-red-700 text-xs sm:text-sm font-semibold hidden sm:inline">{t('pos.drawer.dropCash')}</span>
+            </button>
+          )}
+          {/* Offline / Sync Status */}
+          {(!isOnline || pendingCount > 0 || failedCount > 0) && (
+            <button
+              onClick={handleSync}
+              disabled={syncing || (pendingCount === 0 && failedCount === 0)}
+              className={`flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg sm:rounded-xl border transition-colors ${
+                failedCount > 0
+                  ? 'bg-red-50 border-red-100 text-red-700 hover:bg-red-100'
+                  : !isOnline
+                    ? 'bg-slate-100 border-slate-200 text-slate-700 hover:bg-slate-200'
+                    : 'bg-blue-50 border-blue-100 text-blue-700 hover:bg-blue-100'
+              }`}
+              title={t('pos.offline.syncNow')}
+            >
+              {!isOnline ? (
+                <WifiOff className="h-4 w-4" />
+              ) : (
+                <UploadCloud className={`h-4 w-4 ${syncing ? 'animate-pulse' : ''}`} />
+              )}
+              <span className="text-xs sm:text-sm font-semibold hidden sm:inline">
+                {!isOnline ? t('pos.offline.offline') : t('pos.offline.pending', { count: pendingCount + failedCount })}
+              </span>
+              {(pendingCount + failedCount) > 0 && (
+                <span className="text-xs font-bold sm:hidden">{pendingCount + failedCount}</span>
+              )}
+            </button>
+          )}
           {/* Refresh Button */}
           <Button
             onClick={handleRefresh}
@@ -596,13 +1323,46 @@ export default function POSPage() {
                 <p className="text-xs sm:text-sm text-slate-500 font-medium mt-0.5 hidden sm:block">{new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
               </div>
             </div>
-            {cart.length > 0 && (
-              <Button variant="ghost" size="sm" onClick={clearCart} className="text-red-500 hover:text-red-600 hover:bg-red-50 rounded-xl px-2 sm:px-3">
-                <Trash2 className="h-4 w-4 sm:mr-2" /> <span className="hidden sm:inline">Clear</span>
-              </Button>
-            )}
+            <div className="flex items-center gap-1">
+              {isOnline && !exchange && (
+                <Button variant="ghost" size="sm" onClick={() => setShowExchange(true)} className="text-amber-600 hover:bg-amber-50 rounded-xl px-2 sm:px-3">
+                  <ArrowLeftRight className="h-4 w-4 sm:mr-2" /> <span className="hidden sm:inline">{t('pos.exchange.start')}</span>
+                </Button>
+              )}
+              {isOnline && !exchange && (
+                <Button variant="ghost" size="sm" onClick={() => setShowGiftCardSale(true)} className="text-indigo-600 hover:bg-indigo-50 rounded-xl px-2 sm:px-3">
+                  <Gift className="h-4 w-4 sm:mr-2" /> <span className="hidden sm:inline">{t('pos.giftCards.sell')}</span>
+                </Button>
+              )}
+              {hasItems && (
+                <Button variant="ghost" size="sm" onClick={clearCart} className="text-red-500 hover:text-red-600 hover:bg-red-50 rounded-xl px-2 sm:px-3">
+                  <Trash2 className="h-4 w-4 sm:mr-2" /> <span className="hidden sm:inline">Clear</span>
+                </Button>
+              )}
+            </div>
           </div>
 
+          {/* Exchange: items coming back from an earlier receipt */}
+          {exchange && (
+            <div className="px-5 py-3 border-b bg-amber-50/70">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm font-bold text-amber-800">
+                  <ArrowLeftRight className="h-4 w-4" /> {t('pos.exchange.banner', { receipt: exchange.receiptNumber })}
+                </span>
+                <button onClick={() => setExchange(null)} className="text-amber-500 hover:text-red-500" title={t('pos.exchange.cancel')}>
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {exchange.lines.map(line => (
+                <div key={line.id} className="flex justify-between text-xs text-amber-900 mt-1">
+                  <span>{line.returnQty} x {line.name}</span>
+                  <span>-{formatCurrency(line.returnQty * line.unitCredit, tenant?.currencyCode)}</span>
+                </div>
+              ))}
+              <p className="text-xs text-amber-700 mt-2">{t('pos.exchange.hint')}</p>
+            </div>
+          )}
+
           {/* Customer Section */}
           <div className="px-5 py-3 border-b bg-slate-50/50">
             {selectedCustomer ? (
@@ -701,7 +1461,7 @@ export default function POSPage() {
 
           {/* Cart Items */}
           <div className="flex-1 overflow-y-auto bg-slate-50/50 p-4 pb-safe">
-            {cart.length === 0 ? (
+            {!hasItems ? (
               <div className="h-full flex flex-col items-center justify-center text-slate-400">
                 <div className="w-24 h-24 rounded-full bg-slate-100 flex items-center justify-center mb-4 shadow-inner">
                   <ShoppingCart className="h-10 w-10 text-slate-300" />
@@ -746,12 +1506,42 @@ export default function POSPage() {
                         </button>
                       </div>
                       <div className="text-right">
-                        <p className="font-bold text-lg text-slate-900">{formatCurrency(item.lineTotal, tenant?.currencyCode)}</p>
-                        <p className="text-[10px] text-slate-400 font-medium">{formatCurrency(item.unitPrice, tenant?.currencyCode)} {t('pos.each')}</p>
+                        <p className="font-bold text-lg text-slate-900">
+                          {formatCurrency(pricing ? pricing.lines[index].unitPrice * item.quantity : item.lineTotal, tenant?.currencyCode)}
+                        </p>
+                        <p className="text-[10px] text-slate-400 font-medium">
+                          {formatCurrency(pricing?.lines[index].unitPrice ?? item.unitPrice, tenant?.currencyCode)} {t('pos.each')}
+                        </p>
+                        {pricing && pricing.lines[index].discountAmount > 0 && (
+                          <p
+                            className="text-xs text-emerald-600 font-medium"
+                            title={pricing.lines[index].explanation.map(step => step.label).join(' → ')}
+                          >
+                            -{formatCurrency(pricing.lines[index].discountAmount, tenant?.currencyCode)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
                 ))}
+                {giftCardSales.map(card => (
+                  <div key={card.id} className="bg-white rounded-xl p-4 border border-indigo-100 shadow-sm group flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-slate-900 text-[15px] flex items-center gap-1.5">
+                        <Gift className="h-4 w-4 text-indigo-500" />
+                        {card.reload ? t('pos.giftCards.reloadLine') : t('pos.giftCards.giftCard')}
+                      </p>
+                      <p className="text-xs text-slate-500 font-mono mt-0.5">{card.code || t('pos.giftCards.newCode')}</p>
+                    </div>
+                    <p className="font-bold text-lg text-slate-900">{formatCurrency(card.amount, tenant?.currencyCode)}</p>
+                    <button
+                      onClick={() => setGiftCardSales(prev => prev.filter(c => c.id !== card.id))}
+                      className="text-slate-300 hover:text-red-500 ml-2 p-1.5 hover:bg-red-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -766,34 +1556,175 @@ export default function POSPage() {
                     <span>{t('pos.subtotal')} ({itemCount} {t('dashboard.items')})</span>
                     <span className="font-medium text-slate-900">{formatCurrency(subtotal, tenant?.currencyCode)}</span>
                   </div>
+                  {pricing?.promotions.map(promotion => (
+                    <div key={promotion.promotionId} className="flex justify-between text-emerald-600 text-sm">
+                      <span className="flex items-center gap-1.5">
+                        <Tag className="h-3.5 w-3.5" /> {promotion.name}
+                      </span>
+                      <span className="font-medium">-{formatCurrency(promotion.amount, tenant?.currencyCode)}</span>
+                    </div>
+                  ))}
+                  {pricing && pricing.taxAmount > 0 && (
+                    <div className="flex justify-between text-slate-500 text-sm">
+                      <span>{t('pos.tax')}</span>
+                      <span className="font-medium text-slate-900">{formatCurrency(pricing.taxAmount, tenant?.currencyCode)}</span>
+                    </div>
+                  )}
+                  {cart.length > 0 && (isOnline ? (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder={t('pos.promotions.coupon')}
+                        className="h-8 text-sm"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && applyCoupon()}
+                      />
+                      <Button variant="outline" size="sm" className="h-8" onClick={applyCoupon} disabled={!couponInput.trim()}>
+                        {t('pos.promotions.apply')}
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-slate-400">{t('pos.promotions.offlineNotice')}</p>
+                  ))}
+                  {hasItems && isOnline && !exchange && (appliedVoucher ? (
+                    <div className="flex justify-between items-center text-emerald-600 text-sm">
+                      <span className="flex items-center gap-1.5">
+                        <Ticket className="h-3.5 w-3.5" /> {t('pos.vouchers.voucher')} {appliedVoucher.code}
+                        <button onClick={() => setAppliedVoucher(null)} className="text-slate-400 hover:text-red-500" title={t('pos.vouchers.remove')}>
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                      <span className="font-medium">-{formatCurrency(voucherAmount, tenant?.currencyCode)}</span>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder={t('pos.vouchers.code')}
+                        className="h-8 text-sm"
+                        value={voucherInput}
+                        onChange={(e) => setVoucherInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && voucherInput.trim() && redeemVoucher(voucherInput.trim())}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => redeemVoucher(voucherInput.trim())}
+                        disabled={!voucherInput.trim() || checkingVoucher}
+                      >
+                        {checkingVoucher ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : t('pos.vouchers.redeem')}
+                      </Button>
+                    </div>
+                  ))}
                   {selectedCustomer && (
                     <div className="flex justify-between text-indigo-600 text-sm bg-indigo-50 px-3 py-1.5 rounded-lg">
                       <span className="flex items-center gap-1.5 font-medium">
                         <User className="h-3.5 w-3.5" /> {selectedCustomer.first_name}
                       </span>
-                      <span className="text-xs uppercase tracking-wider font-bold opacity-70">{t('pos.loyaltyCustomer')}</span>
+                      <span className="text-xs uppercase tracking-wider font-bold opacity-70">
+                        {wallet?.enabled ? t('pos.loyalty.balance', { points: wallet.balance }) : t('pos.loyaltyCustomer')}
+                      </span>
+                    </div>
+                  )}
+                  {selectedCustomer && hasItems && isOnline && !exchange && canUsePoints && (pointsAmount > 0 ? (
+                    <div className="flex justify-between items-center text-emerald-600 text-sm">
+                      <span className="flex items-center gap-1.5">
+                        <Star className="h-3.5 w-3.5" /> {t('pos.loyalty.points', { points: pointsUsed })}
+                        <button onClick={() => setUsePoints(false)} className="text-slate-400 hover:text-red-500" title={t('pos.loyalty.remove')}>
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                      <span className="font-medium">-{formatCurrency(pointsAmount, tenant?.currencyCode)}</span>
+                    </div>
+                  ) : amountDue > 0 && (
+                    <Button variant="outline" size="sm" className="h-8 w-full" onClick={() => setUsePoints(true)}>
+                      <Star className="h-3.5 w-3.5 mr-1.5" />
+                      {t('pos.loyalty.use', { value: formatCurrency(Math.min(wallet!.balanceValue, amountDue), tenant?.currencyCode) })}
+                    </Button>
+                  ))}
+                  {hasItems && isOnline && giftCardSales.length === 0 && refundDue === 0 && (appliedGiftCard ? (
+                    <div className="flex justify-between items-center text-emerald-600 text-sm">
+                      <span className="flex items-center gap-1.5">
+                        <Gift className="h-3.5 w-3.5" /> {t('pos.giftCards.giftCard')} {appliedGiftCard.code}
+                        <button onClick={() => setAppliedGiftCard(null)} className="text-slate-400 hover:text-red-500" title={t('pos.giftCards.remove')}>
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                      <span className="font-medium">-{formatCurrency(giftCardAmount, tenant?.currencyCode)}</span>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder={t('pos.giftCards.payCode')}
+                        className="h-8 text-sm"
+                        value={giftCardInput}
+                        onChange={(e) => setGiftCardInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && giftCardInput.trim() && applyGiftCard(giftCardInput.trim())}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => applyGiftCard(giftCardInput.trim())}
+                        disabled={!giftCardInput.trim() || checkingGiftCard}
+                      >
+                        {checkingGiftCard ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : t('pos.giftCards.apply')}
+                      </Button>
+                    </div>
+                  ))}
+                  {exchange && (
+                    <div className="flex justify-between text-amber-700 text-sm">
+                      <span className="flex items-center gap-1.5">
+                        <ArrowLeftRight className="h-3.5 w-3.5" /> {t('pos.exchange.credit')}
+                      </span>
+                      <span className="font-medium">-{formatCurrency(exchangeCredit, tenant?.currencyCode)}</span>
                     </div>
                   )}
                   <div className="flex justify-between items-end pt-2 border-t border-dashed border-slate-200">
-                    <span className="text-slate-900 font-bold">{t('pos.total')}</span>
-                    <span className="text-3xl font-bold text-indigo-600 tracking-tight">{formatCurrency(total, tenant?.currencyCode)}</span>
+                    <span className="text-slate-900 font-bold">{refundDue > 0 ? t('pos.exchange.refundDue') : t('pos.total')}</span>
+                    <span className="text-3xl font-bold text-indigo-600 tracking-tight">
+                      {formatCurrency(refundDue > 0 ? refundDue : total, tenant?.currencyCode)}
+                    </span>
                   </div>
+                  {(voucherAmount > 0 || pointsAmount > 0 || giftCardAmount > 0) && (
+                    <div className="flex justify-between text-slate-700 text-sm font-semibold">
+                      <span>{t('pos.vouchers.amountDue')}</span>
+                      <span>{formatCurrency(amountDue, tenant?.currencyCode)}</span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Payment Buttons */}
+                {coveredBy ? (
+                  <Button
+                    size="lg"
+                    className="w-full h-12 sm:h-14 text-base sm:text-lg bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-all"
+                    disabled={isProcessing}
+                    onClick={() => completeSale(coveredBy)}
+                  >
+                    {isProcessing
+                      ? <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                      : coveredBy === 'gift_card' ? <Gift className="h-5 w-5 mr-2" />
+                      : coveredBy === 'loyalty' ? <Star className="h-5 w-5 mr-2" /> : <Ticket className="h-5 w-5 mr-2" />}
+                    {coveredBy === 'gift_card'
+                      ? t('pos.giftCards.completeWithGiftCard')
+                      : coveredBy === 'loyalty' ? t('pos.loyalty.completeWithPoints') : t('pos.vouchers.completeWithVoucher')}
+                  </Button>
+                ) : (
+                <>
                 <div className="grid grid-cols-2 gap-2 sm:gap-3">
                   <Button
                     size="lg"
                     className="h-12 sm:h-14 text-base sm:text-lg bg-emerald-600 hover:bg-emerald-700 hover:-translate-y-0.5 shadow-lg shadow-emerald-500/20 rounded-xl transition-all"
-                    disabled={cart.length === 0}
-                    onClick={() => setShowPayment(true)}
+                    disabled={!hasItems || isProcessing}
+                    onClick={() => refundDue > 0 ? completeSale('cash') : setShowPayment(true)}
                   >
                     <Banknote className="h-5 w-5 mr-2" /> {t('pos.cash')}
                   </Button>
                   <Button
                     size="lg"
                     className="h-14 text-lg bg-indigo-600 hover:bg-indigo-700 hover:-translate-y-0.5 shadow-lg shadow-indigo-500/20 rounded-xl transition-all"
-                    disabled={cart.length === 0 || isProcessing}
+                    disabled={!hasItems || isProcessing}
                     onClick={() => completeSale('card')}
                   >
                     {isProcessing ? (
@@ -812,7 +1743,7 @@ export default function POSPage() {
                       size="lg"
                       variant="outline"
                       className="w-full h-12 sm:h-14 text-base sm:text-lg border-2 border-purple-200 hover:bg-purple-50 hover:border-purple-400 rounded-xl transition-all"
-                      disabled={cart.length === 0}
+                      disabled={!hasItems}
                       onClick={() => setShowWalletOptions(true)}
                     >
                       <Sparkles className="h-5 w-5 mr-2 text-purple-600" /> {t('pos.walletPayment')}
@@ -865,6 +1796,20 @@ export default function POSPage() {
                     </div>
                   )}
                 </div>
+
+                {/* Split Payment */}
+                {refundDue === 0 && (
+                  <Button
+                    variant="ghost"
+                    className="w-full mt-2 text-slate-600 hover:bg-slate-100 rounded-xl"
+                    disabled={!hasItems || isProcessing}
+                    onClick={openSplit}
+                  >
+                    <Split className="h-4 w-4 mr-2" /> {t('pos.tenders.split')}
+                  </Button>
+                )}
+                </>
+                )}
               </>
             ) : (
               <>
@@ -872,7 +1817,7 @@ export default function POSPage() {
                 <div className="space-y-4 animate-slide-in-right">
                   <div className="flex justify-between items-center mb-6">
                     <span className="text-sm font-medium text-slate-500 uppercase tracking-wider">{t('pos.amountDue')}</span>
-                    <span className="text-3xl font-bold text-slate-900">{formatCurrency(total, tenant?.currencyCode)}</span>
+                    <span className="text-3xl font-bold text-slate-900">{formatCurrency(amountDue, tenant?.currencyCode)}</span>
                   </div>
 
                   <div className="relative">
@@ -905,24 +1850,24 @@ export default function POSPage() {
                   </div>
                   <Button
                     variant="outline"
-                    onClick={() => setCashReceived(String(total))}
+                    onClick={() => setCashReceived(String(amountDue))}
                     className="w-full h-12 font-semibold hover:bg-emerald-50 hover:border-emerald-500 hover:text-emerald-700 rounded-xl border-slate-200 bg-white shadow-sm"
                   >
                     {t('pos.exactAmount')}
                   </Button>
 
                   {/* Change or Remaining Balance */}
-                  {cashReceived && cashAmount > 0 && cashAmount >= total && (
+                  {cashReceived && cashAmount > 0 && cashAmount >= amountDue && (
                     <div className="bg-emerald-50 border border-emerald-100 rounded-2xl p-4 text-center animate-fade-in">
                       <p className="text-sm text-emerald-700 font-bold uppercase tracking-wider mb-1">Change Due</p>
                       <p className="text-4xl font-bold text-emerald-600">{formatCurrency(change, tenant?.currencyCode)}</p>
                     </div>
                   )}
-                  {cashReceived && cashAmount > 0 && cashAmount < total && (
+                  {cashReceived && cashAmount > 0 && cashAmount < amountDue && (
                     <div className="bg-amber-50 border border-amber-100 rounded-2xl p-4 text-center animate-fade-in">
                       <p className="text-sm text-amber-700 font-bold uppercase tracking-wider mb-1">Remaining Balance</p>
                       <p className="text-2xl font-bold text-amber-600">
-                        {formatCurrency(total - cashAmount, tenant?.currencyCode)}
+                        {formatCurrency(amountDue - cashAmount, tenant?.currencyCode)}
                       </p>
                     </div>
                   )}
@@ -940,7 +1885,7 @@ export default function POSPage() {
                     <Button
                       size="lg"
                       className="col-span-2 h-12 sm:h-14 text-base sm:text-lg bg-emerald-600 hover:bg-emerald-700 hover:-translate-y-0.5 shadow-lg shadow-emerald-500/20 rounded-xl transition-all"
-                      disabled={isProcessing || cashAmount < total}
+                      disabled={isProcessing || cashAmount < amountDue}
                       onClick={() => completeSale('cash')}
                     >
                       {isProcessing ? (
@@ -1046,6 +1991,239 @@ export default function POSPage() {
         </div>
       )}
 
+      {/* Card Terminal */}
+      {terminalAmount !== null && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-[60]">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm mx-4 p-8 text-center">
+            <CreditCard className="h-12 w-12 text-indigo-500 mx-auto mb-4 animate-pulse" />
+            <p className="font-bold text-lg">{t('pos.terminal.waiting')}</p>
+            <p className="text-3xl font-bold text-indigo-600 my-3">{formatCurrency(terminalAmount, tenant?.currencyCode)}</p>
+            <p className="text-sm text-slate-500">{t('pos.terminal.present')}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Split Payment Modal */}
+      {showSplit && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl mx-4">
+            <div className="flex items-center justify-between p-5 border-b">
+              <h2 className="font-bold text-lg flex items-center gap-2">
+                <Split className="h-5 w-5 text-indigo-500" /> {t('pos.tenders.split')}
+              </h2>
+              <button onClick={() => setShowSplit(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-5 space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-slate-500 uppercase tracking-wider">{t('pos.amountDue')}</span>
+                <span className="text-2xl font-bold text-slate-900">{formatCurrency(amountDue, tenant?.currencyCode)}</span>
+              </div>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {splitTenders.map((tender, index) => (
+                  <div key={index} className="border rounded-xl p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <select
+                        className="h-10 rounded-lg border border-slate-200 px-2 text-sm flex-1"
+                        value={tender.method}
+                        onChange={(e) => updateSplitTender(index, { method: e.target.value as PaymentMethod })}
+                      >
+                        {SPLIT_METHODS.map(method => (
+                          <option key={method} value={method}>{t(`pos.tenders.methods.${method}`)}</option>
+                        ))}
+                      </select>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="h-10 w-32"
+                        placeholder={t('pos.tenders.amount')}
+                        value={tender.amount}
+                        onChange={(e) => updateSplitTender(index, { amount: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-10 w-10 text-slate-400 hover:text-red-500"
+                        disabled={splitTenders.length === 1}
+                        onClick={() => setSplitTenders(tenders => tenders.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {tender.method !== 'cash' && (
+                      <div className="flex gap-2">
+                        <Input
+                          className="h-9 text-sm"
+                          placeholder={t('pos.tenders.reference')}
+                          value={tender.reference}
+                          onChange={(e) => updateSplitTender(index, { reference: e.target.value })}
+                        />
+                        {tender.method === 'card' && !terminal?.enabled && (
+                          <Input
+                            className="h-9 text-sm w-32"
+                            inputMode="numeric"
+                            maxLength={4}
+                            placeholder={t('pos.tenders.cardLast4')}
+                            value={tender.cardLast4}
+                            onChange={(e) => updateSplitTender(index, { cardLast4: e.target.value.replace(/\D/g, '') })}
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" className="w-full" onClick={addSplitTender} disabled={splitRemaining <= 0}>
+                <Plus className="h-4 w-4 mr-2" /> {t('pos.tenders.add')}
+              </Button>
+              <div className="flex justify-between text-sm font-semibold">
+                <span>{splitRemaining > 0 ? t('pos.tenders.remaining') : t('pos.change')}</span>
+                <span className={splitRemaining > 0 ? 'text-amber-600' : 'text-emerald-600'}>
+                  {formatCurrency(Math.abs(splitRemaining), tenant?.currencyCode)}
+                </span>
+              </div>
+              {splitNonCash > amountDue && (
+                <p className="text-xs text-red-600">{t('pos.tenders.onlyCashChange')}</p>
+              )}
+              <Button
+                className="w-full h-12 bg-emerald-600 hover:bg-emerald-700"
+                disabled={!splitReady || isProcessing}
+                onClick={() => completeSale('split')}
+              >
+                {isProcessing ? <Loader2 className="h-5 w-5 animate-spin mr-2" /> : <Check className="h-5 w-5 mr-2" />}
+                {t('pos.completeSale')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Exchange Modal */}
+      {showExchange && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg mx-4">
+            <div className="flex items-center justify-between p-5 border-b">
+              <h2 className="font-bold text-lg flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5 text-amber-600" /> {t('pos.exchange.title')}
+              </h2>
+              <button onClick={() => { setShowExchange(false); setExchangeDraft(null); }} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-5 space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  placeholder={t('pos.exchange.receipt')}
+                  value={exchangeLookup}
+                  onChange={(e) => setExchangeLookup(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && lookupExchangeReceipt()}
+                  autoFocus
+                />
+                <Button variant="outline" onClick={lookupExchangeReceipt} disabled={!exchangeLookup.trim() || lookingUpReceipt}>
+                  {lookingUpReceipt ? <Loader2 className="h-4 w-4 animate-spin" /> : t('pos.exchange.find')}
+                </Button>
+              </div>
+              {exchangeDraft && (
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {exchangeDraft.lines.map(line => (
+                    <div key={line.id} className="flex items-center justify-between gap-3 border rounded-lg px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm truncate">{line.name}</p>
+                        <p className="text-xs text-slate-500">
+                          {formatCurrency(line.unitCredit, tenant?.currencyCode)} · {t('pos.exchange.returnable', { count: line.returnable })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setReturnQty(line.id, line.returnQty - 1)}>
+                          <Minus className="h-3.5 w-3.5" />
+                        </Button>
+                        <span className="w-8 text-center font-bold">{line.returnQty}</span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={line.returnQty >= line.returnable}
+                          onClick={() => setReturnQty(line.id, line.returnQty + 1)}
+                        >
+                          <Plus className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button
+                className="w-full"
+                disabled={!exchangeDraft || !exchangeDraft.lines.some(line => line.returnQty > 0)}
+                onClick={startExchange}
+              >
+                {t('pos.exchange.begin')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sell Gift Card Modal */}
+      {showGiftCardSale && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm mx-4">
+            <div className="flex items-center justify-between p-5 border-b">
+              <h2 className="font-bold text-lg flex items-center gap-2">
+                <Gift className="h-5 w-5 text-indigo-500" /> {t('pos.giftCards.sellTitle')}
+              </h2>
+              <button onClick={() => setShowGiftCardSale(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={addGiftCardSale} className="p-5 space-y-4">
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium">{t('pos.giftCards.code')}</label>
+                <Input
+                  value={giftCardForm.code}
+                  onChange={(e) => { setGiftCardForm({ ...giftCardForm, code: e.target.value.toUpperCase() }); setGiftCardFormBalance(null); }}
+                  onBlur={checkGiftCardForSale}
+                  autoFocus
+                />
+                <p className="text-xs text-slate-500">
+                  {giftCardFormBalance !== null
+                    ? t('pos.giftCards.reloadHint', { balance: formatCurrency(giftCardFormBalance, tenant?.currencyCode) })
+                    : t('pos.giftCards.codeHint')}
+                </p>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium">{t('pos.giftCards.amount')}</label>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={giftCardForm.amount}
+                  onChange={(e) => setGiftCardForm({ ...giftCardForm, amount: e.target.value })}
+                  required
+                />
+                <div className="flex gap-2">
+                  {[100, 250, 500, 1000].map(amount => (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => setGiftCardForm({ ...giftCardForm, amount: String(amount) })}
+                      className="flex-1 py-1.5 text-xs font-semibold rounded-lg bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600"
+                    >
+                      {amount}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" className="w-full" disabled={!(parseFloat(giftCardForm.amount) > 0)}>
+                {t('pos.giftCards.add')}
+              </Button>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Sale Completed Modal with Receipt Actions */}
       {completedSale && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center z-50 animate-fade-in">
@@ -1059,17 +2237,39 @@ export default function POSPage() {
                 </div>
                 <h2 className="text-3xl font-bold text-white tracking-tight">Payment Successful</h2>
                 <p className="text-emerald-100 mt-2 font-medium">Receipt #{completedSale.receiptNumber}</p>
+                {completedSale.offline && (
+                  <p className="mt-2 inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-white/20 text-white text-xs font-semibold">
+                    <WifiOff className="h-3.5 w-3.5" />
+                    {t('pos.offline.savedOffline')}
+                  </p>
+                )}
                 <div className="mt-6 bg-white/10 backdrop-blur-md rounded-2xl p-4 border border-white/10 inline-block min-w-[200px]">
                   <p className="text-sm text-emerald-100 uppercase tracking-widest font-bold mb-1">Total Paid</p>
                   <p className="text-4xl font-bold text-white tracking-tight">
                     {formatCurrency(completedSale.total, tenant?.currencyCode)}
                   </p>
                 </div>
+                {completedSale.giftCards && completedSale.giftCards.length > 0 && (
+                  <div className="mt-4 space-y-1 text-white">
+                    <p className="text-xs uppercase tracking-widest font-bold text-emerald-100">{t('pos.giftCards.issued')}</p>
+                    {completedSale.giftCards.map(card => (
+                      <p key={card.code} className="font-mono font-semibold">
+                        {card.code} · {formatCurrency(card.amount, tenant?.currencyCode)}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Receipt Actions */}
             <div className="p-8">
+              {completedSale.offline ? (
+                <p className="mb-8 p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-slate-600">
+                  {t('pos.offline.receiptLater')}
+                </p>
+              ) : (
+              <>
               <h3 className="font-bold text-slate-800 mb-5 flex items-center gap-2 text-lg">
                 <FileText className="h-5 w-5 text-indigo-500" />
                 Receipt Options
@@ -1135,6 +2335,22 @@ export default function POSPage() {
                 </button>
               </div>
 
+              {/* Email Receipt */}
+              <div className="flex gap-2 mb-8">
+                <Input
+                  type="email"
+                  placeholder="Email the receipt to..."
+                  value={receiptEmail}
+                  onChange={(e) => setReceiptEmail(e.target.value)}
+                  className="h-11 rounded-xl"
+                />
+                <Button onClick={handleEmailReceipt} disabled={isEmailing || !receiptEmail} className="h-11 rounded-xl">
+                  {isEmailing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                </Button>
+              </div>
+              </>
+              )}
+
               {/* Done Button */}
               <Button 
                 onClick={closeCompletedSale}
@@ -9,7 +9,7 @@ import { toast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
 import { 
   Receipt, Loader2, Search, Download, Printer, Eye,
-  Filter, X, FileText, CheckCircle, XCircle, RotateCcw
+  Filter, X, FileText, CheckCircle, XCircle, RotateCcw, Mail, Link2, Ban, ShieldCheck
 } from 'lucide-react';
 
 interface ReceiptData {
@@ -23,12 +23,13 @@ interface ReceiptData {
   cashier_name: string;
   customer_name?: string;
   customer_phone?: string;
+  customer_email?: string;
   payments?: any[];
 }
 
 export default function ReceiptsPage() {
   const { t } = useTranslation();
-  const { currentStoreId, tenant } = useAuthStore();
+  const { currentStoreId, tenant, hasPermission } = useAuthStore();
   const [search, setSearch] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -36,6 +37,12 @@ export default function ReceiptsPage() {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedReceipt, setSelectedReceipt] = useState<ReceiptData | null>(null);
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [emailTo, setEmailTo] = useState('');
+  const [sending, setSending] = useState(false);
+  const [voiding, setVoiding] = useState<ReceiptData | null>(null);
+  const [voidForm, setVoidForm] = useState({ reason: '', approval: 'pin' as 'pin' | 'login', pin: '', email: '', password: '' });
+  const [submittingVoid, setSubmittingVoid] = useState(false);
+  const canVoid = hasPermission('POS_VOID');
 
   const { data, isLoading, refetch } = useQuery({
     queryKey: ['receipts', currentStoreId, search, startDate, endDate, statusFilter],
@@ -121,6 +128,62 @@ export default function ReceiptsPage() {
     }
   };
 
+  const openDetails = (receipt: ReceiptData) => {
+    setSelectedReceipt(receipt);
+    setEmailTo(receipt.customer_email || '');
+  };
+
+  const handleEmail = async (receipt: ReceiptData) => {
+    setSending(true);
+    try {
+      const res = await api.post(`/documents/receipt/${receipt.id}/email`, { email: emailTo, format: 'a4' });
+      toast({ title: 'Receipt sent', description: `Emailed to ${res.data.to}` });
+    } catch (error: any) {
+      toast({ title: t('common.error'), description: error.response?.data?.error || 'Could not email receipt', variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCopyLink = async (receipt: ReceiptData) => {
+    try {
+      const res = await api.post(`/documents/receipt/${receipt.id}/link`);
+      await navigator.clipboard.writeText(res.data.url);
+      toast({ title: 'Link copied', description: `Anyone with the link can open the receipt until ${res.data.expiresAt.slice(0, 10)}` });
+    } catch (error: any) {
+      toast({ title: t('common.error'), description: error.response?.data?.error || 'Could not create link', variant: 'destructive' });
+    }
+  };
+
+  const openVoid = (receipt: ReceiptData) => {
+    setVoiding(receipt);
+    setVoidForm({ reason: '', approval: 'pin', pin: '', email: '', password: '' });
+  };
+
+  // Cashiers without POS_VOID get a supervisor to approve with their PIN or login
+  const handleVoid = async () => {
+    if (!voiding) return;
+    setSubmittingVoid(true);
+    try {
+      const supervisor = canVoid
+        ? undefined
+        : voidForm.approval === 'pin'
+          ? { pin: voidForm.pin }
+          : { email: voidForm.email, password: voidForm.password };
+      await api.post('/pos/void', { receiptId: voiding.id, reason: voidForm.reason, supervisor });
+      toast({ title: 'Sale voided', description: `Receipt ${voiding.receipt_number} is void` });
+      const response = await api.get(`/documents/receipt/${voiding.id}`, { params: { format: 'thermal' }, responseType: 'blob' });
+      window.open(window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' })), '_blank');
+      setVoiding(null);
+      setSelectedReceipt(null);
+      refetch();
+    } catch (error: any) {
+      toast({ title: t('common.error'), description: error.response?.data?.error || 'Could not void sale', variant: 'destructive' });
+    } finally {
+      setSubmittingVoid(false);
+    }
+  };
+
   const clearFilters = () => {
     setSearch('');
     setStartDate('');
@@ -307,7 +370,7 @@ export default function ReceiptsPage() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setSelectedReceipt(receipt)}
+                          onClick={() => openDetails(receipt)}
                           className="text-xs"
                         >
                           More
@@ -376,6 +439,112 @@ export default function ReceiptsPage() {
                   <Printer className="h-4 w-4 mr-2" /> Print A4
                 </Button>
               </div>
+
+              <p className="text-sm font-medium text-slate-700 mt-6 mb-3">Send to Customer</p>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="customer@example.com"
+                  value={emailTo}
+                  onChange={(e) => setEmailTo(e.target.value)}
+                />
+                <Button onClick={() => handleEmail(selectedReceipt)} disabled={sending || !emailTo}>
+                  {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                </Button>
+              </div>
+              <Button variant="outline" className="w-full mt-3" onClick={() => handleCopyLink(selectedReceipt)}>
+                <Link2 className="h-4 w-4 mr-2" /> Copy E-Receipt Link
+              </Button>
+              {selectedReceipt.status === 'completed' && selectedReceipt.type !== 'refund' && (
+                <Button variant="outline" className="w-full mt-3 text-red-600" onClick={() => openVoid(selectedReceipt)}>
+                  <Ban className="h-4 w-4 mr-2" /> Void Sale
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Void Modal */}
+      {voiding && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="p-6 border-b flex items-center justify-between">
+              <h3 className="font-semibold text-lg">Void Receipt #{voiding.receipt_number}</h3>
+              <button onClick={() => setVoiding(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-slate-500">
+                Only sales from a shift that is still open can be voided. Stock and payments are reversed
+                and {formatCurrency(voiding.total_amount, tenant?.currencyCode)} comes off the shift totals.
+              </p>
+              <div>
+                <label className="text-sm font-medium">Reason</label>
+                <Input
+                  value={voidForm.reason}
+                  onChange={(e) => setVoidForm({ ...voidForm, reason: e.target.value })}
+                  placeholder="e.g. Wrong items rung up"
+                />
+              </div>
+              {!canVoid && (
+                <div className="rounded-lg border p-4 space-y-3">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-amber-600" /> Supervisor approval
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={voidForm.approval === 'pin' ? 'default' : 'outline'}
+                      onClick={() => setVoidForm({ ...voidForm, approval: 'pin' })}
+                    >
+                      PIN
+                    </Button>
+                    <Button
+                      variant={voidForm.approval === 'login' ? 'default' : 'outline'}
+                      onClick={() => setVoidForm({ ...voidForm, approval: 'login' })}
+                    >
+                      Email & Password
+                    </Button>
+                  </div>
+                  {voidForm.approval === 'pin' ? (
+                    <Input
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="Supervisor PIN"
+                      value={voidForm.pin}
+                      onChange={(e) => setVoidForm({ ...voidForm, pin: e.target.value })}
+                    />
+                  ) : (
+                    <>
+                      <Input
+                        type="email"
+                        placeholder="Supervisor email"
+                        value={voidForm.email}
+                        onChange={(e) => setVoidForm({ ...voidForm, email: e.target.value })}
+                      />
+                      <Input
+                        type="password"
+                        placeholder="Password"
+                        value={voidForm.password}
+                        onChange={(e) => setVoidForm({ ...voidForm, password: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setVoiding(null)}>{t('common.cancel')}</Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleVoid}
+                  disabled={submittingVoid || voidForm.reason.trim().length < 3
+                    || (!canVoid && (voidForm.approval === 'pin' ? !voidForm.pin : !voidForm.email || !voidForm.password))}
+                >
+                  {submittingVoid && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Void Sale
+                </Button>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Landmark, Loader2, X, Vault } from 'lucide-react';
+
+type SafeEntryType = 'drop' | 'pickup' | 'deposit';
+
+interface SafeEntry {
+  id: string;
+  type: SafeEntryType;
+  amount_delta: string;
+  balance_after: string;
+  reference?: string;
+  notes?: string;
+  shift_number?: string;
+  created_by_name?: string;
+  approved_by_name?: string;
+  occurred_at: string;
+}
+
+interface Safe {
+  storeId: string;
+  storeName: string;
+  balance: number;
+  drawerLimit: number | null;
+  entries: SafeEntry[];
+}
+
+interface ReconciliationDay {
+  date: string;
+  safe: { openingBalance: number; drops: number; pickups: number; deposits: number; closingBalance: number };
+  shifts: { count: number; cashTakings: number; expectedCash: number; countedCash: number; cashDifference: number };
+}
+
+interface Reconciliation {
+  openingBalance: number;
+  closingBalance: number;
+  days: ReconciliationDay[];
+}
+
+const typeStyles: Record<SafeEntryType, string> = {
+  drop: 'bg-emerald-100 text-emerald-700',
+  pickup: 'bg-amber-100 text-amber-700',
+  deposit: 'bg-indigo-100 text-indigo-700',
+};
+
+const emptyDeposit = { amount: '', reference: '', notes: '' };
+
+export default function SafePage() {
+  const queryClient = useQueryClient();
+  const { currentStoreId, tenant, hasPermission } = useAuthStore();
+  const currency = tenant?.currencyCode;
+  const canDeposit = hasPermission('POS_CASH_UP');
+  const [range, setRange] = useState({ startDate: '', endDate: '' });
+  const [showDeposit, setShowDeposit] = useState(false);
+  const [deposit, setDeposit] = useState(emptyDeposit);
+
+  const { data: safe, isLoading } = useQuery({
+    queryKey: ['safe', currentStoreId],
+    queryFn: async () => {
+      const res = await api.get('/safe', { params: { storeId: currentStoreId } });
+      return res.data as Safe;
+    },
+    enabled: !!currentStoreId,
+  });
+
+  const { data: reconciliation, isLoading: reconciliationLoading } = useQuery({
+    queryKey: ['safe-reconciliation', currentStoreId, range],
+    queryFn: async () => {
+      const res = await api.get('/safe/reconciliation', {
+        params: {
+          storeId: currentStoreId,
+          startDate: range.startDate || undefined,
+          endDate: range.endDate || undefined,
+        },
+      });
+      return res.data as Reconciliation;
+    },
+    enabled: !!currentStoreId,
+  });
+
+  const closeDeposit = () => {
+    setShowDeposit(false);
+    setDeposit(emptyDeposit);
+  };
+
+  const depositMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.post('/safe/deposits', {
+        storeId: currentStoreId,
+        amount: parseFloat(deposit.amount),
+        reference: deposit.reference,
+        notes: deposit.notes || null,
+      });
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['safe'] });
+      queryClient.invalidateQueries({ queryKey: ['safe-reconciliation'] });
+      toast({ title: 'Deposit recorded', description: `${formatCurrency(parseFloat(deposit.amount), currency)} taken to the bank.` });
+      closeDeposit();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to record deposit', variant: 'destructive' });
+    },
+  });
+
+  const depositAmount = parseFloat(deposit.amount);
+  const days = [...(reconciliation?.days || [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Safe</h1>
+          <p className="text-muted-foreground">Cash dropped from the tills, pickups and bank deposits</p>
+        </div>
+        {canDeposit && (
+          <Button onClick={() => setShowDeposit(true)} disabled={!safe || safe.balance <= 0}>
+            <Landmark className="h-4 w-4 mr-2" /> Bank deposit
+          </Button>
+        )}
+      </div>
+
+      {/* Balance */}
+      <div className="grid lg:grid-cols-3 gap-4">
+        <div className="rounded-xl bg-indigo-50 p-6">
+          <p className="text-xs uppercase tracking-wide text-indigo-700 font-semibold">In the safe</p>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin mt-2" />
+          ) : (
+            <p className="text-3xl font-bold">{formatCurrency(safe?.balance || 0, currency)}</p>
+          )}
+          {safe && <p className="text-xs text-muted-foreground mt-1">{safe.storeName}</p>}
+        </div>
+        <div className="rounded-xl border bg-white p-6">
+          <p className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">Drawer limit</p>
+          <p className="text-3xl font-bold">
+            {safe?.drawerLimit != null ? formatCurrency(safe.drawerLimit, currency) : 'None'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">Cashiers are prompted to drop cash above this; set it on the store</p>
+        </div>
+        <div className="rounded-xl border bg-white p-6">
+          <p className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">Period</p>
+          <p className="text-sm mt-2">
+            Opening {formatCurrency(reconciliation?.openingBalance || 0, currency)}
+            {' · '}
+            Closing {formatCurrency(reconciliation?.closingBalance || 0, currency)}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">Safe balance at the start and end of the reconciliation below</p>
+        </div>
+      </div>
+
+      {/* Daily reconciliation */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="p-4 border-b flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="font-semibold">Daily reconciliation</h2>
+            <p className="text-xs text-muted-foreground">
+              The safe's movements next to the cash the day's shifts closed with (the last 7 days by default)
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <label className="text-xs font-medium">From</label>
+              <Input type="date" value={range.startDate} onChange={(e) => setRange({ ...range, startDate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">To</label>
+              <Input type="date" value={range.endDate} onChange={(e) => setRange({ ...range, endDate: e.target.value })} />
+            </div>
+          </div>
+        </div>
+        {reconciliationLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Date</th>
+                  <th className="text-right p-3 font-medium">Shifts</th>
+                  <th className="text-right p-3 font-medium">Cash takings</th>
+                  <th className="text-right p-3 font-medium">Expected</th>
+                  <th className="text-right p-3 font-medium">Counted</th>
+                  <th className="text-right p-3 font-medium">Over / short</th>
+                  <th className="text-right p-3 font-medium">Safe opening</th>
+                  <th className="text-right p-3 font-medium">Drops</th>
+                  <th className="text-right p-3 font-medium">Pickups</th>
+                  <th className="text-right p-3 font-medium">Deposits</th>
+                  <th className="text-right p-3 font-medium">Safe closing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(day => (
+                  <tr key={day.date} className="border-t">
+                    <td className="p-3 font-medium">{formatDate(`${day.date}T00:00:00`)}</td>
+                    <td className="p-3 text-right">{day.shifts.count}</td>
+                    <td className="p-3 text-right">{formatCurrency(day.shifts.cashTakings, currency)}</td>
+                    <td className="p-3 text-right">{formatCurrency(day.shifts.expectedCash, currency)}</td>
+                    <td className="p-3 text-right">{formatCurrency(day.shifts.countedCash, currency)}</td>
+                    <td className={cn(
+                      'p-3 text-right font-medium',
+                      day.shifts.cashDifference < 0 ? 'text-red-600' : day.shifts.cashDifference > 0 ? 'text-amber-600' : ''
+                    )}>
+                      {formatCurrency(day.shifts.cashDifference, currency)}
+                    </td>
+                    <td className="p-3 text-right">{formatCurrency(day.safe.openingBalance, currency)}</td>
+                    <td className="p-3 text-right text-emerald-600">{formatCurrency(day.safe.drops, currency)}</td>
+                    <td className="p-3 text-right text-amber-600">{formatCurrency(day.safe.pickups, currency)}</td>
+                    <td className="p-3 text-right text-indigo-600">{formatCurrency(day.safe.deposits, currency)}</td>
+                    <td className="p-3 text-right font-medium">{formatCurrency(day.safe.closingBalance, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="p-4 border-b">
+          <h2 className="font-semibold">Safe ledger</h2>
+        </div>
+        {isLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : !safe || safe.entries.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Vault className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No cash has gone through the safe yet</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-3 font-medium">Date</th>
+                <th className="text-left p-3 font-medium">Type</th>
+                <th className="text-left p-3 font-medium">Reference</th>
+                <th className="text-left p-3 font-medium">By</th>
+                <th className="text-right p-3 font-medium">Amount</th>
+                <th className="text-right p-3 font-medium">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {safe.entries.map(entry => (
+                <tr key={entry.id} className="border-t">
+                  <td className="p-3">{formatDateTime(entry.occurred_at)}</td>
+                  <td className="p-3">
+                    <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', typeStyles[entry.type])}>
+                      {entry.type}
+                    </span>
+                  </td>
+                  <td className="p-3 text-muted-foreground">
+                    {entry.reference || entry.shift_number || '-'}
+                    {entry.notes && ` · ${entry.notes}`}
+                  </td>
+                  <td className="p-3">
+                    {entry.created_by_name || '-'}
+                    {entry.approved_by_name && (
+                      <span className="text-muted-foreground"> · approved by {entry.approved_by_name}</span>
+                    )}
+                  </td>
+                  <td className={cn('p-3 text-right font-medium', parseFloat(entry.amount_delta) < 0 ? 'text-red-600' : 'text-emerald-600')}>
+                    {formatCurrency(parseFloat(entry.amount_delta), currency)}
+                  </td>
+                  <td className="p-3 text-right">{formatCurrency(parseFloat(entry.balance_after), currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Deposit Modal */}
+      {showDeposit && safe && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <Landmark className="h-5 w-5" /> Bank deposit
+              </h2>
+              <button onClick={closeDeposit} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The safe holds {formatCurrency(safe.balance, currency)}.
+              </p>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Amount *</label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={deposit.amount}
+                    onChange={(e) => setDeposit({ ...deposit, amount: e.target.value })}
+                    placeholder="0.00"
+                  />
+                  <Button variant="outline" onClick={() => setDeposit({ ...deposit, amount: String(safe.balance) })}>
+                    All
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Deposit slip reference *</label>
+                <Input
+                  value={deposit.reference}
+                  onChange={(e) => setDeposit({ ...deposit, reference: e.target.value })}
+                  placeholder="e.g. bank slip number"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Notes</label>
+                <Input value={deposit.notes} onChange={(e) => setDeposit({ ...deposit, notes: e.target.value })} />
+              </div>
+            </div>
+            <div className="flex gap-3 p-6 border-t">
+              <Button variant="outline" className="flex-1" onClick={closeDeposit}>Cancel</Button>
+              <Button
+                className="flex-1"
+                onClick={() => depositMutation.mutate()}
+                disabled={
+                  depositMutation.isPending || !deposit.reference.trim()
+                  || !(depositAmount > 0) || depositAmount > safe.balance
+                }
+              >
+                {depositMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Record deposit
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
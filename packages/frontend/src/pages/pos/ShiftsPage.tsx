@@ -5,12 +5,16 @@ import { useAuthStore } from '@/stores/auth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { formatCurrency } from '@/lib/utils';
+import { getDeviceKey } from '@/lib/device';
 import { toast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
+import { Register, useDeviceRegister } from '@/hooks/use-device-register';
 import {
   Clock, Play, Square, DollarSign,
   Plus, Loader2, X, CheckCircle,
-  ArrowUpCircle, ArrowDownCircle, Store, ChevronRight
+  ArrowUpCircle, ArrowDownCircle, Store, ChevronRight,
+  FileText, ShieldCheck, EyeOff, AlertTriangle, Vault, Coins,
+  Monitor, UserPlus, LogOut, Users
 } from 'lucide-react';
 
 interface Shift {
@@ -18,40 +22,96 @@ interface Shift {
   shift_number: string;
   store_id: string;
   store_name: string;
+  register_id?: string;
+  register_name?: string;
   cashier_id: string;
   cashier_first_name: string;
   cashier_last_name?: string;
   cashier_email: string;
   opened_at: string;
   closed_at?: string;
-  opening_cash: number;
+  // Money totals are null on open shifts under blind cash-up for users without POS_CASH_UP
+  opening_cash: number | null;
   closing_cash?: number;
-  expected_cash?: number;
+  expected_cash?: number | null;
   cash_difference?: number;
-  total_sales: number;
-  total_refunds: number;
-  total_cash_payments: number;
-  total_card_payments: number;
+  total_sales: number | null;
+  total_refunds: number | null;
+  total_cash_payments: number | null;
+  total_card_payments: number | null;
   transaction_count: number;
   status: 'open' | 'closed';
   receipt_count?: number;
+  cash_count?: { value: number; count: number }[];
+  blind_close?: boolean;
   notes?: string;
+  // Current shift only: cashiers on the drawer
+  cashier_names?: string;
+  cashier_count?: number;
 }
 
+interface CashUpSettings {
+  currencyCode: string;
+  denominations: number[];
+  blind: boolean;
+  varianceThreshold: number | null;
+}
+
+const movementOptions: { type: CashMovementType; icon: typeof Vault; active: string; text: string }[] = [
+  { type: 'cash_in', icon: ArrowDownCircle, active: 'border-emerald-500 bg-emerald-50', text: 'text-emerald-700' },
+  { type: 'cash_out', icon: ArrowUpCircle, active: 'border-red-500 bg-red-50', text: 'text-red-700' },
+  { type: 'drop', icon: Vault, active: 'border-indigo-500 bg-indigo-50', text: 'text-indigo-700' },
+  { type: 'pickup', icon: Coins, active: 'border-amber-500 bg-amber-50', text: 'text-amber-700' },
+];
+
+const emptyApproval = { needed: false, mode: 'pin' as 'pin' | 'login', pin: '', email: '', password: '' };
+
+type CashMovementType = 'cash_in' | 'cash_out' | 'drop' | 'pickup';
+
 interface CashMovement {
   id: string;
-  type: 'cash_in' | 'cash_out' | 'drop' | 'pickup';
+  type: CashMovementType;
   amount: number;
   reason?: string;
   notes?: string;
   created_at: string;
   created_by_name?: string;
+  approved_by_name?: string;
+}
+
+// A cashier on the shift's drawer with the sales they rang up
+interface ShiftCashier {
+  userId: string;
+  name: string;
+  joinedAt: string | null;
+  leftAt: string | null;
+  totalSales: number | null;
+  totalRefunds: number | null;
+  transactionCount: number;
+  voidCount: number;
+}
+
+// From GET /shifts/current: the open shift of this browser's register when the user is not on it
+interface RegisterShift {
+  id: string;
+  shift_number: string;
+  register_name: string;
+  cashier_names?: string;
+  opened_at: string;
+}
+
+// From GET /shifts/current: whether the drawer holds more than the store's limit
+interface DrawerStatus {
+  drawerLimit: number | null;
+  overLimit: boolean;
+  suggestedDrop: number | null;
 }
 
 export default function ShiftsPage() {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
-  const { currentStoreId, stores } = useAuthStore();
+  const { currentStoreId, stores, hasPermission } = useAuthStore();
+  const canApprove = hasPermission('POS_CASH_UP');
   
   const [showOpenModal, setShowOpenModal] = useState(false);
   const [showCloseModal, setShowCloseModal] = useState(false);
@@ -62,26 +122,47 @@ export default function ShiftsPage() {
   
   // Form states
   const [openingCash, setOpeningCash] = useState('');
+  const [openRegisterId, setOpenRegisterId] = useState('');
   const [closingCash, setClosingCash] = useState('');
   const [closeNotes, setCloseNotes] = useState('');
-  const [movementType, setMovementType] = useState<'cash_in' | 'cash_out'>('cash_in');
+  // Counts per denomination, keyed by the note/coin value
+  const [cashCount, setCashCount] = useState<Record<string, string>>({});
+  const [countByTotal, setCountByTotal] = useState(false);
+  const [approval, setApproval] = useState(emptyApproval);
+  const [movementType, setMovementType] = useState<CashMovementType>('cash_in');
   const [movementAmount, setMovementAmount] = useState('');
   const [movementReason, setMovementReason] = useState('');
 
   // Get current store name
   const currentStoreName = stores.find(s => s.id === currentStoreId)?.name || 'Unknown Store';
 
+  // This browser's register and the store's registers to open a shift on
+  const { data: deviceRegister, isLoading: deviceRegisterLoading } = useDeviceRegister(currentStoreId);
+  const { data: registersData } = useQuery({
+    queryKey: ['registers', currentStoreId],
+    queryFn: async () => {
+      const res = await api.get('/registers', { params: { storeId: currentStoreId } });
+      return res.data.registers as Register[];
+    },
+    enabled: !!currentStoreId,
+  });
+  const registers = registersData || [];
+
   // Fetch current open shift
   const { data: currentShiftData, isLoading: currentLoading } = useQuery({
-    queryKey: ['current-shift', currentStoreId],
+    queryKey: ['current-shift', currentStoreId, deviceRegister?.id],
     queryFn: async () => {
-      const res = await api.get('/shifts/current', { params: { storeId: currentStoreId } });
+      const res = await api.get('/shifts/current', {
+        params: { storeId: currentStoreId, registerId: deviceRegister?.id },
+      });
       return res.data;
     },
-    enabled: !!currentStoreId,
+    enabled: !!currentStoreId && !deviceRegisterLoading,
   });
 
   const currentShift = currentShiftData?.shift;
+  const registerShift: RegisterShift | null = currentShiftData?.registerShift || null;
+  const drawer: DrawerStatus | undefined = currentShift?.drawer;
 
   // Fetch all shifts
   const { data: shiftsData, isLoading: shiftsLoading } = useQuery({
@@ -97,6 +178,23 @@ export default function ShiftsPage() {
 
   const shifts: Shift[] = shiftsData?.shifts || [];
 
+  const { data: cashUp } = useQuery<CashUpSettings>({
+    queryKey: ['cash-up'],
+    queryFn: async () => {
+      const res = await api.get('/shifts/cash-up');
+      return res.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const denominations = cashUp?.denominations || [];
+  const countByDenomination = denominations.length > 0 && !countByTotal;
+  const countedTotal = Math.round(
+    denominations.reduce((sum, value) => sum + value * (parseInt(cashCount[value]) || 0), 0) * 100
+  ) / 100;
+  // Managers see the expected cash even when the count is blind
+  const hideExpected = !!cashUp?.blind && !canApprove;
+
   // Fetch shift details
   const { data: shiftDetailsData, isLoading: detailsLoading } = useQuery({
     queryKey: ['shift-details', selectedShift?.id],
@@ -112,6 +210,8 @@ export default function ShiftsPage() {
     mutationFn: async () => {
       const res = await api.post('/shifts/open', {
         storeId: currentStoreId,
+        registerId: openRegisterId || null,
+        deviceKey: getDeviceKey(),
         openingCash: parseFloat(openingCash) || 0,
       });
       return res.data;
@@ -119,30 +219,79 @@ export default function ShiftsPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['current-shift'] });
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['registers'] });
       setShowOpenModal(false);
       setOpeningCash('');
       toast({ title: 'Shift Opened', description: 'Your shift has been started', icon: 'check', variant: 'success' });
     },
     onError: (error: any) => {
+      // Someone opened the register meanwhile: show its shift to join
+      if (error.response?.data?.code === 'REGISTER_SHIFT_OPEN') {
+        queryClient.invalidateQueries({ queryKey: ['current-shift'] });
+        queryClient.invalidateQueries({ queryKey: ['registers'] });
+      }
       toast({ title: 'Error', description: error.response?.data?.error || 'Failed to open shift', variant: 'destructive', icon: 'error' });
     },
   });
 
+  const joinShiftMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      const res = await api.post(`/shifts/${shiftId}/join`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['current-shift'] });
+      queryClient.invalidateQueries({ queryKey: ['pos-current-shift'] });
+      queryClient.invalidateQueries({ queryKey: ['registers'] });
+      toast({ title: t('shifts.registers.joined'), description: t('shifts.registers.joinedHint'), icon: 'check', variant: 'success' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to join shift', variant: 'destructive', icon: 'error' });
+    },
+  });
+
+  const leaveShiftMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      const res = await api.post(`/shifts/${shiftId}/leave`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['current-shift'] });
+      queryClient.invalidateQueries({ queryKey: ['pos-current-shift'] });
+      queryClient.invalidateQueries({ queryKey: ['registers'] });
+      toast({ title: t('shifts.registers.left'), icon: 'check', variant: 'success' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.error || 'Failed to leave shift', variant: 'destructive', icon: 'error' });
+    },
+  });
+
+  // The register defaults to this browser's
+  const openOpenModal = () => {
+    setOpenRegisterId(deviceRegister && !deviceRegister.open_shift_id ? deviceRegister.id : '');
+    setShowOpenModal(true);
+  };
+
+  const supervisorCredentials = () => (
+    approval.mode === 'pin' ? { pin: approval.pin } : { email: approval.email, password: approval.password }
+  );
+
   // Close shift mutation
   const closeShiftMutation = useMutation({
     mutationFn: async () => {
       const res = await api.post(`/shifts/${currentShift?.id}/close`, {
-        closingCash: parseFloat(closingCash) || 0,
+        ...(countByDenomination
+          ? { cashCount: denominations.map(value => ({ value, count: parseInt(cashCount[value]) || 0 })) }
+          : { closingCash: parseFloat(closingCash) || 0 }),
         notes: closeNotes || null,
+        supervisor: approval.needed ? supervisorCredentials() : undefined,
       });
       return res.data;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['current-shift'] });
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
-      setShowCloseModal(false);
-      setClosingCash('');
-      setCloseNotes('');
+      closeCloseModal();
       
       const diff = data.summary?.cashDifference || 0;
       const diffText = diff === 0 ? 'Cash balanced perfectly!' : 
@@ -151,6 +300,10 @@ export default function ShiftsPage() {
       toast({ title: 'Shift Closed', description: diffText, icon: 'check', variant: 'success' });
     },
     onError: (error: any) => {
+      // Over the variance threshold: recount, or a manager approves with their PIN or login
+      if (error.response?.data?.code === 'VARIANCE_APPROVAL_REQUIRED') {
+        setApproval(prev => ({ ...prev, needed: true }));
+      }
       toast({ title: 'Error', description: error.response?.data?.error || 'Failed to close shift', variant: 'destructive', icon: 'error' });
     },
   });
@@ -162,17 +315,17 @@ export default function ShiftsPage() {
         type: movementType,
         amount: parseFloat(movementAmount),
         reason: movementReason || null,
+        supervisor: movementType === 'pickup' ? supervisorCredentials() : undefined,
       });
       return res.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['current-shift'] });
       queryClient.invalidateQueries({ queryKey: ['shift-details'] });
-      setShowMovementModal(false);
-      setMovementAmount('');
-      setMovementReason('');
+      queryClient.invalidateQueries({ queryKey: ['safe'] });
+      closeMovementModal();
       toast({ 
-        title: movementType === 'cash_in' ? 'Cash Added' : 'Cash Removed', 
+        title: t(`shifts.movements.recorded.${movementType}`),
         description: `${formatCurrency(parseFloat(movementAmount))} recorded`,
         icon: 'check',
         variant: 'success'
@@ -183,12 +336,96 @@ export default function ShiftsPage() {
     },
   });
 
+  const closeMovementModal = () => {
+    setShowMovementModal(false);
+    setMovementType('cash_in');
+    setMovementAmount('');
+    setMovementReason('');
+    setApproval(emptyApproval);
+  };
+
+  // Over the drawer limit: a drop of the suggested amount (the cashier counts it when the count is blind)
+  const openDropModal = () => {
+    setMovementType('drop');
+    setMovementAmount(drawer?.suggestedDrop ? String(drawer.suggestedDrop) : '');
+    setShowMovementModal(true);
+  };
+
+  const closeCloseModal = () => {
+    setShowCloseModal(false);
+    setClosingCash('');
+    setCloseNotes('');
+    setCashCount({});
+    setCountByTotal(false);
+    setApproval(emptyApproval);
+  };
+
+  // X report while the shift is open, Z report once it is closed
+  const printShiftReport = async (shiftId: string) => {
+    try {
+      const response = await api.get(`/documents/shift/${shiftId}`, {
+        params: { format: 'thermal' },
+        responseType: 'blob'
+      });
+      window.open(window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' })), '_blank');
+    } catch {
+      toast({ title: 'Error', description: 'Failed to generate shift report', variant: 'destructive', icon: 'error' });
+    }
+  };
+
+  // A manager's PIN or login, for variance sign-off and pickups
+  const supervisorFields = (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant={approval.mode === 'pin' ? 'default' : 'outline'}
+          onClick={() => setApproval({ ...approval, mode: 'pin' })}
+        >
+          PIN
+        </Button>
+        <Button
+          variant={approval.mode === 'login' ? 'default' : 'outline'}
+          onClick={() => setApproval({ ...approval, mode: 'login' })}
+        >
+          Email & Password
+        </Button>
+      </div>
+      {approval.mode === 'pin' ? (
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="Manager PIN"
+          value={approval.pin}
+          onChange={(e) => setApproval({ ...approval, pin: e.target.value })}
+        />
+      ) : (
+        <>
+          <Input
+            type="email"
+            placeholder="Manager email"
+            value={approval.email}
+            onChange={(e) => setApproval({ ...approval, email: e.target.value })}
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            value={approval.password}
+            onChange={(e) => setApproval({ ...approval, password: e.target.value })}
+          />
+        </>
+      )}
+    </>
+  );
+
   const formatDateTime = (date: string) => {
     return new Date(date).toLocaleString('en-US', {
       month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
     });
   };
 
+  // Totals hidden by a blind cash-up show as a dash
+  const formatTotal = (amount: number | null | undefined) => (amount == null ? '—' : formatCurrency(amount));
+
   const formatDuration = (start: string, end?: string) => {
     const startTime = new Date(start);
     const endTime = end ? new Date(end) : new Date();
@@ -214,7 +451,7 @@ export default function ShiftsPage() {
             <Store className="h-4 w-4 text-slate-500" />
             <span className="text-sm font-medium">{currentStoreName}</span>
           </div>
-          <Button onClick={() => setShowOpenModal(true)} className="gap-2" size="lg">
+          <Button onClick={openOpenModal} className="gap-2" size="lg">
             <Play className="h-5 w-5" /> {t('shifts.openShift')}
           </Button>
         </div>
@@ -235,10 +472,35 @@ export default function ShiftsPage() {
                 </div>
                 <div>
                   <h2 className="text-lg font-bold text-emerald-900">{t('shifts.currentShift')}</h2>
-                  <p className="text-sm text-emerald-700">{currentShift.shift_number}</p>
+                  <p className="text-sm text-emerald-700">
+                    {currentShift.shift_number}
+                    {currentShift.register_name && ` • ${currentShift.register_name}`}
+                  </p>
+                  {(currentShift.cashier_count || 0) > 1 && (
+                    <p className="text-xs text-emerald-600 flex items-center gap-1 mt-0.5">
+                      <Users className="h-3 w-3" /> {t('shifts.registers.sharedDrawer', { names: currentShift.cashier_names })}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                {(currentShift.cashier_count || 0) > 1 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => leaveShiftMutation.mutate(currentShift.id)}
+                    disabled={leaveShiftMutation.isPending}
+                    className="gap-2"
+                  >
+                    <LogOut className="h-4 w-4" /> {t('shifts.registers.leave')}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => printShiftReport(currentShift.id)}
+                  className="gap-2"
+                >
+                  <FileText className="h-4 w-4" /> {t('shifts.cashUp.xReport')}
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => setShowMovementModal(true)}
@@ -264,17 +526,64 @@ export default function ShiftsPage() {
               </div>
               <div className="bg-white rounded-xl p-4 border border-emerald-100">
                 <p className="text-xs text-slate-500 uppercase tracking-wide">{t('shifts.openingCash')}</p>
-                <p className="text-lg font-semibold mt-1">{formatCurrency(currentShift.opening_cash)}</p>
+                <p className="text-lg font-semibold mt-1">{formatTotal(currentShift.opening_cash)}</p>
               </div>
               <div className="bg-white rounded-xl p-4 border border-emerald-100">
                 <p className="text-xs text-slate-500 uppercase tracking-wide">{t('shifts.totalSales')}</p>
-                <p className="text-lg font-semibold mt-1 text-emerald-600">{formatCurrency(currentShift.total_sales)}</p>
+                <p className="text-lg font-semibold mt-1 text-emerald-600">{formatTotal(currentShift.total_sales)}</p>
               </div>
               <div className="bg-white rounded-xl p-4 border border-emerald-100">
                 <p className="text-xs text-slate-500 uppercase tracking-wide">{t('shifts.transactions')}</p>
                 <p className="text-lg font-semibold mt-1">{currentShift.transaction_count}</p>
               </div>
             </div>
+
+            {drawer?.overLimit && (
+              <div className="flex items-center justify-between gap-4 rounded-xl border border-amber-300 bg-amber-50 p-4">
+                <div className="flex items-center gap-3">
+                  <AlertTriangle className="h-5 w-5 text-amber-600 shrink-0" />
+                  <div>
+                    <p className="font-medium text-amber-900">{t('shifts.movements.overLimit')}</p>
+                    <p className="text-sm text-amber-700">
+                      {drawer.suggestedDrop !== null
+                        ? t('shifts.movements.overLimitHint', {
+                          limit: formatCurrency(drawer.drawerLimit || 0),
+                          amount: formatCurrency(drawer.suggestedDrop),
+                        })
+                        : t('shifts.movements.overLimitBlind', { limit: formatCurrency(drawer.drawerLimit || 0) })}
+                    </p>
+                  </div>
+                </div>
+                <Button onClick={openDropModal} className="gap-2 shrink-0">
+                  <Vault className="h-4 w-4" /> {t('shifts.movements.makeDrop')}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : registerShift ? (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-blue-100 rounded-xl">
+                <Monitor className="h-6 w-6 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-slate-700">
+                  {t('shifts.registers.registerOpen', { register: registerShift.register_name, shift: registerShift.shift_number })}
+                </h2>
+                <p className="text-sm text-slate-500">
+                  {t('shifts.registers.joinHint', { names: registerShift.cashier_names || '' })}
+                </p>
+              </div>
+            </div>
+            <Button
+              onClick={() => joinShiftMutation.mutate(registerShift.id)}
+              disabled={joinShiftMutation.isPending}
+              className="gap-2"
+              size="lg"
+            >
+              {joinShiftMutation.isPending ? <Loader2 className="h-5 w-5 animate-spin" /> : <UserPlus className="h-5 w-5" />}
+              {t('shifts.registers.join')}
+            </Button>
           </div>
         ) : (
           <div className="flex items-center justify-between">
@@ -287,7 +596,7 @@ export default function ShiftsPage() {
                 <p className="text-sm text-slate-500">{t('shifts.manage')}</p>
               </div>
             </div>
-            <Button onClick={() => setShowOpenModal(true)} className="gap-2" size="lg">
+            <Button onClick={openOpenModal} className="gap-2" size="lg">
               <Play className="h-5 w-5" /> {t('shifts.openShift')}
             </Button>
           </div>
@@ -348,6 +657,7 @@ export default function ShiftsPage() {
                       <p className="font-medium">{shift.shift_number}</p>
                       <p className="text-sm text-slate-500">
                         {shift.cashier_first_name} {shift.cashier_last_name || ''}
+                        {shift.register_name && ` • ${shift.register_name}`}
                       </p>
                     </div>
                   </div>
@@ -355,7 +665,7 @@ export default function ShiftsPage() {
                   <div className="flex items-center gap-6">
                     <div className="text-right">
                       <p className="text-sm text-slate-500">Sales</p>
-                      <p className="font-semibold text-emerald-600">{formatCurrency(shift.total_sales)}</p>
+                      <p className="font-semibold text-emerald-600">{formatTotal(shift.total_sales)}</p>
                     </div>
                     <div className="text-right">
                       <p className="text-sm text-slate-500">Transactions</p>
@@ -409,6 +719,28 @@ export default function ShiftsPage() {
               </div>
             </div>
             <div className="p-6 space-y-4">
+              {registers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('shifts.registers.register')}</label>
+                  <select
+                    value={openRegisterId}
+                    onChange={(e) => setOpenRegisterId(e.target.value)}
+                    className="w-full h-10 px-3 border rounded-lg bg-white text-sm"
+                  >
+                    <option value="">{t('shifts.registers.chooseRegister')}</option>
+                    {registers.map((register) => (
+                      <option key={register.id} value={register.id} disabled={!!register.open_shift_id}>
+                        {register.name}
+                        {register.id === deviceRegister?.id ? ` (${t('shifts.registers.thisDevice')})` : ''}
+                        {register.open_shift_id ? ` — ${t('shifts.registers.inUse', { shift: register.open_shift_number })}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {!deviceRegister && (
+                    <p className="text-xs text-slate-500 mt-2">{t('shifts.registers.noDevice')}</p>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium mb-2">Opening Cash Amount</label>
                 <div className="relative">
@@ -431,7 +763,7 @@ export default function ShiftsPage() {
               </Button>
               <Button
                 onClick={() => openShiftMutation.mutate()}
-                disabled={openShiftMutation.isPending}
+                disabled={openShiftMutation.isPending || (registers.length > 0 && !openRegisterId)}
                 className="flex-1 gap-2"
               >
                 {openShiftMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
@@ -454,42 +786,99 @@ export default function ShiftsPage() {
                   </div>
                   <h3 className="text-lg font-semibold">Close Shift</h3>
                 </div>
-                <button onClick={() => setShowCloseModal(false)} className="text-slate-400 hover:text-slate-600">
+                <button onClick={closeCloseModal} className="text-slate-400 hover:text-slate-600">
                   <X className="h-5 w-5" />
                 </button>
               </div>
             </div>
-            <div className="p-6 space-y-4">
-              <div className="bg-slate-50 rounded-xl p-4 space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-slate-600">Opening Cash</span>
-                  <span className="font-medium">{formatCurrency(currentShift.opening_cash)}</span>
+            <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+              {hideExpected ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex gap-3 text-sm text-amber-800">
+                  <EyeOff className="h-5 w-5 flex-shrink-0" />
+                  <span>{t('shifts.cashUp.blindNotice')}</span>
+                </div>
+              ) : (
+                <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-600">Opening Cash</span>
+                    <span className="font-medium">{formatCurrency(currentShift.opening_cash || 0)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-600">Cash Sales</span>
+                    <span className="font-medium text-emerald-600">+{formatCurrency(currentShift.total_cash_payments || 0)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-600">Duration</span>
+                    <span className="font-medium">{formatDuration(currentShift.opened_at)}</span>
+                  </div>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-slate-600">Cash Sales</span>
-                  <span className="font-medium text-emerald-600">+{formatCurrency(currentShift.total_cash_payments || 0)}</span>
+              )}
+
+              {countByDenomination ? (
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('shifts.cashUp.countDrawer')} *</label>
+                  <div className="border rounded-xl divide-y">
+                    <div className="grid grid-cols-3 gap-3 px-4 py-2 text-xs text-slate-500 uppercase">
+                      <span>{t('shifts.cashUp.denomination')}</span>
+                      <span>{t('shifts.cashUp.quantity')}</span>
+                      <span className="text-right">{t('shifts.cashUp.counted')}</span>
+                    </div>
+                    {denominations.map((value) => (
+                      <div key={value} className="grid grid-cols-3 gap-3 px-4 py-2 items-center">
+                        <span className="font-medium">{formatCurrency(value)}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={cashCount[value] || ''}
+                          onChange={(e) => setCashCount(prev => ({ ...prev, [value]: e.target.value }))}
+                          placeholder="0"
+                          className="h-9"
+                        />
+                        <span className="text-right text-sm">{formatCurrency(value * (parseInt(cashCount[value]) || 0))}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between px-4 py-3 font-semibold">
+                      <span>{t('shifts.cashUp.counted')}</span>
+                      <span>{formatCurrency(countedTotal)}</span>
+                    </div>
+                  </div>
+                  <button onClick={() => setCountByTotal(true)} className="text-xs text-primary hover:underline mt-2">
+                    {t('shifts.cashUp.enterTotal')}
+                  </button>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-slate-600">Duration</span>
-                  <span className="font-medium">{formatDuration(currentShift.opened_at)}</span>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Actual Cash in Drawer *</label>
+                  <div className="relative">
+                    <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
+                    <Input
+                      type="number"
+                      value={closingCash}
+                      onChange={(e) => setClosingCash(e.target.value)}
+                      placeholder="Count your cash"
+                      className="pl-10 text-lg"
+                      autoFocus
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">Enter the amount of cash in the drawer at the end of your shift</p>
+                  {denominations.length > 0 && (
+                    <button onClick={() => setCountByTotal(false)} className="text-xs text-primary hover:underline mt-2">
+                      {t('shifts.cashUp.countByDenomination')}
+                    </button>
+                  )}
                 </div>
-              </div>
+              )}
 
-              <div>
-                <label className="block text-sm font-medium mb-2">Actual Cash in Drawer *</label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
-                  <Input
-                    type="number"
-                    value={closingCash}
-                    onChange={(e) => setClosingCash(e.target.value)}
-                    placeholder="Count your cash"
-                    className="pl-10 text-lg"
-                    autoFocus
-                  />
+              {approval.needed && (
+                <div className="rounded-lg border border-amber-200 p-4 space-y-3">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-amber-600" /> {t('shifts.cashUp.approvalRequired')}
+                  </p>
+                  <p className="text-xs text-slate-500">{t('shifts.cashUp.approvalHint')}</p>
+                  {supervisorFields}
                 </div>
-                <p className="text-xs text-slate-500 mt-2">Enter the amount of cash in the drawer at the end of your shift</p>
-              </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium mb-2">Notes (Optional)</label>
@@ -502,17 +891,19 @@ export default function ShiftsPage() {
               </div>
             </div>
             <div className="p-6 border-t bg-slate-50 rounded-b-2xl flex gap-3">
-              <Button variant="outline" onClick={() => setShowCloseModal(false)} className="flex-1">
+              <Button variant="outline" onClick={closeCloseModal} className="flex-1">
                 Cancel
               </Button>
               <Button
                 variant="destructive"
                 onClick={() => closeShiftMutation.mutate()}
-                disabled={closeShiftMutation.isPending || !closingCash}
+                disabled={closeShiftMutation.isPending
+                  || (!countByDenomination && !closingCash)
+                  || (approval.needed && (approval.mode === 'pin' ? !approval.pin : !approval.email || !approval.password))}
                 className="flex-1 gap-2"
               >
                 {closeShiftMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
-                Close Shift
+                {approval.needed ? t('shifts.cashUp.approve') : 'Close Shift'}
               </Button>
             </div>
           </div>
@@ -526,37 +917,28 @@ export default function ShiftsPage() {
             <div className="p-6 border-b">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">Cash Movement</h3>
-                <button onClick={() => setShowMovementModal(false)} className="text-slate-400 hover:text-slate-600">
+                <button onClick={closeMovementModal} className="text-slate-400 hover:text-slate-600">
                   <X className="h-5 w-5" />
                 </button>
               </div>
             </div>
             <div className="p-6 space-y-4">
               <div className="grid grid-cols-2 gap-2">
-                <button
-                  onClick={() => setMovementType('cash_in')}
-                  className={`p-4 rounded-xl border-2 transition-all ${
-                    movementType === 'cash_in'
-                      ? 'border-emerald-500 bg-emerald-50'
-                      : 'border-slate-200 hover:border-slate-300'
-                  }`}
-                >
-                  <ArrowDownCircle className={`h-6 w-6 mx-auto mb-2 ${movementType === 'cash_in' ? 'text-emerald-600' : 'text-slate-400'}`} />
-                  <p className={`font-medium ${movementType === 'cash_in' ? 'text-emerald-700' : 'text-slate-600'}`}>Cash In</p>
-                  <p className="text-xs text-slate-500 mt-1">Add cash to drawer</p>
-                </button>
-                <button
-                  onClick={() => setMovementType('cash_out')}
-                  className={`p-4 rounded-xl border-2 transition-all ${
-                    movementType === 'cash_out'
-                      ? 'border-red-500 bg-red-50'
-                      : 'border-slate-200 hover:border-slate-300'
-                  }`}
-                >
-                  <ArrowUpCircle className={`h-6 w-6 mx-auto mb-2 ${movementType === 'cash_out' ? 'text-red-600' : 'text-slate-400'}`} />
-                  <p className={`font-medium ${movementType === 'cash_out' ? 'text-red-700' : 'text-slate-600'}`}>Cash Out</p>
-                  <p className="text-xs text-slate-500 mt-1">Remove cash from drawer</p>
-                </button>
+                {movementOptions.map(({ type, icon: Icon, active, text }) => (
+                  <button
+                    key={type}
+                    onClick={() => setMovementType(type)}
+                    className={`p-4 rounded-xl border-2 transition-all ${
+                      movementType === type ? active : 'border-slate-200 hover:border-slate-300'
+                    }`}
+                  >
+                    <Icon className={`h-6 w-6 mx-auto mb-2 ${movementType === type ? text : 'text-slate-400'}`} />
+                    <p className={`font-medium ${movementType === type ? text : 'text-slate-600'}`}>
+                      {t(`shifts.movements.types.${type}`)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">{t(`shifts.movements.hints.${type}`)}</p>
+                  </button>
+                ))}
               </div>
 
               <div>
@@ -581,14 +963,27 @@ export default function ShiftsPage() {
                   placeholder="e.g., Change for customer, Petty cash..."
                 />
               </div>
+
+              {movementType === 'pickup' && (
+                <div className="rounded-lg border border-amber-200 p-4 space-y-3">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-amber-600" /> {t('shifts.movements.pickupApproval')}
+                  </p>
+                  <p className="text-xs text-slate-500">{t('shifts.movements.pickupApprovalHint')}</p>
+                  {supervisorFields}
+                </div>
+              )}
             </div>
             <div className="p-6 border-t bg-slate-50 rounded-b-2xl flex gap-3">
-              <Button variant="outline" onClick={() => setShowMovementModal(false)} className="flex-1">
+              <Button variant="outline" onClick={closeMovementModal} className="flex-1">
                 Cancel
               </Button>
               <Button
                 onClick={() => addMovementMutation.mutate()}
-                disabled={addMovementMutation.isPending || !movementAmount || parseFloat(movementAmount) <= 0}
+                disabled={
+                  addMovementMutation.isPending || !movementAmount || parseFloat(movementAmount) <= 0
+                  || (movementType === 'pickup' && (approval.mode === 'pin' ? !approval.pin : !approval.email || !approval.password))
+                }
                 className="flex-1 gap-2"
               >
                 {addMovementMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
@@ -609,6 +1004,7 @@ export default function ShiftsPage() {
                   <h3 className="text-lg font-semibold">{selectedShift.shift_number}</h3>
                   <p className="text-sm text-slate-500">
                     {selectedShift.cashier_first_name} {selectedShift.cashier_last_name || ''} • {selectedShift.store_name}
+                    {selectedShift.register_name && ` • ${selectedShift.register_name}`}
                   </p>
                 </div>
                 <button onClick={() => setShowDetailsModal(false)} className="text-slate-400 hover:text-slate-600">
@@ -628,7 +1024,7 @@ export default function ShiftsPage() {
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-6">
                     <div className="bg-slate-50 rounded-xl p-4">
                       <p className="text-xs text-slate-500 uppercase">Total Sales</p>
-                      <p className="text-xl font-bold text-emerald-600 mt-1">{formatCurrency(selectedShift.total_sales)}</p>
+                      <p className="text-xl font-bold text-emerald-600 mt-1">{formatTotal(selectedShift.total_sales)}</p>
                     </div>
                     <div className="bg-slate-50 rounded-xl p-4">
                       <p className="text-xs text-slate-500 uppercase">Transactions</p>
@@ -636,21 +1032,38 @@ export default function ShiftsPage() {
                     </div>
                     <div className="bg-slate-50 rounded-xl p-4">
                       <p className="text-xs text-slate-500 uppercase">Cash Payments</p>
-                      <p className="text-xl font-bold mt-1">{formatCurrency(selectedShift.total_cash_payments)}</p>
+                      <p className="text-xl font-bold mt-1">
+                        {formatTotal(selectedShift.total_cash_payments)}
+                      </p>
                     </div>
                     <div className="bg-slate-50 rounded-xl p-4">
                       <p className="text-xs text-slate-500 uppercase">Card Payments</p>
-                      <p className="text-xl font-bold mt-1">{formatCurrency(selectedShift.total_card_payments)}</p>
+                      <p className="text-xl font-bold mt-1">{formatTotal(selectedShift.total_card_payments)}</p>
                     </div>
                   </div>
 
+                  {/* Payments by Method */}
+                  {shiftDetailsData?.salesSummary?.tenders && Object.keys(shiftDetailsData.salesSummary.tenders).length > 0 && (
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <h4 className="font-semibold mb-3">{t('pos.tenders.byMethod')}</h4>
+                      <div className="space-y-2">
+                        {Object.entries(shiftDetailsData.salesSummary.tenders as Record<string, number>).map(([method, amount]) => (
+                          <div key={method} className="flex justify-between text-sm">
+                            <span className="text-slate-600">{t(`pos.tenders.methods.${method}`, method)}</span>
+                            <span className={`font-medium ${amount < 0 ? 'text-red-600' : ''}`}>{formatCurrency(amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Cash Summary */}
                   <div className="bg-slate-50 rounded-xl p-4">
                     <h4 className="font-semibold mb-3">Cash Summary</h4>
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span className="text-slate-600">Opening Cash</span>
-                        <span className="font-medium">{formatCurrency(selectedShift.opening_cash)}</span>
+                        <span className="font-medium">{formatTotal(selectedShift.opening_cash)}</span>
                       </div>
                       {selectedShift.status === 'closed' && (
                         <>
@@ -671,11 +1084,37 @@ export default function ShiftsPage() {
                               {(selectedShift.cash_difference || 0) >= 0 ? '+' : ''}{formatCurrency(selectedShift.cash_difference || 0)}
                             </span>
                           </div>
+                          {selectedShift.blind_close && (
+                            <div className="flex items-center gap-2 text-xs text-slate-500">
+                              <EyeOff className="h-3.5 w-3.5" /> {t('shifts.cashUp.blindClose')}
+                            </div>
+                          )}
+                          {shiftDetailsData?.shift?.variance_approved_by_name && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-slate-600">{t('shifts.cashUp.approvedBy')}</span>
+                              <span className="font-medium">{shiftDetailsData.shift.variance_approved_by_name}</span>
+                            </div>
+                          )}
                         </>
                       )}
                     </div>
                   </div>
 
+                  {/* Drawer Count */}
+                  {selectedShift.cash_count && selectedShift.cash_count.length > 0 && (
+                    <div className="bg-slate-50 rounded-xl p-4">
+                      <h4 className="font-semibold mb-3">{t('shifts.cashUp.drawerCount')}</h4>
+                      <div className="space-y-2">
+                        {selectedShift.cash_count.map((line) => (
+                          <div key={line.value} className="flex justify-between text-sm">
+                            <span className="text-slate-600">{line.count} × {formatCurrency(line.value)}</span>
+                            <span className="font-medium">{formatCurrency(line.value * line.count)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Time Details */}
                   <div className="bg-slate-50 rounded-xl p-4">
                     <h4 className="font-semibold mb-3">Time Details</h4>
@@ -697,6 +1136,33 @@ export default function ShiftsPage() {
                     </div>
                   </div>
 
+                  {/* Cashiers on the drawer */}
+                  {shiftDetailsData?.cashiers && shiftDetailsData.cashiers.length > 1 && (
+                    <div>
+                      <h4 className="font-semibold mb-3">{t('shifts.registers.cashiers')}</h4>
+                      <div className="space-y-2">
+                        {shiftDetailsData.cashiers.map((cashier: ShiftCashier) => (
+                          <div key={cashier.userId} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                            <div>
+                              <p className="font-medium">{cashier.name}</p>
+                              <p className="text-xs text-slate-500">
+                                {cashier.joinedAt ? formatDateTime(cashier.joinedAt) : t('shifts.registers.notJoined')}
+                                {cashier.leftAt && ` – ${formatDateTime(cashier.leftAt)}`}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold text-emerald-600">{formatTotal(cashier.totalSales)}</p>
+                              <p className="text-xs text-slate-500">
+                                {t('shifts.registers.cashierTransactions', { count: cashier.transactionCount })}
+                                {cashier.totalRefunds !== null && cashier.totalRefunds > 0 && ` • ${t('shifts.registers.cashierRefunds', { amount: formatCurrency(cashier.totalRefunds) })}`}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Cash Movements */}
                   {shiftDetailsData?.movements && shiftDetailsData.movements.length > 0 && (
                     <div>
@@ -711,8 +1177,11 @@ export default function ShiftsPage() {
                                 <ArrowUpCircle className="h-5 w-5 text-red-500" />
                               )}
                               <div>
-                                <p className="font-medium capitalize">{movement.type.replace('_', ' ')}</p>
+                                <p className="font-medium">{t(`shifts.movements.types.${movement.type}`)}</p>
                                 {movement.reason && <p className="text-xs text-slate-500">{movement.reason}</p>}
+                                {movement.approved_by_name && (
+                                  <p className="text-xs text-slate-500">{t('shifts.movements.approvedBy')} {movement.approved_by_name}</p>
+                                )}
                               </div>
                             </div>
                             <div className="text-right">
@@ -740,8 +1209,12 @@ export default function ShiftsPage() {
               )}
             </div>
 
-            <div className="p-4 border-t bg-slate-50 flex-shrink-0">
-              <Button variant="outline" onClick={() => setShowDetailsModal(false)} className="w-full">
+            <div className="p-4 border-t bg-slate-50 flex-shrink-0 flex gap-3">
+              <Button variant="outline" onClick={() => printShiftReport(selectedShift.id)} className="flex-1 gap-2">
+                <FileText className="h-4 w-4" />
+                {selectedShift.status === 'open' ? t('shifts.cashUp.xReport') : t('shifts.cashUp.zReport')}
+              </Button>
+              <Button variant="outline" onClick={() => setShowDetailsModal(false)} className="flex-1">
                 Close
               </Button>
             </div>
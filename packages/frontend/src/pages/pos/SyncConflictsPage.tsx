@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { useOfflineStore } from '@/stores/offline';
+import { listOutbox, OutboxSale } from '@/lib/offline-db';
+import { toast } from '@/hooks/use-toast';
+import { playSuccessSound, playErrorSound } from '@/lib/sounds';
+import {
+  Loader2, CheckCircle, AlertTriangle, UploadCloud, WifiOff, X, Clock
+} from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+type ConflictType = 'negative_stock' | 'price_changed' | 'product_inactive' | 'total_mismatch';
+
+interface ConflictItem {
+  productId: string;
+  name: string;
+  requested?: number;
+  available?: number;
+  soldAt?: number;
+  currentPrice?: number;
+}
+
+interface SyncConflict {
+  id: string;
+  store_name?: string;
+  receipt_id: string;
+  receipt_number?: string;
+  total_amount?: number;
+  client_created_at?: string;
+  conflict_type: ConflictType;
+  details: {
+    receiptNumber?: string;
+    items?: ConflictItem[];
+    registerTotal?: number;
+    serverTotal?: number | null;
+    amountDue?: number;
+    paid?: number;
+  };
+  status: 'open' | 'resolved';
+  cashier_name?: string;
+  resolved_by_name?: string;
+  resolution_notes?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+export default function SyncConflictsPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { tenant, currentStoreId } = useAuthStore();
+  const { isOnline, syncing, pendingCount, failedCount, syncOutbox } = useOfflineStore();
+  const currency = tenant?.currencyCode;
+
+  const [statusFilter, setStatusFilter] = useState<'open' | 'resolved' | 'all'>('open');
+  const [resolving, setResolving] = useState<SyncConflict | null>(null);
+  const [notes, setNotes] = useState('');
+  const [outbox, setOutbox] = useState<OutboxSale[]>([]);
+
+  const typeLabels: Record<ConflictType, string> = {
+    negative_stock: t('pos.syncConflicts.negativeStock'),
+    price_changed: t('pos.syncConflicts.priceChanged'),
+    product_inactive: t('pos.syncConflicts.productInactive'),
+    total_mismatch: t('pos.syncConflicts.totalMismatch'),
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['pos-sync-conflicts', statusFilter, currentStoreId],
+    queryFn: async () => {
+      const res = await api.get('/pos/sync-conflicts', { params: { status: statusFilter, storeId: currentStoreId } });
+      return res.data;
+    },
+  });
+  const conflicts: SyncConflict[] = data?.conflicts || [];
+
+  // This register's own queue; refreshed whenever a sync changes the counts
+  useEffect(() => {
+    listOutbox().then(setOutbox);
+  }, [pendingCount, failedCount]);
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, notes }: { id: string; notes: string }) => {
+      const res = await api.post(`/pos/sync-conflicts/${id}/resolve`, { notes });
+      return res.data;
+    },
+    onSuccess: () => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['pos-sync-conflicts'] });
+      setResolving(null);
+      setNotes('');
+      toast({ title: t('pos.syncConflicts.resolved'), description: t('pos.syncConflicts.resolvedDescription') });
+    },
+    onError: (error: any) => {
+      playErrorSound();
+      toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+    },
+  });
+
+  const handleSync = async () => {
+    const result = await syncOutbox();
+    queryClient.invalidateQueries({ queryKey: ['pos-sync-conflicts'] });
+    if (result.failed > 0) {
+      playErrorSound();
+      toast({
+        title: t('pos.offline.failedTitle'),
+        description: t('pos.offline.failedDescription', { count: result.failed }),
+        variant: 'destructive',
+      });
+    } else if (result.synced > 0) {
+      playSuccessSound();
+      toast({
+        title: t('pos.offline.syncedTitle'),
+        description: t('pos.offline.syncedDescription', { count: result.synced }),
+      });
+    }
+  };
+
+  const renderItem = (type: ConflictType, item: ConflictItem) => {
+    switch (type) {
+      case 'negative_stock':
+        return `${t('pos.syncConflicts.sold')} ${item.requested} · ${t('pos.syncConflicts.onHand')} ${item.available}`;
+      case 'price_changed':
+        return `${t('pos.syncConflicts.soldAt')} ${formatCurrency(item.soldAt || 0, currency)} · ${t('pos.syncConflicts.currentPrice')} ${formatCurrency(item.currentPrice || 0, currency)}`;
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{t('pos.syncConflicts.title')}</h1>
+          <p className="text-muted-foreground">{t('pos.syncConflicts.description')}</p>
+        </div>
+        <Button onClick={handleSync} disabled={syncing || !isOnline || outbox.length === 0}>
+          {syncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UploadCloud className="h-4 w-4 mr-2" />}
+          {t('pos.offline.syncNow')}
+        </Button>
+      </div>
+
+      {/* Local outbox */}
+      {(outbox.length > 0 || !isOnline) && (
+        <div className="bg-white rounded-xl border shadow-sm">
+          <div className="p-4 border-b flex items-center gap-2">
+            {isOnline ? <Clock className="h-4 w-4 text-blue-600" /> : <WifiOff className="h-4 w-4 text-slate-500" />}
+            <p className="font-medium">{t('pos.syncConflicts.outbox')}</p>
+            <span className="px-2 py-0.5 bg-slate-100 text-slate-700 rounded-full text-xs">{outbox.length}</span>
+          </div>
+          <div className="divide-y">
+            {outbox.map((sale) => (
+              <div key={sale.idempotencyKey} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{sale.provisionalNumber}</p>
+                    {sale.status === 'failed' ? (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium"><AlertTriangle className="h-3 w-3" /> {t('pos.syncConflicts.failed')}</span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium"><Clock className="h-3 w-3" /> {t('pos.syncConflicts.pending')}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{new Date(sale.createdAt).toLocaleString()}</p>
+                  {sale.lastError && <p className="text-xs text-red-600">{sale.lastError}</p>}
+                </div>
+                <p className="font-semibold">{formatCurrency(sale.total, currency)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="flex gap-2 border-b">
+        {(['open', 'resolved', 'all'] as const).map((status) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+              statusFilter === status ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {t(`pos.syncConflicts.${status}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          </div>
+        ) : conflicts.length === 0 ? (
+          <div className="bg-white rounded-xl border shadow-sm p-8 text-center text-muted-foreground">
+            <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('pos.syncConflicts.none')}</p>
+          </div>
+        ) : (
+          conflicts.map((conflict) => (
+            <div key={conflict.id} className="bg-white rounded-xl border shadow-sm">
+              <div className="p-4 border-b flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{conflict.receipt_number || conflict.details.receiptNumber}</p>
+                    <span className="inline-flex items-center gap-1 px-2 py-1 bg-orange-100 text-orange-700 rounded-full text-xs font-medium">
+                      <AlertTriangle className="h-3 w-3" /> {typeLabels[conflict.conflict_type] || conflict.conflict_type}
+                    </span>
+                    {conflict.status === 'resolved' && (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium">
+                        <CheckCircle className="h-3 w-3" /> {t('pos.syncConflicts.resolved')}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {conflict.store_name} · {conflict.cashier_name} · {formatDate(conflict.client_created_at || conflict.created_at)}
+                    {conflict.total_amount != null && ` · ${formatCurrency(Number(conflict.total_amount), currency)}`}
+                  </p>
+                  {conflict.status === 'resolved' && (
+                    <p className="text-xs text-muted-foreground">
+                      {conflict.resolved_by_name}{conflict.resolution_notes && ` · ${conflict.resolution_notes}`}
+                    </p>
+                  )}
+                </div>
+                {conflict.status === 'open' && (
+                  <Button size="sm" variant="outline" onClick={() => { setNotes(''); setResolving(conflict); }}>
+                    {t('pos.syncConflicts.resolve')}
+                  </Button>
+                )}
+              </div>
+              {conflict.conflict_type === 'total_mismatch' && (
+                <div className="px-4 py-2 text-sm text-muted-foreground">
+                  {t('pos.syncConflicts.registerTotal')} {formatCurrency(conflict.details.registerTotal || 0, currency)}
+                  {conflict.details.serverTotal != null && ` · ${t('pos.syncConflicts.serverTotal')} ${formatCurrency(conflict.details.serverTotal, currency)}`}
+                  {` · ${t('pos.syncConflicts.paid')} ${formatCurrency(conflict.details.paid || 0, currency)} / ${formatCurrency(conflict.details.amountDue || 0, currency)}`}
+                </div>
+              )}
+              {(conflict.details.items || []).length > 0 && (
+                <div className="divide-y">
+                  {conflict.details.items!.map((item) => (
+                    <div key={item.productId} className="px-4 py-2 flex items-center justify-between text-sm">
+                      <span className="font-medium">{item.name}</span>
+                      <span className="text-muted-foreground">{renderItem(conflict.conflict_type, item)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Resolve Modal */}
+      {resolving && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="p-4 border-b flex items-center justify-between">
+              <h2 className="text-lg font-semibold">{t('pos.syncConflicts.resolve')}</h2>
+              <button onClick={() => setResolving(null)} className="p-1 hover:bg-slate-100 rounded">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {resolving.receipt_number} · {typeLabels[resolving.conflict_type]}
+              </p>
+              <div>
+                <label className="text-sm font-medium">{t('pos.syncConflicts.notes')}</label>
+                <Input
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder={t('pos.syncConflicts.notesPlaceholder')}
+                />
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setResolving(null)}>Cancel</Button>
+              <Button
+                onClick={() => resolveMutation.mutate({ id: resolving.id, notes })}
+                disabled={resolveMutation.isPending}
+              >
+                {resolveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('pos.syncConflicts.resolve')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
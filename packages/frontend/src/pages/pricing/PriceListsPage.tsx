@@ -0,0 +1,500 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, ListOrdered, Search, Edit2, Trash2, AlertTriangle } from 'lucide-react';
+
+interface PriceList {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  store_id?: string;
+  store_name?: string;
+  channel?: string;
+  customer_group_id?: string;
+  customer_group_name?: string;
+  priority: number;
+  start_date?: string;
+  end_date?: string;
+  is_active: boolean;
+  item_count: number;
+}
+
+interface PriceListItem {
+  id: string;
+  product_id: string;
+  sku: string;
+  product_name: string;
+  sell_price: number;
+  price: number;
+  min_qty: number;
+}
+
+interface ProductOption {
+  id: string;
+  sku: string;
+  name: string;
+  sell_price: number;
+}
+
+const emptyForm = {
+  code: '', name: '', description: '', storeId: '', channel: '', customerGroupId: '',
+  priority: 0, startDate: '', endDate: '', isActive: true,
+};
+
+const emptyItem = { productId: '', productName: '', price: '', minQty: '1' };
+
+export default function PriceListsPage() {
+  const [showModal, setShowModal] = useState(false);
+  const [editingList, setEditingList] = useState<PriceList | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<PriceList | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [itemForm, setItemForm] = useState(emptyItem);
+  const [productSearch, setProductSearch] = useState('');
+  const queryClient = useQueryClient();
+  const { tenant, stores } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['price-lists', showInactive],
+    queryFn: async () => {
+      const res = await api.get('/pricing/price-lists', { params: { includeInactive: showInactive } });
+      return res.data;
+    },
+  });
+
+  const { data: selectedList, isLoading: itemsLoading } = useQuery({
+    queryKey: ['price-list', selectedId],
+    queryFn: async () => {
+      const res = await api.get(`/pricing/price-lists/${selectedId}`);
+      return res.data;
+    },
+    enabled: !!selectedId,
+  });
+
+  const { data: groupsData } = useQuery({
+    queryKey: ['customer-groups'],
+    queryFn: async () => {
+      const res = await api.get('/customers/groups');
+      return res.data;
+    },
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ['price-list-products', productSearch],
+    queryFn: async () => {
+      const res = await api.get('/products', { params: { search: productSearch } });
+      return res.data;
+    },
+    enabled: productSearch.length > 1,
+  });
+
+  const priceLists: PriceList[] = data?.priceLists || [];
+  const items: PriceListItem[] = selectedList?.items || [];
+  const groups: { id: string; name: string; is_active: boolean }[] = groupsData?.groups || [];
+  const productMatches: ProductOption[] = (productsData?.products || []).slice(0, 8);
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['price-lists'] });
+    queryClient.invalidateQueries({ queryKey: ['price-list'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) => {
+      const res = id ? await api.put(`/pricing/price-lists/${id}`, data) : await api.post('/pricing/price-lists', data);
+      return res.data;
+    },
+    onSuccess: (saved: { id: string }) => {
+      invalidate();
+      toast({ title: editingList ? 'Price list updated' : 'Price list created', description: 'Changes apply to new POS carts.' });
+      closeModal();
+      setSelectedId(saved.id);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/pricing/price-lists/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      if (deleteConfirm?.id === selectedId) setSelectedId(null);
+      setDeleteConfirm(null);
+      toast({ title: 'Price list deleted', description: 'Its prices no longer apply.' });
+    },
+    onError,
+  });
+
+  const itemMutation = useMutation({
+    mutationFn: async (data: { productId: string; price: number; minQty: number }) => {
+      const res = await api.put(`/pricing/price-lists/${selectedId}/items`, data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setItemForm(emptyItem);
+    },
+    onError,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const res = await api.delete(`/pricing/price-lists/${selectedId}/items/${itemId}`);
+      return res.data;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingList(null);
+    setFormData(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (list: PriceList) => {
+    setEditingList(list);
+    setFormData({
+      code: list.code,
+      name: list.name,
+      description: list.description || '',
+      storeId: list.store_id || '',
+      channel: list.channel || '',
+      customerGroupId: list.customer_group_id || '',
+      priority: list.priority,
+      startDate: list.start_date ? list.start_date.slice(0, 10) : '',
+      endDate: list.end_date ? list.end_date.slice(0, 10) : '',
+      isActive: list.is_active,
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingList(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({ id: editingList?.id, data: formData });
+  };
+
+  const addItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!itemForm.productId) return;
+    itemMutation.mutate({
+      productId: itemForm.productId,
+      price: parseFloat(itemForm.price) || 0,
+      minQty: parseFloat(itemForm.minQty) || 1,
+    });
+  };
+
+  const describeScope = (list: PriceList) => [
+    list.store_name || 'All stores',
+    list.channel ? list.channel.toUpperCase() : 'All channels',
+    list.customer_group_name,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Price Lists</h1>
+          <p className="text-muted-foreground">Store, channel and customer group prices with quantity breaks</p>
+        </div>
+        <Button onClick={openCreate}><Plus className="h-4 w-4 mr-2" /> New Price List</Button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+        Show inactive
+      </label>
+
+      <div className="grid lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-xl border shadow-sm overflow-hidden">
+          {isLoading ? (
+            <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+          ) : priceLists.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <ListOrdered className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No price lists yet</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {priceLists.map((list) => (
+                <div
+                  key={list.id}
+                  onClick={() => setSelectedId(list.id)}
+                  className={cn(
+                    'p-4 cursor-pointer hover:bg-slate-50',
+                    selectedId === list.id && 'bg-primary/5 border-l-2 border-primary',
+                    !list.is_active && 'opacity-50'
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{list.name}</p>
+                      <p className="text-xs text-muted-foreground">{list.code} · priority {list.priority}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{describeScope(list)}</p>
+                      {(list.start_date || list.end_date) && (
+                        <p className="text-xs text-muted-foreground">
+                          {list.start_date ? formatDate(list.start_date) : '…'} – {list.end_date ? formatDate(list.end_date) : '…'}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className="text-xs text-muted-foreground mr-1">{list.item_count} prices</span>
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); openEdit(list); }}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={(e) => { e.stopPropagation(); setDeleteConfirm(list); }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-3 bg-white rounded-xl border shadow-sm">
+          {!selectedId ? (
+            <div className="p-8 text-center text-muted-foreground">Select a price list to edit its prices</div>
+          ) : itemsLoading ? (
+            <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+          ) : (
+            <>
+              <div className="p-4 border-b">
+                <h2 className="font-semibold">{selectedList?.name}</h2>
+                <p className="text-xs text-muted-foreground">
+                  The highest quantity break the cart reaches applies. Customer group lists win over general lists.
+                </p>
+              </div>
+              <form onSubmit={addItem} className="p-4 border-b grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-6 space-y-1 relative">
+                  <label className="text-xs font-medium">Product</label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search products..."
+                      className="pl-10"
+                      value={itemForm.productId ? itemForm.productName : productSearch}
+                      onChange={(e) => { setItemForm({ ...itemForm, productId: '', productName: '' }); setProductSearch(e.target.value); }}
+                    />
+                  </div>
+                  {!itemForm.productId && productMatches.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full bg-white border rounded-md shadow-lg max-h-56 overflow-y-auto">
+                      {productMatches.map(p => (
+                        <button
+                          key={p.id}
+                          type="button"
+                          className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex justify-between"
+                          onClick={() => {
+                            setItemForm({ ...itemForm, productId: p.id, productName: p.name, price: String(Number(p.sell_price)) });
+                            setProductSearch('');
+                          }}
+                        >
+                          <span>{p.name} <span className="text-xs text-muted-foreground">{p.sku}</span></span>
+                          <span className="text-xs text-muted-foreground">{formatCurrency(Number(p.sell_price), currency)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <label className="text-xs font-medium">Min qty</label>
+                  <Input type="number" min="1" step="any" value={itemForm.minQty} onChange={(e) => setItemForm({ ...itemForm, minQty: e.target.value })} />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <label className="text-xs font-medium">Price</label>
+                  <Input type="number" min="0" step="0.01" value={itemForm.price} onChange={(e) => setItemForm({ ...itemForm, price: e.target.value })} required />
+                </div>
+                <div className="col-span-2">
+                  <Button type="submit" className="w-full" disabled={!itemForm.productId || itemMutation.isPending}>
+                    {itemMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Set'}
+                  </Button>
+                </div>
+              </form>
+              {items.length === 0 ? (
+                <div className="p-8 text-center text-muted-foreground text-sm">No prices in this list yet</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 border-b">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Product</th>
+                      <th className="text-right p-3 font-medium">Min qty</th>
+                      <th className="text-right p-3 font-medium">Base price</th>
+                      <th className="text-right p-3 font-medium">List price</th>
+                      <th className="p-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {items.map((item) => {
+                      const base = Number(item.sell_price);
+                      const price = Number(item.price);
+                      return (
+                        <tr key={item.id} className="hover:bg-slate-50">
+                          <td className="p-3">
+                            <p className="font-medium">{item.product_name}</p>
+                            <p className="text-xs text-muted-foreground">{item.sku}</p>
+                          </td>
+                          <td className="p-3 text-right">{Number(item.min_qty)}+</td>
+                          <td className="p-3 text-right text-muted-foreground">{formatCurrency(base, currency)}</td>
+                          <td className="p-3 text-right font-medium">
+                            {formatCurrency(price, currency)}
+                            {base > 0 && price !== base && (
+                              <p className={cn('text-xs font-normal', price < base ? 'text-emerald-600' : 'text-amber-600')}>
+                                {price < base ? '-' : '+'}{Math.abs((price - base) / base * 100).toFixed(1)}%
+                              </p>
+                            )}
+                          </td>
+                          <td className="p-3 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => removeItemMutation.mutate(item.id)}
+                              disabled={removeItemMutation.isPending}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{editingList ? 'Edit Price List' : 'New Price List'}</h2>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code *</label>
+                  <Input placeholder="WHOLESALE" value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })} required />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} required />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <Input value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Store</label>
+                  <select value={formData.storeId} onChange={(e) => setFormData({ ...formData, storeId: e.target.value })} className="h-10 w-full border rounded-md px-2 text-sm">
+                    <option value="">All stores</option>
+                    {stores.map(store => <option key={store.id} value={store.id}>{store.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Channel</label>
+                  <select value={formData.channel} onChange={(e) => setFormData({ ...formData, channel: e.target.value })} className="h-10 w-full border rounded-md px-2 text-sm">
+                    <option value="">All channels</option>
+                    <option value="pos">POS</option>
+                    <option value="online">Online</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Customer group</label>
+                  <select value={formData.customerGroupId} onChange={(e) => setFormData({ ...formData, customerGroupId: e.target.value })} className="h-10 w-full border rounded-md px-2 text-sm">
+                    <option value="">Everyone</option>
+                    {groups.filter(g => g.is_active || g.id === formData.customerGroupId).map(group => (
+                      <option key={group.id} value={group.id}>{group.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Priority</label>
+                  <Input type="number" value={formData.priority} onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Starts</label>
+                  <Input type="date" value={formData.startDate} onChange={(e) => setFormData({ ...formData, startDate: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Ends</label>
+                  <Input type="date" value={formData.endDate} onChange={(e) => setFormData({ ...formData, endDate: e.target.value })} />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={formData.isActive} onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })} />
+                Active
+              </label>
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingList ? 'Save Changes' : 'Create Price List'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md mx-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-12 w-12 rounded-full bg-red-100 flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-lg">Delete Price List?</h3>
+                <p className="text-muted-foreground text-sm">All {deleteConfirm.item_count} prices in it are removed.</p>
+              </div>
+            </div>
+            <p className="mb-6">Delete <strong>{deleteConfirm.name}</strong>? Untick Active instead to pause it.</p>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setDeleteConfirm(null)}>Cancel</Button>
+              <Button variant="destructive" className="flex-1" onClick={() => deleteMutation.mutate(deleteConfirm.id)} disabled={deleteMutation.isPending}>
+                {deleteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,820 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, Tag, Search, Edit2, Trash2, AlertTriangle, BarChart3 } from 'lucide-react';
+
+type PromotionType = 'percent_off' | 'fixed_off' | 'buy_x_get_y' | 'bundle' | 'coupon';
+
+interface PromotionRules {
+  buyQty?: number;
+  getQty?: number;
+  getProducts?: string[];
+  getDiscountPercent?: number;
+  bundleItems?: { productId: string; quantity: number }[];
+  bundlePrice?: number;
+  discountType?: 'percent' | 'fixed';
+}
+
+interface Promotion {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  rules: PromotionRules;
+  discount_value?: number;
+  max_discount?: number;
+  min_purchase?: number;
+  applicable_products: string[];
+  applicable_categories: string[];
+  applicable_stores: string[];
+  customer_segment_id?: string | null;
+  start_date?: string;
+  end_date?: string;
+  usage_limit?: number;
+  usage_count: number;
+  is_combinable: boolean;
+  is_active: boolean;
+}
+
+interface PromotionPerformance {
+  promotionId: string;
+  code: string;
+  name: string;
+  type: PromotionType;
+  isActive: boolean;
+  usageCount: number;
+  usageLimit?: number;
+  receiptCount: number;
+  units: number;
+  discountTotal: number;
+  salesTotal: number;
+  avgBasket: number | null;
+  discountRate: number | null;
+}
+
+interface ProductOption {
+  id: string;
+  sku: string;
+  name: string;
+  sell_price: number;
+}
+
+const typeLabels: Record<PromotionType, string> = {
+  percent_off: 'Percent off',
+  fixed_off: 'Amount off',
+  buy_x_get_y: 'Buy X get Y',
+  bundle: 'Bundle price',
+  coupon: 'Coupon',
+};
+
+const emptyForm = {
+  code: '', name: '', description: '', type: 'percent_off' as PromotionType,
+  discountValue: '', maxDiscount: '', minPurchase: '', usageLimit: '',
+  couponDiscountType: 'percent' as 'percent' | 'fixed',
+  buyQty: 2, getQty: 1, getDiscountPercent: 100, getProducts: [] as string[],
+  bundleItems: [] as { productId: string; quantity: number }[], bundlePrice: '',
+  applicableProducts: [] as string[], applicableCategories: [] as string[], applicableStores: [] as string[],
+  customerSegmentId: '', startDate: '', endDate: '', isCombinable: false, isActive: true,
+};
+
+// Use local date formatting to respect Cairo timezone
+const formatLocalDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const periods = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' },
+  { days: 0, label: 'All time' },
+];
+
+function ProductPicker({ products, selected, onChange, placeholder }: {
+  products: ProductOption[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  placeholder: string;
+}) {
+  const [search, setSearch] = useState('');
+  const matches = search
+    ? products
+      .filter(p => !selected.includes(p.id))
+      .filter(p => `${p.name} ${p.sku}`.toLowerCase().includes(search.toLowerCase()))
+      .slice(0, 8)
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input placeholder={placeholder} className="pl-10" value={search} onChange={(e) => setSearch(e.target.value)} />
+        {matches.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full bg-white border rounded-md shadow-lg max-h-56 overflow-y-auto">
+            {matches.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50"
+                onClick={() => { onChange([...selected, p.id]); setSearch(''); }}
+              >
+                {p.name} <span className="text-xs text-muted-foreground">{p.sku}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(id => (
+            <span key={id} className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-slate-100 text-xs">
+              {products.find(p => p.id === id)?.name || id}
+              <button type="button" onClick={() => onChange(selected.filter(s => s !== id))}><X className="h-3 w-3" /></button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function PromotionsPage() {
+  const [activeTab, setActiveTab] = useState<'promotions' | 'performance'>('promotions');
+  const [showModal, setShowModal] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<Promotion | null>(null);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'active' | 'inactive' | 'all'>('active');
+  const [periodDays, setPeriodDays] = useState(30);
+  const [formData, setFormData] = useState(emptyForm);
+  const queryClient = useQueryClient();
+  const { tenant, stores, currentStoreId } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['promotions', search, status],
+    queryFn: async () => {
+      const res = await api.get('/promotions', { params: { search, status } });
+      return res.data;
+    },
+  });
+
+  const { data: performanceData, isLoading: performanceLoading } = useQuery({
+    queryKey: ['promotion-performance', periodDays, currentStoreId],
+    queryFn: async () => {
+      const startDate = periodDays
+        ? formatLocalDate(new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000))
+        : undefined;
+      const res = await api.get('/promotions/performance', { params: { startDate, storeId: currentStoreId } });
+      return res.data;
+    },
+    enabled: activeTab === 'performance',
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ['promotion-products'],
+    queryFn: async () => {
+      const res = await api.get('/products');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const res = await api.get('/categories');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const { data: segmentsData } = useQuery({
+    queryKey: ['customer-segments'],
+    queryFn: async () => {
+      const res = await api.get('/customers/segments');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const promotions: Promotion[] = data?.promotions || [];
+  const performance: PromotionPerformance[] = performanceData?.promotions || [];
+  const products: ProductOption[] = productsData?.products || [];
+  const categories: { id: string; name: string }[] = categoriesData?.categories || [];
+  const segments: { id: string; name: string }[] = segmentsData?.segments || [];
+  const productName = (id: string) => products.find(p => p.id === id)?.name || 'product';
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['promotions'] });
+    queryClient.invalidateQueries({ queryKey: ['promotion-performance'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await api.post('/promotions', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeModal();
+      toast({ title: 'Promotion created', description: 'The promotion is available at the POS within its dates.' });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const res = await api.put(`/promotions/${id}`, data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeModal();
+      toast({ title: 'Promotion updated', description: 'Changes saved successfully.' });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/promotions/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleteConfirm(null);
+      toast({ title: 'Promotion deactivated', description: 'It no longer applies to new sales.' });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingPromotion(null);
+    setFormData(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (promotion: Promotion) => {
+    const rules = promotion.rules || {};
+    setEditingPromotion(promotion);
+    setFormData({
+      ...emptyForm,
+      code: promotion.code,
+      name: promotion.name,
+      description: promotion.description || '',
+      type: promotion.type,
+      discountValue: promotion.discount_value != null ? String(Number(promotion.discount_value)) : '',
+      maxDiscount: promotion.max_discount != null ? String(Number(promotion.max_discount)) : '',
+      minPurchase: promotion.min_purchase != null ? String(Number(promotion.min_purchase)) : '',
+      usageLimit: promotion.usage_limit != null ? String(promotion.usage_limit) : '',
+      couponDiscountType: rules.discountType || 'fixed',
+      buyQty: rules.buyQty || emptyForm.buyQty,
+      getQty: rules.getQty || emptyForm.getQty,
+      getDiscountPercent: rules.getDiscountPercent ?? 100,
+      getProducts: rules.getProducts || [],
+      bundleItems: rules.bundleItems || [],
+      bundlePrice: rules.bundlePrice != null ? String(rules.bundlePrice) : '',
+      applicableProducts: promotion.applicable_products || [],
+      applicableCategories: promotion.applicable_categories || [],
+      applicableStores: promotion.applicable_stores || [],
+      customerSegmentId: promotion.customer_segment_id || '',
+      startDate: promotion.start_date ? formatLocalDate(new Date(promotion.start_date)) : '',
+      endDate: promotion.end_date ? formatLocalDate(new Date(promotion.end_date)) : '',
+      isCombinable: promotion.is_combinable,
+      isActive: promotion.is_active,
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingPromotion(null);
+    setFormData(emptyForm);
+  };
+
+  const buildRules = (): PromotionRules => {
+    switch (formData.type) {
+      case 'coupon':
+        return { discountType: formData.couponDiscountType };
+      case 'buy_x_get_y':
+        return {
+          buyQty: formData.buyQty,
+          getQty: formData.getQty,
+          getDiscountPercent: formData.getDiscountPercent,
+          getProducts: formData.getProducts,
+        };
+      case 'bundle':
+        return { bundleItems: formData.bundleItems, bundlePrice: Number(formData.bundlePrice) };
+      default:
+        return {};
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const usesValue = ['percent_off', 'fixed_off', 'coupon'].includes(formData.type);
+    const payload = {
+      code: formData.code,
+      name: formData.name,
+      description: formData.description,
+      type: formData.type,
+      rules: buildRules(),
+      discountValue: usesValue ? formData.discountValue : null,
+      maxDiscount: formData.maxDiscount,
+      minPurchase: formData.minPurchase,
+      usageLimit: formData.usageLimit ? parseInt(formData.usageLimit) : null,
+      applicableProducts: formData.type === 'bundle' ? [] : formData.applicableProducts,
+      applicableCategories: formData.type === 'bundle' ? [] : formData.applicableCategories,
+      applicableStores: formData.applicableStores,
+      customerSegmentId: formData.customerSegmentId || null,
+      startDate: formData.startDate ? new Date(`${formData.startDate}T00:00:00`).toISOString() : null,
+      endDate: formData.endDate ? new Date(`${formData.endDate}T23:59:59`).toISOString() : null,
+      isCombinable: formData.isCombinable,
+      isActive: formData.isActive,
+    };
+    if (editingPromotion) {
+      updateMutation.mutate({ id: editingPromotion.id, data: payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const toggle = (list: string[], id: string) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  const describeRule = (promotion: Promotion) => {
+    const rules = promotion.rules || {};
+    const value = Number(promotion.discount_value || 0);
+    switch (promotion.type) {
+      case 'percent_off':
+        return `${value}% off`;
+      case 'fixed_off':
+        return `${formatCurrency(value, currency)} off each`;
+      case 'coupon':
+        return rules.discountType === 'percent' ? `${value}% off cart` : `${formatCurrency(value, currency)} off cart`;
+      case 'buy_x_get_y':
+        return `Buy ${rules.buyQty} get ${rules.getQty} ${rules.getDiscountPercent === 100 || rules.getDiscountPercent == null ? 'free' : `${rules.getDiscountPercent}% off`}`;
+      case 'bundle':
+        return `${(rules.bundleItems || []).reduce((sum, i) => sum + i.quantity, 0)} items for ${formatCurrency(Number(rules.bundlePrice || 0), currency)}`;
+    }
+  };
+
+  const storeNames = (ids: string[]) => ids.length === 0
+    ? 'All stores'
+    : ids.map(id => stores.find(s => s.id === id)?.name || 'Store').join(', ');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Promotions</h1>
+          <p className="text-muted-foreground">Discounts, multi-buys, bundles and coupons applied at the POS</p>
+        </div>
+        <Button onClick={openCreate}><Plus className="h-4 w-4 mr-2" /> New Promotion</Button>
+      </div>
+
+      <div className="flex gap-2 border-b">
+        {([['promotions', 'Promotions', Tag], ['performance', 'Performance', BarChart3]] as const).map(([id, label, Icon]) => (
+          <button
+            key={id}
+            onClick={() => setActiveTab(id)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px',
+              activeTab === id ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <Icon className="h-4 w-4" /> {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'promotions' ? (
+        <>
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input placeholder="Search by name or code..." className="pl-10" value={search} onChange={(e) => setSearch(e.target.value)} />
+            </div>
+            <select value={status} onChange={(e) => setStatus(e.target.value as typeof status)} className="h-9 border rounded-md px-2 text-sm">
+              <option value="active">Active</option>
+              <option value="inactive">Ended / inactive</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+
+          <div className="bg-white rounded-xl border shadow-sm overflow-x-auto">
+            {isLoading ? (
+              <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+            ) : promotions.length === 0 ? (
+              <div className="p-8 text-center text-muted-foreground">
+                <Tag className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No promotions found</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 border-b">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Promotion</th>
+                    <th className="text-left p-3 font-medium">Rule</th>
+                    <th className="text-left p-3 font-medium">Stores</th>
+                    <th className="text-left p-3 font-medium">Dates</th>
+                    <th className="text-right p-3 font-medium">Used</th>
+                    <th className="p-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {promotions.map((promotion) => (
+                    <tr key={promotion.id} className={promotion.is_active ? 'hover:bg-slate-50' : 'opacity-50'}>
+                      <td className="p-3">
+                        <p className="font-medium">{promotion.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {promotion.code} · {typeLabels[promotion.type]}
+                          {promotion.is_combinable && ' · combinable'}
+                        </p>
+                      </td>
+                      <td className="p-3">
+                        {describeRule(promotion)}
+                        {promotion.min_purchase != null && Number(promotion.min_purchase) > 0 && (
+                          <p className="text-xs text-muted-foreground">min {formatCurrency(Number(promotion.min_purchase), currency)}</p>
+                        )}
+                      </td>
+                      <td className="p-3 text-muted-foreground">{storeNames(promotion.applicable_stores || [])}</td>
+                      <td className="p-3 text-muted-foreground">
+                        {promotion.start_date ? formatDate(promotion.start_date) : 'Now'} – {promotion.end_date ? formatDate(promotion.end_date) : 'No end'}
+                      </td>
+                      <td className="p-3 text-right">
+                        {promotion.usage_count}{promotion.usage_limit ? ` / ${promotion.usage_limit}` : ''}
+                      </td>
+                      <td className="p-3">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(promotion)}><Edit2 className="h-4 w-4" /></Button>
+                          {promotion.is_active && (
+                            <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" onClick={() => setDeleteConfirm(promotion)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Period</span>
+            <select value={periodDays} onChange={(e) => setPeriodDays(parseInt(e.target.value))} className="h-9 border rounded-md px-2">
+              {periods.map(p => <option key={p.days} value={p.days}>{p.label}</option>)}
+            </select>
+            <span className="text-muted-foreground ml-2">{stores.find(s => s.id === currentStoreId)?.name}</span>
+          </div>
+
+          {performanceData?.summary && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">Receipts with promotions</p>
+                <p className="text-2xl font-semibold">{performanceData.summary.receiptCount}</p>
+              </div>
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">Discount given</p>
+                <p className="text-2xl font-semibold">{formatCurrency(performanceData.summary.discountTotal, currency)}</p>
+              </div>
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">Promoted sales</p>
+                <p className="text-2xl font-semibold">{formatCurrency(performanceData.summary.salesTotal, currency)}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl border shadow-sm overflow-x-auto">
+            {performanceLoading ? (
+              <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+            ) : performance.length === 0 ? (
+              <div className="p-8 text-center text-muted-foreground">
+                <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No promotion sales in this period</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 border-b">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Promotion</th>
+                    <th className="text-right p-3 font-medium">Receipts</th>
+                    <th className="text-right p-3 font-medium">Units</th>
+                    <th className="text-right p-3 font-medium">Discount</th>
+                    <th className="text-right p-3 font-medium">Sales</th>
+                    <th className="text-right p-3 font-medium">Avg basket</th>
+                    <th className="text-right p-3 font-medium">Discount rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {performance.map((row) => (
+                    <tr key={row.promotionId} className="hover:bg-slate-50">
+                      <td className="p-3">
+                        <p className="font-medium">{row.name}</p>
+                        <p className="text-xs text-muted-foreground">{row.code} · {typeLabels[row.type]}</p>
+                      </td>
+                      <td className="p-3 text-right">{row.receiptCount}</td>
+                      <td className="p-3 text-right">{row.units}</td>
+                      <td className="p-3 text-right text-red-600">{formatCurrency(row.discountTotal, currency)}</td>
+                      <td className="p-3 text-right">{formatCurrency(row.salesTotal, currency)}</td>
+                      <td className="p-3 text-right">{row.avgBasket != null ? formatCurrency(row.avgBasket, currency) : '-'}</td>
+                      <td className="p-3 text-right">{row.discountRate != null ? `${row.discountRate.toFixed(1)}%` : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{editingPromotion ? 'Edit Promotion' : 'New Promotion'}</h2>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code *</label>
+                  <Input placeholder="SUMMER10" value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })} required />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} required />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <Input value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Type</label>
+                <div className="grid grid-cols-5 gap-2">
+                  {(Object.keys(typeLabels) as PromotionType[]).map(type => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, type })}
+                      className={cn(
+                        'px-2 py-2 rounded-md border text-xs font-medium',
+                        formData.type === type ? 'border-primary bg-primary/10 text-primary' : 'hover:bg-slate-50'
+                      )}
+                    >
+                      {typeLabels[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-lg border bg-slate-50 p-4 space-y-4">
+                {formData.type === 'percent_off' && (
+                  <div className="space-y-2 max-w-xs">
+                    <label className="text-sm font-medium">Percent off each item *</label>
+                    <Input type="number" min="0" max="100" step="0.01" value={formData.discountValue} onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })} required />
+                  </div>
+                )}
+                {formData.type === 'fixed_off' && (
+                  <div className="space-y-2 max-w-xs">
+                    <label className="text-sm font-medium">Amount off each item *</label>
+                    <Input type="number" min="0" step="0.01" value={formData.discountValue} onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })} required />
+                  </div>
+                )}
+                {formData.type === 'coupon' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Discount</label>
+                      <select
+                        value={formData.couponDiscountType}
+                        onChange={(e) => setFormData({ ...formData, couponDiscountType: e.target.value as 'percent' | 'fixed' })}
+                        className="h-10 w-full border rounded-md px-2 text-sm bg-white"
+                      >
+                        <option value="percent">Percent of cart</option>
+                        <option value="fixed">Fixed amount</option>
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">{formData.couponDiscountType === 'percent' ? 'Percent *' : 'Amount *'}</label>
+                      <Input type="number" min="0" step="0.01" value={formData.discountValue} onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })} required />
+                    </div>
+                    <p className="col-span-2 text-xs text-muted-foreground">The cashier enters the code at the POS.</p>
+                  </div>
+                )}
+                {formData.type === 'buy_x_get_y' && (
+                  <>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Buy</label>
+                        <Input type="number" min="1" value={formData.buyQty} onChange={(e) => setFormData({ ...formData, buyQty: parseInt(e.target.value) || 1 })} />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Get</label>
+                        <Input type="number" min="1" value={formData.getQty} onChange={(e) => setFormData({ ...formData, getQty: parseInt(e.target.value) || 1 })} />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">At % off</label>
+                        <Input type="number" min="1" max="100" value={formData.getDiscountPercent} onChange={(e) => setFormData({ ...formData, getDiscountPercent: parseFloat(e.target.value) || 100 })} />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Reward products</label>
+                      <ProductPicker
+                        products={products}
+                        selected={formData.getProducts}
+                        onChange={(getProducts) => setFormData({ ...formData, getProducts })}
+                        placeholder="Leave empty to reward the cheapest qualifying items"
+                      />
+                    </div>
+                  </>
+                )}
+                {formData.type === 'bundle' && (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Bundle items</label>
+                      <ProductPicker
+                        products={products}
+                        selected={formData.bundleItems.map(i => i.productId)}
+                        onChange={(ids) => setFormData({
+                          ...formData,
+                          bundleItems: ids.map(productId => formData.bundleItems.find(i => i.productId === productId) || { productId, quantity: 1 }),
+                        })}
+                        placeholder="Add a product to the bundle..."
+                      />
+                      {formData.bundleItems.map(item => (
+                        <div key={item.productId} className="flex items-center gap-3 text-sm">
+                          <span className="flex-1">{productName(item.productId)}</span>
+                          <Input
+                            type="number"
+                            min="1"
+                            className="w-20 h-8"
+                            value={item.quantity}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              bundleItems: formData.bundleItems.map(i => i.productId === item.productId ? { ...i, quantity: parseInt(e.target.value) || 1 } : i),
+                            })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2 max-w-xs">
+                      <label className="text-sm font-medium">Bundle price *</label>
+                      <Input type="number" min="0" step="0.01" value={formData.bundlePrice} onChange={(e) => setFormData({ ...formData, bundlePrice: e.target.value })} required />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {formData.type !== 'bundle' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Applies to</label>
+                  <ProductPicker
+                    products={products}
+                    selected={formData.applicableProducts}
+                    onChange={(applicableProducts) => setFormData({ ...formData, applicableProducts })}
+                    placeholder="All products, or pick products..."
+                  />
+                  {categories.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center gap-1.5 text-xs px-2 py-1 rounded border">
+                          <input
+                            type="checkbox"
+                            checked={formData.applicableCategories.includes(category.id)}
+                            onChange={() => setFormData({ ...formData, applicableCategories: toggle(formData.applicableCategories, category.id) })}
+                          />
+                          {category.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Stores</label>
+                <div className="flex flex-wrap gap-2">
+                  {stores.map(store => (
+                    <label key={store.id} className="flex items-center gap-1.5 text-xs px-2 py-1 rounded border">
+                      <input
+                        type="checkbox"
+                        checked={formData.applicableStores.includes(store.id)}
+                        onChange={() => setFormData({ ...formData, applicableStores: toggle(formData.applicableStores, store.id) })}
+                      />
+                      {store.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">No store ticked means every store.</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Audience</label>
+                <select
+                  value={formData.customerSegmentId}
+                  onChange={(e) => setFormData({ ...formData, customerSegmentId: e.target.value })}
+                  className="h-10 w-full border rounded-md px-2 text-sm bg-white"
+                >
+                  <option value="">Everyone</option>
+                  {segments.map(segment => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  A segment limits the promotion to its members; the customer must be on the sale.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Starts</label>
+                  <Input type="date" value={formData.startDate} onChange={(e) => setFormData({ ...formData, startDate: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Ends</label>
+                  <Input type="date" value={formData.endDate} onChange={(e) => setFormData({ ...formData, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Minimum spend</label>
+                  <Input type="number" min="0" step="0.01" value={formData.minPurchase} onChange={(e) => setFormData({ ...formData, minPurchase: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Max discount</label>
+                  <Input type="number" min="0" step="0.01" value={formData.maxDiscount} onChange={(e) => setFormData({ ...formData, maxDiscount: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Usage limit</label>
+                  <Input type="number" min="1" value={formData.usageLimit} onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={formData.isCombinable} onChange={(e) => setFormData({ ...formData, isCombinable: e.target.checked })} />
+                  Can combine with other combinable promotions
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={formData.isActive} onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })} />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
+                <Button type="submit" className="flex-1" disabled={createMutation.isPending || updateMutation.isPending}>
+                  {(createMutation.isPending || updateMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingPromotion ? 'Save Changes' : 'Create Promotion'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md mx-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-12 w-12 rounded-full bg-red-100 flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-lg">Deactivate Promotion?</h3>
+                <p className="text-muted-foreground text-sm">Past sales keep their discounts.</p>
+              </div>
+            </div>
+            <p className="mb-6">Stop <strong>{deleteConfirm.name}</strong> applying to new sales?</p>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setDeleteConfirm(null)}>Cancel</Button>
+              <Button variant="destructive" className="flex-1" onClick={() => deleteMutation.mutate(deleteConfirm.id)} disabled={deleteMutation.isPending}>
+                {deleteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Deactivate
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, Ticket, Search, Ban, Copy } from 'lucide-react';
+
+type VoucherStatus = 'active' | 'used' | 'expired' | 'cancelled';
+
+interface Voucher {
+  id: string;
+  code: string;
+  type: 'fixed' | 'percent';
+  value: number;
+  max_discount?: number;
+  min_purchase?: number;
+  customer_id?: string;
+  customer_name?: string;
+  usage_limit?: number;
+  usage_count: number;
+  expires_at?: string;
+  batch_name?: string;
+  status: VoucherStatus;
+  created_at: string;
+}
+
+interface CustomerOption {
+  id: string;
+  first_name: string;
+  last_name?: string;
+  phone?: string;
+}
+
+const statusStyles: Record<VoucherStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  used: 'bg-slate-100 text-slate-600',
+  expired: 'bg-amber-100 text-amber-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const emptyForm = {
+  mode: 'single' as 'single' | 'bulk' | 'segment',
+  code: '', count: '10', prefix: '', segmentId: '',
+  type: 'fixed' as 'fixed' | 'percent', value: '', maxDiscount: '', minPurchase: '',
+  usageLimit: '1', expiresAt: '', batchName: '',
+  customerId: '', customerName: '',
+};
+
+export default function VouchersPage() {
+  const [status, setStatus] = useState<VoucherStatus | 'all'>('active');
+  const [search, setSearch] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [generatedCodes, setGeneratedCodes] = useState<string[] | null>(null);
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['vouchers', status, search],
+    queryFn: async () => {
+      const res = await api.get('/vouchers', { params: { status, search: search || undefined } });
+      return res.data;
+    },
+  });
+
+  const { data: customersData } = useQuery({
+    queryKey: ['voucher-customers', customerSearch],
+    queryFn: async () => {
+      const res = await api.get('/customers', { params: { search: customerSearch } });
+      return res.data;
+    },
+    enabled: customerSearch.length > 1,
+  });
+
+  const { data: segmentsData } = useQuery({
+    queryKey: ['customer-segments'],
+    queryFn: async () => {
+      const res = await api.get('/customers/segments');
+      return res.data;
+    },
+    enabled: showModal,
+  });
+
+  const vouchers: Voucher[] = data?.vouchers || [];
+  const segments: { id: string; name: string }[] = segmentsData?.segments || [];
+  const customerMatches: CustomerOption[] = (customersData?.customers || []).slice(0, 6);
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (form: typeof emptyForm) => {
+      const terms = {
+        type: form.type,
+        value: parseFloat(form.value),
+        maxDiscount: form.maxDiscount ? parseFloat(form.maxDiscount) : undefined,
+        minPurchase: form.minPurchase ? parseFloat(form.minPurchase) : undefined,
+        usageLimit: parseInt(form.usageLimit) || 1,
+        expiresAt: form.expiresAt || undefined,
+        batchName: form.batchName || undefined,
+        customerId: form.customerId || undefined,
+      };
+      if (form.mode === 'segment') {
+        const res = await api.post('/vouchers/segment', {
+          ...terms, customerId: undefined, segmentId: form.segmentId, prefix: form.prefix || undefined,
+        });
+        return res.data.vouchers as Voucher[];
+      }
+      if (form.mode === 'bulk') {
+        const res = await api.post('/vouchers/bulk', { ...terms, count: parseInt(form.count), prefix: form.prefix || undefined });
+        return res.data.vouchers as Voucher[];
+      }
+      const res = await api.post('/vouchers', { ...terms, code: form.code || undefined });
+      return [res.data as Voucher];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['vouchers'] });
+      closeModal();
+      setGeneratedCodes(created.map(v => v.code));
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.post(`/vouchers/${id}/cancel`);
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vouchers'] });
+      toast({ title: 'Voucher cancelled', description: 'It can no longer be redeemed.' });
+    },
+    onError,
+  });
+
+  const closeModal = () => {
+    setShowModal(false);
+    setFormData(emptyForm);
+    setCustomerSearch('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(formData);
+  };
+
+  const copyCodes = async () => {
+    if (!generatedCodes) return;
+    await navigator.clipboard.writeText(generatedCodes.join('\n'));
+    toast({ title: 'Copied', description: `${generatedCodes.length} codes copied to the clipboard.` });
+  };
+
+  const describeValue = (voucher: Voucher) => voucher.type === 'percent'
+    ? `${Number(voucher.value)}%${voucher.max_discount ? ` (max ${formatCurrency(Number(voucher.max_discount), currency)})` : ''}`
+    : formatCurrency(Number(voucher.value), currency);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Vouchers</h1>
+          <p className="text-muted-foreground">Codes redeemed as a payment at the POS</p>
+        </div>
+        <Button onClick={() => setShowModal(true)}><Plus className="h-4 w-4 mr-2" /> New Vouchers</Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input placeholder="Search codes..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10" />
+        </div>
+        <select value={status} onChange={(e) => setStatus(e.target.value as VoucherStatus | 'all')} className="h-10 border rounded-md px-2 text-sm">
+          <option value="active">Active</option>
+          <option value="used">Used</option>
+          <option value="expired">Expired</option>
+          <option value="cancelled">Cancelled</option>
+          <option value="all">All</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl border shadow-sm">
+        {isLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : vouchers.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Ticket className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No vouchers found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[800px] text-sm">
+              <thead className="border-b bg-slate-50">
+                <tr>
+                  <th className="text-left p-4 font-medium">Code</th>
+                  <th className="text-left p-4 font-medium">Value</th>
+                  <th className="text-left p-4 font-medium">Customer</th>
+                  <th className="text-right p-4 font-medium">Uses</th>
+                  <th className="text-left p-4 font-medium">Expires</th>
+                  <th className="text-left p-4 font-medium">Batch</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="p-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {vouchers.map((voucher) => (
+                  <tr key={voucher.id} className="hover:bg-slate-50">
+                    <td className="p-4 font-mono font-medium">{voucher.code}</td>
+                    <td className="p-4">
+                      {describeValue(voucher)}
+                      {Number(voucher.min_purchase) > 0 && (
+                        <p className="text-xs text-muted-foreground">Min. {formatCurrency(Number(voucher.min_purchase), currency)}</p>
+                      )}
+                    </td>
+                    <td className="p-4 text-muted-foreground">{voucher.customer_name || 'Anyone'}</td>
+                    <td className="p-4 text-right">{voucher.usage_count} / {voucher.usage_limit ?? '∞'}</td>
+                    <td className="p-4 text-muted-foreground">{voucher.expires_at ? formatDate(voucher.expires_at) : '-'}</td>
+                    <td className="p-4 text-muted-foreground">{voucher.batch_name || '-'}</td>
+                    <td className="p-4">
+                      <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', statusStyles[voucher.status])}>
+                        {voucher.status}
+                      </span>
+                    </td>
+                    <td className="p-4 text-right">
+                      {voucher.status === 'active' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => cancelMutation.mutate(voucher.id)}
+                          disabled={cancelMutation.isPending}
+                          title="Cancel voucher"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">New Vouchers</h2>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                {(['single', 'bulk', 'segment'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, mode })}
+                    className={cn(
+                      'h-10 rounded-md border text-sm font-medium',
+                      formData.mode === mode ? 'border-primary bg-primary/5 text-primary' : 'hover:bg-slate-50'
+                    )}
+                  >
+                    {mode === 'single' ? 'Single voucher' : mode === 'bulk' ? 'Batch of codes' : 'Customer segment'}
+                  </button>
+                ))}
+              </div>
+
+              {formData.mode === 'single' ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code</label>
+                  <Input
+                    placeholder="Leave empty to generate"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              ) : formData.mode === 'segment' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Segment *</label>
+                    <select
+                      value={formData.segmentId}
+                      onChange={(e) => setFormData({ ...formData, segmentId: e.target.value })}
+                      className="h-10 w-full border rounded-md px-2 text-sm"
+                      required
+                    >
+                      <option value="">Choose a segment</option>
+                      {segments.map(segment => <option key={segment.id} value={segment.id}>{segment.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Code prefix</label>
+                    <Input placeholder="VIP-" value={formData.prefix} onChange={(e) => setFormData({ ...formData, prefix: e.target.value.toUpperCase() })} />
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Every customer in the segment gets their own code, only they can redeem it.
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">How many *</label>
+                    <Input type="number" min="1" max="500" value={formData.count} onChange={(e) => setFormData({ ...formData, count: e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Code prefix</label>
+                    <Input placeholder="EID-" value={formData.prefix} onChange={(e) => setFormData({ ...formData, prefix: e.target.value.toUpperCase() })} />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Type</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as 'fixed' | 'percent' })}
+                    className="h-10 w-full border rounded-md px-2 text-sm"
+                  >
+                    <option value="fixed">Fixed amount</option>
+                    <option value="percent">Percentage of the sale</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{formData.type === 'percent' ? 'Percent *' : 'Amount *'}</label>
+                  <Input type="number" min="0" step="0.01" value={formData.value} onChange={(e) => setFormData({ ...formData, value: e.target.value })} required />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {formData.type === 'percent' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Maximum amount</label>
+                    <Input type="number" min="0" step="0.01" value={formData.maxDiscount} onChange={(e) => setFormData({ ...formData, maxDiscount: e.target.value })} />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Minimum purchase</label>
+                  <Input type="number" min="0" step="0.01" value={formData.minPurchase} onChange={(e) => setFormData({ ...formData, minPurchase: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Uses per code</label>
+                  <Input type="number" min="1" value={formData.usageLimit} onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Valid until</label>
+                  <Input type="date" value={formData.expiresAt} onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Batch / campaign name</label>
+                <Input placeholder="Eid 2026" value={formData.batchName} onChange={(e) => setFormData({ ...formData, batchName: e.target.value })} />
+              </div>
+              {formData.mode !== 'segment' && (
+                <div className="space-y-2 relative">
+                  <label className="text-sm font-medium">Customer</label>
+                  {formData.customerId ? (
+                    <div className="flex items-center justify-between h-10 border rounded-md px-3 text-sm">
+                      <span>{formData.customerName}</span>
+                      <button type="button" onClick={() => setFormData({ ...formData, customerId: '', customerName: '' })} className="text-muted-foreground hover:text-foreground">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <Input placeholder="Anyone can redeem - search to bind to a customer" value={customerSearch} onChange={(e) => setCustomerSearch(e.target.value)} />
+                  )}
+                  {!formData.customerId && customerMatches.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full bg-white border rounded-md shadow-lg">
+                      {customerMatches.map(c => (
+                        <button
+                          key={c.id}
+                          type="button"
+                          className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50"
+                          onClick={() => {
+                            setFormData({ ...formData, customerId: c.id, customerName: `${c.first_name} ${c.last_name || ''}`.trim() });
+                            setCustomerSearch('');
+                          }}
+                        >
+                          {c.first_name} {c.last_name || ''} <span className="text-xs text-muted-foreground">{c.phone}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
+                <Button type="submit" className="flex-1" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {formData.mode === 'single' ? 'Create Voucher' : 'Generate Codes'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {generatedCodes && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{generatedCodes.length === 1 ? 'Voucher created' : `${generatedCodes.length} vouchers created`}</h2>
+              <button onClick={() => setGeneratedCodes(null)} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="max-h-64 overflow-y-auto bg-slate-50 rounded-md p-3 font-mono text-sm grid grid-cols-2 gap-1">
+                {generatedCodes.map(code => <span key={code}>{code}</span>)}
+              </div>
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1" onClick={copyCodes}><Copy className="h-4 w-4 mr-2" /> Copy</Button>
+                <Button className="flex-1" onClick={() => setGeneratedCodes(null)}>Done</Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
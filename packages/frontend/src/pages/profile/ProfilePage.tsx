@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/stores/auth';
 import {
-  User, Mail, Lock, Save, Eye, EyeOff, Shield, AlertCircle
+  User, Mail, Lock, Save, Eye, EyeOff, Shield, AlertCircle, KeyRound
 } from 'lucide-react';
 
 export default function ProfilePage() {
@@ -28,6 +28,12 @@ export default function ProfilePage() {
     confirmPassword: ''
   });
 
+  // Supervisor PIN form
+  const [pinForm, setPinForm] = useState({
+    currentPassword: '',
+    pin: ''
+  });
+
   // Email change mutation
   const emailMutation = useMutation({
     mutationFn: async (data: { newEmail: string; password: string }) => {
@@ -45,7 +51,7 @@ export default function ProfilePage() {
     onError: (error: any) => {
       toast({
         title: 'Error',
-        description: error.response?.data?.error?.message || 'Failed to change email',
+        description: error.response?.data?.error || 'Failed to change email',
         variant: 'destructive',
       });
     },
@@ -68,7 +74,29 @@ export default function ProfilePage() {
     onError: (error: any) => {
       toast({
         title: 'Error',
-        description: error.response?.data?.error?.message || 'Failed to change password',
+        description: error.response?.data?.error || 'Failed to change password',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // PIN mutation
+  const pinMutation = useMutation({
+    mutationFn: async (data: { currentPassword: string; pin: string }) => {
+      const res = await api.put('/auth/pin', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'PIN updated successfully.',
+      });
+      setPinForm({ currentPassword: '', pin: '' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to update PIN',
         variant: 'destructive',
       });
     },
@@ -103,6 +131,15 @@ export default function ProfilePage() {
     });
   };
 
+  const handlePinChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{4,8}$/.test(pinForm.pin)) {
+      toast({ title: 'Error', description: 'PIN must be 4 to 8 digits', variant: 'destructive' });
+      return;
+    }
+    pinMutation.mutate(pinForm);
+  };
+
   return (
     <div className="space-y-6 max-w-4xl">
       {/* Header */}
@@ -267,6 +304,51 @@ export default function ProfilePage() {
           </Button>
         </form>
       </div>
+
+      {/* Supervisor PIN */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <div className="p-4 border-b bg-muted/30 flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <h2 className="font-semibold">Supervisor PIN</h2>
+        </div>
+        <form onSubmit={handlePinChange} className="p-4 sm:p-6 space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">New PIN</label>
+            <Input
+              type="password"
+              inputMode="numeric"
+              placeholder="4 to 8 digits"
+              value={pinForm.pin}
+              onChange={(e) => setPinForm({ ...pinForm, pin: e.target.value })}
+              disabled={pinMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Current Password (for verification)</label>
+            <Input
+              type="password"
+              placeholder="Enter your current password"
+              value={pinForm.currentPassword}
+              onChange={(e) => setPinForm({ ...pinForm, currentPassword: e.target.value })}
+              disabled={pinMutation.isPending}
+            />
+          </div>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-blue-700">
+              Supervisors enter this PIN at the register to approve voids for cashiers who cannot void sales themselves.
+            </p>
+          </div>
+          <Button
+            type="submit"
+            disabled={pinMutation.isPending}
+            className="w-full sm:w-auto gap-2"
+          >
+            <Save className="h-4 w-4" />
+            {pinMutation.isPending ? 'Saving PIN...' : 'Save PIN'}
+          </Button>
+        </form>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,794 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { playSuccessSound, playErrorSound } from '@/lib/sounds';
+import {
+  Plus, Trash2, Search, Loader2, Check, ArrowLeft, FileText, X, Clock, CheckCircle,
+  Send, Truck, ClipboardList, PackageCheck, Pencil, Lock
+} from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+type POStatus = 'draft' | 'approved' | 'sent' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  cost_price: number | null;
+}
+
+interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface OrderItem {
+  id: string;
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitCost: number;
+  taxPercent: number;
+}
+
+interface OrderLine {
+  id: string;
+  product_id: string;
+  product_name: string;
+  sku: string;
+  quantity: number;
+  received_qty: number | null;
+  remaining_qty: number;
+  unit_cost: number;
+  tax_rate: number;
+  line_total: number;
+}
+
+interface GoodsReceipt {
+  id: string;
+  grn_number: string;
+  reference_number: string | null;
+  total_amount: number;
+  received_at: string;
+  received_by_name: string;
+}
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  store_id: string;
+  store_name: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: POStatus;
+  po_date: string;
+  expected_date: string | null;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  notes: string | null;
+  line_count?: number;
+  ordered_qty?: number;
+  received_qty?: number;
+  created_by_name: string;
+  approved_by_name?: string | null;
+  approved_at?: string | null;
+  sent_at?: string | null;
+  created_at: string;
+  lines?: OrderLine[];
+  grns?: GoodsReceipt[];
+}
+
+type OrderAction = 'approve' | 'send' | 'close' | 'cancel';
+
+export default function PurchaseOrdersPage() {
+  const { t } = useTranslation();
+  const [view, setView] = useState<'list' | 'form' | 'detail'>('list');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [showProducts, setShowProducts] = useState(false);
+  const [search, setSearch] = useState('');
+  const [receiving, setReceiving] = useState(false);
+  const [receiveQty, setReceiveQty] = useState<Record<string, number>>({});
+  const [supplierReference, setSupplierReference] = useState('');
+  const [downloading, setDownloading] = useState(false);
+
+  const queryClient = useQueryClient();
+  const { currentStoreId, tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data: ordersData, isLoading: ordersLoading } = useQuery({
+    queryKey: ['purchase-orders', currentStoreId, statusFilter],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/orders', {
+        params: { storeId: currentStoreId, status: statusFilter || undefined }
+      });
+      return res.data;
+    },
+  });
+
+  const orders: PurchaseOrder[] = ordersData?.orders || [];
+
+  const { data: orderData, isLoading: orderLoading } = useQuery({
+    queryKey: ['purchase-orders', 'detail', selectedId],
+    queryFn: async () => {
+      const res = await api.get(`/purchasing/orders/${selectedId}`);
+      return res.data;
+    },
+    enabled: !!selectedId && view === 'detail',
+  });
+
+  const order: PurchaseOrder | undefined = orderData?.order;
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['purchasing-suppliers'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/suppliers');
+      return res.data;
+    },
+  });
+
+  const suppliers: Supplier[] = suppliersData?.suppliers || [];
+
+  const { data: productsData, isLoading: productsLoading } = useQuery({
+    queryKey: ['products-for-po', search],
+    queryFn: async () => {
+      const res = await api.get('/products', { params: { search } });
+      return res.data;
+    },
+    enabled: showProducts,
+  });
+
+  const products: Product[] = productsData?.products || [];
+
+  const onError = (error: any) => {
+    playErrorSound();
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = editingId
+        ? await api.put(`/purchasing/orders/${editingId}`, data)
+        : await api.post('/purchasing/orders', data);
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast({ title: 'Purchase Order Saved', description: `${data.order.po_number} saved as draft.` });
+      resetForm();
+      openOrder(data.order.id);
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: OrderAction }) => {
+      const res = await api.post(`/purchasing/orders/${id}/${action}`);
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast({ title: `${data.order.po_number} updated` });
+    },
+    onError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, ...body }: { id: string; lines: any[]; referenceNumber?: string }) => {
+      const res = await api.post(`/purchasing/orders/${id}/receive`, body);
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      setReceiving(false);
+      setReceiveQty({});
+      setSupplierReference('');
+      toast({
+        title: 'Goods Received!',
+        description: `${data.grn.grn_number} posted. Order is now ${data.order.status.replace('_', ' ')}.`,
+      });
+    },
+    onError,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setSupplierId('');
+    setExpectedDate('');
+    setNotes('');
+    setItems([]);
+  };
+
+  const openOrder = (id: string) => {
+    setSelectedId(id);
+    setView('detail');
+  };
+
+  const startEdit = (po: PurchaseOrder) => {
+    setEditingId(po.id);
+    setSupplierId(po.supplier_id);
+    setExpectedDate(po.expected_date ? po.expected_date.slice(0, 10) : '');
+    setNotes(po.notes || '');
+    setItems((po.lines || []).map(line => ({
+      id: line.id,
+      productId: line.product_id,
+      productName: line.product_name,
+      sku: line.sku,
+      quantity: Number(line.quantity),
+      unitCost: Number(line.unit_cost),
+      taxPercent: Number(line.tax_rate) * 100,
+    })));
+    setView('form');
+  };
+
+  const addProduct = (product: Product) => {
+    if (items.some(i => i.productId === product.id)) {
+      toast({ title: 'Already added', description: 'This product is already on the order', variant: 'destructive' });
+      return;
+    }
+    setItems([...items, {
+      id: crypto.randomUUID(),
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      quantity: 1,
+      unitCost: Number(product.cost_price) || 0,
+      taxPercent: 0,
+    }]);
+    setShowProducts(false);
+    setSearch('');
+  };
+
+  const updateItem = (id: string, patch: Partial<OrderItem>) => {
+    setItems(items.map(i => i.id === id ? { ...i, ...patch } : i));
+  };
+
+  const formSubtotal = items.reduce((sum, i) => sum + i.quantity * i.unitCost, 0);
+  const formTax = items.reduce((sum, i) => sum + i.quantity * i.unitCost * (i.taxPercent / 100), 0);
+
+  const handleSave = () => {
+    if (!currentStoreId) {
+      toast({ title: 'Error', description: 'Select a store first', variant: 'destructive' });
+      return;
+    }
+    if (!supplierId) {
+      toast({ title: 'Error', description: 'Select a supplier', variant: 'destructive' });
+      return;
+    }
+    if (items.length === 0) {
+      toast({ title: 'Error', description: 'Add at least one product', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate({
+      storeId: currentStoreId,
+      supplierId,
+      expectedDate: expectedDate || undefined,
+      notes: notes || undefined,
+      lines: items.map(i => ({
+        productId: i.productId,
+        quantity: i.quantity,
+        unitCost: i.unitCost,
+        taxRate: i.taxPercent / 100,
+      })),
+    });
+  };
+
+  const openReceive = () => {
+    if (!order) return;
+    const inputs: Record<string, number> = {};
+    for (const line of order.lines || []) {
+      inputs[line.id] = Number(line.remaining_qty);
+    }
+    setReceiveQty(inputs);
+    setReceiving(true);
+  };
+
+  const handleReceive = () => {
+    if (!order) return;
+    receiveMutation.mutate({
+      id: order.id,
+      referenceNumber: supplierReference || undefined,
+      lines: Object.entries(receiveQty)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([lineId, quantity]) => ({ lineId, quantity })),
+    });
+  };
+
+  const runAction = (po: PurchaseOrder, action: OrderAction) => {
+    if ((action === 'cancel' || action === 'close') && !confirm(`${action === 'cancel' ? 'Cancel' : 'Close'} ${po.po_number}?`)) {
+      return;
+    }
+    actionMutation.mutate({ id: po.id, action });
+  };
+
+  const handleDownload = async (po: PurchaseOrder) => {
+    setDownloading(true);
+    try {
+      const response = await api.get(`/documents/purchase-order/${po.id}`, {
+        params: { format: 'a4' },
+        responseType: 'blob'
+      });
+      const blob = new Blob([response.data], { type: 'application/pdf' });
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, '_blank');
+    } catch (error) {
+      toast({ title: 'Preview failed', description: 'Could not load purchase order', variant: 'destructive' });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const getStatusBadge = (status: POStatus) => {
+    switch (status) {
+      case 'draft':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium"><Clock className="h-3 w-3" /> Draft</span>;
+      case 'approved':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full text-xs font-medium"><Check className="h-3 w-3" /> Approved</span>;
+      case 'sent':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium"><Send className="h-3 w-3" /> Sent</span>;
+      case 'partially_received':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-cyan-100 text-cyan-700 rounded-full text-xs font-medium"><Truck className="h-3 w-3" /> Partially Received</span>;
+      case 'received':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium"><CheckCircle className="h-3 w-3" /> Received</span>;
+      case 'closed':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium"><Lock className="h-3 w-3" /> Closed</span>;
+      case 'cancelled':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium"><X className="h-3 w-3" /> Cancelled</span>;
+      default:
+        return <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium">{status}</span>;
+    }
+  };
+
+  if (view === 'form') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => { resetForm(); setView(selectedId ? 'detail' : 'list'); }}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-semibold tracking-tight">
+            {editingId ? t('purchasing.editOrder') : t('purchasing.newOrder')}
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-xl border shadow-sm p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('purchasing.supplier')} *</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full h-10 border rounded-md px-3"
+              >
+                <option value="">{t('purchasing.selectSupplier')}</option>
+                {suppliers.map(supplier => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name} ({supplier.code})</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('purchasing.expectedDate')}</label>
+              <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('inventory.notes')}</label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder={t('inventory.notesPlaceholder')} />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold">Order Lines</h2>
+            <Button onClick={() => setShowProducts(true)}>
+              <Plus className="h-4 w-4 mr-2" /> Add Product
+            </Button>
+          </div>
+
+          {items.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No items added yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {items.map((item) => (
+                <div key={item.id} className="flex items-center gap-4 p-4 bg-slate-50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{item.productName}</p>
+                    <p className="text-sm text-muted-foreground">{item.sku}</p>
+                  </div>
+                  <div className="w-24">
+                    <label className="text-xs text-muted-foreground">Qty</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(item.id, { quantity: parseFloat(e.target.value) || 1 })}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="w-28">
+                    <label className="text-xs text-muted-foreground">{t('purchasing.unitCost')}</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.unitCost}
+                      onChange={(e) => updateItem(item.id, { unitCost: parseFloat(e.target.value) || 0 })}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="w-20">
+                    <label className="text-xs text-muted-foreground">{t('purchasing.taxRate')}</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={item.taxPercent}
+                      onChange={(e) => updateItem(item.id, { taxPercent: parseFloat(e.target.value) || 0 })}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="w-28 text-right font-medium">
+                    {formatCurrency(item.quantity * item.unitCost * (1 + item.taxPercent / 100), currency)}
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setItems(items.filter(i => i.id !== item.id))} className="text-red-500 hover:text-red-600">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="border-t pt-3 space-y-1 text-sm text-right">
+                <p>{t('purchasing.subtotal')}: {formatCurrency(formSubtotal, currency)}</p>
+                <p>{t('purchasing.tax')}: {formatCurrency(formTax, currency)}</p>
+                <p className="text-lg font-semibold">{t('purchasing.total')}: {formatCurrency(formSubtotal + formTax, currency)}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button size="lg" onClick={handleSave} disabled={saveMutation.isPending} className="px-8">
+            {saveMutation.isPending ? <Loader2 className="h-5 w-5 animate-spin mr-2" /> : <Check className="h-5 w-5 mr-2" />}
+            {t('inventory.saveDraft')}
+          </Button>
+        </div>
+
+        {/* Product Selection Modal */}
+        {showProducts && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold mb-3">Select Product</h2>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search products..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-10"
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div className="flex-1 overflow-y-auto p-4">
+                {productsLoading ? (
+                  <div className="text-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                  </div>
+                ) : products.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>No products found</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {products.map((product) => (
+                      <button
+                        key={product.id}
+                        onClick={() => addProduct(product)}
+                        className="w-full text-left p-3 rounded-lg hover:bg-slate-100 transition-colors"
+                      >
+                        <p className="font-medium">{product.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {product.sku} · cost {formatCurrency(Number(product.cost_price) || 0, currency)}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="p-4 border-t">
+                <Button variant="outline" className="w-full" onClick={() => { setShowProducts(false); setSearch(''); }}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (view === 'detail') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => { setSelectedId(null); setView('list'); }}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-2xl font-semibold tracking-tight">{order?.po_number || '...'}</h1>
+                {order && getStatusBadge(order.status)}
+              </div>
+              {order && (
+                <p className="text-muted-foreground">{order.supplier_name} · {order.store_name}</p>
+              )}
+            </div>
+          </div>
+          {order && (
+            <div className="flex items-center gap-2">
+              {order.status === 'draft' && (
+                <>
+                  <Button variant="outline" onClick={() => startEdit(order)}>
+                    <Pencil className="h-4 w-4 mr-2" /> {t('common.edit')}
+                  </Button>
+                  <Button onClick={() => runAction(order, 'approve')} disabled={actionMutation.isPending}>
+                    <Check className="h-4 w-4 mr-2" /> {t('purchasing.approve')}
+                  </Button>
+                </>
+              )}
+              {order.status === 'approved' && (
+                <Button onClick={() => runAction(order, 'send')} disabled={actionMutation.isPending}>
+                  <Send className="h-4 w-4 mr-2" /> {t('purchasing.markSent')}
+                </Button>
+              )}
+              {['sent', 'partially_received'].includes(order.status) && (
+                <Button onClick={openReceive}>
+                  <PackageCheck className="h-4 w-4 mr-2" /> {t('purchasing.receiveGoods')}
+                </Button>
+              )}
+              {order.status === 'partially_received' && (
+                <Button variant="outline" onClick={() => runAction(order, 'close')} disabled={actionMutation.isPending}>
+                  <Lock className="h-4 w-4 mr-2" /> {t('purchasing.closeOrder')}
+                </Button>
+              )}
+              {['draft', 'approved', 'sent'].includes(order.status) && (
+                <Button variant="outline" onClick={() => runAction(order, 'cancel')} disabled={actionMutation.isPending}>
+                  <X className="h-4 w-4 mr-2" /> {t('common.cancel')}
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => handleDownload(order)} disabled={downloading}>
+                {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {orderLoading || !order ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">{t('purchasing.orderDate')}</p>
+                <p className="text-lg font-semibold">{formatDate(order.po_date)}</p>
+              </div>
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">{t('purchasing.expectedDate')}</p>
+                <p className="text-lg font-semibold">{order.expected_date ? formatDate(order.expected_date) : '-'}</p>
+              </div>
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">{t('purchasing.tax')}</p>
+                <p className="text-lg font-semibold">{formatCurrency(order.tax_amount, currency)}</p>
+              </div>
+              <div className="bg-white rounded-xl border shadow-sm p-4">
+                <p className="text-sm text-muted-foreground">{t('purchasing.total')}</p>
+                <p className="text-lg font-semibold">{formatCurrency(order.total_amount, currency)}</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl border shadow-sm overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 border-b">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Product</th>
+                    <th className="text-right p-3 font-medium">{t('purchasing.ordered')}</th>
+                    <th className="text-right p-3 font-medium">{t('purchasing.received')}</th>
+                    <th className="text-right p-3 font-medium">{t('purchasing.remaining')}</th>
+                    <th className="text-right p-3 font-medium">{t('purchasing.unitCost')}</th>
+                    <th className="text-right p-3 font-medium">{t('purchasing.total')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {(order.lines || []).map((line) => (
+                    <tr key={line.id}>
+                      <td className="p-3">
+                        <p className="font-medium">{line.product_name}</p>
+                        <p className="text-xs text-muted-foreground">{line.sku}</p>
+                      </td>
+                      <td className="p-3 text-right">{Number(line.quantity)}</td>
+                      <td className="p-3 text-right">{Number(line.received_qty || 0)}</td>
+                      <td className="p-3 text-right">
+                        {Number(line.remaining_qty) > 0 ? (
+                          <span className="text-amber-700 font-medium">{Number(line.remaining_qty)}</span>
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-emerald-600 inline" />
+                        )}
+                      </td>
+                      <td className="p-3 text-right">{formatCurrency(line.unit_cost, currency)}</td>
+                      <td className="p-3 text-right">{formatCurrency(line.line_total, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-xl border shadow-sm">
+              <div className="p-4 border-b">
+                <h2 className="font-semibold">{t('purchasing.receipts')}</h2>
+              </div>
+              {(order.grns || []).length === 0 ? (
+                <div className="p-6 text-center text-muted-foreground text-sm">{t('purchasing.noReceipts')}</div>
+              ) : (
+                <div className="divide-y">
+                  {(order.grns || []).map((grn) => (
+                    <div key={grn.id} className="p-4 flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{grn.grn_number}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDateTime(grn.received_at)} · {grn.received_by_name}
+                          {grn.reference_number && ` · ${grn.reference_number}`}
+                        </p>
+                      </div>
+                      <p className="font-medium">{formatCurrency(grn.total_amount, currency)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {order.notes && (
+              <div className="bg-white rounded-xl border shadow-sm p-4 text-sm">
+                <p className="text-muted-foreground mb-1">{t('inventory.notes')}</p>
+                <p>{order.notes}</p>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Receive Goods Modal */}
+        {receiving && order && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">{t('purchasing.receiveGoods')} · {order.po_number}</h2>
+                <p className="text-sm text-muted-foreground">{order.supplier_name}</p>
+              </div>
+              <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.supplierReference')}</label>
+                  <Input value={supplierReference} onChange={(e) => setSupplierReference(e.target.value)} />
+                </div>
+                {(order.lines || []).filter(line => Number(line.remaining_qty) > 0).map((line) => (
+                  <div key={line.id} className="flex items-center gap-4 p-4 bg-slate-50 rounded-lg">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{line.product_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {line.sku} · {t('purchasing.remaining')} {Number(line.remaining_qty)}
+                      </p>
+                    </div>
+                    <div className="w-28">
+                      <label className="text-xs text-muted-foreground">{t('purchasing.receiveNow')}</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={receiveQty[line.id] ?? 0}
+                        onChange={(e) => setReceiveQty({ ...receiveQty, [line.id]: parseFloat(e.target.value) || 0 })}
+                        className="h-9"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="p-4 border-t flex justify-end gap-3">
+                <Button variant="outline" onClick={() => { setReceiving(false); setReceiveQty({}); }}>
+                  {t('common.cancel')}
+                </Button>
+                <Button onClick={handleReceive} disabled={receiveMutation.isPending}>
+                  {receiveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <PackageCheck className="h-4 w-4 mr-2" />}
+                  {t('purchasing.confirmReceipt')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{t('purchasing.purchaseOrders')}</h1>
+          <p className="text-muted-foreground">{t('purchasing.purchaseOrdersDesc')}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="h-10 border rounded-md px-3"
+          >
+            <option value="">{t('purchasing.allStatuses')}</option>
+            <option value="draft">Draft</option>
+            <option value="approved">Approved</option>
+            <option value="sent">Sent</option>
+            <option value="partially_received">Partially Received</option>
+            <option value="received">Received</option>
+            <option value="closed">Closed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <Button onClick={() => { resetForm(); setSelectedId(null); setView('form'); }}>
+            <Plus className="h-4 w-4 mr-2" /> {t('purchasing.newOrder')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border shadow-sm">
+        {ordersLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('purchasing.noOrders')}</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {orders.map((po) => (
+              <button
+                key={po.id}
+                onClick={() => openOrder(po.id)}
+                className="w-full text-left p-4 hover:bg-slate-50 flex items-center justify-between gap-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{po.po_number}</p>
+                    {getStatusBadge(po.status)}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{po.supplier_name} · {po.store_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {po.line_count} items · {Number(po.received_qty)}/{Number(po.ordered_qty)} received · {formatDateTime(po.created_at)}
+                  </p>
+                </div>
+                <p className="font-semibold">{formatCurrency(po.total_amount, currency)}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,781 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { playSuccessSound, playErrorSound } from '@/lib/sounds';
+import {
+  Plus, Loader2, Check, X, Clock, CheckCircle, AlertTriangle, FileText, RefreshCw,
+  Banknote, CalendarClock, Trash2
+} from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+type InvoiceStatus = 'pending' | 'matched' | 'variance' | 'paid' | 'cancelled';
+
+interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface OrderOption {
+  id: string;
+  po_number: string;
+  status: string;
+}
+
+interface InvoiceLineInput {
+  id: string;
+  purchaseOrderLineId: string | null;
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitCost: number;
+  taxAmount: number;
+}
+
+interface LineResult {
+  lineId: string;
+  productName: string;
+  sku: string;
+  invoicedQty: number;
+  invoiceCost: number;
+  receivedQty: number;
+  availableQty: number;
+  poCost: number | null;
+  issues: string[];
+}
+
+interface InvoiceMatch {
+  match_status: 'pending' | 'matched' | 'variance' | 'approved';
+  po_amount: number;
+  grn_amount: number;
+  invoice_amount: number;
+  variance_amount: number;
+  qty_tolerance_pct: number;
+  price_tolerance_pct: number;
+  line_results: LineResult[];
+  notes: string | null;
+  approved_by_name: string | null;
+  approved_at: string | null;
+}
+
+interface SupplierInvoice {
+  id: string;
+  invoice_number: string;
+  supplier_name: string;
+  po_number: string | null;
+  invoice_date: string;
+  due_date: string | null;
+  status: InvoiceStatus;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  paid_amount: number;
+  balance?: number;
+  variance_amount?: number | null;
+  notes: string | null;
+  match?: InvoiceMatch | null;
+}
+
+interface VarianceItem {
+  id: string;
+  invoice_number: string;
+  supplier_name: string;
+  po_number: string | null;
+  total_amount: number;
+  variance_amount: number;
+  line_results: LineResult[];
+  match_notes: string | null;
+}
+
+interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+const issueLabels: Record<string, string> = {
+  qty_over_received: 'Invoiced more than received',
+  price_variance: 'Price differs from PO',
+  not_on_po: 'Not on purchase order',
+  no_purchase_order: 'No purchase order',
+  no_lines: 'No invoice lines',
+};
+
+const agingColumns: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'over90', label: '90+' },
+  { key: 'total', label: 'Total' },
+];
+
+export default function SupplierInvoicesPage() {
+  const { t } = useTranslation();
+  const [activeTab, setActiveTab] = useState<'invoices' | 'variances' | 'aging'>('invoices');
+  const [showCreate, setShowCreate] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [supplierId, setSupplierId] = useState('');
+  const [purchaseOrderId, setPurchaseOrderId] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().slice(0, 10));
+  const [dueDate, setDueDate] = useState('');
+  const [lines, setLines] = useState<InvoiceLineInput[]>([]);
+  const [approvalNotes, setApprovalNotes] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState('');
+
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data: invoicesData, isLoading: invoicesLoading } = useQuery({
+    queryKey: ['supplier-invoices'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/invoices');
+      return res.data;
+    },
+  });
+
+  const invoices: SupplierInvoice[] = invoicesData?.invoices || [];
+
+  const { data: variancesData, isLoading: variancesLoading } = useQuery({
+    queryKey: ['supplier-invoices', 'variances'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/invoices/variances');
+      return res.data;
+    },
+  });
+
+  const variances: VarianceItem[] = variancesData?.variances || [];
+
+  const { data: agingData, isLoading: agingLoading } = useQuery({
+    queryKey: ['payables-aging'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/payables/aging');
+      return res.data;
+    },
+    enabled: activeTab === 'aging',
+  });
+
+  const { data: invoiceData } = useQuery({
+    queryKey: ['supplier-invoices', 'detail', selectedId],
+    queryFn: async () => {
+      const res = await api.get(`/purchasing/invoices/${selectedId}`);
+      return res.data;
+    },
+    enabled: !!selectedId,
+  });
+
+  const invoice: SupplierInvoice | undefined = invoiceData?.invoice;
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['purchasing-suppliers'],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/suppliers');
+      return res.data;
+    },
+    enabled: showCreate,
+  });
+
+  const suppliers: Supplier[] = suppliersData?.suppliers || [];
+
+  const { data: ordersData } = useQuery({
+    queryKey: ['purchase-orders', 'for-invoice', supplierId],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/orders', { params: { supplierId } });
+      return res.data;
+    },
+    enabled: showCreate && !!supplierId,
+  });
+
+  const orders: OrderOption[] = (ordersData?.orders || []).filter((o: OrderOption) =>
+    ['sent', 'partially_received', 'received', 'closed'].includes(o.status)
+  );
+
+  const onError = (error: any) => {
+    playErrorSound();
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const refreshInvoices = () => {
+    queryClient.invalidateQueries({ queryKey: ['supplier-invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['payables-aging'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await api.post('/purchasing/invoices', data);
+      return res.data;
+    },
+    onSuccess: (data) => {
+      playSuccessSound();
+      refreshInvoices();
+      resetForm();
+      setShowCreate(false);
+      setSelectedId(data.invoice.id);
+      const matched = data.invoice.status === 'matched';
+      toast({
+        title: matched ? 'Invoice Matched' : 'Invoice Needs Review',
+        description: matched
+          ? `${data.invoice.invoice_number} matches PO and receipts.`
+          : `${data.invoice.invoice_number} has variances awaiting approval.`,
+        variant: matched ? undefined : 'destructive',
+      });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: 'match' | 'approve' | 'payments' | 'cancel'; body?: any }) => {
+      const res = await api.post(`/purchasing/invoices/${id}/${action}`, body);
+      return res.data;
+    },
+    onSuccess: () => {
+      playSuccessSound();
+      refreshInvoices();
+      setApprovalNotes('');
+      setPaymentAmount('');
+      toast({ title: 'Invoice updated' });
+    },
+    onError,
+  });
+
+  const resetForm = () => {
+    setSupplierId('');
+    setPurchaseOrderId('');
+    setInvoiceNumber('');
+    setInvoiceDate(new Date().toISOString().slice(0, 10));
+    setDueDate('');
+    setLines([]);
+  };
+
+  // Prefill lines with received-but-not-yet-invoiced quantities at PO cost
+  const selectOrder = async (orderId: string) => {
+    setPurchaseOrderId(orderId);
+    if (!orderId) {
+      setLines([]);
+      return;
+    }
+    try {
+      const res = await api.get(`/purchasing/orders/${orderId}`);
+      const poLines = res.data.order.lines || [];
+      setLines(poLines
+        .map((line: any) => {
+          const quantity = Math.max(Number(line.received_qty || 0) - Number(line.invoiced_qty || 0), 0);
+          const unitCost = Number(line.unit_cost);
+          return {
+            id: line.id,
+            purchaseOrderLineId: line.id,
+            productId: line.product_id,
+            productName: line.product_name,
+            sku: line.sku,
+            quantity,
+            unitCost,
+            taxAmount: quantity * unitCost * Number(line.tax_rate || 0),
+          };
+        })
+        .filter((line: InvoiceLineInput) => line.quantity > 0));
+    } catch (error: any) {
+      onError(error);
+    }
+  };
+
+  const updateLine = (id: string, patch: Partial<InvoiceLineInput>) => {
+    setLines(lines.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  const formSubtotal = lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+  const formTax = lines.reduce((sum, l) => sum + l.taxAmount, 0);
+
+  const handleCreate = () => {
+    if (!supplierId || !invoiceNumber || !invoiceDate) {
+      toast({ title: 'Error', description: 'Supplier, invoice number and date are required', variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate({
+      supplierId,
+      purchaseOrderId: purchaseOrderId || undefined,
+      invoiceNumber,
+      invoiceDate,
+      dueDate: dueDate || undefined,
+      lines: lines.map(l => ({
+        purchaseOrderLineId: l.purchaseOrderLineId,
+        productId: l.productId,
+        quantity: l.quantity,
+        unitCost: l.unitCost,
+        taxAmount: l.taxAmount,
+      })),
+    });
+  };
+
+  const getStatusBadge = (status: InvoiceStatus) => {
+    switch (status) {
+      case 'pending':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium"><Clock className="h-3 w-3" /> Pending</span>;
+      case 'matched':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium"><Check className="h-3 w-3" /> Matched</span>;
+      case 'variance':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-orange-100 text-orange-700 rounded-full text-xs font-medium"><AlertTriangle className="h-3 w-3" /> Variance</span>;
+      case 'paid':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium"><CheckCircle className="h-3 w-3" /> Paid</span>;
+      case 'cancelled':
+        return <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-medium"><X className="h-3 w-3" /> Cancelled</span>;
+      default:
+        return <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium">{status}</span>;
+    }
+  };
+
+  const renderLineResults = (results: LineResult[]) => (
+    <table className="w-full text-sm">
+      <thead className="bg-slate-50 border-b">
+        <tr>
+          <th className="text-left p-2 font-medium">Product</th>
+          <th className="text-right p-2 font-medium">{t('purchasing.invoiced')}</th>
+          <th className="text-right p-2 font-medium">{t('purchasing.received')}</th>
+          <th className="text-right p-2 font-medium">{t('purchasing.invoiceCost')}</th>
+          <th className="text-right p-2 font-medium">{t('purchasing.poCost')}</th>
+          <th className="text-left p-2 font-medium">{t('purchasing.matchResult')}</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {results.map((line) => (
+          <tr key={line.lineId} className={line.issues.length > 0 ? 'bg-orange-50' : ''}>
+            <td className="p-2">
+              <p className="font-medium">{line.productName}</p>
+              <p className="text-xs text-muted-foreground">{line.sku}</p>
+            </td>
+            <td className="p-2 text-right">{line.invoicedQty}</td>
+            <td className="p-2 text-right">{line.availableQty}</td>
+            <td className="p-2 text-right">{formatCurrency(line.invoiceCost, currency)}</td>
+            <td className="p-2 text-right">{line.poCost === null ? '-' : formatCurrency(line.poCost, currency)}</td>
+            <td className="p-2">
+              {line.issues.length === 0 ? (
+                <CheckCircle className="h-4 w-4 text-emerald-600" />
+              ) : (
+                <div className="space-y-0.5">
+                  {line.issues.map(issue => (
+                    <p key={issue} className="text-xs text-orange-700">{issueLabels[issue] || issue}</p>
+                  ))}
+                </div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{t('purchasing.supplierInvoices')}</h1>
+          <p className="text-muted-foreground">{t('purchasing.supplierInvoicesDesc')}</p>
+        </div>
+        <Button onClick={() => { resetForm(); setShowCreate(true); }}>
+          <Plus className="h-4 w-4 mr-2" /> {t('purchasing.newInvoice')}
+        </Button>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b">
+        <button
+          onClick={() => setActiveTab('invoices')}
+          className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+            activeTab === 'invoices' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <FileText className="h-4 w-4 inline mr-2" />
+          {t('purchasing.supplierInvoices')}
+        </button>
+        <button
+          onClick={() => setActiveTab('variances')}
+          className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+            activeTab === 'variances' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <AlertTriangle className="h-4 w-4 inline mr-2" />
+          {t('purchasing.varianceQueue')}
+          {variances.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full text-xs">{variances.length}</span>
+          )}
+        </button>
+        <button
+          onClick={() => setActiveTab('aging')}
+          className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+            activeTab === 'aging' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <CalendarClock className="h-4 w-4 inline mr-2" />
+          {t('purchasing.apAging')}
+        </button>
+      </div>
+
+      {activeTab === 'invoices' && (
+        <div className="bg-white rounded-xl border shadow-sm">
+          {invoicesLoading ? (
+            <div className="p-8 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('purchasing.noInvoices')}</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {invoices.map((inv) => (
+                <button
+                  key={inv.id}
+                  onClick={() => setSelectedId(inv.id)}
+                  className="w-full text-left p-4 hover:bg-slate-50 flex items-center justify-between gap-4"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{inv.invoice_number}</p>
+                      {getStatusBadge(inv.status)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {inv.supplier_name}{inv.po_number && ` · ${inv.po_number}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(inv.invoice_date)} · {t('purchasing.dueDate')} {inv.due_date ? formatDate(inv.due_date) : '-'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold">{formatCurrency(inv.total_amount, currency)}</p>
+                    {Number(inv.balance) > 0 && inv.status !== 'cancelled' && (
+                      <p className="text-xs text-muted-foreground">{t('purchasing.balance')} {formatCurrency(Number(inv.balance), currency)}</p>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'variances' && (
+        <div className="space-y-4">
+          {variancesLoading ? (
+            <div className="p-8 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            </div>
+          ) : variances.length === 0 ? (
+            <div className="bg-white rounded-xl border shadow-sm p-8 text-center text-muted-foreground">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('purchasing.noVariances')}</p>
+            </div>
+          ) : (
+            variances.map((item) => (
+              <div key={item.id} className="bg-white rounded-xl border shadow-sm">
+                <div className="p-4 border-b flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium">{item.invoice_number} · {item.supplier_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {item.po_number || issueLabels.no_purchase_order} · {t('purchasing.variance')} {formatCurrency(Number(item.variance_amount), currency)}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedId(item.id)}>
+                    {t('purchasing.review')}
+                  </Button>
+                </div>
+                {item.line_results.length > 0 && <div className="overflow-x-auto">{renderLineResults(item.line_results)}</div>}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {activeTab === 'aging' && (
+        <div className="bg-white rounded-xl border shadow-sm overflow-x-auto">
+          {agingLoading || !agingData ? (
+            <div className="p-8 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 border-b">
+                <tr>
+                  <th className="text-left p-3 font-medium">{t('purchasing.supplier')}</th>
+                  {agingColumns.map(col => (
+                    <th key={col.key} className="text-right p-3 font-medium">{col.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {agingData.suppliers.length === 0 ? (
+                  <tr>
+                    <td colSpan={agingColumns.length + 1} className="p-8 text-center text-muted-foreground">{t('purchasing.noPayables')}</td>
+                  </tr>
+                ) : agingData.suppliers.map((row: AgingBuckets & { supplierId: string; supplierName: string }) => (
+                  <tr key={row.supplierId}>
+                    <td className="p-3 font-medium">{row.supplierName}</td>
+                    {agingColumns.map(col => (
+                      <td key={col.key} className={`p-3 text-right ${col.key === 'over90' && row.over90 > 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {row[col.key] ? formatCurrency(row[col.key], currency) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t bg-slate-50 font-semibold">
+                <tr>
+                  <td className="p-3">{t('purchasing.total')}</td>
+                  {agingColumns.map(col => (
+                    <td key={col.key} className="p-3 text-right">{formatCurrency(agingData.totals[col.key], currency)}</td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* Create Invoice Modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">{t('purchasing.newInvoice')}</h2>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.supplier')} *</label>
+                  <select
+                    value={supplierId}
+                    onChange={(e) => { setSupplierId(e.target.value); setPurchaseOrderId(''); setLines([]); }}
+                    className="w-full h-10 border rounded-md px-3"
+                  >
+                    <option value="">{t('purchasing.selectSupplier')}</option>
+                    {suppliers.map(s => (
+                      <option key={s.id} value={s.id}>{s.name} ({s.code})</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.purchaseOrder')}</label>
+                  <select
+                    value={purchaseOrderId}
+                    onChange={(e) => selectOrder(e.target.value)}
+                    className="w-full h-10 border rounded-md px-3"
+                    disabled={!supplierId}
+                  >
+                    <option value="">-</option>
+                    {orders.map(o => (
+                      <option key={o.id} value={o.id}>{o.po_number}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.invoiceNumber')} *</label>
+                  <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('purchasing.invoiceDate')} *</label>
+                    <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">{t('purchasing.dueDate')}</label>
+                    <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                  </div>
+                </div>
+              </div>
+
+              {lines.length === 0 ? (
+                <div className="p-6 text-center text-sm text-muted-foreground bg-slate-50 rounded-lg">
+                  {purchaseOrderId ? t('purchasing.nothingToInvoice') : t('purchasing.selectOrderForLines')}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {lines.map((line) => (
+                    <div key={line.id} className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{line.productName}</p>
+                        <p className="text-xs text-muted-foreground">{line.sku}</p>
+                      </div>
+                      <div className="w-20">
+                        <label className="text-xs text-muted-foreground">Qty</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.id, { quantity: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </div>
+                      <div className="w-28">
+                        <label className="text-xs text-muted-foreground">{t('purchasing.unitCost')}</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unitCost}
+                          onChange={(e) => updateLine(line.id, { unitCost: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </div>
+                      <div className="w-24">
+                        <label className="text-xs text-muted-foreground">{t('purchasing.tax')}</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.taxAmount}
+                          onChange={(e) => updateLine(line.id, { taxAmount: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </div>
+                      <Button variant="ghost" size="icon" onClick={() => setLines(lines.filter(l => l.id !== line.id))} className="text-red-500 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="text-right text-sm space-y-1 pt-2">
+                    <p>{t('purchasing.subtotal')}: {formatCurrency(formSubtotal, currency)}</p>
+                    <p>{t('purchasing.tax')}: {formatCurrency(formTax, currency)}</p>
+                    <p className="font-semibold">{t('purchasing.total')}: {formatCurrency(formSubtotal + formTax, currency)}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setShowCreate(false)}>{t('common.cancel')}</Button>
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+                {t('purchasing.saveAndMatch')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Invoice Detail Modal */}
+      {selectedId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+            {!invoice ? (
+              <div className="p-8 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+              </div>
+            ) : (
+              <>
+                <div className="p-4 border-b flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-lg font-semibold">{invoice.invoice_number}</h2>
+                      {getStatusBadge(invoice.status)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {invoice.supplier_name}{invoice.po_number && ` · ${invoice.po_number}`} · {t('purchasing.dueDate')} {invoice.due_date ? formatDate(invoice.due_date) : '-'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setSelectedId(null)}>
+                    <X className="h-5 w-5" />
+                  </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  {invoice.match && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      <div className="p-3 bg-slate-50 rounded-lg">
+                        <p className="text-xs text-muted-foreground">{t('purchasing.poValue')}</p>
+                        <p className="font-semibold">{formatCurrency(Number(invoice.match.po_amount), currency)}</p>
+                      </div>
+                      <div className="p-3 bg-slate-50 rounded-lg">
+                        <p className="text-xs text-muted-foreground">{t('purchasing.receivedValue')}</p>
+                        <p className="font-semibold">{formatCurrency(Number(invoice.match.grn_amount), currency)}</p>
+                      </div>
+                      <div className="p-3 bg-slate-50 rounded-lg">
+                        <p className="text-xs text-muted-foreground">{t('purchasing.invoiceValue')}</p>
+                        <p className="font-semibold">{formatCurrency(Number(invoice.match.invoice_amount), currency)}</p>
+                      </div>
+                      <div className={`p-3 rounded-lg ${Number(invoice.match.variance_amount) !== 0 ? 'bg-orange-50' : 'bg-slate-50'}`}>
+                        <p className="text-xs text-muted-foreground">{t('purchasing.variance')}</p>
+                        <p className="font-semibold">{formatCurrency(Number(invoice.match.variance_amount), currency)}</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {invoice.match && (
+                    <p className="text-xs text-muted-foreground">
+                      {t('purchasing.tolerance')}: qty {Number(invoice.match.qty_tolerance_pct)}% · price {Number(invoice.match.price_tolerance_pct)}%
+                      {invoice.match.notes && (invoice.match.notes.split(',').map(n => ` · ${issueLabels[n] || n}`).join(''))}
+                      {invoice.match.approved_at && ` · approved by ${invoice.match.approved_by_name} on ${formatDate(invoice.match.approved_at)}`}
+                    </p>
+                  )}
+
+                  {invoice.match && invoice.match.line_results.length > 0 && (
+                    <div className="border rounded-lg overflow-x-auto">{renderLineResults(invoice.match.line_results)}</div>
+                  )}
+
+                  {invoice.status === 'variance' && (
+                    <div className="p-4 bg-orange-50 rounded-lg space-y-2">
+                      <label className="text-sm font-medium">{t('purchasing.approvalNotes')}</label>
+                      <Input value={approvalNotes} onChange={(e) => setApprovalNotes(e.target.value)} />
+                    </div>
+                  )}
+
+                  {invoice.status === 'matched' && (
+                    <div className="p-4 bg-slate-50 rounded-lg flex items-end gap-3">
+                      <div className="flex-1 space-y-2">
+                        <label className="text-sm font-medium">
+                          {t('purchasing.recordPayment')} ({t('purchasing.balance')} {formatCurrency(Number(invoice.total_amount) - Number(invoice.paid_amount || 0), currency)})
+                        </label>
+                        <Input type="number" min="0" step="0.01" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} />
+                      </div>
+                      <Button
+                        onClick={() => actionMutation.mutate({ id: invoice.id, action: 'payments', body: { amount: parseFloat(paymentAmount) } })}
+                        disabled={actionMutation.isPending || !(parseFloat(paymentAmount) > 0)}
+                      >
+                        <Banknote className="h-4 w-4 mr-2" /> {t('purchasing.pay')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="p-4 border-t flex justify-end gap-3">
+                  {['pending', 'matched', 'variance'].includes(invoice.status) && Number(invoice.paid_amount || 0) === 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        if (confirm(`Cancel invoice ${invoice.invoice_number}?`)) {
+                          actionMutation.mutate({ id: invoice.id, action: 'cancel' });
+                        }
+                      }}
+                      disabled={actionMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-2" /> {t('common.cancel')}
+                    </Button>
+                  )}
+                  {['pending', 'variance'].includes(invoice.status) && (
+                    <Button variant="outline" onClick={() => actionMutation.mutate({ id: invoice.id, action: 'match' })} disabled={actionMutation.isPending}>
+                      <RefreshCw className="h-4 w-4 mr-2" /> {t('purchasing.rematch')}
+                    </Button>
+                  )}
+                  {invoice.status === 'variance' && (
+                    <Button
+                      onClick={() => actionMutation.mutate({ id: invoice.id, action: 'approve', body: { notes: approvalNotes || undefined } })}
+                      disabled={actionMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-2" /> {t('purchasing.approveVariance')}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/hooks/use-toast';
+import { Plus, X, Loader2, Truck, Search, Edit2, Trash2, AlertTriangle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  payment_terms: number;
+  lead_time_days: number;
+  tax_id?: string;
+  notes?: string;
+  is_active: boolean;
+  po_count: number;
+  open_po_value: number;
+}
+
+interface Scorecard {
+  supplierId: string;
+  receiptCount: number;
+  onTimeRate: number | null;
+  avgLeadDays: number | null;
+  fillRate: number | null;
+  costVariance: number;
+  costVariancePct: number | null;
+}
+
+const emptyForm = {
+  code: '', name: '', contactName: '', email: '', phone: '',
+  paymentTerms: 30, leadTimeDays: 7, taxId: '', notes: '',
+};
+
+const periods = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' },
+  { days: 0, label: 'All time' },
+];
+
+const formatRate = (value: number | null) => value === null ? '-' : `${value.toFixed(1)}%`;
+
+const rateColor = (value: number | null, good: number, warn: number) => {
+  if (value === null) return 'text-muted-foreground';
+  if (value >= good) return 'text-emerald-600';
+  if (value >= warn) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+export default function SuppliersPage() {
+  const { t } = useTranslation();
+  const [showModal, setShowModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<Supplier | null>(null);
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [periodDays, setPeriodDays] = useState(90);
+  const [formData, setFormData] = useState(emptyForm);
+  const queryClient = useQueryClient();
+  const { tenant } = useAuthStore();
+  const currency = tenant?.currencyCode;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['suppliers', search, showInactive],
+    queryFn: async () => {
+      const res = await api.get('/purchasing/suppliers', { params: { search, includeInactive: showInactive } });
+      return res.data;
+    },
+  });
+
+  const { data: scorecardData } = useQuery({
+    queryKey: ['supplier-scorecards', periodDays],
+    queryFn: async () => {
+      const from = periodDays
+        ? new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+        : undefined;
+      const res = await api.get('/purchasing/suppliers/scorecard', { params: { from } });
+      return res.data;
+    },
+  });
+
+  const suppliers: Supplier[] = data?.suppliers || [];
+  const scorecards: Record<string, Scorecard> = Object.fromEntries(
+    (scorecardData?.scorecards || []).map((s: Scorecard) => [s.supplierId, s])
+  );
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.response?.data?.error || 'Request failed', variant: 'destructive' });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    queryClient.invalidateQueries({ queryKey: ['purchasing-suppliers'] });
+    queryClient.invalidateQueries({ queryKey: ['supplier-scorecards'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await api.post('/purchasing/suppliers', data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeModal();
+      toast({ title: 'Supplier created', description: 'Supplier has been added successfully.' });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      const res = await api.put(`/purchasing/suppliers/${id}`, data);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeModal();
+      toast({ title: 'Supplier updated', description: 'Changes saved successfully.' });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/purchasing/suppliers/${id}`);
+      return res.data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeleteConfirm(null);
+      toast({ title: 'Supplier deactivated', description: 'Supplier can no longer be used on new orders.' });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      code: supplier.code,
+      name: supplier.name,
+      contactName: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      paymentTerms: supplier.payment_terms,
+      leadTimeDays: supplier.lead_time_days,
+      taxId: supplier.tax_id || '',
+      notes: supplier.notes || '',
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingSupplier) {
+      updateMutation.mutate({ id: editingSupplier.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{t('purchasing.suppliers')}</h1>
+          <p className="text-muted-foreground">{t('purchasing.suppliersDesc')}</p>
+        </div>
+        <Button onClick={openCreate}><Plus className="h-4 w-4 mr-2" /> {t('purchasing.addSupplier')}</Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input placeholder={t('purchasing.searchSuppliers')} className="pl-10" value={search} onChange={(e) => setSearch(e.target.value)} />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+          {t('purchasing.showInactive')}
+        </label>
+        <div className="flex items-center gap-2 text-sm sm:ml-auto">
+          <span className="text-muted-foreground">{t('purchasing.scorecardPeriod')}</span>
+          <select value={periodDays} onChange={(e) => setPeriodDays(parseInt(e.target.value))} className="h-9 border rounded-md px-2">
+            {periods.map(p => <option key={p.days} value={p.days}>{p.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border shadow-sm overflow-x-auto">
+        {isLoading ? (
+          <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>
+        ) : suppliers.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Truck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('purchasing.noSuppliers')}</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 border-b">
+              <tr>
+                <th className="text-left p-3 font-medium">{t('purchasing.supplier')}</th>
+                <th className="text-left p-3 font-medium">{t('purchasing.contact')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.terms')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.leadTime')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.onTime')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.fillRate')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.costVariance')}</th>
+                <th className="text-right p-3 font-medium">{t('purchasing.openOrders')}</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {suppliers.map((supplier) => {
+                const score = scorecards[supplier.id];
+                return (
+                  <tr key={supplier.id} className={supplier.is_active ? 'hover:bg-slate-50' : 'opacity-50'}>
+                    <td className="p-3">
+                      <p className="font-medium">{supplier.name}</p>
+                      <p className="text-xs text-muted-foreground">{supplier.code}{supplier.tax_id && ` · ${supplier.tax_id}`}</p>
+                    </td>
+                    <td className="p-3">
+                      <p>{supplier.contact_name || '-'}</p>
+                      <p className="text-xs text-muted-foreground">{supplier.phone || supplier.email || ''}</p>
+                    </td>
+                    <td className="p-3 text-right">Net {supplier.payment_terms}</td>
+                    <td className="p-3 text-right">
+                      {supplier.lead_time_days}d
+                      {score?.avgLeadDays != null && (
+                        <p className="text-xs text-muted-foreground">actual {score.avgLeadDays.toFixed(1)}d</p>
+                      )}
+                    </td>
+                    <td className={`p-3 text-right font-medium ${rateColor(score?.onTimeRate ?? null, 90, 75)}`}>
+                      {formatRate(score?.onTimeRate ?? null)}
+                      {score?.receiptCount ? <p className="text-xs text-muted-foreground font-normal">{score.receiptCount} GRNs</p> : null}
+                    </td>
+                    <td className={`p-3 text-right font-medium ${rateColor(score?.fillRate ?? null, 95, 85)}`}>
+                      {formatRate(score?.fillRate ?? null)}
+                    </td>
+                    <td className={`p-3 text-right ${score && score.costVariance > 0 ? 'text-red-600' : ''}`}>
+                      {score?.costVariancePct != null ? (
+                        <>
+                          {score.costVariancePct > 0 ? '+' : ''}{score.costVariancePct.toFixed(1)}%
+                          <p className="text-xs text-muted-foreground">{formatCurrency(score.costVariance, currency)}</p>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="p-3 text-right">{formatCurrency(Number(supplier.open_po_value), currency)}</td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(supplier)}><Edit2 className="h-4 w-4" /></Button>
+                        {supplier.is_active && (
+                          <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" onClick={() => setDeleteConfirm(supplier)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-lg font-semibold">{editingSupplier ? t('purchasing.editSupplier') : t('purchasing.addSupplier')}</h2>
+              <button onClick={closeModal} className="text-muted-foreground hover:text-foreground">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code *</label>
+                  <Input placeholder="SUP-001" value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value })} required />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} required />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.contact')}</label>
+                  <Input value={formData.contactName} onChange={(e) => setFormData({ ...formData, contactName: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Phone</label>
+                  <Input value={formData.phone} onChange={(e) => setFormData({ ...formData, phone: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Email</label>
+                <Input type="email" value={formData.email} onChange={(e) => setFormData({ ...formData, email: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.paymentTermsDays')}</label>
+                  <Input type="number" min="0" value={formData.paymentTerms} onChange={(e) => setFormData({ ...formData, paymentTerms: parseInt(e.target.value) || 0 })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.leadTimeDays')}</label>
+                  <Input type="number" min="0" value={formData.leadTimeDays} onChange={(e) => setFormData({ ...formData, leadTimeDays: parseInt(e.target.value) || 0 })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('purchasing.taxId')}</label>
+                  <Input value={formData.taxId} onChange={(e) => setFormData({ ...formData, taxId: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('inventory.notes')}</label>
+                <Input value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="outline" className="flex-1" onClick={closeModal}>Cancel</Button>
+                <Button type="submit" className="flex-1" disabled={createMutation.isPending || updateMutation.isPending}>
+                  {(createMutation.isPending || updateMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {editingSupplier ? 'Save Changes' : 'Add Supplier'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md mx-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="h-12 w-12 rounded-full bg-red-100 flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-lg">Deactivate Supplier?</h3>
+                <p className="text-muted-foreground text-sm">Order and receipt history is kept.</p>
+              </div>
+            </div>
+            <p className="mb-6">Deactivate <strong>{deleteConfirm.name}</strong>?</p>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setDeleteConfirm(null)}>Cancel</Button>
+              <Button variant="destructive" className="flex-1" onClick={() => deleteMutation.mutate(deleteConfirm.id)} disabled={deleteMutation.isPending}>
+                {deleteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Deactivate
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
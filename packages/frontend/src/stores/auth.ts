@@ -75,7 +75,7 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const response = await api.post('/auth/login', { email, password });
-          const { user, tenant, stores, permissions, accessToken, refreshToken, isSuperAdmin } = response.data.data;
+          const { user, tenant, stores, permissions, accessToken, refreshToken, isSuperAdmin } = response.data;
           
           set({
             user,
@@ -99,7 +99,7 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const response = await api.post('/auth/register', data);
-          const { user, tenant, stores, permissions, accessToken, refreshToken } = response.data.data;
+          const { user, tenant, stores, permissions, accessToken, refreshToken } = response.data;
           
           set({
             user,
@@ -138,7 +138,8 @@ export const useAuthStore = create<AuthState>()(
       },
 
       hasPermission: (permission: string) => {
-        return get().permissions.includes(permission);
+        const { permissions } = get();
+        return permissions.includes('*') || permissions.includes('all') || permissions.includes(permission);
       },
 
       refreshStores: async () => {
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import { api } from '@/lib/api';
+import { listOutbox, removeFromOutbox, updateOutboxEntry, OutboxSale } from '@/lib/offline-db';
+
+interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+interface OfflineState {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  failedCount: number;
+  lastSyncAt: Date | null;
+
+  // Actions
+  setOnline: (online: boolean) => void;
+  refreshCounts: () => Promise<void>;
+  syncOutbox: () => Promise<SyncResult>;
+}
+
+// Axios sets `response` only when the server answered; anything else means the
+// request never reached it (offline, DNS, server down)
+export const isNetworkError = (error: any) => !error?.response;
+
+export const useOfflineStore = create<OfflineState>((set, get) => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pendingCount: 0,
+  failedCount: 0,
+  lastSyncAt: null,
+
+  setOnline: (online) => {
+    set({ isOnline: online });
+  },
+
+  refreshCounts: async () => {
+    const entries = await listOutbox();
+    set({
+      pendingCount: entries.filter(e => e.status === 'pending').length,
+      failedCount: entries.filter(e => e.status === 'failed').length,
+    });
+  },
+
+  // Replay queued sales oldest-first. The server returns the original receipt
+  // for an idempotency key it has already seen, so retrying is always safe.
+  syncOutbox: async () => {
+    const result: SyncResult = { synced: 0, failed: 0, conflicts: 0 };
+    if (get().syncing) return result;
+    set({ syncing: true });
+
+    try {
+      const entries = await listOutbox();
+      for (const entry of entries) {
+        try {
+          const res = await api.post('/pos/sale', entry.payload);
+          await removeFromOutbox(entry.idempotencyKey);
+          result.synced++;
+          result.conflicts += res.data.conflicts?.length || 0;
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            set({ isOnline: false });
+            break;
+          }
+          const failed: OutboxSale = {
+            ...entry,
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            lastError: error.response?.data?.error || error.message,
+          };
+          await updateOutboxEntry(failed);
+          result.failed++;
+        }
+      }
+      set({ lastSyncAt: new Date() });
+    } finally {
+      set({ syncing: false });
+      await get().refreshCounts();
+    }
+
+    return result;
+  },
+}));
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    useOfflineStore.getState().setOnline(true);
+    useOfflineStore.getState().syncOutbox();
+  });
+  window.addEventListener('offline', () => {
+    useOfflineStore.getState().setOnline(false);
+  });
+}